@@ -0,0 +1,128 @@
+#!/usr/bin/env tsx
+/**
+ * Mock Stripe Webhook Sender
+ * Signs and delivers a subscription or invoice event to the local billing
+ * webhook, so plan changes can be exercised without a Stripe account.
+ *
+ * Usage:
+ *   npx tsx --env-file=.env scripts/send-billing-webhook.ts <event> --customer cus_123 [options]
+ *
+ * Events: customer.subscription.created | customer.subscription.updated |
+ *         customer.subscription.deleted | invoice.payment_failed
+ *
+ * Options:
+ *   --customer <id>       Stripe customer id stored on the user (required)
+ *   --user <id>           User id, for customers not yet linked to a user
+ *   --subscription <id>   Subscription id (default: sub_mock_<customer>)
+ *   --plan PLUS|PRO       Plan to subscribe to (default: PRO)
+ *   --interval MONTHLY|YEARLY
+ *   --status <status>     Stripe subscription status (default: active)
+ *   --cancel-at-period-end
+ *   --url <url>           Webhook endpoint (default: $NEXTAUTH_URL/api/billing/webhook)
+ *
+ * Prices come from the STRIPE_PRICE_* variables and the signature from
+ * STRIPE_WEBHOOK_SECRET, the same ones the app reads.
+ */
+
+import { randomBytes } from 'crypto';
+import { getBillingConfig, priceIdFor } from '../src/lib/billing/config';
+import { signWebhookPayload } from '../src/lib/billing/webhooks';
+import type { BillingInterval, PaidPlan } from '../src/lib/billing/types';
+
+const EVENTS = [
+  'customer.subscription.created',
+  'customer.subscription.updated',
+  'customer.subscription.deleted',
+  'invoice.payment_failed',
+];
+
+function parseArgs(argv: string[]) {
+  const [type, ...rest] = argv;
+  const options: Record<string, string | boolean> = {};
+  for (let i = 0; i < rest.length; i++) {
+    const key = rest[i].replace(/^--/, '');
+    const next = rest[i + 1];
+    if (next && !next.startsWith('--')) {
+      options[key] = next;
+      i++;
+    } else {
+      options[key] = true;
+    }
+  }
+  return { type, options };
+}
+
+function buildObject(type: string, options: Record<string, string | boolean>) {
+  const customer = String(options.customer);
+  const subscription = String(options.subscription || `sub_mock_${customer}`);
+
+  if (type === 'invoice.payment_failed') {
+    return {
+      id: `in_${randomBytes(8).toString('hex')}`,
+      object: 'invoice',
+      customer,
+      subscription,
+    };
+  }
+
+  const plan = String(options.plan || 'PRO') as PaidPlan;
+  const interval = String(options.interval || 'MONTHLY') as BillingInterval;
+  const periodDays = interval === 'YEARLY' ? 365 : 30;
+
+  return {
+    id: subscription,
+    object: 'subscription',
+    customer,
+    status: type === 'customer.subscription.deleted' ? 'canceled' : String(options.status || 'active'),
+    cancel_at_period_end: options['cancel-at-period-end'] === true,
+    current_period_end: Math.floor(Date.now() / 1000) + periodDays * 24 * 60 * 60,
+    items: {
+      data: [{ id: `si_mock_${customer}`, price: { id: priceIdFor(plan, interval) } }],
+    },
+    metadata: options.user ? { userId: String(options.user) } : {},
+  };
+}
+
+async function main() {
+  const { type, options } = parseArgs(process.argv.slice(2));
+
+  if (!EVENTS.includes(type) || !options.customer) {
+    console.error(`Usage: send-billing-webhook.ts <${EVENTS.join('|')}> --customer <id> [options]`);
+    process.exit(1);
+  }
+
+  const { webhookSecret } = getBillingConfig();
+  if (!webhookSecret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not set');
+    process.exit(1);
+  }
+
+  const url = String(
+    options.url || `${(process.env.NEXTAUTH_URL || 'http://localhost:1000').replace(/\/$/, '')}/api/billing/webhook`
+  );
+  const payload = JSON.stringify({
+    id: `evt_${randomBytes(12).toString('hex')}`,
+    object: 'event',
+    type,
+    created: Math.floor(Date.now() / 1000),
+    data: { object: buildObject(type, options) },
+  });
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': signWebhookPayload(payload, webhookSecret),
+    },
+    body: payload,
+  });
+
+  console.log(`${type} -> ${url}: ${response.status}`);
+  console.log(await response.text());
+  if (!response.ok) process.exit(1);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,81 @@
+import React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { KanbanPrimitive } from '@/components/primitives';
+import type { FieldDefinition } from '@/lib/scaffolder-v2/types';
+import type { DataRecord } from '@/lib/primitives/types';
+
+const fields: FieldDefinition[] = [
+  { name: 'title', label: 'Title', type: 'string', required: true },
+  { name: 'status', label: 'Status', type: 'enum', required: false, options: ['Open', 'Done'] },
+];
+
+const records: DataRecord[] = [
+  { id: 't1', title: 'Buy milk', status: 'Open', createdAt: '2024-01-01', updatedAt: '2024-01-01' },
+  { id: 't2', title: 'Pay rent', status: 'Done', createdAt: '2024-01-02', updatedAt: '2024-01-02' },
+  { id: 't3', title: 'Call mum', createdAt: '2024-01-03', updatedAt: '2024-01-03' },
+];
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function dispatch(element: Element, type: string) {
+  element.dispatchEvent(new Event(type, { bubbles: true, cancelable: true }));
+}
+
+describe('KanbanPrimitive', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    root.unmount();
+    container.remove();
+  });
+
+  /** Column elements, in order, keyed by their heading */
+  function columns() {
+    return Array.from(container.querySelectorAll('.min-w-\\[220px\\]'));
+  }
+
+  it('makes a column per option and one for records without a value', async () => {
+    root.render(<KanbanPrimitive data={records} fields={fields} config={{}} />);
+    await flush();
+
+    const headings = columns().map(column => column.firstElementChild?.firstElementChild?.textContent);
+    expect(headings).toEqual(['Open', 'Done', 'No Status']);
+    expect(columns()[2].textContent).toContain('Call mum');
+  });
+
+  it('moves a card by updating its column field when dropped', async () => {
+    const onUpdate = jest.fn();
+    root.render(<KanbanPrimitive data={records} fields={fields} config={{ groupBy: 'status' }} onUpdate={onUpdate} />);
+    await flush();
+
+    const card = columns()[0].querySelector('[draggable="true"]') as HTMLElement;
+    dispatch(card, 'dragstart');
+    await flush();
+    dispatch(columns()[1], 'dragover');
+    dispatch(columns()[1], 'drop');
+    await flush();
+
+    expect(onUpdate).toHaveBeenCalledWith('t1', { status: 'Done' });
+  });
+
+  it('keeps cards in place without an update handler', async () => {
+    root.render(<KanbanPrimitive data={records} fields={fields} config={{}} />);
+    await flush();
+
+    expect(container.querySelector('[draggable="true"]')).toBeNull();
+  });
+
+  it('asks for an option field when the schema has none', async () => {
+    root.render(<KanbanPrimitive data={records} fields={fields.slice(0, 1)} config={{}} />);
+    await flush();
+
+    expect(container.textContent).toContain('Add an option field');
+  });
+});
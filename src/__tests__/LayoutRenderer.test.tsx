@@ -0,0 +1,132 @@
+import React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { LayoutRenderer } from '@/components/runtime';
+import type { LayoutNode, Schema } from '@/lib/scaffolder-v2/types';
+import type { DataRecord } from '@/lib/primitives/types';
+
+const schema: Schema = {
+  name: 'Task',
+  label: 'Task',
+  fields: [
+    { name: 'id', label: 'ID', type: 'string', required: true, generated: true, primaryKey: true },
+    { name: 'title', label: 'Title', type: 'string', required: true },
+    { name: 'status', label: 'Status', type: 'enum', required: false, options: ['Open', 'Done'] },
+  ],
+};
+
+const records: DataRecord[] = [
+  { id: 't1', title: 'Buy milk', status: 'Open', createdAt: '2024-01-01', updatedAt: '2024-01-01' },
+  { id: 't2', title: 'Pay rent', status: 'Done', createdAt: '2024-01-02', updatedAt: '2024-01-02' },
+];
+
+function componentNode(id: string, type: string, props: Record<string, unknown> = {}): LayoutNode {
+  return { id, type: 'component', component: { type: type as never, props } };
+}
+
+const layout: LayoutNode = {
+  id: 'root',
+  type: 'container',
+  container: {
+    direction: 'row',
+    gap: '2rem',
+    responsive: { mobile: 'tabs', tablet: 'side-by-side', desktop: 'side-by-side' },
+    children: [
+      componentNode('filters', 'filters', { fields: ['status'] }),
+      componentNode('list', 'list', { title: 'Tasks', titleField: 'title' }),
+      componentNode('form', 'form', { title: 'New task' }),
+    ],
+  },
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('LayoutRenderer', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+    window.innerWidth = 1280;
+  });
+
+  afterEach(() => {
+    root.unmount();
+    container.remove();
+  });
+
+  function render(overrides: Partial<React.ComponentProps<typeof LayoutRenderer>> = {}) {
+    root.render(
+      <LayoutRenderer
+        layout={layout}
+        schemas={[schema]}
+        foreignKeys={[]}
+        records={{ Task: records }}
+        collection="Task"
+        onCreate={jest.fn()}
+        onUpdate={jest.fn()}
+        onDelete={jest.fn()}
+        {...overrides}
+      />
+    );
+    return flush();
+  }
+
+  it('lays out components side by side with the container gap', async () => {
+    await render();
+
+    const row = container.firstElementChild as HTMLElement;
+    expect(row.className).toContain('flex-row');
+    expect(row.style.gap).toBe('2rem');
+    expect(row.children).toHaveLength(3);
+    expect(container.textContent).toContain('Buy milk');
+    expect(container.textContent).toContain('New task');
+  });
+
+  it('narrows bound components with a filters component', async () => {
+    await render();
+
+    const select = container.querySelector('select') as HTMLSelectElement;
+    const setValue = Object.getOwnPropertyDescriptor(HTMLSelectElement.prototype, 'value')!.set!;
+    setValue.call(select, 'Done');
+    select.dispatchEvent(new Event('change', { bubbles: true }));
+    await flush();
+
+    expect(container.textContent).toContain('Pay rent');
+    expect(container.textContent).not.toContain('Buy milk');
+  });
+
+  it('submits forms to the bound collection', async () => {
+    const onCreate = jest.fn().mockResolvedValue(undefined);
+    await render({ onCreate });
+
+    const input = container.querySelector('form input') as HTMLInputElement;
+    const setValue = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')!.set!;
+    setValue.call(input, 'Water plants');
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+    await flush();
+    (container.querySelector('form') as HTMLFormElement).dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }));
+    await flush();
+
+    expect(onCreate).toHaveBeenCalledWith('Task', { title: 'Water plants' });
+  });
+
+  it('shows one child at a time when the breakpoint asks for tabs', async () => {
+    window.innerWidth = 375;
+    await render();
+    // The breakpoint is read after the first render
+    await flush();
+
+    const tabs = Array.from(container.querySelectorAll('button')).slice(0, 3).map(button => button.textContent);
+    expect(tabs).toEqual(['Filters', 'Tasks', 'New task']);
+    expect(container.querySelector('form')).toBeNull();
+  });
+
+  it('hides forms from viewers', async () => {
+    await render({ readOnly: true });
+
+    expect(container.querySelector('form')).toBeNull();
+    expect(container.textContent).toContain('Buy milk');
+  });
+});
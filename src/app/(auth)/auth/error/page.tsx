@@ -46,6 +46,10 @@ const errorMessages: Record<string, { title: string; description: string }> = {
     title: 'Account Not Linked',
     description: 'This email is already associated with another account. Please sign in using your original method.',
   },
+  OAuthEmailNotVerified: {
+    title: 'Email Not Verified',
+    description: 'Your GitHub or Google account has no verified email address. Verify your email with the provider, or sign in with an email link.',
+  },
   EmailSignin: {
     title: 'Email Sign In Error',
     description: 'There was an error sending the sign in email. Please check your email address and try again.',
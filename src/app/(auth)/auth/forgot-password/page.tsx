@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Mail, ArrowRight, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import { Logo, Button, Card } from '@/components/ui';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to send reset email');
+        return;
+      }
+      setSentMessage(data.message);
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-surface-base flex items-center justify-center p-6">
+      <div className="w-full max-w-md">
+        <div className="flex justify-center mb-8">
+          <Logo size="lg" />
+        </div>
+
+        <Card variant="outlined" padding="lg" className="animate-confident">
+          <h1 className="text-3xl font-serif font-medium text-text-primary text-center mb-2">
+            Reset your password
+          </h1>
+          <p className="text-text-secondary text-center mb-8">
+            We&apos;ll email you a link to choose a new one
+          </p>
+
+          {sentMessage ? (
+            <div className="flex items-center gap-3 p-4 rounded-xl bg-green-500/10 text-green-600 dark:text-green-400 border border-green-500/20">
+              <CheckCircle className="w-5 h-5 flex-shrink-0" />
+              <p className="text-sm">{sentMessage}</p>
+            </div>
+          ) : (
+            <>
+              {error && (
+                <div className="flex items-center gap-3 p-4 mb-6 rounded-xl bg-red-500/10 text-red-600 dark:text-red-400 border border-red-500/20">
+                  <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                  <p className="text-sm">{error}</p>
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label htmlFor="email" className="block text-sm font-medium text-text-primary mb-2">
+                    Email
+                  </label>
+                  <div className="relative">
+                    <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-text-tertiary" />
+                    <input
+                      id="email"
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="w-full pl-12 pr-4 py-3 rounded-xl border border-outline-light bg-surface-light text-text-primary placeholder-text-tertiary focus:outline-none focus:ring-2 focus:ring-accent-yellow/50 focus:border-accent-yellow transition-all"
+                      placeholder="you@example.com"
+                      required
+                    />
+                  </div>
+                </div>
+
+                <Button type="submit" disabled={isLoading} size="lg" className="w-full">
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                      Sending...
+                    </>
+                  ) : (
+                    <>
+                      Send Reset Link
+                      <ArrowRight className="w-5 h-5 ml-2" />
+                    </>
+                  )}
+                </Button>
+              </form>
+            </>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link href="/auth/signin" className="text-accent-yellow hover:text-text-primary font-medium transition-colors">
+              Back to sign in
+            </Link>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Lock, ArrowRight, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import { Logo, Button, Card } from '@/components/ui';
+
+const inputClassName = 'w-full pl-12 pr-4 py-3 rounded-xl border border-outline-light bg-surface-light text-text-primary placeholder-text-tertiary focus:outline-none focus:ring-2 focus:ring-accent-yellow/50 focus:border-accent-yellow transition-all';
+
+function ResetPasswordForm() {
+  const token = useSearchParams().get('token') || '';
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState(token ? '' : 'This reset link is missing its token. Request a new one.');
+  const [isDone, setIsDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to reset password');
+        return;
+      }
+      setIsDone(true);
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isDone) {
+    return (
+      <div className="text-center space-y-6">
+        <div className="flex items-center gap-3 p-4 rounded-xl bg-green-500/10 text-green-600 dark:text-green-400 border border-green-500/20">
+          <CheckCircle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm text-left">Your password has been changed and all other sessions were signed out.</p>
+        </div>
+        <Link href="/auth/signin">
+          <Button size="lg" className="w-full">
+            Sign In
+            <ArrowRight className="w-5 h-5 ml-2" />
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {error && (
+        <div className="flex items-center gap-3 p-4 mb-6 rounded-xl bg-red-500/10 text-red-600 dark:text-red-400 border border-red-500/20">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-text-primary mb-2">
+            New Password
+          </label>
+          <div className="relative">
+            <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-text-tertiary" />
+            <input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClassName}
+              placeholder="At least 8 characters"
+              minLength={8}
+              required
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="confirmPassword" className="block text-sm font-medium text-text-primary mb-2">
+            Confirm Password
+          </label>
+          <div className="relative">
+            <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-text-tertiary" />
+            <input
+              id="confirmPassword"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className={inputClassName}
+              placeholder="••••••••"
+              required
+            />
+          </div>
+        </div>
+
+        <Button type="submit" disabled={isLoading || !token} size="lg" className="w-full">
+          {isLoading ? (
+            <>
+              <Loader2 className="w-5 h-5 animate-spin mr-2" />
+              Saving...
+            </>
+          ) : (
+            'Set New Password'
+          )}
+        </Button>
+      </form>
+    </>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen bg-surface-base flex items-center justify-center p-6">
+      <div className="w-full max-w-md">
+        <div className="flex justify-center mb-8">
+          <Logo size="lg" />
+        </div>
+
+        <Card variant="outlined" padding="lg" className="animate-confident">
+          <h1 className="text-3xl font-serif font-medium text-text-primary text-center mb-8">
+            Choose a new password
+          </h1>
+
+          <Suspense fallback={<Loader2 className="w-8 h-8 mx-auto animate-spin text-accent-yellow" />}>
+            <ResetPasswordForm />
+          </Suspense>
+
+          <div className="mt-6 text-center">
+            <Link href="/auth/forgot-password" className="text-sm text-text-secondary hover:text-text-primary transition-colors">
+              Need a new link?
+            </Link>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,20 @@
 'use client';
 
-import { Suspense, useState } from 'react';
-import { signIn } from 'next-auth/react';
+import { Suspense, useEffect, useState } from 'react';
+import { getProviders, signIn } from 'next-auth/react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import { Mail, Lock, ArrowRight, AlertCircle, Loader2 } from 'lucide-react';
+import { Mail, Lock, ArrowRight, AlertCircle, Loader2, Github, CheckCircle } from 'lucide-react';
 import { Logo, Button, Card } from '@/components/ui';
 
+const OAUTH_PROVIDERS = ['github', 'google'] as const;
+type OAuthProviderId = typeof OAUTH_PROVIDERS[number];
+
+const OAUTH_LABELS: Record<OAuthProviderId, string> = {
+  github: 'Continue with GitHub',
+  google: 'Continue with Google',
+};
+
 function SignInForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -17,6 +25,57 @@ function SignInForm() {
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [errorMessage, setErrorMessage] = useState(error || '');
+  const [oauthProviders, setOAuthProviders] = useState<OAuthProviderId[]>([]);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+
+  // Only show OAuth buttons for providers configured on the server
+  useEffect(() => {
+    getProviders()
+      .then(providers => setOAuthProviders(OAUTH_PROVIDERS.filter(id => providers?.[id])))
+      .catch(() => setOAuthProviders([]));
+  }, []);
+
+  const handleMagicLink = async () => {
+    if (!email) {
+      setErrorMessage('Enter your email to get a sign-in link');
+      return;
+    }
+
+    setIsLoading(true);
+    setErrorMessage('');
+
+    try {
+      const result = await signIn('email', { email, callbackUrl, redirect: false });
+      if (result?.error) {
+        setErrorMessage('Could not send the sign-in link. Please try again.');
+      } else {
+        setLinkSentTo(email);
+      }
+    } catch {
+      setErrorMessage('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (linkSentTo) {
+    return (
+      <div className="text-center space-y-4">
+        <CheckCircle className="w-12 h-12 mx-auto text-green-500" />
+        <p className="text-text-primary font-medium">Check your email</p>
+        <p className="text-sm text-text-secondary">
+          We sent a sign-in link to <span className="font-medium text-text-primary">{linkSentTo}</span>. It expires in 15 minutes.
+        </p>
+        <button
+          type="button"
+          onClick={() => setLinkSentTo(null)}
+          className="text-sm text-accent-yellow hover:text-text-primary font-medium transition-colors"
+        >
+          Use a different sign-in method
+        </button>
+      </div>
+    );
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -55,6 +114,32 @@ function SignInForm() {
         </div>
       )}
 
+      {oauthProviders.length > 0 && (
+        <>
+          <div className="space-y-3">
+            {oauthProviders.map(id => (
+              <Button
+                key={id}
+                type="button"
+                variant="secondary"
+                size="lg"
+                className="w-full"
+                disabled={isLoading}
+                onClick={() => signIn(id, { callbackUrl })}
+              >
+                {id === 'github' && <Github className="w-5 h-5 mr-2" />}
+                {OAUTH_LABELS[id]}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 my-6">
+            <div className="flex-1 h-px bg-outline-light" />
+            <span className="text-xs uppercase tracking-wide text-text-tertiary">or</span>
+            <div className="flex-1 h-px bg-outline-light" />
+          </div>
+        </>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-4">
         <div>
           <label htmlFor="email" className="block text-sm font-medium text-text-primary mb-2">
@@ -75,9 +160,14 @@ function SignInForm() {
         </div>
 
         <div>
-          <label htmlFor="password" className="block text-sm font-medium text-text-primary mb-2">
-            Password
-          </label>
+          <div className="flex items-center justify-between mb-2">
+            <label htmlFor="password" className="block text-sm font-medium text-text-primary">
+              Password
+            </label>
+            <Link href="/auth/forgot-password" className="text-sm text-accent-yellow hover:text-text-primary transition-colors">
+              Forgot password?
+            </Link>
+          </div>
           <div className="relative">
             <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-text-tertiary" />
             <input
@@ -105,6 +195,15 @@ function SignInForm() {
             </>
           )}
         </Button>
+
+        <button
+          type="button"
+          onClick={handleMagicLink}
+          disabled={isLoading}
+          className="w-full text-sm text-text-secondary hover:text-text-primary transition-colors disabled:opacity-50"
+        >
+          Email me a sign-in link instead
+        </button>
       </form>
     </>
   );
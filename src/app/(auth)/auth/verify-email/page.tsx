@@ -0,0 +1,92 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import { Logo, Button, Card } from '@/components/ui';
+
+type VerifyState =
+  | { status: 'verifying' }
+  | { status: 'verified'; message: string }
+  | { status: 'failed'; message: string };
+
+function VerifyEmailStatus() {
+  const token = useSearchParams().get('token');
+  const [state, setState] = useState<VerifyState>({ status: 'verifying' });
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    // The token is single use; don't spend it twice in strict mode
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    if (!token) {
+      setState({ status: 'failed', message: 'This verification link is missing its token.' });
+      return;
+    }
+
+    fetch('/api/auth/verify-email', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    })
+      .then(async response => {
+        const data = await response.json();
+        setState(response.ok
+          ? { status: 'verified', message: data.message }
+          : { status: 'failed', message: data.error || 'Failed to verify email' });
+      })
+      .catch(() => setState({ status: 'failed', message: 'An unexpected error occurred' }));
+  }, [token]);
+
+  if (state.status === 'verifying') {
+    return (
+      <div className="flex items-center justify-center gap-2 py-6 text-text-secondary">
+        <Loader2 className="w-5 h-5 animate-spin" />
+        Verifying your email...
+      </div>
+    );
+  }
+
+  const verified = state.status === 'verified';
+  return (
+    <div className="space-y-6">
+      <div className={`flex items-center gap-3 p-4 rounded-xl border ${
+        verified
+          ? 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20'
+          : 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20'
+      }`}>
+        {verified ? <CheckCircle className="w-5 h-5 flex-shrink-0" /> : <AlertCircle className="w-5 h-5 flex-shrink-0" />}
+        <p className="text-sm">{state.message}</p>
+      </div>
+      <Link href={verified ? '/dashboard' : '/settings?tab=security'}>
+        <Button size="lg" className="w-full">
+          {verified ? 'Go to Dashboard' : 'Resend from Settings'}
+        </Button>
+      </Link>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen bg-surface-base flex items-center justify-center p-6">
+      <div className="w-full max-w-md">
+        <div className="flex justify-center mb-8">
+          <Logo size="lg" />
+        </div>
+
+        <Card variant="outlined" padding="lg" className="animate-confident">
+          <h1 className="text-3xl font-serif font-medium text-text-primary text-center mb-8">
+            Email verification
+          </h1>
+
+          <Suspense fallback={<Loader2 className="w-8 h-8 mx-auto animate-spin text-accent-yellow" />}>
+            <VerifyEmailStatus />
+          </Suspense>
+        </Card>
+      </div>
+    </div>
+  );
+}
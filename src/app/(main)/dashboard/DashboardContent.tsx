@@ -2,8 +2,8 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import Link from 'next/link';
-import { Plus, ExternalLink, Settings, Search, ArrowUpDown, LogOut, MoreVertical, Pencil, Copy, Archive, Trash, ArchiveRestore, MessageSquare, Play, Clock } from 'lucide-react';
-import { Button, Card, DropdownMenu, DropdownItem, DropdownSeparator, Modal } from '@/components/ui';
+import { Plus, ExternalLink, Settings, Search, ArrowUpDown, LogOut, MoreVertical, Pencil, Copy, Archive, Trash, ArchiveRestore, MessageSquare, Play, Clock, Users } from 'lucide-react';
+import { Button, Card, DropdownMenu, DropdownItem, DropdownSeparator, Modal, toastUpgrade } from '@/components/ui';
 import { formatDate, getAppUrl } from '@/lib/utils';
 import { toast } from 'sonner';
 
@@ -18,6 +18,18 @@ type App = {
   isAlwaysOn: boolean;
 };
 
+type SharedApp = {
+  id: string;
+  name: string;
+  description: string;
+  status: string;
+  updatedAt: Date;
+  subdomain: string | null;
+  /** Role the current user was invited with */
+  role: string;
+  ownerName: string;
+};
+
 type Conversation = {
   id: string;
   appId: string | null;
@@ -30,16 +42,17 @@ type Conversation = {
 };
 
 type SortOption = 'name' | 'date' | 'status';
-type TabOption = 'apps' | 'conversations';
+type TabOption = 'apps' | 'shared' | 'conversations';
 
 interface DashboardContentProps {
   apps: App[];
+  sharedApps: SharedApp[];
   conversations: Conversation[];
   userEmail: string;
   userPlan: string;
 }
 
-export function DashboardContent({ apps: initialApps, conversations: initialConversations, userEmail, userPlan }: DashboardContentProps) {
+export function DashboardContent({ apps: initialApps, sharedApps, conversations: initialConversations, userEmail, userPlan }: DashboardContentProps) {
   const [apps, setApps] = useState<App[]>(initialApps);
   const [conversations, setConversations] = useState<Conversation[]>(initialConversations);
   const [activeTab, setActiveTab] = useState<TabOption>('apps');
@@ -179,7 +192,12 @@ export function DashboardContent({ apps: initialApps, conversations: initialConv
         }),
       });
 
-      if (!response.ok) throw new Error('Failed to duplicate app');
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        toast.dismiss();
+        toastUpgrade(data, 'Failed to duplicate app');
+        return;
+      }
 
       const { app: newApp } = await response.json();
 
@@ -228,7 +246,11 @@ export function DashboardContent({ apps: initialApps, conversations: initialConv
         body: JSON.stringify({ isAlwaysOn }),
       });
 
-      if (!response.ok) throw new Error('Failed to update hosting settings');
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        toastUpgrade(data, data.error || 'Failed to update hosting settings');
+        return;
+      }
 
       setApps(apps.map((a) => (a.id === appId ? { ...a, isAlwaysOn } : a)));
       toast.success(isAlwaysOn ? 'Always-on enabled' : 'Always-on disabled');
@@ -296,6 +318,19 @@ export function DashboardContent({ apps: initialApps, conversations: initialConv
                 Apps ({apps.length})
               </span>
             </button>
+            <button
+              onClick={() => setActiveTab('shared')}
+              className={`px-4 py-2 text-sm font-medium border-b-2 transition-all ${
+                activeTab === 'shared'
+                  ? 'text-accent-yellow border-accent-yellow'
+                  : 'text-text-secondary border-transparent hover:text-text-primary hover:border-outline-mid'
+              }`}
+            >
+              <span className="flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Shared with me ({sharedApps.length})
+              </span>
+            </button>
             <button
               onClick={() => setActiveTab('conversations')}
               className={`px-4 py-2 text-sm font-medium border-b-2 transition-all ${
@@ -420,6 +455,23 @@ export function DashboardContent({ apps: initialApps, conversations: initialConv
             )
           )}
 
+          {/* Shared Apps Tab */}
+          {activeTab === 'shared' && (
+            sharedApps.length === 0 ? (
+              <Card variant="outlined" padding="lg" className="text-center">
+                <p className="text-text-secondary">
+                  No apps have been shared with you yet. When someone invites you to an app, it shows up here.
+                </p>
+              </Card>
+            ) : (
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {sharedApps.map((app, index) => (
+                  <SharedAppCard key={app.id} app={app} index={index} />
+                ))}
+              </div>
+            )
+          )}
+
           {/* Conversations Tab */}
           {activeTab === 'conversations' && (
             conversations.length === 0 ? (
@@ -578,7 +630,7 @@ function AppCard({
     ARCHIVED: 'bg-surface-elevated text-text-tertiary border border-outline-mid',
   };
 
-  const isPro = userPlan === 'PRO' || userPlan === 'PLUS';
+  const isPro = userPlan === 'PRO';
   
   // Dynamically determine host for URL generation
   const [host, setHost] = useState<string>('');
@@ -702,6 +754,41 @@ function AppCard({
   );
 }
 
+interface SharedAppCardProps {
+  app: SharedApp;
+  index: number;
+}
+
+function SharedAppCard({ app, index }: SharedAppCardProps) {
+  return (
+    <Link href={`/apps/${app.id}`} className="block">
+      <Card
+        variant="outlined"
+        padding="lg"
+        className="animate-confident hover:border-accent-yellow/50 transition-all duration-300 h-full"
+        style={{ animationDelay: `${index * 0.05}s` }}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="px-3 py-1 rounded-full text-xs font-medium bg-surface-elevated text-text-secondary border border-outline-mid capitalize">
+            {app.role}
+          </div>
+          <ExternalLink className="w-4 h-4 text-text-tertiary" />
+        </div>
+
+        <h3 className="text-lg font-semibold text-text-primary mb-2 line-clamp-1">{app.name}</h3>
+        <p className="text-sm text-text-secondary line-clamp-2 mb-4 leading-relaxed min-h-[2.5rem]">
+          {app.description || 'No description available'}
+        </p>
+
+        <div className="flex items-center justify-between text-[10px] text-text-tertiary">
+          <span>Shared by {app.ownerName}</span>
+          <span>Updated {formatDate(app.updatedAt)}</span>
+        </div>
+      </Card>
+    </Link>
+  );
+}
+
 function EmptyConversationsState() {
   return (
     <div className="flex items-center justify-center min-h-[40vh]">
@@ -1,6 +1,7 @@
 import { redirect } from 'next/navigation';
 import { getServerSession } from '@/lib/auth';
 import prisma from '@/lib/db';
+import { effectivePlan } from '@/lib/billing';
 import { NavigationRail } from '@/components/ui';
 import { DashboardContent } from './DashboardContent';
 
@@ -11,10 +12,10 @@ export default async function DashboardPage() {
     redirect('/auth/signin?callbackUrl=/dashboard');
   }
 
-  const [user, apps, conversations] = await Promise.all([
+  const [user, apps, memberships, conversations] = await Promise.all([
     prisma.user.findUnique({
       where: { id: session.user.id },
-      select: { plan: true }
+      select: { plan: true, subscriptionStatus: true }
     }),
     prisma.app.findMany({
       where: { userId: session.user.id },
@@ -30,6 +31,25 @@ export default async function DashboardPage() {
         isAlwaysOn: true,
       },
     }),
+    // Apps other users have shared with this one
+    prisma.appMember.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        role: true,
+        app: {
+          select: {
+            id: true,
+            name: true,
+            description: true,
+            status: true,
+            updatedAt: true,
+            subdomain: true,
+            user: { select: { name: true, email: true } },
+          },
+        },
+      },
+    }),
     // Fetch recent conversations (not completed)
     prisma.conversation.findMany({
       where: { 
@@ -87,6 +107,17 @@ export default async function DashboardPage() {
     };
   });
 
+  const sharedApps = memberships.map(({ role, app }) => ({
+    id: app.id,
+    name: app.name,
+    description: app.description,
+    status: app.status,
+    updatedAt: app.updatedAt,
+    subdomain: app.subdomain,
+    role,
+    ownerName: app.user.name || app.user.email,
+  }));
+
   return (
     <div className="h-screen bg-surface-base flex">
       {/* Navigation Rail - Hidden on mobile, shown on desktop */}
@@ -97,9 +128,10 @@ export default async function DashboardPage() {
       {/* Main Content */}
       <DashboardContent 
         apps={apps} 
+        sharedApps={sharedApps}
         conversations={conversationsWithDetails}
         userEmail={session.user.email || ''} 
-        userPlan={user?.plan || 'FREE'}
+        userPlan={effectivePlan(user)}
       />
     </div>
   );
@@ -5,17 +5,44 @@ import { ArrowLeft, User, Bell, Monitor, Sun, Moon } from 'lucide-react';
 import Link from 'next/link';
 import { NavigationRail, Button, Card, ThemeToggle } from '@/components/ui';
 import { ProfileSettings } from '@/components/settings/ProfileSettings';
-import { SubscriptionSettings, type Plan } from '@/components/settings/SubscriptionSettings';
+import { SubscriptionSettings, type Plan, type SubscriptionState } from '@/components/settings/SubscriptionSettings';
 
 export default function ProfilePage() {
   const [userProfile, setUserProfile] = useState<{ name?: string; email?: string; plan?: Plan } | null>(null);
+  const [subscription, setSubscription] = useState<(SubscriptionState & { effectivePlan?: Plan }) | null>(null);
   const [saveMessage, setSaveMessage] = useState<string | null>(null);
   const [loadError, setLoadError] = useState<string | null>(null);
 
   useEffect(() => {
     loadProfile();
+    loadSubscription();
+
+    // Returning from Stripe checkout
+    const billing = new URLSearchParams(window.location.search).get('billing');
+    if (billing === 'success') {
+      setSaveMessage('Payment successful! Your plan will update in a moment.');
+      setTimeout(() => setSaveMessage(null), 5000);
+    }
   }, []);
 
+  const loadSubscription = async () => {
+    try {
+      const response = await fetch('/api/settings/subscription');
+      if (response.ok) {
+        const data = await response.json();
+        setSubscription({
+          status: data.subscription.subscriptionStatus,
+          periodEnd: data.subscription.subscriptionPeriodEnd,
+          cancelAtPeriodEnd: data.subscription.subscriptionCancelAtPeriodEnd,
+          hasBillingAccount: data.subscription.hasBillingAccount,
+          effectivePlan: data.subscription.effectivePlan,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load subscription:', error);
+    }
+  };
+
   const loadProfile = async () => {
     try {
       setLoadError(null);
@@ -42,9 +69,18 @@ export default function ProfilePage() {
 
         if (response.ok) {
             const data = await response.json();
-            setUserProfile(prev => prev ? { ...prev, plan: data.plan } : null);
-            setSaveMessage(`Successfully upgraded to ${plan} plan!`);
-            setTimeout(() => setSaveMessage(null), 3000);
+            if (data.checkoutUrl) {
+                window.location.href = data.checkoutUrl;
+                return;
+            }
+            if (data.endsAt) {
+                setSaveMessage(data.message);
+            } else {
+                setUserProfile(prev => prev ? { ...prev, plan: data.plan } : null);
+                setSaveMessage(`Successfully switched to ${plan} plan!`);
+                setTimeout(() => setSaveMessage(null), 3000);
+            }
+            loadSubscription();
         } else {
             const data = await response.json();
             setSaveMessage(data.error || 'Failed to update subscription');
@@ -54,6 +90,20 @@ export default function ProfilePage() {
     }
   };
 
+  const handleManageBilling = async () => {
+    try {
+        const response = await fetch('/api/settings/subscription/portal', { method: 'POST' });
+        const data = await response.json();
+        if (response.ok) {
+            window.location.href = data.url;
+        } else {
+            setSaveMessage(data.error || 'Failed to open billing portal');
+        }
+    } catch (error) {
+        setSaveMessage('Failed to connect to server');
+    }
+  };
+
   return (
     <div className="h-screen bg-surface-base flex">
       <div className="hidden md:block">
@@ -119,8 +169,10 @@ export default function ProfilePage() {
             <div className="space-y-12">
                <ProfileSettings user={userProfile || undefined} />
                <SubscriptionSettings 
-                  currentPlan={userProfile?.plan || 'FREE'} 
+                  currentPlan={subscription?.effectivePlan || userProfile?.plan || 'FREE'} 
+                  subscription={subscription || undefined}
                   onUpgrade={handleSubscriptionUpgrade}
+                  onManageBilling={handleManageBilling}
                />
             </div>
           </div>
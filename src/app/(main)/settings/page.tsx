@@ -1,13 +1,16 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { ArrowLeft, Settings, Cpu, Palette, Bell, Monitor, Sun, Moon } from 'lucide-react';
+import { ArrowLeft, Settings, Cpu, Palette, Bell, Monitor, Sun, Moon, BarChart3, Shield, KeyRound } from 'lucide-react';
 import Link from 'next/link';
 import { NavigationRail, Button, Card, ThemeToggle } from '@/components/ui';
 import { LLMProviderSettings, type LLMSettings } from '@/components/settings/LLMProviderSettings';
+import { UsageSettings } from '@/components/settings/UsageSettings';
+import { SecuritySettings } from '@/components/settings/SecuritySettings';
+import { ApiTokensSettings } from '@/components/settings/ApiTokensSettings';
 import type { LLMProvider } from '@/lib/llm/types';
 
-type SettingsTab = 'llm' | 'appearance' | 'notifications';
+type SettingsTab = 'llm' | 'usage' | 'security' | 'api' | 'appearance' | 'notifications';
 
 const defaultLLMSettings: LLMSettings = {
   provider: 'deepseek',
@@ -29,6 +32,9 @@ export default function SettingsPage() {
 
   useEffect(() => {
     loadSettings();
+    // Links such as the email verification page open a specific tab
+    const tab = new URLSearchParams(window.location.search).get('tab');
+    if (tab === 'security' || tab === 'usage' || tab === 'api') setActiveTab(tab);
   }, []);
 
   const loadSettings = async () => {
@@ -94,6 +100,9 @@ export default function SettingsPage() {
 
   const tabs = [
     { id: 'llm' as const, label: 'AI / LLM', icon: Cpu },
+    { id: 'usage' as const, label: 'Usage', icon: BarChart3 },
+    { id: 'security' as const, label: 'Security', icon: Shield },
+    { id: 'api' as const, label: 'API Tokens', icon: KeyRound },
     { id: 'appearance' as const, label: 'Appearance', icon: Palette },
     { id: 'notifications' as const, label: 'Notifications', icon: Bell },
   ];
@@ -188,6 +197,12 @@ export default function SettingsPage() {
               />
             )}
 
+            {activeTab === 'usage' && <UsageSettings />}
+
+            {activeTab === 'security' && <SecuritySettings />}
+
+            {activeTab === 'api' && <ApiTokensSettings />}
+
             {activeTab === 'appearance' && (
               <div className="p-6">
                 <div className="flex items-start justify-between mb-6">
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, isAdminEmail } from '@/lib/auth';
+import { nebulaSupervisor } from '@/lib/nebula/supervisor';
+import { DEFAULT_CONFIG } from '@/lib/nebula/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/nebula/workers - Status, resource usage and latency of every app worker
+// Workers are sorted by heap usage so runaway apps come first.
+export async function GET() {
+  try {
+    const session = await getServerSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const workers = nebulaSupervisor
+      .listWorkers()
+      .sort((a, b) => (b.memoryUsage ?? 0) - (a.memoryUsage ?? 0));
+
+    return NextResponse.json({
+      workers,
+      limits: {
+        maxMemoryMB: DEFAULT_CONFIG.maxMemoryMB,
+        cpuLimitPercent: DEFAULT_CONFIG.cpuLimitPercent,
+        requestTimeoutMS: DEFAULT_CONFIG.requestTimeoutMS,
+        maxRestarts: DEFAULT_CONFIG.maxRestarts,
+      },
+    });
+  } catch (error) {
+    console.error('Error listing Nebula workers:', error);
+    return NextResponse.json(
+      { error: 'Failed to list workers' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from '@/lib/auth';
+import prisma from '@/lib/db';
+import { appWhereRole } from '@/lib/collaboration';
+import {
+  APP_VISIBILITIES,
+  generateShareToken,
+  hashAccessPassword,
+  SHARE_TOKEN_PARAM,
+} from '@/lib/nebula/access';
+
+interface RouteParams {
+  params: Promise<{ appId: string }>;
+}
+
+const updateAccessSchema = z.object({
+  visibility: z.enum(APP_VISIBILITIES as [string, ...string[]]).optional(),
+  password: z.string().min(6, 'Password must be at least 6 characters').max(200).optional(),
+  rotateShareToken: z.boolean().optional(),
+});
+
+const accessSelect = {
+  id: true,
+  subdomain: true,
+  visibility: true,
+  shareToken: true,
+  accessPasswordHash: true,
+} as const;
+
+type AppAccessRow = {
+  subdomain: string | null;
+  visibility: string;
+  shareToken: string | null;
+  accessPasswordHash: string | null;
+};
+
+/**
+ * Access settings as shown to the owner and admins; the password hash never leaves the server
+ */
+function toAccessResponse(app: AppAccessRow) {
+  return {
+    visibility: app.visibility,
+    hostedPath: app.subdomain ? `/s/${app.subdomain}` : null,
+    sharePath: app.subdomain && app.visibility === 'LINK' && app.shareToken
+      ? `/s/${app.subdomain}?${SHARE_TOKEN_PARAM}=${app.shareToken}`
+      : null,
+    hasPassword: !!app.accessPasswordHash,
+  };
+}
+
+// GET /api/apps/[appId]/access - Get who can open the hosted app
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const app = await prisma.app.findFirst({
+      where: appWhereRole(appId, session.user.id, 'admin'),
+      select: accessSelect,
+    });
+
+    if (!app) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ access: toAccessResponse(app) });
+  } catch (error) {
+    console.error('Error fetching app access:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch access settings' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/apps/[appId]/access - Change visibility, set the password or rotate the share link
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = updateAccessSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.errors[0].message }, { status: 400 });
+    }
+
+    const app = await prisma.app.findFirst({
+      where: appWhereRole(appId, session.user.id, 'admin'),
+      select: accessSelect,
+    });
+
+    if (!app) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const { password, rotateShareToken } = validation.data;
+    const visibility = validation.data.visibility || app.visibility;
+
+    if (visibility === 'PASSWORD' && !password && !app.accessPasswordHash) {
+      return NextResponse.json({ error: 'Set a password to protect the app with' }, { status: 400 });
+    }
+
+    // Leaving a mode discards its secret, so old links and unlocks stop working
+    // if the app is switched back later
+    const shareToken = visibility !== 'LINK'
+      ? null
+      : rotateShareToken || !app.shareToken ? generateShareToken() : app.shareToken;
+    const accessPasswordHash = visibility !== 'PASSWORD'
+      ? null
+      : password ? hashAccessPassword(password) : app.accessPasswordHash;
+
+    const updated = await prisma.app.update({
+      where: { id: app.id },
+      data: { visibility, shareToken, accessPasswordHash },
+      select: accessSelect,
+    });
+
+    return NextResponse.json({ access: toAccessResponse(updated) });
+  } catch (error) {
+    console.error('Error updating app access:', error);
+    return NextResponse.json(
+      { error: 'Failed to update access settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiTokenError, apiTokenErrorResponse, authenticateRequest } from '@/lib/api-tokens';
+import prisma from '@/lib/db';
+import { appWhereRole } from '@/lib/collaboration';
+import { changeFeedResponse } from '@/lib/app-data';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ appId: string }>;
+}
+
+// GET /api/apps/[appId]/data/changes - Server-Sent Events feed of record writes
+// Emits `change` events ({ type, collection, record, at }) for every collection.
+// Reconnecting clients send Last-Event-ID; if those changes can't be replayed a
+// `reset` event tells them to refetch.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { appId } = await params;
+    const caller = await authenticateRequest(request, { scope: 'read', appId });
+
+    if (!caller) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const app = await prisma.app.findFirst({
+      where: appWhereRole(appId, caller.userId),
+      select: { id: true },
+    });
+
+    if (!app) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    return changeFeedResponse(app.id, {
+      lastEventId: request.headers.get('last-event-id'),
+      signal: request.signal,
+    });
+  } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiTokenErrorResponse(error);
+    }
+    console.error('Error opening app change feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to open change feed' },
+      { status: 500 }
+    );
+  }
+}
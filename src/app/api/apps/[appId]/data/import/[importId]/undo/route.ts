@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiTokenError, apiTokenErrorResponse, authenticateRequest } from '@/lib/api-tokens';
+import prisma from '@/lib/db';
+import { appWhereRole } from '@/lib/collaboration';
+import { AppDataError, openAppDataStore } from '@/lib/app-data';
+import { DataImportError, undoDataImport } from '@/lib/data-import';
+
+interface RouteParams {
+  params: Promise<{ appId: string; importId: string }>;
+}
+
+// POST /api/apps/[appId]/data/import/[importId]/undo - Delete the records an import added
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { appId, importId } = await params;
+    const caller = await authenticateRequest(request, { scope: 'write', appId });
+
+    if (!caller) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const app = await prisma.app.findFirst({
+      where: appWhereRole(appId, caller.userId, 'editor'),
+      select: { id: true, spec: true, data: true },
+    });
+
+    if (!app) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const { dataImport, removed } = await undoDataImport(openAppDataStore(app), app.id, importId);
+
+    return NextResponse.json({ import: dataImport, removed });
+  } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiTokenErrorResponse(error);
+    }
+    if (error instanceof DataImportError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    if (error instanceof AppDataError && error.code === 'DELETE_RESTRICTED') {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 409 });
+    }
+    console.error('Error undoing import:', error);
+    return NextResponse.json(
+      { error: 'Failed to undo import' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiTokenError, apiTokenErrorResponse, authenticateRequest } from '@/lib/api-tokens';
+import prisma from '@/lib/db';
+import { appWhereRole } from '@/lib/collaboration';
+import { EntitlementError, assertCanAddRecords, entitlementErrorResponse } from '@/lib/entitlements';
+import { AppDataError, openAppDataStore } from '@/lib/app-data';
+import {
+  DataImportError,
+  checkColumnMapping,
+  commitDataImport,
+  detectImportFormat,
+  importableFields,
+  listDataImports,
+  parseImportFile,
+  suggestColumnMapping,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportValidation,
+} from '@/lib/data-import';
+
+interface RouteParams {
+  params: Promise<{ appId: string }>;
+}
+
+/** Coerced rows returned as a preview */
+const SAMPLE_ROWS = 10;
+
+/** Invalid rows reported in full; the summary still counts all of them */
+const MAX_REPORTED_ERRORS = 200;
+
+// GET /api/apps/[appId]/data/import - The app's recent imports, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { appId } = await params;
+    const caller = await authenticateRequest(request, { scope: 'read', appId });
+
+    if (!caller) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const app = await prisma.app.findFirst({
+      where: appWhereRole(appId, caller.userId, 'editor'),
+      select: { id: true },
+    });
+
+    if (!app) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ imports: await listDataImports(app.id) });
+  } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiTokenErrorResponse(error);
+    }
+    console.error('Error fetching imports:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch imports' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/apps/[appId]/data/import - Import a CSV, JSON or XLSX file into a collection
+// Send multipart/form-data with `file` and, optionally, `mapping`: a JSON object of
+// column → field name (or null to skip). Without a mapping, columns are matched to
+// fields by name and type. ?dryRun=1 only validates and previews; otherwise the
+// valid rows are inserted in one batch and invalid ones are skipped.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { appId } = await params;
+    const caller = await authenticateRequest(request, { scope: 'write', appId });
+
+    if (!caller) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const app = await prisma.app.findFirst({
+      where: appWhereRole(appId, caller.userId, 'editor'),
+      select: { id: true, spec: true, data: true, userId: true },
+    });
+
+    if (!app) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const form = await request.formData();
+    const file = form.get('file');
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'Attach the file to import as `file`' }, { status: 400 });
+    }
+
+    const format = detectImportFormat(file.name, file.type);
+    if (!format) {
+      throw new DataImportError('Upload a .csv, .json or .xlsx file', 'UNSUPPORTED_FORMAT');
+    }
+
+    let requested: ColumnMapping | null = null;
+    const mappingField = form.get('mapping');
+    if (typeof mappingField === 'string' && mappingField) {
+      try {
+        requested = JSON.parse(mappingField);
+      } catch {
+        throw new DataImportError('The mapping must be a JSON object', 'INVALID_MAPPING');
+      }
+    }
+
+    const dryRun = ['1', 'true'].includes(request.nextUrl.searchParams.get('dryRun') || '');
+    const store = openAppDataStore(app);
+    const collection = store.collection(request.nextUrl.searchParams.get('collection') || undefined);
+    const table = parseImportFile(Buffer.from(await file.arrayBuffer()), format);
+
+    const mapping = requested
+      ? checkColumnMapping(table, collection.schema, requested)
+      : suggestColumnMapping(table, collection.schema);
+    const mapped = Object.values(mapping).some(field => field !== null);
+    if (!mapped && !dryRun) {
+      throw new DataImportError('Map at least one column to a field', 'INVALID_MAPPING');
+    }
+
+    const validation: ImportValidation = mapped
+      ? validateImportRows(store, collection, table, mapping)
+      : { valid: [], invalid: [] };
+
+    const preview = {
+      dryRun,
+      format,
+      collection: collection.name,
+      columns: table.columns,
+      fields: importableFields(collection.schema).map(({ name, label, type, required }) => ({ name, label, type, required })),
+      mapping,
+      summary: { total: table.rows.length, valid: validation.valid.length, invalid: validation.invalid.length },
+      sample: validation.valid.slice(0, SAMPLE_ROWS),
+      errors: validation.invalid.slice(0, MAX_REPORTED_ERRORS),
+    };
+
+    if (dryRun) {
+      return NextResponse.json(preview);
+    }
+
+    // Records count against the owner's plan, whoever imports them
+    await assertCanAddRecords(app.userId, store.recordCount(), validation.valid.length);
+    const dataImport = await commitDataImport(collection, validation.valid, {
+      appId: app.id,
+      userId: caller.userId,
+      fileName: file.name,
+      format,
+      rowCount: table.rows.length,
+    });
+
+    return NextResponse.json({ ...preview, import: dataImport }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiTokenErrorResponse(error);
+    }
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error);
+    }
+    if (error instanceof DataImportError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    if (error instanceof AppDataError && error.code === 'UNKNOWN_COLLECTION') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Error importing data:', error);
+    return NextResponse.json(
+      { error: 'Failed to import data' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,38 +1,83 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from '@/lib/auth';
+import { ApiTokenError, apiTokenErrorResponse, authenticateRequest } from '@/lib/api-tokens';
 import prisma from '@/lib/db';
-import { generateId } from '@/lib/utils';
-import type { DataRecord } from '@/lib/primitives/types';
+import { appWhereRole } from '@/lib/collaboration';
+import { EntitlementError, assertCanAddRecords, entitlementErrorResponse } from '@/lib/entitlements';
+import {
+  openAppDataStore,
+  AppDataError,
+  parseDataQuery,
+  paginationFor,
+  prepareWrite,
+  toFieldErrors,
+  withComputedValues,
+  withComputedValue,
+  parseInclude,
+  expandRelations,
+} from '@/lib/app-data';
 
 interface RouteParams {
   params: Promise<{ appId: string }>;
 }
 
-// GET /api/apps/[appId]/data - Get all data for an app
+function validationFailed(error: AppDataError) {
+  return NextResponse.json(
+    { error: error.message, issues: error.issues, fieldErrors: toFieldErrors(error.issues) },
+    { status: 400 }
+  );
+}
+
+// Every method takes ?collection=<schema name>; without it the app's primary schema is used
+function collectionParam(request: NextRequest): string | undefined {
+  return request.nextUrl.searchParams.get('collection') || undefined;
+}
+
+function unknownCollection(error: AppDataError) {
+  return NextResponse.json({ error: error.message }, { status: 404 });
+}
+
+// GET /api/apps/[appId]/data - Query data for an app
+// Supports filter[field][op]=value, search, sort=field,-other, limit and offset.
+// include=project,tasks attaches related records. Records include the schema's computed fields.
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession();
     const { appId } = await params;
-    
-    if (!session?.user?.id) {
+    const caller = await authenticateRequest(request, { scope: 'read', appId });
+
+    if (!caller) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const app = await prisma.app.findFirst({
-      where: { 
-        id: appId,
-        userId: session.user.id,
-      },
-      select: { data: true },
+      where: appWhereRole(appId, caller.userId),
+      select: { id: true, spec: true, data: true },
     });
 
     if (!app) {
       return NextResponse.json({ error: 'App not found' }, { status: 404 });
     }
 
-    const data = typeof app.data === 'string' ? JSON.parse(app.data) : (app.data || []);
-    return NextResponse.json({ data });
+    const store = openAppDataStore(app);
+    const collection = store.collection(collectionParam(request));
+    const query = parseDataQuery(request.nextUrl.searchParams, collection.queryableFields());
+    const include = parseInclude(request.nextUrl.searchParams.get('include'), store.relationsOf(collection.name));
+    const result = collection.query(query);
+    const records = withComputedValues(store, collection, result.records);
+
+    return NextResponse.json({
+      data: expandRelations(store, records, include),
+      pagination: paginationFor(query, result),
+    });
   } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiTokenErrorResponse(error);
+    }
+    if (error instanceof AppDataError && error.code === 'INVALID_QUERY') {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 400 });
+    }
+    if (error instanceof AppDataError && error.code === 'UNKNOWN_COLLECTION') {
+      return unknownCollection(error);
+    }
     console.error('Error fetching app data:', error);
     return NextResponse.json(
       { error: 'Failed to fetch data' },
@@ -44,18 +89,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 // POST /api/apps/[appId]/data - Add a new record
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession();
     const { appId } = await params;
-    
-    if (!session?.user?.id) {
+    const caller = await authenticateRequest(request, { scope: 'write', appId });
+
+    if (!caller) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const app = await prisma.app.findFirst({
-      where: { 
-        id: appId,
-        userId: session.user.id,
-      },
+      where: appWhereRole(appId, caller.userId, 'editor'),
+      select: { id: true, spec: true, data: true, userId: true },
     });
 
     if (!app) {
@@ -63,25 +106,29 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const now = new Date().toISOString();
-    
-    const newRecord: DataRecord = {
-      id: generateId(),
-      createdAt: now,
-      updatedAt: now,
-      ...body,
-    };
-
-    const currentData = (typeof app.data === 'string' ? JSON.parse(app.data) : (app.data || [])) as DataRecord[];
-    const updatedData = [...currentData, newRecord];
-
-    await prisma.app.update({
-      where: { id: appId },
-      data: { data: JSON.stringify(updatedData) },
-    });
+    const store = openAppDataStore(app);
+    // Records count against the owner's plan, whoever adds them
+    await assertCanAddRecords(app.userId, store.recordCount());
+    const collection = store.collection(collectionParam(request));
+    const record = collection.insert(prepareWrite(collection, body));
 
-    return NextResponse.json({ record: newRecord }, { status: 201 });
+    return NextResponse.json({ record: withComputedValue(store, collection, record) }, { status: 201 });
   } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiTokenErrorResponse(error);
+    }
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error);
+    }
+    if (error instanceof AppDataError && error.code === 'DUPLICATE_ID') {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof AppDataError && error.code === 'VALIDATION_FAILED') {
+      return validationFailed(error);
+    }
+    if (error instanceof AppDataError && error.code === 'UNKNOWN_COLLECTION') {
+      return unknownCollection(error);
+    }
     console.error('Error adding record:', error);
     return NextResponse.json(
       { error: 'Failed to add record' },
@@ -91,20 +138,20 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 }
 
 // PATCH /api/apps/[appId]/data - Update a record
+// Send If-Match: <updatedAt> to refuse the write with 409 if the record changed
+// since it was read; without it the last write wins.
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession();
     const { appId } = await params;
-    
-    if (!session?.user?.id) {
+    const caller = await authenticateRequest(request, { scope: 'write', appId });
+
+    if (!caller) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const app = await prisma.app.findFirst({
-      where: { 
-        id: appId,
-        userId: session.user.id,
-      },
+      where: appWhereRole(appId, caller.userId, 'editor'),
+      select: { id: true, spec: true, data: true },
     });
 
     if (!app) {
@@ -118,29 +165,34 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Record ID is required' }, { status: 400 });
     }
 
-    const currentData = (typeof app.data === 'string' ? JSON.parse(app.data) : (app.data || [])) as DataRecord[];
-    const recordIndex = currentData.findIndex(r => r.id === recordId);
-
-    if (recordIndex === -1) {
+    const store = openAppDataStore(app);
+    const collection = store.collection(collectionParam(request));
+    if (!collection.get(recordId)) {
       return NextResponse.json({ error: 'Record not found' }, { status: 404 });
     }
 
-    const updatedRecord: DataRecord = {
-      ...currentData[recordIndex],
-      ...updates,
-      updatedAt: new Date().toISOString(),
-    };
-
-    const updatedData = [...currentData];
-    updatedData[recordIndex] = updatedRecord;
-
-    await prisma.app.update({
-      where: { id: appId },
-      data: { data: JSON.stringify(updatedData) },
+    const updatedRecord = collection.update(recordId, prepareWrite(collection, updates, recordId), {
+      expectedUpdatedAt: request.headers.get('if-match') || undefined,
     });
 
-    return NextResponse.json({ record: updatedRecord });
+    if (!updatedRecord) {
+      return NextResponse.json({ error: 'Record not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ record: withComputedValue(store, collection, updatedRecord) });
   } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiTokenErrorResponse(error);
+    }
+    if (error instanceof AppDataError && error.code === 'VALIDATION_FAILED') {
+      return validationFailed(error);
+    }
+    if (error instanceof AppDataError && error.code === 'CONFLICT') {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 409 });
+    }
+    if (error instanceof AppDataError && error.code === 'UNKNOWN_COLLECTION') {
+      return unknownCollection(error);
+    }
     console.error('Error updating record:', error);
     return NextResponse.json(
       { error: 'Failed to update record' },
@@ -152,10 +204,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 // DELETE /api/apps/[appId]/data - Delete a record
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession();
     const { appId } = await params;
-    
-    if (!session?.user?.id) {
+    const caller = await authenticateRequest(request, { scope: 'write', appId });
+
+    if (!caller) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
@@ -167,30 +219,31 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }
 
     const app = await prisma.app.findFirst({
-      where: { 
-        id: appId,
-        userId: session.user.id,
-      },
+      where: appWhereRole(appId, caller.userId, 'editor'),
+      select: { id: true, spec: true, data: true },
     });
 
     if (!app) {
       return NextResponse.json({ error: 'App not found' }, { status: 404 });
     }
 
-    const currentData = (typeof app.data === 'string' ? JSON.parse(app.data) : (app.data || [])) as DataRecord[];
-    const updatedData = currentData.filter(r => r.id !== recordId);
+    const deleted = openAppDataStore(app).collection(collectionParam(request)).delete(recordId);
 
-    if (updatedData.length === currentData.length) {
+    if (!deleted) {
       return NextResponse.json({ error: 'Record not found' }, { status: 404 });
     }
 
-    await prisma.app.update({
-      where: { id: appId },
-      data: { data: JSON.stringify(updatedData) },
-    });
-
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiTokenErrorResponse(error);
+    }
+    if (error instanceof AppDataError && error.code === 'DELETE_RESTRICTED') {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 409 });
+    }
+    if (error instanceof AppDataError && error.code === 'UNKNOWN_COLLECTION') {
+      return unknownCollection(error);
+    }
     console.error('Error deleting record:', error);
     return NextResponse.json(
       { error: 'Failed to delete record' },
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from '@/lib/auth';
+import { getAppRole, hasAppRole } from '@/lib/collaboration';
+import {
+  ARCHIVE_FORMATS,
+  AppExportError,
+  EXPORT_TARGETS,
+  exportApp,
+  type ArchiveFormat,
+  type ExportTarget,
+} from '@/lib/app-export';
+
+interface RouteParams {
+  params: Promise<{ appId: string }>;
+}
+
+// GET /api/apps/[appId]/export - Download the app as a standalone project (admins and the owner)
+// ?target=vite|nextjs (default vite), ?format=zip|tar.gz (default zip)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const target = (searchParams.get('target') || 'vite') as ExportTarget;
+    const format = (searchParams.get('format') || 'zip') as ArchiveFormat;
+
+    if (!EXPORT_TARGETS.includes(target)) {
+      return NextResponse.json({ error: `target must be one of ${EXPORT_TARGETS.join(', ')}` }, { status: 400 });
+    }
+    if (!ARCHIVE_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `format must be one of ${ARCHIVE_FORMATS.join(', ')}` }, { status: 400 });
+    }
+
+    if (!hasAppRole(await getAppRole(appId, session.user.id), 'admin')) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const archive = await exportApp(appId, target, format);
+
+    return new NextResponse(new Uint8Array(archive.body), {
+      headers: {
+        'Content-Type': archive.contentType,
+        'Content-Disposition': `attachment; filename="${archive.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppExportError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Error exporting app:', error);
+    return NextResponse.json(
+      { error: 'Failed to export app' },
+      { status: 500 }
+    );
+  }
+}
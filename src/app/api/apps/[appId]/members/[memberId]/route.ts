@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from '@/lib/auth';
+import prisma from '@/lib/db';
+import { APP_ROLES, getAppRole, hasAppRole } from '@/lib/collaboration';
+
+interface RouteParams {
+  params: Promise<{ appId: string; memberId: string }>;
+}
+
+const updateMemberSchema = z.object({
+  role: z.enum(APP_ROLES as [string, ...string[]]),
+});
+
+// PATCH /api/apps/[appId]/members/[memberId] - Change a member's role (admins and the owner)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId, memberId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = updateMemberSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.errors[0].message }, { status: 400 });
+    }
+
+    if (!hasAppRole(await getAppRole(appId, session.user.id), 'admin')) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const member = await prisma.appMember.findFirst({
+      where: { id: memberId, appId },
+    });
+
+    if (!member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    const updated = await prisma.appMember.update({
+      where: { id: member.id },
+      data: { role: validation.data.role },
+      select: { id: true, userId: true, role: true },
+    });
+
+    return NextResponse.json({ member: updated });
+  } catch (error) {
+    console.error('Error updating app member:', error);
+    return NextResponse.json(
+      { error: 'Failed to update member' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/apps/[appId]/members/[memberId] - Remove a member, or leave the app
+// Pass ?invite=1 to revoke a pending invite with this id instead
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId, memberId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const role = await getAppRole(appId, session.user.id);
+    if (!role) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    if (request.nextUrl.searchParams.get('invite')) {
+      if (!hasAppRole(role, 'admin')) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      const { count } = await prisma.appInvite.deleteMany({
+        where: { id: memberId, appId, acceptedAt: null },
+      });
+      return count > 0
+        ? NextResponse.json({ success: true })
+        : NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+    }
+
+    const member = await prisma.appMember.findFirst({
+      where: { id: memberId, appId },
+    });
+
+    if (!member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    // Anyone may leave; removing others takes admin
+    if (member.userId !== session.user.id && !hasAppRole(role, 'admin')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await prisma.appMember.delete({ where: { id: member.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing app member:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from '@/lib/auth';
+import prisma from '@/lib/db';
+import {
+  APP_ROLES,
+  appWhereRole,
+  CollaborationError,
+  createInvite,
+  getAppRole,
+  hasAppRole,
+  listAppMembers,
+  type AppRole,
+} from '@/lib/collaboration';
+
+interface RouteParams {
+  params: Promise<{ appId: string }>;
+}
+
+const inviteSchema = z.object({
+  email: z.string().email('Enter a valid email address'),
+  role: z.enum(APP_ROLES as [string, ...string[]]),
+});
+
+// GET /api/apps/[appId]/members - List the owner, members and pending invites
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const role = await getAppRole(appId, session.user.id);
+    if (!role) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const { members, invites } = await listAppMembers(appId);
+
+    // Only those who can manage members see who else has been invited
+    return NextResponse.json({
+      role,
+      members,
+      invites: hasAppRole(role, 'admin') ? invites : [],
+    });
+  } catch (error) {
+    console.error('Error fetching app members:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch members' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/apps/[appId]/members - Invite someone by email (admins and the owner)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = inviteSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.errors[0].message }, { status: 400 });
+    }
+
+    const app = await prisma.app.findFirst({
+      where: appWhereRole(appId, session.user.id, 'admin'),
+      select: { id: true },
+    });
+
+    if (!app) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const invite = await createInvite({
+      appId: app.id,
+      invitedById: session.user.id,
+      email: validation.data.email,
+      role: validation.data.role as AppRole,
+    });
+
+    return NextResponse.json({ invite }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CollaborationError && error.code === 'ALREADY_MEMBER') {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error inviting app member:', error);
+    return NextResponse.json(
+      { error: 'Failed to send invite' },
+      { status: 500 }
+    );
+  }
+}
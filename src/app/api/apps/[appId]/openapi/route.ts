@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiTokenError, apiTokenErrorResponse, authenticateRequest } from '@/lib/api-tokens';
+import prisma from '@/lib/db';
+import { appWhereRole } from '@/lib/collaboration';
+import { buildAppOpenApiDocument, resolveAppSchemas } from '@/lib/app-data';
+
+interface RouteParams {
+  params: Promise<{ appId: string }>;
+}
+
+// GET /api/apps/[appId]/openapi - OpenAPI 3.1 document for the app's data API
+// Generated from the app's current schemas, so it changes when the app does.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { appId } = await params;
+    const caller = await authenticateRequest(request, { scope: 'read', appId });
+
+    if (!caller) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const app = await prisma.app.findFirst({
+      where: appWhereRole(appId, caller.userId),
+      select: { id: true, name: true, description: true, spec: true },
+    });
+
+    if (!app) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const serverUrl = `${request.nextUrl.origin}/api/apps/${app.id}`;
+    return NextResponse.json(buildAppOpenApiDocument(app, resolveAppSchemas(app.spec), serverUrl));
+  } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiTokenErrorResponse(error);
+    }
+    console.error('Error building OpenAPI document:', error);
+    return NextResponse.json(
+      { error: 'Failed to build OpenAPI document' },
+      { status: 500 }
+    );
+  }
+}
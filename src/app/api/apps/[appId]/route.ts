@@ -1,34 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from '@/lib/auth';
+import { ApiTokenError, apiTokenErrorResponse, authenticateRequest } from '@/lib/api-tokens';
 import prisma from '@/lib/db';
+import { appWhereRole, getAppRole, hasAppRole } from '@/lib/collaboration';
+import { evictAppDataStore } from '@/lib/app-data';
+import { nebulaDbManager } from '@/lib/nebula/db-manager';
+import { EntitlementError, assertCanHostAlwaysOn, entitlementErrorResponse } from '@/lib/entitlements';
 
 interface RouteParams {
   params: Promise<{ appId: string }>;
 }
 
-// GET /api/apps/[appId] - Get a specific app
+// GET /api/apps/[appId] - Get a specific app and the caller's role on it
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession();
     const { appId } = await params;
-    
-    if (!session?.user?.id) {
+    const caller = await authenticateRequest(request, { scope: 'read', appId });
+
+    if (!caller) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const app = await prisma.app.findFirst({
-      where: { 
-        id: appId,
-        userId: session.user.id,
-      },
+      where: appWhereRole(appId, caller.userId),
     });
 
     if (!app) {
       return NextResponse.json({ error: 'App not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ app });
+    // Access secrets are only for those who manage access
+    const role = await getAppRole(app.id, caller.userId);
+    const { accessPasswordHash: _hash, shareToken, ...visibleApp } = app;
+
+    return NextResponse.json({
+      app: hasAppRole(role, 'admin') ? { ...visibleApp, shareToken } : visibleApp,
+      role,
+    });
   } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiTokenErrorResponse(error);
+    }
     console.error('Error fetching app:', error);
     return NextResponse.json(
       { error: 'Failed to fetch app' },
@@ -37,41 +48,50 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   }
 }
 
-// PATCH /api/apps/[appId] - Update an app
+// PATCH /api/apps/[appId] - Update an app (admins and the owner)
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession();
     const { appId } = await params;
-    
-    if (!session?.user?.id) {
+    const caller = await authenticateRequest(request, { scope: 'write', appId });
+
+    if (!caller) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const body = await request.json();
-    const { name, description, status } = body;
+    const { name, description, status, isAlwaysOn } = body;
 
     const app = await prisma.app.findFirst({
-      where: { 
-        id: appId,
-        userId: session.user.id,
-      },
+      where: appWhereRole(appId, caller.userId, 'admin'),
     });
 
     if (!app) {
       return NextResponse.json({ error: 'App not found' }, { status: 404 });
     }
 
+    // Always-on hosting is a feature of the owner's plan
+    if (isAlwaysOn === true && !app.isAlwaysOn) {
+      await assertCanHostAlwaysOn(app.userId);
+    }
+
     const updatedApp = await prisma.app.update({
       where: { id: appId },
       data: {
         ...(name && { name }),
         ...(description !== undefined && { description }),
         ...(status && { status }),
+        ...(typeof isAlwaysOn === 'boolean' && { isAlwaysOn }),
       },
     });
 
     return NextResponse.json({ app: updatedApp });
   } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiTokenErrorResponse(error);
+    }
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error);
+    }
     console.error('Error updating app:', error);
     return NextResponse.json(
       { error: 'Failed to update app' },
@@ -80,21 +100,18 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
   }
 }
 
-// DELETE /api/apps/[appId] - Delete an app
+// DELETE /api/apps/[appId] - Delete an app (owner only)
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession();
     const { appId } = await params;
-    
-    if (!session?.user?.id) {
+    const caller = await authenticateRequest(request, { scope: 'write', appId });
+
+    if (!caller) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const app = await prisma.app.findFirst({
-      where: { 
-        id: appId,
-        userId: session.user.id,
-      },
+      where: appWhereRole(appId, caller.userId, 'owner'),
     });
 
     if (!app) {
@@ -105,8 +122,14 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       where: { id: appId },
     });
 
+    evictAppDataStore(appId);
+    nebulaDbManager.deleteDb(appId);
+
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiTokenErrorResponse(error);
+    }
     console.error('Error deleting app:', error);
     return NextResponse.json(
       { error: 'Failed to delete app' },
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from '@/lib/auth';
+import { getAppRole, hasAppRole } from '@/lib/collaboration';
+import { AppVersionError, compareAppVersions } from '@/lib/app-versions';
+
+interface RouteParams {
+  params: Promise<{ appId: string; versionId: string }>;
+}
+
+// GET /api/apps/[appId]/versions/[versionId]/diff - Files changed in a version (admins and the owner)
+// Compares with the version before it, or with ?against=<versionId>
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId, versionId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasAppRole(await getAppRole(appId, session.user.id), 'admin')) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const against = request.nextUrl.searchParams.get('against') || undefined;
+
+    return NextResponse.json(await compareAppVersions(appId, versionId, against));
+  } catch (error) {
+    if (error instanceof AppVersionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Error comparing versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from '@/lib/auth';
+import { getAppRole, hasAppRole } from '@/lib/collaboration';
+import { AppVersionError, rollbackAppVersion } from '@/lib/app-versions';
+import { prebuildAppBundle } from '@/lib/nebula/bundle';
+import { nebulaSupervisor } from '@/lib/nebula/supervisor';
+
+interface RouteParams {
+  params: Promise<{ appId: string; versionId: string }>;
+}
+
+// POST /api/apps/[appId]/versions/[versionId]/rollback - Restore the app to a version (admins and the owner)
+// The restore is recorded as a new version, and the hosted app is rebuilt from it
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId, versionId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasAppRole(await getAppRole(appId, session.user.id), 'admin')) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const version = await rollbackAppVersion(appId, versionId, session.user.id);
+
+    await prebuildAppBundle(appId);
+    await nebulaSupervisor.reloadApp(appId);
+
+    return NextResponse.json({ version });
+  } catch (error) {
+    if (error instanceof AppVersionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Error rolling back app:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back' },
+      { status: 500 }
+    );
+  }
+}
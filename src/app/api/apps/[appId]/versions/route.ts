@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from '@/lib/auth';
+import { getAppRole, hasAppRole } from '@/lib/collaboration';
+import { AppVersionError, commitFileEdits, listAppVersions } from '@/lib/app-versions';
+import { prebuildAppBundle } from '@/lib/nebula/bundle';
+import { nebulaSupervisor } from '@/lib/nebula/supervisor';
+
+interface RouteParams {
+  params: Promise<{ appId: string }>;
+}
+
+const editFilesSchema = z.object({
+  files: z.record(z.string()).refine(files => Object.keys(files).length > 0, 'No files to save'),
+  summary: z.string().max(500, 'Summary is too long').optional(),
+});
+
+// GET /api/apps/[appId]/versions - The app's code history, newest first (admins and the owner)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasAppRole(await getAppRole(appId, session.user.id), 'admin')) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ versions: await listAppVersions(appId) });
+  } catch (error) {
+    console.error('Error fetching versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch versions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/apps/[appId]/versions - Save edited files as a new version (admins and the owner)
+// `files` maps file paths, as the diff lists them, to their new contents
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = editFilesSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.errors[0].message }, { status: 400 });
+    }
+
+    if (!hasAppRole(await getAppRole(appId, session.user.id), 'admin')) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const version = await commitFileEdits(appId, validation.data.files, {
+      userId: session.user.id,
+      summary: validation.data.summary,
+    });
+    if (!version) {
+      return NextResponse.json({ version: null });
+    }
+
+    await prebuildAppBundle(appId);
+    await nebulaSupervisor.reloadApp(appId);
+
+    return NextResponse.json({ version }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AppVersionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Error saving version:', error);
+    return NextResponse.json(
+      { error: 'Failed to save changes' },
+      { status: 500 }
+    );
+  }
+}
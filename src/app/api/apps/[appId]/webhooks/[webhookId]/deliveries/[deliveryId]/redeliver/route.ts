@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from '@/lib/auth';
+import { getAppRole, hasAppRole } from '@/lib/collaboration';
+import { WebhookError, redeliverWebhookDelivery } from '@/lib/webhooks';
+
+interface RouteParams {
+  params: Promise<{ appId: string; webhookId: string; deliveryId: string }>;
+}
+
+// POST /api/apps/[appId]/webhooks/[webhookId]/deliveries/[deliveryId]/redeliver - Send a logged event again now
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId, webhookId, deliveryId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasAppRole(await getAppRole(appId, session.user.id), 'admin')) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const delivery = await redeliverWebhookDelivery(appId, webhookId, deliveryId);
+
+    return NextResponse.json({ delivery }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WebhookError && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Error redelivering webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to redeliver' },
+      { status: 500 }
+    );
+  }
+}
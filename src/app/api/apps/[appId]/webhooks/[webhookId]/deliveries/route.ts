@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from '@/lib/auth';
+import { getAppRole, hasAppRole } from '@/lib/collaboration';
+import { listWebhookDeliveries } from '@/lib/webhooks';
+
+interface RouteParams {
+  params: Promise<{ appId: string; webhookId: string }>;
+}
+
+// GET /api/apps/[appId]/webhooks/[webhookId]/deliveries - The webhook's recent deliveries, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId, webhookId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasAppRole(await getAppRole(appId, session.user.id), 'admin')) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const limit = Math.min(Math.max(Number(request.nextUrl.searchParams.get('limit')) || 50, 1), 200);
+
+    return NextResponse.json({ deliveries: await listWebhookDeliveries(appId, webhookId, limit) });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch deliveries' },
+      { status: 500 }
+    );
+  }
+}
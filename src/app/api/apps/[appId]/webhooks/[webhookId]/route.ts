@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from '@/lib/auth';
+import { getAppRole, hasAppRole } from '@/lib/collaboration';
+import {
+  WEBHOOK_EVENTS,
+  WebhookError,
+  deleteWebhook,
+  updateWebhook,
+  type WebhookEvent,
+} from '@/lib/webhooks';
+
+interface RouteParams {
+  params: Promise<{ appId: string; webhookId: string }>;
+}
+
+const updateWebhookSchema = z.object({
+  url: z.string().min(1, 'Enter a URL').max(2048, 'URL is too long').optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS as [WebhookEvent, ...WebhookEvent[]])).min(1, 'Choose at least one event').optional(),
+  active: z.boolean().optional(),
+  rotateSecret: z.boolean().optional(),
+});
+
+// PATCH /api/apps/[appId]/webhooks/[webhookId] - Change, pause or rotate the secret of a webhook
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId, webhookId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = updateWebhookSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.errors[0].message }, { status: 400 });
+    }
+
+    if (!hasAppRole(await getAppRole(appId, session.user.id), 'admin')) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const webhook = await updateWebhook(appId, webhookId, validation.data);
+
+    return NextResponse.json({ webhook });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message }, { status: error.code === 'NOT_FOUND' ? 404 : 400 });
+    }
+    console.error('Error updating webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to update webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/apps/[appId]/webhooks/[webhookId] - Remove a webhook and its delivery log
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId, webhookId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasAppRole(await getAppRole(appId, session.user.id), 'admin')) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    return await deleteWebhook(appId, webhookId)
+      ? NextResponse.json({ success: true })
+      : NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete webhook' },
+      { status: 500 }
+    );
+  }
+}
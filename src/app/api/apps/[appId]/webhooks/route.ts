@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from '@/lib/auth';
+import { getAppRole, hasAppRole } from '@/lib/collaboration';
+import {
+  WEBHOOK_EVENTS,
+  WebhookError,
+  createWebhook,
+  listWebhooks,
+  type WebhookEvent,
+} from '@/lib/webhooks';
+
+interface RouteParams {
+  params: Promise<{ appId: string }>;
+}
+
+const createWebhookSchema = z.object({
+  url: z.string().min(1, 'Enter a URL').max(2048, 'URL is too long'),
+  events: z.array(z.enum(WEBHOOK_EVENTS as [WebhookEvent, ...WebhookEvent[]])).min(1, 'Choose at least one event'),
+});
+
+// GET /api/apps/[appId]/webhooks - List the app's webhooks (admins and the owner)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasAppRole(await getAppRole(appId, session.user.id), 'admin')) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ webhooks: await listWebhooks(appId) });
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhooks' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/apps/[appId]/webhooks - Subscribe a URL to record changes (admins and the owner)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = createWebhookSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.errors[0].message }, { status: 400 });
+    }
+
+    if (!hasAppRole(await getAppRole(appId, session.user.id), 'admin')) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const webhook = await createWebhook(appId, validation.data);
+
+    return NextResponse.json({ webhook }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error creating webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to create webhook' },
+      { status: 500 }
+    );
+  }
+}
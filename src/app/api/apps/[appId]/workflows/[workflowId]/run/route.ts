@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from '@/lib/auth';
+import prisma from '@/lib/db';
+import { appWhereRole } from '@/lib/collaboration';
+import { openAppWorkflowEngine } from '@/lib/app-data';
+import { WorkflowError } from '@/lib/workflows';
+
+interface RouteParams {
+  params: Promise<{ appId: string; workflowId: string }>;
+}
+
+// POST /api/apps/[appId]/workflows/[workflowId]/run - Run a workflow now
+// Body: { recordId?: string } to run it against one record
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId, workflowId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const app = await prisma.app.findFirst({
+      where: appWhereRole(appId, session.user.id, 'editor'),
+      select: { id: true, spec: true, data: true },
+    });
+
+    if (!app) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const recordId = typeof body?.recordId === 'string' ? body.recordId : undefined;
+
+    const execution = openAppWorkflowEngine(app).runManual(workflowId, recordId);
+
+    return NextResponse.json({ execution });
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      const status = error.code === 'WORKFLOW_DISABLED' ? 409 : 404;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    console.error('Error running workflow:', error);
+    return NextResponse.json(
+      { error: 'Failed to run workflow' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from '@/lib/auth';
+import prisma from '@/lib/db';
+import { appWhereRole } from '@/lib/collaboration';
+import { openAppWorkflowEngine } from '@/lib/app-data';
+
+interface RouteParams {
+  params: Promise<{ appId: string }>;
+}
+
+// GET /api/apps/[appId]/workflows - List an app's workflows with their execution log
+// Supports ?workflowId= to filter runs and ?limit= (default 50, max 500)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+    const { appId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const app = await prisma.app.findFirst({
+      where: appWhereRole(appId, session.user.id),
+      select: { id: true, spec: true, data: true },
+    });
+
+    if (!app) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 50, 1), 500);
+    const workflowId = searchParams.get('workflowId') || undefined;
+
+    const engine = openAppWorkflowEngine(app);
+
+    return NextResponse.json({
+      workflows: engine.list().map(workflow => ({
+        ...workflow,
+        nextRunAt: engine.nextRunAt(workflow),
+      })),
+      executions: engine.log.list({ workflowId, limit }),
+      notifications: engine.log.listNotifications(limit),
+    });
+  } catch (error) {
+    console.error('Error fetching app workflows:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workflows' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from '@/lib/auth';
+import { ApiTokenError, apiTokenErrorResponse, authenticateRequest } from '@/lib/api-tokens';
 import prisma, { withDBErrorHandling, DBErrorType } from '@/lib/db';
 import { generateSubdomain } from '@/lib/utils';
+import { EntitlementError, assertCanCreateApp, entitlementErrorResponse } from '@/lib/entitlements';
+import { isAppRole } from '@/lib/collaboration';
 
-// GET /api/apps - List all apps for the current user
-export async function GET() {
+// GET /api/apps - List the apps the current user owns or was invited to, with their role on each
+export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession();
-    
-    if (!session?.user?.id) {
+    const caller = await authenticateRequest(request, { scope: 'read' });
+
+    if (!caller) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const { data: apps, error: dbError } = await withDBErrorHandling(
       () => prisma.app.findMany({
-        where: { userId: session.user.id },
+        where: {
+          OR: [{ userId: caller.userId }, { members: { some: { userId: caller.userId } } }],
+          ...(caller.token?.appIds && { id: { in: caller.token.appIds } }),
+        },
         orderBy: { createdAt: 'desc' },
         select: {
           id: true,
@@ -24,6 +29,8 @@ export async function GET() {
           createdAt: true,
           updatedAt: true,
           subdomain: true,
+          userId: true,
+          members: { where: { userId: caller.userId }, select: { role: true } },
         },
       }),
       { retryAttempts: 2, retryDelayMs: 500 }
@@ -73,8 +80,16 @@ export async function GET() {
       );
     }
 
-    return NextResponse.json({ apps: apps || [] });
+    return NextResponse.json({
+      apps: (apps || []).map(({ userId, members, ...app }) => {
+        const memberRole = members[0]?.role;
+        return { ...app, role: userId === caller.userId ? 'owner' : isAppRole(memberRole) ? memberRole : null };
+      }),
+    });
   } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiTokenErrorResponse(error);
+    }
     console.error('Unexpected error fetching apps:', error);
     return NextResponse.json(
       { 
@@ -90,9 +105,9 @@ export async function GET() {
 // POST /api/apps - Create a new app (for quick creation without conversation)
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession();
-    
-    if (!session?.user?.id) {
+    const caller = await authenticateRequest(request, { scope: 'write' });
+
+    if (!caller) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
@@ -106,10 +121,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (caller.token?.appIds) {
+      throw new ApiTokenError('This API token is limited to specific apps and cannot create apps', 'APP_NOT_ALLOWED');
+    }
+
+    await assertCanCreateApp(caller.userId);
+
     const { data: app, error: dbError } = await withDBErrorHandling(
       () => prisma.app.create({
         data: {
-          userId: session.user.id,
+          userId: caller.userId,
           name,
           subdomain: generateSubdomain(name),
           description: description || '',
@@ -160,6 +181,12 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ app }, { status: 201 });
   } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return apiTokenErrorResponse(error);
+    }
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error);
+    }
     console.error('Unexpected error creating app:', error);
     return NextResponse.json(
       { 
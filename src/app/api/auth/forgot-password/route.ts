@@ -0,0 +1,33 @@
+/**
+ * Forgot Password API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requestPasswordReset } from '@/lib/auth';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a reset link. Answers the same whether or not the account exists.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const validation = forgotPasswordSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.errors[0].message }, { status: 400 });
+    }
+
+    await requestPasswordReset(validation.data.email);
+
+    return NextResponse.json({
+      message: 'If an account exists for that email, we sent a link to reset the password.',
+    });
+  } catch (error) {
+    console.error('Error requesting password reset:', error);
+    return NextResponse.json({ error: 'Failed to send reset email' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Reset Password API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AuthFlowError, MIN_PASSWORD_LENGTH, resetPassword } from '@/lib/auth';
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`),
+});
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password from an emailed reset link, signing out every session
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const validation = resetPasswordSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.errors[0].message }, { status: 400 });
+    }
+
+    await resetPassword(validation.data.token, validation.data.password);
+
+    return NextResponse.json({ message: 'Password updated. You can now sign in with it.' });
+  } catch (error) {
+    if (error instanceof AuthFlowError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+    console.error('Error resetting password:', error);
+    return NextResponse.json({ error: 'Failed to reset password' }, { status: 500 });
+  }
+}
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import bcrypt from 'bcryptjs';
 import prisma, { withDBErrorHandling, DBErrorType } from '@/lib/db';
+import { MIN_PASSWORD_LENGTH, sendEmailVerification } from '@/lib/auth';
 import { z } from 'zod';
 
 const signupSchema = z.object({
   email: z.string().email('Invalid email address'),
-  password: z.string().min(8, 'Password must be at least 8 characters'),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`),
   name: z.string().min(1, 'Name is required').optional(),
 });
 
@@ -116,6 +117,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The account works without verification; a failed email shouldn't fail signup
+    if (user) {
+      await sendEmailVerification(user.id).catch(error => {
+        console.error('Failed to send verification email:', error);
+      });
+    }
+
     return NextResponse.json(
       { message: 'Account created successfully', user },
       { status: 201 }
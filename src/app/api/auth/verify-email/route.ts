@@ -0,0 +1,35 @@
+/**
+ * Verify Email API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AuthFlowError, verifyEmail } from '@/lib/auth';
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+/**
+ * POST /api/auth/verify-email
+ * Mark an address verified from an emailed link. A POST rather than the link
+ * itself, so mail scanners that prefetch links don't use the token up.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const validation = verifyEmailSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.errors[0].message }, { status: 400 });
+    }
+
+    const { email } = await verifyEmail(validation.data.token);
+
+    return NextResponse.json({ message: `${email} is verified.`, email });
+  } catch (error) {
+    if (error instanceof AuthFlowError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+    console.error('Error verifying email:', error);
+    return NextResponse.json({ error: 'Failed to verify email' }, { status: 500 });
+  }
+}
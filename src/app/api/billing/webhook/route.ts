@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BillingError, getBillingConfig, handleBillingEvent, verifyWebhookEvent } from '@/lib/billing';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/billing/webhook - Stripe event deliveries
+// Verified against STRIPE_WEBHOOK_SECRET using the raw body, so this route must
+// not parse JSON before verifying. Subscription created/updated/deleted and
+// invoice.payment_failed update the user's plan; other events are acknowledged.
+export async function POST(request: NextRequest) {
+  const payload = await request.text();
+
+  let event;
+  try {
+    event = verifyWebhookEvent(
+      payload,
+      request.headers.get('stripe-signature'),
+      getBillingConfig().webhookSecret
+    );
+  } catch (error) {
+    if (error instanceof BillingError) {
+      const status = error.code === 'NOT_CONFIGURED' ? 503 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    throw error;
+  }
+
+  try {
+    const handled = await handleBillingEvent(event);
+    return NextResponse.json({ received: true, handled });
+  } catch (error) {
+    // A 500 makes Stripe retry the delivery later
+    console.error(`Error handling billing event ${event.id} (${event.type}):`, error);
+    return NextResponse.json(
+      { error: 'Failed to handle event' },
+      { status: 500 }
+    );
+  }
+}
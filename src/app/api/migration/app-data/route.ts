@@ -0,0 +1,98 @@
+/**
+ * App Data Migration API Endpoint
+ * Moves legacy App.data JSON arrays into the per-app SQLite tables
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from '@/lib/auth';
+import prisma from '@/lib/db';
+import {
+  AppDataStore,
+  importLegacyAppData,
+  parseLegacyAppData,
+  resolveAppSchemas,
+  evictAppDataStore,
+} from '@/lib/app-data';
+import { nebulaDbManager } from '@/lib/nebula/db-manager';
+
+interface AppDataMigrationRequest {
+  force?: boolean;
+  dryRun?: boolean;
+}
+
+interface AppDataMigrationStats {
+  appsTotal: number;
+  appsMigrated: number;
+  appsFailed: number;
+  recordsImported: number;
+  errors: string[];
+}
+
+/**
+ * POST /api/migration/app-data
+ * Import App.data records for all of the current user's apps.
+ *
+ * Apps are also migrated lazily the first time their data is accessed; this
+ * endpoint lets the migration be run up front.
+ *
+ * Body:
+ * - force: boolean (optional) - Re-import even if already imported (existing IDs are skipped)
+ * - dryRun: boolean (optional) - Count records without writing
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body: AppDataMigrationRequest = await request.json().catch(() => ({}));
+    const { force = false, dryRun = false } = body;
+
+    const apps = await prisma.app.findMany({
+      where: { userId: session.user.id },
+      select: { id: true, name: true, spec: true, data: true },
+    });
+
+    const stats: AppDataMigrationStats = {
+      appsTotal: apps.length,
+      appsMigrated: 0,
+      appsFailed: 0,
+      recordsImported: 0,
+      errors: [],
+    };
+
+    for (const app of apps) {
+      try {
+        if (dryRun) {
+          stats.recordsImported += parseLegacyAppData(app.data).length;
+          stats.appsMigrated++;
+          continue;
+        }
+
+        const store = new AppDataStore(app.id, nebulaDbManager.getDb(app.id), resolveAppSchemas(app.spec));
+        const result = importLegacyAppData(store, app.data, { force });
+        evictAppDataStore(app.id);
+
+        stats.recordsImported += result.imported;
+        stats.appsMigrated++;
+        console.log(`  ✅ App ${app.id} (${app.name}): ${result.alreadyImported ? 'already imported' : `${result.imported} records imported`}`);
+      } catch (error) {
+        stats.appsFailed++;
+        const errorMsg = `App ${app.id} (${app.name}): ${error instanceof Error ? error.message : String(error)}`;
+        stats.errors.push(errorMsg);
+        console.error(`  ❌ Failed to migrate data for app ${app.id}:`, error);
+      }
+    }
+
+    return NextResponse.json({
+      success: stats.appsFailed === 0,
+      stats,
+      dryRun,
+    });
+  } catch (error) {
+    console.error('❌ App data migration failed:', error);
+    return NextResponse.json({ error: 'App data migration failed' }, { status: 500 });
+  }
+}
@@ -8,6 +8,8 @@ import { getServerSession } from '@/lib/auth';
 import prisma from '@/lib/db';
 import { migrateConversation, migrateApp, type MigrationStats } from '@/lib/migration';
 import { serializeDynamicState } from '@/lib/scaffolder-v2/state';
+import { prebuildAppBundle } from '@/lib/nebula/bundle';
+import { hasScheduledWorkflows } from '@/lib/workflows';
 
 interface MigrationRequest {
   target: 'conversations' | 'apps' | 'all';
@@ -256,8 +258,10 @@ async function migrateApps(
       if (!dryRun) {
         await prisma.app.update({
           where: { id: app.id },
-          data: v2Data,
+          // The scheduler only loads apps flagged as having schedules
+          data: { ...v2Data, hasSchedules: hasScheduledWorkflows(v2Data.spec) },
         });
+        await prebuildAppBundle(app.id);
       }
       
       stats.appsMigrated++;
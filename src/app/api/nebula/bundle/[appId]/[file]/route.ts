@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBundleCode } from '@/lib/nebula/bundle';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ appId: string; file: string }>;
+}
+
+// GET /api/nebula/bundle/[appId]/[hash].js - Prebuilt browser bundle of an app
+// The URL changes whenever the bundle does, so responses are cached indefinitely.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { appId, file } = await params;
+    const match = /^([a-f0-9]{32})\.js$/.exec(file);
+    if (!match) {
+      return NextResponse.json({ error: 'Bundle not found' }, { status: 404 });
+    }
+
+    const hash = match[1];
+    const etag = `"${hash}"`;
+    const cacheHeaders = {
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      ETag: etag,
+    };
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new Response(null, { status: 304, headers: cacheHeaders });
+    }
+
+    const code = await getBundleCode(appId, hash);
+    if (code === null) {
+      return NextResponse.json({ error: 'Bundle not found' }, { status: 404 });
+    }
+
+    return new Response(code, {
+      status: 200,
+      headers: {
+        ...cacheHeaders,
+        'Content-Type': 'application/javascript; charset=utf-8',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving app bundle:', error);
+    return NextResponse.json(
+      { error: 'Failed to load bundle' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  assertAppUnlockAllowed,
+  clientIp,
+  getServerSession,
+  recordAppUnlockAttempt,
+  AuthFlowError,
+} from '@/lib/auth';
+import prisma from '@/lib/db';
+import { getAppRole } from '@/lib/collaboration';
 import { nebulaSupervisor } from '@/lib/nebula/supervisor';
+import { NEBULA_CHANGES_PATH } from '@/lib/nebula/runner';
+import { changeFeedResponse } from '@/lib/app-data';
+import {
+  accessCookieName,
+  resolveAppAccess,
+  signAccessGrant,
+  verifyAccessPassword,
+  NEBULA_ACCESS_HEADER,
+  SHARE_TOKEN_PARAM,
+  UNLOCK_PATH,
+  type AppAccessSettings,
+} from '@/lib/nebula/access';
 import { getSubdomain, isValidAppId } from '@/lib/utils';
 
 // Use Node.js runtime for esbuild compatibility
@@ -77,11 +98,47 @@ export async function GET(
 
     const path = url.searchParams.get('originalPath') || (url.pathname.startsWith('/s/') ? '/' + url.pathname.split('/').slice(3).join('/') : url.pathname) || '/';
 
+    // Access control runs before anything reaches the app's worker
+    const app = await prisma.app.findFirst({
+      where: { OR: [{ id: appId }, { subdomain: appId }] },
+      select: { id: true, userId: true, visibility: true, shareToken: true, accessPasswordHash: true },
+    });
+
+    if (!app) {
+      return NextResponse.json({ error: 'App not found' }, { status: 404 });
+    }
+
+    if (request.method === 'POST' && path === UNLOCK_PATH) {
+      return unlockApp(app, appId, body, clientIp(request.headers));
+    }
+
+    const session = await getServerSession();
+    const memberRole = session?.user?.id ? await getAppRole(app.id, session.user.id) : null;
+    const access = resolveAppAccess(app, {
+      userId: session?.user?.id,
+      role: memberRole === 'owner' ? null : memberRole,
+      token: url.searchParams.get(SHARE_TOKEN_PARAM),
+      grant: request.cookies.get(accessCookieName(app.id))?.value,
+    });
+
+    if (!access.allowed) {
+      return deniedResponse(access.reason, appId, path, request.url);
+    }
+
+    // The change feed is a long-lived stream, so it is served here rather than by the worker
+    if (request.method === 'GET' && path === NEBULA_CHANGES_PATH) {
+      return changeFeedResponse(app.id, {
+        lastEventId: request.headers.get('last-event-id'),
+        signal: request.signal,
+      });
+    }
+
     const payload = {
       method: request.method,
       path: path,
       query: Object.fromEntries(url.searchParams.entries()),
-      headers: Object.fromEntries(request.headers.entries()),
+      // The access level always comes from the check above, never from the client
+      headers: { ...Object.fromEntries(request.headers.entries()), [NEBULA_ACCESS_HEADER]: access.level },
       body: body
     };
 
@@ -106,13 +163,20 @@ export async function GET(
 
     // Nebula apps return a simplified response object
     // { status, body, headers }
-    return new Response(response.body, {
+    const appResponse = new NextResponse(response.body, {
       status: response.status || 200,
       headers: {
         ...response.headers,
         'Content-Type': contentType,
       },
     });
+
+    // Remember a share-link visit so the app keeps working without the token
+    if (access.grant) {
+      setAccessCookie(appResponse, app.id, access.grant);
+    }
+
+    return appResponse;
   } catch (error: any) {
     console.error(`Nebula Serve Error [${appId}]:`, error);
     
@@ -129,6 +193,104 @@ export async function GET(
   }
 }
 
+// ============================================================================
+// Access responses
+// ============================================================================
+
+function setAccessCookie(response: NextResponse, appId: string, grant: string) {
+  response.cookies.set(accessCookieName(appId), grant, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 30 * 24 * 60 * 60,
+  });
+}
+
+function deniedResponse(reason: 'signin' | 'forbidden' | 'password', appId: string, path: string, requestUrl: string) {
+  const isDataRequest = path.startsWith('/api/');
+
+  if (reason === 'password') {
+    return isDataRequest
+      ? NextResponse.json({ error: 'Password required' }, { status: 401 })
+      : passwordPage(appId, null);
+  }
+
+  if (reason === 'signin') {
+    if (isDataRequest) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const callbackUrl = `/s/${appId}${path === '/' ? '' : path}`;
+    return NextResponse.redirect(new URL(`/auth/signin?callbackUrl=${encodeURIComponent(callbackUrl)}`, requestUrl));
+  }
+
+  // Signed in but not allowed: don't reveal that the app exists
+  return NextResponse.json({ error: 'App not found' }, { status: 404 });
+}
+
+/**
+ * Check a password submitted from the password page and remember the unlock.
+ * Wrong guesses are throttled per app and per IP address, like sign-ins.
+ */
+async function unlockApp(app: AppAccessSettings, appId: string, body: string | null, ipAddress: string | null) {
+  if (app.visibility !== 'PASSWORD') {
+    return NextResponse.json({ error: 'App not found' }, { status: 404 });
+  }
+
+  try {
+    await assertAppUnlockAllowed(app.id, ipAddress);
+  } catch (error) {
+    if (error instanceof AuthFlowError && error.retryAt) {
+      const response = passwordPage(appId, error.message, 429);
+      response.headers.set('Retry-After', String(Math.max(1, Math.ceil((error.retryAt.getTime() - Date.now()) / 1000))));
+      return response;
+    }
+    throw error;
+  }
+
+  const password = new URLSearchParams(body || '').get('password') || '';
+  const grant = verifyAccessPassword(password, app.accessPasswordHash) ? signAccessGrant(app) : null;
+  await recordAppUnlockAttempt(app.id, ipAddress, !!grant);
+  if (!grant) {
+    return passwordPage(appId, 'Incorrect password');
+  }
+
+  const response = new NextResponse(null, { status: 303, headers: { Location: `/s/${appId}` } });
+  setAccessCookie(response, app.id, grant);
+  return response;
+}
+
+function passwordPage(appId: string, error: string | null, status = 401) {
+  const html = `<!DOCTYPE html>
+<html lang="en" class="dark">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Password required | Nebula</title>
+  <style>
+    body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; background: #000; color: #fff; font-family: Inter, system-ui, sans-serif; }
+    form { width: 320px; padding: 32px; border-radius: 16px; background: #111; border: 1px solid #27272a; }
+    h1 { font-size: 18px; margin: 0 0 8px; }
+    p { font-size: 14px; color: #a1a1aa; margin: 0 0 20px; }
+    input { width: 100%; box-sizing: border-box; padding: 10px 12px; border-radius: 10px; border: 1px solid #3f3f46; background: #000; color: #fff; font-size: 14px; }
+    button { width: 100%; margin-top: 12px; padding: 10px; border: 0; border-radius: 10px; background: #facc15; color: #000; font-weight: 600; cursor: pointer; }
+    .error { color: #f87171; margin: 12px 0 0; }
+  </style>
+</head>
+<body>
+  <form method="POST" action="/s/${appId}${UNLOCK_PATH}">
+    <h1>This app is password protected</h1>
+    <p>Enter the password the owner shared with you.</p>
+    <input type="password" name="password" autofocus required aria-label="Password">
+    <button type="submit">Open app</button>
+    ${error ? `<p class="error">${error}</p>` : ''}
+  </form>
+</body>
+</html>`;
+
+  return new NextResponse(html, { status, headers: { 'Content-Type': 'text/html' } });
+}
+
 // Support other methods
 export const POST = GET;
 export const PUT = GET;
@@ -4,7 +4,12 @@ import { getServerSession } from '@/lib/auth';
 import prisma from '@/lib/db';
 import { generateId, generateSubdomain } from '@/lib/utils';
 import type { UserLLMSettings, LLMProvider } from '@/lib/llm';
-import { enhanceUserSettingsWithApiKeys } from '@/lib/llm';
+import {
+  BudgetExceededError,
+  enhanceUserSettingsWithApiKeys,
+  runWithUsageContext,
+  setUsageConversationId,
+} from '@/lib/llm';
 import { 
   // New naming convention (preferred)
   architect,
@@ -46,6 +51,14 @@ import { mockupGenerator } from '@/lib/scaffolder-v2/mockup';
 import { FeedbackLoop } from '@/lib/scaffolder-v2/feedback-loop';
 import { FeedbackStats } from '@/lib/scaffolder-v2/feedback-stats';
 import { IS_DEMO_MODE } from '@/lib/config';
+import { validateComputedFields } from '@/lib/formulas';
+import { isFeatureEnabled } from '@/lib/scaffolder-v2/feature-flags';
+import { effectivePlan } from '@/lib/billing';
+import { EntitlementError, entitlementErrorResponse, providerForPlan, startGeneration } from '@/lib/entitlements';
+import { applyFileEdits, commitAppChange, recordAppVersion, versionFiles } from '@/lib/app-versions';
+import { prebuildAppBundle } from '@/lib/nebula/bundle';
+import { hasScheduledWorkflows } from '@/lib/workflows';
+import { nebulaSupervisor } from '@/lib/nebula/supervisor';
 import type { 
   ConversationState,
   DynamicConversationState,
@@ -54,6 +67,7 @@ import type {
   ArchitectDecision,
   EnhancedArchitectDecision,
   Schema,
+  ComputedField,
   LayoutNode,
   EnhancedIntent,
   ProposalSet,
@@ -90,35 +104,35 @@ export async function POST(request: NextRequest) {
     console.log(`🔑 ConversationId: ${conversationId || 'new'}`);
     console.log(`👤 User: ${session.user.id}`);
 
-    let response: NextResponse;
+    // Attribute every LLM call made while handling this request
+    const response = await runWithUsageContext({ userId: session.user.id, conversationId }, async () => {
+      switch (action) {
+        case 'chat':
+          return handleChat(session.user.id, conversationId, message);
+        
+        case 'finalize':
+          await startGeneration(session.user.id, 'build', { createsApp: true, conversationId });
+          return handleFinalize(session.user.id, conversationId!);
+        
+        case 'undo':
+          return handleUndo(session.user.id, conversationId!);
+        
+        case 'select_proposal':
+          return handleSelectProposal(session.user.id, conversationId!, message);
+        
+        case 'fix_component':
+          return handleFixComponent(session.user.id, conversationId!, body.componentCode!, body.errorLog!, message);
 
-    switch (action) {
-      case 'chat':
-        response = await handleChat(session.user.id, conversationId, message);
-        break;
-      
-      case 'finalize':
-        response = await handleFinalize(session.user.id, conversationId!);
-        break;
-      
-      case 'undo':
-        response = await handleUndo(session.user.id, conversationId!);
-        break;
-      
-      case 'select_proposal':
-        response = await handleSelectProposal(session.user.id, conversationId!, message);
-        break;
-      
-      case 'fix_component':
-        response = await handleFixComponent(session.user.id, conversationId!, body.componentCode!, body.errorLog!, message);
-        break;
+        case 'resolve_feedback':
+          return handleResolveFeedback(session.user.id, conversationId!, message, body.componentCode!);
+        
+        default:
+          return null;
+      }
+    });
 
-      case 'resolve_feedback':
-        response = await handleResolveFeedback(session.user.id, conversationId!, message, body.componentCode!);
-        break;
-      
-      default:
-        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    if (!response) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
     }
 
     const duration = Date.now() - startTime;
@@ -126,6 +140,12 @@ export async function POST(request: NextRequest) {
     
     return response;
   } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 402 });
+    }
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error);
+    }
     const duration = Date.now() - startTime;
     console.error(`❌ V2 Scaffolder error after ${duration}ms:`, error);
     return NextResponse.json(
@@ -183,6 +203,7 @@ async function handleChat(
     isNewConversation = true;
     console.log(`🆕 Creating new conversation: ${state.id}`);
   }
+  setUsageConversationId(state.id);
 
   // Add user message to state
   state = addMessageToState(state, 'user', message, { phase: state.phase }) as DynamicConversationState;
@@ -192,6 +213,8 @@ async function handleChat(
     where: { id: userId },
     select: {
       preferredLLMProvider: true,
+      plan: true,
+      subscriptionStatus: true,
       ollamaEndpoint: true,
       ollamaModel: true,
       ollamaSmallModel: true,
@@ -204,7 +227,8 @@ async function handleChat(
 
   // Build base user settings
   const baseSettings: UserLLMSettings = user ? {
-    provider: (user.preferredLLMProvider || undefined) as LLMProvider | undefined,
+    userId,
+    provider: providerForPlan(effectivePlan(user), user.preferredLLMProvider as LLMProvider | null),
     ollamaEndpoint: user.ollamaEndpoint || undefined,
     ollamaModel: user.ollamaModel || undefined,
     ollamaSmallModel: user.ollamaSmallModel || undefined,
@@ -370,6 +394,17 @@ async function handleFinalize(
     return NextResponse.json({ error: 'Cannot finalize without schema and layout' }, { status: 400 });
   }
 
+  // Catch broken computed field formulas before generating any code
+  const formulaIssues = state.schemas.flatMap(schema =>
+    validateComputedFields(schema, state.schemas).map(issue => ({ schema: schema.name, ...issue }))
+  );
+  if (formulaIssues.length > 0) {
+    return NextResponse.json(
+      { error: 'Some computed field formulas are invalid', issues: formulaIssues },
+      { status: 400 }
+    );
+  }
+
   // Wait for code stream connection (frontend may be connecting)
   const streamConnected = await waitForV2CodeStreamConnection(conversationId, 3000);
   const useStreaming = streamConnected && isV2ControllerHealthy(conversationId);
@@ -469,6 +504,9 @@ async function handleFinalize(
 
   overallScore = componentCount > 0 ? overallScore / componentCount : 0;
 
+  // Multi-entity apps keep every schema, each stored as its own related collection
+  const multiEntity = state.schemas.length > 1 && await isFeatureEnabled(userId, 'multiEntityEnabled');
+
   // Save app to database
   const name = state.suggestedAppName || state.schemas[0].label;
   const app = await prisma.app.create({
@@ -479,11 +517,14 @@ async function handleFinalize(
       description: state.schemas[0].description || '',
       spec: {
         schema: state.schemas[0],
+        ...(multiEntity ? { schemas: state.schemas } : {}),
         layout: state.layout,
         components: generatedCode,
+        workflows: state.workflows,
       } as any,
       config: {},
       data: [],
+      hasSchedules: hasScheduledWorkflows({ workflows: state.workflows }),
       generationLog: {
         qualityReports,
         overallScore,
@@ -493,6 +534,8 @@ async function handleFinalize(
     },
   });
 
+  await recordAppVersion(app.id, 'GENERATION', { userId });
+
   // Link app to conversation
   await prisma.conversation.update({
     where: { id: conversationId },
@@ -714,6 +757,14 @@ async function handleFixComponent(
     correctionPrompt || prompt // Prefer structured prompt if available
   );
 
+  // Record type errors left in the fix so the next attempt starts from them
+  loop.addTypeCheckResult(fixedCode, QualityController.verify(fixedCode));
+
+  // Finalized apps get the fix too, as a new version
+  if (conversation.appId) {
+    await saveFixToApp(conversation.appId, componentCode, fixedCode, userId, instruction || 'Fix component error');
+  }
+
   // Update feedback session in state
   state.feedbackSession = loop.getSession();
 
@@ -751,6 +802,36 @@ async function handleFixComponent(
   });
 }
 
+/**
+ * Write a fixed component back to an app whose files hold the broken code,
+ * record it as an AUTO_FIX version and rebuild the hosted app
+ */
+async function saveFixToApp(
+  appId: string,
+  componentCode: string,
+  fixedCode: string,
+  userId: string,
+  summary: string
+): Promise<void> {
+  const app = await prisma.app.findUnique({
+    where: { id: appId },
+    select: { generatedCode: true, componentFiles: true, spec: true, layoutDefinition: true },
+  });
+  if (!app || !fixedCode.trim()) return;
+
+  const paths = Object.entries(versionFiles(app))
+    .filter(([, code]) => code.trim() === componentCode.trim())
+    .map(([path]) => path);
+  if (paths.length === 0) return;
+
+  const edits = Object.fromEntries(paths.map(path => [path, fixedCode]));
+  const version = await commitAppChange(appId, applyFileEdits(app, edits), 'AUTO_FIX', { userId, summary });
+  if (version) {
+    await prebuildAppBundle(appId);
+    await nebulaSupervisor.reloadApp(appId);
+  }
+}
+
 /**
  * Handle feedback resolution
  */
@@ -889,9 +970,21 @@ async function executeParallelPipeline(
           // Automator: Handles automations and state machines
           result = await automator.process(userMessage, updatedState);
           if (result.success && result.data) {
-            const workflowData = result.data as { workflows: WorkflowDefinition[] };
+            const workflowData = result.data as { workflows: WorkflowDefinition[]; computedFields?: ComputedField[] };
+            const computedFields = workflowData.computedFields || [];
+            const [primary, ...others] = updatedState.schemas;
             updatedState = updateConversationState(updatedState, {
               workflows: workflowData.workflows,
+              // Computed fields were validated by the agent; newer definitions replace same-named ones
+              ...(primary && computedFields.length > 0 ? {
+                schemas: [{
+                  ...primary,
+                  computedFields: [
+                    ...(primary.computedFields || []).filter(field => !computedFields.some(cf => cf.name === field.name)),
+                    ...computedFields,
+                  ],
+                }, ...others],
+              } : {}),
             }) as DynamicConversationState;
             
             // Update readiness
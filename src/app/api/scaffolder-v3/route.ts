@@ -21,6 +21,7 @@ import { getServerSession } from '@/lib/auth';
 import prisma from '@/lib/db';
 import { generateId } from '@/lib/utils';
 import { IS_DEMO_MODE } from '@/lib/config';
+import { EntitlementError, entitlementErrorResponse, startGeneration } from '@/lib/entitlements';
 import {
   designSessionManager,
   createJourneyConversationState,
@@ -90,6 +91,9 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Every request runs a design session that generates code
+    await startGeneration(session.user.id, 'design', { conversationId });
+
     // Load or create conversation state
     let state: JourneyConversationState;
     
@@ -143,6 +147,9 @@ export async function POST(request: NextRequest) {
     } as V3ChatResponse);
 
   } catch (error) {
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error);
+    }
     console.error('❌ V3 Scaffolder Error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Internal error' },
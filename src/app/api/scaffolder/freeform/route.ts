@@ -42,13 +42,22 @@ import type {
 } from '@/lib/scaffolder-v2/types';
 import { specToPrimitives, validateSpec } from '@/lib/scaffolder/compiler';
 import type { UserLLMSettings, LLMProvider } from '@/lib/llm';
-import { enhanceUserSettingsWithApiKeys } from '@/lib/llm';
+import {
+  BudgetExceededError,
+  enhanceUserSettingsWithApiKeys,
+  runWithUsageContext,
+} from '@/lib/llm';
 import { 
   consolidateAgentResults, 
   toGeneratedSpec,
   type AgentResults,
   type ConsolidatedAgentResult,
 } from '@/lib/scaffolder/agent-consolidator';
+import { prebuildAppBundle } from '@/lib/nebula/bundle';
+import { recordAppVersion } from '@/lib/app-versions';
+import { QualityController } from '@/lib/scaffolder-v2/quality-control';
+import { effectivePlan } from '@/lib/billing';
+import { EntitlementError, entitlementErrorResponse, providerForPlan, startGeneration } from '@/lib/entitlements';
 
 // Feature flag for V2 pipeline
 const USE_V2_PIPELINE = process.env.FREEFORM_V2_PIPELINE === 'true' || 
@@ -388,6 +397,8 @@ export async function POST(request: NextRequest) {
       where: { id: session.user.id },
       select: {
         preferredLLMProvider: true,
+        plan: true,
+        subscriptionStatus: true,
         ollamaEndpoint: true,
         ollamaModel: true,
         ollamaSmallModel: true,
@@ -400,7 +411,8 @@ export async function POST(request: NextRequest) {
 
     // Build base user settings
     const baseSettings: UserLLMSettings = user ? {
-      provider: (user.preferredLLMProvider as LLMProvider) || undefined,
+      userId: session.user.id,
+      provider: providerForPlan(effectivePlan(user), user.preferredLLMProvider as LLMProvider | null),
       ollamaEndpoint: user.ollamaEndpoint || undefined,
       ollamaModel: user.ollamaModel || undefined,
       ollamaSmallModel: user.ollamaSmallModel || undefined,
@@ -417,20 +429,30 @@ export async function POST(request: NextRequest) {
       }
     ) : undefined;
 
-    switch (action) {
-      case 'chat':
-        return handleChat(session.user.id, conversationId, message, userSettings);
-      
-      case 'stream':
-        return handleStreamingChat(session.user.id, conversationId, message, userSettings);
-      
-      case 'build':
-        return handleBuild(session.user.id, conversationId);
-      
-      default:
-        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
-    }
+    // Attribute every LLM call made while handling this request
+    return await runWithUsageContext({ userId: session.user.id, conversationId }, async () => {
+      switch (action) {
+        case 'chat':
+          return handleChat(session.user.id, conversationId, message, userSettings);
+        
+        case 'stream':
+          return handleStreamingChat(session.user.id, conversationId, message, userSettings);
+        
+        case 'build':
+          await startGeneration(session.user.id, 'build', { createsApp: true, conversationId });
+          return handleBuild(session.user.id, conversationId);
+        
+        default:
+          return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+      }
+    });
   } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 402 });
+    }
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error);
+    }
     console.error('❌ Freeform Scaffolder error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Unknown error' },
@@ -1140,9 +1162,20 @@ async function handleBuild(
     allComponents['App.tsx'] = fallback;
   }
 
+  // Type-check all files together against the runtime's package typings
+  const qualityReport = QualityController.verifyFiles(allComponents);
+  if (!qualityReport.valid) {
+    console.log(`⚠️ Generated code has ${qualityReport.syntaxErrors.length + qualityReport.typeErrors.length} type errors`);
+  }
+
   // Prepare enhanced config with V2 metadata if available
   const enhancedConfig = {
     ...appConfig,
+    quality: {
+      valid: qualityReport.valid,
+      score: qualityReport.score,
+      errors: qualityReport.diagnostics.filter(d => d.severity === 'error').slice(0, 50),
+    },
     v2Pipeline: consolidatedResult ? {
       enabled: true,
       schema: consolidatedResult.schema,
@@ -1171,6 +1204,11 @@ async function handleBuild(
     },
   });
 
+  await recordAppVersion(app.id, 'GENERATION', { userId });
+
+  // Compile the browser bundle now so the first visit doesn't wait on esbuild
+  await prebuildAppBundle(app.id);
+
   // Update conversation with enhanced state
   state.phase = 'complete';
   const enhancedState = {
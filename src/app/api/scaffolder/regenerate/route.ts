@@ -5,6 +5,9 @@ import { regenerateAppCode, generateFallbackCode, type GeneratedCode } from '@/l
 import type { ProjectSpec } from '@/lib/scaffolder/types';
 import { emitStatus } from '@/lib/scaffolder/status/emitter';
 import { emitCodeChunk, emitCodeComplete, emitCodeError } from '@/lib/scaffolder/code-stream/emitter';
+import { prebuildAppBundle } from '@/lib/nebula/bundle';
+import { commitAppChange } from '@/lib/app-versions';
+import { EntitlementError, entitlementErrorResponse, startGeneration } from '@/lib/entitlements';
 
 /**
  * POST /api/scaffolder/regenerate
@@ -46,6 +49,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'App not found' }, { status: 404 });
     }
 
+    await startGeneration(session.user.id, 'regenerate', { appId });
+
     const spec = app.spec as unknown as ProjectSpec;
     const previousCode = (app.generatedCode as unknown as GeneratedCode)?.pageComponent || '';
 
@@ -117,15 +122,19 @@ export async function POST(request: NextRequest) {
     // Emit completion
     emitCodeComplete(appId);
 
-    // Update app with new generated code
+    // Update app with new generated code, keeping the previous code in its history
+    await commitAppChange(appId, { generatedCode }, 'REGENERATION', {
+      userId: session.user.id,
+      summary: issues.trim(),
+    });
     await prisma.app.update({
       where: { id: appId },
       data: {
-        generatedCode: generatedCode as unknown as object,
         generationLog: generationLog as unknown as object,
         buildStatus: 'COMPLETED',
       },
     });
+    await prebuildAppBundle(appId);
 
     console.log(`✅ Regeneration saved successfully`);
     console.log(`   New code length: ${generatedCode.pageComponent.length} chars`);
@@ -137,6 +146,9 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error);
+    }
     console.error('❌ Regeneration endpoint error:', error);
     return NextResponse.json(
       { 
@@ -46,6 +46,8 @@ import {
 } from '@/lib/error-handling/scaffolder-errors';
 import { IS_DEMO_MODE } from '@/lib/config';
 import { DEMO_SCENARIOS, type DemoScenario, type SimulationEvent } from '@/lib/demo/seed-data';
+import { prebuildAppBundle } from '@/lib/nebula/bundle';
+import { EntitlementError, entitlementErrorResponse, startGeneration } from '@/lib/entitlements';
 
 export async function POST(request: NextRequest) {
   try {
@@ -69,6 +71,7 @@ export async function POST(request: NextRequest) {
         return handleAnswer(session.user.id, conversationId, questionId, answer);
       
       case 'finalize':
+        await startGeneration(session.user.id, 'build', { createsApp: true, conversationId });
         return handleFinalize(session.user.id, conversationId);
       
       case 'load':
@@ -78,6 +81,10 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
     }
   } catch (error) {
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error);
+    }
+
     // Wrap error in our custom error type for consistent handling
     const wrappedError = wrapError(error, 'parse');
     
@@ -882,6 +889,7 @@ async function handleFinalize(userId: string, conversationId: string) {
         buildStatus: 'COMPLETED',
       },
     });
+    await prebuildAppBundle(app.id);
   } catch (dbError) {
     console.error('❌ Failed to save generated code:', dbError);
     emitStatus(conversationId, 'build', 'Warning: Generated code may not be saved', {
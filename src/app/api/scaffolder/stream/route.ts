@@ -5,6 +5,8 @@ import { wrapError } from '@/lib/error-handling/scaffolder-errors';
 import prisma from '@/lib/db';
 import type { UserLLMSettings, LLMProvider } from '@/lib/llm';
 import { enhanceUserSettingsWithApiKeys } from '@/lib/llm';
+import { effectivePlan } from '@/lib/billing';
+import { providerForPlan } from '@/lib/entitlements';
 
 /**
  * Streaming API endpoint for AI responses
@@ -55,6 +57,8 @@ export async function POST(request: NextRequest) {
       where: { id: session.user.id },
       select: {
         preferredLLMProvider: true,
+        plan: true,
+        subscriptionStatus: true,
         ollamaEndpoint: true,
         ollamaModel: true,
         ollamaSmallModel: true,
@@ -67,7 +71,8 @@ export async function POST(request: NextRequest) {
 
     // Build base user settings
     const baseSettings: UserLLMSettings = user ? {
-      provider: (user.preferredLLMProvider as LLMProvider) || undefined,
+      userId: session.user.id,
+      provider: providerForPlan(effectivePlan(user), user.preferredLLMProvider as LLMProvider | null),
       ollamaEndpoint: user.ollamaEndpoint || undefined,
       ollamaModel: user.ollamaModel || undefined,
       ollamaSmallModel: user.ollamaSmallModel || undefined,
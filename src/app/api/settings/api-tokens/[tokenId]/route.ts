@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from '@/lib/auth';
+import { revokeApiToken } from '@/lib/api-tokens';
+
+interface RouteParams {
+  params: Promise<{ tokenId: string }>;
+}
+
+// DELETE /api/settings/api-tokens/[tokenId] - Revoke a token; requests made with it fail from now on
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { tokenId } = await params;
+    const revoked = await revokeApiToken(session.user.id, tokenId);
+
+    if (!revoked) {
+      return NextResponse.json({ error: 'API token not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking API token:', error);
+    return NextResponse.json({ error: 'Failed to revoke API token' }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * API Tokens Settings Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from '@/lib/auth';
+import { API_TOKEN_SCOPES, ApiTokenError, createApiToken, listApiTokens, type ApiTokenScope } from '@/lib/api-tokens';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Give the token a name').max(100, 'Token names are at most 100 characters'),
+  scope: z.enum(API_TOKEN_SCOPES as [string, ...string[]]),
+  // Omitted or empty for all of the user's apps
+  appIds: z.array(z.string().min(1)).max(100).optional(),
+  // Omitted for a token that does not expire
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+/**
+ * GET /api/settings/api-tokens
+ * The user's API tokens, without the tokens themselves
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({ tokens: await listApiTokens(session.user.id) });
+  } catch (error) {
+    console.error('Error fetching API tokens:', error);
+    return NextResponse.json({ error: 'Failed to fetch API tokens' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/settings/api-tokens
+ * Create a token. The response is the only time the token is shown.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = createTokenSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.errors[0].message }, { status: 400 });
+    }
+
+    const { name, scope, appIds, expiresInDays } = validation.data;
+    const { token, info } = await createApiToken(session.user.id, {
+      name,
+      scope: scope as ApiTokenScope,
+      appIds,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+    });
+
+    return NextResponse.json({ token, apiToken: info }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Error creating API token:', error);
+    return NextResponse.json({ error: 'Failed to create API token' }, { status: 500 });
+  }
+}
@@ -8,6 +8,8 @@ import { getServerSession } from '@/lib/auth';
 import prisma, { withDBErrorHandling, DBErrorType } from '@/lib/db';
 import { getLLMConfig } from '@/lib/llm';
 import type { LLMProvider } from '@/lib/llm/types';
+import { effectivePlan } from '@/lib/billing';
+import { EntitlementError, assertCanUseProvider, entitlementErrorResponse } from '@/lib/entitlements';
 
 interface LLMSettingsData {
   provider: LLMProvider;
@@ -148,23 +150,15 @@ export async function POST(request: NextRequest) {
     // Check user plan for provider restrictions
     const user = await prisma.user.findUnique({
       where: { id: session.user.id },
-      select: { plan: true }
+      select: { plan: true, subscriptionStatus: true }
     });
 
     if (!user) {
         return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    // Enforce Plan Limits
-    // Free plan users are restricted to DeepSeek (or Auto which defaults to local/deepseek)
-    // Actually, "Select specific LLM they want" implies they can't change from default.
-    // If they select something else, we check plan.
-    if (user.plan === 'FREE' && provider !== 'deepseek' && provider !== 'auto') {
-        return NextResponse.json(
-            { error: 'Upgrade to Plus to select custom LLM providers like Ollama, LM Studio, or OpenRouter.' },
-            { status: 403 }
-        );
-    }
+    // Choosing a provider other than the default routing needs a plan that includes it
+    assertCanUseProvider(effectivePlan(user), provider);
 
     // Save settings to user record with error handling
     const { error: dbError } = await withDBErrorHandling(
@@ -243,6 +237,9 @@ export async function POST(request: NextRequest) {
       message: 'Settings saved successfully',
     });
   } catch (error) {
+    if (error instanceof EntitlementError) {
+      return entitlementErrorResponse(error);
+    }
     console.error('Unexpected error saving LLM settings:', error);
     return NextResponse.json(
       { 
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from '@/lib/auth';
+import {
+  currentSessionToken,
+  getServerSession,
+  MIN_PASSWORD_LENGTH,
+  revokeOtherSessions,
+  sendEmailVerification,
+} from '@/lib/auth';
 import prisma, { withDBErrorHandling, DBErrorType } from '@/lib/db';
 import bcrypt from 'bcryptjs';
 import { z } from 'zod';
@@ -13,7 +19,7 @@ const updateEmailSchema = z.object({
 const updatePasswordSchema = z.object({
   action: z.literal('update_password'),
   currentPassword: z.string().min(1, 'Current password is required'),
-  newPassword: z.string().min(8, 'New password must be at least 8 characters'),
+  newPassword: z.string().min(MIN_PASSWORD_LENGTH, `New password must be at least ${MIN_PASSWORD_LENGTH} characters`),
 });
 
 export async function GET() {
@@ -66,9 +72,12 @@ export async function POST(request: NextRequest) {
 
       // Verify password
       const user = await prisma.user.findUnique({ where: { id: session.user.id } });
-      if (!user || !user.password) {
+      if (!user) {
         return NextResponse.json({ error: 'User not found' }, { status: 404 });
       }
+      if (!user.password) {
+        return NextResponse.json({ error: 'This account signs in without a password' }, { status: 400 });
+      }
 
       const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
       if (!isPasswordValid) {
@@ -84,7 +93,7 @@ export async function POST(request: NextRequest) {
       const { error: updateError } = await withDBErrorHandling(
         () => prisma.user.update({
           where: { id: session.user.id },
-          data: { email },
+          data: { email, emailVerified: email === user.email ? user.emailVerified : null },
         })
       );
 
@@ -92,6 +101,11 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: 'Failed to update email' }, { status: 500 });
       }
 
+      if (email !== user.email) {
+        await sendEmailVerification(session.user.id);
+        return NextResponse.json({ message: 'Email updated. Check your inbox to verify the new address.' });
+      }
+
       return NextResponse.json({ message: 'Email updated successfully' });
     } else if (action === 'update_password') {
       const validation = updatePasswordSchema.safeParse(body);
@@ -103,9 +117,12 @@ export async function POST(request: NextRequest) {
 
       // Verify password
       const user = await prisma.user.findUnique({ where: { id: session.user.id } });
-      if (!user || !user.password) {
+      if (!user) {
         return NextResponse.json({ error: 'User not found' }, { status: 404 });
       }
+      if (!user.password) {
+        return NextResponse.json({ error: 'This account signs in without a password' }, { status: 400 });
+      }
 
       const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
       if (!isPasswordValid) {
@@ -125,7 +142,10 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: 'Failed to update password' }, { status: 500 });
       }
 
-      return NextResponse.json({ message: 'Password updated successfully' });
+      // Anyone signed in with the old password is signed out
+      const revoked = await revokeOtherSessions(session.user.id, await currentSessionToken(request));
+
+      return NextResponse.json({ message: 'Password updated successfully', revokedSessions: revoked });
     } else {
       return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
     }
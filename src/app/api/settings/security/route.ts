@@ -0,0 +1,43 @@
+/**
+ * Account Security API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { currentSessionToken, getServerSession, listSessions } from '@/lib/auth';
+
+/**
+ * GET /api/settings/security
+ * Email verification state, whether a password is set, and signed-in sessions
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { email: true, emailVerified: true, password: true, accounts: { select: { provider: true } } },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const sessions = await listSessions(session.user.id, await currentSessionToken(request));
+
+    return NextResponse.json({
+      email: user.email,
+      emailVerified: user.emailVerified,
+      hasPassword: Boolean(user.password),
+      linkedProviders: user.accounts.map(account => account.provider),
+      sessions,
+    });
+  } catch (error) {
+    console.error('Error fetching account security:', error);
+    return NextResponse.json({ error: 'Failed to fetch account security' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, revokeSession } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+// DELETE /api/settings/security/sessions/[sessionId] - Sign out one session
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { sessionId } = await params;
+    const revoked = await revokeSession(session.user.id, sessionId);
+
+    if (!revoked) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error signing out session:', error);
+    return NextResponse.json({ error: 'Failed to sign out session' }, { status: 500 });
+  }
+}
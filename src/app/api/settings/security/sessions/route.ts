@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { currentSessionToken, getServerSession, revokeOtherSessions } from '@/lib/auth';
+
+// DELETE /api/settings/security/sessions - Sign out every other session
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const current = await currentSessionToken(request);
+    if (!current) {
+      return NextResponse.json({ error: 'Current session not found' }, { status: 400 });
+    }
+
+    const revoked = await revokeOtherSessions(session.user.id, current);
+    return NextResponse.json({ revoked });
+  } catch (error) {
+    console.error('Error signing out sessions:', error);
+    return NextResponse.json({ error: 'Failed to sign out sessions' }, { status: 500 });
+  }
+}
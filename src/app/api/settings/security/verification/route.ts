@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getServerSession, sendEmailVerification } from '@/lib/auth';
+
+// POST /api/settings/security/verification - Resend the email verification link
+export async function POST() {
+  try {
+    const session = await getServerSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const sent = await sendEmailVerification(session.user.id);
+    if (!sent) {
+      return NextResponse.json({ error: 'Your email is already verified' }, { status: 400 });
+    }
+
+    return NextResponse.json({ message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Error sending verification email:', error);
+    return NextResponse.json({ error: 'Failed to send verification email' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from '@/lib/auth';
+import { BillingError, createPortalLink } from '@/lib/billing';
+
+// POST /api/settings/subscription/portal - Link to the Stripe customer portal
+// (payment methods, invoices, cancellation)
+export async function POST() {
+  try {
+    const session = await getServerSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const url = await createPortalLink(session.user.id);
+    return NextResponse.json({ url });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      const status = error.code === 'NOT_CONFIGURED' ? 503 : error.code === 'PROVIDER_ERROR' ? 502 : 400;
+      return NextResponse.json({ error: error.message, code: error.code }, { status });
+    }
+    console.error('Billing portal error:', error);
+    return NextResponse.json({ error: 'Failed to open billing portal' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from '@/lib/auth';
 import prisma, { withDBErrorHandling } from '@/lib/db';
+import { BillingError, changePlan, effectivePlan, isBillingConfigured } from '@/lib/billing';
 import { z } from 'zod';
 
 const updateSubscriptionSchema = z.object({
@@ -8,7 +9,14 @@ const updateSubscriptionSchema = z.object({
   isYearly: z.boolean(),
 });
 
-export async function POST(request: NextRequest) {
+const BILLING_ERROR_STATUS: Record<string, number> = {
+  NOT_CONFIGURED: 503,
+  UNKNOWN_PRICE: 400,
+  PROVIDER_ERROR: 502,
+};
+
+// GET /api/settings/subscription - Current plan and subscription state
+export async function GET() {
   try {
     const session = await getServerSession();
 
@@ -16,44 +24,82 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const body = await request.json();
-    const validation = updateSubscriptionSchema.safeParse(body);
-
-    if (!validation.success) {
-      return NextResponse.json({ error: validation.error.errors[0].message }, { status: 400 });
-    }
-
-    const { plan, isYearly } = validation.data;
-
-    // TODO: Integrate with payment provider (Stripe/LemonSqueezy) here.
-    // For now, we directly update the user's plan.
-
-    const { data: updatedUser, error: updateError } = await withDBErrorHandling(
-      () => prisma.user.update({
+    const { data: user, error: dbError } = await withDBErrorHandling(
+      () => prisma.user.findUnique({
         where: { id: session.user.id },
-        data: {
-          plan,
-          subscriptionPeriod: isYearly ? 'YEARLY' : 'MONTHLY',
-          // Reset subscription status if needed, or set to ACTIVE
-          subscriptionStatus: 'ACTIVE', 
-        },
         select: {
           plan: true,
+          subscriptionStatus: true,
+          subscriptionPeriod: true,
+          subscriptionPeriodEnd: true,
+          subscriptionCancelAtPeriodEnd: true,
+          stripeCustomerId: true,
         },
       })
     );
 
-    if (updateError) {
-      console.error('Subscription update error:', updateError);
-      return NextResponse.json({ error: 'Failed to update subscription' }, { status: 500 });
+    if (dbError || !user) {
+      return NextResponse.json({ error: 'Failed to fetch subscription' }, { status: 500 });
     }
 
-    return NextResponse.json({ 
-      message: 'Subscription updated successfully', 
-      plan: updatedUser?.plan 
+    const { stripeCustomerId, ...subscription } = user;
+    return NextResponse.json({
+      subscription: {
+        ...subscription,
+        effectivePlan: effectivePlan(user),
+        hasBillingAccount: Boolean(stripeCustomerId),
+        billingEnabled: isBillingConfigured(),
+      },
     });
+  } catch (error) {
+    console.error('Subscription API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
 
+// POST /api/settings/subscription - Change plan
+// Returns { checkoutUrl } when the user has to pay on Stripe's checkout page;
+// existing subscriptions are switched with proration and return the new plan.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = updateSubscriptionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.errors[0].message }, { status: 400 });
+    }
+
+    const { plan, isYearly } = validation.data;
+    const result = await changePlan(session.user.id, plan, isYearly ? 'YEARLY' : 'MONTHLY');
+
+    switch (result.type) {
+      case 'checkout':
+        return NextResponse.json({ checkoutUrl: result.url });
+      case 'canceling':
+        return NextResponse.json({
+          message: 'Your subscription will end with the current billing period',
+          plan: result.plan,
+          endsAt: result.endsAt,
+        });
+      default:
+        return NextResponse.json({
+          message: 'Subscription updated successfully',
+          plan: result.plan,
+        });
+    }
   } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: BILLING_ERROR_STATUS[error.code] ?? 400 }
+      );
+    }
     console.error('Subscription API error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
@@ -0,0 +1,36 @@
+/**
+ * LLM Usage API Route
+ * Token, cost and budget reporting for the settings dashboard
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from '@/lib/auth';
+import { getUsageSummary } from '@/lib/llm';
+
+const MAX_DAYS = 90;
+
+/**
+ * GET /api/settings/usage?days=30
+ * Usage totals, daily series and breakdowns, plus the current month's budget
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const requestedDays = parseInt(request.nextUrl.searchParams.get('days') || '30', 10);
+    const days = Number.isFinite(requestedDays) ? Math.min(Math.max(requestedDays, 1), MAX_DAYS) : 30;
+
+    const summary = await getUsageSummary(session.user.id, days);
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error fetching LLM usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Lock, Link2, KeyRound, Globe, Copy, RefreshCw } from 'lucide-react';
+import { Button, Modal } from '@/components/ui';
+import { cn } from '@/lib/utils';
+
+type Visibility = 'PRIVATE' | 'LINK' | 'PASSWORD' | 'PUBLIC';
+
+interface AppAccess {
+  visibility: Visibility;
+  hostedPath: string | null;
+  sharePath: string | null;
+  hasPassword: boolean;
+}
+
+interface AppAccessModalProps {
+  appId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MODES: Array<{ id: Visibility; label: string; description: string; icon: typeof Lock }> = [
+  { id: 'PRIVATE', label: 'Private', description: 'Only you, when signed in.', icon: Lock },
+  { id: 'LINK', label: 'Shared link', description: 'Anyone with the link can use the app. Regenerate it to revoke access.', icon: Link2 },
+  { id: 'PASSWORD', label: 'Password', description: 'Anyone who enters the password can use the app.', icon: KeyRound },
+  { id: 'PUBLIC', label: 'Public, read-only', description: 'Anyone can view the app and its data, but not change it.', icon: Globe },
+];
+
+export function AppAccessModal({ appId, isOpen, onClose }: AppAccessModalProps) {
+  const [access, setAccess] = useState<AppAccess | null>(null);
+  const [visibility, setVisibility] = useState<Visibility>('PRIVATE');
+  const [password, setPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetch(`/api/apps/${appId}/access`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load access settings')))
+      .then(({ access }) => {
+        setAccess(access);
+        setVisibility(access.visibility);
+      })
+      .catch(err => setError(err.message));
+  }, [appId, isOpen]);
+
+  const save = async (changes: { rotateShareToken?: boolean } = {}) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/apps/${appId}/access`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          visibility,
+          ...(password && { password }),
+          ...changes,
+        }),
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        setError(json.error || 'Failed to save access settings');
+        return;
+      }
+      setAccess(json.access);
+      setPassword('');
+    } catch (err) {
+      setError('Failed to save access settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const shareUrl = access?.sharePath ? `${window.location.origin}${access.sharePath}` : null;
+  const needsPassword = visibility === 'PASSWORD' && !(access?.visibility === 'PASSWORD' && access.hasPassword);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Who can open this app"
+      description={access?.hostedPath ? `Applies to the hosted app at ${access.hostedPath}` : undefined}
+      footer={
+        <>
+          <Button variant="ghost" onClick={onClose}>Close</Button>
+          <Button
+            onClick={() => save()}
+            loading={isSaving}
+            disabled={!access || (needsPassword && password.length < 6)}
+          >
+            Save
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-3">
+        {MODES.map(mode => (
+          <button
+            key={mode.id}
+            type="button"
+            onClick={() => setVisibility(mode.id)}
+            className={cn(
+              'w-full flex items-start gap-3 p-3 rounded-xl border text-left transition-colors',
+              visibility === mode.id
+                ? 'border-accent-yellow/60 bg-accent-yellow/10'
+                : 'border-outline-light hover:bg-surface-elevated'
+            )}
+          >
+            <mode.icon className="w-5 h-5 mt-0.5 text-text-secondary" />
+            <div>
+              <div className="font-medium text-text-primary">{mode.label}</div>
+              <div className="text-sm text-text-secondary">{mode.description}</div>
+            </div>
+          </button>
+        ))}
+
+        {visibility === 'PASSWORD' && (
+          <input
+            type="password"
+            value={password}
+            onChange={event => setPassword(event.target.value)}
+            placeholder={needsPassword ? 'Password (at least 6 characters)' : 'New password (leave empty to keep)'}
+            className="w-full px-3 py-2 rounded-lg bg-surface-elevated border border-outline-light text-text-primary text-sm"
+          />
+        )}
+
+        {visibility === 'LINK' && access?.visibility === 'LINK' && shareUrl && (
+          <div className="flex items-center gap-2">
+            <input
+              readOnly
+              value={shareUrl}
+              className="flex-1 px-3 py-2 rounded-lg bg-surface-elevated border border-outline-light text-text-secondary text-xs"
+            />
+            <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(shareUrl)} title="Copy link">
+              <Copy className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => save({ rotateShareToken: true })} title="Regenerate link">
+              <RefreshCw className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { Boxes, Zap } from 'lucide-react';
+import { Button, Modal } from '@/components/ui';
+import type { ArchiveFormat, ExportTarget } from '@/lib/app-export/types';
+import { cn } from '@/lib/utils';
+
+interface AppExportModalProps {
+  appId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TARGETS: Array<{ id: ExportTarget; label: string; description: string; icon: typeof Zap }> = [
+  { id: 'vite', label: 'Vite + React', description: 'A single-page app with a small Node server for its data.', icon: Zap },
+  { id: 'nextjs', label: 'Next.js', description: 'An app router project with the data API as a route handler.', icon: Boxes },
+];
+
+const FORMATS: Array<{ id: ArchiveFormat; label: string }> = [
+  { id: 'zip', label: '.zip' },
+  { id: 'tar.gz', label: '.tar.gz' },
+];
+
+/**
+ * Download the app as a standalone project with its code, a local SQLite
+ * database layer and its current data
+ */
+export function AppExportModal({ appId, isOpen, onClose }: AppExportModalProps) {
+  const [target, setTarget] = useState<ExportTarget>('vite');
+  const [format, setFormat] = useState<ArchiveFormat>('zip');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const download = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/apps/${appId}/export?target=${target}&format=${encodeURIComponent(format)}`);
+      if (!response.ok) {
+        const json = await response.json().catch(() => ({}));
+        setError(json.error || 'Failed to export app');
+        return;
+      }
+
+      const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '')?.[1] || `app.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError('Failed to export app');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Export app"
+      description="Download the app's code and data as a project you can run anywhere"
+      footer={
+        <>
+          <Button variant="ghost" onClick={onClose}>Close</Button>
+          <Button onClick={download} loading={isExporting}>Download</Button>
+        </>
+      }
+    >
+      <div className="space-y-3">
+        {TARGETS.map(option => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => setTarget(option.id)}
+            className={cn(
+              'w-full flex items-start gap-3 p-3 rounded-xl border text-left transition-colors',
+              target === option.id
+                ? 'border-accent-yellow/60 bg-accent-yellow/10'
+                : 'border-outline-light hover:bg-surface-elevated'
+            )}
+          >
+            <option.icon className="w-5 h-5 mt-0.5 text-text-secondary" />
+            <div>
+              <div className="font-medium text-text-primary">{option.label}</div>
+              <div className="text-sm text-text-secondary">{option.description}</div>
+            </div>
+          </button>
+        ))}
+
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-text-secondary">Archive</span>
+          {FORMATS.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => setFormat(option.id)}
+              className={cn(
+                'px-3 py-1 rounded-lg border transition-colors',
+                format === option.id
+                  ? 'border-accent-yellow/60 bg-accent-yellow/10 text-text-primary'
+                  : 'border-outline-light text-text-secondary hover:bg-surface-elevated'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-xs text-text-tertiary">
+          The project has no sign-in, so anyone who can reach it can change its data. See its README for what differs from the hosted app.
+        </p>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+    </Modal>
+  );
+}
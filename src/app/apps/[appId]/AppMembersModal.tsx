@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { Trash2, Mail } from 'lucide-react';
+import { Button, Modal } from '@/components/ui';
+import type { AppInviteInfo, AppMemberInfo, AppMemberRole, AppRole } from '@/lib/collaboration/types';
+
+interface AppMembersModalProps {
+  appId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ROLES: Array<{ id: AppRole; label: string }> = [
+  { id: 'viewer', label: 'Viewer' },
+  { id: 'editor', label: 'Editor' },
+  { id: 'admin', label: 'Admin' },
+];
+
+const selectClassName = 'px-2 py-1.5 rounded-lg bg-surface-elevated border border-outline-light text-text-primary text-sm';
+
+export function AppMembersModal({ appId, isOpen, onClose }: AppMembersModalProps) {
+  const { data: session } = useSession();
+  const [role, setRole] = useState<AppMemberRole | null>(null);
+  const [members, setMembers] = useState<AppMemberInfo[]>([]);
+  const [invites, setInvites] = useState<AppInviteInfo[]>([]);
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<AppRole>('editor');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const canManage = role === 'owner' || role === 'admin';
+
+  const load = useCallback(async () => {
+    const response = await fetch(`/api/apps/${appId}/members`);
+    if (!response.ok) {
+      setError('Failed to load members');
+      return;
+    }
+    const json = await response.json();
+    setRole(json.role);
+    setMembers(json.members);
+    setInvites(json.invites);
+  }, [appId]);
+
+  useEffect(() => {
+    if (isOpen) load();
+  }, [isOpen, load]);
+
+  const request = async (url: string, init: RequestInit, failure: string) => {
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(url, init);
+      const json = await response.json();
+      if (!response.ok) {
+        setError(json.error || failure);
+        return false;
+      }
+      await load();
+      return true;
+    } catch (err) {
+      setError(failure);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const invite = async () => {
+    const sent = await request(`/api/apps/${appId}/members`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, role: inviteRole }),
+    }, 'Failed to send invite');
+    if (sent) {
+      setNotice(`Invitation sent to ${email}`);
+      setEmail('');
+    }
+  };
+
+  const changeRole = (memberId: string, newRole: AppRole) => request(`/api/apps/${appId}/members/${memberId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ role: newRole }),
+  }, 'Failed to change role');
+
+  const remove = async (member: AppMemberInfo) => {
+    const removed = await request(`/api/apps/${appId}/members/${member.id}`, { method: 'DELETE' }, 'Failed to remove member');
+    // Leaving the app takes away access to this page too
+    if (removed && member.userId === session?.user?.id) {
+      window.location.href = '/dashboard';
+    }
+  };
+
+  const revoke = (inviteId: string) =>
+    request(`/api/apps/${appId}/members/${inviteId}?invite=1`, { method: 'DELETE' }, 'Failed to revoke invite');
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Members"
+      description="People who can open this app and its data"
+      footer={<Button variant="ghost" onClick={onClose}>Close</Button>}
+    >
+      <div className="space-y-4">
+        <ul className="space-y-2">
+          {members.map(member => {
+            const isSelf = member.userId === session?.user?.id;
+            return (
+              <li key={member.id} className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm text-text-primary truncate">
+                    {member.name || member.email}{isSelf && ' (you)'}
+                  </div>
+                  {member.name && <div className="text-xs text-text-tertiary truncate">{member.email}</div>}
+                </div>
+                <div className="flex items-center gap-2">
+                  {member.role === 'owner' || !canManage ? (
+                    <span className="text-xs text-text-secondary capitalize">{member.role}</span>
+                  ) : (
+                    <select
+                      value={member.role}
+                      disabled={isSaving}
+                      onChange={event => changeRole(member.id, event.target.value as AppRole)}
+                      className={selectClassName}
+                    >
+                      {ROLES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                    </select>
+                  )}
+                  {member.role !== 'owner' && (canManage || isSelf) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => remove(member)}
+                      disabled={isSaving}
+                      title={isSelf ? 'Leave app' : 'Remove member'}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {canManage && invites.length > 0 && (
+          <div>
+            <div className="text-xs uppercase tracking-wide text-text-tertiary mb-2">Pending invites</div>
+            <ul className="space-y-2">
+              {invites.map(pending => (
+                <li key={pending.id} className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Mail className="w-4 h-4 text-text-tertiary" />
+                    <span className="text-sm text-text-secondary truncate">{pending.email}</span>
+                    <span className="text-xs text-text-tertiary capitalize">{pending.role}</span>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => revoke(pending.id)} disabled={isSaving} title="Revoke invite">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {canManage && (
+          <div className="flex items-center gap-2 pt-2 border-t border-outline-light">
+            <input
+              type="email"
+              value={email}
+              onChange={event => setEmail(event.target.value)}
+              placeholder="Email address"
+              className="flex-1 px-3 py-2 rounded-lg bg-surface-elevated border border-outline-light text-text-primary text-sm"
+            />
+            <select value={inviteRole} onChange={event => setInviteRole(event.target.value as AppRole)} className={selectClassName}>
+              {ROLES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+            <Button size="sm" onClick={invite} loading={isSaving} disabled={!email}>
+              Invite
+            </Button>
+          </div>
+        )}
+
+        {notice && <p className="text-sm text-pastel-green">{notice}</p>}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+    </Modal>
+  );
+}
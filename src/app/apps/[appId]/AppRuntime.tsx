@@ -2,14 +2,16 @@
 
 import { useState, useCallback } from 'react';
 import Link from 'next/link';
-import { ArrowLeft, Settings, LayoutGrid, Table2, BarChart3 } from 'lucide-react';
+import { ArrowLeft, LayoutGrid, Table2, BarChart3 } from 'lucide-react';
 import { NavigationRail, Button, Card } from '@/components/ui';
 import { FormPrimitive } from '@/components/primitives/FormPrimitive';
 import { TablePrimitive } from '@/components/primitives/TablePrimitive';
 import { ChartPrimitive } from '@/components/primitives/ChartPrimitive';
 import type { ProjectSpec } from '@/lib/scaffolder/types';
-import type { DataRecord, TablePrimitiveConfig, ChartPrimitiveConfig } from '@/lib/primitives/types';
+import type { DataRecord, FieldErrors, TablePrimitiveConfig, ChartPrimitiveConfig } from '@/lib/primitives/types';
 import { cn } from '@/lib/utils';
+import { AppSharingControls } from './AppSharingControls';
+import type { AppMemberRole } from '@/lib/collaboration/types';
 
 interface AppRuntimeProps {
   appId: string;
@@ -17,16 +19,17 @@ interface AppRuntimeProps {
   description: string;
   spec: ProjectSpec;
   initialData: DataRecord[];
+  role: AppMemberRole;
 }
 
 type ViewMode = 'table' | 'chart' | 'both';
 
-export function AppRuntime({ appId, name, description, spec, initialData }: AppRuntimeProps) {
+export function AppRuntime({ appId, name, description, spec, initialData, role }: AppRuntimeProps) {
   const [data, setData] = useState<DataRecord[]>(initialData);
   const [isLoading, setIsLoading] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('both');
 
-  const handleAddRecord = useCallback(async (values: Record<string, unknown>) => {
+  const handleAddRecord = useCallback(async (values: Record<string, unknown>): Promise<FieldErrors | void> => {
     setIsLoading(true);
     try {
       const response = await fetch(`/api/apps/${appId}/data`, {
@@ -38,6 +41,9 @@ export function AppRuntime({ appId, name, description, spec, initialData }: AppR
       if (response.ok) {
         const { record } = await response.json();
         setData(prev => [...prev, record]);
+      } else {
+        const { fieldErrors } = await response.json();
+        return fieldErrors;
       }
     } catch (error) {
       console.error('Failed to add record:', error);
@@ -181,9 +187,7 @@ export function AppRuntime({ appId, name, description, spec, initialData }: AppR
                   <LayoutGrid className="w-4 h-4" />
                 </button>
               </div>
-              <Button variant="ghost" size="sm">
-                <Settings className="w-4 h-4" />
-              </Button>
+              <AppSharingControls appId={appId} role={role} />
             </div>
           </div>
         </header>
@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, History, Settings, Users, Webhook } from 'lucide-react';
+import { Button } from '@/components/ui';
+import type { AppMemberRole } from '@/lib/collaboration/types';
+import { AppAccessModal } from './AppAccessModal';
+import { AppExportModal } from './AppExportModal';
+import { AppMembersModal } from './AppMembersModal';
+import { AppVersionsModal } from './AppVersionsModal';
+import { AppWebhooksModal } from './AppWebhooksModal';
+
+interface AppSharingControlsProps {
+  appId: string;
+  role: AppMemberRole;
+}
+
+/**
+ * Header buttons for the app's members and, for admins, who can open the hosted app,
+ * where its record changes are sent, the history of its code and exporting it
+ */
+export function AppSharingControls({ appId, role }: AppSharingControlsProps) {
+  const [showMembers, setShowMembers] = useState(false);
+  const [showAccess, setShowAccess] = useState(false);
+  const [showWebhooks, setShowWebhooks] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const canManage = role === 'owner' || role === 'admin';
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" onClick={() => setShowMembers(true)} title="Members">
+        <Users className="w-4 h-4" />
+      </Button>
+      {canManage && (
+        <Button variant="ghost" size="sm" onClick={() => setShowAccess(true)} title="Access settings">
+          <Settings className="w-4 h-4" />
+        </Button>
+      )}
+      {canManage && (
+        <Button variant="ghost" size="sm" onClick={() => setShowWebhooks(true)} title="Webhooks">
+          <Webhook className="w-4 h-4" />
+        </Button>
+      )}
+      {canManage && (
+        <Button variant="ghost" size="sm" onClick={() => setShowVersions(true)} title="Version history">
+          <History className="w-4 h-4" />
+        </Button>
+      )}
+      {canManage && (
+        <Button variant="ghost" size="sm" onClick={() => setShowExport(true)} title="Export app">
+          <Download className="w-4 h-4" />
+        </Button>
+      )}
+      <AppMembersModal appId={appId} isOpen={showMembers} onClose={() => setShowMembers(false)} />
+      {canManage && (
+        <AppAccessModal appId={appId} isOpen={showAccess} onClose={() => setShowAccess(false)} />
+      )}
+      {canManage && (
+        <AppWebhooksModal appId={appId} isOpen={showWebhooks} onClose={() => setShowWebhooks(false)} />
+      )}
+      {canManage && (
+        <AppVersionsModal appId={appId} isOpen={showVersions} onClose={() => setShowVersions(false)} />
+      )}
+      {canManage && (
+        <AppExportModal appId={appId} isOpen={showExport} onClose={() => setShowExport(false)} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { RotateCcw } from 'lucide-react';
+import { Button, Modal } from '@/components/ui';
+import type { AppVersionSource, FileDiff } from '@/lib/app-versions/types';
+import { cn } from '@/lib/utils';
+
+interface AppVersion {
+  id: string;
+  number: number;
+  source: AppVersionSource;
+  summary: string | null;
+  createdBy: { id: string; name: string | null; email: string } | null;
+  createdAt: string;
+}
+
+interface AppVersionsModalProps {
+  appId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<AppVersionSource, string> = {
+  GENERATION: 'Generated',
+  REGENERATION: 'Regenerated',
+  USER_EDIT: 'Edited',
+  AUTO_FIX: 'Auto-fix',
+  ROLLBACK: 'Rollback',
+};
+
+const LINE_STYLES = {
+  context: 'text-text-secondary',
+  add: 'bg-green-500/10 text-green-400',
+  remove: 'bg-red-500/10 text-red-400',
+};
+
+const LINE_MARKERS = { context: ' ', add: '+', remove: '-' };
+
+function FileDiffView({ file }: { file: FileDiff }) {
+  return (
+    <div className="rounded-xl border border-outline-light overflow-hidden">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 bg-surface-elevated text-xs">
+        <span className="font-mono text-text-primary truncate">{file.path}</span>
+        <span className="shrink-0">
+          {file.status !== 'modified' && <span className="text-text-tertiary mr-2">{file.status}</span>}
+          <span className="text-green-400">+{file.additions}</span>{' '}
+          <span className="text-red-400">-{file.deletions}</span>
+        </span>
+      </div>
+      <div className="overflow-x-auto font-mono text-xs">
+        {file.hunks.map(hunk => (
+          <div key={`${hunk.oldStart}-${hunk.newStart}`}>
+            <div className="px-3 py-1 text-text-tertiary bg-surface-elevated/50">
+              @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+            </div>
+            {hunk.lines.map((line, index) => (
+              <div key={index} className={cn('flex whitespace-pre', LINE_STYLES[line.type])}>
+                <span className="w-10 shrink-0 text-right pr-2 text-text-tertiary select-none">{line.oldLine ?? ''}</span>
+                <span className="w-10 shrink-0 text-right pr-2 text-text-tertiary select-none">{line.newLine ?? ''}</span>
+                <span className="pr-3">{LINE_MARKERS[line.type]} {line.text}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The app's code history: what produced each version, what each changed, and
+ * rollback to any earlier one
+ */
+export function AppVersionsModal({ appId, isOpen, onClose }: AppVersionsModalProps) {
+  const router = useRouter();
+  const [versions, setVersions] = useState<AppVersion[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [against, setAgainst] = useState('');
+  const [files, setFiles] = useState<FileDiff[] | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const base = `/api/apps/${appId}/versions`;
+
+  const loadVersions = useCallback(async () => {
+    const response = await fetch(base);
+    if (!response.ok) throw new Error('Failed to load versions');
+    const json = await response.json();
+    setVersions(json.versions);
+    return json.versions as AppVersion[];
+  }, [base]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    loadVersions()
+      .then(loaded => setSelected(current => current ?? loaded[0]?.id ?? null))
+      .catch(err => setError(err.message));
+  }, [isOpen, loadVersions]);
+
+  useEffect(() => {
+    if (!isOpen || !selected) return;
+    setFiles(null);
+    const query = against ? `?against=${encodeURIComponent(against)}` : '';
+    fetch(`${base}/${selected}/diff${query}`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load changes')))
+      .then(json => setFiles(json.files))
+      .catch(err => setError(err.message));
+  }, [base, isOpen, selected, against]);
+
+  const select = (versionId: string) => {
+    setSelected(versionId);
+    setAgainst('');
+  };
+
+  const rollback = async (version: AppVersion) => {
+    if (!confirm(`Restore version ${version.number}? The current code stays in the history.`)) return;
+
+    setRestoring(version.id);
+    setError(null);
+    try {
+      const response = await fetch(`${base}/${version.id}/rollback`, { method: 'POST' });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || 'Failed to roll back');
+      await loadVersions();
+      select(json.version.id);
+      router.refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const current = versions[0];
+  const selectedVersion = versions.find(version => version.id === selected);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Version history"
+      description="Every build, edit and fix of the app's code, with what changed"
+      className="max-w-5xl"
+      footer={<Button variant="ghost" onClick={onClose}>Close</Button>}
+    >
+      {versions.length === 0 ? (
+        <p className="text-sm text-text-secondary">
+          No versions yet. One is saved each time the app&apos;s code changes.
+        </p>
+      ) : (
+        <div className="flex flex-col md:flex-row gap-4">
+          <ul className="md:w-64 shrink-0 space-y-1 max-h-[60vh] overflow-y-auto">
+            {versions.map(version => (
+              <li key={version.id}>
+                <button
+                  type="button"
+                  onClick={() => select(version.id)}
+                  className={cn(
+                    'w-full text-left px-3 py-2 rounded-lg border text-sm transition-colors',
+                    version.id === selected
+                      ? 'border-accent-yellow/60 bg-accent-yellow/10'
+                      : 'border-transparent hover:bg-surface-elevated'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-text-primary">v{version.number} · {SOURCE_LABELS[version.source]}</span>
+                    {version.id === current?.id && <span className="text-xs text-accent-yellow">current</span>}
+                  </div>
+                  {version.summary && <div className="text-xs text-text-secondary truncate">{version.summary}</div>}
+                  <div className="text-xs text-text-tertiary">
+                    {version.createdBy ? version.createdBy.name || version.createdBy.email : 'Automatic'}
+                    {' · '}
+                    {new Date(version.createdAt).toLocaleString()}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-1 min-w-0 space-y-3">
+            {selectedVersion && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-text-secondary">Compare with</span>
+                <select
+                  value={against}
+                  onChange={event => setAgainst(event.target.value)}
+                  className="px-2 py-1 rounded-lg bg-surface-elevated border border-outline-light text-text-primary text-sm"
+                >
+                  <option value="">Previous version</option>
+                  {versions.filter(version => version.id !== selectedVersion.id).map(version => (
+                    <option key={version.id} value={version.id}>v{version.number}</option>
+                  ))}
+                </select>
+                <div className="flex-1" />
+                {selectedVersion.id !== current?.id && (
+                  <Button size="sm" onClick={() => rollback(selectedVersion)} loading={restoring === selectedVersion.id}>
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Restore v{selectedVersion.number}
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+              {files === null && <p className="text-sm text-text-tertiary">Loading changes…</p>}
+              {files?.length === 0 && <p className="text-sm text-text-secondary">No file changes.</p>}
+              {files?.map(file => <FileDiffView key={file.path} file={file} />)}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+    </Modal>
+  );
+}
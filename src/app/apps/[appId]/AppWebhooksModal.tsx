@@ -0,0 +1,262 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Copy, History, Pause, Play, RefreshCw, Send, Trash2 } from 'lucide-react';
+import { Button, Modal } from '@/components/ui';
+import { cn } from '@/lib/utils';
+
+type WebhookEvent = 'record.created' | 'record.updated' | 'record.deleted';
+
+interface Webhook {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  active: boolean;
+}
+
+interface WebhookDelivery {
+  id: string;
+  event: WebhookEvent;
+  status: 'PENDING' | 'SUCCEEDED' | 'FAILED';
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+}
+
+interface AppWebhooksModalProps {
+  appId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EVENTS: Array<{ id: WebhookEvent; label: string }> = [
+  { id: 'record.created', label: 'Created' },
+  { id: 'record.updated', label: 'Updated' },
+  { id: 'record.deleted', label: 'Deleted' },
+];
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  PENDING: 'text-accent-yellow',
+  SUCCEEDED: 'text-green-400',
+  FAILED: 'text-red-400',
+};
+
+function describeDelivery(delivery: WebhookDelivery): string {
+  const outcome = delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : delivery.error ?? '';
+  const retry = delivery.status === 'PENDING' && delivery.nextAttemptAt
+    ? ` · retry ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`
+    : '';
+  return `${outcome}${retry}`;
+}
+
+export function AppWebhooksModal({ appId, isOpen, onClose }: AppWebhooksModalProps) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(EVENTS.map(event => event.id));
+  const [openLog, setOpenLog] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const base = `/api/apps/${appId}/webhooks`;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetch(base)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load webhooks')))
+      .then(json => setWebhooks(json.webhooks))
+      .catch(err => setError(err.message));
+  }, [base, isOpen]);
+
+  const loadDeliveries = useCallback(async (webhookId: string) => {
+    const response = await fetch(`${base}/${webhookId}/deliveries`);
+    if (response.ok) {
+      setDeliveries((await response.json()).deliveries);
+    }
+  }, [base]);
+
+  const request = async (path: string, method: string, body?: unknown) => {
+    setError(null);
+    const response = await fetch(path, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+    const json = await response.json();
+    if (!response.ok) {
+      throw new Error(json.error || 'Request failed');
+    }
+    return json;
+  };
+
+  const add = async () => {
+    setIsSaving(true);
+    try {
+      const { webhook } = await request(base, 'POST', { url, events });
+      setWebhooks(current => [...current, webhook]);
+      setUrl('');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const update = async (webhookId: string, changes: { active?: boolean; rotateSecret?: boolean }) => {
+    try {
+      const { webhook } = await request(`${base}/${webhookId}`, 'PATCH', changes);
+      setWebhooks(current => current.map(existing => existing.id === webhookId ? webhook : existing));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const remove = async (webhookId: string) => {
+    try {
+      await request(`${base}/${webhookId}`, 'DELETE');
+      setWebhooks(current => current.filter(existing => existing.id !== webhookId));
+      if (openLog === webhookId) setOpenLog(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const toggleLog = (webhookId: string) => {
+    if (openLog === webhookId) {
+      setOpenLog(null);
+      return;
+    }
+    setDeliveries([]);
+    setOpenLog(webhookId);
+    loadDeliveries(webhookId);
+  };
+
+  const redeliver = async (webhookId: string, deliveryId: string) => {
+    try {
+      await request(`${base}/${webhookId}/deliveries/${deliveryId}/redeliver`, 'POST');
+      await loadDeliveries(webhookId);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents(current => current.includes(event) ? current.filter(id => id !== event) : [...current, event]);
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Webhooks"
+      description="POST each record change to a URL, signed with the webhook's secret"
+      className="max-w-2xl"
+      footer={<Button variant="ghost" onClick={onClose}>Close</Button>}
+    >
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="url"
+              value={url}
+              onChange={event => setUrl(event.target.value)}
+              placeholder="https://example.com/hooks/records"
+              className="flex-1 px-3 py-2 rounded-lg bg-surface-elevated border border-outline-light text-text-primary text-sm"
+            />
+            <Button onClick={add} loading={isSaving} disabled={!url || events.length === 0}>
+              Add
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            {EVENTS.map(event => (
+              <button
+                key={event.id}
+                type="button"
+                onClick={() => toggleEvent(event.id)}
+                className={cn(
+                  'px-2.5 py-1 rounded-lg border text-xs transition-colors',
+                  events.includes(event.id)
+                    ? 'border-accent-yellow/60 bg-accent-yellow/10 text-text-primary'
+                    : 'border-outline-light text-text-secondary hover:bg-surface-elevated'
+                )}
+              >
+                {event.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {webhooks.length === 0 && (
+          <p className="text-sm text-text-secondary">No webhooks yet.</p>
+        )}
+
+        {webhooks.map(webhook => (
+          <div key={webhook.id} className="p-3 rounded-xl border border-outline-light space-y-2">
+            <div className="flex items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <div className={cn('text-sm truncate', webhook.active ? 'text-text-primary' : 'text-text-tertiary line-through')}>
+                  {webhook.url}
+                </div>
+                <div className="text-xs text-text-secondary">{webhook.events.join(', ')}</div>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => toggleLog(webhook.id)} title="Delivery log">
+                <History className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => update(webhook.id, { active: !webhook.active })}
+                title={webhook.active ? 'Pause' : 'Resume'}
+              >
+                {webhook.active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => remove(webhook.id)} title="Delete webhook">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                readOnly
+                value={webhook.secret}
+                className="flex-1 px-3 py-1.5 rounded-lg bg-surface-elevated border border-outline-light text-text-secondary text-xs font-mono"
+              />
+              <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(webhook.secret)} title="Copy secret">
+                <Copy className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => update(webhook.id, { rotateSecret: true })} title="Rotate secret">
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {openLog === webhook.id && (
+              <div className="border-t border-outline-light pt-2 space-y-1">
+                {deliveries.length === 0 && (
+                  <p className="text-xs text-text-secondary">No deliveries yet.</p>
+                )}
+                {deliveries.map(delivery => (
+                  <div key={delivery.id} className="flex items-center gap-2 text-xs">
+                    <span className={cn('w-20 font-medium', STATUS_STYLES[delivery.status])}>
+                      {delivery.status.toLowerCase()}
+                    </span>
+                    <span className="w-28 text-text-secondary">{delivery.event}</span>
+                    <span className="flex-1 truncate text-text-tertiary">{describeDelivery(delivery)}</span>
+                    <span className="text-text-tertiary">{new Date(delivery.createdAt).toLocaleString()}</span>
+                    <Button variant="ghost" size="sm" onClick={() => redeliver(webhook.id, delivery.id)} title="Redeliver">
+                      <Send className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+    </Modal>
+  );
+}
@@ -2,11 +2,13 @@
 
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import Link from 'next/link';
-import { ArrowLeft, Settings, AlertTriangle, RefreshCw } from 'lucide-react';
+import { ArrowLeft, AlertTriangle, RefreshCw } from 'lucide-react';
 import { NavigationRail, Button, Card } from '@/components/ui';
 import type { ProjectSpec } from '@/lib/scaffolder/types';
 import type { DataRecord } from '@/lib/primitives/types';
 import { cn } from '@/lib/utils';
+import { AppSharingControls } from './AppSharingControls';
+import type { AppMemberRole } from '@/lib/collaboration/types';
 
 interface GeneratedRuntimeProps {
   appId: string;
@@ -15,6 +17,7 @@ interface GeneratedRuntimeProps {
   spec: ProjectSpec;
   generatedCode: string;
   initialData: DataRecord[];
+  role: AppMemberRole;
 }
 
 /**
@@ -34,7 +37,8 @@ export function GeneratedRuntime({
   description, 
   spec, 
   generatedCode,
-  initialData 
+  initialData,
+  role,
 }: GeneratedRuntimeProps) {
   const [data, setData] = useState<DataRecord[]>(initialData);
   const [isLoading, setIsLoading] = useState(false);
@@ -48,7 +52,7 @@ export function GeneratedRuntime({
       const res = await fetch(`/api/apps/${appId}/data`);
       if (res.ok) {
         const result = await res.json();
-        setData(result.records || []);
+        setData(result.data || []);
       }
     } catch (err) {
       console.error('Failed to fetch data:', err);
@@ -78,7 +82,8 @@ export function GeneratedRuntime({
         setFormData({});
       } else {
         const errorData = await res.json();
-        setError(errorData.error || 'Failed to add record');
+        const fieldMessages = Object.values(errorData.fieldErrors || {});
+        setError(fieldMessages.length > 0 ? fieldMessages.join('. ') : errorData.error || 'Failed to add record');
       }
     } catch (err) {
       console.error('Failed to add record:', err);
@@ -273,9 +278,7 @@ export function GeneratedRuntime({
               <Button variant="ghost" size="sm" onClick={fetchData}>
                 <RefreshCw className="w-4 h-4" />
               </Button>
-              <Button variant="ghost" size="sm">
-                <Settings className="w-4 h-4" />
-              </Button>
+              <AppSharingControls appId={appId} role={role} />
             </div>
           </div>
         </header>
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle2, FileUp, Undo2 } from 'lucide-react';
+import { Button, Modal } from '@/components/ui';
+
+interface ImportField {
+  name: string;
+  label: string;
+  type: string;
+  required: boolean;
+}
+
+interface ImportRowError {
+  row: number;
+  values: Record<string, unknown>;
+  issues: Array<{ path: string; message: string }>;
+}
+
+interface ImportPreview {
+  columns: string[];
+  fields: ImportField[];
+  mapping: Record<string, string | null>;
+  summary: { total: number; valid: number; invalid: number };
+  errors: ImportRowError[];
+  import?: { id: string; inserted: number; skipped: number };
+}
+
+interface ImportDataModalProps {
+  appId: string;
+  /** Collection to import into */
+  collection: string;
+  collectionLabel: string;
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after records were added or an import was undone */
+  onChange: () => void;
+}
+
+type Step = 'choose' | 'review' | 'done';
+
+export function ImportDataModal({ appId, collection, collectionLabel, isOpen, onClose, onChange }: ImportDataModalProps) {
+  const [step, setStep] = useState<Step>('choose');
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string | null>>({});
+  const [undone, setUndone] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setStep('choose');
+    setFile(null);
+    setPreview(null);
+    setMapping({});
+    setUndone(false);
+    setError(null);
+  };
+
+  const close = () => {
+    reset();
+    onClose();
+  };
+
+  const send = async (chosen: File, columnMapping: Record<string, string | null> | null, dryRun: boolean) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const body = new FormData();
+      body.append('file', chosen);
+      if (columnMapping) body.append('mapping', JSON.stringify(columnMapping));
+
+      const search = new URLSearchParams({ collection, ...(dryRun && { dryRun: '1' }) });
+      const response = await fetch(`/api/apps/${appId}/data/import?${search}`, { method: 'POST', body });
+      const json = await response.json();
+      if (!response.ok) {
+        setError(json.error || 'Import failed');
+        return;
+      }
+
+      setPreview(json);
+      setMapping(json.mapping);
+      if (dryRun) {
+        setStep('review');
+      } else {
+        setStep('done');
+        onChange();
+      }
+    } catch (err) {
+      setError('Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const chooseFile = (chosen: File | undefined) => {
+    if (!chosen) return;
+    setFile(chosen);
+    send(chosen, null, true);
+  };
+
+  const remap = (column: string, field: string) => {
+    // A field takes one column, so it is released from whichever column had it
+    const next = Object.fromEntries(Object.entries(mapping).map(([key, value]) => [key, value === field ? null : value]));
+    next[column] = field || null;
+    setMapping(next);
+    if (file) send(file, next, true);
+  };
+
+  const undo = async () => {
+    if (!preview?.import) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/apps/${appId}/data/import/${preview.import.id}/undo`, { method: 'POST' });
+      const json = await response.json();
+      if (!response.ok) {
+        setError(json.error || 'Failed to undo the import');
+        return;
+      }
+      setUndone(true);
+      onChange();
+    } catch (err) {
+      setError('Failed to undo the import');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const unmappedRequired = preview?.fields.filter(field => field.required && !Object.values(mapping).includes(field.name)) || [];
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={close}
+      title={`Import ${collectionLabel}`}
+      description="CSV, JSON or Excel (.xlsx) files. The first row of a spreadsheet holds the column names."
+      className="max-w-3xl"
+      footer={
+        <>
+          <Button variant="ghost" onClick={close}>{step === 'done' ? 'Close' : 'Cancel'}</Button>
+          {step === 'review' && preview && (
+            <Button
+              onClick={() => file && send(file, mapping, false)}
+              loading={isWorking}
+              disabled={preview.summary.valid === 0}
+            >
+              Import {preview.summary.valid} {preview.summary.valid === 1 ? 'row' : 'rows'}
+            </Button>
+          )}
+        </>
+      }
+    >
+      <div className="space-y-4">
+        {step === 'choose' && (
+          <label className="flex flex-col items-center justify-center gap-2 p-8 rounded-xl border border-dashed border-outline-light text-text-secondary cursor-pointer hover:bg-surface-elevated">
+            <FileUp className="w-6 h-6" />
+            <span className="text-sm">{isWorking ? 'Reading file…' : 'Choose a file'}</span>
+            <input
+              type="file"
+              accept=".csv,.tsv,.json,.xlsx"
+              className="hidden"
+              onChange={event => chooseFile(event.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {step === 'review' && preview && (
+          <>
+            <div className="text-sm text-text-secondary">
+              {file?.name}: {preview.summary.total} rows, {preview.summary.valid} ready
+              {preview.summary.invalid > 0 && `, ${preview.summary.invalid} will be skipped`}
+            </div>
+
+            <div className="max-h-64 overflow-y-auto rounded-xl border border-outline-light divide-y divide-outline-light">
+              {preview.columns.map(column => (
+                <div key={column} className="flex items-center gap-3 px-3 py-2">
+                  <span className="flex-1 text-sm text-text-primary truncate">{column}</span>
+                  <select
+                    value={mapping[column] || ''}
+                    onChange={event => remap(column, event.target.value)}
+                    disabled={isWorking}
+                    className="w-56 px-2 py-1.5 rounded-lg bg-surface-elevated border border-outline-light text-text-primary text-sm"
+                  >
+                    <option value="">Don&apos;t import</option>
+                    {preview.fields.map(field => (
+                      <option key={field.name} value={field.name}>
+                        {field.label}{field.required ? ' *' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {unmappedRequired.length > 0 && (
+              <p className="text-sm text-accent-yellow">
+                No column fills {unmappedRequired.map(field => field.label).join(', ')}
+              </p>
+            )}
+
+            {preview.errors.length > 0 && (
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {preview.errors.map(rowError => (
+                  <div key={rowError.row} className="text-xs">
+                    <span className="font-medium text-red-400">Row {rowError.row}:</span>{' '}
+                    <span className="text-text-secondary">
+                      {rowError.issues.map(issue => issue.message).join('; ')}
+                    </span>
+                  </div>
+                ))}
+                {preview.summary.invalid > preview.errors.length && (
+                  <p className="text-xs text-text-secondary">
+                    …and {preview.summary.invalid - preview.errors.length} more rows with problems
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        {step === 'done' && preview?.import && (
+          <div className="flex items-start gap-3">
+            <CheckCircle2 className="w-5 h-5 mt-0.5 text-green-400" />
+            <div className="flex-1 space-y-3">
+              <p className="text-sm text-text-primary">
+                {undone
+                  ? 'The import was undone.'
+                  : `Imported ${preview.import.inserted} ${preview.import.inserted === 1 ? 'record' : 'records'}${preview.import.skipped > 0 ? `, skipped ${preview.import.skipped}` : ''}.`}
+              </p>
+              {!undone && (
+                <Button variant="ghost" size="sm" onClick={undo} loading={isWorking}>
+                  <Undo2 className="w-4 h-4 mr-1" />
+                  Undo import
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+    </Modal>
+  );
+}
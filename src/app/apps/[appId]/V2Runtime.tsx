@@ -1,21 +1,33 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import Link from 'next/link';
-import { ArrowLeft, Settings, Plus, Trash2 } from 'lucide-react';
+import { ArrowLeft, Plus, Trash2, Upload } from 'lucide-react';
 import { NavigationRail, Button, Card } from '@/components/ui';
+import { FieldInput, LayoutRenderer, recordLabel } from '@/components/runtime';
 import type { Schema, LayoutNode } from '@/lib/scaffolder-v2/types';
-import type { DataRecord } from '@/lib/primitives/types';
+import { layoutCollections, parseLayout } from '@/lib/scaffolder-v2/layout';
+import type { DataRecord, FieldErrors } from '@/lib/primitives/types';
+import type { ForeignKey } from '@/lib/app-data/relations';
 import { cn } from '@/lib/utils';
+import { AppSharingControls } from './AppSharingControls';
+import { ImportDataModal } from './ImportDataModal';
+import type { AppMemberRole } from '@/lib/collaboration/types';
 
 interface V2RuntimeProps {
   appId: string;
   name: string;
   description: string;
   schema: Schema;
-  layout?: LayoutNode;
+  /** Every collection of a multi-entity app, primary schema first */
+  schemas?: Schema[];
+  foreignKeys?: ForeignKey[];
+  /** Stored layout definition; the app renders from it when it holds any components */
+  layout?: LayoutNode | null;
   componentFiles?: Record<string, string>;
   initialData: DataRecord[];
+  /** The signed-in user's role on the app */
+  role: AppMemberRole;
 }
 
 export function V2Runtime({
@@ -25,53 +37,152 @@ export function V2Runtime({
   schema,
   layout,
   componentFiles,
-  initialData
+  initialData,
+  role,
+  schemas = [schema],
+  foreignKeys = [],
 }: V2RuntimeProps) {
-  const [data, setData] = useState<DataRecord[]>(initialData);
+  const [active, setActive] = useState(schema.name);
+  // Records per collection, loaded when a tab or a relation picker first needs them
+  const [records, setRecords] = useState<Record<string, DataRecord[]>>({ [schema.name]: initialData });
   const [isLoading, setIsLoading] = useState(false);
   const [formData, setFormData] = useState<Record<string, any>>({});
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [showImport, setShowImport] = useState(false);
 
-  const handleAddRecord = useCallback(async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsLoading(true);
+  const activeSchema = schemas.find(candidate => candidate.name === active) || schema;
+  const activeKeys = useMemo(() => foreignKeys.filter(key => key.collection === active), [foreignKeys, active]);
+  const data = records[active] || [];
+  const pending = useRef<Set<string>>(new Set());
+  const appLayout = useMemo(() => parseLayout(layout), [layout]);
+
+  // The active collection, any others the layout shows, and whatever their relation pickers list
+  const needed = useMemo(() => {
+    const shown = [active, ...(appLayout ? layoutCollections(appLayout) : [])];
+    const targets = foreignKeys.filter(key => shown.includes(key.collection)).map(key => key.target);
+    return Array.from(new Set([...shown, ...targets]));
+  }, [active, appLayout, foreignKeys]);
+
+  const dataUrl = useCallback((collection: string, params: Record<string, string> = {}) => {
+    const search = new URLSearchParams(collection === schema.name ? params : { ...params, collection });
+    const query = search.toString();
+    return `/api/apps/${appId}/data${query ? `?${query}` : ''}`;
+  }, [appId, schema.name]);
+
+  useEffect(() => {
+    const missing = needed.filter(collection => !records[collection] && !pending.current.has(collection));
+    for (const collection of missing) {
+      pending.current.add(collection);
+      fetch(dataUrl(collection, { limit: '500' }))
+        .then(response => response.ok ? response.json() : { data: [] })
+        .then(({ data: rows }) => setRecords(prev => ({ ...prev, [collection]: rows || [] })))
+        .catch(error => console.error(`Failed to load ${collection}:`, error))
+        .finally(() => pending.current.delete(collection));
+    }
+  }, [needed, records, dataUrl]);
 
+  const selectCollection = useCallback((collection: string) => {
+    setActive(collection);
+    setFormData({});
+    setFieldErrors({});
+  }, []);
+
+  const createRecord = useCallback(async (collection: string, values: Record<string, unknown>): Promise<FieldErrors | void> => {
     try {
-      const response = await fetch(`/api/apps/${appId}/data`, {
+      const response = await fetch(dataUrl(collection), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body: JSON.stringify(values),
       });
 
       if (response.ok) {
         const { record } = await response.json();
-        setData(prev => [...prev, record]);
-        setFormData({});
+        setRecords(prev => ({ ...prev, [collection]: [...(prev[collection] || []), record] }));
+      } else {
+        const { fieldErrors } = await response.json();
+        return fieldErrors || {};
       }
     } catch (error) {
       console.error('Failed to add record:', error);
-    } finally {
-      setIsLoading(false);
     }
-  }, [appId, formData]);
+  }, [dataUrl]);
+
+  const updateRecord = useCallback(async (collection: string, id: string, changes: Record<string, unknown>): Promise<FieldErrors | void> => {
+    try {
+      const response = await fetch(dataUrl(collection), {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, ...changes }),
+      });
 
-  const handleDeleteRecord = useCallback(async (id: string) => {
+      if (response.ok) {
+        const { record } = await response.json();
+        setRecords(prev => ({
+          ...prev,
+          [collection]: (prev[collection] || []).map(existing => existing.id === id ? record : existing),
+        }));
+      } else {
+        const { fieldErrors, error } = await response.json();
+        if (!fieldErrors) alert(error);
+        return fieldErrors || {};
+      }
+    } catch (error) {
+      console.error('Failed to update record:', error);
+    }
+  }, [dataUrl]);
+
+  const deleteRecord = useCallback(async (collection: string, id: string) => {
     if (!confirm('Are you sure you want to delete this entry?')) return;
 
     try {
-      const response = await fetch(`/api/apps/${appId}/data?id=${id}`, {
+      const response = await fetch(dataUrl(collection, { id }), {
         method: 'DELETE',
       });
 
       if (response.ok) {
-        setData(prev => prev.filter(r => r.id !== id));
+        // Delete rules may have changed other collections, so only this one is kept
+        setRecords(prev => ({ [collection]: (prev[collection] || []).filter(r => r.id !== id) }));
+      } else if (response.status === 409) {
+        const { error } = await response.json();
+        alert(error);
       }
     } catch (error) {
       console.error('Failed to delete record:', error);
     }
-  }, [appId]);
+  }, [dataUrl]);
+
+  const handleAddRecord = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    const errors = await createRecord(active, formData);
+    if (errors) {
+      setFieldErrors(errors);
+    } else {
+      setFormData({});
+      setFieldErrors({});
+    }
+    setIsLoading(false);
+  };
+
+  // Drop the active collection's records so they are fetched again
+  const reloadActive = useCallback(() => {
+    setRecords(prev => {
+      const { [active]: _reloaded, ...rest } = prev;
+      return rest;
+    });
+  }, [active]);
+
+  const keyFor = (fieldName: string) => activeKeys.find(key => key.field === fieldName);
+
+  const relatedLabel = (key: ForeignKey, id: unknown) => {
+    const target = schemas.find(candidate => candidate.name === key.target);
+    const related = (records[key.target] || []).find(record => record.id === id);
+    return related ? recordLabel(target, related) : String(id ?? '');
+  };
 
   // Get user-editable fields (exclude generated fields)
-  const editableFields = schema.fields.filter(f => !f.generated);
+  const editableFields = activeSchema.fields.filter(f => !f.generated);
+  const columns = [...activeSchema.fields, ...(activeSchema.computedFields || [])];
 
   return (
     <div className="h-screen bg-surface-dark flex">
@@ -100,142 +211,164 @@ export function V2Runtime({
                 </span>
               </div>
             </div>
-            <Button variant="ghost" size="sm">
-              <Settings className="w-4 h-4" />
-            </Button>
+            <div className="flex items-center gap-2">
+              {role !== 'viewer' && (
+                <Button variant="ghost" size="sm" onClick={() => setShowImport(true)} title={`Import ${activeSchema.label}`}>
+                  <Upload className="w-4 h-4" />
+                </Button>
+              )}
+              <AppSharingControls appId={appId} role={role} />
+            </div>
           </div>
         </header>
+        {role !== 'viewer' && (
+          <ImportDataModal
+            appId={appId}
+            collection={activeSchema.name}
+            collectionLabel={activeSchema.label}
+            isOpen={showImport}
+            onClose={() => setShowImport(false)}
+            onChange={reloadActive}
+          />
+        )}
 
         {/* Main content */}
         <main className="flex-1 overflow-y-auto">
           <div className="max-w-7xl mx-auto p-6 space-y-6">
-            {/* Schema Info */}
-            <Card variant="outlined" padding="lg">
-              <h2 className="text-lg font-semibold text-text-primary mb-4">Schema: {schema.label}</h2>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {schema.fields.map(field => (
-                  <div key={field.name} className="p-3 bg-gray-800 rounded">
-                    <div className="font-medium text-text-primary">{field.label}</div>
-                    <div className="text-sm text-gray-400">{field.type}</div>
-                    {field.required && <div className="text-xs text-red-400">Required</div>}
-                  </div>
+            {/* Collection Tabs */}
+            {schemas.length > 1 && (
+              <div className="flex gap-2 border-b border-outline-mid">
+                {schemas.map(candidate => (
+                  <button
+                    key={candidate.name}
+                    type="button"
+                    onClick={() => selectCollection(candidate.name)}
+                    className={cn(
+                      'px-4 py-2 text-sm border-b-2 -mb-px',
+                      candidate.name === active
+                        ? 'border-accent-yellow text-text-primary'
+                        : 'border-transparent text-text-secondary hover:text-text-primary'
+                    )}
+                  >
+                    {candidate.label}
+                  </button>
                 ))}
               </div>
-            </Card>
+            )}
 
-            {/* Add Entry Form */}
-            <Card variant="outlined" padding="lg">
-              <h2 className="text-lg font-semibold text-text-primary mb-4 flex items-center gap-2">
-                <Plus className="w-5 h-5" />
-                Add Entry
-              </h2>
-              <form onSubmit={handleAddRecord} className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {editableFields.map(field => (
-                    <div key={field.name}>
-                      <label className="block text-sm text-gray-400 mb-1">
-                        {field.label}
-                        {field.required && <span className="text-red-400 ml-1">*</span>}
-                      </label>
-                      {field.type === 'enum' ? (
-                        <select
-                          value={formData[field.name] || ''}
-                          onChange={(e) => setFormData(prev => ({ ...prev, [field.name]: e.target.value }))}
-                          className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded text-text-primary"
-                          required={field.required}
-                        >
-                          <option value="">Select...</option>
-                          {(field.options || []).map(option => (
-                            <option key={option} value={option}>{option}</option>
-                          ))}
-                        </select>
-                      ) : field.type === 'text' ? (
-                        <textarea
-                          value={formData[field.name] || ''}
-                          onChange={(e) => setFormData(prev => ({ ...prev, [field.name]: e.target.value }))}
-                          className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded text-text-primary"
-                          placeholder={field.placeholder}
-                          required={field.required}
-                          rows={3}
-                        />
-                      ) : (
-                        <input
-                          type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
-                          value={formData[field.name] || ''}
-                          onChange={(e) => setFormData(prev => ({
-                            ...prev,
-                            [field.name]: field.type === 'number' ? Number(e.target.value) : e.target.value
-                          }))}
-                          className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded text-text-primary"
-                          placeholder={field.placeholder}
-                          required={field.required}
-                        />
-                      )}
-                    </div>
-                  ))}
-                </div>
-                <Button type="submit" disabled={isLoading} className="mt-4">
-                  {isLoading ? 'Adding...' : 'Add Entry'}
-                </Button>
-              </form>
-            </Card>
+            {appLayout ? (
+              <LayoutRenderer
+                layout={appLayout}
+                schemas={schemas}
+                foreignKeys={foreignKeys}
+                records={records}
+                collection={active}
+                readOnly={role === 'viewer'}
+                onCreate={createRecord}
+                onUpdate={updateRecord}
+                onDelete={deleteRecord}
+                onSelectCollection={selectCollection}
+              />
+            ) : (
+              <>
+                {/* Schema Info */}
+                <Card variant="outlined" padding="lg">
+                  <h2 className="text-lg font-semibold text-text-primary mb-4">Schema: {activeSchema.label}</h2>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {activeSchema.fields.map(field => (
+                      <div key={field.name} className="p-3 bg-gray-800 rounded">
+                        <div className="font-medium text-text-primary">{field.label}</div>
+                        <div className="text-sm text-gray-400">{field.type}</div>
+                        {field.required && <div className="text-xs text-red-400">Required</div>}
+                      </div>
+                    ))}
+                  </div>
+                </Card>
 
-            {/* Data Table */}
-            <Card variant="outlined" padding="lg">
-              <h2 className="text-lg font-semibold text-text-primary mb-4">Entries ({data.length})</h2>
-              {data.length === 0 ? (
-                <div className="text-center py-8 text-gray-500">
-                  No entries yet. Add your first entry above.
-                </div>
-              ) : (
-                <div className="overflow-x-auto">
-                  <table className="w-full">
-                    <thead>
-                      <tr className="border-b border-gray-700">
-                        {schema.fields.map(field => (
-                          <th key={field.name} className="text-left py-2 px-4 text-sm font-medium text-gray-400">
+                {/* Add Entry Form */}
+                <Card variant="outlined" padding="lg">
+                  <h2 className="text-lg font-semibold text-text-primary mb-4 flex items-center gap-2">
+                    <Plus className="w-5 h-5" />
+                    Add Entry
+                  </h2>
+                  <form onSubmit={handleAddRecord} className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      {editableFields.map(field => (
+                        <div key={field.name}>
+                          <label className="block text-sm text-gray-400 mb-1">
                             {field.label}
-                          </th>
-                        ))}
-                        <th className="text-right py-2 px-4 text-sm font-medium text-gray-400">Actions</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {data.map((record) => (
-                        <tr key={record.id} className="border-b border-gray-800 hover:bg-gray-800/50">
-                          {schema.fields.map(field => (
-                            <td key={field.name} className="py-2 px-4 text-text-primary">
-                              {field.type === 'boolean'
-                                ? (record[field.name] ? '✓' : '✗')
-                                : String(record[field.name] ?? '')}
-                            </td>
-                          ))}
-                          <td className="py-2 px-4 text-right">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleDeleteRecord(record.id)}
-                              className="text-red-400 hover:text-red-300"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </Button>
-                          </td>
-                        </tr>
+                            {field.required && <span className="text-red-400 ml-1">*</span>}
+                          </label>
+                          <FieldInput
+                            field={field}
+                            value={formData[field.name]}
+                            onChange={(value) => setFormData(prev => ({ ...prev, [field.name]: value }))}
+                            foreignKey={keyFor(field.name)}
+                            targetSchema={schemas.find(candidate => candidate.name === keyFor(field.name)?.target)}
+                            options={records[keyFor(field.name)?.target ?? '']}
+                          />
+                          {fieldErrors[field.name] && (
+                            <p className="text-xs text-red-400 mt-1">{fieldErrors[field.name]}</p>
+                          )}
+                        </div>
                       ))}
-                    </tbody>
-                  </table>
-                </div>
-              )}
-            </Card>
+                    </div>
+                    <Button type="submit" disabled={isLoading} className="mt-4">
+                      {isLoading ? 'Adding...' : 'Add Entry'}
+                    </Button>
+                  </form>
+                </Card>
 
-            {/* Layout Info (if available) */}
-            {layout && (
-              <Card variant="outlined" padding="lg">
-                <h2 className="text-lg font-semibold text-text-primary mb-4">Layout Information</h2>
-                <pre className="text-xs text-gray-400 bg-gray-900 p-4 rounded overflow-auto">
-                  {JSON.stringify(layout, null, 2)}
-                </pre>
-              </Card>
+                {/* Data Table */}
+                <Card variant="outlined" padding="lg">
+                  <h2 className="text-lg font-semibold text-text-primary mb-4">Entries ({data.length})</h2>
+                  {data.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      No entries yet. Add your first entry above.
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead>
+                          <tr className="border-b border-gray-700">
+                            {columns.map(field => (
+                              <th key={field.name} className="text-left py-2 px-4 text-sm font-medium text-gray-400">
+                                {field.label}
+                              </th>
+                            ))}
+                            <th className="text-right py-2 px-4 text-sm font-medium text-gray-400">Actions</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {data.map((record) => (
+                            <tr key={record.id} className="border-b border-gray-800 hover:bg-gray-800/50">
+                              {columns.map(field => (
+                                <td key={field.name} className="py-2 px-4 text-text-primary">
+                                  {keyFor(field.name)
+                                    ? [record[field.name]].flat().filter(Boolean).map(id => relatedLabel(keyFor(field.name)!, id)).join(', ')
+                                    : field.type === 'boolean'
+                                      ? (record[field.name] ? '✓' : '✗')
+                                      : String(record[field.name] ?? '')}
+                                </td>
+                              ))}
+                              <td className="py-2 px-4 text-right">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => deleteRecord(active, record.id)}
+                                  className="text-red-400 hover:text-red-300"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </Card>
+              </>
             )}
 
             {/* Component Files Info (if available) */}
@@ -256,4 +389,4 @@ export function V2Runtime({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
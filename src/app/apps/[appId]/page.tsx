@@ -1,6 +1,8 @@
 import { redirect } from 'next/navigation';
 import { getServerSession } from '@/lib/auth';
 import prisma from '@/lib/db';
+import { appWhereRole, getAppRole } from '@/lib/collaboration';
+import { openAppDataStore, resolvePrimarySchema, withComputedValues } from '@/lib/app-data';
 import { AppRuntime } from './AppRuntime';
 import { GeneratedRuntime } from './GeneratedRuntime';
 import { V2Runtime } from './V2Runtime';
@@ -8,6 +10,7 @@ import type { ProjectSpec } from '@/lib/scaffolder/types';
 import type { DataRecord } from '@/lib/primitives/types';
 import type { GeneratedCode } from '@/lib/scaffolder/code-generator';
 import type { Schema } from '@/lib/scaffolder-v2/types';
+import type { ForeignKey } from '@/lib/app-data';
 
 interface PageProps {
   params: Promise<{ appId: string }>;
@@ -22,13 +25,11 @@ export default async function AppPage({ params }: PageProps) {
   }
 
   const app = await prisma.app.findFirst({
-    where: {
-      id: appId,
-      userId: session.user.id,
-    },
+    where: appWhereRole(appId, session.user.id),
   });
+  const role = app && await getAppRole(app.id, session.user.id);
 
-  if (!app) {
+  if (!app || !role) {
     redirect('/dashboard');
   }
 
@@ -36,7 +37,7 @@ export default async function AppPage({ params }: PageProps) {
   let spec: Schema | ProjectSpec;
   try {
     spec = app.version === 'v2'
-      ? (typeof app.spec === 'string' ? JSON.parse(app.spec) : app.spec) as unknown as Schema
+      ? resolvePrimarySchema(app.spec) ?? { name: '', label: '', fields: [] }
       : (typeof app.spec === 'string' ? JSON.parse(app.spec) : app.spec) as unknown as ProjectSpec;
   } catch (e) {
     console.error('Failed to parse app spec:', e);
@@ -44,10 +45,18 @@ export default async function AppPage({ params }: PageProps) {
   }
   
   let data: DataRecord[] = [];
+  // Collections of multi-entity apps, with the foreign key fields their relationships add
+  let schemas: Schema[] = [];
+  let foreignKeys: ForeignKey[] = [];
   try {
-    data = (typeof app.data === 'string' ? JSON.parse(app.data) : (app.data || [])) as DataRecord[];
+    const store = openAppDataStore(app);
+    data = withComputedValues(store, store.collection(), store.collection().list());
+    schemas = store.collectionNames()
+      .map(collection => store.collection(collection).schema)
+      .filter((candidate): candidate is Schema => candidate !== null);
+    foreignKeys = store.relations.foreignKeys;
   } catch (e) {
-    console.error('Failed to parse app data:', e);
+    console.error('Failed to load app data:', e);
   }
   
   let generatedCode: GeneratedCode | null = null;
@@ -82,10 +91,13 @@ export default async function AppPage({ params }: PageProps) {
         appId={app.id}
         name={app.name}
         description={app.description}
-        schema={spec as Schema}
+        schema={schemas[0] ?? spec as Schema}
+        schemas={schemas.length > 0 ? schemas : undefined}
+        foreignKeys={foreignKeys}
         layout={layout}
         componentFiles={componentFiles as any}
         initialData={data}
+        role={role}
       />
     );
   }
@@ -101,6 +113,7 @@ export default async function AppPage({ params }: PageProps) {
         spec={spec as ProjectSpec}
         generatedCode={generatedCode.pageComponent}
         initialData={data}
+        role={role}
       />
     );
   }
@@ -113,6 +126,7 @@ export default async function AppPage({ params }: PageProps) {
       description={app.description}
       spec={spec as ProjectSpec}
       initialData={data}
+      role={role}
     />
   );
 }
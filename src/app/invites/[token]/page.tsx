@@ -0,0 +1,65 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { AlertTriangle } from 'lucide-react';
+import { getServerSession } from '@/lib/auth';
+import { acceptInvite, CollaborationError } from '@/lib/collaboration';
+import { Button, Card, Logo } from '@/components/ui';
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * Invitation link from the invite email
+ * Accepts the invite for the signed-in user and opens the app
+ */
+export default async function InvitePage({ params }: PageProps) {
+  const session = await getServerSession();
+  const { token } = await params;
+
+  if (!session?.user?.id || !session.user.email) {
+    redirect('/auth/signin?callbackUrl=' + encodeURIComponent(`/invites/${token}`));
+  }
+
+  let acceptedAppId: string | null = null;
+  let message = '';
+  try {
+    acceptedAppId = (await acceptInvite(token, { id: session.user.id, email: session.user.email })).appId;
+  } catch (error) {
+    if (!(error instanceof CollaborationError)) throw error;
+    if (error.code === 'INVITE_EMAIL_MISMATCH') {
+      message = `${error.message}. Sign in with that address to accept it.`;
+    } else if (error.code === 'EMAIL_NOT_VERIFIED') {
+      message = `${error.message}. You can resend the verification link from Settings → Security.`;
+    } else {
+      message = error.message;
+    }
+  }
+
+  if (acceptedAppId) {
+    redirect(`/apps/${acceptedAppId}`);
+  }
+
+  return (
+    <div className="min-h-screen bg-surface-base flex items-center justify-center p-6">
+      <div className="w-full max-w-md">
+        <div className="flex justify-center mb-8">
+          <Logo size="lg" />
+        </div>
+
+        <Card variant="outlined" padding="lg" className="animate-confident text-center">
+          <div className="w-16 h-16 mx-auto mb-6 rounded-full bg-red-500/10 flex items-center justify-center">
+            <AlertTriangle className="w-8 h-8 text-red-500" />
+          </div>
+          <h1 className="text-3xl font-serif font-medium text-text-primary mb-4">
+            Invitation unavailable
+          </h1>
+          <p className="text-text-secondary mb-8 leading-relaxed">{message}</p>
+          <Button asChild variant="primary" size="lg" className="w-full">
+            <Link href="/dashboard">Go to Dashboard</Link>
+          </Button>
+        </Card>
+      </div>
+    </div>
+  );
+}
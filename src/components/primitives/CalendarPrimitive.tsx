@@ -0,0 +1,93 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Card } from '@/components/ui';
+import type { CalendarPrimitiveConfig, DataRecord, SchemaPrimitiveProps } from '@/lib/primitives/types';
+import { findField, isoDay, monthGrid, recordTitle, recordsByDay } from '@/lib/primitives/fields';
+import { cn } from '@/lib/utils';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Entries listed in a day cell before the rest are summarized */
+const ENTRIES_PER_DAY = 3;
+
+export function CalendarPrimitive({ data, fields, config, title, onSelect, selectedId }: SchemaPrimitiveProps<CalendarPrimitiveConfig>) {
+  const dateField = findField(fields, config.dateField, ['date', 'datetime']);
+  const weekStartsOn = config.weekStartsOn ?? 1;
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  });
+
+  const byDay = useMemo(() => dateField ? recordsByDay(data, dateField.name) : new Map<string, DataRecord[]>(), [data, dateField]);
+  const days = monthGrid(month, weekStartsOn);
+  const today = isoDay(new Date());
+
+  const shift = (months: number) =>
+    setMonth(new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + months, 1)));
+
+  return (
+    <Card variant="outlined" padding="lg">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        {title && <h3 className="text-lg font-semibold text-text-primary">{title}</h3>}
+        <div className="flex items-center gap-2 ml-auto text-sm text-text-secondary">
+          <button type="button" onClick={() => shift(-1)} className="p-1 hover:text-text-primary" aria-label="Previous month">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="min-w-[8rem] text-center">
+            {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' })}
+          </span>
+          <button type="button" onClick={() => shift(1)} className="p-1 hover:text-text-primary" aria-label="Next month">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {!dateField ? (
+        <div className="py-8 text-center text-text-tertiary">
+          Add a date field to place entries on the calendar
+        </div>
+      ) : (
+        <div className="grid grid-cols-7 gap-px rounded-xl overflow-hidden bg-outline-light text-xs">
+          {[...WEEKDAYS.slice(weekStartsOn), ...WEEKDAYS.slice(0, weekStartsOn)].map(weekday => (
+            <div key={weekday} className="bg-surface-base px-2 py-1 text-text-tertiary">{weekday}</div>
+          ))}
+          {days.map(day => {
+            const key = isoDay(day);
+            const entries = byDay.get(key) || [];
+            return (
+              <div
+                key={key}
+                className={cn(
+                  'bg-surface-base min-h-[4.5rem] p-1 space-y-0.5',
+                  day.getUTCMonth() !== month.getUTCMonth() && 'opacity-40'
+                )}
+              >
+                <div className={cn('text-text-tertiary', key === today && 'text-accent-yellow font-semibold')}>
+                  {day.getUTCDate()}
+                </div>
+                {entries.slice(0, ENTRIES_PER_DAY).map(record => (
+                  <button
+                    key={record.id}
+                    type="button"
+                    onClick={() => onSelect?.(record)}
+                    className={cn(
+                      'block w-full truncate text-left px-1 rounded text-text-primary',
+                      selectedId === record.id ? 'bg-accent-yellow/40' : 'bg-accent-yellow/20'
+                    )}
+                  >
+                    {recordTitle(fields, record, config.titleField)}
+                  </button>
+                ))}
+                {entries.length > ENTRIES_PER_DAY && (
+                  <div className="text-text-tertiary">+{entries.length - ENTRIES_PER_DAY} more</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
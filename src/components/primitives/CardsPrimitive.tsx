@@ -0,0 +1,62 @@
+'use client';
+
+import { Card } from '@/components/ui';
+import type { FieldDefinition } from '@/lib/scaffolder-v2/types';
+import type { CardsPrimitiveConfig, SchemaPrimitiveProps } from '@/lib/primitives/types';
+import { findField, formatFieldValue, recordTitle } from '@/lib/primitives/fields';
+import { cn } from '@/lib/utils';
+
+/** Fields listed on each card when the config doesn't name them */
+const DEFAULT_CARD_FIELDS = 3;
+
+export function CardsPrimitive({ data, fields, config, title, onSelect, selectedId }: SchemaPrimitiveProps<CardsPrimitiveConfig>) {
+  const titleField = findField(fields, config.titleField, ['string', 'text', 'enum']);
+  const subtitleField = findField(fields, config.subtitleField);
+  const shown = config.fields
+    ? config.fields.map(name => findField(fields, name)).filter((field): field is FieldDefinition => field !== undefined)
+    : fields
+      .filter(field => !field.generated && field.name !== titleField?.name && field.name !== subtitleField?.name)
+      .slice(0, DEFAULT_CARD_FIELDS);
+
+  return (
+    <Card variant="outlined" padding="lg">
+      {title && (
+        <h3 className="text-lg font-semibold text-text-primary mb-4">
+          {title}
+        </h3>
+      )}
+      {data.length === 0 ? (
+        <div className="py-8 text-center text-text-tertiary">No entries yet</div>
+      ) : (
+        <div className="grid gap-4 grid-cols-[repeat(auto-fill,minmax(min(220px,100%),1fr))]">
+          {data.map(record => (
+            <button
+              key={record.id}
+              type="button"
+              onClick={() => onSelect?.(record)}
+              className={cn(
+                'text-left p-4 rounded-xl border bg-surface-elevated/40 transition-colors',
+                selectedId === record.id ? 'border-accent-yellow' : 'border-outline-light hover:border-outline-mid'
+              )}
+            >
+              <div className="font-medium text-text-primary truncate">{recordTitle(fields, record, config.titleField)}</div>
+              {subtitleField && (
+                <div className="text-sm text-text-secondary truncate">{formatFieldValue(record[subtitleField.name])}</div>
+              )}
+              {shown.length > 0 && (
+                <dl className="mt-2 space-y-0.5 text-xs">
+                  {shown.map(field => (
+                    <div key={field.name} className="flex gap-2">
+                      <dt className="text-text-tertiary">{field.label}</dt>
+                      <dd className="text-text-secondary truncate">{formatFieldValue(record[field.name])}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -20,6 +20,7 @@ import {
 } from 'recharts';
 import { Card } from '@/components/ui';
 import type { DataRecord, ChartPrimitiveConfig } from '@/lib/primitives/types';
+import { applyComputedFields } from '@/lib/formulas';
 
 interface ChartPrimitiveProps {
   data: DataRecord[];
@@ -44,8 +45,9 @@ const getChartColors = () => {
   ];
 };
 
-export function ChartPrimitive({ data, config, title }: ChartPrimitiveProps) {
-  const { chartType, xAxis, yAxis, groupBy, aggregation = 'sum' } = config;
+export function ChartPrimitive({ data: rawData, config, title }: ChartPrimitiveProps) {
+  const { chartType, xAxis, yAxis, groupBy, aggregation = 'sum', computedFields } = config;
+  const data = useMemo(() => applyComputedFields(rawData, computedFields), [rawData, computedFields]);
 
   const chartData = useMemo(() => {
     if (data.length === 0) return [];
@@ -0,0 +1,48 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { Card } from '@/components/ui';
+import type { DataRecord, DetailPrimitiveConfig } from '@/lib/primitives/types';
+import type { ComputedField, FieldDefinition } from '@/lib/scaffolder-v2/types';
+import { findField, formatFieldValue } from '@/lib/primitives/fields';
+
+interface DetailPrimitiveProps {
+  /** The record to show; without one the primitive says nothing is selected */
+  record: DataRecord | undefined;
+  fields: FieldDefinition[];
+  /** Computed fields shown after the fields */
+  computedFields?: ComputedField[];
+  config: DetailPrimitiveConfig;
+  title?: string;
+  /** Buttons shown in the header, e.g. edit or delete */
+  actions?: ReactNode;
+}
+
+export function DetailPrimitive({ record, fields, computedFields = [], config, title, actions }: DetailPrimitiveProps) {
+  const shown = config.fields
+    ? config.fields.map(name => findField(fields, name)).filter((field): field is FieldDefinition => field !== undefined)
+    : fields.filter(field => !field.generated);
+
+  return (
+    <Card variant="outlined" padding="lg">
+      {(title || actions) && (
+        <div className="flex items-center justify-between gap-2 mb-4">
+          {title && <h3 className="text-lg font-semibold text-text-primary">{title}</h3>}
+          {record && actions}
+        </div>
+      )}
+      {!record ? (
+        <div className="py-8 text-center text-text-tertiary">Select an entry to see its details</div>
+      ) : (
+        <dl className="space-y-3">
+          {[...shown, ...computedFields].map(field => (
+            <div key={field.name}>
+              <dt className="text-xs text-text-tertiary">{field.label}</dt>
+              <dd className="text-sm text-text-primary break-words">{formatFieldValue(record[field.name]) || '—'}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </Card>
+  );
+}
@@ -3,13 +3,15 @@
 import { useState } from 'react';
 import { Plus, X } from 'lucide-react';
 import type { FieldDefinition } from '@/lib/scaffolder/types';
+import type { FieldErrors, FormSubmitHandler, RelationOption } from '@/lib/primitives/types';
 import { cn } from '@/lib/utils';
 
 interface FormPrimitiveProps {
   fields: FieldDefinition[];
   submitLabel?: string;
-  onSubmit: (values: Record<string, unknown>) => void;
+  onSubmit: FormSubmitHandler;
   isLoading?: boolean;
+  relationOptions?: Record<string, RelationOption[]>;
 }
 
 export function FormPrimitive({ 
@@ -17,9 +19,10 @@ export function FormPrimitive({
   submitLabel = 'Add Entry', 
   onSubmit,
   isLoading = false,
+  relationOptions = {},
 }: FormPrimitiveProps) {
   const [values, setValues] = useState<Record<string, unknown>>({});
-  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<FieldErrors>({});
   const [isOpen, setIsOpen] = useState(false);
 
   const handleChange = (name: string, value: unknown) => {
@@ -34,7 +37,7 @@ export function FormPrimitive({
   };
 
   const validate = (): boolean => {
-    const newErrors: Record<string, string> = {};
+    const newErrors: FieldErrors = {};
     
     fields.forEach(field => {
       if (field.required && !values[field.name]) {
@@ -57,13 +60,19 @@ export function FormPrimitive({
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (validate()) {
-      onSubmit(values);
-      setValues({});
-      setIsOpen(false);
+    if (!validate()) return;
+
+    // Server-side validation errors keep the entered values so they can be fixed
+    const serverErrors = await onSubmit(values);
+    if (serverErrors && Object.keys(serverErrors).length > 0) {
+      setErrors(serverErrors);
+      return;
     }
+
+    setValues({});
+    setIsOpen(false);
   };
 
   return (
@@ -79,7 +88,9 @@ export function FormPrimitive({
               {field.required && <span className="text-accent-yellow ml-1">*</span>}
             </label>
 
-            {renderField(field, values[field.name], handleChange)}
+            {relationOptions[field.name]
+              ? renderRelationField(field, relationOptions[field.name], values[field.name], handleChange)
+              : renderField(field, values[field.name], handleChange)}
 
             {errors[field.name] && (
               <p className="text-sm text-accent-yellow mt-1">{errors[field.name]}</p>
@@ -112,17 +123,41 @@ export function FormPrimitive({
   );
 }
 
-function renderField(
+const baseInputClass = cn(
+  "w-full px-4 py-3 rounded-xl border border-outline-light bg-surface-light text-text-primary placeholder-text-tertiary",
+  "focus:outline-none focus:ring-2 focus:ring-accent-yellow/50 focus:border-accent-yellow",
+  "transition-all duration-200"
+);
+
+/**
+ * Picker for a field that references a record in another collection
+ */
+function renderRelationField(
   field: FieldDefinition,
+  options: RelationOption[],
   value: unknown,
   onChange: (name: string, value: unknown) => void
 ) {
-  const baseInputClass = cn(
-    "w-full px-4 py-3 rounded-xl border border-outline-light bg-surface-light text-text-primary placeholder-text-tertiary",
-    "focus:outline-none focus:ring-2 focus:ring-accent-yellow/50 focus:border-accent-yellow",
-    "transition-all duration-200"
+  return (
+    <select
+      id={field.name}
+      value={(value as string) || ''}
+      onChange={(e) => onChange(field.name, e.target.value || null)}
+      className={cn(baseInputClass, "appearance-none bg-surface-light")}
+    >
+      <option value="" className="bg-surface-light text-text-tertiary">Select {field.label}</option>
+      {options.map(option => (
+        <option key={option.value} value={option.value} className="bg-surface-light text-text-primary">{option.label}</option>
+      ))}
+    </select>
   );
+}
 
+function renderField(
+  field: FieldDefinition,
+  value: unknown,
+  onChange: (name: string, value: unknown) => void
+) {
   switch (field.type) {
     case 'text':
       return (
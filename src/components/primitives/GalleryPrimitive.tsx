@@ -0,0 +1,67 @@
+'use client';
+
+import { ImageOff } from 'lucide-react';
+import { Card } from '@/components/ui';
+import type { GalleryPrimitiveConfig, SchemaPrimitiveProps } from '@/lib/primitives/types';
+import { findField, recordTitle } from '@/lib/primitives/fields';
+import { cn } from '@/lib/utils';
+
+/** Images narrower than this wrap to the next row */
+const MIN_IMAGE_WIDTH = '160px';
+
+/**
+ * Only web and inline image URLs are shown, so a field can't point the page at other schemes
+ */
+function imageUrl(value: unknown): string | null {
+  return typeof value === 'string' && /^(https?:\/\/|data:image\/)/i.test(value.trim()) ? value.trim() : null;
+}
+
+export function GalleryPrimitive({ data, fields, config, title, onSelect, selectedId }: SchemaPrimitiveProps<GalleryPrimitiveConfig>) {
+  const imageField = findField(fields, config.imageField)
+    || fields.find(field => /image|photo|picture|url/i.test(field.name) && field.type === 'string');
+  const columns = config.columns && config.columns > 0 ? Math.floor(config.columns) : 3;
+
+  return (
+    <Card variant="outlined" padding="lg">
+      {title && (
+        <h3 className="text-lg font-semibold text-text-primary mb-4">
+          {title}
+        </h3>
+      )}
+      {data.length === 0 ? (
+        <div className="py-8 text-center text-text-tertiary">No entries yet</div>
+      ) : (
+        <div
+          className="grid gap-4"
+          style={{ gridTemplateColumns: `repeat(auto-fill, minmax(max(${MIN_IMAGE_WIDTH}, calc((100% - ${columns - 1}rem) / ${columns})), 1fr))` }}
+        >
+          {data.map(record => {
+            const src = imageField ? imageUrl(record[imageField.name]) : null;
+            const name = recordTitle(fields, record, config.titleField);
+            return (
+              <button
+                key={record.id}
+                type="button"
+                onClick={() => onSelect?.(record)}
+                className={cn(
+                  'text-left rounded-xl overflow-hidden border transition-colors',
+                  selectedId === record.id ? 'border-accent-yellow' : 'border-outline-light hover:border-outline-mid'
+                )}
+              >
+                {src ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={src} alt={name} loading="lazy" className="w-full aspect-square object-cover bg-surface-elevated" />
+                ) : (
+                  <div className="w-full aspect-square flex items-center justify-center bg-surface-elevated text-text-tertiary">
+                    <ImageOff className="w-6 h-6" />
+                  </div>
+                )}
+                <div className="px-3 py-2 text-sm text-text-primary truncate">{name}</div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
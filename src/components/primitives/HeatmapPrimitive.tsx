@@ -0,0 +1,61 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Card } from '@/components/ui';
+import type { HeatmapPrimitiveConfig, SchemaPrimitiveProps } from '@/lib/primitives/types';
+import { findField, heatmapDays } from '@/lib/primitives/fields';
+
+/** Opacity of days with nothing, and the range days with something are spread over */
+const EMPTY_OPACITY = 0.08;
+const MIN_OPACITY = 0.25;
+
+/**
+ * GitHub-style grid of days, one column per week, shaded by each day's total
+ */
+export function HeatmapPrimitive({ data, fields, config, title }: SchemaPrimitiveProps<HeatmapPrimitiveConfig>) {
+  const dateField = findField(fields, config.dateField, ['date', 'datetime']);
+  const valueField = findField(fields, config.valueField);
+
+  const days = useMemo(
+    () => dateField ? heatmapDays(data, dateField.name, valueField, config.timeRange) : [],
+    [data, dateField, valueField, config.timeRange]
+  );
+  const max = Math.max(0, ...days.map(day => day.total));
+  const total = days.reduce((sum, day) => sum + day.total, 0);
+  // Pad the first week so each row is one weekday
+  const lead = days.length > 0 ? new Date(`${days[0].day}T00:00:00Z`).getUTCDay() : 0;
+
+  return (
+    <Card variant="outlined" padding="lg">
+      {title && (
+        <h3 className="text-lg font-semibold text-text-primary mb-4">
+          {title}
+        </h3>
+      )}
+      {!dateField ? (
+        <div className="py-8 text-center text-text-tertiary">
+          Add a date field to see activity per day
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <div className="grid grid-rows-7 grid-flow-col gap-1 w-max">
+              {Array.from({ length: lead }, (_, index) => <div key={`lead-${index}`} className="w-3 h-3" />)}
+              {days.map(day => (
+                <div
+                  key={day.day}
+                  title={`${day.day}: ${day.total.toLocaleString()}`}
+                  className="w-3 h-3 rounded-sm bg-accent-yellow"
+                  style={{ opacity: day.total > 0 && max > 0 ? MIN_OPACITY + (1 - MIN_OPACITY) * (day.total / max) : EMPTY_OPACITY }}
+                />
+              ))}
+            </div>
+          </div>
+          <p className="mt-3 text-xs text-text-tertiary">
+            {valueField?.type === 'number' || valueField?.type === 'boolean' ? valueField.label : 'Entries'}: {total.toLocaleString()} in this period
+          </p>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Card } from '@/components/ui';
+import type { KanbanPrimitiveConfig, SchemaPrimitiveProps } from '@/lib/primitives/types';
+import { findField, formatFieldValue, groupRecords, recordTitle } from '@/lib/primitives/fields';
+import { cn } from '@/lib/utils';
+
+interface KanbanPrimitiveProps extends SchemaPrimitiveProps<KanbanPrimitiveConfig> {
+  /** Called with the new column value when a card is dropped in another column; omit to disable dragging */
+  onUpdate?: (id: string, changes: Record<string, unknown>) => void;
+}
+
+export function KanbanPrimitive({ data, fields, config, title, onSelect, selectedId, onUpdate }: KanbanPrimitiveProps) {
+  const groupField = findField(fields, config.groupBy, ['enum']);
+  const subtitleField = findField(fields, config.subtitleField);
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [target, setTarget] = useState<string | null>(null);
+
+  const groups = useMemo(() => groupField ? groupRecords(data, groupField) : [], [data, groupField]);
+
+  const drop = (value: string) => {
+    const record = data.find(candidate => candidate.id === dragging);
+    setDragging(null);
+    setTarget(null);
+    if (record && groupField && record[groupField.name] !== value) {
+      onUpdate?.(record.id, { [groupField.name]: value });
+    }
+  };
+
+  return (
+    <Card variant="outlined" padding="lg">
+      {title && (
+        <h3 className="text-lg font-semibold text-text-primary mb-4">
+          {title}
+        </h3>
+      )}
+      {!groupField ? (
+        <div className="py-8 text-center text-text-tertiary">
+          Add an option field to group entries into columns
+        </div>
+      ) : (
+        <div className="flex gap-4 overflow-x-auto pb-2">
+          {groups.map(group => (
+            <div
+              key={group.value ?? ''}
+              onDragOver={(e) => {
+                if (group.value === null || !dragging) return;
+                e.preventDefault();
+                setTarget(group.value);
+              }}
+              onDragLeave={() => setTarget(null)}
+              onDrop={() => group.value !== null && drop(group.value)}
+              className={cn(
+                'flex-1 min-w-[220px] rounded-xl p-3 space-y-2 transition-colors',
+                target === group.value && group.value !== null ? 'bg-accent-yellow/10' : 'bg-surface-elevated/40'
+              )}
+            >
+              <div className="flex items-center justify-between text-sm font-medium text-text-secondary">
+                <span>{group.value ?? `No ${groupField.label}`}</span>
+                <span className="text-text-tertiary">{group.records.length}</span>
+              </div>
+              {group.records.map(record => (
+                <div
+                  key={record.id}
+                  draggable={Boolean(onUpdate)}
+                  onDragStart={() => setDragging(record.id)}
+                  onDragEnd={() => {
+                    setDragging(null);
+                    setTarget(null);
+                  }}
+                  onClick={() => onSelect?.(record)}
+                  className={cn(
+                    'p-3 rounded-lg border bg-surface-base text-sm',
+                    onUpdate ? 'cursor-grab' : onSelect && 'cursor-pointer',
+                    selectedId === record.id ? 'border-accent-yellow' : 'border-outline-light',
+                    dragging === record.id && 'opacity-50'
+                  )}
+                >
+                  <div className="text-text-primary">{recordTitle(fields, record, config.titleField)}</div>
+                  {subtitleField && record[subtitleField.name] !== undefined && (
+                    <div className="text-xs text-text-secondary mt-1">{formatFieldValue(record[subtitleField.name])}</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { Card } from '@/components/ui';
+import type { ListPrimitiveConfig, SchemaPrimitiveProps } from '@/lib/primitives/types';
+import { findField, formatFieldValue, recordTitle } from '@/lib/primitives/fields';
+import { cn } from '@/lib/utils';
+
+interface ListPrimitiveProps extends SchemaPrimitiveProps<ListPrimitiveConfig> {
+  /** Called when the checkbox is toggled; omit to make it read-only */
+  onUpdate?: (id: string, changes: Record<string, unknown>) => void;
+}
+
+export function ListPrimitive({ data, fields, config, title, onSelect, selectedId, onUpdate }: ListPrimitiveProps) {
+  const subtitleField = findField(fields, config.subtitleField);
+  const checkboxField = config.checkboxField ? findField(fields, config.checkboxField, ['boolean']) : undefined;
+
+  return (
+    <Card variant="outlined" padding="lg">
+      {title && (
+        <h3 className="text-lg font-semibold text-text-primary mb-4">
+          {title}
+        </h3>
+      )}
+      {data.length === 0 ? (
+        <div className="py-8 text-center text-text-tertiary">No entries yet</div>
+      ) : (
+        <ul className="divide-y divide-outline-light">
+          {data.map(record => {
+            const checked = checkboxField ? record[checkboxField.name] === true : false;
+            const subtitle = subtitleField ? formatFieldValue(record[subtitleField.name]) : '';
+            return (
+              <li key={record.id} className="flex items-center gap-3 py-2">
+                {checkboxField && (
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    disabled={!onUpdate}
+                    onChange={(e) => onUpdate?.(record.id, { [checkboxField.name]: e.target.checked })}
+                    className="w-4 h-4 rounded border-outline-light"
+                    aria-label={checkboxField.label}
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={() => onSelect?.(record)}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <div className={cn(
+                    'text-sm truncate',
+                    checked ? 'text-text-tertiary line-through' : 'text-text-primary',
+                    selectedId === record.id && 'font-semibold'
+                  )}>
+                    {recordTitle(fields, record, config.titleField)}
+                  </div>
+                  {subtitle && <div className="text-xs text-text-secondary truncate">{subtitle}</div>}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+}
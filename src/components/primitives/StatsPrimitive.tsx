@@ -0,0 +1,52 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Card } from '@/components/ui';
+import type { SchemaPrimitiveProps, StatAggregation, StatsPrimitiveConfig } from '@/lib/primitives/types';
+import { aggregateField } from '@/lib/primitives/fields';
+import { applyComputedFields } from '@/lib/formulas';
+
+const AGGREGATION_LABELS: Record<StatAggregation, string> = {
+  sum: 'Total',
+  avg: 'Average',
+  count: 'Count of',
+  min: 'Lowest',
+  max: 'Highest',
+};
+
+export function StatsPrimitive({ data: rawData, fields, config, title }: SchemaPrimitiveProps<StatsPrimitiveConfig>) {
+  const data = useMemo(() => applyComputedFields(rawData, config.computedFields), [rawData, config.computedFields]);
+  const known = [...fields, ...(config.computedFields || [])];
+
+  const cards = [
+    ...(config.showCount === false ? [] : [{ label: config.countLabel || 'Entries', value: data.length }]),
+    ...config.metrics.flatMap(metric => {
+      const field = known.find(candidate => candidate.name === metric.field);
+      if (!field) return [];
+      return [{
+        label: metric.label || `${AGGREGATION_LABELS[metric.aggregation] || 'Total'} ${field.label}`,
+        value: aggregateField(data, field.name, metric.aggregation),
+      }];
+    }),
+  ];
+
+  return (
+    <div className="space-y-3">
+      {title && (
+        <h3 className="text-lg font-semibold text-text-primary">
+          {title}
+        </h3>
+      )}
+      <div className="grid gap-4 grid-cols-[repeat(auto-fit,minmax(min(160px,100%),1fr))]">
+        {cards.map(card => (
+          <Card key={card.label} variant="outlined" padding="md">
+            <div className="text-2xl font-bold text-accent-yellow">
+              {card.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+            </div>
+            <div className="text-sm text-text-secondary">{card.label}</div>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useMemo } from 'react';
 import { ArrowUpDown, ArrowUp, ArrowDown, Trash2, Search } from 'lucide-react';
 import { Card } from '@/components/ui';
 import type { DataRecord, TablePrimitiveConfig } from '@/lib/primitives/types';
+import { applyComputedFields } from '@/lib/formulas';
 import { cn } from '@/lib/utils';
 
 interface TablePrimitiveProps {
@@ -13,7 +14,11 @@ interface TablePrimitiveProps {
   onDelete?: (id: string) => void;
 }
 
-export function TablePrimitive({ data, config, onEdit, onDelete }: TablePrimitiveProps) {
+export function TablePrimitive({ data: rawData, config, onEdit, onDelete }: TablePrimitiveProps) {
+  const data = useMemo(
+    () => applyComputedFields(rawData, config.computedFields),
+    [rawData, config.computedFields]
+  );
   const [sortField, setSortField] = useState(config.defaultSort?.field || '');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>(
     config.defaultSort?.direction || 'desc'
@@ -0,0 +1,55 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Card } from '@/components/ui';
+import type { DataRecord, SchemaPrimitiveProps, TimelinePrimitiveConfig } from '@/lib/primitives/types';
+import { findField, formatFieldValue, recordTitle } from '@/lib/primitives/fields';
+import { cn } from '@/lib/utils';
+
+export function TimelinePrimitive({ data, fields, config, title, onSelect, selectedId }: SchemaPrimitiveProps<TimelinePrimitiveConfig>) {
+  const dateField = findField(fields, config.dateField, ['date', 'datetime']);
+  const descriptionField = findField(fields, config.descriptionField);
+  const order = config.order || 'desc';
+
+  const entries = useMemo(() => {
+    const dateOf = (record: DataRecord) => String((dateField && record[dateField.name]) || record.createdAt || '');
+    return data
+      .map(record => ({ record, date: dateOf(record) }))
+      .sort((a, b) => order === 'asc' ? a.date.localeCompare(b.date) : b.date.localeCompare(a.date));
+  }, [data, dateField, order]);
+
+  return (
+    <Card variant="outlined" padding="lg">
+      {title && (
+        <h3 className="text-lg font-semibold text-text-primary mb-4">
+          {title}
+        </h3>
+      )}
+      {entries.length === 0 ? (
+        <div className="py-8 text-center text-text-tertiary">No entries yet</div>
+      ) : (
+        <ol className="relative border-l border-outline-mid ml-2 space-y-4">
+          {entries.map(({ record, date }) => (
+            <li key={record.id} className="ml-4">
+              <span
+                className={cn(
+                  'absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full',
+                  selectedId === record.id ? 'bg-accent-yellow ring-2 ring-accent-yellow/40' : 'bg-accent-yellow'
+                )}
+              />
+              <button type="button" onClick={() => onSelect?.(record)} className="text-left">
+                <time dateTime={date} className="block text-xs text-text-tertiary">
+                  {dateField?.type === 'datetime' ? date.slice(0, 16).replace('T', ' ') : date.slice(0, 10)}
+                </time>
+                <div className="text-sm text-text-primary">{recordTitle(fields, record, config.titleField)}</div>
+                {descriptionField && record[descriptionField.name] !== undefined && (
+                  <div className="text-xs text-text-secondary">{formatFieldValue(record[descriptionField.name])}</div>
+                )}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </Card>
+  );
+}
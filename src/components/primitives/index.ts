@@ -1,3 +1,12 @@
 export { FormPrimitive } from './FormPrimitive';
 export { TablePrimitive } from './TablePrimitive';
 export { ChartPrimitive } from './ChartPrimitive';
+export { KanbanPrimitive } from './KanbanPrimitive';
+export { CalendarPrimitive } from './CalendarPrimitive';
+export { TimelinePrimitive } from './TimelinePrimitive';
+export { GalleryPrimitive } from './GalleryPrimitive';
+export { HeatmapPrimitive } from './HeatmapPrimitive';
+export { ListPrimitive } from './ListPrimitive';
+export { CardsPrimitive } from './CardsPrimitive';
+export { DetailPrimitive } from './DetailPrimitive';
+export { StatsPrimitive } from './StatsPrimitive';
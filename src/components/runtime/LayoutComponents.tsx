@@ -0,0 +1,413 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button, Modal } from '@/components/ui';
+import { ChartPrimitive, DetailPrimitive, StatsPrimitive, TablePrimitive } from '@/components/primitives';
+import type { ComponentConfig, ComponentType } from '@/lib/scaffolder-v2/types';
+import type {
+  ChartPrimitiveConfig,
+  FieldErrors,
+  StatAggregation,
+  StatsPrimitiveConfig,
+  TablePrimitiveConfig,
+} from '@/lib/primitives/types';
+import { cn } from '@/lib/utils';
+import { fieldProp, fieldsProp, stringProp, useBoundCollection, useLayoutState } from './LayoutContext';
+import { FieldInput } from './RecordFields';
+import {
+  CalendarView,
+  CardsView,
+  EmptyState,
+  GalleryView,
+  HeatmapView,
+  KanbanView,
+  ListView,
+  Panel,
+  TimelineView,
+  type ViewProps,
+} from './RecordViews';
+
+const DEFAULT_TITLES: Record<ComponentType, string> = {
+  form: 'Add Entry',
+  table: 'Entries',
+  chart: 'Chart',
+  cards: 'Entries',
+  kanban: 'Board',
+  calendar: 'Calendar',
+  stats: 'Overview',
+  filters: 'Filters',
+  custom: 'View',
+  heatmap: 'Activity',
+  timeline: 'Timeline',
+  gallery: 'Gallery',
+  list: 'Entries',
+  detail: 'Details',
+  'action-button': 'Add',
+  menu: 'Menu',
+  modal: 'Add',
+};
+
+/**
+ * What a component is called in its header, tabs and error messages
+ */
+export function componentTitle(config: ComponentConfig): string {
+  return stringProp(config.props, 'title')
+    || (config.type === 'custom' ? stringProp(config.props, 'name') : undefined)
+    || DEFAULT_TITLES[config.type]
+    || 'View';
+}
+
+const VIEWS: Record<ComponentType, (props: ViewProps) => JSX.Element | null> = {
+  form: FormView,
+  table: TableView,
+  chart: ChartView,
+  cards: CardsView,
+  kanban: KanbanView,
+  calendar: CalendarView,
+  stats: StatsView,
+  filters: FiltersView,
+  custom: CustomView,
+  heatmap: HeatmapView,
+  timeline: TimelineView,
+  gallery: GalleryView,
+  list: ListView,
+  detail: DetailView,
+  'action-button': ActionButtonView,
+  menu: MenuView,
+  modal: ModalView,
+};
+
+/**
+ * One component of a layout, bound to its collection's records
+ */
+export function LayoutComponent({ config }: { config: ComponentConfig }) {
+  const View = VIEWS[config.type] || CustomView;
+  return <View props={config.props || {}} title={componentTitle(config)} />;
+}
+
+// ============================================================================
+// Entry
+// ============================================================================
+
+interface RecordFormProps {
+  props: Record<string, unknown>;
+  /** Called after a record was added */
+  onDone?: () => void;
+}
+
+/**
+ * Form that adds a record to the component's collection
+ */
+function RecordForm({ props, onDone }: RecordFormProps) {
+  const { state, name, schema, keys } = useBoundCollection(props);
+  const fields = fieldsProp(props, 'fields', schema);
+  const [values, setValues] = useState<Record<string, unknown>>({});
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      const fieldErrors = await state.onCreate(name, values);
+      if (fieldErrors && Object.keys(fieldErrors).length > 0) {
+        setErrors(fieldErrors);
+        return;
+      }
+      setValues({});
+      setErrors({});
+      onDone?.();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      {fields.map(field => {
+        const key = keys.find(candidate => candidate.field === field.name);
+        return (
+          <div key={field.name}>
+            <label className="block text-sm text-gray-400 mb-1">
+              {field.label}
+              {field.required && <span className="text-red-400 ml-1">*</span>}
+            </label>
+            <FieldInput
+              field={field}
+              value={values[field.name]}
+              onChange={value => setValues(prev => ({ ...prev, [field.name]: value }))}
+              foreignKey={key}
+              targetSchema={key && state.schemas.find(candidate => candidate.name === key.target)}
+              options={key && state.records[key.target]}
+            />
+            {errors[field.name] && <p className="text-xs text-red-400 mt-1">{errors[field.name]}</p>}
+          </div>
+        );
+      })}
+      <Button type="submit" loading={isSaving}>
+        {stringProp(props, 'submitLabel') || 'Add Entry'}
+      </Button>
+    </form>
+  );
+}
+
+function FormView({ props, title }: ViewProps) {
+  const { readOnly } = useLayoutState();
+  if (readOnly) return null;
+
+  return (
+    <Panel title={title}>
+      <RecordForm props={props} />
+    </Panel>
+  );
+}
+
+/**
+ * A button that opens the collection's form in a dialog
+ */
+function FormDialogButton({ props, title, className }: ViewProps & { className?: string }) {
+  const { state, schema } = useBoundCollection(props);
+  const [isOpen, setIsOpen] = useState(false);
+  if (state.readOnly) return null;
+
+  return (
+    <>
+      <Button onClick={() => setIsOpen(true)} className={className}>
+        <Plus className="w-4 h-4 mr-1" />
+        {stringProp(props, 'label') || title}
+      </Button>
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title={`New ${schema?.label || 'entry'}`}>
+        <RecordForm props={props} onDone={() => setIsOpen(false)} />
+      </Modal>
+    </>
+  );
+}
+
+const FLOATING_POSITIONS: Record<string, string> = {
+  'bottom-right': 'bottom-6 right-6',
+  'bottom-left': 'bottom-6 left-6',
+  'top-right': 'top-6 right-6',
+  'top-left': 'top-6 left-6',
+};
+
+function ActionButtonView({ props, title }: ViewProps) {
+  const position = FLOATING_POSITIONS[stringProp(props, 'position') || ''];
+  return (
+    <FormDialogButton
+      props={props}
+      title={title}
+      className={cn(position && `fixed z-20 shadow-lg ${position}`)}
+    />
+  );
+}
+
+function ModalView({ props, title }: ViewProps) {
+  return <FormDialogButton props={props} title={title} />;
+}
+
+// ============================================================================
+// Records
+// ============================================================================
+
+function TableView({ props }: ViewProps) {
+  const { state, name, schema, rows } = useBoundCollection(props);
+  const known = [...(schema?.fields || []), ...(schema?.computedFields || [])];
+
+  const requested = Array.isArray(props.columns) ? props.columns : [];
+  const columns: TablePrimitiveConfig['columns'] = requested
+    .map(column => typeof column === 'string' ? { field: column } : (column ?? {}) as { field?: string; label?: string; sortable?: boolean })
+    .map(column => ({ column, field: known.find(candidate => candidate.name === column.field) }))
+    .filter(({ field }) => field !== undefined)
+    .map(({ column, field }) => ({
+      field: field!.name,
+      label: column.label || field!.label,
+      sortable: column.sortable ?? true,
+      filterable: field!.type === 'enum',
+    }));
+  const config: TablePrimitiveConfig = {
+    columns: columns.length > 0 ? columns : known.map(field => ({
+      field: field.name,
+      label: field.label,
+      sortable: true,
+      filterable: field.type === 'enum',
+    })),
+    defaultSort: { field: 'createdAt', direction: 'desc' },
+    computedFields: schema?.computedFields,
+  };
+
+  return (
+    <div className="space-y-2">
+      {stringProp(props, 'title') && <h2 className="text-lg font-semibold text-text-primary">{stringProp(props, 'title')}</h2>}
+      <TablePrimitive
+        data={rows}
+        config={config}
+        onDelete={state.readOnly ? undefined : id => state.onDelete(name, id)}
+      />
+    </div>
+  );
+}
+
+function ChartView({ props }: ViewProps) {
+  const { schema, records } = useBoundCollection(props);
+  const xAxis = fieldProp(props, 'xAxis', schema, ['enum', 'date', 'datetime', 'string']);
+  const yAxis = fieldProp(props, 'yAxis', schema, ['number'])
+    || schema?.computedFields?.find(field => field.name === props.yAxis);
+  const chartType = stringProp(props, 'chartType');
+  const aggregation = stringProp(props, 'aggregation');
+
+  const config: ChartPrimitiveConfig = {
+    chartType: chartType === 'line' || chartType === 'pie' || chartType === 'area' ? chartType : 'bar',
+    xAxis: xAxis?.name || 'createdAt',
+    yAxis: yAxis?.name || '',
+    groupBy: fieldProp(props, 'groupBy', schema)?.name,
+    // Without a number to add up, the chart counts records
+    aggregation: !yAxis ? 'count' : aggregation === 'count' || aggregation === 'average' ? aggregation : 'sum',
+    computedFields: schema?.computedFields,
+  };
+
+  return <ChartPrimitive data={records} config={config} title={stringProp(props, 'title')} />;
+}
+
+const AGGREGATIONS: StatAggregation[] = ['sum', 'avg', 'count', 'min', 'max'];
+
+function StatsView({ props }: ViewProps) {
+  const { schema, records } = useBoundCollection(props);
+  const metrics: StatsPrimitiveConfig['metrics'] = (Array.isArray(props.metrics) ? props.metrics : [])
+    .map(metric => (metric ?? {}) as { field?: string; label?: string; aggregation?: string })
+    .filter(metric => typeof metric.field === 'string')
+    .map(metric => {
+      const aggregation = metric.aggregation === 'average' ? 'avg' : metric.aggregation;
+      return {
+        field: metric.field as string,
+        label: metric.label,
+        aggregation: AGGREGATIONS.find(candidate => candidate === aggregation) || 'sum',
+      };
+    });
+
+  return (
+    <StatsPrimitive
+      data={records}
+      fields={schema?.fields || []}
+      config={{
+        metrics,
+        countLabel: `Total ${schema?.label || 'entries'}`,
+        computedFields: schema?.computedFields,
+      }}
+    />
+  );
+}
+
+const filterInputClassName = 'px-3 py-2 rounded-lg bg-surface-elevated border border-outline-light text-text-primary text-sm';
+
+function FiltersView({ props }: ViewProps) {
+  const { state, name, schema } = useBoundCollection(props);
+  const fields = fieldsProp(props, 'fields', schema)
+    .filter(field => ['enum', 'boolean', 'date', 'datetime'].includes(field.type));
+  const searchable = (schema?.fields || []).some(field => ['string', 'text', 'enum'].includes(field.type));
+  const filter = state.filters[name] || {};
+
+  const setValue = (field: string, value: string) =>
+    state.setFilter(name, { ...filter, values: { ...filter.values, [field]: value } });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {searchable && (
+        <input
+          type="search"
+          value={filter.search || ''}
+          onChange={event => state.setFilter(name, { ...filter, search: event.target.value })}
+          placeholder={`Search ${schema?.label || 'entries'}...`}
+          className={cn(filterInputClassName, 'flex-1 min-w-[12rem]')}
+        />
+      )}
+      {fields.map(field => {
+        const value = filter.values?.[field.name] || '';
+        if (field.type === 'date' || field.type === 'datetime') {
+          return (
+            <label key={field.name} className="flex items-center gap-2 text-sm text-text-secondary">
+              {field.label} from
+              <input type="date" value={value} onChange={event => setValue(field.name, event.target.value)} className={filterInputClassName} />
+            </label>
+          );
+        }
+        const options = field.type === 'boolean' ? ['true', 'false'] : field.options || [];
+        return (
+          <select key={field.name} value={value} onChange={event => setValue(field.name, event.target.value)} className={filterInputClassName}>
+            <option value="">All {field.label}</option>
+            {options.map(option => (
+              <option key={option} value={option}>
+                {field.type === 'boolean' ? (option === 'true' ? field.label : `Not ${field.label}`) : option}
+              </option>
+            ))}
+          </select>
+        );
+      })}
+    </div>
+  );
+}
+
+function DetailView({ props, title }: ViewProps) {
+  const { state, name, schema, rows, loaded } = useBoundCollection(props);
+  const record = rows.find(candidate => candidate.id === state.selected[name]) || rows[0];
+
+  if (!record) {
+    return <Panel title={title}><EmptyState loaded={loaded} /></Panel>;
+  }
+
+  return (
+    <DetailPrimitive
+      record={record}
+      fields={fieldsProp(props, 'fields', schema)}
+      computedFields={schema?.computedFields}
+      config={{}}
+      title={title}
+      actions={!state.readOnly && (
+        <Button variant="ghost" size="sm" onClick={() => state.onDelete(name, record.id)} title="Delete">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      )}
+    />
+  );
+}
+
+function MenuView({ props, title }: ViewProps) {
+  const state = useLayoutState();
+
+  return (
+    <Panel title={title}>
+      <nav className="flex flex-col gap-1">
+        {state.schemas.map(schema => (
+          <button
+            key={schema.name}
+            type="button"
+            disabled={!state.onSelectCollection}
+            onClick={() => state.onSelectCollection?.(schema.name)}
+            className={cn(
+              'flex items-center justify-between px-3 py-2 rounded-lg text-sm text-left',
+              schema.name === (stringProp(props, 'collection') || state.collection)
+                ? 'bg-surface-elevated text-text-primary'
+                : 'text-text-secondary hover:text-text-primary'
+            )}
+          >
+            {schema.label}
+            <span className="text-xs text-text-tertiary">{state.records[schema.name]?.length ?? ''}</span>
+          </button>
+        ))}
+      </nav>
+    </Panel>
+  );
+}
+
+/**
+ * Custom components need their generated code, so without it they list the records they'd show
+ */
+function CustomView({ props, title }: ViewProps) {
+  const description = stringProp(props, 'description');
+  return (
+    <div className="space-y-2">
+      {description && <p className="text-sm text-text-secondary">{description}</p>}
+      <ListView props={props} title={title} />
+    </div>
+  );
+}
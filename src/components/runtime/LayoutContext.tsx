@@ -0,0 +1,130 @@
+'use client';
+
+import { createContext, useContext, useMemo } from 'react';
+import type { FieldDefinition, FieldType, Schema } from '@/lib/scaffolder-v2/types';
+import type { DataRecord, FieldErrors } from '@/lib/primitives/types';
+import type { ForeignKey } from '@/lib/app-data/relations';
+import { filterRecords, type LayoutFilter } from '@/lib/scaffolder-v2/layout';
+import { recordLabel } from './RecordFields';
+
+/**
+ * The app data a layout's components read and write
+ */
+export interface LayoutDataBinding {
+  /** Every collection of the app, primary schema first */
+  schemas: Schema[];
+  foreignKeys: ForeignKey[];
+  /** Records loaded so far, keyed by collection */
+  records: Record<string, DataRecord[]>;
+  /** Collection for components that don't name one */
+  collection: string;
+  /** Viewers get no forms, buttons or drag and drop */
+  readOnly?: boolean;
+  onCreate: (collection: string, values: Record<string, unknown>) => Promise<FieldErrors | void>;
+  onUpdate: (collection: string, id: string, changes: Record<string, unknown>) => Promise<FieldErrors | void>;
+  onDelete: (collection: string, id: string) => Promise<void>;
+  /** Lets a `menu` component switch the default collection */
+  onSelectCollection?: (collection: string) => void;
+}
+
+interface LayoutState extends LayoutDataBinding {
+  filters: Record<string, LayoutFilter>;
+  setFilter: (collection: string, filter: LayoutFilter) => void;
+  /** Record picked in a list, cards or calendar, shown by `detail` components */
+  selected: Record<string, string | undefined>;
+  select: (collection: string, id: string | undefined) => void;
+}
+
+export const LayoutContext = createContext<LayoutState | null>(null);
+
+export function useLayoutState(): LayoutState {
+  const state = useContext(LayoutContext);
+  if (!state) {
+    throw new Error('Layout components must be rendered inside a LayoutRenderer');
+  }
+  return state;
+}
+
+/**
+ * The collection a component is bound to, with its records narrowed by any
+ * `filters` component bound to the same collection
+ */
+export function useBoundCollection(props: Record<string, unknown>) {
+  const state = useLayoutState();
+  const requested = stringProp(props, 'collection') || stringProp(props, 'schemaRef');
+  const schema = state.schemas.find(candidate => candidate.name === requested)
+    || state.schemas.find(candidate => candidate.name === state.collection)
+    || state.schemas[0];
+  const name = schema?.name || state.collection;
+  const all = state.records[name];
+  const filter = state.filters[name];
+
+  const records = useMemo(
+    () => filterRecords(all || [], schema?.fields || [], filter),
+    [all, schema, filter]
+  );
+
+  const keys = state.foreignKeys.filter(key => key.collection === name);
+
+  /** A value as text, showing related records by their label */
+  const display = (fieldName: string, value: unknown): string => {
+    const key = keys.find(candidate => candidate.field === fieldName);
+    if (key) {
+      const target = state.schemas.find(candidate => candidate.name === key.target);
+      return [value].flat().filter(Boolean).map(id => {
+        const related = (state.records[key.target] || []).find(record => record.id === id);
+        return related ? recordLabel(target, related) : String(id);
+      }).join(', ');
+    }
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'boolean') return value ? '✓' : '✗';
+    if (typeof value === 'number') return value.toLocaleString();
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  };
+
+  // Related records show by their label rather than their id
+  const rows: DataRecord[] = keys.length === 0 ? records : records.map(record => ({
+    ...record,
+    ...Object.fromEntries(keys.map(key => [key.field, display(key.field, record[key.field])])),
+  }));
+
+  return { state, name, schema, records, rows, loaded: all !== undefined, keys, display };
+}
+
+// ============================================================================
+// Props
+// ============================================================================
+
+export function stringProp(props: Record<string, unknown>, key: string): string | undefined {
+  const value = props[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Fields named by a prop holding field names, or every user-editable field
+ */
+export function fieldsProp(props: Record<string, unknown>, key: string, schema: Schema | undefined): FieldDefinition[] {
+  const fields = (schema?.fields || []).filter(field => !field.generated);
+  const names = props[key];
+  if (!Array.isArray(names)) return fields;
+
+  const picked = names
+    .map(name => fields.find(field => field.name === (typeof name === 'string' ? name : (name as { field?: string })?.field)))
+    .filter((field): field is FieldDefinition => field !== undefined);
+  return picked.length > 0 ? picked : fields;
+}
+
+/**
+ * The field a prop names, or the first field of one of the given types
+ */
+export function fieldProp(
+  props: Record<string, unknown>,
+  key: string,
+  schema: Schema | undefined,
+  types?: FieldType[]
+): FieldDefinition | undefined {
+  const fields = schema?.fields || [];
+  const name = stringProp(props, key);
+  return fields.find(field => field.name === name)
+    || (types ? fields.find(field => !field.generated && types.includes(field.type)) : undefined);
+}
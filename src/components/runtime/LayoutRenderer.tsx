@@ -0,0 +1,210 @@
+'use client';
+
+import { Component, useCallback, useEffect, useState, type ReactNode } from 'react';
+import { ChevronDown } from 'lucide-react';
+import type { LayoutNode } from '@/lib/scaffolder-v2/types';
+import {
+  breakpointFor,
+  resolveArrangement,
+  sizingStyle,
+  type Arrangement,
+  type Breakpoint,
+  type LayoutFilter,
+} from '@/lib/scaffolder-v2/layout';
+import { cn } from '@/lib/utils';
+import { LayoutContext, type LayoutDataBinding } from './LayoutContext';
+import { LayoutComponent, componentTitle } from './LayoutComponents';
+
+interface LayoutRendererProps extends LayoutDataBinding {
+  layout: LayoutNode;
+}
+
+/**
+ * Render a V2 app from its layout definition, with every component bound to
+ * the app's live data
+ */
+export function LayoutRenderer({ layout, ...binding }: LayoutRendererProps) {
+  const breakpoint = useBreakpoint();
+  const [filters, setFilters] = useState<Record<string, LayoutFilter>>({});
+  const [selected, setSelected] = useState<Record<string, string | undefined>>({});
+
+  const setFilter = useCallback((collection: string, filter: LayoutFilter) => {
+    setFilters(prev => ({ ...prev, [collection]: filter }));
+  }, []);
+
+  const select = useCallback((collection: string, id: string | undefined) => {
+    setSelected(prev => ({ ...prev, [collection]: id }));
+  }, []);
+
+  return (
+    <LayoutContext.Provider value={{ ...binding, filters, setFilter, selected, select }}>
+      <LayoutNodeView node={layout} breakpoint={breakpoint} />
+    </LayoutContext.Provider>
+  );
+}
+
+interface LayoutNodeViewProps {
+  node: LayoutNode;
+  breakpoint: Breakpoint;
+}
+
+function LayoutNodeView({ node, breakpoint }: LayoutNodeViewProps) {
+  if (node.type === 'component' && node.component) {
+    return (
+      <ComponentBoundary title={componentTitle(node.component)}>
+        <LayoutComponent config={node.component} />
+      </ComponentBoundary>
+    );
+  }
+
+  if (node.type !== 'container' || !node.container) return null;
+
+  const { children, gap = '1rem', padding } = node.container;
+  const arrangement = resolveArrangement(node.container, breakpoint);
+
+  if (arrangement === 'tabs' || arrangement === 'collapse') {
+    const Sections = arrangement === 'tabs' ? TabbedChildren : CollapsibleChildren;
+    return (
+      <div className={node.className} style={{ padding }}>
+        <Sections nodes={children} breakpoint={breakpoint} gap={gap} />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn(arrangementClassName[arrangement], node.className)} style={{ gap, padding }}>
+      {children.map(child => (
+        <div key={child.id} style={childStyle(child, arrangement)}>
+          <LayoutNodeView node={child} breakpoint={breakpoint} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const arrangementClassName: Record<Exclude<Arrangement, 'tabs' | 'collapse'>, string> = {
+  row: 'flex flex-row items-start',
+  column: 'flex flex-col',
+  grid: 'grid grid-cols-[repeat(auto-fit,minmax(min(280px,100%),1fr))]',
+  scroll: 'flex flex-row items-start overflow-x-auto',
+};
+
+/**
+ * Sizing plus sticky positioning and order for a container's child
+ */
+function childStyle(node: LayoutNode, arrangement: Arrangement): React.CSSProperties {
+  const position = node.component?.position;
+  return {
+    ...sizingStyle(node.sizing, arrangement),
+    ...(position?.order !== undefined && { order: position.order }),
+    ...(position?.sticky && { position: 'sticky', top: 0, zIndex: 10, alignSelf: 'flex-start' }),
+  };
+}
+
+/**
+ * What a tab or section is called: its component's title, or the first one inside it
+ */
+function nodeTitle(node: LayoutNode): string {
+  if (node.component) return componentTitle(node.component);
+  const first = node.container?.children.find(child => child.component || child.container);
+  return first ? nodeTitle(first) : 'Section';
+}
+
+interface SectionsProps {
+  nodes: LayoutNode[];
+  breakpoint: Breakpoint;
+  gap: string;
+}
+
+function TabbedChildren({ nodes, breakpoint, gap }: SectionsProps) {
+  const [active, setActive] = useState(0);
+  const current = nodes[Math.min(active, nodes.length - 1)];
+
+  return (
+    <div className="flex flex-col" style={{ gap }}>
+      <div className="flex gap-2 border-b border-outline-mid overflow-x-auto">
+        {nodes.map((node, index) => (
+          <button
+            key={node.id}
+            type="button"
+            onClick={() => setActive(index)}
+            className={cn(
+              'px-4 py-2 text-sm border-b-2 -mb-px whitespace-nowrap',
+              node === current
+                ? 'border-accent-yellow text-text-primary'
+                : 'border-transparent text-text-secondary hover:text-text-primary'
+            )}
+          >
+            {nodeTitle(node)}
+          </button>
+        ))}
+      </div>
+      {current && <LayoutNodeView node={current} breakpoint={breakpoint} />}
+    </div>
+  );
+}
+
+function CollapsibleChildren({ nodes, breakpoint, gap }: SectionsProps) {
+  return (
+    <div className="flex flex-col" style={{ gap }}>
+      {nodes.map((node, index) => (
+        <details key={node.id} open={index === 0} className="group rounded-xl border border-outline-light">
+          <summary className="flex items-center justify-between px-4 py-3 cursor-pointer text-sm font-medium text-text-primary list-none">
+            {nodeTitle(node)}
+            <ChevronDown className="w-4 h-4 text-text-secondary transition-transform group-open:rotate-180" />
+          </summary>
+          <div className="p-4 pt-0">
+            <LayoutNodeView node={node} breakpoint={breakpoint} />
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * The breakpoint of the current viewport. Server renders assume desktop.
+ */
+function useBreakpoint(): Breakpoint {
+  const [breakpoint, setBreakpoint] = useState<Breakpoint>('desktop');
+
+  useEffect(() => {
+    const update = () => setBreakpoint(breakpointFor(window.innerWidth));
+    update();
+    window.addEventListener('resize', update);
+    return () => window.removeEventListener('resize', update);
+  }, []);
+
+  return breakpoint;
+}
+
+interface ComponentBoundaryProps {
+  title: string;
+  children: ReactNode;
+}
+
+/**
+ * Keeps a component that throws from taking the rest of the app down
+ */
+class ComponentBoundary extends Component<ComponentBoundaryProps, { error: Error | null }> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  componentDidCatch(error: Error) {
+    console.error(`Layout component "${this.props.title}" failed to render:`, error);
+  }
+
+  render() {
+    if (this.state.error) {
+      return (
+        <div className="p-4 rounded-xl border border-dashed border-outline-mid text-sm text-text-secondary">
+          {this.props.title} couldn&apos;t be shown.
+        </div>
+      );
+    }
+    return this.props.children;
+  }
+}
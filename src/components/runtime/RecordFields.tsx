@@ -0,0 +1,140 @@
+'use client';
+
+import type { FieldDefinition, Schema } from '@/lib/scaffolder-v2/types';
+import type { DataRecord } from '@/lib/primitives/types';
+import type { ForeignKey } from '@/lib/app-data/relations';
+
+const inputClassName = 'w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded text-text-primary';
+
+/**
+ * A readable label for a record: its first text field, falling back to the id
+ */
+export function recordLabel(schema: Schema | undefined, record: DataRecord): string {
+  const field = schema?.fields.find(candidate =>
+    ['string', 'text', 'enum'].includes(candidate.type) && typeof record[candidate.name] === 'string' && record[candidate.name]
+  );
+  return field ? String(record[field.name]) : record.id;
+}
+
+interface RelationPickerProps {
+  foreignKey: ForeignKey;
+  schema?: Schema;
+  options: DataRecord[];
+  value: unknown;
+  required?: boolean;
+  onChange: (value: string | string[] | null) => void;
+}
+
+/**
+ * Select input for a foreign key field, listing the records it can point to
+ */
+export function RelationPicker({ foreignKey, schema, options, value, required, onChange }: RelationPickerProps) {
+  if (foreignKey.many) {
+    return (
+      <select
+        multiple
+        value={Array.isArray(value) ? value.map(String) : []}
+        onChange={(e) => onChange(Array.from(e.target.selectedOptions).map(option => option.value))}
+        className={inputClassName}
+        required={required}
+      >
+        {options.map(option => (
+          <option key={option.id} value={option.id}>{recordLabel(schema, option)}</option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <select
+      value={typeof value === 'string' ? value : ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      className={inputClassName}
+      required={required}
+    >
+      <option value="">Select {schema?.label || foreignKey.target}...</option>
+      {options.map(option => (
+        <option key={option.id} value={option.id}>{recordLabel(schema, option)}</option>
+      ))}
+    </select>
+  );
+}
+
+interface FieldInputProps {
+  field: FieldDefinition;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  /** Set for foreign key fields, which render as a picker over `options` */
+  foreignKey?: ForeignKey;
+  targetSchema?: Schema;
+  options?: DataRecord[];
+}
+
+/**
+ * Input for one field of a V2 schema
+ */
+export function FieldInput({ field, value, onChange, foreignKey, targetSchema, options = [] }: FieldInputProps) {
+  if (foreignKey) {
+    return (
+      <RelationPicker
+        foreignKey={foreignKey}
+        schema={targetSchema}
+        options={options}
+        value={value}
+        required={field.required}
+        onChange={onChange}
+      />
+    );
+  }
+
+  if (field.type === 'enum') {
+    return (
+      <select
+        value={typeof value === 'string' ? value : ''}
+        onChange={(e) => onChange(e.target.value)}
+        className={inputClassName}
+        required={field.required}
+      >
+        <option value="">Select...</option>
+        {(field.options || []).map(option => (
+          <option key={option} value={option}>{option}</option>
+        ))}
+      </select>
+    );
+  }
+
+  if (field.type === 'text') {
+    return (
+      <textarea
+        value={typeof value === 'string' ? value : ''}
+        onChange={(e) => onChange(e.target.value)}
+        className={inputClassName}
+        placeholder={field.placeholder}
+        required={field.required}
+        rows={3}
+      />
+    );
+  }
+
+  if (field.type === 'boolean') {
+    return (
+      <input
+        type="checkbox"
+        checked={value === true}
+        onChange={(e) => onChange(e.target.checked)}
+        className="w-5 h-5 rounded border-gray-700 bg-gray-800"
+      />
+    );
+  }
+
+  return (
+    <input
+      type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : field.type === 'datetime' ? 'datetime-local' : 'text'}
+      value={value === undefined || value === null ? '' : String(value)}
+      onChange={(e) => onChange(field.type === 'number' ? Number(e.target.value) : e.target.value)}
+      className={inputClassName}
+      placeholder={field.placeholder}
+      required={field.required}
+    />
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { Card } from '@/components/ui';
+import {
+  CalendarPrimitive,
+  CardsPrimitive,
+  GalleryPrimitive,
+  HeatmapPrimitive,
+  KanbanPrimitive,
+  ListPrimitive,
+  TimelinePrimitive,
+} from '@/components/primitives';
+import type { HeatmapRange } from '@/lib/primitives/types';
+import { HEATMAP_DAYS } from '@/lib/primitives/fields';
+import { fieldProp, stringProp, useBoundCollection } from './LayoutContext';
+
+export interface ViewProps {
+  props: Record<string, unknown>;
+  title: string;
+}
+
+/**
+ * Card frame shared by layout components
+ */
+export function Panel({ title, actions, children, className }: {
+  title?: string;
+  actions?: ReactNode;
+  children: ReactNode;
+  className?: string;
+}) {
+  return (
+    <Card variant="outlined" padding="md" className={className}>
+      {(title || actions) && (
+        <div className="flex items-center justify-between gap-2 mb-4">
+          {title && <h2 className="text-lg font-semibold text-text-primary">{title}</h2>}
+          {actions}
+        </div>
+      )}
+      {children}
+    </Card>
+  );
+}
+
+export function EmptyState({ loaded = true }: { loaded?: boolean }) {
+  return (
+    <div className="py-8 text-center text-sm text-text-tertiary">
+      {loaded ? 'No entries yet' : 'Loading…'}
+    </div>
+  );
+}
+
+/**
+ * What every record view gets from its collection: display rows, the schema's
+ * fields, selection and, unless read-only, updates
+ */
+function useRecordView(props: Record<string, unknown>) {
+  const { state, name, schema, rows, loaded } = useBoundCollection(props);
+  return {
+    schema,
+    loaded,
+    shared: {
+      data: rows,
+      fields: schema?.fields || [],
+      onSelect: (record: { id: string }) => state.select(name, record.id),
+      selectedId: state.selected[name],
+    },
+    onUpdate: state.readOnly
+      ? undefined
+      : (id: string, changes: Record<string, unknown>) => { void state.onUpdate(name, id, changes); },
+  };
+}
+
+// ============================================================================
+// Lists
+// ============================================================================
+
+export function CardsView({ props, title }: ViewProps) {
+  const { loaded, shared } = useRecordView(props);
+  if (!loaded) return <Panel title={title}><EmptyState loaded={false} /></Panel>;
+
+  const fields = Array.isArray(props.fields) ? props.fields.filter((field): field is string => typeof field === 'string') : [];
+  return (
+    <CardsPrimitive
+      {...shared}
+      title={title}
+      config={{
+        titleField: stringProp(props, 'titleField'),
+        subtitleField: stringProp(props, 'subtitleField') || stringProp(props, 'descriptionField'),
+        fields: fields.length > 0 ? fields : undefined,
+      }}
+    />
+  );
+}
+
+export function ListView({ props, title }: ViewProps) {
+  const { schema, loaded, shared, onUpdate } = useRecordView(props);
+  if (!loaded) return <Panel title={title}><EmptyState loaded={false} /></Panel>;
+
+  const checkbox = props.showCheckbox === false
+    ? undefined
+    : fieldProp(props, 'checkboxField', schema, props.showCheckbox ? ['boolean'] : []);
+  return (
+    <ListPrimitive
+      {...shared}
+      title={title}
+      onUpdate={onUpdate}
+      config={{
+        titleField: stringProp(props, 'titleField'),
+        subtitleField: stringProp(props, 'subtitleField') || stringProp(props, 'descriptionField'),
+        checkboxField: checkbox?.name,
+      }}
+    />
+  );
+}
+
+export function GalleryView({ props, title }: ViewProps) {
+  const { loaded, shared } = useRecordView(props);
+  if (!loaded) return <Panel title={title}><EmptyState loaded={false} /></Panel>;
+
+  return (
+    <GalleryPrimitive
+      {...shared}
+      title={title}
+      config={{
+        imageField: stringProp(props, 'imageField'),
+        titleField: stringProp(props, 'titleField'),
+        columns: typeof props.columns === 'number' && props.columns > 0 ? props.columns : undefined,
+      }}
+    />
+  );
+}
+
+// ============================================================================
+// Boards and time
+// ============================================================================
+
+export function KanbanView({ props, title }: ViewProps) {
+  const { schema, loaded, shared, onUpdate } = useRecordView(props);
+  const groupField = fieldProp(props, 'groupBy', schema)
+    || fieldProp(props, 'columnField', schema)
+    || fieldProp(props, 'statusField', schema, ['enum']);
+
+  // Without an option field there are no columns to sort records into
+  if (!groupField) return <ListView props={props} title={title} />;
+  if (!loaded) return <Panel title={title}><EmptyState loaded={false} /></Panel>;
+
+  return (
+    <KanbanPrimitive
+      {...shared}
+      title={title}
+      onUpdate={onUpdate}
+      config={{
+        groupBy: groupField.name,
+        titleField: stringProp(props, 'titleField'),
+        subtitleField: stringProp(props, 'subtitleField') || stringProp(props, 'descriptionField'),
+      }}
+    />
+  );
+}
+
+export function CalendarView({ props, title }: ViewProps) {
+  const { schema, shared } = useRecordView(props);
+  const dateField = fieldProp(props, 'dateField', schema, ['date', 'datetime']);
+  if (!dateField) return <ListView props={props} title={title} />;
+
+  return (
+    <CalendarPrimitive
+      {...shared}
+      title={title}
+      config={{
+        dateField: dateField.name,
+        titleField: stringProp(props, 'titleField'),
+        weekStartsOn: props.weekStartsOn === 0 ? 0 : 1,
+      }}
+    />
+  );
+}
+
+export function TimelineView({ props, title }: ViewProps) {
+  const { loaded, shared } = useRecordView(props);
+  if (!loaded) return <Panel title={title}><EmptyState loaded={false} /></Panel>;
+
+  return (
+    <TimelinePrimitive
+      {...shared}
+      title={title}
+      config={{
+        dateField: stringProp(props, 'dateField'),
+        titleField: stringProp(props, 'titleField'),
+        descriptionField: stringProp(props, 'descriptionField') || stringProp(props, 'subtitleField'),
+        order: props.order === 'asc' ? 'asc' : 'desc',
+      }}
+    />
+  );
+}
+
+export function HeatmapView({ props, title }: ViewProps) {
+  const { shared } = useRecordView(props);
+  const timeRange = stringProp(props, 'timeRange');
+
+  return (
+    <HeatmapPrimitive
+      {...shared}
+      title={title}
+      config={{
+        dateField: stringProp(props, 'dateField'),
+        valueField: stringProp(props, 'valueField'),
+        timeRange: timeRange && timeRange in HEATMAP_DAYS ? timeRange as HeatmapRange : undefined,
+      }}
+    />
+  );
+}
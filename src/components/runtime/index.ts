@@ -2,3 +2,7 @@
  * Runtime Components
  * Components for executing AI-generated applications
  */
+
+export { LayoutRenderer } from './LayoutRenderer';
+export { FieldInput, RelationPicker, recordLabel } from './RecordFields';
+export type { LayoutDataBinding } from './LayoutContext';
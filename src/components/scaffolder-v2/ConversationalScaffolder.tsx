@@ -16,6 +16,7 @@ import { useSession } from 'next-auth/react';
 import { LivePreview } from './LivePreview';
 import { ProposalSelector } from './ProposalSelector';
 import { DebugPanel } from './DebugPanel';
+import { isEntitlementErrorBody } from '@/lib/entitlements/types';
 import type { 
   Message, 
   ConversationState,
@@ -170,12 +171,26 @@ export function ConversationalScaffolderV2({ className = '' }: ConversationalSca
         }),
       });
 
+      const data = await response.json().catch(() => ({}));
+
+      if (isEntitlementErrorBody(data)) {
+        // Plan limit reached: show why instead of suggesting a retry
+        setMessages(prev => [
+          ...prev,
+          {
+            id: Date.now().toString(),
+            role: 'system',
+            content: data.error,
+            timestamp: new Date(),
+          },
+        ]);
+        return;
+      }
+
       if (!response.ok) {
         throw new Error('Failed to finalize app');
       }
 
-      const data = await response.json();
-
       if (data.success && data.appUrl) {
         // Navigate to the new app
         window.location.href = data.appUrl;
@@ -4,11 +4,12 @@ import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { LivePreview } from './LivePreview';
 import { CodeEditor } from './CodeEditor';
 import { AgentTimeline, type AgentActivity, type PipelineAgent, type AgentOutput } from './AgentTimeline';
-import { Button, ThemeToggle, ChatInput, ChatMessage } from '@/components/ui';
+import { Button, ThemeToggle, ChatInput, ChatMessage, toastUpgrade } from '@/components/ui';
 import { WelcomeScreen } from './WelcomeScreen';
 import { Terminal, Rocket, CheckCircle, Sparkles, Zap, ChevronDown, ChevronRight, Lightbulb, Scale, Code, Eye, PanelLeft, PanelLeftClose, Loader2, Target } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn, generateId } from '@/lib/utils';
+import { isEntitlementErrorBody } from '@/lib/entitlements/types';
 
 // CodeFile interface for generated code
 interface CodeFile {
@@ -534,6 +535,18 @@ export function FreeformCreator({ onComplete, onCancel, initialConversationId, i
         });
 
         toast.success('App built successfully!');
+      } else if (isEntitlementErrorBody(data)) {
+        // Plan limit reached: say so instead of suggesting a retry
+        toastUpgrade(data, data.error);
+        setPhase('chatting');
+        setMessages(prev => {
+          const updated = [...prev];
+          updated[updated.length - 1] = {
+            ...updated[updated.length - 1],
+            content: data.error,
+          };
+          return updated;
+        });
       } else {
         throw new Error(data.error || 'Build failed');
       }
@@ -556,6 +569,25 @@ export function FreeformCreator({ onComplete, onCancel, initialConversationId, i
     }
   }, [isBuilding]); // Using conversationIdRef instead of state
 
+  // Saved edits become a new version of the app, and the preview reloads from it
+  const handleCodeSave = useCallback(async (path: string, code: string) => {
+    if (!generatedAppId) return;
+    try {
+      const response = await fetch(`/api/apps/${generatedAppId}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ files: { [path]: code }, summary: `Edited ${path}` }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to save changes');
+      }
+      toast.success(`Saved ${path}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save changes');
+    }
+  }, [generatedAppId]);
+
   const handleAccept = useCallback(() => {
     if (generatedAppId) {
       onComplete?.(generatedAppId, generatedSubdomain || undefined);
@@ -1004,10 +1036,7 @@ export function FreeformCreator({ onComplete, onCancel, initialConversationId, i
                         useV2={false}
                         height="h-[500px]"
                         editable={true}
-                        onCodeChange={(path, code) => {
-                          console.log('Code changed:', path);
-                          // TODO: Optionally trigger preview refresh
-                        }}
+                        onCodeChange={handleCodeSave}
                       />
                       <LivePreview 
                         appId={generatedAppId} 
@@ -0,0 +1,307 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, RefreshCw, KeyRound, Plus, FileJson, AlertCircle } from 'lucide-react';
+import { Button, CodeBlock } from '@/components/ui';
+import { formatDate } from '@/lib/utils';
+
+interface ApiTokenRow {
+  id: string;
+  name: string;
+  prefix: string;
+  scope: 'read' | 'write';
+  appIds: string[] | null;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+interface AppOption {
+  id: string;
+  name: string;
+}
+
+const inputClassName = 'w-full px-3 py-2 rounded-lg border border-outline-light bg-surface-light text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-yellow/50';
+
+const EXPIRY_OPTIONS = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Never', days: null },
+];
+
+export function ApiTokensSettings() {
+  const [tokens, setTokens] = useState<ApiTokenRow[]>([]);
+  const [apps, setApps] = useState<AppOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<'read' | 'write'>('read');
+  const [allApps, setAllApps] = useState(true);
+  const [selectedApps, setSelectedApps] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [isCreating, setIsCreating] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const loadTokens = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [tokensResponse, appsResponse] = await Promise.all([
+        fetch('/api/settings/api-tokens'),
+        fetch('/api/apps'),
+      ]);
+      const tokensData = await tokensResponse.json().catch(() => ({}));
+      if (!tokensResponse.ok) throw new Error(tokensData.error || 'Failed to load API tokens');
+      const appsData = await appsResponse.json().catch(() => ({}));
+      setTokens(tokensData.tokens || []);
+      setApps(appsData.apps || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API tokens');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTokens();
+  }, []);
+
+  const toggleApp = (appId: string) => {
+    setSelectedApps(prev => prev.includes(appId) ? prev.filter(id => id !== appId) : [...prev, appId]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    if (!allApps && selectedApps.length === 0) {
+      setFormError('Choose at least one app, or allow all apps.');
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/settings/api-tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scope,
+          ...(!allApps && { appIds: selectedApps }),
+          ...(expiresInDays && { expiresInDays }),
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to create API token');
+
+      setCreatedToken(data.token);
+      setTokens(prev => [data.apiToken, ...prev]);
+      setName('');
+      setSelectedApps([]);
+      setAllApps(true);
+    } catch (err) {
+      setFormError((err as Error).message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (tokenId: string) => {
+    setRevoking(tokenId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/settings/api-tokens/${tokenId}`, { method: 'DELETE' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to revoke API token');
+      setTokens(prev => prev.filter(token => token.id !== tokenId));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const appNames = (appIds: string[] | null) => {
+    if (!appIds) return 'All apps';
+    return appIds.map(id => apps.find(app => app.id === id)?.name || id).join(', ');
+  };
+
+  if (isLoading && tokens.length === 0 && !error) {
+    return (
+      <div className="flex items-center justify-center p-12 text-text-secondary">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" />
+        Loading API tokens...
+      </div>
+    );
+  }
+
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  const exampleApp = apps[0]?.id || '<appId>';
+
+  return (
+    <div className="p-6 space-y-8">
+      <div className="flex items-start justify-between">
+        <div className="space-y-1">
+          <h2 className="text-xl font-serif font-medium text-text-primary leading-tight">
+            API Tokens
+          </h2>
+          <p className="text-sm text-text-secondary">
+            Let scripts, shortcuts and scheduled jobs read and write your apps&apos; data.
+          </p>
+        </div>
+        <Button onClick={loadTokens} variant="secondary" size="sm" disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 rounded-lg text-sm bg-red-500/20 text-red-400 border border-red-500/30">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      <section className="space-y-3">
+        <div className="flex items-center gap-2 font-medium text-text-primary">
+          <Plus className="w-5 h-5 text-accent-yellow" />
+          New token
+        </div>
+
+        {createdToken && (
+          <div className="space-y-2 p-4 rounded-lg border border-green-500/30 bg-green-500/10">
+            <p className="text-sm text-green-400">
+              Copy your token now. You won&apos;t be able to see it again.
+            </p>
+            <CodeBlock code={createdToken} language="token" />
+            <Button onClick={() => setCreatedToken(null)} variant="ghost" size="sm">Done</Button>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="grid gap-3 max-w-md">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClassName}
+            placeholder="Name, e.g. Habit tracker shortcut"
+            maxLength={100}
+            required
+          />
+          <div className="flex gap-4 text-sm text-text-primary">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={scope === 'read'} onChange={() => setScope('read')} />
+              Read only
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={scope === 'write'} onChange={() => setScope('write')} />
+              Read and write
+            </label>
+          </div>
+          <div className="space-y-2 text-sm text-text-primary">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={allApps} onChange={(e) => setAllApps(e.target.checked)} />
+              All my apps
+            </label>
+            {!allApps && (
+              <div className="pl-6 space-y-1 max-h-40 overflow-y-auto">
+                {apps.length === 0 && <p className="text-text-secondary">You have no apps yet.</p>}
+                {apps.map(app => (
+                  <label key={app.id} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedApps.includes(app.id)}
+                      onChange={() => toggleApp(app.id)}
+                    />
+                    {app.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          <select
+            value={expiresInDays ?? ''}
+            onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+            className={inputClassName}
+            aria-label="Expires after"
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.label} value={option.days ?? ''}>Expires after {option.label.toLowerCase()}</option>
+            ))}
+          </select>
+          {formError && <p className="text-sm text-red-400">{formError}</p>}
+          <div>
+            <Button type="submit" size="sm" disabled={isCreating}>
+              {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Create token'}
+            </Button>
+          </div>
+        </form>
+      </section>
+
+      <section className="space-y-3">
+        <div className="flex items-center gap-2 font-medium text-text-primary">
+          <KeyRound className="w-5 h-5 text-text-secondary" />
+          Your tokens
+        </div>
+        {tokens.length === 0 ? (
+          <p className="text-sm text-text-secondary">No API tokens yet.</p>
+        ) : (
+          <ul className="divide-y divide-outline-light">
+            {tokens.map(token => (
+              <li key={token.id} className="py-3 flex items-center justify-between gap-4">
+                <div className="text-sm">
+                  <div className="text-text-primary">
+                    {token.name}
+                    <span className="ml-2 font-mono text-xs text-text-secondary">{token.prefix}…</span>
+                    <span className="ml-2 text-xs text-accent-yellow">{token.scope === 'write' ? 'Read and write' : 'Read only'}</span>
+                  </div>
+                  <div className="text-text-secondary">
+                    {appNames(token.appIds)} · {token.lastUsedAt ? `Last used ${formatDate(token.lastUsedAt)}` : 'Never used'}
+                    {' · '}
+                    {token.expiresAt ? `Expires ${formatDate(token.expiresAt)}` : 'Never expires'}
+                  </div>
+                </div>
+                <Button onClick={() => handleRevoke(token.id)} variant="ghost" size="sm" disabled={revoking === token.id}>
+                  {revoking === token.id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Revoke'}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <div className="flex items-center gap-2 font-medium text-text-primary">
+          <FileJson className="w-5 h-5 text-text-secondary" />
+          Using the API
+        </div>
+        <p className="text-sm text-text-secondary">
+          Send the token as a bearer token. Each app describes its endpoints and record fields in an OpenAPI document.
+        </p>
+        <CodeBlock
+          language="shell"
+          code={`curl -H "Authorization: Bearer $TOKEN" ${origin}/api/apps/${exampleApp}/data\n\ncurl -X POST -H "Authorization: Bearer $TOKEN" -H "Content-Type: application/json" \\\n  -d '{"title": "Example"}' ${origin}/api/apps/${exampleApp}/data`}
+        />
+        {apps.length > 0 && (
+          <ul className="text-sm space-y-1">
+            {apps.map(app => (
+              <li key={app.id}>
+                <a
+                  href={`/api/apps/${app.id}/openapi`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-accent-yellow hover:underline"
+                >
+                  {app.name} OpenAPI document
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
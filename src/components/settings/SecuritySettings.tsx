@@ -0,0 +1,346 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, RefreshCw, Mail, KeyRound, MonitorSmartphone, CheckCircle, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { formatDate, formatTime } from '@/lib/utils';
+
+interface SessionRow {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  current: boolean;
+}
+
+interface SecurityState {
+  email: string;
+  emailVerified: string | null;
+  hasPassword: boolean;
+  linkedProviders: string[];
+  sessions: SessionRow[];
+}
+
+type Notice = { type: 'success' | 'error'; text: string } | null;
+
+const inputClassName = 'w-full px-3 py-2 rounded-lg border border-outline-light bg-surface-light text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-yellow/50';
+
+/**
+ * Short label for a session's browser and OS, e.g. "Firefox on macOS"
+ */
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+  return os ? `${browser} on ${os}` : browser;
+}
+
+function NoticeBanner({ notice }: { notice: Notice }) {
+  if (!notice) return null;
+  return (
+    <div className={`flex items-center gap-2 p-3 rounded-lg text-sm ${
+      notice.type === 'success'
+        ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+        : 'bg-red-500/20 text-red-400 border border-red-500/30'
+    }`}>
+      {notice.type === 'success' ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+      {notice.text}
+    </div>
+  );
+}
+
+export function SecuritySettings() {
+  const [security, setSecurity] = useState<SecurityState | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [emailNotice, setEmailNotice] = useState<Notice>(null);
+  const [passwordNotice, setPasswordNotice] = useState<Notice>(null);
+  const [sessionNotice, setSessionNotice] = useState<Notice>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  const loadSecurity = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/settings/security');
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to load security settings');
+      setSecurity(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load security settings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSecurity();
+  }, []);
+
+  /** POST/DELETE helper: returns the response body, or throws with its error */
+  const send = async (url: string, method: 'POST' | 'DELETE', body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || 'Request failed');
+    return data;
+  };
+
+  const handleResendVerification = async () => {
+    setBusy('verification');
+    setEmailNotice(null);
+    try {
+      await send('/api/settings/security/verification', 'POST');
+      setEmailNotice({ type: 'success', text: `Verification link sent to ${security?.email}.` });
+    } catch (err) {
+      setEmailNotice({ type: 'error', text: (err as Error).message });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordNotice(null);
+
+    if (newPassword !== confirmPassword) {
+      setPasswordNotice({ type: 'error', text: 'New passwords do not match.' });
+      return;
+    }
+
+    setBusy('password');
+    try {
+      const data = await send('/api/settings/profile', 'POST', {
+        action: 'update_password',
+        currentPassword,
+        newPassword,
+      });
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      const others = data.revokedSessions ? ` ${data.revokedSessions} other session(s) were signed out.` : '';
+      setPasswordNotice({ type: 'success', text: `Password updated.${others}` });
+      await loadSecurity();
+    } catch (err) {
+      setPasswordNotice({ type: 'error', text: (err as Error).message });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSetPassword = async () => {
+    setBusy('password');
+    setPasswordNotice(null);
+    try {
+      await send('/api/auth/forgot-password', 'POST', { email: security?.email });
+      setPasswordNotice({ type: 'success', text: `We sent a link to ${security?.email} to set a password.` });
+    } catch (err) {
+      setPasswordNotice({ type: 'error', text: (err as Error).message });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRevoke = async (sessionId: string) => {
+    setBusy(sessionId);
+    setSessionNotice(null);
+    try {
+      await send(`/api/settings/security/sessions/${sessionId}`, 'DELETE');
+      setSecurity(prev => prev && { ...prev, sessions: prev.sessions.filter(s => s.id !== sessionId) });
+    } catch (err) {
+      setSessionNotice({ type: 'error', text: (err as Error).message });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setBusy('others');
+    setSessionNotice(null);
+    try {
+      const data = await send('/api/settings/security/sessions', 'DELETE');
+      setSecurity(prev => prev && { ...prev, sessions: prev.sessions.filter(s => s.current) });
+      setSessionNotice({ type: 'success', text: `Signed out ${data.revoked} other session(s).` });
+    } catch (err) {
+      setSessionNotice({ type: 'error', text: (err as Error).message });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (isLoading && !security) {
+    return (
+      <div className="flex items-center justify-center p-12 text-text-secondary">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" />
+        Loading security settings...
+      </div>
+    );
+  }
+
+  if (error || !security) {
+    return (
+      <div className="p-4 rounded-lg bg-red-500/20 text-red-400 border border-red-500/30 flex items-center justify-between">
+        <span className="text-sm">{error || 'Failed to load security settings'}</span>
+        <Button onClick={loadSecurity} variant="secondary" size="sm">Try Again</Button>
+      </div>
+    );
+  }
+
+  const otherSessions = security.sessions.filter(s => !s.current).length;
+
+  return (
+    <div className="p-6 space-y-8">
+      <div className="flex items-start justify-between">
+        <div className="space-y-1">
+          <h2 className="text-xl font-serif font-medium text-text-primary leading-tight">
+            Security
+          </h2>
+          <p className="text-sm text-text-secondary">
+            Your email, password and the devices signed in to your account.
+          </p>
+        </div>
+        <Button onClick={loadSecurity} variant="secondary" size="sm" disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <section className="space-y-3">
+        <div className="flex items-center gap-2 font-medium text-text-primary">
+          <Mail className="w-5 h-5 text-accent-yellow" />
+          Email
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="text-sm">
+            <span className="text-text-primary">{security.email}</span>{' '}
+            {security.emailVerified ? (
+              <span className="text-green-400">· Verified</span>
+            ) : (
+              <span className="text-amber-400">· Not verified</span>
+            )}
+            {security.linkedProviders.length > 0 && (
+              <p className="text-text-secondary mt-1">
+                Linked sign-in: {security.linkedProviders.map(p => p === 'github' ? 'GitHub' : p === 'google' ? 'Google' : p).join(', ')}
+              </p>
+            )}
+          </div>
+          {!security.emailVerified && (
+            <Button onClick={handleResendVerification} variant="secondary" size="sm" disabled={busy === 'verification'}>
+              {busy === 'verification' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Send verification link'}
+            </Button>
+          )}
+        </div>
+        <NoticeBanner notice={emailNotice} />
+      </section>
+
+      <section className="space-y-3">
+        <div className="flex items-center gap-2 font-medium text-text-primary">
+          <KeyRound className="w-5 h-5 text-text-secondary" />
+          Password
+        </div>
+        {security.hasPassword ? (
+          <form onSubmit={handleChangePassword} className="grid gap-3 max-w-md">
+            <input
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              className={inputClassName}
+              placeholder="Current password"
+              autoComplete="current-password"
+              required
+            />
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className={inputClassName}
+              placeholder="New password (at least 8 characters)"
+              autoComplete="new-password"
+              minLength={8}
+              required
+            />
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className={inputClassName}
+              placeholder="Confirm new password"
+              autoComplete="new-password"
+              required
+            />
+            <div>
+              <Button type="submit" size="sm" disabled={busy === 'password'}>
+                {busy === 'password' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Change password'}
+              </Button>
+            </div>
+            <p className="text-xs text-text-secondary">Changing your password signs out your other sessions.</p>
+          </form>
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-text-secondary">
+              You sign in without a password. Set one to also sign in with your email and password.
+            </p>
+            <Button onClick={handleSetPassword} variant="secondary" size="sm" disabled={busy === 'password'}>
+              {busy === 'password' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Email me a link'}
+            </Button>
+          </div>
+        )}
+        <NoticeBanner notice={passwordNotice} />
+      </section>
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 font-medium text-text-primary">
+            <MonitorSmartphone className="w-5 h-5 text-text-secondary" />
+            Active sessions
+          </div>
+          {otherSessions > 0 && (
+            <Button onClick={handleRevokeOthers} variant="secondary" size="sm" disabled={busy === 'others'}>
+              {busy === 'others' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Sign out all other sessions'}
+            </Button>
+          )}
+        </div>
+        <ul className="divide-y divide-outline-light">
+          {security.sessions.map(session => (
+            <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+              <div className="text-sm">
+                <div className="text-text-primary">
+                  {describeUserAgent(session.userAgent)}
+                  {session.current && <span className="ml-2 text-xs text-accent-yellow">This device</span>}
+                </div>
+                <div className="text-text-secondary">
+                  {session.ipAddress || 'Unknown location'} · Last active {formatDate(session.lastActiveAt)} {formatTime(session.lastActiveAt)}
+                </div>
+              </div>
+              {!session.current && (
+                <Button onClick={() => handleRevoke(session.id)} variant="ghost" size="sm" disabled={busy === session.id}>
+                  {busy === session.id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Sign out'}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <NoticeBanner notice={sessionNotice} />
+      </section>
+    </div>
+  );
+}
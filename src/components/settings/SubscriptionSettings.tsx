@@ -6,11 +6,22 @@ import { Button } from '@/components/ui';
 
 export type Plan = 'FREE' | 'PLUS' | 'PRO';
 
+export interface SubscriptionState {
+  status?: string | null;
+  periodEnd?: string | null;
+  cancelAtPeriodEnd?: boolean;
+  hasBillingAccount?: boolean;
+}
+
 export interface SubscriptionSettingsProps {
   currentPlan?: Plan;
+  subscription?: SubscriptionState;
   onUpgrade?: (plan: Plan, isYearly: boolean) => void;
+  onManageBilling?: () => void;
 }
 
+const PLAN_ORDER: Plan[] = ['FREE', 'PLUS', 'PRO'];
+
 const PLANS = [
   {
     id: 'FREE' as Plan,
@@ -19,7 +30,7 @@ const PLANS = [
     description: 'Essential tools for hobbyists and students.',
     features: [
       'Full access to site features',
-      'Unlimited DeepSeek LLM access',
+      '$1/month of hosted LLM usage, unlimited local models',
       'Max 50 apps stored',
       'Basic cybersecurity',
       'Community support'
@@ -35,6 +46,7 @@ const PLANS = [
       'Everything in Free',
       'Premium design templates',
       'Select specific LLM models',
+      '$20/month of hosted LLM usage',
       'Priority generation queue',
       'Bring your own API keys (Coming soon)'
     ],
@@ -49,6 +61,7 @@ const PLANS = [
     features: [
       'Everything in Plus',
       'Permanently running app hosting',
+      '$100/month of hosted LLM usage',
       'Advanced usage & traffic analytics',
       'Priority 24/7 support',
       'Early access to new features'
@@ -58,7 +71,7 @@ const PLANS = [
   }
 ];
 
-export function SubscriptionSettings({ currentPlan = 'FREE', onUpgrade }: SubscriptionSettingsProps) {
+export function SubscriptionSettings({ currentPlan = 'FREE', subscription, onUpgrade, onManageBilling }: SubscriptionSettingsProps) {
   const [isYearly, setIsYearly] = useState(false);
   const [loadingPlan, setLoadingPlan] = useState<Plan | null>(null);
 
@@ -72,6 +85,10 @@ export function SubscriptionSettings({ currentPlan = 'FREE', onUpgrade }: Subscr
     }
   };
 
+  const periodEnd = subscription?.periodEnd
+    ? new Date(subscription.periodEnd).toLocaleDateString()
+    : null;
+
   const calculatePrice = (basePrice: number) => {
     if (isYearly) {
       return Math.round(basePrice * 0.9); // 10% off
@@ -121,6 +138,31 @@ export function SubscriptionSettings({ currentPlan = 'FREE', onUpgrade }: Subscr
           </div>
         </div>
 
+        {subscription?.status === 'PAST_DUE' && (
+          <div className="mb-6 p-4 rounded-lg bg-red-500/20 text-red-400 border border-red-500/30 text-sm">
+            Your last payment failed. Update your payment method to keep your plan.
+          </div>
+        )}
+
+        {subscription?.cancelAtPeriodEnd && periodEnd && (
+          <div className="mb-6 p-4 rounded-lg bg-surface-elevated text-text-secondary border border-outline-light text-sm">
+            Your subscription ends on {periodEnd}, after which you will be on the Free plan.
+          </div>
+        )}
+
+        {subscription?.hasBillingAccount && onManageBilling && (
+          <div className="mb-6 flex items-center justify-between gap-4 p-4 rounded-xl bg-surface-elevated border border-outline-light">
+            <p className="text-sm text-text-secondary">
+              {periodEnd && !subscription.cancelAtPeriodEnd
+                ? `Your plan renews on ${periodEnd}.`
+                : 'View invoices and update your payment method.'}
+            </p>
+            <Button variant="outline" size="sm" onClick={onManageBilling}>
+              Manage billing
+            </Button>
+          </div>
+        )}
+
         {/* Plans Grid */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           {PLANS.map((plan) => {
@@ -188,6 +230,8 @@ export function SubscriptionSettings({ currentPlan = 'FREE', onUpgrade }: Subscr
                     'Processing...'
                   ) : isCurrent ? (
                     'Current Plan'
+                  ) : PLAN_ORDER.indexOf(plan.id) < PLAN_ORDER.indexOf(currentPlan) ? (
+                    `Switch to ${plan.name}`
                   ) : (
                     `Upgrade to ${plan.name}`
                   )}
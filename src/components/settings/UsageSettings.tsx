@@ -0,0 +1,200 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, RefreshCw, Wallet, Activity, Bot, Server } from 'lucide-react';
+import { Button } from '@/components/ui';
+import type { UsageSummary, UsageTotals } from '@/lib/llm/usage';
+
+export interface UsageSettingsProps {
+  days?: number;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+function formatCost(costUSD: number): string {
+  return costUSD > 0 && costUSD < 0.01 ? '<$0.01' : `$${costUSD.toFixed(2)}`;
+}
+
+function totalTokens(totals: UsageTotals): number {
+  return totals.promptTokens + totals.completionTokens;
+}
+
+export function UsageSettings({ days = 30 }: UsageSettingsProps) {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/settings/usage?days=${days}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to load usage');
+      }
+      setUsage(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  if (isLoading && !usage) {
+    return (
+      <div className="flex items-center justify-center p-12 text-text-secondary">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" />
+        Loading usage...
+      </div>
+    );
+  }
+
+  if (error || !usage) {
+    return (
+      <div className="p-4 rounded-lg bg-red-500/20 text-red-400 border border-red-500/30 flex items-center justify-between">
+        <span className="text-sm">{error || 'Failed to load usage'}</span>
+        <Button onClick={loadUsage} variant="secondary" size="sm">Try Again</Button>
+      </div>
+    );
+  }
+
+  const { budget, totals } = usage;
+  const budgetPercent = budget.limitUSD > 0 ? Math.min(100, (budget.usedUSD / budget.limitUSD) * 100) : 100;
+  const maxDayTokens = Math.max(1, ...usage.byDay.map(totalTokens));
+
+  return (
+    <div className="p-6 space-y-8">
+      <div className="flex items-start justify-between">
+        <div className="space-y-1">
+          <h2 className="text-xl font-serif font-medium text-text-primary leading-tight">
+            Usage
+          </h2>
+          <p className="text-sm text-text-secondary">
+            Tokens and estimated cost of AI requests over the last {days} days.
+          </p>
+        </div>
+        <Button onClick={loadUsage} variant="secondary" size="sm" disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <section className="space-y-3">
+        <div className="flex items-center gap-2 font-medium text-text-primary">
+          <Wallet className="w-5 h-5 text-accent-yellow" />
+          Monthly budget ({budget.plan})
+        </div>
+        <div className="h-3 rounded-full bg-surface-elevated overflow-hidden">
+          <div
+            className={`h-full rounded-full ${budget.exhausted ? 'bg-red-500' : budgetPercent > 80 ? 'bg-amber-500' : 'bg-accent-yellow'}`}
+            style={{ width: `${budgetPercent}%` }}
+          />
+        </div>
+        <p className="text-sm text-text-secondary">
+          {formatCost(budget.usedUSD)} of {formatCost(budget.limitUSD)} used since{' '}
+          {new Date(budget.periodStart).toLocaleDateString()}.{' '}
+          {budget.exhausted
+            ? 'Requests now run on local models (Ollama / LM Studio) until the budget resets.'
+            : 'Local models are not counted against the budget.'}
+        </p>
+      </section>
+
+      <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Requests', value: String(totals.calls) },
+          { label: 'Prompt tokens', value: formatTokens(totals.promptTokens) },
+          { label: 'Completion tokens', value: formatTokens(totals.completionTokens) },
+          { label: 'Estimated cost', value: formatCost(totals.costUSD) },
+        ].map(stat => (
+          <div key={stat.label} className="p-4 rounded-xl bg-surface-elevated">
+            <div className="text-xs text-text-secondary">{stat.label}</div>
+            <div className="text-lg font-medium text-text-primary">{stat.value}</div>
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-3">
+        <div className="flex items-center gap-2 font-medium text-text-primary">
+          <Activity className="w-5 h-5 text-text-secondary" />
+          Tokens per day
+        </div>
+        {usage.byDay.length === 0 ? (
+          <p className="text-sm text-text-secondary">No AI requests in this period.</p>
+        ) : (
+          <div className="flex items-end gap-1 h-32">
+            {usage.byDay.map(day => (
+              <div
+                key={day.date}
+                className="flex-1 bg-accent-yellow/60 rounded-t"
+                style={{ height: `${Math.max(2, (totalTokens(day) / maxDayTokens) * 100)}%` }}
+                title={`${day.date}: ${formatTokens(totalTokens(day))} tokens, ${formatCost(day.costUSD)}`}
+              />
+            ))}
+          </div>
+        )}
+      </section>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <UsageTable
+          title="By model"
+          icon={Server}
+          rows={usage.byProvider.map(row => ({ key: `${row.provider}:${row.model}`, label: `${row.model} (${row.provider})`, totals: row }))}
+        />
+        <UsageTable
+          title="By agent"
+          icon={Bot}
+          rows={usage.byAgent.map(row => ({ key: row.agent, label: row.agent, totals: row }))}
+        />
+      </div>
+    </div>
+  );
+}
+
+function UsageTable({
+  title,
+  icon: Icon,
+  rows,
+}: {
+  title: string;
+  icon: typeof Server;
+  rows: Array<{ key: string; label: string; totals: UsageTotals }>;
+}) {
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center gap-2 font-medium text-text-primary">
+        <Icon className="w-5 h-5 text-text-secondary" />
+        {title}
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-sm text-text-secondary">Nothing yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-text-secondary">
+              <th className="font-normal pb-2">Name</th>
+              <th className="font-normal pb-2 text-right">Tokens</th>
+              <th className="font-normal pb-2 text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className="border-t border-outline-light">
+                <td className="py-2 text-text-primary truncate max-w-[12rem]">{row.label}</td>
+                <td className="py-2 text-right text-text-secondary">{formatTokens(totalTokens(row.totals))}</td>
+                <td className="py-2 text-right text-text-secondary">{formatCost(row.totals.costUSD)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
@@ -12,3 +12,12 @@ export {
   AdvancedLLMSettings,
   type AdvancedLLMSettingsProps,
 } from './AdvancedLLMSettings';
+
+export {
+  UsageSettings,
+  type UsageSettingsProps,
+} from './UsageSettings';
+
+export { SecuritySettings } from './SecuritySettings';
+
+export { ApiTokensSettings } from './ApiTokensSettings';
@@ -11,4 +11,5 @@ export { StatusPanel, StatusIndicator } from './StatusPanel';
 export { ThemeToggle } from './ThemeToggle';
 export { Modal } from './Modal';
 export { DropdownMenu, DropdownItem, DropdownSeparator } from './DropdownMenu';
+export { toastUpgrade } from './upgradeToast';
 export type { StatusMessage, StatusPhase, StatusSeverity } from './StatusPanel';
@@ -0,0 +1,36 @@
+'use client';
+
+/**
+ * Upgrade Toast
+ * Shows plan limit errors from the API with a link to upgrade
+ */
+
+import { toast } from 'sonner';
+import { isEntitlementErrorBody, PLAN_NAMES } from '@/lib/entitlements/types';
+
+/**
+ * Show an error toast for a failed API response body. Entitlement denials get
+ * an upgrade action when a higher plan would allow the request.
+ *
+ * @returns true when the body was an entitlement denial
+ */
+export function toastUpgrade(body: unknown, fallback: string): boolean {
+  if (!isEntitlementErrorBody(body)) {
+    toast.error(fallback);
+    return false;
+  }
+
+  const { upgradeTo, upgradeUrl } = body.entitlement;
+  toast.error(body.error, {
+    duration: 10000,
+    action: upgradeTo
+      ? {
+          label: `Upgrade to ${PLAN_NAMES[upgradeTo]}`,
+          onClick: () => {
+            window.location.href = upgradeUrl;
+          },
+        }
+      : undefined,
+  });
+  return true;
+}
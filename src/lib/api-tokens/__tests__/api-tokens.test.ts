@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * API Token Tests
+ * Tests for creating, verifying and revoking tokens, and for bearer
+ * authentication with scopes and app limits
+ */
+
+import {
+  ApiTokenError,
+  authenticateRequest,
+  createApiToken,
+  hashApiToken,
+  listApiTokens,
+  revokeApiToken,
+  verifyApiToken,
+} from '..';
+
+interface Row {
+  [key: string]: any;
+}
+
+const apiTokens: Row[] = [];
+const apps = [
+  { id: 'app-1', userId: 'user-1' },
+  { id: 'app-2', userId: 'user-1' },
+  { id: 'app-3', userId: 'someone-else' },
+];
+
+let nextId = 0;
+let sessionUserId: string | null = null;
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    apiToken: {
+      findUnique: async ({ where }: any) => apiTokens.find(row => row.tokenHash === where.tokenHash) ?? null,
+      findMany: async ({ where }: any) => apiTokens.filter(row => row.userId === where.userId),
+      create: async ({ data }: any) => {
+        const row = { id: `token-${++nextId}`, createdAt: new Date(), lastUsedAt: null, ...data };
+        apiTokens.push(row);
+        return row;
+      },
+      update: async ({ where, data }: any) => Object.assign(apiTokens.find(row => row.id === where.id)!, data),
+      deleteMany: async ({ where }: any) => {
+        const index = apiTokens.findIndex(row => row.id === where.id && row.userId === where.userId);
+        if (index === -1) return { count: 0 };
+        apiTokens.splice(index, 1);
+        return { count: 1 };
+      },
+    },
+    app: {
+      // Only ownership matters here: appWhereRole's member clause never matches
+      findMany: async ({ where }: any) =>
+        apps.filter(app => where.OR.some((clause: any) => clause.id === app.id && clause.OR[0].userId === app.userId)),
+    },
+  },
+}));
+
+jest.mock('@/lib/auth', () => ({
+  getServerSession: async () => (sessionUserId ? { user: { id: sessionUserId } } : null),
+}));
+
+function request(token?: string): Request {
+  return new Request('http://localhost:1000/api/apps', {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+async function tokenError(promise: Promise<unknown>): Promise<ApiTokenError> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof ApiTokenError) return error;
+    throw error;
+  }
+  throw new Error('Expected an ApiTokenError');
+}
+
+beforeEach(() => {
+  apiTokens.length = 0;
+  sessionUserId = null;
+});
+
+describe('API tokens', () => {
+  it('should store only a hash and a short prefix of the token', async () => {
+    const { token, info } = await createApiToken('user-1', { name: ' Shortcut ', scope: 'read' });
+
+    expect(token).toMatch(/^cmb_[\w-]{40,}$/);
+    expect(apiTokens[0].tokenHash).toBe(hashApiToken(token));
+    expect(JSON.stringify(apiTokens)).not.toContain(token);
+    expect(info).toMatchObject({ name: 'Shortcut', prefix: token.slice(0, 10), scope: 'read', appIds: null });
+    await expect(listApiTokens('user-1')).resolves.toEqual([info]);
+  });
+
+  it('should only limit a token to apps the user can open', async () => {
+    const { info } = await createApiToken('user-1', { name: 'Tracker', scope: 'write', appIds: ['app-1', 'app-1'] });
+    expect(info.appIds).toEqual(['app-1']);
+
+    const error = await tokenError(createApiToken('user-1', { name: 'Sneaky', scope: 'read', appIds: ['app-1', 'app-3'] }));
+    expect(error.code).toBe('UNKNOWN_APP');
+    expect(error.message).toContain('app-3');
+  });
+
+  it('should refuse revoked, expired and unknown tokens', async () => {
+    const { token, info } = await createApiToken('user-1', { name: 'Cron', scope: 'read' });
+    await expect(verifyApiToken(token)).resolves.toMatchObject({ userId: 'user-1' });
+    expect(apiTokens[0].lastUsedAt).toBeInstanceOf(Date);
+
+    await expect(revokeApiToken('someone-else', info.id)).resolves.toBe(false);
+    await expect(revokeApiToken('user-1', info.id)).resolves.toBe(true);
+    expect((await tokenError(verifyApiToken(token))).code).toBe('INVALID_TOKEN');
+
+    const expiring = await createApiToken('user-1', { name: 'Old', scope: 'read', expiresAt: new Date(Date.now() - 1000) });
+    const expired = await tokenError(verifyApiToken(expiring.token));
+    expect(expired.code).toBe('EXPIRED_TOKEN');
+    expect(expired.status).toBe(401);
+
+    expect((await tokenError(verifyApiToken('not-a-token'))).code).toBe('INVALID_TOKEN');
+  });
+});
+
+describe('authenticateRequest', () => {
+  it('should fall back to the browser session without a bearer token', async () => {
+    await expect(authenticateRequest(request(), { scope: 'write' })).resolves.toBeNull();
+
+    sessionUserId = 'user-1';
+    await expect(authenticateRequest(request(), { scope: 'write' })).resolves.toEqual({ userId: 'user-1', token: null });
+  });
+
+  it('should not fall back to the session when a bearer token is refused', async () => {
+    sessionUserId = 'user-1';
+    expect((await tokenError(authenticateRequest(request('cmb_wrong'), { scope: 'read' }))).code).toBe('INVALID_TOKEN');
+  });
+
+  it('should require the write scope for writes', async () => {
+    const { token } = await createApiToken('user-1', { name: 'Reader', scope: 'read' });
+
+    await expect(authenticateRequest(request(token), { scope: 'read', appId: 'app-2' }))
+      .resolves.toMatchObject({ userId: 'user-1', token: { scope: 'read' } });
+    const error = await tokenError(authenticateRequest(request(token), { scope: 'write', appId: 'app-2' }));
+    expect(error.code).toBe('INSUFFICIENT_SCOPE');
+    expect(error.status).toBe(403);
+  });
+
+  it('should keep an app-limited token to its apps', async () => {
+    const { token } = await createApiToken('user-1', { name: 'Tracker', scope: 'write', appIds: ['app-1'] });
+
+    await expect(authenticateRequest(request(token), { scope: 'write', appId: 'app-1' })).resolves.not.toBeNull();
+    expect((await tokenError(authenticateRequest(request(token), { scope: 'read', appId: 'app-2' }))).code)
+      .toBe('APP_NOT_ALLOWED');
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * API Request Authentication
+ * Routes that scripts may call accept either the browser session or an
+ * `Authorization: Bearer <token>` header
+ */
+
+import { getServerSession } from '@/lib/auth';
+import { scopeAllows, tokenAllowsApp, verifyApiToken } from './tokens';
+import { ApiTokenError, type ApiCaller, type ApiTokenScope } from './types';
+
+export interface AuthenticateOptions {
+  /** What the request does; tokens need at least this scope */
+  scope: ApiTokenScope;
+  /** The app the request acts on, checked against tokens limited to apps */
+  appId?: string;
+}
+
+/**
+ * The bearer token in a request's Authorization header, if there is one
+ */
+export function bearerToken(headers: Headers): string | null {
+  const match = headers.get('authorization')?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Who is calling: the token's user when a bearer token is sent, otherwise the
+ * signed-in user. Null when neither is present. A bearer token that is
+ * invalid, expired, or can't do this throws instead of falling back to the
+ * session, so scripts see why they were refused.
+ */
+export async function authenticateRequest(request: Request, options: AuthenticateOptions): Promise<ApiCaller | null> {
+  const raw = bearerToken(request.headers);
+
+  if (!raw) {
+    const session = await getServerSession();
+    return session?.user?.id ? { userId: session.user.id, token: null } : null;
+  }
+
+  const { userId, token } = await verifyApiToken(raw);
+
+  if (!scopeAllows(token.scope, options.scope)) {
+    throw new ApiTokenError(`This API token needs the ${options.scope} scope`, 'INSUFFICIENT_SCOPE');
+  }
+  if (options.appId && !tokenAllowsApp(token, options.appId)) {
+    throw new ApiTokenError('This API token is not allowed to access this app', 'APP_NOT_ALLOWED');
+  }
+
+  return { userId, token };
+}
@@ -0,0 +1,21 @@
+/**
+ * API Token Responses
+ * How routes report a refused token
+ */
+
+import { NextResponse } from 'next/server';
+import type { ApiTokenError, ApiTokenErrorCode } from './types';
+
+export function apiTokenErrorResponse(error: ApiTokenError): NextResponse<{ error: string; code: ApiTokenErrorCode }> {
+  const headers: Record<string, string> = {};
+  if (error.status === 401) {
+    headers['WWW-Authenticate'] = 'Bearer error="invalid_token"';
+  } else if (error.code === 'INSUFFICIENT_SCOPE') {
+    headers['WWW-Authenticate'] = 'Bearer error="insufficient_scope"';
+  }
+
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: error.status, headers }
+  );
+}
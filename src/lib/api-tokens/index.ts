@@ -0,0 +1,34 @@
+/**
+ * API Tokens Module Index
+ * Personal API tokens and bearer authentication for the app and data routes
+ */
+
+export {
+  API_TOKEN_PREFIX,
+  hashApiToken,
+  scopeAllows,
+  tokenAllowsApp,
+  createApiToken,
+  listApiTokens,
+  revokeApiToken,
+  verifyApiToken,
+} from './tokens';
+
+export {
+  bearerToken,
+  authenticateRequest,
+  type AuthenticateOptions,
+} from './authenticate';
+
+export { apiTokenErrorResponse } from './http';
+
+export {
+  API_TOKEN_SCOPES,
+  ApiTokenError,
+  type ApiTokenScope,
+  type ApiTokenInfo,
+  type CreateApiTokenInput,
+  type CreatedApiToken,
+  type ApiCaller,
+  type ApiTokenErrorCode,
+} from './types';
@@ -0,0 +1,155 @@
+/**
+ * API Tokens
+ * Creating, listing, revoking and verifying personal API tokens. The token is
+ * random and shown once; only its SHA-256 hash is stored.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { ApiToken } from '@prisma/client';
+import prisma from '@/lib/db';
+import { appWhereRole } from '@/lib/collaboration';
+import {
+  API_TOKEN_SCOPES,
+  ApiTokenError,
+  type ApiTokenInfo,
+  type ApiTokenScope,
+  type CreateApiTokenInput,
+  type CreatedApiToken,
+} from './types';
+
+/** Marks our tokens, so they are recognisable in configs and secret scanners */
+export const API_TOKEN_PREFIX = 'cmb_';
+
+/** Characters of the token kept for display */
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+/** lastUsedAt is only written this often, not on every request */
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function parseAppIds(stored: string | null): string[] | null {
+  if (!stored) return null;
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : null;
+  } catch {
+    return null;
+  }
+}
+
+function toInfo(token: ApiToken): ApiTokenInfo {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scope: API_TOKEN_SCOPES.includes(token.scope as ApiTokenScope) ? token.scope as ApiTokenScope : 'read',
+    appIds: parseAppIds(token.appIds),
+    lastUsedAt: token.lastUsedAt,
+    expiresAt: token.expiresAt,
+    createdAt: token.createdAt,
+  };
+}
+
+/**
+ * Whether a token's scope covers `needed`; write includes read
+ */
+export function scopeAllows(scope: ApiTokenScope, needed: ApiTokenScope): boolean {
+  return scope === 'write' || needed === 'read';
+}
+
+/**
+ * Whether a token may act on an app. The user's role on the app still applies.
+ */
+export function tokenAllowsApp(token: ApiTokenInfo, appId: string): boolean {
+  return token.appIds === null || token.appIds.includes(appId);
+}
+
+// ============================================================================
+// Management
+// ============================================================================
+
+/**
+ * Create a token for the user. A token limited to apps may only name apps
+ * the user can currently open.
+ */
+export async function createApiToken(userId: string, input: CreateApiTokenInput): Promise<CreatedApiToken> {
+  const appIds = input.appIds && input.appIds.length > 0 ? Array.from(new Set(input.appIds)) : null;
+
+  if (appIds) {
+    const accessible = await prisma.app.findMany({
+      where: { OR: appIds.map(appId => appWhereRole(appId, userId)) },
+      select: { id: true },
+    });
+    const found = new Set(accessible.map(app => app.id));
+    const unknown = appIds.filter(appId => !found.has(appId));
+    if (unknown.length > 0) {
+      throw new ApiTokenError(`Unknown app: ${unknown.join(', ')}`, 'UNKNOWN_APP');
+    }
+  }
+
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const stored = await prisma.apiToken.create({
+    data: {
+      userId,
+      name: input.name.trim(),
+      tokenHash: hashApiToken(token),
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scope: input.scope,
+      appIds: appIds ? JSON.stringify(appIds) : null,
+      expiresAt: input.expiresAt ?? null,
+    },
+  });
+
+  return { token, info: toInfo(stored) };
+}
+
+/**
+ * The user's tokens, newest first
+ */
+export async function listApiTokens(userId: string): Promise<ApiTokenInfo[]> {
+  const tokens = await prisma.apiToken.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+  return tokens.map(toInfo);
+}
+
+/**
+ * Delete one of the user's tokens; false if they have no such token
+ */
+export async function revokeApiToken(userId: string, tokenId: string): Promise<boolean> {
+  const { count } = await prisma.apiToken.deleteMany({ where: { id: tokenId, userId } });
+  return count > 0;
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Look up the token a request was made with
+ */
+export async function verifyApiToken(token: string): Promise<{ userId: string; token: ApiTokenInfo }> {
+  const stored = token.startsWith(API_TOKEN_PREFIX)
+    ? await prisma.apiToken.findUnique({ where: { tokenHash: hashApiToken(token) } })
+    : null;
+
+  if (!stored) {
+    throw new ApiTokenError('Invalid API token', 'INVALID_TOKEN');
+  }
+
+  const now = Date.now();
+  if (stored.expiresAt && stored.expiresAt.getTime() <= now) {
+    throw new ApiTokenError('This API token has expired', 'EXPIRED_TOKEN');
+  }
+
+  if (!stored.lastUsedAt || now - stored.lastUsedAt.getTime() > LAST_USED_INTERVAL_MS) {
+    stored.lastUsedAt = new Date(now);
+    await prisma.apiToken.update({ where: { id: stored.id }, data: { lastUsedAt: stored.lastUsedAt } });
+  }
+
+  return { userId: stored.userId, token: toInfo(stored) };
+}
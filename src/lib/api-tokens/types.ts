@@ -0,0 +1,78 @@
+/**
+ * API Token Types
+ * Personal tokens that let scripts call the app and data API as their user
+ */
+
+/**
+ * - read: list apps, read records and the change feed
+ * - write: also create, change and delete apps and records
+ */
+export type ApiTokenScope = 'read' | 'write';
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['read', 'write'];
+
+/**
+ * A token as listed on the settings page; the token itself is only shown once
+ */
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  /** Start of the token, e.g. `cmb_Xk3f9a` */
+  prefix: string;
+  scope: ApiTokenScope;
+  /** Apps the token is limited to, or null for all of the user's apps */
+  appIds: string[] | null;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreateApiTokenInput {
+  name: string;
+  scope: ApiTokenScope;
+  appIds?: string[] | null;
+  expiresAt?: Date | null;
+}
+
+export interface CreatedApiToken {
+  /** The raw token, returned once at creation */
+  token: string;
+  info: ApiTokenInfo;
+}
+
+/**
+ * Who is making an API request: a signed-in browser, or a script with a token
+ */
+export interface ApiCaller {
+  userId: string;
+  /** The token the request was made with; null for browser sessions */
+  token: ApiTokenInfo | null;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type ApiTokenErrorCode =
+  | 'INVALID_TOKEN'
+  | 'EXPIRED_TOKEN'
+  | 'INSUFFICIENT_SCOPE'
+  | 'APP_NOT_ALLOWED'
+  | 'UNKNOWN_APP';
+
+export class ApiTokenError extends Error {
+  public readonly code: ApiTokenErrorCode;
+
+  constructor(message: string, code: ApiTokenErrorCode) {
+    super(message);
+    this.name = 'ApiTokenError';
+    this.code = code;
+  }
+
+  /** 401 when the token itself is unusable, 403 when it can't do this, 400 for a bad token request */
+  get status(): 400 | 401 | 403 {
+    if (this.code === 'INVALID_TOKEN' || this.code === 'EXPIRED_TOKEN') return 401;
+    if (this.code === 'UNKNOWN_APP') return 400;
+    return 403;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * App Data Change Feed Tests
+ * Tests for fan-out, reconnect replay and the Server-Sent Events stream
+ */
+
+import { AppChangeFeed, CHANGE_REPLAY_LIMIT, changeFeedResponse } from '../changes';
+
+function change(id: string, type: 'create' | 'update' | 'delete' = 'create') {
+  return {
+    type,
+    collection: 'task',
+    record: { id, title: id, createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' },
+  };
+}
+
+async function readEvents(response: Response, count: number): Promise<string[]> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  while (text.split('\n\n').filter(Boolean).length < count) {
+    const { value } = await reader.read();
+    text += decoder.decode(value);
+  }
+  reader.releaseLock();
+  return text.split('\n\n').filter(Boolean);
+}
+
+describe('AppChangeFeed', () => {
+  it('should deliver changes to every listener of the app only', () => {
+    const feed = new AppChangeFeed();
+    const first: string[] = [];
+    const second: string[] = [];
+    const other: string[] = [];
+    feed.subscribe('app-1', c => first.push(c.record.id));
+    const unsubscribe = feed.subscribe('app-1', c => second.push(c.record.id));
+    feed.subscribe('app-2', c => other.push(c.record.id));
+
+    feed.publish('app-1', change('a'));
+    unsubscribe();
+    feed.publish('app-1', change('b'));
+
+    expect(first).toEqual(['a', 'b']);
+    expect(second).toEqual(['a']);
+    expect(other).toEqual([]);
+  });
+
+  it('should replay changes after the last event id a client saw', () => {
+    const feed = new AppChangeFeed();
+    const seen = feed.publish('app-1', change('a'));
+    feed.publish('app-1', change('b'));
+    feed.publish('app-1', change('c', 'update'));
+
+    expect(feed.changesSince('app-1', feed.eventId(seen))!.map(c => c.record.id)).toEqual(['b', 'c']);
+    expect(feed.changesSince('app-1', `${feed.epoch}:3`)).toEqual([]);
+  });
+
+  it('should ask clients to reload when their changes are gone', () => {
+    const feed = new AppChangeFeed();
+    for (let i = 0; i < CHANGE_REPLAY_LIMIT + 5; i++) {
+      feed.publish('app-1', change(`r${i}`));
+    }
+
+    expect(feed.changesSince('app-1', `${feed.epoch}:1`)).toBeNull();
+    expect(feed.changesSince('app-1', 'older-process:10')).toBeNull();
+    expect(feed.changesSince('app-1', 'garbage')).toBeNull();
+  });
+});
+
+describe('changeFeedResponse', () => {
+  it('should stream changes as server-sent events until aborted', async () => {
+    const feed = new AppChangeFeed();
+    const abort = new AbortController();
+    const response = changeFeedResponse('app-1', { feed, signal: abort.signal });
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+    expect(await readEvents(response, 2)).toEqual([
+      'retry: 3000',
+      `event: ready\ndata: ${JSON.stringify({ epoch: feed.epoch })}`,
+    ]);
+
+    const published = feed.publish('app-1', change('a'));
+    const [event] = await readEvents(response, 1);
+    expect(event).toContain(`id: ${feed.eventId(published)}\nevent: change\n`);
+    expect(JSON.parse(event.split('data: ')[1])).toMatchObject({ type: 'create', collection: 'task', record: { id: 'a' } });
+
+    abort.abort();
+    expect(feed.listenerCount('app-1')).toBe(0);
+  });
+
+  it('should resume from Last-Event-ID or send a reset', async () => {
+    const feed = new AppChangeFeed();
+    const seen = feed.publish('app-1', change('a'));
+    feed.publish('app-1', change('b'));
+
+    const abort = new AbortController();
+
+    const resumed = await readEvents(changeFeedResponse('app-1', { feed, lastEventId: feed.eventId(seen), signal: abort.signal }), 3);
+    expect(resumed[1]).toContain('"id":"b"');
+
+    const reset = await readEvents(changeFeedResponse('app-1', { feed, lastEventId: 'stale:1', signal: abort.signal }), 3);
+    expect(reset[1]).toContain('event: reset');
+
+    abort.abort();
+  });
+});
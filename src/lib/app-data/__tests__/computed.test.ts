@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * App Data Computed Value Tests
+ * Tests for evaluating computed fields against stored and related records
+ */
+
+import Database from 'better-sqlite3';
+import { AppDataStore } from '../store';
+import { withComputedValues, withComputedValue } from '../computed';
+import { prepareWrite } from '../validation';
+import type { Schema } from '@/lib/scaffolder-v2/types';
+
+const projectSchema: Schema = {
+  name: 'Project',
+  label: 'Project',
+  fields: [
+    { name: 'id', label: 'ID', type: 'string', required: true, generated: true, primaryKey: true },
+    { name: 'name', label: 'Name', type: 'string', required: true },
+    { name: 'budget', label: 'Budget', type: 'number', required: false },
+  ],
+  computedFields: [
+    { name: 'taskCount', label: 'Tasks', type: 'number', formula: 'count(tasks)' },
+    { name: 'hoursLeft', label: 'Hours Left', type: 'number', formula: "budget - sum(tasks.hours where status != 'Done')" },
+  ],
+  relationships: [{ type: 'hasMany', target: 'Task', foreignKey: 'projectId' }],
+};
+
+const taskSchema: Schema = {
+  name: 'Task',
+  label: 'Task',
+  fields: [
+    { name: 'id', label: 'ID', type: 'string', required: true, generated: true, primaryKey: true },
+    { name: 'title', label: 'Title', type: 'string', required: true },
+    { name: 'hours', label: 'Hours', type: 'number', required: false },
+    { name: 'status', label: 'Status', type: 'enum', required: false, options: ['Open', 'Done'] },
+    { name: 'projectId', label: 'Project', type: 'string', required: false },
+  ],
+  computedFields: [
+    { name: 'projectName', label: 'Project', type: 'string', formula: "coalesce(project.name, 'Unassigned')" },
+  ],
+  relationships: [{ type: 'belongsTo', target: 'Project', foreignKey: 'projectId' }],
+};
+
+function setup() {
+  const store = new AppDataStore('app-1', new Database(':memory:'), [projectSchema, taskSchema]);
+  const projects = store.collection('Project');
+  const tasks = store.collection('Task');
+
+  const apollo = projects.insert({ name: 'Apollo', budget: 20 });
+  const gemini = projects.insert({ name: 'Gemini', budget: 5 });
+  tasks.insert({ title: 'Design', hours: 3, status: 'Done', projectId: apollo.id });
+  tasks.insert({ title: 'Build', hours: 8, status: 'Open', projectId: apollo.id });
+  tasks.insert({ title: 'Loose end', hours: 1, status: 'Open' });
+
+  return { store, projects, tasks, apollo, gemini };
+}
+
+describe('withComputedValues', () => {
+  it('should aggregate hasMany relations', () => {
+    const { store, projects, apollo, gemini } = setup();
+    const records = withComputedValues(store, projects, [apollo, gemini]);
+
+    expect(records[0]).toMatchObject({ name: 'Apollo', taskCount: 2, hoursLeft: 12 });
+    expect(records[1]).toMatchObject({ name: 'Gemini', taskCount: 0, hoursLeft: 5 });
+  });
+
+  it('should read belongsTo relations', () => {
+    const { store, tasks } = setup();
+    const names = withComputedValues(store, tasks, tasks.list()).map(task => task.projectName);
+
+    expect(names).toEqual(['Apollo', 'Apollo', 'Unassigned']);
+  });
+
+  it('should leave records of schemas without computed fields alone', () => {
+    const store = new AppDataStore('app-2', new Database(':memory:'), [{ ...taskSchema, computedFields: [] }]);
+    const task = store.collection().insert({ title: 'Task' });
+
+    expect(withComputedValue(store, store.collection(), task)).toBe(task);
+  });
+
+  it('should drop computed fields from writes', () => {
+    const { projects } = setup();
+    expect(prepareWrite(projects, { name: 'Mercury', taskCount: 3 })).not.toHaveProperty('taskCount');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * App OpenAPI Tests
+ * Tests for the OpenAPI document generated from an app's schemas
+ */
+
+import { buildAppOpenApiDocument, type JsonSchema } from '../openapi';
+import type { Schema } from '@/lib/scaffolder-v2/types';
+
+const habitSchema: Schema = {
+  name: 'Habit',
+  label: 'Habit',
+  description: 'Things to do every day',
+  fields: [
+    { name: 'title', label: 'Title', type: 'string', required: true, validation: { maxLength: 80 } },
+    { name: 'frequency', label: 'Frequency', type: 'enum', required: true, options: ['daily', 'weekly'], defaultValue: 'daily' },
+    { name: 'streak', label: 'Streak', type: 'number', required: false, validation: { min: 0 } },
+    { name: 'startedOn', label: 'Started', type: 'date', required: true, nullable: true },
+    { name: 'notes', label: 'Notes', type: 'json', required: false },
+  ],
+  computedFields: [{ name: 'weeks', label: 'Weeks', type: 'number', formula: 'streak / 7' }],
+};
+
+const projectSchema: Schema = {
+  name: 'Project',
+  label: 'Project',
+  fields: [{ name: 'name', label: 'Name', type: 'string', required: true }],
+  relationships: [{ type: 'hasMany', target: 'Task' }],
+};
+
+const taskSchema: Schema = {
+  name: 'Task',
+  label: 'Task',
+  fields: [{ name: 'title', label: 'Title', type: 'string', required: true }],
+};
+
+const app = { id: 'app-1', name: 'Habits', description: 'Daily habits' };
+const serverUrl = 'http://localhost:1000/api/apps/app-1';
+
+function parametersOf(operation: unknown): JsonSchema[] {
+  return ((operation as JsonSchema).parameters || []) as JsonSchema[];
+}
+
+describe('buildAppOpenApiDocument', () => {
+  it('should describe records, creates and updates of a collection', () => {
+    const document = buildAppOpenApiDocument(app, [habitSchema], serverUrl);
+    const { schemas } = document.components;
+
+    expect(document).toMatchObject({
+      openapi: '3.1.0',
+      info: { title: 'Habits API', description: 'Daily habits' },
+      servers: [{ url: serverUrl }],
+      security: [{ bearerAuth: [] }],
+    });
+
+    expect(schemas.Habit).toMatchObject({
+      description: 'Things to do every day',
+      required: ['id', 'createdAt', 'updatedAt', 'title', 'frequency'],
+      properties: {
+        id: { type: 'string', readOnly: true },
+        title: { type: 'string', maxLength: 80 },
+        frequency: { type: 'string', enum: ['daily', 'weekly'], default: 'daily' },
+        streak: { type: ['number', 'null'], minimum: 0 },
+        startedOn: { type: ['string', 'null'], format: 'date' },
+        weeks: { readOnly: true, description: 'Computed: streak / 7' },
+      },
+    });
+    expect(schemas.Habit.properties).toHaveProperty('notes', { title: 'Notes' });
+
+    // Defaults and nullable fields need not be sent; computed fields can't be
+    expect(schemas.HabitInput.required).toEqual(['title']);
+    expect(schemas.HabitInput.properties).not.toHaveProperty('weeks');
+    expect(schemas.HabitUpdate.required).toEqual(['id']);
+  });
+
+  it('should point a single collection straight at its schemas', () => {
+    const { paths } = buildAppOpenApiDocument(app, [habitSchema], serverUrl);
+    const data = paths['/data'] as Record<string, any>;
+
+    expect(data.parameters).toEqual([]);
+    expect(data.post.requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/HabitInput' });
+    expect(data.get.responses[200].content['application/json'].schema.properties.data.items)
+      .toEqual({ $ref: '#/components/schemas/Habit' });
+
+    const names = parametersOf(data.get).map(parameter => parameter.name);
+    expect(names).toEqual(expect.arrayContaining(['search', 'sort', 'limit', 'offset', 'filter[createdAt]', 'filter[frequency]']));
+    // json fields can't be filtered; there are no relations to include
+    expect(names).not.toContain('filter[notes]');
+    expect(names).not.toContain('include');
+    expect(paths).toHaveProperty('/data/changes');
+  });
+
+  it('should select between several collections and describe their foreign keys', () => {
+    const { paths, components } = buildAppOpenApiDocument(app, [projectSchema, taskSchema], serverUrl);
+    const data = paths['/data'] as Record<string, any>;
+
+    expect(data.parameters[0]).toMatchObject({
+      name: 'collection',
+      schema: { enum: ['Project', 'Task'], default: 'Project' },
+    });
+    expect(data.patch.requestBody.content['application/json'].schema).toEqual({
+      oneOf: [{ $ref: '#/components/schemas/ProjectUpdate' }, { $ref: '#/components/schemas/TaskUpdate' }],
+    });
+
+    expect(components.schemas.Task.properties).toHaveProperty('projectId', expect.objectContaining({
+      type: ['string', 'null'],
+      description: 'Id of a Project record',
+    }));
+
+    const parameters = parametersOf(data.get);
+    expect(parameters.find(parameter => parameter.name === 'include')?.description).toContain('tasks');
+    expect(parameters.find(parameter => parameter.name === 'filter[projectId]')?.description).toContain('Only in Task');
+  });
+
+  it('should describe the untyped records collection of an app without schemas', () => {
+    const { components } = buildAppOpenApiDocument({ id: 'app-2', name: 'Notes' }, [], serverUrl);
+
+    expect(components.schemas.records).toMatchObject({
+      required: ['id', 'createdAt', 'updatedAt'],
+      additionalProperties: true,
+    });
+    expect(components.schemas.recordsInput.required).toEqual([]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * App Data Query Tests
+ * Tests for query parameter parsing and filtered, sorted, paginated reads
+ */
+
+import Database from 'better-sqlite3';
+import { AppDataStore, AppDataError } from '../store';
+import { parseDataQuery, paginationFor } from '../query';
+import type { Schema } from '@/lib/scaffolder-v2/types';
+
+const expenseSchema: Schema = {
+  name: 'expense',
+  label: 'Expense',
+  fields: [
+    { name: 'title', label: 'Title', type: 'string', required: true },
+    { name: 'amount', label: 'Amount', type: 'number', required: true },
+    { name: 'paid', label: 'Paid', type: 'boolean', required: false },
+    { name: 'spentOn', label: 'Spent On', type: 'date', required: false },
+    { name: 'category', label: 'Category', type: 'enum', required: false, options: ['Food', 'Travel', 'Office'] },
+    { name: 'tags', label: 'Tags', type: 'array', required: false },
+    { name: 'meta', label: 'Meta', type: 'json', required: false },
+  ],
+};
+
+function seededCollection() {
+  const collection = new AppDataStore('app-1', new Database(':memory:'), [expenseSchema]).collection();
+  collection.insertMany([
+    { title: 'Lunch', amount: 12, paid: true, spentOn: '2024-03-01', category: 'Food', tags: ['team'] },
+    { title: 'Train ticket', amount: 45, paid: false, spentOn: '2024-03-03', category: 'Travel' },
+    { title: 'Dinner 100% off', amount: 0, paid: true, spentOn: '2024-03-05', category: 'Food', tags: ['team', 'client'] },
+    { title: 'Paper', amount: 8, spentOn: '2024-03-07', category: 'Office' },
+    { title: 'Flight', amount: 320, paid: false, category: 'Travel' },
+  ]);
+  return collection;
+}
+
+function run(params: Record<string, string>) {
+  const collection = seededCollection();
+  const query = parseDataQuery(params, collection.queryableFields());
+  return { query, result: collection.query(query) };
+}
+
+function titles(params: Record<string, string>) {
+  return run(params).result.records.map(r => r.title);
+}
+
+function issuesFor(params: Record<string, string>) {
+  try {
+    parseDataQuery(params, seededCollection().queryableFields());
+  } catch (error) {
+    expect(error).toBeInstanceOf(AppDataError);
+    expect((error as AppDataError).code).toBe('INVALID_QUERY');
+    return (error as AppDataError).issues;
+  }
+  throw new Error('Expected parseDataQuery to throw');
+}
+
+describe('DataCollection.query - filters', () => {
+  it('should return everything without parameters', () => {
+    const { result } = run({});
+    expect(result.total).toBe(5);
+    expect(result.records).toHaveLength(5);
+  });
+
+  it('should filter by equality', () => {
+    expect(titles({ 'filter[category]': 'Travel' })).toEqual(['Train ticket', 'Flight']);
+    expect(titles({ 'filter[paid][eq]': 'true' })).toEqual(['Lunch', 'Dinner 100% off']);
+  });
+
+  it('should treat missing values as not equal', () => {
+    expect(titles({ 'filter[paid][ne]': 'true' })).toEqual(['Train ticket', 'Paper', 'Flight']);
+  });
+
+  it('should combine range operators', () => {
+    expect(titles({ 'filter[amount][gte]': '8', 'filter[amount][lt]': '45' })).toEqual(['Lunch', 'Paper']);
+    expect(titles({ 'filter[spentOn][gt]': '2024-03-03' })).toEqual(['Dinner 100% off', 'Paper']);
+  });
+
+  it('should compare dates and datetimes in their stored format', () => {
+    expect(titles({ 'filter[spentOn][gte]': '2024-03-03T00:00:00.000Z' })).toEqual(['Train ticket', 'Dinner 100% off', 'Paper']);
+    expect(titles({ 'filter[spentOn][in]': '2024-03-01T12:00:00Z,2024-03-07' })).toEqual(['Lunch', 'Paper']);
+
+    const { query } = run({ 'filter[createdAt][lt]': '2024-03-01T09:30:00+02:00' });
+    expect(query.filters[0].value).toBe('2024-03-01T07:30:00.000Z');
+  });
+
+  it('should match substrings case-insensitively and literally', () => {
+    expect(titles({ 'filter[title][contains]': 'TICKET' })).toEqual(['Train ticket']);
+    expect(titles({ 'filter[title][contains]': '100%' })).toEqual(['Dinner 100% off']);
+  });
+
+  it('should match array elements', () => {
+    expect(titles({ 'filter[tags][contains]': 'client' })).toEqual(['Dinner 100% off']);
+  });
+
+  it('should filter by a list of values', () => {
+    expect(titles({ 'filter[category][in]': 'Office,Food' })).toEqual(['Lunch', 'Dinner 100% off', 'Paper']);
+    expect(titles({ 'filter[amount][in]': '0, 320' })).toEqual(['Dinner 100% off', 'Flight']);
+  });
+
+  it('should search text fields', () => {
+    expect(titles({ search: 'travel' })).toEqual(['Train ticket', 'Flight']);
+  });
+
+  it('should ignore unrelated parameters', () => {
+    expect(run({ appId: 'app-1', originalPath: '/api/nebula/data' }).result.total).toBe(5);
+  });
+});
+
+describe('DataCollection.query - sorting and pagination', () => {
+  it('should sort by several fields with missing values last', () => {
+    expect(titles({ sort: 'category,-amount' })).toEqual(['Lunch', 'Dinner 100% off', 'Paper', 'Flight', 'Train ticket']);
+    expect(titles({ sort: '-spentOn' })).toEqual(['Paper', 'Dinner 100% off', 'Train ticket', 'Lunch', 'Flight']);
+  });
+
+  it('should page with limit and offset and report the total', () => {
+    const { query, result } = run({ sort: 'amount', limit: '2', offset: '2' });
+
+    expect(result.records.map(r => r.title)).toEqual(['Lunch', 'Train ticket']);
+    expect(paginationFor(query, result)).toEqual({ total: 5, limit: 2, offset: 2, hasMore: true });
+  });
+
+  it('should count matches rather than the page', () => {
+    const { query, result } = run({ 'filter[category]': 'Food', limit: '1' });
+
+    expect(result.records).toHaveLength(1);
+    expect(paginationFor(query, result)).toMatchObject({ total: 2, hasMore: true });
+  });
+
+  it('should allow an offset without a limit', () => {
+    expect(titles({ offset: '3' })).toEqual(['Paper', 'Flight']);
+  });
+
+  it('should default to newest first when asked', () => {
+    const collection = seededCollection();
+    const result = collection.query(parseDataQuery({}, collection.queryableFields()), { newestFirst: true });
+    expect(result.records[0].title).toBe('Flight');
+  });
+});
+
+describe('parseDataQuery - validation', () => {
+  it('should reject unknown fields', () => {
+    expect(issuesFor({ 'filter[colour]': 'red' })).toEqual([
+      { path: 'filter[colour]', message: 'Unknown field "colour"' },
+    ]);
+    expect(issuesFor({ sort: 'colour' })[0].path).toBe('sort');
+  });
+
+  it('should reject operators the field type does not support', () => {
+    expect(issuesFor({ 'filter[amount][contains]': '1' })[0].message).toMatch(/not supported for number/);
+    expect(issuesFor({ 'filter[title][between]': 'a' })[0].message).toMatch(/not supported/);
+    expect(issuesFor({ 'filter[meta]': 'x' })[0].message).toMatch(/cannot be filtered/);
+  });
+
+  it('should reject values that do not match the field type', () => {
+    expect(issuesFor({ 'filter[amount][gt]': 'lots' })[0].message).toMatch(/not a number/);
+    expect(issuesFor({ 'filter[paid]': 'yes' })[0].message).toMatch(/not a boolean/);
+    expect(issuesFor({ 'filter[spentOn][lt]': 'soon' })[0].message).toMatch(/not a valid date/);
+    expect(issuesFor({ 'filter[category][in]': 'Food,Toys' })[0].message).toMatch(/not one of/);
+  });
+
+  it('should reject unsortable fields and bad pagination', () => {
+    expect(issuesFor({ sort: 'tags' })[0].message).toMatch(/cannot be sorted/);
+    expect(issuesFor({ limit: '0' })[0].path).toBe('limit');
+    expect(issuesFor({ limit: '10000' })[0].path).toBe('limit');
+    expect(issuesFor({ offset: '-1' })[0].path).toBe('offset');
+  });
+
+  it('should report every problem at once', () => {
+    expect(issuesFor({ 'filter[colour]': 'red', sort: 'tags', limit: 'x' })).toHaveLength(3);
+  });
+
+  it('should accept URLSearchParams', () => {
+    const query = parseDataQuery(
+      new URLSearchParams('filter[amount][gte]=10&sort=-amount,title&limit=5'),
+      seededCollection().queryableFields()
+    );
+
+    expect(query).toEqual({
+      filters: [{ field: 'amount', operator: 'gte', value: 10 }],
+      sort: [{ field: 'amount', direction: 'desc' }, { field: 'title', direction: 'asc' }],
+      limit: 5,
+      offset: 0,
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * App Data Relations Tests
+ * Tests for resolving relationships, referential integrity, delete rules and includes
+ */
+
+import Database from 'better-sqlite3';
+import { AppDataStore, AppDataError } from '../store';
+import { resolveRelations, withRelationFields } from '../relations';
+import { parseInclude, expandRelations } from '../include';
+import type { Schema } from '@/lib/scaffolder-v2/types';
+
+const projectSchema: Schema = {
+  name: 'Project',
+  label: 'Project',
+  fields: [{ name: 'name', label: 'Name', type: 'string', required: true }],
+  relationships: [{ type: 'hasMany', target: 'Task' }],
+};
+
+const taskSchema: Schema = {
+  name: 'Task',
+  label: 'Task',
+  fields: [
+    { name: 'title', label: 'Title', type: 'string', required: true },
+    { name: 'projectId', label: 'Project', type: 'string', required: false },
+  ],
+  relationships: [
+    { type: 'belongsTo', target: 'Project' },
+    { type: 'manyToMany', target: 'Tag' },
+  ],
+};
+
+const tagSchema: Schema = {
+  name: 'Tag',
+  label: 'Tag',
+  fields: [{ name: 'label', label: 'Label', type: 'string', required: true }],
+};
+
+function setup(schemas: Schema[] = [projectSchema, taskSchema, tagSchema]) {
+  const store = new AppDataStore('app-1', new Database(':memory:'), schemas);
+  return {
+    store,
+    projects: store.collection('Project'),
+    tasks: store.collection('Task'),
+    tags: store.collection('Tag'),
+  };
+}
+
+function errorOf(fn: () => unknown): AppDataError {
+  try {
+    fn();
+  } catch (error) {
+    return error as AppDataError;
+  }
+  throw new Error('Expected an error');
+}
+
+describe('resolveRelations', () => {
+  it('should merge a relationship declared on both sides into one foreign key', () => {
+    const graph = resolveRelations([projectSchema, taskSchema, tagSchema]);
+
+    const projectKeys = graph.foreignKeys.filter(key => key.target === 'Project');
+    expect(projectKeys).toEqual([
+      { collection: 'Task', field: 'projectId', target: 'Project', many: false, onDelete: 'setNull' },
+    ]);
+    expect(graph.relations.Project.map(relation => relation.name)).toEqual(['tasks']);
+    expect(graph.relations.Task.map(relation => relation.name)).toEqual(['project', 'tags']);
+    expect(graph.relations.Tag.map(relation => relation.name)).toEqual(['tasks']);
+  });
+
+  it('should default required references to restrict and honour explicit rules', () => {
+    const required: Schema = {
+      ...taskSchema,
+      fields: [
+        { name: 'title', label: 'Title', type: 'string', required: true },
+        { name: 'projectId', label: 'Project', type: 'string', required: true },
+      ],
+      relationships: [{ type: 'belongsTo', target: 'Project' }],
+    };
+    expect(resolveRelations([projectSchema, required]).foreignKeys[0].onDelete).toBe('restrict');
+
+    const cascading: Schema = { ...projectSchema, relationships: [{ type: 'hasMany', target: 'Task', onDelete: 'cascade' }] };
+    expect(resolveRelations([cascading, required]).foreignKeys[0].onDelete).toBe('cascade');
+  });
+
+  it('should key join collections on both sides', () => {
+    const student: Schema = {
+      name: 'Student',
+      label: 'Student',
+      fields: [{ name: 'name', label: 'Name', type: 'string', required: true }],
+      relationships: [{ type: 'manyToMany', target: 'Course', through: 'Enrollment' }],
+    };
+    const course: Schema = { name: 'Course', label: 'Course', fields: [{ name: 'title', label: 'Title', type: 'string', required: true }] };
+    const enrollment: Schema = { name: 'Enrollment', label: 'Enrollment', fields: [] };
+
+    const graph = resolveRelations([student, course, enrollment]);
+    expect(graph.foreignKeys.map(key => `${key.collection}.${key.field}:${key.onDelete}`)).toEqual([
+      'Enrollment.studentId:cascade',
+      'Enrollment.courseId:cascade',
+    ]);
+    expect(graph.relations.Student[0]).toMatchObject({ name: 'courses', many: true, through: { field: 'courseId' } });
+  });
+
+  it('should ignore relationships to schemas that are not part of the app', () => {
+    const graph = resolveRelations([{ ...taskSchema, relationships: [{ type: 'belongsTo', target: 'User' }] }]);
+    expect(graph.foreignKeys).toEqual([]);
+  });
+
+  it('should add undeclared foreign key fields', () => {
+    const schemas = [projectSchema, taskSchema, tagSchema];
+    const [, task] = withRelationFields(schemas, resolveRelations(schemas));
+    expect(task.fields.find(field => field.name === 'tagIds')).toMatchObject({ type: 'array', required: false });
+  });
+});
+
+describe('referential integrity', () => {
+  it('should reject writes that reference missing records', () => {
+    const { projects, tasks } = setup();
+    const project = projects.insert({ name: 'Launch' });
+
+    expect(tasks.insert({ title: 'Plan', projectId: project.id }).projectId).toBe(project.id);
+
+    const error = errorOf(() => tasks.insert({ title: 'Ghost', projectId: 'missing' }));
+    expect(error.code).toBe('VALIDATION_FAILED');
+    expect(error.issues).toEqual([{ path: 'projectId', message: 'No Project with id "missing"', code: 'reference' }]);
+    expect(tasks.count()).toBe(1);
+  });
+
+  it('should only check the references an update changes', () => {
+    const { tasks, tags } = setup();
+    const tag = tags.insert({ label: 'urgent' });
+    const task = tasks.insert({ title: 'Plan', tagIds: [tag.id] });
+
+    expect(tasks.update(task.id, { title: 'Plan more' })?.title).toBe('Plan more');
+    expect(errorOf(() => tasks.update(task.id, { tagIds: [tag.id, 'nope'] })).issues[0].path).toBe('tagIds');
+  });
+});
+
+describe('delete rules', () => {
+  it('should clear optional references', () => {
+    const { projects, tasks, tags } = setup();
+    const project = projects.insert({ name: 'Launch' });
+    const [urgent, later] = [tags.insert({ label: 'urgent' }), tags.insert({ label: 'later' })];
+    const task = tasks.insert({ title: 'Plan', projectId: project.id, tagIds: [urgent.id, later.id] });
+
+    projects.delete(project.id);
+    tags.delete(urgent.id);
+
+    const updated = tasks.get(task.id)!;
+    expect(updated.projectId).toBeUndefined();
+    expect(updated.tagIds).toEqual([later.id]);
+  });
+
+  it('should block deletes of records that required references point to', () => {
+    const required: Schema = {
+      ...taskSchema,
+      fields: [
+        { name: 'title', label: 'Title', type: 'string', required: true },
+        { name: 'projectId', label: 'Project', type: 'string', required: true },
+      ],
+    };
+    const { projects, tasks } = setup([projectSchema, required, tagSchema]);
+    const project = projects.insert({ name: 'Launch' });
+    tasks.insert({ title: 'Plan', projectId: project.id });
+
+    const error = errorOf(() => projects.delete(project.id));
+    expect(error.code).toBe('DELETE_RESTRICTED');
+    expect(error.message).toBe('Still referenced by 1 Task record');
+    expect(projects.get(project.id)).not.toBeNull();
+  });
+
+  it('should cascade, rolling everything back if a later rule blocks the delete', () => {
+    const cascading: Schema = { ...projectSchema, relationships: [{ type: 'hasMany', target: 'Task', onDelete: 'cascade' }] };
+    const comment: Schema = {
+      name: 'Comment',
+      label: 'Comment',
+      fields: [{ name: 'taskId', label: 'Task', type: 'string', required: true }],
+      relationships: [{ type: 'belongsTo', target: 'Task' }],
+    };
+    const { store, projects, tasks } = setup([cascading, taskSchema, tagSchema, comment]);
+    const events: string[] = [];
+    store.subscribe(event => events.push(`${event.type}:${event.collection}`));
+
+    const project = projects.insert({ name: 'Launch' });
+    const free = tasks.insert({ title: 'Free', projectId: project.id });
+    const blocked = tasks.insert({ title: 'Blocked', projectId: project.id });
+    store.collection('Comment').insert({ taskId: blocked.id });
+    events.length = 0;
+
+    expect(errorOf(() => projects.delete(project.id)).code).toBe('DELETE_RESTRICTED');
+    expect(events).toEqual([]);
+    expect(tasks.get(free.id)).not.toBeNull();
+    expect(projects.get(project.id)).not.toBeNull();
+
+    store.collection('Comment').delete(store.collection('Comment').list()[0].id);
+    events.length = 0;
+    expect(projects.delete(project.id)).toBe(true);
+    expect(tasks.count()).toBe(0);
+    expect(events).toEqual(['delete:Task', 'delete:Task', 'delete:Project']);
+  });
+
+  it('should stop cascading at records already being deleted', () => {
+    const node: Schema = {
+      name: 'Node',
+      label: 'Node',
+      fields: [{ name: 'name', label: 'Name', type: 'string', required: true }],
+      relationships: [{ type: 'belongsTo', target: 'Node', foreignKey: 'parentId', onDelete: 'cascade' }],
+    };
+    const store = new AppDataStore('app-1', new Database(':memory:'), [node]);
+    const nodes = store.collection('node');
+    const root = nodes.insert({ name: 'root' });
+    nodes.insert({ name: 'child', parentId: root.id });
+    nodes.update(root.id, { parentId: root.id });
+
+    expect(nodes.delete(root.id)).toBe(true);
+    expect(nodes.count()).toBe(0);
+  });
+});
+
+describe('include', () => {
+  it('should reject unknown relation names', () => {
+    const { store } = setup();
+    const error = errorOf(() => parseInclude('project,owner', store.relationsOf('Task')));
+    expect(error.code).toBe('INVALID_QUERY');
+    expect(error.issues[0].message).toBe('Unknown relation "owner" (available: project, tags)');
+  });
+
+  it('should attach related records in both directions', () => {
+    const { store, projects, tasks, tags } = setup();
+    const project = projects.insert({ name: 'Launch' });
+    const tag = tags.insert({ label: 'urgent' });
+    const task = tasks.insert({ title: 'Plan', projectId: project.id, tagIds: [tag.id] });
+    tasks.insert({ title: 'Loose' });
+
+    const expandedTasks = expandRelations(store, tasks.list(), parseInclude('project,tags', store.relationsOf('Task')));
+    expect(expandedTasks.map(row => [row.title, (row.project as { name: string } | null)?.name ?? null])).toEqual([
+      ['Plan', 'Launch'],
+      ['Loose', null],
+    ]);
+    expect(expandedTasks[0].tags).toEqual([tag]);
+
+    const [expandedProject] = expandRelations(store, projects.list(), parseInclude('tasks', store.relationsOf('Project')));
+    expect((expandedProject.tasks as { id: string }[]).map(row => row.id)).toEqual([task.id]);
+
+    const [expandedTag] = expandRelations(store, tags.list(), parseInclude('tasks', store.relationsOf('Tag')));
+    expect((expandedTag.tasks as { id: string }[]).map(row => row.id)).toEqual([task.id]);
+  });
+});
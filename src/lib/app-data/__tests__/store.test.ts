@@ -0,0 +1,235 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * App Data Store Tests
+ * Tests for per-app SQLite tables, row-level writes and the legacy App.data import
+ */
+
+import Database from 'better-sqlite3';
+import { AppDataStore, AppDataError } from '../store';
+import { resolveAppSchemas } from '../schema';
+import { importLegacyAppData } from '../legacy-migration';
+import type { Schema } from '@/lib/scaffolder-v2/types';
+
+const taskSchema: Schema = {
+  name: 'task',
+  label: 'Task',
+  fields: [
+    { name: 'id', label: 'ID', type: 'string', required: true, generated: true, primaryKey: true },
+    { name: 'title', label: 'Title', type: 'string', required: true },
+    { name: 'estimate', label: 'Estimate', type: 'number', required: false },
+    { name: 'done', label: 'Done', type: 'boolean', required: false },
+    { name: 'tags', label: 'Tags', type: 'array', required: false },
+    { name: 'status', label: 'Status', type: 'enum', required: false, options: ['Todo', 'Done'] },
+  ],
+};
+
+function createStore(schemas: Schema[] = [taskSchema], db = new Database(':memory:')) {
+  return new AppDataStore('app-1', db, schemas);
+}
+
+describe('AppDataStore - tables', () => {
+  it('should create a table with a column per field', () => {
+    const db = new Database(':memory:');
+    createStore([taskSchema], db);
+
+    const columns = (db.prepare('PRAGMA table_info("task")').all() as { name: string; type: string }[]);
+    const byName = Object.fromEntries(columns.map(c => [c.name, c.type]));
+
+    expect(byName).toMatchObject({
+      id: 'TEXT',
+      createdAt: 'TEXT',
+      updatedAt: 'TEXT',
+      title: 'TEXT',
+      estimate: 'REAL',
+      done: 'INTEGER',
+      tags: 'TEXT',
+      _extra: 'TEXT',
+    });
+  });
+
+  it('should add columns for fields added to the schema later', () => {
+    const db = new Database(':memory:');
+    createStore([taskSchema], db);
+
+    const extended: Schema = {
+      ...taskSchema,
+      fields: [...taskSchema.fields, { name: 'priority', label: 'Priority', type: 'number', required: false }],
+    };
+    createStore([extended], db);
+
+    const columns = (db.prepare('PRAGMA table_info("task")').all() as { name: string }[]).map(c => c.name);
+    expect(columns).toContain('priority');
+  });
+
+  it('should fall back to a schemaless collection', () => {
+    const store = createStore([]);
+    const record = store.collection().insert({ anything: 'goes' });
+
+    expect(store.collectionNames()).toEqual(['records']);
+    expect(store.collection().get(record.id)).toMatchObject({ anything: 'goes' });
+  });
+});
+
+describe('AppDataStore - records', () => {
+  it('should round-trip typed values', () => {
+    const collection = createStore().collection();
+    const record = collection.insert({ title: 'Write tests', estimate: 2.5, done: true, tags: ['a', 'b'] });
+
+    const loaded = collection.get(record.id);
+    expect(loaded).toMatchObject({ title: 'Write tests', estimate: 2.5, done: true, tags: ['a', 'b'] });
+    expect(loaded?.createdAt).toBeDefined();
+  });
+
+  it('should keep properties that are not in the schema', () => {
+    const collection = createStore().collection();
+    const record = collection.insert({ title: 'Extra', color: 'blue' });
+
+    expect(collection.get(record.id)).toMatchObject({ title: 'Extra', color: 'blue' });
+  });
+
+  it('should reject duplicate IDs', () => {
+    const collection = createStore().collection();
+    collection.insert({ id: 'r1', title: 'First' });
+
+    expect(() => collection.insert({ id: 'r1', title: 'Second' })).toThrow(AppDataError);
+  });
+
+  it('should update only the targeted row', () => {
+    const collection = createStore().collection();
+    const a = collection.insert({ title: 'A', done: false });
+    const b = collection.insert({ title: 'B', done: false });
+
+    const updated = collection.update(a.id, { done: true, createdAt: 'ignored' });
+
+    expect(updated).toMatchObject({ title: 'A', done: true, createdAt: a.createdAt });
+    expect(collection.get(b.id)).toMatchObject({ done: false });
+  });
+
+  it('should refuse a version-checked update after someone else wrote the record', () => {
+    const collection = createStore().collection();
+    const record = collection.insert({ title: 'A' });
+    const first = collection.update(record.id, { title: 'B' }, { expectedUpdatedAt: record.updatedAt })!;
+
+    expect(first.updatedAt > record.updatedAt).toBe(true);
+    expect(() => collection.update(record.id, { title: 'C' }, { expectedUpdatedAt: record.updatedAt }))
+      .toThrow(expect.objectContaining({ code: 'CONFLICT' }));
+    expect(collection.get(record.id)).toMatchObject({ title: 'B' });
+
+    // Without a version the last write wins
+    expect(collection.update(record.id, { title: 'D' })).toMatchObject({ title: 'D' });
+  });
+
+  it('should return null when updating a missing record', () => {
+    expect(createStore().collection().update('missing', { title: 'x' })).toBeNull();
+  });
+
+  it('should delete a single record', () => {
+    const collection = createStore().collection();
+    const a = collection.insert({ title: 'A' });
+    collection.insert({ title: 'B' });
+
+    expect(collection.delete(a.id)).toBe(true);
+    expect(collection.delete(a.id)).toBe(false);
+    expect(collection.count()).toBe(1);
+  });
+
+  it('should list in insertion order or newest first', () => {
+    const collection = createStore().collection();
+    collection.insert({ title: 'First' });
+    collection.insert({ title: 'Second' });
+
+    expect(collection.list().map(r => r.title)).toEqual(['First', 'Second']);
+    expect(collection.list({ newestFirst: true }).map(r => r.title)).toEqual(['Second', 'First']);
+  });
+
+  it('should publish change events only once a transaction commits', () => {
+    const store = createStore();
+    const collection = store.collection();
+    const events: string[] = [];
+    store.subscribe(event => events.push(`${event.type}:${event.record.title}`));
+
+    store.transaction(() => {
+      collection.insert({ title: 'A' });
+      expect(events).toEqual([]);
+      try {
+        store.transaction(() => {
+          collection.insert({ title: 'Rolled back' });
+          throw new Error('inner');
+        });
+      } catch {
+        // The nested transaction's write and its event are discarded
+      }
+      collection.insert({ title: 'B' });
+    });
+    expect(events).toEqual(['create:A', 'create:B']);
+
+    events.length = 0;
+    expect(() => store.transaction(() => {
+      collection.insert({ title: 'C' });
+      throw new Error('outer');
+    })).toThrow('outer');
+    expect(events).toEqual([]);
+    expect(collection.list().map(r => r.title)).toEqual(['A', 'B']);
+  });
+});
+
+describe('importLegacyAppData', () => {
+  const legacy = JSON.stringify([
+    { id: 'r1', title: 'Old task', createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z' },
+    { title: 'No id yet' },
+  ]);
+
+  it('should import legacy records once', () => {
+    const store = createStore();
+
+    const first = importLegacyAppData(store, legacy);
+    const second = importLegacyAppData(store, legacy);
+
+    expect(first).toEqual({ imported: 2, skipped: 0, alreadyImported: false });
+    expect(second.alreadyImported).toBe(true);
+    expect(store.collection().count()).toBe(2);
+    expect(store.collection().get('r1')).toMatchObject({ title: 'Old task', createdAt: '2024-01-01T00:00:00.000Z' });
+  });
+
+  it('should skip existing IDs when forced', () => {
+    const store = createStore();
+    importLegacyAppData(store, legacy);
+
+    const forced = importLegacyAppData(store, legacy, { force: true });
+
+    expect(forced.skipped).toBe(1);
+    expect(store.collection().count()).toBe(3);
+  });
+
+  it('should tolerate malformed data', () => {
+    const store = createStore();
+    expect(importLegacyAppData(store, 'not json').imported).toBe(0);
+  });
+});
+
+describe('resolveAppSchemas', () => {
+  it('should read the V2 finalize format', () => {
+    expect(resolveAppSchemas(JSON.stringify({ schema: taskSchema, layout: null }))[0].name).toBe('task');
+  });
+
+  it('should read a bare schema', () => {
+    expect(resolveAppSchemas(taskSchema)).toHaveLength(1);
+  });
+
+  it('should convert V1 data stores', () => {
+    const schemas = resolveAppSchemas({
+      name: 'Expenses',
+      dataStore: { name: 'expense', label: 'Expense', fields: [{ name: 'amount', label: 'Amount', type: 'number' }] },
+    });
+
+    expect(schemas[0].name).toBe('expense');
+    expect(schemas[0].fields.find(f => f.name === 'amount')?.type).toBe('number');
+  });
+
+  it('should return nothing for unparseable specs', () => {
+    expect(resolveAppSchemas('{broken')).toEqual([]);
+  });
+});
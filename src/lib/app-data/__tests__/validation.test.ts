@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * App Data Validation Tests
+ * Tests for schema-driven coercion, constraint checks and unique fields
+ */
+
+import Database from 'better-sqlite3';
+import { AppDataStore, AppDataError } from '../store';
+import { validateRecord, prepareWrite, toFieldErrors } from '../validation';
+import type { Schema } from '@/lib/scaffolder-v2/types';
+
+const contactSchema: Schema = {
+  name: 'contact',
+  label: 'Contact',
+  fields: [
+    { name: 'id', label: 'ID', type: 'string', required: true, generated: true, primaryKey: true },
+    { name: 'name', label: 'Name', type: 'string', required: true, validation: { minLength: 2, maxLength: 20 } },
+    { name: 'email', label: 'Email', type: 'string', required: true, unique: true, validation: { pattern: '^[^@]+@[^@]+$', message: 'Enter a valid email' } },
+    { name: 'age', label: 'Age', type: 'number', required: false, validation: { min: 0, max: 150 } },
+    { name: 'vip', label: 'VIP', type: 'boolean', required: false },
+    { name: 'birthday', label: 'Birthday', type: 'date', required: false },
+    { name: 'stage', label: 'Stage', type: 'enum', required: true, options: ['Lead', 'Customer'], defaultValue: 'Lead' },
+    { name: 'tags', label: 'Tags', type: 'array', required: false, validation: { max: 2 } },
+  ],
+};
+
+function issuesOf(input: Record<string, unknown>, partial = false) {
+  return toFieldErrors(validateRecord(contactSchema, input, { partial }).issues);
+}
+
+describe('validateRecord', () => {
+  it('should coerce form values to field types', () => {
+    const { record, issues } = validateRecord(contactSchema, {
+      name: 'Ada',
+      email: 'ada@example.com',
+      age: '36',
+      vip: 'on',
+      birthday: '1815-12-10',
+      tags: '["math"]',
+    });
+
+    expect(issues).toEqual([]);
+    expect(record).toMatchObject({ age: 36, vip: true, birthday: '1815-12-10', tags: ['math'], stage: 'Lead' });
+  });
+
+  it('should require missing fields on create but not on partial updates', () => {
+    expect(issuesOf({})).toEqual({ name: 'Name is required', email: 'Email is required' });
+    expect(issuesOf({ age: 3 }, true)).toEqual({});
+  });
+
+  it('should reject clearing a required field on update', () => {
+    expect(issuesOf({ name: '' }, true)).toEqual({ name: 'Name is required' });
+  });
+
+  it('should clear optional fields that are sent empty', () => {
+    const { record } = validateRecord(contactSchema, { age: '' }, { partial: true });
+    expect(record.age).toBeNull();
+  });
+
+  it('should report values of the wrong type', () => {
+    expect(issuesOf({ name: 'Ada', email: 'a@b', age: 'old', vip: 'maybe', birthday: 'someday' })).toEqual({
+      age: 'Age must be a number',
+      vip: 'VIP must be true or false',
+      birthday: 'Birthday must be a valid date',
+    });
+  });
+
+  it('should enforce enum options and validation rules', () => {
+    expect(issuesOf({ name: 'A', email: 'nope', age: 200, stage: 'Partner', tags: ['a', 'b', 'c'] })).toEqual({
+      name: 'Name must be at least 2 characters',
+      email: 'Enter a valid email',
+      age: 'Age must be at most 150',
+      stage: 'Stage must be one of: Lead, Customer',
+      tags: 'Tags allows at most 2 items',
+    });
+  });
+
+  it('should tag issues with a machine-readable code', () => {
+    const { issues } = validateRecord(contactSchema, { email: 'a@b', age: -1 });
+    expect(issues.map(i => [i.path, i.code])).toEqual([['name', 'required'], ['age', 'min']]);
+  });
+
+  it('should pass keys outside the schema through', () => {
+    expect(validateRecord(contactSchema, { name: 'Ada', email: 'a@b', note: 'hi' }).record.note).toBe('hi');
+  });
+
+  it('should accept anything when there is no schema', () => {
+    expect(validateRecord(null, { whatever: 1 }).issues).toEqual([]);
+  });
+});
+
+describe('prepareWrite', () => {
+  function collection() {
+    return new AppDataStore('app-1', new Database(':memory:'), [contactSchema]).collection();
+  }
+
+  function errorOf(fn: () => unknown): AppDataError {
+    try {
+      fn();
+    } catch (error) {
+      return error as AppDataError;
+    }
+    throw new Error('Expected a validation error');
+  }
+
+  it('should return the coerced record', () => {
+    const contacts = collection();
+    const stored = contacts.insert(prepareWrite(contacts, { name: 'Ada', email: 'ada@example.com', age: '36' }));
+    expect(stored.age).toBe(36);
+  });
+
+  it('should enforce unique fields on insert', () => {
+    const contacts = collection();
+    contacts.insert(prepareWrite(contacts, { name: 'Ada', email: 'ada@example.com' }));
+
+    const error = errorOf(() => prepareWrite(contacts, { name: 'Other Ada', email: 'ada@example.com' }));
+    expect(error).toBeInstanceOf(AppDataError);
+    expect(error.code).toBe('VALIDATION_FAILED');
+    expect(toFieldErrors(error.issues)).toEqual({ email: 'Email must be unique' });
+  });
+
+  it('should let a record keep its own unique value on update', () => {
+    const contacts = collection();
+    const ada = contacts.insert(prepareWrite(contacts, { name: 'Ada', email: 'ada@example.com' }));
+    contacts.insert(prepareWrite(contacts, { name: 'Grace', email: 'grace@example.com' }));
+
+    expect(() => prepareWrite(contacts, { email: 'ada@example.com' }, ada.id)).not.toThrow();
+    expect(errorOf(() => prepareWrite(contacts, { email: 'grace@example.com' }, ada.id)).code).toBe('VALIDATION_FAILED');
+  });
+
+  it('should reject bodies that are not objects', () => {
+    expect(errorOf(() => prepareWrite(collection(), ['not', 'a', 'record'])).code).toBe('VALIDATION_FAILED');
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * App Data Change Feed
+ * Fans committed record writes out to every open client of an app as
+ * Server-Sent Events, with a short replay buffer for reconnects
+ */
+
+import { randomBytes } from 'crypto';
+import type { DataRecord } from '@/lib/primitives/types';
+import type { DataChangeType } from './store';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A committed write as sent to clients
+ */
+export interface AppChange {
+  /** Position in the app's feed; event ids are `<epoch>:<seq>` */
+  seq: number;
+  type: DataChangeType;
+  collection: string;
+  /** The record after the write, with computed values (or as it was, for deletes) */
+  record: DataRecord;
+  at: string;
+}
+
+export type AppChangeListener = (change: AppChange) => void;
+
+/** Changes kept per app for clients that reconnect with Last-Event-ID */
+export const CHANGE_REPLAY_LIMIT = 200;
+
+/** Interval of the keep-alive comment that stops proxies closing idle streams */
+export const CHANGE_HEARTBEAT_MS = 25 * 1000;
+
+// ============================================================================
+// Feed
+// ============================================================================
+
+interface AppFeed {
+  seq: number;
+  recent: AppChange[];
+  listeners: Set<AppChangeListener>;
+}
+
+/**
+ * Per-process change feed. Sequence numbers restart with the process, so each
+ * process has its own epoch and clients from an older one are told to reload.
+ */
+export class AppChangeFeed {
+  public readonly epoch = randomBytes(4).toString('hex');
+  private readonly feeds: Map<string, AppFeed> = new Map();
+
+  private feed(appId: string): AppFeed {
+    let feed = this.feeds.get(appId);
+    if (!feed) {
+      feed = { seq: 0, recent: [], listeners: new Set() };
+      this.feeds.set(appId, feed);
+    }
+    return feed;
+  }
+
+  public publish(appId: string, change: Omit<AppChange, 'seq' | 'at'>): AppChange {
+    const feed = this.feed(appId);
+    const published: AppChange = { ...change, seq: ++feed.seq, at: new Date().toISOString() };
+
+    feed.recent.push(published);
+    if (feed.recent.length > CHANGE_REPLAY_LIMIT) {
+      feed.recent.shift();
+    }
+
+    for (const listener of Array.from(feed.listeners)) {
+      try {
+        listener(published);
+      } catch (error) {
+        console.error(`[AppData ${appId}] Change feed listener failed:`, error);
+      }
+    }
+    return published;
+  }
+
+  /**
+   * Listen for an app's changes. Returns an unsubscribe function.
+   */
+  public subscribe(appId: string, listener: AppChangeListener): () => void {
+    const feed = this.feed(appId);
+    feed.listeners.add(listener);
+    return () => {
+      feed.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Changes after a client's Last-Event-ID, or null when they can't be
+   * replayed (another epoch, or older than the buffer) and the client must reload
+   */
+  public changesSince(appId: string, lastEventId: string): AppChange[] | null {
+    const [epoch, rawSeq] = lastEventId.split(':');
+    const seq = Number(rawSeq);
+    if (epoch !== this.epoch || !Number.isInteger(seq)) return null;
+
+    const feed = this.feed(appId);
+    if (seq > feed.seq) return null;
+    if (seq === feed.seq) return [];
+
+    const oldest = feed.recent[0]?.seq ?? feed.seq + 1;
+    if (seq + 1 < oldest) return null;
+    return feed.recent.filter(change => change.seq > seq);
+  }
+
+  public eventId(change: AppChange): string {
+    return `${this.epoch}:${change.seq}`;
+  }
+
+  public listenerCount(appId: string): number {
+    return this.feeds.get(appId)?.listeners.size ?? 0;
+  }
+}
+
+export const appChangeFeed = new AppChangeFeed();
+
+// ============================================================================
+// Server-Sent Events
+// ============================================================================
+
+/**
+ * Format one SSE message
+ */
+export function formatServerEvent(event: string, data: unknown, id?: string): string {
+  return `${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Stream an app's changes as `change` events until the client disconnects.
+ * A client resuming from an id that can't be replayed gets a `reset` event
+ * and should refetch its data.
+ */
+export function changeFeedResponse(
+  appId: string,
+  options: { lastEventId?: string | null; signal?: AbortSignal; feed?: AppChangeFeed } = {}
+): Response {
+  const feed = options.feed ?? appChangeFeed;
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          cleanup();
+        }
+      };
+      const sendChange = (change: AppChange) => {
+        const { seq: _seq, ...data } = change;
+        send(formatServerEvent('change', data, feed.eventId(change)));
+      };
+
+      const unsubscribe = feed.subscribe(appId, sendChange);
+      const heartbeat = setInterval(() => send(': ping\n\n'), CHANGE_HEARTBEAT_MS);
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+
+      // Tell EventSource how long to wait before reconnecting
+      send('retry: 3000\n\n');
+      if (options.lastEventId) {
+        const missed = feed.changesSince(appId, options.lastEventId);
+        if (missed) {
+          missed.forEach(sendChange);
+        } else {
+          send(formatServerEvent('reset', { reason: 'Changes since the last event are not available' }));
+        }
+      }
+      send(formatServerEvent('ready', { epoch: feed.epoch }));
+
+      options.signal?.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
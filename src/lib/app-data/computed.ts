@@ -0,0 +1,76 @@
+/**
+ * Computed Values
+ * Adds a schema's computed fields to records read from the data store
+ */
+
+import type { DataRecord } from '@/lib/primitives/types';
+import type { Schema } from '@/lib/scaffolder-v2/types';
+import {
+  computeValues,
+  formulaRelations,
+  referencedRelations,
+  relationKeys,
+  type FormulaRelation,
+} from '@/lib/formulas';
+import type { AppDataStore, DataCollection } from './store';
+import { loadRelated } from './include';
+
+/**
+ * Load the related records one formula relation reads, using the store's
+ * resolved foreign keys (declared name first, then any relation to the target)
+ */
+function relatedLookup(
+  store: AppDataStore,
+  collection: DataCollection,
+  relation: FormulaRelation,
+  records: DataRecord[]
+): (record: DataRecord) => unknown {
+  const candidates = store.relationsOf(collection.name);
+  const target = relation.relationship.target.toLowerCase();
+  const match =
+    candidates.find(candidate => candidate.name.toLowerCase() === relation.alias.toLowerCase()) ||
+    candidates.find(candidate => candidate.target.toLowerCase() === target && candidate.many === relation.many);
+  if (!match) {
+    return () => (relation.many ? [] : null);
+  }
+
+  const related = loadRelated(store, match, records);
+  return record => related.get(record.id) ?? (relation.many ? [] : null);
+}
+
+/**
+ * Evaluate a collection's computed fields for a page of records.
+ * Related collections are read once per call, and only when a formula uses them.
+ */
+export function withComputedValues(
+  store: AppDataStore,
+  collection: DataCollection,
+  records: DataRecord[],
+  now: Date = new Date()
+): DataRecord[] {
+  const schema = collection.schema;
+  const computed = schema?.computedFields || [];
+  if (!schema || computed.length === 0 || records.length === 0) return records;
+
+  const schemas = store.collectionNames()
+    .map(name => store.collection(name).schema)
+    .filter((candidate): candidate is Schema => candidate !== null);
+  const relations = referencedRelations(computed, formulaRelations(schema, schemas));
+  const lookups = relations.map(relation => ({ relation, lookup: relatedLookup(store, collection, relation, records) }));
+
+  return records.map(record => {
+    const related: Record<string, unknown> = {};
+    for (const { relation, lookup } of lookups) {
+      const value = lookup(record);
+      for (const key of relationKeys(relation)) related[key] = value;
+    }
+    return computeValues(record, computed, { related, now });
+  });
+}
+
+/**
+ * Single-record variant of withComputedValues
+ */
+export function withComputedValue(store: AppDataStore, collection: DataCollection, record: DataRecord): DataRecord {
+  return withComputedValues(store, collection, [record])[0];
+}
@@ -0,0 +1,144 @@
+/**
+ * Related Record Loading
+ * Expands a page of records with the records they are related to, for the
+ * data API's `include` parameter and for computed fields that read relations.
+ *
+ * Related collections are read with one query per relation, not per record.
+ */
+
+import type { DataRecord } from '@/lib/primitives/types';
+import { AppDataError, type AppDataIssue, type AppDataStore, type DataCollection } from './store';
+import type { CollectionRelation } from './relations';
+
+/**
+ * Parse `include=project,tasks` against the relations a collection has
+ *
+ * @throws AppDataError with code INVALID_QUERY naming relations that don't exist
+ */
+export function parseInclude(value: string | null | undefined, relations: CollectionRelation[]): CollectionRelation[] {
+  if (!value) return [];
+
+  const issues: AppDataIssue[] = [];
+  const selected: CollectionRelation[] = [];
+  for (const name of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const relation = relations.find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+    if (!relation) {
+      const available = relations.map(candidate => candidate.name);
+      issues.push({
+        path: 'include',
+        message: available.length > 0
+          ? `Unknown relation "${name}" (available: ${available.join(', ')})`
+          : `Unknown relation "${name}"`,
+      });
+    } else if (!selected.includes(relation)) {
+      selected.push(relation);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new AppDataError('Invalid query parameters', 'INVALID_QUERY', issues);
+  }
+  return selected;
+}
+
+function idsOf(value: unknown): string[] {
+  return (Array.isArray(value) ? value : [value])
+    .filter(id => id !== null && id !== undefined && id !== '')
+    .map(String);
+}
+
+function findByIds(collection: DataCollection, ids: string[]): DataRecord[] {
+  if (ids.length === 0) return [];
+  return collection.query({ filters: [{ field: 'id', operator: 'in', value: ids }], sort: [], offset: 0 }).records;
+}
+
+function groupBy(records: DataRecord[], field: string): Map<string, DataRecord[]> {
+  const groups = new Map<string, DataRecord[]>();
+  for (const record of records) {
+    for (const id of idsOf(record[field])) {
+      const group = groups.get(id) || [];
+      group.push(record);
+      groups.set(id, group);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Load the records related to each of `records` through one relation.
+ * Returns, per record id, a list for `many` relations and a record (or null) otherwise.
+ */
+export function loadRelated(
+  store: AppDataStore,
+  relation: CollectionRelation,
+  records: DataRecord[]
+): Map<string, DataRecord | DataRecord[] | null> {
+  const result = new Map<string, DataRecord | DataRecord[] | null>();
+  const target = store.collection(relation.target);
+  const { key, through } = relation;
+
+  const finish = (record: DataRecord, related: DataRecord[]) => {
+    result.set(record.id, relation.many ? related : related[0] ?? null);
+  };
+
+  if (relation.direction === 'outgoing') {
+    // This collection holds the key: look the targets up by id
+    const byId = new Map(
+      findByIds(target, Array.from(new Set(records.flatMap(record => idsOf(record[key.field])))))
+        .map(row => [row.id, row])
+    );
+    for (const record of records) {
+      finish(record, idsOf(record[key.field]).map(id => byId.get(id)).filter((row): row is DataRecord => !!row));
+    }
+    return result;
+  }
+
+  const ids = records.map(record => record.id);
+  const holder = store.collection(key.collection);
+  const referencing = holder.query({
+    filters: key.many ? [] : [{ field: key.field, operator: 'in', value: ids }],
+    sort: [],
+    offset: 0,
+  }).records;
+
+  if (!through) {
+    const groups = groupBy(referencing, key.field);
+    for (const record of records) finish(record, groups.get(record.id) || []);
+    return result;
+  }
+
+  // Join collection: rows hold both keys, so follow the second key to the target
+  const byId = new Map(
+    findByIds(target, Array.from(new Set(referencing.flatMap(row => idsOf(row[through.field])))))
+      .map(row => [row.id, row])
+  );
+  const groups = groupBy(referencing, key.field);
+  for (const record of records) {
+    const related = (groups.get(record.id) || [])
+      .flatMap(row => idsOf(row[through.field]))
+      .map(id => byId.get(id))
+      .filter((row): row is DataRecord => !!row);
+    finish(record, related);
+  }
+  return result;
+}
+
+/**
+ * Attach related records to a page of records, each under its relation's name
+ */
+export function expandRelations(
+  store: AppDataStore,
+  records: DataRecord[],
+  relations: CollectionRelation[]
+): DataRecord[] {
+  if (relations.length === 0 || records.length === 0) return records;
+
+  const loaded = relations.map(relation => ({ relation, related: loadRelated(store, relation, records) }));
+  return records.map(record => {
+    const expanded: DataRecord = { ...record };
+    for (const { relation, related } of loaded) {
+      expanded[relation.name] = related.get(record.id) ?? (relation.many ? [] : null);
+    }
+    return expanded;
+  });
+}
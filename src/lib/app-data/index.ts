@@ -0,0 +1,107 @@
+/**
+ * App Data Module Index
+ * SQLite-backed record storage for generated apps
+ */
+
+export {
+  AppDataStore,
+  DataCollection,
+  AppDataError,
+  DEFAULT_COLLECTION,
+  SYSTEM_COLUMNS,
+  SYSTEM_QUERY_FIELDS,
+  SEARCHABLE_TYPES,
+  toIdentifier,
+  type AppDataErrorCode,
+  type AppDataIssue,
+  type CollectionHooks,
+  type DataChangeEvent,
+  type DataChangeType,
+  type DataChangeListener,
+  type UpdateOptions,
+} from './store';
+
+export {
+  AppChangeFeed,
+  appChangeFeed,
+  changeFeedResponse,
+  formatServerEvent,
+  CHANGE_REPLAY_LIMIT,
+  CHANGE_HEARTBEAT_MS,
+  type AppChange,
+  type AppChangeListener,
+} from './changes';
+
+export {
+  resolveRelations,
+  withRelationFields,
+  foreignKeyFor,
+  type CollectionRelation,
+  type DeleteRule,
+  type ForeignKey,
+  type RelationGraph,
+} from './relations';
+
+export {
+  parseInclude,
+  loadRelated,
+  expandRelations,
+} from './include';
+
+export {
+  parseDataQuery,
+  paginationFor,
+  filterOperatorsFor,
+  MAX_QUERY_LIMIT,
+  type DataQuery,
+  type DataQueryResult,
+  type DataFilter,
+  type DataSort,
+  type DataPagination,
+  type FilterOperator,
+  type SortDirection,
+} from './query';
+
+export {
+  validateRecord,
+  coerceFieldValue,
+  prepareWrite,
+  toFieldErrors,
+  type FieldErrorCode,
+  type RecordValidationResult,
+  type ValidateRecordOptions,
+} from './validation';
+
+export {
+  withComputedValues,
+  withComputedValue,
+} from './computed';
+
+export {
+  buildAppOpenApiDocument,
+  type OpenApiDocument,
+  type OpenApiAppInfo,
+  type JsonSchema,
+} from './openapi';
+
+export {
+  parseAppSpec,
+  resolveAppSchemas,
+  resolvePrimarySchema,
+} from './schema';
+
+export {
+  importLegacyAppData,
+  parseLegacyAppData,
+  LEGACY_IMPORT_KEY,
+  type LegacyImportResult,
+} from './legacy-migration';
+
+export {
+  openAppDataStore,
+  openAppWorkflowEngine,
+  withAppWorkflowEngine,
+  loadAppDataStore,
+  evictAppDataStore,
+  type AppDataSource,
+} from './open';
@@ -0,0 +1,60 @@
+/**
+ * Legacy App.data Migration
+ * One-time import of the JSON array previously stored in the App.data column
+ */
+
+import type { AppDataStore } from './store';
+
+/** Meta key recording that App.data has been imported into the store */
+export const LEGACY_IMPORT_KEY = 'legacy_app_data_imported';
+
+export interface LegacyImportResult {
+  imported: number;
+  skipped: number;
+  alreadyImported: boolean;
+}
+
+/**
+ * Parse the legacy App.data column (JSON string or array) into records
+ */
+export function parseLegacyAppData(data: unknown): Record<string, unknown>[] {
+  let parsed = data;
+  if (typeof data === 'string') {
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return [];
+    }
+  }
+
+  if (!Array.isArray(parsed)) return [];
+  return parsed.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object');
+}
+
+/**
+ * Import legacy App.data records into the app's primary collection.
+ *
+ * Runs at most once per app database: the import is recorded in the store's
+ * meta table. App.data itself is left untouched as the pre-migration snapshot.
+ */
+export function importLegacyAppData(
+  store: AppDataStore,
+  legacyData: unknown,
+  options: { force?: boolean } = {}
+): LegacyImportResult {
+  if (!options.force && store.getMeta(LEGACY_IMPORT_KEY)) {
+    return { imported: 0, skipped: 0, alreadyImported: true };
+  }
+
+  const records = parseLegacyAppData(legacyData);
+
+  return store.transaction(() => {
+    const inserted = store.collection().insertMany(records);
+    store.setMeta(LEGACY_IMPORT_KEY, new Date().toISOString());
+    return {
+      imported: inserted.length,
+      skipped: records.length - inserted.length,
+      alreadyImported: false,
+    };
+  });
+}
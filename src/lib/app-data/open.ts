@@ -0,0 +1,132 @@
+/**
+ * App Data Store access
+ * Opens (and caches) the SQLite-backed data store for a generated app
+ */
+
+import type { App } from '@prisma/client';
+import prisma from '@/lib/db';
+import { nebulaDbManager } from '@/lib/nebula/db-manager';
+import { AppDataStore } from './store';
+import { resolveAppSchemas } from './schema';
+import { importLegacyAppData } from './legacy-migration';
+import { withComputedValue } from './computed';
+import { appChangeFeed } from './changes';
+import { WorkflowEngine } from '@/lib/workflows/engine';
+import { resolveAppWorkflows } from '@/lib/workflows/definitions';
+import { dispatchWebhookEvent } from '@/lib/webhooks/deliveries';
+
+export type AppDataSource = Pick<App, 'id' | 'spec' | 'data'>;
+
+interface CachedStore {
+  specKey: string;
+  store: AppDataStore;
+  workflows: WorkflowEngine;
+}
+
+const storeCache: Map<string, CachedStore> = new Map();
+
+function specKeyOf(spec: unknown): string {
+  return typeof spec === 'string' ? spec : JSON.stringify(spec ?? null);
+}
+
+/**
+ * Create an app's store and workflow engine, publishing committed writes on
+ * the change feed and to webhooks
+ */
+function attach(app: Pick<App, 'id' | 'spec'>): CachedStore {
+  const store = new AppDataStore(app.id, nebulaDbManager.getDb(app.id), resolveAppSchemas(app.spec));
+  const workflows = new WorkflowEngine(store, resolveAppWorkflows(app.spec));
+  store.subscribe(event => {
+    const collection = store.collection(event.collection);
+    const record = event.type === 'delete' ? event.record : withComputedValue(store, collection, event.record);
+    appChangeFeed.publish(app.id, { type: event.type, collection: collection.name, record });
+    dispatchWebhookEvent(app.id, {
+      type: event.type,
+      collection: collection.name,
+      record,
+      ...(event.previous && { previous: withComputedValue(store, collection, event.previous) }),
+    }).catch(error => console.error(`[Webhooks ${app.id}] Dispatch failed:`, error));
+  });
+  return { specKey: specKeyOf(app.spec), store, workflows };
+}
+
+function openCached(app: AppDataSource): CachedStore {
+  const specKey = specKeyOf(app.spec);
+  const cached = storeCache.get(app.id);
+  if (cached && cached.specKey === specKey) {
+    return cached;
+  }
+  cached?.workflows.detach();
+
+  // Workflows are attached before the legacy import; imported rows use insertMany, which emits no events
+  const entry = attach(app);
+  const result = importLegacyAppData(entry.store, app.data);
+  if (result.imported > 0) {
+    console.log(`[AppData ${app.id}] Imported ${result.imported} legacy records from App.data`);
+  }
+
+  storeCache.set(app.id, entry);
+  return entry;
+}
+
+/**
+ * Open the data store for an app row.
+ *
+ * Tables are created (or extended) from the app's V2 schemas the first time a
+ * given spec is seen, and legacy App.data records are imported once. Writes
+ * through the store are published on the app's change feed.
+ */
+export function openAppDataStore(app: AppDataSource): AppDataStore {
+  return openCached(app).store;
+}
+
+/**
+ * Open the workflow engine for an app row. The engine is subscribed to the
+ * app's data store, so record writes through that store run its workflows.
+ */
+export function openAppWorkflowEngine(app: AppDataSource): WorkflowEngine {
+  return openCached(app).workflows;
+}
+
+/**
+ * Run `fn` with an app's workflow engine without keeping the app open. An
+ * already open engine is used as is; otherwise a temporary store is opened and
+ * closed again afterwards, and legacy App.data is left for the next real open.
+ */
+export function withAppWorkflowEngine<T>(app: Pick<App, 'id' | 'spec'>, fn: (engine: WorkflowEngine) => T): T {
+  const cached = storeCache.get(app.id);
+  if (cached && cached.specKey === specKeyOf(app.spec)) {
+    return fn(cached.workflows);
+  }
+
+  const keepDb = nebulaDbManager.isOpen(app.id);
+  const entry = attach(app);
+  try {
+    return fn(entry.workflows);
+  } finally {
+    entry.workflows.detach();
+    if (!keepDb) {
+      nebulaDbManager.closeDb(app.id);
+    }
+  }
+}
+
+/**
+ * Look up an app by ID and open its data store
+ */
+export async function loadAppDataStore(appId: string): Promise<AppDataStore | null> {
+  const app = await prisma.app.findUnique({
+    where: { id: appId },
+    select: { id: true, spec: true, data: true },
+  });
+
+  return app ? openAppDataStore(app) : null;
+}
+
+/**
+ * Drop a cached store (e.g. after the app was deleted)
+ */
+export function evictAppDataStore(appId: string): void {
+  storeCache.get(appId)?.workflows.detach();
+  storeCache.delete(appId);
+}
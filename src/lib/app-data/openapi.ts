@@ -0,0 +1,448 @@
+/**
+ * App OpenAPI Document
+ * Describes an app's data API from its V2 Schemas, so every app gets a typed
+ * endpoint description that API clients and code generators can read.
+ *
+ * Each collection becomes three component schemas:
+ * - `<Name>` a stored record, with system and computed fields (read-only)
+ * - `<Name>Input` the body of a create, with the schema's required fields
+ * - `<Name>Update` the body of a partial update, which needs only the id
+ *
+ * Every collection is served by the same `/data` path, selected with
+ * `?collection=`, so apps with several collections describe bodies as `oneOf`.
+ */
+
+import type { ComputedField, FieldDefinition, FieldType, Schema } from '@/lib/scaffolder-v2/types';
+import { foreignKeyFor, resolveRelations, withRelationFields, type ForeignKey, type RelationGraph } from './relations';
+import { filterOperatorsFor, MAX_QUERY_LIMIT } from './query';
+import { DEFAULT_COLLECTION, SYSTEM_QUERY_FIELDS } from './store';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; description?: string; version: string };
+  servers: Array<{ url: string }>;
+  security: Array<Record<string, string[]>>;
+  paths: Record<string, Record<string, unknown>>;
+  components: {
+    securitySchemes: Record<string, JsonSchema>;
+    schemas: Record<string, JsonSchema>;
+  };
+}
+
+export interface OpenApiAppInfo {
+  id: string;
+  name: string;
+  description?: string | null;
+}
+
+interface CollectionDoc {
+  name: string;
+  component: string;
+  schema: Schema | null;
+}
+
+// ============================================================================
+// Field schemas
+// ============================================================================
+
+const OPENAPI_VERSION = '3.1.0';
+
+function componentName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_.-]/g, '_');
+}
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function typeSchema(type: FieldType): JsonSchema {
+  switch (type) {
+    case 'string':
+    case 'text':
+    case 'enum':
+      return { type: 'string' };
+    case 'number':
+      return { type: 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'date':
+      return { type: 'string', format: 'date' };
+    case 'datetime':
+      return { type: 'string', format: 'date-time' };
+    case 'array':
+      return { type: 'array', items: {} };
+    case 'json':
+    default:
+      return {};
+  }
+}
+
+/** Let a typed schema also be null; untyped (json) schemas already allow it */
+function orNull(schema: JsonSchema): JsonSchema {
+  return typeof schema.type === 'string' ? { ...schema, type: [schema.type, 'null'] } : schema;
+}
+
+/**
+ * JSON Schema for a field, with the constraints validateRecord enforces
+ */
+function fieldSchema(field: FieldDefinition, key?: ForeignKey): JsonSchema {
+  const schema: JsonSchema = { ...typeSchema(field.type), title: field.label };
+  const notes = [field.description];
+
+  if (field.type === 'enum' && field.options && field.options.length > 0) {
+    schema.enum = field.options;
+  }
+
+  const rules = field.validation;
+  if (rules && field.type === 'number') {
+    if (rules.min !== undefined) schema.minimum = rules.min;
+    if (rules.max !== undefined) schema.maximum = rules.max;
+  } else if (rules && field.type === 'array') {
+    if (rules.min !== undefined) schema.minItems = rules.min;
+    if (rules.max !== undefined) schema.maxItems = rules.max;
+  } else if (rules && schema.type === 'string') {
+    if (rules.minLength !== undefined) schema.minLength = rules.minLength;
+    if (rules.maxLength !== undefined) schema.maxLength = rules.maxLength;
+    if (rules.pattern) schema.pattern = rules.pattern;
+  }
+
+  if (key) {
+    if (key.many) schema.items = { type: 'string' };
+    notes.push(key.many ? `Ids of ${key.target} records` : `Id of a ${key.target} record`);
+  }
+  if (field.unique) notes.push('Unique within the collection');
+  if (field.defaultValue !== undefined) schema.default = field.defaultValue;
+
+  const description = notes.filter(Boolean).join('. ');
+  if (description) schema.description = description;
+
+  return field.required && !field.nullable ? schema : orNull(schema);
+}
+
+function computedSchema(field: ComputedField): JsonSchema {
+  return orNull({
+    ...typeSchema(field.type),
+    title: field.label,
+    description: [field.description, `Computed: ${field.formula}`].filter(Boolean).join('. '),
+    readOnly: true,
+  });
+}
+
+/** Fields a create must include: the same rule validateRecord applies */
+function requiredOnCreate(field: FieldDefinition): boolean {
+  return field.required && !field.generated && !field.nullable && field.defaultValue === undefined;
+}
+
+function isSystemField(name: string): boolean {
+  return SYSTEM_QUERY_FIELDS.some(field => field.name === name);
+}
+
+function collectionSchemas(collection: CollectionDoc, graph: RelationGraph): Record<string, JsonSchema> {
+  const { schema } = collection;
+  const label = schema?.label || collection.name;
+  const fields = (schema?.fields || []).filter(field => !isSystemField(field.name));
+  const properties = Object.fromEntries(
+    fields.map(field => [field.name, fieldSchema(field, foreignKeyFor(graph, collection.name, field.name))])
+  );
+
+  const system: Record<string, JsonSchema> = {
+    id: { type: 'string', readOnly: true },
+    createdAt: { type: 'string', format: 'date-time', readOnly: true },
+    updatedAt: { type: 'string', format: 'date-time', readOnly: true },
+  };
+  const computed = Object.fromEntries(
+    (schema?.computedFields || []).map(field => [field.name, computedSchema(field)])
+  );
+
+  return {
+    [collection.component]: {
+      type: 'object',
+      title: label,
+      ...(schema?.description && { description: schema.description }),
+      properties: { ...system, ...properties, ...computed },
+      required: ['id', 'createdAt', 'updatedAt', ...fields.filter(field => field.required && !field.nullable).map(field => field.name)],
+      additionalProperties: true,
+    },
+    [`${collection.component}Input`]: {
+      type: 'object',
+      title: `New ${label}`,
+      properties: {
+        id: { type: 'string', description: 'Optional; generated when omitted' },
+        ...properties,
+      },
+      required: fields.filter(requiredOnCreate).map(field => field.name),
+      additionalProperties: true,
+    },
+    [`${collection.component}Update`]: {
+      type: 'object',
+      title: `${label} changes`,
+      description: 'Only the fields sent are changed; null clears a field',
+      properties: { id: { type: 'string' }, ...properties },
+      required: ['id'],
+      additionalProperties: true,
+    },
+  };
+}
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+const SHARED_SCHEMAS: Record<string, JsonSchema> = {
+  Error: {
+    type: 'object',
+    properties: {
+      error: { type: 'string' },
+      code: { type: 'string' },
+      issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { path: { type: 'string' }, message: { type: 'string' }, code: { type: 'string' } },
+          required: ['path', 'message'],
+        },
+      },
+      fieldErrors: { type: 'object', additionalProperties: { type: 'string' } },
+    },
+    required: ['error'],
+  },
+  Pagination: {
+    type: 'object',
+    properties: {
+      total: { type: 'integer' },
+      limit: { type: ['integer', 'null'] },
+      offset: { type: 'integer' },
+      hasMore: { type: 'boolean' },
+    },
+    required: ['total', 'limit', 'offset', 'hasMore'],
+  },
+};
+
+function errorResponse(description: string): JsonSchema {
+  return { description, content: { 'application/json': { schema: ref('Error') } } };
+}
+
+function jsonResponse(description: string, schema: JsonSchema): JsonSchema {
+  return { description, content: { 'application/json': { schema } } };
+}
+
+/** A single collection's component, or any of them when the app has several */
+function anyOf(collections: CollectionDoc[], suffix = ''): JsonSchema {
+  if (collections.length === 1) return ref(`${collections[0].component}${suffix}`);
+  return { oneOf: collections.map(collection => ref(`${collection.component}${suffix}`)) };
+}
+
+/**
+ * One `filter[field]` parameter per queryable field; fields of the same name
+ * in different collections share a parameter
+ */
+function filterParameters(collections: CollectionDoc[]): JsonSchema[] {
+  const byName = new Map<string, { field: FieldDefinition; collections: string[] }>();
+  for (const collection of collections) {
+    for (const field of [...SYSTEM_QUERY_FIELDS, ...(collection.schema?.fields || [])]) {
+      if (filterOperatorsFor(field.type).length === 0) continue;
+      const entry = byName.get(field.name) || { field, collections: [] };
+      entry.collections.push(collection.name);
+      byName.set(field.name, entry);
+    }
+  }
+
+  return Array.from(byName.values()).map(({ field, collections: names }) => {
+    const operators = filterOperatorsFor(field.type);
+    const notes = [
+      `Filter on ${field.label}. Use filter[${field.name}][op] for another operator: ${operators.join(', ')}`,
+    ];
+    if (collections.length > 1 && names.length < collections.length) {
+      notes.push(`Only in ${names.join(', ')}`);
+    }
+    return {
+      name: `filter[${field.name}]`,
+      in: 'query',
+      required: false,
+      description: notes.join('. '),
+      schema: field.type === 'array' ? { type: 'string' } : typeSchema(field.type),
+    };
+  });
+}
+
+function dataPaths(collections: CollectionDoc[], graph: RelationGraph): Record<string, Record<string, unknown>> {
+  const names = collections.map(collection => collection.name);
+  const pathParameters = collections.length > 1
+    ? [{
+        name: 'collection',
+        in: 'query',
+        required: false,
+        description: `Which collection to use; defaults to ${names[0]}`,
+        schema: { type: 'string', enum: names, default: names[0] },
+      }]
+    : [];
+  const relations = collections.flatMap(collection => graph.relations[collection.name] || []);
+
+  const queryParameters: JsonSchema[] = [
+    { name: 'search', in: 'query', required: false, description: 'Case-insensitive match across text fields', schema: { type: 'string' } },
+    { name: 'sort', in: 'query', required: false, description: 'Comma-separated fields; prefix with - for descending, e.g. -createdAt,title', schema: { type: 'string' } },
+    { name: 'limit', in: 'query', required: false, schema: { type: 'integer', minimum: 1, maximum: MAX_QUERY_LIMIT } },
+    { name: 'offset', in: 'query', required: false, schema: { type: 'integer', minimum: 0, default: 0 } },
+    ...(relations.length > 0
+      ? [{
+          name: 'include',
+          in: 'query',
+          required: false,
+          description: `Comma-separated relations to attach to each record: ${Array.from(new Set(relations.map(relation => relation.name))).join(', ')}`,
+          schema: { type: 'string' },
+        }]
+      : []),
+    ...filterParameters(collections),
+  ];
+
+  const record = anyOf(collections);
+  const unauthorized = errorResponse('Missing, invalid or expired credentials');
+  const forbidden = errorResponse('The API token lacks the scope, or is not allowed this app');
+  const notFound = errorResponse('App, collection or record not found');
+
+  return {
+    '/data': {
+      parameters: pathParameters,
+      get: {
+        operationId: 'listRecords',
+        summary: 'Query records',
+        parameters: queryParameters,
+        responses: {
+          200: jsonResponse('One page of records', {
+            type: 'object',
+            properties: { data: { type: 'array', items: record }, pagination: ref('Pagination') },
+            required: ['data', 'pagination'],
+          }),
+          400: errorResponse('Invalid query parameters'),
+          401: unauthorized,
+          403: forbidden,
+          404: notFound,
+        },
+      },
+      post: {
+        operationId: 'createRecord',
+        summary: 'Add a record',
+        description: 'Needs a token with the write scope',
+        requestBody: { required: true, content: { 'application/json': { schema: anyOf(collections, 'Input') } } },
+        responses: {
+          201: jsonResponse('The created record', { type: 'object', properties: { record }, required: ['record'] }),
+          400: errorResponse('Validation failed; fieldErrors maps each field to its problem'),
+          401: unauthorized,
+          402: errorResponse("The app owner's plan has no room for more records"),
+          403: forbidden,
+          404: notFound,
+          409: errorResponse('A record with this id already exists'),
+        },
+      },
+      patch: {
+        operationId: 'updateRecord',
+        summary: 'Change a record',
+        description: 'Needs a token with the write scope',
+        parameters: [{
+          name: 'If-Match',
+          in: 'header',
+          required: false,
+          description: "The record's updatedAt as last read; the update is refused with 409 if it has changed since",
+          schema: { type: 'string', format: 'date-time' },
+        }],
+        requestBody: { required: true, content: { 'application/json': { schema: anyOf(collections, 'Update') } } },
+        responses: {
+          200: jsonResponse('The updated record', { type: 'object', properties: { record }, required: ['record'] }),
+          400: errorResponse('Validation failed, or the id is missing'),
+          401: unauthorized,
+          403: forbidden,
+          404: notFound,
+          409: errorResponse('The record changed since it was read'),
+        },
+      },
+      delete: {
+        operationId: 'deleteRecord',
+        summary: 'Delete a record',
+        description: 'Needs a token with the write scope',
+        parameters: [{ name: 'id', in: 'query', required: true, schema: { type: 'string' } }],
+        responses: {
+          200: jsonResponse('The record was deleted', {
+            type: 'object',
+            properties: { success: { type: 'boolean', const: true } },
+            required: ['success'],
+          }),
+          400: errorResponse('The id is missing'),
+          401: unauthorized,
+          403: forbidden,
+          404: notFound,
+          409: errorResponse('Other records still reference this one'),
+        },
+      },
+    },
+    '/data/changes': {
+      get: {
+        operationId: 'watchChanges',
+        summary: 'Stream record changes',
+        description: 'Server-Sent Events. Each `change` event carries { type, collection, record, at }; a `reset` event means changes were missed and records should be refetched.',
+        parameters: [{
+          name: 'Last-Event-ID',
+          in: 'header',
+          required: false,
+          description: 'The last event id received, to replay what was missed while disconnected',
+          schema: { type: 'string' },
+        }],
+        responses: {
+          200: { description: 'An event stream', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+          401: unauthorized,
+          403: forbidden,
+          404: notFound,
+        },
+      },
+    },
+  };
+}
+
+// ============================================================================
+// Document
+// ============================================================================
+
+/**
+ * Build the OpenAPI document for an app's data API
+ *
+ * @param serverUrl - The app's API root, e.g. `https://example.com/api/apps/<appId>`
+ */
+export function buildAppOpenApiDocument(app: OpenApiAppInfo, schemas: Schema[], serverUrl: string): OpenApiDocument {
+  const graph = resolveRelations(schemas);
+  const effective = schemas.length > 0 ? withRelationFields(schemas, graph) : [null];
+  const collections: CollectionDoc[] = effective.map(schema => ({
+    name: schema?.name || DEFAULT_COLLECTION,
+    component: componentName(schema?.name || DEFAULT_COLLECTION),
+    schema,
+  }));
+
+  return {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: `${app.name} API`,
+      ...(app.description && { description: app.description }),
+      version: '1.0.0',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    paths: dataPaths(collections, graph),
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'A personal API token from Settings → API tokens',
+        },
+      },
+      schemas: {
+        ...SHARED_SCHEMAS,
+        ...Object.assign({}, ...collections.map(collection => collectionSchemas(collection, graph))),
+      },
+    },
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * App Data Query
+ * Parses filter, sort and pagination query parameters against a schema.
+ *
+ * Supported parameters:
+ * - filter[field]=value               equality
+ * - filter[field][op]=value           op is one of eq, ne, contains, gt, gte, lt, lte, in
+ *                                     (`in` takes a comma-separated list)
+ * - search=term                       case-insensitive match across text fields
+ * - sort=field,-other                 multi-field sort, `-` prefix for descending
+ * - limit=n & offset=n                offset pagination (cursor pagination is not supported)
+ *
+ * Operators are checked against each field's FieldType, so a typo'd field or an
+ * operator that makes no sense for the type is rejected instead of silently
+ * matching nothing. Date and datetime values are normalized the way writes
+ * store them, so they compare correctly against the stored text.
+ */
+
+import type { FieldDefinition, FieldType } from '@/lib/scaffolder-v2/types';
+import type { DataRecord } from '@/lib/primitives/types';
+import { AppDataError, type AppDataIssue } from './store';
+import { coerceFieldValue } from './validation';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FilterOperator = 'eq' | 'ne' | 'contains' | 'gt' | 'gte' | 'lt' | 'lte' | 'in';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface DataFilter {
+  field: string;
+  operator: FilterOperator;
+  /** Value already coerced to its storage representation; an array for `in` */
+  value: string | number | Array<string | number>;
+}
+
+export interface DataSort {
+  field: string;
+  direction: SortDirection;
+}
+
+export interface DataQuery {
+  filters: DataFilter[];
+  search?: string;
+  sort: DataSort[];
+  limit?: number;
+  offset: number;
+}
+
+export interface DataQueryResult {
+  records: DataRecord[];
+  total: number;
+}
+
+export interface DataPagination {
+  total: number;
+  limit: number | null;
+  offset: number;
+  hasMore: boolean;
+}
+
+type QueryParams = URLSearchParams | Record<string, string | undefined>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAX_QUERY_LIMIT = 500;
+
+const OPERATORS_BY_TYPE: Record<FieldType, FilterOperator[]> = {
+  string: ['eq', 'ne', 'contains', 'in'],
+  text: ['eq', 'ne', 'contains', 'in'],
+  number: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in'],
+  boolean: ['eq', 'ne'],
+  date: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in'],
+  datetime: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in'],
+  enum: ['eq', 'ne', 'in'],
+  array: ['contains'],
+  json: [],
+};
+
+const UNSORTABLE_TYPES: FieldType[] = ['array', 'json'];
+
+const FILTER_PARAM = /^filter\[([^\]]+)\](?:\[([^\]]+)\])?$/;
+
+/**
+ * Filter operators a field of this type accepts
+ */
+export function filterOperatorsFor(type: FieldType): FilterOperator[] {
+  return OPERATORS_BY_TYPE[type] || [];
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function entriesOf(params: QueryParams): [string, string][] {
+  if (params instanceof URLSearchParams) {
+    return Array.from(params.entries());
+  }
+  return Object.entries(params).filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+}
+
+function coerceValue(
+  field: FieldDefinition,
+  raw: string,
+  param: string,
+  issues: AppDataIssue[]
+): string | number | undefined {
+  switch (field.type) {
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || Number.isNaN(value)) {
+        issues.push({ path: param, message: `"${raw}" is not a number` });
+        return undefined;
+      }
+      return value;
+    }
+    case 'boolean':
+      if (raw === 'true' || raw === '1') return 1;
+      if (raw === 'false' || raw === '0') return 0;
+      issues.push({ path: param, message: `"${raw}" is not a boolean (use true or false)` });
+      return undefined;
+    case 'date':
+    case 'datetime': {
+      // YYYY-MM-DD for dates, a full ISO timestamp for datetimes
+      const value = coerceFieldValue(field, raw);
+      if (typeof value !== 'string') {
+        issues.push({ path: param, message: `"${raw}" is not a valid date` });
+        return undefined;
+      }
+      return value;
+    }
+    case 'enum':
+      if (field.options && field.options.length > 0 && !field.options.includes(raw)) {
+        issues.push({ path: param, message: `"${raw}" is not one of: ${field.options.join(', ')}` });
+        return undefined;
+      }
+      return raw;
+    default:
+      return raw;
+  }
+}
+
+function parseInteger(
+  raw: string | undefined,
+  param: string,
+  min: number,
+  max: number,
+  issues: AppDataIssue[]
+): number | undefined {
+  if (raw === undefined || raw === '') return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    issues.push({ path: param, message: `${param} must be an integer between ${min} and ${max}` });
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Parse query parameters into a DataQuery for the given fields.
+ * Parameters that are not part of the query syntax are ignored.
+ *
+ * @throws AppDataError with code INVALID_QUERY listing every problem found
+ */
+export function parseDataQuery(params: QueryParams, fields: FieldDefinition[]): DataQuery {
+  const byName = new Map(fields.map(field => [field.name, field]));
+  const issues: AppDataIssue[] = [];
+  const query: DataQuery = { filters: [], sort: [], offset: 0 };
+  const values = new Map<string, string>();
+
+  for (const [param, raw] of entriesOf(params)) {
+    values.set(param, raw);
+
+    const match = FILTER_PARAM.exec(param);
+    if (!match) continue;
+
+    const [, fieldName, operatorName = 'eq'] = match;
+    const field = byName.get(fieldName);
+    if (!field) {
+      issues.push({ path: param, message: `Unknown field "${fieldName}"` });
+      continue;
+    }
+
+    const allowed = filterOperatorsFor(field.type);
+    const operator = operatorName as FilterOperator;
+    if (!allowed.includes(operator)) {
+      issues.push({
+        path: param,
+        message: allowed.length > 0
+          ? `Operator "${operatorName}" is not supported for ${field.type} field "${fieldName}" (allowed: ${allowed.join(', ')})`
+          : `${field.type} field "${fieldName}" cannot be filtered`,
+      });
+      continue;
+    }
+
+    if (operator === 'in') {
+      const list = raw.split(',').map(item => item.trim()).filter(Boolean);
+      if (list.length === 0) {
+        issues.push({ path: param, message: 'Expected a comma-separated list of values' });
+        continue;
+      }
+      const coerced = list.map(item => coerceValue(field, item, param, issues));
+      if (coerced.every((item): item is string | number => item !== undefined)) {
+        query.filters.push({ field: field.name, operator, value: coerced });
+      }
+      continue;
+    }
+
+    // `contains` on an array field matches an element, so it is not coerced as the field type
+    const value = field.type === 'array' ? raw : coerceValue(field, raw, param, issues);
+    if (value !== undefined) {
+      query.filters.push({ field: field.name, operator, value });
+    }
+  }
+
+  const search = values.get('search')?.trim();
+  if (search) {
+    query.search = search;
+  }
+
+  const sort = values.get('sort');
+  if (sort) {
+    for (const part of sort.split(',').map(item => item.trim()).filter(Boolean)) {
+      const direction: SortDirection = part.startsWith('-') ? 'desc' : 'asc';
+      const fieldName = part.replace(/^[-+]/, '');
+      const field = byName.get(fieldName);
+
+      if (!field) {
+        issues.push({ path: 'sort', message: `Unknown field "${fieldName}"` });
+      } else if (UNSORTABLE_TYPES.includes(field.type)) {
+        issues.push({ path: 'sort', message: `${field.type} field "${fieldName}" cannot be sorted` });
+      } else {
+        query.sort.push({ field: field.name, direction });
+      }
+    }
+  }
+
+  query.limit = parseInteger(values.get('limit'), 'limit', 1, MAX_QUERY_LIMIT, issues);
+  query.offset = parseInteger(values.get('offset'), 'offset', 0, Number.MAX_SAFE_INTEGER, issues) ?? 0;
+
+  if (issues.length > 0) {
+    throw new AppDataError('Invalid query parameters', 'INVALID_QUERY', issues);
+  }
+
+  return query;
+}
+
+/**
+ * Describe the page a query result represents
+ */
+export function paginationFor(query: DataQuery, result: DataQueryResult): DataPagination {
+  return {
+    total: result.total,
+    limit: query.limit ?? null,
+    offset: query.offset,
+    hasMore: query.offset + result.records.length < result.total,
+  };
+}
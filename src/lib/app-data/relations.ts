@@ -0,0 +1,197 @@
+/**
+ * App Data Relations
+ * Resolves Schema.relationships into foreign keys between collections.
+ *
+ * Each relationship becomes a foreign key held by one collection:
+ * - `belongsTo` -> this collection holds `<target>Id`
+ * - `hasMany` / `hasOne` -> the target holds `<this>Id`
+ * - `manyToMany` -> this collection holds an array `<target>Ids`, or, with
+ *   `through`, the join collection holds `<this>Id` and `<target>Id`
+ *
+ * A relationship declared on one side (Project hasMany Task) is also
+ * available from the other (Task -> project), so `include` works both ways.
+ */
+
+import type { FieldDefinition, Relationship, Schema } from '@/lib/scaffolder-v2/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DeleteRule = NonNullable<Relationship['onDelete']>;
+
+/**
+ * `collection.field` holds the id of a `target` record (or, when `many`, an array of ids)
+ */
+export interface ForeignKey {
+  collection: string;
+  field: string;
+  target: string;
+  many: boolean;
+  /** What happens to referencing records when the target record is deleted */
+  onDelete: DeleteRule;
+}
+
+/**
+ * A relation as seen from one collection, addressable by name with `include`
+ */
+export interface CollectionRelation {
+  name: string;
+  collection: string;
+  target: string;
+  /** Whether the relation yields a list of records */
+  many: boolean;
+  /** Whether this collection holds the key (outgoing) or the other side does (incoming) */
+  direction: 'outgoing' | 'incoming';
+  key: ForeignKey;
+  /** For join collections: the join collection's key to the target */
+  through?: ForeignKey;
+}
+
+export interface RelationGraph {
+  foreignKeys: ForeignKey[];
+  /** Relations keyed by collection name */
+  relations: Record<string, CollectionRelation[]>;
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+function lowerFirst(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+function plural(name: string): string {
+  return name.endsWith('s') ? name : `${name}s`;
+}
+
+/**
+ * Resolve the relationships declared across an app's schemas.
+ * Relationships whose target is not one of the schemas are ignored.
+ */
+export function resolveRelations(schemas: Schema[]): RelationGraph {
+  const find = (name: string | undefined) =>
+    name ? schemas.find(schema => schema.name.toLowerCase() === name.toLowerCase()) : undefined;
+
+  const keys = new Map<string, ForeignKey>();
+  const explicit = new Set<ForeignKey>();
+  const relations = new Map<string, Map<string, CollectionRelation>>();
+  const declared = new Set<CollectionRelation>();
+
+  const addKey = (collection: string, field: string, target: string, many: boolean, rule?: DeleteRule) => {
+    const id = `${collection}.${field}`;
+    let key = keys.get(id);
+    if (!key) {
+      key = { collection, field, target, many, onDelete: 'setNull' };
+      keys.set(id, key);
+    }
+    if (rule && !explicit.has(key)) {
+      key.onDelete = rule;
+      explicit.add(key);
+    }
+    return key;
+  };
+
+  // The same relation can be declared on both sides; a declared name wins over an inferred one
+  const addRelation = (relation: CollectionRelation, isDeclared: boolean) => {
+    const list = relations.get(relation.collection) || new Map<string, CollectionRelation>();
+    const id = [relation.key.collection, relation.key.field, relation.direction, relation.through?.field].join('|');
+    const existing = list.get(id);
+    if (!existing || (isDeclared && !declared.has(existing))) {
+      list.set(id, relation);
+      if (isDeclared) declared.add(relation);
+    }
+    relations.set(relation.collection, list);
+  };
+
+  for (const schema of schemas) {
+    for (const relationship of schema.relationships || []) {
+      const target = find(relationship.target);
+      if (!target) continue;
+
+      const self = schema.name;
+      const other = target.name;
+
+      switch (relationship.type) {
+        case 'belongsTo': {
+          const key = addKey(self, relationship.foreignKey || `${lowerFirst(other)}Id`, other, false, relationship.onDelete);
+          addRelation({ name: lowerFirst(other), collection: self, target: other, many: false, direction: 'outgoing', key }, true);
+          addRelation({ name: plural(lowerFirst(self)), collection: other, target: self, many: true, direction: 'incoming', key }, false);
+          break;
+        }
+
+        case 'hasMany':
+        case 'hasOne': {
+          const many = relationship.type === 'hasMany';
+          const key = addKey(other, relationship.foreignKey || `${lowerFirst(self)}Id`, self, false, relationship.onDelete);
+          const name = many ? plural(lowerFirst(other)) : lowerFirst(other);
+          addRelation({ name, collection: self, target: other, many, direction: 'incoming', key }, true);
+          addRelation({ name: lowerFirst(self), collection: other, target: self, many: false, direction: 'outgoing', key }, false);
+          break;
+        }
+
+        case 'manyToMany': {
+          const join = find(relationship.through);
+          if (join) {
+            const selfKey = addKey(join.name, `${lowerFirst(self)}Id`, self, false, relationship.onDelete || 'cascade');
+            const otherKey = addKey(join.name, `${lowerFirst(other)}Id`, other, false, 'cascade');
+            addRelation({ name: plural(lowerFirst(other)), collection: self, target: other, many: true, direction: 'incoming', key: selfKey, through: otherKey }, true);
+            addRelation({ name: plural(lowerFirst(self)), collection: other, target: self, many: true, direction: 'incoming', key: otherKey, through: selfKey }, false);
+          } else {
+            const key = addKey(self, relationship.foreignKey || `${lowerFirst(other)}Ids`, other, true, relationship.onDelete);
+            addRelation({ name: plural(lowerFirst(other)), collection: self, target: other, many: true, direction: 'outgoing', key }, true);
+            addRelation({ name: plural(lowerFirst(self)), collection: other, target: self, many: true, direction: 'incoming', key }, false);
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  // Without an explicit rule, a required reference blocks the delete and an optional one is cleared
+  for (const key of Array.from(keys.values())) {
+    if (explicit.has(key)) continue;
+    const field = find(key.collection)?.fields.find(candidate => candidate.name === key.field);
+    key.onDelete = field?.required ? 'restrict' : 'setNull';
+  }
+
+  const graph: RelationGraph = { foreignKeys: Array.from(keys.values()), relations: {} };
+  for (const [collection, list] of Array.from(relations.entries())) {
+    graph.relations[collection] = Array.from(list.values());
+  }
+  return graph;
+}
+
+/**
+ * Add foreign key fields the schemas reference but don't declare, so every
+ * key gets a real column (and shows up in forms as a relation picker)
+ */
+export function withRelationFields(schemas: Schema[], graph: RelationGraph): Schema[] {
+  return schemas.map(schema => {
+    const missing = graph.foreignKeys.filter(key =>
+      key.collection === schema.name && !schema.fields.some(field => field.name === key.field)
+    );
+    if (missing.length === 0) return schema;
+
+    const added: FieldDefinition[] = missing.map(key => {
+      const target = schemas.find(candidate => candidate.name === key.target);
+      const label = target?.label || key.target;
+      return {
+        name: key.field,
+        label: key.many ? plural(label) : label,
+        type: key.many ? 'array' : 'string',
+        required: false,
+        nullable: true,
+      };
+    });
+    return { ...schema, fields: [...schema.fields, ...added] };
+  });
+}
+
+/**
+ * The foreign key behind a field, if it is one
+ */
+export function foreignKeyFor(graph: RelationGraph, collection: string, field: string): ForeignKey | undefined {
+  return graph.foreignKeys.find(key => key.collection === collection && key.field === field);
+}
@@ -0,0 +1,70 @@
+/**
+ * App Schema Resolution
+ * Extracts V2 Schemas from the different shapes App.spec has been stored in
+ */
+
+import type { Schema } from '@/lib/scaffolder-v2/types';
+import { convertV1SchemasToV2 } from '@/lib/migration';
+
+/**
+ * Parse an App.spec column value (JSON string or object) into an object
+ */
+export function parseAppSpec(spec: unknown): Record<string, unknown> | null {
+  if (!spec) return null;
+
+  if (typeof spec === 'string') {
+    try {
+      const parsed = JSON.parse(spec);
+      return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return typeof spec === 'object' ? spec as Record<string, unknown> : null;
+}
+
+/**
+ * Resolve every V2 Schema stored in an app spec.
+ *
+ * Handles the formats written over time:
+ * - `{ schemas: Schema[] }` (multi-entity proposals)
+ * - `{ schema, layout, components }` (V2 finalize and V1 -> V2 migration)
+ * - a bare `Schema` (older V2 apps)
+ * - a V1 `ProjectSpec` with a `dataStore`
+ */
+export function resolveAppSchemas(spec: unknown): Schema[] {
+  const parsed = parseAppSpec(spec);
+  if (!parsed) return [];
+
+  if (Array.isArray(parsed.schemas)) {
+    return (parsed.schemas as unknown[]).filter(isSchema);
+  }
+
+  if (isSchema(parsed.schema)) {
+    return [parsed.schema];
+  }
+
+  if (isSchema(parsed)) {
+    return [parsed];
+  }
+
+  if (parsed.dataStore && typeof parsed.dataStore === 'object') {
+    return convertV1SchemasToV2([parsed.dataStore]);
+  }
+
+  return [];
+}
+
+/**
+ * Resolve the primary (first) schema of an app, if it has one
+ */
+export function resolvePrimarySchema(spec: unknown): Schema | null {
+  return resolveAppSchemas(spec)[0] || null;
+}
+
+function isSchema(value: unknown): value is Schema {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.name === 'string' && Array.isArray(candidate.fields);
+}
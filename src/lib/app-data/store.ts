@@ -0,0 +1,798 @@
+/**
+ * App Data Store
+ * Row-level storage for generated-app records in per-app SQLite tables.
+ *
+ * Every V2 Schema becomes one table with a column per FieldDefinition plus the
+ * system columns `id`, `createdAt` and `updatedAt`. Properties that are not
+ * part of the schema are kept in a JSON `_extra` column so nothing written by
+ * generated code is lost when the schema and the records drift apart.
+ *
+ * Relationships between schemas are enforced here: writes must reference
+ * records that exist, and deletes apply each foreign key's onDelete rule.
+ */
+
+import type Database from 'better-sqlite3';
+import type { Schema, FieldDefinition, FieldType } from '@/lib/scaffolder-v2/types';
+import type { DataRecord } from '@/lib/primitives/types';
+import { generateId } from '@/lib/utils';
+import type { DataQuery, DataQueryResult } from './query';
+import { resolveRelations, withRelationFields, type CollectionRelation, type RelationGraph } from './relations';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Columns every collection table has, regardless of schema */
+export const SYSTEM_COLUMNS = ['id', 'createdAt', 'updatedAt'] as const;
+
+/** Collection used by apps whose spec carries no V2 schema */
+export const DEFAULT_COLLECTION = 'records';
+
+/** System columns exposed to queries alongside the schema's fields */
+export const SYSTEM_QUERY_FIELDS: FieldDefinition[] = [
+  { name: 'id', label: 'ID', type: 'string', required: true },
+  { name: 'createdAt', label: 'Created', type: 'datetime', required: true },
+  { name: 'updatedAt', label: 'Updated', type: 'datetime', required: true },
+];
+
+/** Field types matched by the free-text `search` query parameter */
+export const SEARCHABLE_TYPES: FieldType[] = ['string', 'text', 'enum'];
+
+const EXTRA_COLUMN = '_extra';
+const META_TABLE = '_nebula_meta';
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type AppDataErrorCode =
+  | 'DUPLICATE_ID'
+  | 'NOT_FOUND'
+  | 'UNKNOWN_COLLECTION'
+  | 'INVALID_QUERY'
+  | 'VALIDATION_FAILED'
+  | 'DELETE_RESTRICTED'
+  | 'CONFLICT';
+
+/**
+ * A single problem with a request, keyed by the parameter or field it concerns
+ */
+export interface AppDataIssue {
+  path: string;
+  message: string;
+  /** Machine-readable reason, e.g. `required` or `unique` */
+  code?: string;
+}
+
+/**
+ * Error raised by the data store for conditions callers map to HTTP statuses
+ */
+export class AppDataError extends Error {
+  public readonly code: AppDataErrorCode;
+  public readonly issues: AppDataIssue[];
+
+  constructor(message: string, code: AppDataErrorCode, issues: AppDataIssue[] = []) {
+    super(message);
+    this.name = 'AppDataError';
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+// ============================================================================
+// Change events
+// ============================================================================
+
+export type DataChangeType = 'create' | 'update' | 'delete';
+
+/**
+ * Emitted after a record write is committed
+ */
+export interface DataChangeEvent {
+  type: DataChangeType;
+  collection: string;
+  /** The record after the write (or as it was, for deletes) */
+  record: DataRecord;
+  /** The record before an update */
+  previous?: DataRecord;
+}
+
+export type DataChangeListener = (event: DataChangeEvent) => void;
+
+/**
+ * Callbacks a collection runs around its writes, supplied by the owning store
+ */
+export interface CollectionHooks {
+  onChange?: DataChangeListener;
+  /** Throw if the record references records that don't exist (only `fields`, when given) */
+  checkReferences?: (collection: DataCollection, record: Record<string, unknown>, fields?: string[]) => void;
+  /** Apply delete rules to records that reference one about to be deleted */
+  beforeDelete?: (collection: DataCollection, record: DataRecord) => void;
+  /** Run a write atomically, holding its change events until the outermost transaction commits */
+  transaction?: <T>(fn: () => T) => T;
+}
+
+// ============================================================================
+// Identifier & value helpers
+// ============================================================================
+
+/**
+ * Convert a schema or field name into a safe SQLite identifier.
+ * Names starting with an underscore are reserved for internal tables/columns.
+ */
+export function toIdentifier(name: string): string {
+  const cleaned = name.replace(/[^A-Za-z0-9_]/g, '_');
+  if (!cleaned || /^[0-9_]/.test(cleaned)) {
+    return `t${cleaned}`;
+  }
+  return cleaned;
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+function sqlTypeFor(type: FieldType): string {
+  switch (type) {
+    case 'number':
+      return 'REAL';
+    case 'boolean':
+      return 'INTEGER';
+    default:
+      return 'TEXT';
+  }
+}
+
+function encodeValue(type: FieldType, value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+
+  switch (type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+    case 'array':
+    case 'json':
+      return JSON.stringify(value);
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : value;
+  }
+}
+
+function decodeValue(type: FieldType, value: unknown): unknown {
+  if (value === null || value === undefined) return undefined;
+
+  switch (type) {
+    case 'boolean':
+      return typeof value === 'number' ? value === 1 : value;
+    case 'array':
+    case 'json':
+      if (typeof value !== 'string') return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Timestamp for a record's next write. `updatedAt` doubles as the record's
+ * version, so two writes within the same millisecond must still differ.
+ */
+function nextVersion(previous: string | undefined): string {
+  const now = Date.now();
+  const last = previous ? Date.parse(previous) : NaN;
+  return new Date(Number.isNaN(last) || now > last ? now : last + 1).toISOString();
+}
+
+// ============================================================================
+// Collection
+// ============================================================================
+
+export interface UpdateOptions {
+  /** The `updatedAt` the caller last saw; the update fails with CONFLICT if it moved on */
+  expectedUpdatedAt?: string;
+}
+
+interface ColumnMapping {
+  field: FieldDefinition;
+  column: string;
+}
+
+/**
+ * A single schema's records, backed by one SQLite table
+ */
+export class DataCollection {
+  public readonly name: string;
+  public readonly table: string;
+  public readonly schema: Schema | null;
+  private readonly db: Database.Database;
+  private readonly columns: ColumnMapping[];
+  private readonly hooks: CollectionHooks;
+
+  constructor(db: Database.Database, schema: Schema | null, hooks: CollectionHooks = {}) {
+    this.db = db;
+    this.schema = schema;
+    this.hooks = hooks;
+    this.name = schema?.name || DEFAULT_COLLECTION;
+    this.table = toIdentifier(this.name);
+
+    const seen = new Set<string>(SYSTEM_COLUMNS);
+    this.columns = [];
+    for (const field of schema?.fields || []) {
+      const column = toIdentifier(field.name);
+      if (seen.has(field.name) || seen.has(column)) continue;
+      seen.add(column);
+      this.columns.push({ field, column });
+    }
+  }
+
+  /**
+   * Create the table, or add columns for fields introduced since it was created
+   */
+  public ensureTable(): void {
+    const columnDefs = [
+      `${quote('id')} TEXT PRIMARY KEY`,
+      `${quote('createdAt')} TEXT NOT NULL`,
+      `${quote('updatedAt')} TEXT NOT NULL`,
+      ...this.columns.map(({ field, column }) => `${quote(column)} ${sqlTypeFor(field.type)}`),
+      `${quote(EXTRA_COLUMN)} TEXT`,
+    ];
+    this.db.exec(`CREATE TABLE IF NOT EXISTS ${quote(this.table)} (${columnDefs.join(', ')})`);
+
+    const existing = new Set(
+      (this.db.prepare(`PRAGMA table_info(${quote(this.table)})`).all() as { name: string }[])
+        .map(col => col.name)
+    );
+    for (const { field, column } of this.columns) {
+      if (!existing.has(column)) {
+        this.db.exec(`ALTER TABLE ${quote(this.table)} ADD COLUMN ${quote(column)} ${sqlTypeFor(field.type)}`);
+      }
+    }
+  }
+
+  /**
+   * List all records in insertion order
+   */
+  public list(options: { newestFirst?: boolean } = {}): DataRecord[] {
+    const order = options.newestFirst ? 'DESC' : 'ASC';
+    const rows = this.db
+      .prepare(`SELECT * FROM ${quote(this.table)} ORDER BY rowid ${order}`)
+      .all() as Record<string, unknown>[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  /**
+   * Fields that can be filtered and sorted on: the system columns plus every schema column
+   */
+  public queryableFields(): FieldDefinition[] {
+    return [
+      ...SYSTEM_QUERY_FIELDS,
+      ...this.columns.map(({ field }) => field),
+    ];
+  }
+
+  /**
+   * Run a parsed query, returning one page of records and the total match count.
+   * Records without an explicit sort come back in insertion order.
+   */
+  public query(query: DataQuery, options: { newestFirst?: boolean } = {}): DataQueryResult {
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    for (const filter of query.filters) {
+      const { column, field } = this.columnFor(filter.field);
+
+      switch (filter.operator) {
+        case 'eq':
+          where.push(`${column} = ?`);
+          params.push(filter.value);
+          break;
+        case 'ne':
+          where.push(`(${column} IS NULL OR ${column} != ?)`);
+          params.push(filter.value);
+          break;
+        case 'gt':
+        case 'gte':
+        case 'lt':
+        case 'lte': {
+          const op = { gt: '>', gte: '>=', lt: '<', lte: '<=' }[filter.operator];
+          where.push(`${column} ${op} ?`);
+          params.push(filter.value);
+          break;
+        }
+        case 'in': {
+          const list = Array.isArray(filter.value) ? filter.value : [filter.value];
+          where.push(`${column} IN (${list.map(() => '?').join(', ')})`);
+          params.push(...list);
+          break;
+        }
+        case 'contains':
+          if (field.type === 'array') {
+            where.push(`EXISTS (SELECT 1 FROM json_each(${column}) WHERE json_each.value = ?)`);
+            params.push(filter.value);
+          } else {
+            where.push(`${column} LIKE ? ESCAPE '\\'`);
+            params.push(`%${escapeLike(String(filter.value))}%`);
+          }
+          break;
+      }
+    }
+
+    if (query.search) {
+      const searchable = this.columns.filter(({ field }) => SEARCHABLE_TYPES.includes(field.type));
+      if (searchable.length > 0) {
+        where.push(`(${searchable.map(({ column }) => `${quote(column)} LIKE ? ESCAPE '\\'`).join(' OR ')})`);
+        params.push(...searchable.map(() => `%${escapeLike(query.search!)}%`));
+      } else {
+        where.push('0');
+      }
+    }
+
+    const whereClause = where.length > 0 ? ` WHERE ${where.join(' AND ')}` : '';
+    const tiebreak = `rowid ${options.newestFirst ? 'DESC' : 'ASC'}`;
+    const orderBy = [
+      ...query.sort.map(sort => `${this.columnFor(sort.field).column} ${sort.direction === 'desc' ? 'DESC' : 'ASC'} NULLS LAST`),
+      tiebreak,
+    ].join(', ');
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM ${quote(this.table)}${whereClause}`)
+      .get(...params) as { total: number };
+
+    let sql = `SELECT * FROM ${quote(this.table)}${whereClause} ORDER BY ${orderBy}`;
+    const pageParams = [...params];
+    if (query.limit !== undefined) {
+      sql += ' LIMIT ? OFFSET ?';
+      pageParams.push(query.limit, query.offset);
+    } else if (query.offset > 0) {
+      sql += ' LIMIT -1 OFFSET ?';
+      pageParams.push(query.offset);
+    }
+
+    const rows = this.db.prepare(sql).all(...pageParams) as Record<string, unknown>[];
+    return { records: rows.map(row => this.fromRow(row)), total };
+  }
+
+  /**
+   * Whether any record other than `excludeId` stores this value in a field
+   */
+  public hasValue(fieldName: string, value: unknown, excludeId?: string): boolean {
+    const { column, field } = this.columnFor(fieldName);
+    const row = this.db
+      .prepare(`SELECT 1 FROM ${quote(this.table)} WHERE ${column} = ? AND ${quote('id')} != ? LIMIT 1`)
+      .get(encodeValue(field.type, value), excludeId ?? '');
+    return row !== undefined;
+  }
+
+  /**
+   * Count records in the collection
+   */
+  public count(): number {
+    const row = this.db.prepare(`SELECT COUNT(*) AS total FROM ${quote(this.table)}`).get() as { total: number };
+    return row.total;
+  }
+
+  /**
+   * Get a single record by ID
+   */
+  public get(id: string): DataRecord | null {
+    const row = this.db
+      .prepare(`SELECT * FROM ${quote(this.table)} WHERE ${quote('id')} = ?`)
+      .get(id) as Record<string, unknown> | undefined;
+    return row ? this.fromRow(row) : null;
+  }
+
+  /**
+   * Insert a new record, filling in id and timestamps when missing
+   */
+  public insert(record: Record<string, unknown>): DataRecord {
+    this.hooks.checkReferences?.(this, record);
+    const inserted = this.insertRow(record);
+    this.hooks.onChange?.({ type: 'create', collection: this.name, record: inserted });
+    return inserted;
+  }
+
+  private insertRow(record: Record<string, unknown>): DataRecord {
+    const now = new Date().toISOString();
+    const full: DataRecord = {
+      ...record,
+      id: typeof record.id === 'string' && record.id ? record.id : generateId(),
+      createdAt: typeof record.createdAt === 'string' ? record.createdAt : now,
+      updatedAt: typeof record.updatedAt === 'string' ? record.updatedAt : now,
+    };
+
+    if (this.get(full.id)) {
+      throw new AppDataError(`Record ${full.id} already exists`, 'DUPLICATE_ID');
+    }
+
+    const row = this.toRow(full);
+    const columns = Object.keys(row);
+    this.db
+      .prepare(
+        `INSERT INTO ${quote(this.table)} (${columns.map(quote).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+      )
+      .run(...columns.map(col => row[col]));
+
+    return this.fromRow(row);
+  }
+
+  /**
+   * Insert several records in one transaction, skipping IDs that already exist.
+   * Bulk inserts are imports, so they do not emit change events, and references
+   * are not checked since imported rows may arrive before the rows they point to.
+   */
+  public insertMany(records: Record<string, unknown>[]): DataRecord[] {
+    const run = this.db.transaction((items: Record<string, unknown>[]) => {
+      const inserted: DataRecord[] = [];
+      for (const item of items) {
+        if (typeof item.id === 'string' && this.get(item.id)) continue;
+        inserted.push(this.insertRow(item));
+      }
+      return inserted;
+    });
+    return run(records);
+  }
+
+  /**
+   * Delete several records in one transaction, taking back a bulk insert.
+   * Like insertMany it emits no change events, and delete rules are not
+   * applied. Returns the number of rows removed.
+   */
+  public deleteMany(ids: string[]): number {
+    const statement = this.db.prepare(`DELETE FROM ${quote(this.table)} WHERE ${quote('id')} = ?`);
+    const run = this.db.transaction((items: string[]) =>
+      items.reduce((removed, id) => removed + statement.run(id).changes, 0)
+    );
+    return run(ids);
+  }
+
+  /**
+   * Merge changes into an existing record. Returns null if it does not exist.
+   * With `expectedUpdatedAt`, the write is refused with a CONFLICT error if the
+   * record changed since the caller read it; without it the last writer wins.
+   */
+  public update(id: string, changes: Record<string, unknown>, options: UpdateOptions = {}): DataRecord | null {
+    const result = this.atomically(() => {
+      const current = this.get(id);
+      if (!current) return null;
+
+      if (options.expectedUpdatedAt && options.expectedUpdatedAt !== current.updatedAt) {
+        throw new AppDataError(`Record ${id} was changed by someone else`, 'CONFLICT', [
+          { path: 'updatedAt', message: `Expected version ${options.expectedUpdatedAt}, found ${current.updatedAt}`, code: 'conflict' },
+        ]);
+      }
+
+      const merged: DataRecord = {
+        ...current,
+        ...changes,
+        id: current.id,
+        createdAt: current.createdAt,
+        updatedAt: nextVersion(current.updatedAt),
+      };
+      this.hooks.checkReferences?.(this, merged, Object.keys(changes));
+
+      const row = this.toRow(merged);
+      const columns = Object.keys(row).filter(col => col !== 'id');
+      this.db
+        .prepare(
+          `UPDATE ${quote(this.table)} SET ${columns.map(col => `${quote(col)} = ?`).join(', ')} WHERE ${quote('id')} = ?`
+        )
+        .run(...columns.map(col => row[col]), id);
+
+      return { previous: current, record: this.fromRow(row) };
+    });
+
+    if (!result) return null;
+    this.hooks.onChange?.({ type: 'update', collection: this.name, ...result });
+    return result.record;
+  }
+
+  /**
+   * Delete a record, applying the delete rules of records that reference it.
+   * Returns whether a row was removed.
+   */
+  public delete(id: string): boolean {
+    const existing = this.atomically(() => {
+      const existing = this.get(id);
+      if (!existing) return null;
+
+      this.hooks.beforeDelete?.(this, existing);
+      const result = this.db.prepare(`DELETE FROM ${quote(this.table)} WHERE ${quote('id')} = ?`).run(id);
+      return result.changes === 0 ? null : existing;
+    });
+
+    if (!existing) return false;
+    this.hooks.onChange?.({ type: 'delete', collection: this.name, record: existing });
+    return true;
+  }
+
+  private atomically<T>(fn: () => T): T {
+    return this.hooks.transaction ? this.hooks.transaction(fn) : this.db.transaction(fn)();
+  }
+
+  private columnFor(fieldName: string): { column: string; field: FieldDefinition } {
+    const system = SYSTEM_QUERY_FIELDS.find(field => field.name === fieldName);
+    if (system) {
+      return { column: quote(system.name), field: system };
+    }
+    const mapping = this.columns.find(({ field }) => field.name === fieldName);
+    if (!mapping) {
+      throw new AppDataError(`Unknown field "${fieldName}"`, 'INVALID_QUERY', [
+        { path: fieldName, message: `Unknown field "${fieldName}"` },
+      ]);
+    }
+    return { column: quote(mapping.column), field: mapping.field };
+  }
+
+  private toRow(record: DataRecord): Record<string, unknown> {
+    const row: Record<string, unknown> = {
+      id: record.id,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+    const known = new Set<string>(SYSTEM_COLUMNS);
+
+    for (const { field, column } of this.columns) {
+      known.add(field.name);
+      row[column] = encodeValue(field.type, record[field.name]);
+    }
+
+    const extra: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+      if (!known.has(key) && value !== undefined) {
+        extra[key] = value;
+      }
+    }
+    row[EXTRA_COLUMN] = Object.keys(extra).length > 0 ? JSON.stringify(extra) : null;
+
+    return row;
+  }
+
+  private fromRow(row: Record<string, unknown>): DataRecord {
+    let extra: Record<string, unknown> = {};
+    if (typeof row[EXTRA_COLUMN] === 'string') {
+      try {
+        extra = JSON.parse(row[EXTRA_COLUMN] as string);
+      } catch {
+        extra = {};
+      }
+    }
+
+    const record: DataRecord = {
+      ...extra,
+      id: row.id as string,
+      createdAt: row.createdAt as string,
+      updatedAt: row.updatedAt as string,
+    };
+
+    for (const { field, column } of this.columns) {
+      const value = decodeValue(field.type, row[column]);
+      if (value !== undefined) {
+        record[field.name] = value;
+      }
+    }
+
+    return record;
+  }
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/**
+ * All collections of one generated app, sharing the app's SQLite database
+ */
+export class AppDataStore {
+  public readonly appId: string;
+  /** The app's database, for modules that keep their own tables beside the records */
+  public readonly db: Database.Database;
+  private readonly collections: Map<string, DataCollection> = new Map();
+  private readonly listeners: Set<DataChangeListener> = new Set();
+  private readonly primaryName: string;
+  /** Foreign keys between the collections, resolved from the schemas' relationships */
+  public readonly relations: RelationGraph;
+  /** Records whose delete is in progress, so cascades through cycles stop */
+  private readonly deleting: Set<string> = new Set();
+  /** Change events raised inside the open transaction, published once it commits */
+  private pending: DataChangeEvent[] | null = null;
+
+  constructor(appId: string, db: Database.Database, schemas: Schema[]) {
+    this.appId = appId;
+    this.db = db;
+
+    this.db.exec(`CREATE TABLE IF NOT EXISTS ${quote(META_TABLE)} (key TEXT PRIMARY KEY, value TEXT)`);
+
+    this.relations = resolveRelations(schemas);
+    const hooks: CollectionHooks = {
+      onChange: event => this.emit(event),
+      checkReferences: (collection, record, fields) => this.checkReferences(collection, record, fields),
+      beforeDelete: (collection, record) => this.applyDeleteRules(collection, record),
+      transaction: fn => this.transaction(fn),
+    };
+
+    const effective = schemas.length > 0 ? withRelationFields(schemas, this.relations) : [null];
+    for (const schema of effective) {
+      const collection = new DataCollection(db, schema, hooks);
+      collection.ensureTable();
+      this.collections.set(collection.name, collection);
+    }
+    this.primaryName = (schemas[0]?.name) || DEFAULT_COLLECTION;
+  }
+
+  /**
+   * Get a collection by schema name, matched case-insensitively when there is
+   * no exact match (defaults to the app's primary schema)
+   */
+  public collection(name?: string): DataCollection {
+    const wanted = name || this.primaryName;
+    const collection = this.collections.get(wanted) ||
+      Array.from(this.collections.values()).find(candidate => candidate.name.toLowerCase() === wanted.toLowerCase());
+    if (!collection) {
+      throw new AppDataError(`Unknown collection: ${name}`, 'UNKNOWN_COLLECTION');
+    }
+    return collection;
+  }
+
+  /**
+   * Relations a collection can `include`
+   */
+  public relationsOf(name: string): CollectionRelation[] {
+    return this.relations.relations[name] || [];
+  }
+
+  /**
+   * Names of all collections in this store
+   */
+  public collectionNames(): string[] {
+    return Array.from(this.collections.keys());
+  }
+
+  /**
+   * Records across all collections
+   */
+  public recordCount(): number {
+    return Array.from(this.collections.values()).reduce((total, collection) => total + collection.count(), 0);
+  }
+
+  /**
+   * Listen for committed record writes. Returns an unsubscribe function.
+   */
+  public subscribe(listener: DataChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: DataChangeEvent): void {
+    if (this.pending) {
+      this.pending.push(event);
+    } else {
+      this.publish(event);
+    }
+  }
+
+  private publish(event: DataChangeEvent): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(event);
+      } catch (error) {
+        // The write is already committed; a failing listener must not turn it into an error
+        console.error(`[AppData ${this.appId}] Change listener failed:`, error);
+      }
+    }
+  }
+
+  private checkReferences(collection: DataCollection, record: Record<string, unknown>, fields?: string[]): void {
+    const issues: AppDataIssue[] = [];
+
+    for (const key of this.relations.foreignKeys) {
+      if (key.collection !== collection.name || (fields && !fields.includes(key.field))) continue;
+
+      const value = record[key.field];
+      const ids = (Array.isArray(value) ? value : [value]).filter(id => id !== null && id !== undefined && id !== '');
+      const target = this.collection(key.target);
+      const label = target.schema?.label || target.name;
+      for (const id of ids) {
+        if (!target.get(String(id))) {
+          issues.push({ path: key.field, message: `No ${label} with id "${id}"`, code: 'reference' });
+        }
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new AppDataError('Validation failed', 'VALIDATION_FAILED', issues);
+    }
+  }
+
+  /**
+   * Runs inside the delete's transaction, so a restricted delete further down
+   * a cascade rolls back everything before it, events included
+   */
+  private applyDeleteRules(collection: DataCollection, record: DataRecord): void {
+    const marker = `${collection.name}:${record.id}`;
+    this.deleting.add(marker);
+    try {
+      for (const key of this.relations.foreignKeys) {
+        if (key.target !== collection.name) continue;
+
+        const child = this.collection(key.collection);
+        const referencing = child.query({
+          filters: [{ field: key.field, operator: key.many ? 'contains' : 'eq', value: record.id }],
+          sort: [],
+          offset: 0,
+        }).records.filter(row => !this.deleting.has(`${child.name}:${row.id}`));
+        if (referencing.length === 0) continue;
+
+        switch (key.onDelete) {
+          case 'restrict': {
+            const label = child.schema?.label || child.name;
+            const message = `Still referenced by ${referencing.length} ${label} record${referencing.length === 1 ? '' : 's'}`;
+            throw new AppDataError(message, 'DELETE_RESTRICTED', [{ path: key.field, message, code: 'restrict' }]);
+          }
+          case 'cascade':
+            referencing.forEach(row => child.delete(row.id));
+            break;
+          case 'setNull':
+            for (const row of referencing) {
+              const current = row[key.field];
+              child.update(row.id, {
+                [key.field]: key.many && Array.isArray(current) ? current.filter(id => id !== record.id) : null,
+              });
+            }
+            break;
+        }
+      }
+    } finally {
+      this.deleting.delete(marker);
+    }
+  }
+
+  /**
+   * Run several operations atomically. Change events of the writes inside are
+   * published after the outermost transaction commits and dropped if it (or
+   * the nested transaction that made them) rolls back.
+   */
+  public transaction<T>(fn: () => T): T {
+    if (this.pending) {
+      const mark = this.pending.length;
+      try {
+        return this.db.transaction(fn)();
+      } catch (error) {
+        this.pending.length = mark;
+        throw error;
+      }
+    }
+
+    const events: DataChangeEvent[] = [];
+    this.pending = events;
+    let result: T;
+    try {
+      result = this.db.transaction(fn)();
+    } finally {
+      this.pending = null;
+    }
+    events.forEach(event => this.publish(event));
+    return result;
+  }
+
+  public getMeta(key: string): string | null {
+    const row = this.db
+      .prepare(`SELECT value FROM ${quote(META_TABLE)} WHERE key = ?`)
+      .get(key) as { value: string } | undefined;
+    return row ? row.value : null;
+  }
+
+  public setMeta(key: string, value: string): void {
+    this.db
+      .prepare(`INSERT INTO ${quote(META_TABLE)} (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`)
+      .run(key, value);
+  }
+}
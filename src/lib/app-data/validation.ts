@@ -0,0 +1,295 @@
+/**
+ * App Data Validation
+ * Checks and coerces record writes against the app's V2 Schema.
+ *
+ * Values submitted by forms arrive loosely typed ("12", "on", "2024-03-01"),
+ * so each FieldDefinition's type drives a coercion step before the required,
+ * enum, FieldValidation and unique checks run. Problems are reported per field
+ * so forms can show them next to the offending input.
+ */
+
+import type { FieldDefinition, Schema } from '@/lib/scaffolder-v2/types';
+import { AppDataError, SYSTEM_COLUMNS, type AppDataIssue, type DataCollection } from './store';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FieldErrorCode =
+  | 'required'
+  | 'type'
+  | 'enum'
+  | 'min'
+  | 'max'
+  | 'minLength'
+  | 'maxLength'
+  | 'pattern'
+  | 'unique'
+  | 'reference';
+
+export interface RecordValidationResult {
+  /** The input with schema fields coerced to their FieldType */
+  record: Record<string, unknown>;
+  issues: AppDataIssue[];
+}
+
+export interface ValidateRecordOptions {
+  /** Partial update: only the keys present are checked, required fields may be omitted */
+  partial?: boolean;
+}
+
+// ============================================================================
+// Coercion
+// ============================================================================
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Coerce a value to a field's type. Returns undefined when it cannot be.
+ */
+export function coerceFieldValue(field: FieldDefinition, value: unknown): unknown {
+  switch (field.type) {
+    case 'string':
+    case 'text':
+    case 'enum':
+      return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+        ? String(value)
+        : undefined;
+
+    case 'number': {
+      if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+      if (typeof value === 'string') {
+        const parsed = Number(value.trim());
+        return Number.isFinite(parsed) ? parsed : undefined;
+      }
+      return undefined;
+    }
+
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 1 || value === 'true' || value === '1' || value === 'on') return true;
+      if (value === 0 || value === 'false' || value === '0' || value === 'off') return false;
+      return undefined;
+
+    case 'date':
+    case 'datetime': {
+      if (typeof value !== 'string' && !(value instanceof Date)) return undefined;
+      if (field.type === 'date' && typeof value === 'string' && DATE_ONLY.test(value)) {
+        return Number.isNaN(Date.parse(value)) ? undefined : value;
+      }
+      const date = value instanceof Date ? value : new Date(value);
+      if (Number.isNaN(date.getTime())) return undefined;
+      return field.type === 'date' ? date.toISOString().slice(0, 10) : date.toISOString();
+    }
+
+    case 'array':
+      if (Array.isArray(value)) return value;
+      if (typeof value === 'string') {
+        try {
+          const parsed = JSON.parse(value);
+          return Array.isArray(parsed) ? parsed : undefined;
+        } catch {
+          return undefined;
+        }
+      }
+      return undefined;
+
+    case 'json':
+    default:
+      return value;
+  }
+}
+
+const TYPE_MESSAGES: Record<FieldDefinition['type'], string> = {
+  string: 'must be text',
+  text: 'must be text',
+  enum: 'must be text',
+  number: 'must be a number',
+  boolean: 'must be true or false',
+  date: 'must be a valid date',
+  datetime: 'must be a valid date and time',
+  array: 'must be a list',
+  json: 'must be valid JSON',
+};
+
+/**
+ * Build an issue for a field. A schema's custom validation message replaces the
+ * default for rule failures, but not for required/unique which it cannot describe.
+ */
+function issue(field: FieldDefinition, code: FieldErrorCode, message: string): AppDataIssue {
+  const custom = code !== 'required' && code !== 'unique' ? field.validation?.message : undefined;
+  return { path: field.name, code, message: custom || message };
+}
+
+function checkConstraints(field: FieldDefinition, value: unknown): AppDataIssue | null {
+  if (field.type === 'enum' && field.options && field.options.length > 0 && !field.options.includes(value as string)) {
+    return issue(field, 'enum', `${field.label} must be one of: ${field.options.join(', ')}`);
+  }
+
+  const rules = field.validation;
+  if (!rules) return null;
+
+  if (typeof value === 'number') {
+    if (rules.min !== undefined && value < rules.min) {
+      return issue(field, 'min', `${field.label} must be at least ${rules.min}`);
+    }
+    if (rules.max !== undefined && value > rules.max) {
+      return issue(field, 'max', `${field.label} must be at most ${rules.max}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (rules.minLength !== undefined && value.length < rules.minLength) {
+      return issue(field, 'minLength', `${field.label} must be at least ${rules.minLength} characters`);
+    }
+    if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+      return issue(field, 'maxLength', `${field.label} must be at most ${rules.maxLength} characters`);
+    }
+    if (rules.pattern) {
+      let pattern: RegExp | null = null;
+      try {
+        pattern = new RegExp(rules.pattern);
+      } catch {
+        // A malformed pattern in a generated schema should not block every write
+        pattern = null;
+      }
+      if (pattern && !pattern.test(value)) {
+        return issue(field, 'pattern', `${field.label} is not in the expected format`);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (rules.min !== undefined && value.length < rules.min) {
+      return issue(field, 'min', `${field.label} needs at least ${rules.min} items`);
+    }
+    if (rules.max !== undefined && value.length > rules.max) {
+      return issue(field, 'max', `${field.label} allows at most ${rules.max} items`);
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate and coerce a record against a schema.
+ * Computed fields are derived on read, so they are dropped from writes; other
+ * keys that are not schema fields are passed through untouched.
+ */
+export function validateRecord(
+  schema: Schema | null,
+  input: Record<string, unknown>,
+  options: ValidateRecordOptions = {}
+): RecordValidationResult {
+  const record: Record<string, unknown> = { ...input };
+  const issues: AppDataIssue[] = [];
+
+  if (!schema) {
+    return { record, issues };
+  }
+
+  for (const field of schema.computedFields || []) {
+    delete record[field.name];
+  }
+
+  for (const field of schema.fields) {
+    if ((SYSTEM_COLUMNS as readonly string[]).includes(field.name)) continue;
+
+    const present = Object.prototype.hasOwnProperty.call(input, field.name);
+    if (options.partial && !present) continue;
+
+    const value = input[field.name];
+
+    if (isEmpty(value)) {
+      // Defaults come from generated schemas and may not match the field type;
+      // fall through to the required check rather than rejecting the write
+      const fallback = !options.partial && field.defaultValue !== undefined
+        ? coerceFieldValue(field, field.defaultValue)
+        : undefined;
+
+      if (fallback !== undefined) {
+        record[field.name] = fallback;
+      } else {
+        if (field.required && !field.generated && !field.nullable) {
+          issues.push(issue(field, 'required', `${field.label} is required`));
+        }
+        // null clears the column on update
+        record[field.name] = null;
+      }
+      continue;
+    }
+
+    const coerced = coerceFieldValue(field, value);
+    if (coerced === undefined) {
+      issues.push(issue(field, 'type', `${field.label} ${TYPE_MESSAGES[field.type]}`));
+      continue;
+    }
+
+    const problem = checkConstraints(field, coerced);
+    if (problem) {
+      issues.push(problem);
+      continue;
+    }
+
+    record[field.name] = coerced;
+  }
+
+  return { record, issues };
+}
+
+/**
+ * Validate a write to a collection, including `unique` constraints.
+ *
+ * @param id - The record being updated; omit for inserts
+ * @throws AppDataError with code VALIDATION_FAILED and one issue per failing field
+ */
+export function prepareWrite(
+  collection: DataCollection,
+  input: unknown,
+  id?: string
+): Record<string, unknown> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new AppDataError('Record must be an object', 'VALIDATION_FAILED', [
+      { path: '', code: 'type', message: 'Record must be an object' },
+    ]);
+  }
+
+  const { record, issues } = validateRecord(collection.schema, input as Record<string, unknown>, {
+    partial: id !== undefined,
+  });
+
+  const failed = new Set(issues.map(item => item.path));
+  for (const field of collection.schema?.fields || []) {
+    if (!field.unique || field.primaryKey || failed.has(field.name) || isEmpty(record[field.name])) continue;
+    if (collection.hasValue(field.name, record[field.name], id)) {
+      issues.push(issue(field, 'unique', `${field.label} must be unique`));
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new AppDataError('Validation failed', 'VALIDATION_FAILED', issues);
+  }
+
+  return record;
+}
+
+/**
+ * Flatten issues into a field name → message map for inline form errors
+ */
+export function toFieldErrors(issues: AppDataIssue[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const item of issues) {
+    if (!(item.path in errors)) {
+      errors[item.path] = item.message;
+    }
+  }
+  return errors;
+}
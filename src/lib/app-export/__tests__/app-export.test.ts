@@ -0,0 +1,230 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * App Export Tests
+ * Tests for finding an app's code, laying it out as a Vite or Next.js
+ * project, and writing zip and tarball archives
+ */
+
+import { gunzipSync, inflateRawSync } from 'zlib';
+import {
+  AppExportError,
+  buildProject,
+  createTarball,
+  createZip,
+  crc32,
+  exportApp,
+  importedPackages,
+  projectSlug,
+  resolveExportFiles,
+  type ExportSource,
+} from '..';
+
+const apps: Record<string, Record<string, unknown>> = {};
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    app: {
+      findUnique: async ({ where }: any) => apps[where.id] || null,
+    },
+  },
+}));
+
+jest.mock('@/lib/app-data', () => ({
+  openAppDataStore: () => {
+    const collection = {
+      name: 'Task',
+      schema: { name: 'Task', label: 'Tasks', fields: [{ name: 'title', label: 'Title', type: 'string', required: true }] },
+      list: () => [{ id: 't1', title: 'First', createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' }],
+    };
+    return { collectionNames: () => ['Task'], collection: () => collection };
+  },
+}));
+
+const source: ExportSource = {
+  id: 'app-1',
+  name: 'Task Tracker',
+  description: 'Tracks tasks',
+  files: {
+    'App.tsx': "import { motion } from 'framer-motion';\nimport { cn } from '@/lib/utils';\nimport { List } from './components/List';\nexport default function App() { return null; }\n",
+    'components/List.tsx': "import { format } from 'date-fns/format';\nimport { DndContext } from '@dnd-kit/core';\nexport function List() { return null; }\n",
+  },
+  schemas: [{ name: 'Task', label: 'Tasks', fields: [{ name: 'title', label: 'Title', type: 'string', required: true }] }],
+  data: { Task: [{ id: 't1', title: 'First', createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' }] },
+};
+
+/** Entries of a zip, read from its central directory */
+function readZip(buffer: Buffer): Record<string, string> {
+  const end = buffer.length - 22;
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  const entries: Record<string, string> = {};
+
+  for (let n = 0; n < count; n++) {
+    const method = buffer.readUInt16LE(offset + 10);
+    const crc = buffer.readUInt32LE(offset + 16);
+    const size = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const local = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const start = local + 30 + buffer.readUInt16LE(local + 26);
+    const body = buffer.subarray(start, start + size);
+    const data = method === 8 ? inflateRawSync(body) : body;
+    expect(crc32(data)).toBe(crc);
+    entries[name] = data.toString('utf8');
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+beforeEach(() => {
+  for (const id of Object.keys(apps)) delete apps[id];
+});
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+describe('resolveExportFiles', () => {
+  it('uses component files when the app has them', () => {
+    const files = resolveExportFiles({
+      componentFiles: JSON.stringify({ 'App.tsx': 'app', 'lib/hooks.ts': 'hooks', 'empty.ts': '' }),
+      generatedCode: JSON.stringify({ pageComponent: 'old' }),
+      spec: '{}',
+    });
+
+    expect(files).toEqual({ 'App.tsx': 'app', 'lib/hooks.ts': 'hooks' });
+  });
+
+  it('lays out the code generator outputs stored in the spec, without route handlers', () => {
+    const files = resolveExportFiles({
+      componentFiles: null,
+      generatedCode: null,
+      spec: JSON.stringify({ components: { page: 'page', types: 'types', api: 'api', TaskList: 'list', 'route.ts': 'route' } }),
+    });
+
+    expect(files).toEqual({
+      'App.tsx': 'page',
+      'lib/types.ts': 'types',
+      'lib/api.ts': 'api',
+      'components/TaskList.tsx': 'list',
+    });
+  });
+
+  it('falls back to a V1 page component, and to null without code', () => {
+    expect(resolveExportFiles({ componentFiles: null, generatedCode: { pageComponent: 'page', types: 'types' }, spec: null }))
+      .toEqual({ 'App.tsx': 'page', 'lib/types.ts': 'types' });
+    expect(resolveExportFiles({ componentFiles: null, generatedCode: { pageComponent: ' ' }, spec: '{}' })).toBeNull();
+  });
+});
+
+describe('importedPackages', () => {
+  it('lists package names without subpaths, local files or platform aliases', () => {
+    expect(importedPackages(source.files)).toEqual(['@dnd-kit/core', 'date-fns', 'framer-motion']);
+  });
+});
+
+// ============================================================================
+// Projects
+// ============================================================================
+
+describe('buildProject', () => {
+  it('builds a Vite project with the data layer, runtime and seed', () => {
+    const files = buildProject(source, 'vite');
+    const pkg = JSON.parse(files['package.json']);
+
+    expect(files['src/App.tsx']).toBe(source.files['App.tsx']);
+    expect(files['src/components/List.tsx']).toBeDefined();
+    expect(Object.keys(files)).toEqual(expect.arrayContaining([
+      'index.html', 'vite.config.ts', 'src/main.tsx', 'server/db.js', 'server/api.js', 'server/index.js', 'tailwind.config.js',
+    ]));
+    expect(pkg.name).toBe('task-tracker');
+    expect(pkg.dependencies).toMatchObject({ 'framer-motion': '^11.15.0', '@dnd-kit/core': 'latest', 'better-sqlite3': expect.any(String) });
+    expect(pkg.devDependencies).toHaveProperty('vite');
+    expect(JSON.parse(files['data/seed.json'])).toEqual(source.data);
+    expect(JSON.parse(files['data/schema.json'])).toEqual(source.schemas);
+    expect(files['README.md']).toContain('**Tasks** (`Task`): 1 record');
+  });
+
+  it('builds a Next.js project with the data API as a route handler', () => {
+    const files = buildProject(source, 'nextjs');
+
+    expect(files['app/api/[...path]/route.ts']).toContain('handleDataRequest');
+    expect(files['app/page.tsx']).toContain("from '../src/App'");
+    expect(files['src/nebula/runtime.ts'].startsWith("'use client';")).toBe(true);
+    expect(files).not.toHaveProperty('vite.config.ts');
+    expect(JSON.parse(files['package.json']).dependencies).toHaveProperty('next');
+  });
+
+  it('keeps its own runtime files over app files at the same path', () => {
+    const files = buildProject({ ...source, files: { ...source.files, 'nebula/utils.ts': 'app utils' } }, 'vite');
+
+    expect(files['src/nebula/utils.ts']).toContain('twMerge');
+  });
+
+  it('makes a slug of the app name', () => {
+    expect(projectSlug('  My Task Tracker!! ')).toBe('my-task-tracker');
+    expect(projectSlug('***')).toBe('app');
+  });
+});
+
+// ============================================================================
+// Archives
+// ============================================================================
+
+describe('archives', () => {
+  const files = { 'app/README.md': '# App\n', 'app/src/App.tsx': 'export default 1;\n'.repeat(50) };
+
+  it('writes a zip with every file', () => {
+    expect(readZip(createZip(files))).toEqual(files);
+  });
+
+  it('writes a gzipped ustar tarball, splitting long paths', () => {
+    const longPath = `app/${'nested/'.repeat(16)}file.ts`;
+    const tar = gunzipSync(createTarball({ ...files, [longPath]: 'long' }));
+
+    expect(tar.length % 512).toBe(0);
+    expect(tar.toString('utf8', 0, 13)).toBe('app/README.md');
+    expect(tar.toString('utf8', 257, 262)).toBe('ustar');
+    expect(parseInt(tar.toString('utf8', 124, 135), 8)).toBe(6);
+    expect(tar.toString('utf8', 512, 518)).toBe('# App\n');
+
+    const header = tar.indexOf('file.ts') - (tar.indexOf('file.ts') % 512);
+    const prefix = tar.toString('utf8', header + 345, header + 500).replace(/\0+$/, '');
+    const name = tar.toString('utf8', header, header + 100).replace(/\0+$/, '');
+    expect(`${prefix}/${name}`).toBe(longPath);
+
+    let checksum = 0;
+    for (let i = 0; i < 512; i++) checksum += i >= 148 && i < 156 ? 32 : tar[i];
+    expect(parseInt(tar.toString('utf8', 148, 154), 8)).toBe(checksum);
+  });
+});
+
+// ============================================================================
+// Export
+// ============================================================================
+
+describe('exportApp', () => {
+  it('packages the app in a folder named after it', async () => {
+    apps['app-1'] = { id: 'app-1', name: 'Task Tracker', description: null, spec: '{}', data: '[]', componentFiles: JSON.stringify({ 'App.tsx': 'app' }), generatedCode: null };
+
+    const archive = await exportApp('app-1', 'vite', 'zip');
+    const entries = readZip(archive.body);
+
+    expect(archive.filename).toBe('task-tracker-vite.zip');
+    expect(archive.contentType).toBe('application/zip');
+    expect(entries['task-tracker/src/App.tsx']).toBe('app');
+    expect(JSON.parse(entries['task-tracker/data/seed.json']).Task).toHaveLength(1);
+  });
+
+  it('refuses apps that are missing or have no code yet', async () => {
+    apps['app-2'] = { id: 'app-2', name: 'Empty', description: null, spec: '{}', data: '[]', componentFiles: null, generatedCode: null };
+
+    await expect(exportApp('missing', 'vite', 'zip')).rejects.toMatchObject({ code: 'NOT_FOUND', status: 404 });
+    await expect(exportApp('app-2', 'nextjs', 'tar.gz')).rejects.toThrow(AppExportError);
+    await expect(exportApp('app-2', 'nextjs', 'tar.gz')).rejects.toMatchObject({ code: 'NO_CODE', status: 409 });
+  });
+});
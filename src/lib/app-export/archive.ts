@@ -0,0 +1,181 @@
+/**
+ * Project Archives
+ * Writes a project's files as a zip or a gzipped tarball. Both formats are
+ * simple enough to write directly: every file is stored as one entry, and
+ * folders are implied by the paths.
+ */
+
+import { deflateRawSync, gzipSync } from 'zlib';
+import type { ArchiveFormat, ProjectFiles } from './types';
+
+// ============================================================================
+// Zip
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS time and date, as zip headers store modification times */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/** General purpose flag: file names are UTF-8 */
+const UTF8_NAMES = 0x0800;
+
+/**
+ * Zip the files, deflating each one unless that would make it bigger
+ */
+export function createZip(files: ProjectFiles, modified = new Date()): Buffer {
+  const { time, date } = dosDateTime(modified);
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [path, content] of Object.entries(files)) {
+    const name = Buffer.from(path, 'utf8');
+    const data = Buffer.from(content, 'utf8');
+    const deflated = deflateRawSync(data);
+    const stored = deflated.length >= data.length;
+    const body = stored ? data : deflated;
+    const crc = crc32(data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(UTF8_NAMES, 6);
+    header.writeUInt16LE(stored ? 0 : 8, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(body.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    local.push(header, name, body);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(UTF8_NAMES, 8);
+    entry.writeUInt16LE(stored ? 0 : 8, 10);
+    entry.writeUInt16LE(time, 12);
+    entry.writeUInt16LE(date, 14);
+    entry.writeUInt32LE(crc, 16);
+    entry.writeUInt32LE(body.length, 20);
+    entry.writeUInt32LE(data.length, 24);
+    entry.writeUInt16LE(name.length, 28);
+    // Unix permissions rw-r--r-- in the high half of the external attributes
+    entry.writeUInt32LE((0o100644 << 16) >>> 0, 38);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, name);
+
+    offset += header.length + name.length + body.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(central.length / 2, 8);
+  end.writeUInt16LE(central.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...local, directory, end]);
+}
+
+// ============================================================================
+// Tarball
+// ============================================================================
+
+const BLOCK = 512;
+
+function writeString(header: Buffer, value: string, offset: number, length: number) {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  writeString(header, value.toString(8).padStart(length - 1, '0'), offset, length - 1);
+}
+
+/**
+ * Split a path into the ustar `prefix` and `name` fields (155 and 100 bytes)
+ */
+function splitTarPath(path: string): { prefix: string; name: string } {
+  if (Buffer.byteLength(path) <= 100) return { prefix: '', name: path };
+
+  for (let slash = path.indexOf('/'); slash !== -1; slash = path.indexOf('/', slash + 1)) {
+    const prefix = path.slice(0, slash);
+    const name = path.slice(slash + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+      return { prefix, name };
+    }
+  }
+  throw new Error(`Path is too long for a tarball: ${path}`);
+}
+
+function tarHeader(path: string, size: number, modified: Date): Buffer {
+  const header = Buffer.alloc(BLOCK);
+  const { prefix, name } = splitTarPath(path);
+
+  writeString(header, name, 0, 100);
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(modified.getTime() / 1000), 136, 12);
+  header.fill(' ', 148, 156);
+  writeString(header, '0', 156, 1);
+  writeString(header, 'ustar\u000000', 257, 8);
+  writeString(header, prefix, 345, 155);
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  writeString(header, `${checksum.toString(8).padStart(6, '0')}\u0000 `, 148, 8);
+
+  return header;
+}
+
+/**
+ * A gzipped ustar tarball of the files
+ */
+export function createTarball(files: ProjectFiles, modified = new Date()): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const [path, content] of Object.entries(files)) {
+    const data = Buffer.from(content, 'utf8');
+    blocks.push(tarHeader(path, data.length, modified), data);
+    const padding = (BLOCK - (data.length % BLOCK)) % BLOCK;
+    if (padding) blocks.push(Buffer.alloc(padding));
+  }
+  blocks.push(Buffer.alloc(BLOCK * 2));
+
+  return gzipSync(Buffer.concat(blocks));
+}
+
+/**
+ * Archive the files in the given format
+ */
+export function createArchive(files: ProjectFiles, format: ArchiveFormat): Buffer {
+  return format === 'zip' ? createZip(files) : createTarball(files);
+}
@@ -0,0 +1,68 @@
+/**
+ * App Exporter
+ * Loads an app's code, schemas and records and packages them as a project archive
+ */
+
+import prisma from '@/lib/db';
+import { openAppDataStore } from '@/lib/app-data';
+import { createArchive } from './archive';
+import { buildProject, projectSlug } from './project';
+import { resolveExportFiles } from './source';
+import {
+  ARCHIVE_CONTENT_TYPES,
+  AppExportError,
+  type AppExport,
+  type ArchiveFormat,
+  type ExportSource,
+  type ExportTarget,
+} from './types';
+
+/**
+ * Everything an export of the app is built from, with its records as they are now
+ */
+export async function loadExportSource(appId: string): Promise<ExportSource> {
+  const app = await prisma.app.findUnique({
+    where: { id: appId },
+    select: { id: true, name: true, description: true, spec: true, data: true, componentFiles: true, generatedCode: true },
+  });
+  if (!app) {
+    throw new AppExportError('App not found', 'NOT_FOUND');
+  }
+
+  const files = resolveExportFiles(app);
+  if (!files) {
+    throw new AppExportError('This app has no code to export yet', 'NO_CODE');
+  }
+
+  const store = openAppDataStore(app);
+  const collections = store.collectionNames().map(name => store.collection(name));
+
+  return {
+    id: app.id,
+    name: app.name,
+    description: app.description,
+    files,
+    // Apps without a schema keep their records in one schemaless collection
+    schemas: collections.map(collection => collection.schema ?? { name: collection.name, label: 'Records', fields: [] }),
+    data: Object.fromEntries(collections.map(collection => [collection.name, collection.list()])),
+  };
+}
+
+/**
+ * Package the app as a standalone project. Every file sits in a folder named
+ * after the app, so the archive unpacks into one directory.
+ */
+export async function exportApp(appId: string, target: ExportTarget, format: ArchiveFormat): Promise<AppExport> {
+  const source = await loadExportSource(appId);
+  const slug = projectSlug(source.name);
+  const files = buildProject(source, target);
+
+  return {
+    filename: `${slug}-${target}.${format}`,
+    contentType: ARCHIVE_CONTENT_TYPES[format],
+    body: createArchive(
+      Object.fromEntries(Object.entries(files).map(([path, content]) => [`${slug}/${path}`, content])),
+      format
+    ),
+  };
+}
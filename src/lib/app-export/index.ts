@@ -0,0 +1,40 @@
+/**
+ * App Export Module Index
+ * Generated apps packaged as standalone Vite or Next.js projects
+ */
+
+export {
+  exportApp,
+  loadExportSource,
+} from './exporter';
+
+export {
+  buildProject,
+  projectSlug,
+} from './project';
+
+export {
+  resolveExportFiles,
+  importedPackages,
+} from './source';
+
+export {
+  createArchive,
+  createZip,
+  createTarball,
+  crc32,
+} from './archive';
+
+export {
+  EXPORT_TARGETS,
+  ARCHIVE_FORMATS,
+  ARCHIVE_CONTENT_TYPES,
+  PACKAGE_VERSIONS,
+  AppExportError,
+  type ExportTarget,
+  type ArchiveFormat,
+  type ProjectFiles,
+  type ExportSource,
+  type AppExport,
+  type AppExportErrorCode,
+} from './types';
@@ -0,0 +1,337 @@
+/**
+ * Export Projects
+ * Lays out an app as a Vite or Next.js project: the app's own files under
+ * src/, the runtime it was written against, and the data layer with its seed
+ */
+
+import { importedPackages } from './source';
+import {
+  API_MODULE,
+  DB_MODULE,
+  GITIGNORE,
+  GLOBALS_DECLARATIONS,
+  GLOBAL_CSS,
+  HTTP_MODULE,
+  NEXT_ROUTE_MODULE,
+  POSTCSS_CONFIG,
+  UTILS_MODULE,
+  VITE_SERVER_MODULE,
+  runtimeModule,
+  tailwindConfig,
+} from './templates';
+import { PACKAGE_VERSIONS, type ExportSource, type ExportTarget, type ProjectFiles } from './types';
+
+/** Packages the runtime and data layer need whatever the app imports */
+const RUNTIME_DEPENDENCIES = ['react', 'react-dom', 'better-sqlite3', 'clsx', 'tailwind-merge'];
+
+const COMMON_DEV_DEPENDENCIES = [
+  'typescript',
+  'tailwindcss',
+  'postcss',
+  'autoprefixer',
+  '@types/react',
+  '@types/react-dom',
+  '@types/node',
+];
+
+const TARGET_DEPENDENCIES: Record<ExportTarget, { dependencies: string[]; devDependencies: string[] }> = {
+  vite: { dependencies: [], devDependencies: ['vite', '@vitejs/plugin-react'] },
+  nextjs: { dependencies: ['next'], devDependencies: [] },
+};
+
+/** Typings published separately from the packages generated code commonly uses */
+const TYPE_PACKAGES: Record<string, string> = {
+  'lodash-es': '@types/lodash-es',
+};
+
+/**
+ * A package name safe for npm and file names
+ */
+export function projectSlug(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return slug || 'app';
+}
+
+function versions(packages: string[]): Record<string, string> {
+  return Object.fromEntries(
+    Array.from(new Set(packages)).sort().map(name => [name, PACKAGE_VERSIONS[name] || 'latest'])
+  );
+}
+
+function json(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+// ============================================================================
+// Shared files
+// ============================================================================
+
+function packageJson(source: ExportSource, target: ExportTarget): string {
+  const imported = importedPackages(source.files);
+  const scripts = target === 'vite'
+    ? { dev: 'vite', build: 'vite build', start: 'node server/index.js' }
+    : { dev: 'next dev', build: 'next build', start: 'next start' };
+
+  return json({
+    name: projectSlug(source.name),
+    version: '1.0.0',
+    private: true,
+    type: 'module',
+    scripts: { ...scripts, 'db:reset': "node -e \"require('fs').rmSync('data/app.db', { force: true })\"" },
+    dependencies: versions([...RUNTIME_DEPENDENCIES, ...TARGET_DEPENDENCIES[target].dependencies, ...imported]),
+    devDependencies: versions([
+      ...COMMON_DEV_DEPENDENCIES,
+      ...TARGET_DEPENDENCIES[target].devDependencies,
+      '@types/better-sqlite3',
+      ...imported.flatMap(name => TYPE_PACKAGES[name] ? [TYPE_PACKAGES[name]] : []),
+    ]),
+  });
+}
+
+function tsconfig(target: ExportTarget): string {
+  // Generated code was only ever checked loosely, so the project isn't strict either
+  return json({
+    compilerOptions: {
+      target: 'ES2020',
+      lib: ['dom', 'dom.iterable', 'ES2020'],
+      module: 'ESNext',
+      moduleResolution: 'Bundler',
+      jsx: target === 'vite' ? 'react-jsx' : 'preserve',
+      strict: false,
+      allowJs: true,
+      skipLibCheck: true,
+      esModuleInterop: true,
+      allowUmdGlobalAccess: true,
+      resolveJsonModule: true,
+      isolatedModules: true,
+      noEmit: true,
+      paths: {
+        '@/lib/utils': ['./src/nebula/utils.ts'],
+      },
+      ...(target === 'nextjs' && { incremental: true, plugins: [{ name: 'next' }] }),
+    },
+    include: target === 'vite'
+      ? ['src']
+      : ['next-env.d.ts', 'src', 'app', 'server', '.next/types/**/*.ts'],
+    exclude: ['node_modules'],
+  });
+}
+
+function appInfoModule(source: ExportSource): string {
+  return `/** The app as it was exported; passed to the root component as props */
+export const APP = ${JSON.stringify({ appId: source.id, name: source.name, description: source.description || '' }, null, 2)};
+`;
+}
+
+/** Find the root component however App.tsx exports it */
+const ROOT_COMPONENT = `const exported: Record<string, any> = { ...AppModule };
+const App = exported.default || exported.App || Object.values(exported).find(value => typeof value === 'function');`;
+
+function readme(source: ExportSource, target: ExportTarget): string {
+  const collections = source.schemas
+    .map(schema => {
+      const count = source.data[schema.name]?.length || 0;
+      return `- **${schema.label || schema.name}** (\`${schema.name}\`): ${count} ${count === 1 ? 'record' : 'records'}`;
+    })
+    .join('\n');
+  const framework = target === 'vite' ? 'Vite and React' : 'Next.js';
+  const start = target === 'vite'
+    ? 'builds the app into `dist/`, and `npm start` serves it together with the data API on port 3000 (set `PORT` to change it).'
+    : 'builds the app, and `npm start` serves it on port 3000.';
+  const layout = target === 'vite'
+    ? [
+      '- `src/main.tsx` mounts the app',
+      '- `server/index.js` serves the build and the data API; `npm run dev` serves the API from the Vite dev server',
+      '- `server/http.js` adapts the data API to Node\'s HTTP server',
+    ]
+    : [
+      '- `app/page.tsx` mounts the app',
+      '- `app/api/[...path]/route.ts` serves the data API',
+    ];
+
+  return `# ${source.name}
+
+${source.description ? `${source.description}\n\n` : ''}A standalone ${framework} project exported from Cumulonimbus, with the app's code, a local SQLite database and the app's data at the time of export.
+
+## Running it
+
+Requires Node.js 18 or later.
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+
+\`npm run build\` ${start}
+
+The database is created at \`data/app.db\` the first time the app starts, and filled from \`data/seed.json\`. Set \`DATABASE_PATH\` to keep it somewhere else. \`npm run db:reset\` deletes it, so the next start seeds it again.
+
+## Data
+
+${collections || 'The app has no collections.'}
+
+\`data/schema.json\` describes each collection's fields. Each collection is one table. Fields added to the schema get a column the next time the app starts.
+
+The app reads and writes its data through:
+
+- \`GET /api/data?collection=Name\`, which lists records and accepts \`filter[field]=value\`, \`filter[field][gte]=value\` (also \`ne\`, \`gt\`, \`lt\`, \`lte\`, \`contains\`), \`sort=-createdAt,title\`, \`limit\` and \`offset\`. The total is returned in \`X-Total-Count\`.
+- \`POST /api/data\` with \`{ "action": "add" | "update" | "delete", "collection", "id", "record" }\`.
+- \`/api/apps/${source.id}/data\`, which answers the generated API client with \`GET\`, \`POST\`, \`PATCH ?id=\` and \`DELETE ?id=\` on the first collection.
+
+## Layout
+
+- \`src/\` holds the app's code, with \`App.tsx\` as its root component
+- \`src/nebula/\` holds the \`useAppData()\` hook and the helpers the hosted app provided
+${layout.join('\n')}
+- \`server/db.js\` is the data layer and \`server/api.js\` the data API
+
+## Differences from the hosted app
+
+- There is no sign-in. Anyone who can reach the server can read and change the data.
+- Computed fields are not calculated, and deleting a record doesn't apply its relations' delete rules.
+- Changes made in another tab appear after a reload instead of live.
+- Workflows, webhooks and API tokens are not included.
+`;
+}
+
+// ============================================================================
+// Targets
+// ============================================================================
+
+function viteFiles(source: ExportSource): ProjectFiles {
+  return {
+    'index.html': `<!DOCTYPE html>
+<html lang="en" class="dark">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${source.name.replace(/[<&]/g, char => (char === '<' ? '&lt;' : '&amp;'))}</title>
+  </head>
+  <body class="bg-black text-white">
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`,
+    'vite.config.ts': `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+import { fileURLToPath } from 'node:url';
+import { dataMiddleware } from './server/http.js';
+
+export default defineConfig({
+  plugins: [
+    react(),
+    {
+      name: 'data-api',
+      configureServer(server) {
+        server.middlewares.use(dataMiddleware);
+      },
+    },
+  ],
+  resolve: {
+    alias: {
+      '@/lib/utils': fileURLToPath(new URL('./src/nebula/utils.ts', import.meta.url)),
+    },
+  },
+});
+`,
+    'src/main.tsx': `import React from 'react';
+import ReactDOM from 'react-dom/client';
+import * as AppModule from './App';
+import { APP } from './nebula/app';
+import { installGlobals } from './nebula/runtime';
+import './index.css';
+
+installGlobals();
+
+${ROOT_COMPONENT}
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <App {...APP} />
+  </React.StrictMode>
+);
+`,
+    'src/index.css': GLOBAL_CSS,
+    'src/nebula/runtime.ts': runtimeModule(false),
+    'server/http.js': HTTP_MODULE,
+    'server/index.js': VITE_SERVER_MODULE,
+    'tailwind.config.js': tailwindConfig(['./index.html', './src/**/*.{ts,tsx,js,jsx}']),
+  };
+}
+
+function nextFiles(source: ExportSource): ProjectFiles {
+  return {
+    'next.config.js': `/** @type {import('next').NextConfig} */
+export default {
+  experimental: {
+    // The native SQLite driver is loaded at runtime instead of bundled
+    serverComponentsExternalPackages: ['better-sqlite3'],
+  },
+};
+`,
+    'app/layout.tsx': `import type { Metadata } from 'next';
+import './globals.css';
+
+export const metadata: Metadata = {
+  title: ${JSON.stringify(source.name)},
+  description: ${JSON.stringify(source.description || '')},
+};
+
+export default function RootLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <html lang="en" className="dark">
+      <body className="bg-black text-white">
+        <div id="root">{children}</div>
+      </body>
+    </html>
+  );
+}
+`,
+    'app/page.tsx': `'use client';
+
+import * as AppModule from '../src/App';
+import { APP } from '../src/nebula/app';
+import { installGlobals } from '../src/nebula/runtime';
+
+installGlobals();
+
+${ROOT_COMPONENT}
+
+export default function Page() {
+  return <App {...APP} />;
+}
+`,
+    'app/globals.css': GLOBAL_CSS,
+    'app/api/[...path]/route.ts': NEXT_ROUTE_MODULE,
+    'src/nebula/runtime.ts': runtimeModule(true),
+    'tailwind.config.js': tailwindConfig(['./app/**/*.{ts,tsx}', './src/**/*.{ts,tsx,js,jsx}']),
+  };
+}
+
+/**
+ * Every file of the exported project, by path from the project root
+ */
+export function buildProject(source: ExportSource, target: ExportTarget): ProjectFiles {
+  const appFiles = Object.fromEntries(
+    Object.entries(source.files).map(([path, code]) => [`src/${path.replace(/^\/+/, '')}`, code])
+  );
+
+  return {
+    'README.md': readme(source, target),
+    'package.json': packageJson(source, target),
+    'tsconfig.json': tsconfig(target),
+    'postcss.config.js': POSTCSS_CONFIG,
+    '.gitignore': GITIGNORE,
+    ...appFiles,
+    // The runtime's own files win over any app file at the same path
+    ...(target === 'vite' ? viteFiles(source) : nextFiles(source)),
+    'src/nebula/app.ts': appInfoModule(source),
+    'src/nebula/globals.d.ts': GLOBALS_DECLARATIONS,
+    'src/nebula/utils.ts': UTILS_MODULE,
+    'server/db.js': DB_MODULE,
+    'server/api.js': API_MODULE,
+    'data/schema.json': json(source.schemas),
+    'data/seed.json': json(source.data),
+  };
+}
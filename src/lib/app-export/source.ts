@@ -0,0 +1,96 @@
+/**
+ * Export Sources
+ * Finds an app's code in whichever column it was stored in, laid out as the
+ * files the code generator's imports expect
+ */
+
+import type { ProjectFiles } from './types';
+
+/**
+ * Where the code generator's named outputs live in an app's file tree
+ */
+const GENERATED_FILE_PATHS: Record<string, string> = {
+  page: 'App.tsx',
+  types: 'lib/types.ts',
+  validators: 'lib/validators.ts',
+  api: 'lib/api.ts',
+  hooks: 'lib/hooks.ts',
+  utils: 'lib/utils.ts',
+};
+
+function parseColumn(value: unknown): any {
+  if (typeof value !== 'string') return value ?? null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function isCodeMap(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function codeEntries(map: Record<string, unknown>): Array<[string, string]> {
+  return Object.entries(map).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim() !== '');
+}
+
+/**
+ * The app's code as files relative to its root, with App.tsx as the entry, or
+ * null when it has none yet.
+ *
+ * - Freeform apps keep their files in `componentFiles`
+ * - Conversational (V2) apps keep the code generator's outputs in `spec.components`
+ * - V1 apps have a single `generatedCode.pageComponent`
+ *
+ * Generated Next.js route handlers are left out; they depend on this
+ * platform's auth and database, and the export brings its own data API.
+ */
+export function resolveExportFiles(app: { componentFiles: unknown; generatedCode: unknown; spec: unknown }): ProjectFiles | null {
+  const componentFiles = parseColumn(app.componentFiles);
+  if (isCodeMap(componentFiles) && typeof componentFiles['App.tsx'] === 'string') {
+    return Object.fromEntries(codeEntries(componentFiles));
+  }
+
+  const components = parseColumn(app.spec)?.components;
+  if (isCodeMap(components) && typeof components.page === 'string') {
+    const files: ProjectFiles = {};
+    for (const [name, code] of codeEntries(components)) {
+      if (/^route(\.ts)?$|^routes?\//.test(name)) continue;
+      files[GENERATED_FILE_PATHS[name] || `components/${name}.tsx`] = code;
+    }
+    return files;
+  }
+
+  const generatedCode = parseColumn(app.generatedCode);
+  if (isCodeMap(generatedCode) && typeof generatedCode.pageComponent === 'string' && generatedCode.pageComponent.trim()) {
+    const files: ProjectFiles = { 'App.tsx': generatedCode.pageComponent };
+    if (typeof generatedCode.types === 'string' && generatedCode.types.trim()) {
+      files['lib/types.ts'] = generatedCode.types;
+    }
+    return files;
+  }
+
+  return null;
+}
+
+/**
+ * npm packages the files import, by package name (`@scope/name` or `name`)
+ */
+export function importedPackages(files: ProjectFiles): string[] {
+  const packages = new Set<string>();
+  const pattern = /(?:\bfrom\s+|\bimport\s*\(\s*|\bimport\s+|\brequire\s*\(\s*)['"]([^'"]+)['"]/g;
+
+  for (const code of Object.values(files)) {
+    for (const match of Array.from(code.matchAll(pattern))) {
+      const specifier = match[1];
+      if (specifier.startsWith('.') || specifier.startsWith('/') || specifier.startsWith('@/') || specifier.startsWith('node:')) {
+        continue;
+      }
+      const parts = specifier.split('/');
+      packages.add(specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0]);
+    }
+  }
+
+  return Array.from(packages).sort();
+}
@@ -0,0 +1,704 @@
+/**
+ * Export Templates
+ * Files every exported project gets regardless of the app: a SQLite data
+ * layer, the data API the app's code calls, and the useAppData() runtime that
+ * Nebula pages provide as a global
+ */
+
+// ============================================================================
+// Server
+// ============================================================================
+
+/** server/db.js - one SQLite table per collection in data/schema.json */
+export const DB_MODULE = `/**
+ * Local data layer
+ * Keeps each collection described in data/schema.json in a SQLite table.
+ * A new database is seeded from data/seed.json, the app's data at export time.
+ */
+
+import Database from 'better-sqlite3';
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const DATABASE_PATH = process.env.DATABASE_PATH || path.join(DATA_DIR, 'app.db');
+const SYSTEM_COLUMNS = ['id', 'createdAt', 'updatedAt'];
+/** Values of fields the schema doesn't list, as JSON */
+const EXTRA_COLUMN = '_extra';
+
+export class DataError extends Error {
+  constructor(message, status, fieldErrors) {
+    super(message);
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+function readJson(file, fallback) {
+  const filePath = path.join(DATA_DIR, file);
+  return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : fallback;
+}
+
+export const schemas = readJson('schema.json', []);
+
+function quote(name) {
+  return '"' + name.replace(/"/g, '""') + '"';
+}
+
+function columnsOf(schema) {
+  return schema.fields.filter(field => !SYSTEM_COLUMNS.includes(field.name));
+}
+
+function sqlType(type) {
+  if (type === 'number') return 'REAL';
+  if (type === 'boolean') return 'INTEGER';
+  return 'TEXT';
+}
+
+function encode(field, value) {
+  if (value === undefined || value === null) return null;
+  if (field.type === 'boolean') return value ? 1 : 0;
+  if (field.type === 'array' || field.type === 'json' || typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+function decode(field, value) {
+  if (value === null || value === undefined) return undefined;
+  if (field.type === 'boolean') return value === 1 || value === true;
+  if (field.type === 'array' || field.type === 'json') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+// ============================================================================
+// Database
+// ============================================================================
+
+function ensureTable(db, schema) {
+  const table = quote(schema.name);
+  const columns = columnsOf(schema).map(field => quote(field.name) + ' ' + sqlType(field.type));
+  db.exec('CREATE TABLE IF NOT EXISTS ' + table + ' ("id" TEXT PRIMARY KEY, "createdAt" TEXT NOT NULL, "updatedAt" TEXT NOT NULL, ' +
+    [...columns, quote(EXTRA_COLUMN) + ' TEXT'].join(', ') + ')');
+
+  const existing = new Set(db.prepare('PRAGMA table_info(' + table + ')').all().map(column => column.name));
+  for (const field of columnsOf(schema)) {
+    if (!existing.has(field.name)) {
+      db.exec('ALTER TABLE ' + table + ' ADD COLUMN ' + quote(field.name) + ' ' + sqlType(field.type));
+    }
+  }
+}
+
+function seed(db) {
+  const data = readJson('seed.json', {});
+  db.transaction(() => {
+    for (const schema of schemas) {
+      for (const record of data[schema.name] || []) {
+        insertRow(db, schema, record);
+      }
+    }
+  })();
+}
+
+/**
+ * The shared connection; kept on globalThis so dev servers that reload
+ * modules don't open the database again
+ */
+export function database() {
+  if (!globalThis.__appDatabase) {
+    const isNew = !fs.existsSync(DATABASE_PATH);
+    fs.mkdirSync(path.dirname(DATABASE_PATH), { recursive: true });
+    const db = new Database(DATABASE_PATH);
+    db.pragma('journal_mode = WAL');
+    for (const schema of schemas) ensureTable(db, schema);
+    if (isNew) seed(db);
+    globalThis.__appDatabase = db;
+  }
+  return globalThis.__appDatabase;
+}
+
+function fromRow(schema, row) {
+  const record = { ...(row[EXTRA_COLUMN] ? JSON.parse(row[EXTRA_COLUMN]) : {}), id: row.id, createdAt: row.createdAt, updatedAt: row.updatedAt };
+  for (const field of columnsOf(schema)) {
+    const value = decode(field, row[field.name]);
+    if (value !== undefined) record[field.name] = value;
+  }
+  return record;
+}
+
+function rowValues(schema, record) {
+  const known = new Set([...SYSTEM_COLUMNS, ...columnsOf(schema).map(field => field.name)]);
+  const extra = Object.fromEntries(Object.entries(record).filter(([key]) => !known.has(key)));
+  const createdAt = record.createdAt || new Date().toISOString();
+  return {
+    columns: ['id', 'createdAt', 'updatedAt', ...columnsOf(schema).map(field => field.name), EXTRA_COLUMN],
+    values: [
+      record.id,
+      createdAt,
+      record.updatedAt || createdAt,
+      ...columnsOf(schema).map(field => encode(field, record[field.name])),
+      Object.keys(extra).length > 0 ? JSON.stringify(extra) : null,
+    ],
+  };
+}
+
+function insertRow(db, schema, record) {
+  const { columns, values } = rowValues(schema, record);
+  db.prepare('INSERT INTO ' + quote(schema.name) + ' (' + columns.map(quote).join(', ') + ') VALUES (' + columns.map(() => '?').join(', ') + ')')
+    .run(...values);
+}
+
+function updateRow(db, schema, record) {
+  const { columns, values } = rowValues(schema, record);
+  db.prepare('UPDATE ' + quote(schema.name) + ' SET ' + columns.map(column => quote(column) + ' = ?').join(', ') + ' WHERE id = ?')
+    .run(...values, record.id);
+}
+
+// ============================================================================
+// Collections
+// ============================================================================
+
+/**
+ * A collection's schema by name, matched case-insensitively; the first
+ * collection when no name is given
+ */
+export function collection(name) {
+  const schema = name
+    ? schemas.find(candidate => candidate.name === name) ||
+      schemas.find(candidate => candidate.name.toLowerCase() === String(name).toLowerCase())
+    : schemas[0];
+  if (!schema) throw new DataError('Unknown collection: ' + name, 404);
+  return schema;
+}
+
+/**
+ * Check and coerce a write. Partial writes only check the fields they set.
+ */
+function validate(schema, input, partial) {
+  const values = {};
+  const fieldErrors = {};
+
+  for (const [key, value] of Object.entries(input || {})) {
+    if (!SYSTEM_COLUMNS.includes(key)) values[key] = value;
+  }
+
+  for (const field of columnsOf(schema)) {
+    const value = values[field.name];
+    if (value === undefined || value === null || value === '') {
+      if (!partial && field.required && !field.generated && field.defaultValue === undefined) {
+        fieldErrors[field.name] = (field.label || field.name) + ' is required';
+      } else if (!partial && value === undefined && field.defaultValue !== undefined) {
+        values[field.name] = field.defaultValue;
+      }
+      continue;
+    }
+
+    if (field.type === 'number') {
+      const number = Number(value);
+      if (Number.isNaN(number)) fieldErrors[field.name] = (field.label || field.name) + ' must be a number';
+      else values[field.name] = number;
+    } else if (field.type === 'boolean') {
+      values[field.name] = value === true || value === 'true' || value === 1 || value === '1';
+    } else if (field.type === 'enum' && field.options && field.options.length > 0 && !field.options.includes(value)) {
+      fieldErrors[field.name] = (field.label || field.name) + ' must be one of ' + field.options.join(', ');
+    }
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new DataError('Invalid ' + schema.name, 400, fieldErrors);
+  }
+  return values;
+}
+
+/** Records newest first */
+export function listRecords(name) {
+  const schema = collection(name);
+  return database().prepare('SELECT * FROM ' + quote(schema.name) + ' ORDER BY rowid DESC').all().map(row => fromRow(schema, row));
+}
+
+export function getRecord(name, id) {
+  const schema = collection(name);
+  const row = database().prepare('SELECT * FROM ' + quote(schema.name) + ' WHERE id = ?').get(id);
+  return row ? fromRow(schema, row) : null;
+}
+
+export function createRecord(name, input) {
+  const schema = collection(name);
+  const now = new Date().toISOString();
+  const id = typeof input?.id === 'string' && input.id && !getRecord(name, input.id) ? input.id : randomUUID();
+  const record = { ...validate(schema, input, false), id, createdAt: now, updatedAt: now };
+  insertRow(database(), schema, record);
+  return getRecord(name, id);
+}
+
+/**
+ * Apply changes to a record. With expectedUpdatedAt, refuses to overwrite a
+ * newer change than the caller has seen.
+ */
+export function updateRecord(name, id, changes, expectedUpdatedAt) {
+  const schema = collection(name);
+  const current = getRecord(name, id);
+  if (!current) throw new DataError('Record not found', 404);
+  if (expectedUpdatedAt && current.updatedAt !== expectedUpdatedAt) {
+    throw new DataError('The record was changed by someone else', 409);
+  }
+
+  updateRow(database(), schema, { ...current, ...validate(schema, changes, true), id, updatedAt: new Date().toISOString() });
+  return getRecord(name, id);
+}
+
+export function deleteRecord(name, id) {
+  const schema = collection(name);
+  return database().prepare('DELETE FROM ' + quote(schema.name) + ' WHERE id = ?').run(id).changes > 0;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+const OPERATORS = {
+  eq: (a, b) => String(a) === String(b),
+  ne: (a, b) => String(a) !== String(b),
+  gt: (a, b) => a > b,
+  gte: (a, b) => a >= b,
+  lt: (a, b) => a < b,
+  lte: (a, b) => a <= b,
+  contains: (a, b) => String(a ?? '').toLowerCase().includes(String(b).toLowerCase()),
+};
+
+function comparable(value) {
+  const number = Number(value);
+  return value !== '' && !Number.isNaN(number) ? number : value;
+}
+
+/**
+ * Filter, sort and page a collection, from query parameters such as
+ * filter[status]=Done, filter[points][gte]=3, sort=-createdAt,title, limit and offset
+ */
+export function queryRecords(name, params) {
+  let records = listRecords(name);
+
+  for (const [key, value] of params.entries()) {
+    const match = /^filter\\[([^\\]]+)\\](?:\\[([a-z]+)\\])?$/.exec(key);
+    if (!match) continue;
+    const test = OPERATORS[match[2] || 'eq'];
+    if (!test) throw new DataError('Unknown filter operator: ' + match[2], 400);
+    records = records.filter(record => test(comparable(record[match[1]]), comparable(value)));
+  }
+
+  const sort = params.get('sort');
+  if (sort) {
+    const keys = sort.split(',').filter(Boolean).map(key => key.startsWith('-') ? [key.slice(1), -1] : [key, 1]);
+    records = [...records].sort((a, b) => {
+      for (const [field, direction] of keys) {
+        if (a[field] === b[field]) continue;
+        if (a[field] === undefined) return 1;
+        if (b[field] === undefined) return -1;
+        return (comparable(a[field]) > comparable(b[field]) ? 1 : -1) * direction;
+      }
+      return 0;
+    });
+  }
+
+  const total = records.length;
+  const offset = Number(params.get('offset')) || 0;
+  const limit = Number(params.get('limit')) || total;
+  return { records: records.slice(offset, offset + limit), total };
+}
+`;
+
+/** server/api.js - the routes the app's code calls, independent of the server hosting them */
+export const API_MODULE = `/**
+ * Data API
+ * The requests the app's code makes, answered from the local database:
+ * - /api/data is used by the useAppData() hook
+ * - /api/apps/:appId/data is used by the generated API client in lib/api.ts
+ */
+
+import {
+  DataError,
+  createRecord,
+  deleteRecord,
+  getRecord,
+  listRecords,
+  queryRecords,
+  updateRecord,
+} from './db.js';
+
+function json(status, body, headers = {}) {
+  return { status, body, headers };
+}
+
+function hookRequest(method, searchParams, body) {
+  if (method === 'GET') {
+    const { records, total } = queryRecords(searchParams.get('collection') || undefined, searchParams);
+    return json(200, records, { 'X-Total-Count': String(total) });
+  }
+
+  if (method === 'POST') {
+    const { action, collection, id, record, expectedUpdatedAt } = body || {};
+    let written = null;
+    if (action === 'add') written = createRecord(collection, record);
+    else if (action === 'update') written = updateRecord(collection, id, record, expectedUpdatedAt);
+    else if (action === 'delete') deleteRecord(collection, id);
+    else return json(400, { error: 'Unknown action' });
+    return json(200, { data: listRecords(collection), record: written });
+  }
+
+  return json(405, { error: 'Method not allowed' });
+}
+
+function clientRequest(method, searchParams, body) {
+  const id = searchParams.get('id');
+
+  if (method === 'GET') {
+    if (!id) return json(200, { records: listRecords() });
+    const record = getRecord(undefined, id);
+    return record ? json(200, { record }) : json(404, { error: 'Record not found' });
+  }
+  if (method === 'POST') {
+    return json(201, { record: createRecord(undefined, body) });
+  }
+  if (!id) {
+    return json(400, { error: 'Record ID required' });
+  }
+  if (method === 'PATCH' || method === 'PUT') {
+    return json(200, { record: updateRecord(undefined, id, body) });
+  }
+  if (method === 'DELETE') {
+    return deleteRecord(undefined, id) ? json(200, { success: true }) : json(404, { error: 'Record not found' });
+  }
+  return json(405, { error: 'Method not allowed' });
+}
+
+/**
+ * Answer a data request as { status, body, headers }, or null when the path
+ * isn't part of the data API
+ */
+export function handleDataRequest({ method, pathname, searchParams, body }) {
+  try {
+    if (pathname === '/api/data') {
+      return hookRequest(method, searchParams, body);
+    }
+    if (/^\\/api\\/apps\\/[^/]+\\/data\\/?$/.test(pathname)) {
+      return clientRequest(method, searchParams, body);
+    }
+    return null;
+  } catch (error) {
+    if (error instanceof DataError) {
+      return json(error.status, { error: error.message, ...(error.fieldErrors && { fieldErrors: error.fieldErrors }) });
+    }
+    console.error('Data request failed:', error);
+    return json(500, { error: 'Something went wrong' });
+  }
+}
+`;
+
+/** server/http.js - the data API as Node middleware, for the Vite dev server and `npm start` */
+export const HTTP_MODULE = `/**
+ * The data API as connect-style middleware
+ */
+
+import { handleDataRequest } from './api.js';
+
+export function dataMiddleware(req, res, next) {
+  const url = new URL(req.url, 'http://localhost');
+  if (!url.pathname.startsWith('/api/')) return next();
+
+  let raw = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    let body;
+    try {
+      body = raw ? JSON.parse(raw) : undefined;
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Invalid JSON' }));
+      return;
+    }
+
+    const result = handleDataRequest({ method: req.method, pathname: url.pathname, searchParams: url.searchParams, body }) ||
+      { status: 404, body: { error: 'Not found' }, headers: {} };
+    res.writeHead(result.status, { 'Content-Type': 'application/json', ...result.headers });
+    res.end(JSON.stringify(result.body));
+  });
+}
+`;
+
+/** server/index.js - serves the Vite build and the data API */
+export const VITE_SERVER_MODULE = `/**
+ * Production server: the built app from dist/ and the data API
+ */
+
+import fs from 'node:fs';
+import http from 'node:http';
+import path from 'node:path';
+import { dataMiddleware } from './http.js';
+import { database } from './db.js';
+
+const DIST = path.join(process.cwd(), 'dist');
+const PORT = Number(process.env.PORT) || 3000;
+
+const CONTENT_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.json': 'application/json',
+};
+
+function serveStatic(req, res) {
+  const pathname = decodeURIComponent(new URL(req.url, 'http://localhost').pathname);
+  let file = path.join(DIST, path.normalize(pathname));
+  if (!file.startsWith(DIST) || !fs.existsSync(file) || fs.statSync(file).isDirectory()) {
+    // Every other path is the single-page app
+    file = path.join(DIST, 'index.html');
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] || 'application/octet-stream' });
+  fs.createReadStream(file).pipe(res);
+}
+
+database();
+
+http
+  .createServer((req, res) => dataMiddleware(req, res, () => serveStatic(req, res)))
+  .listen(PORT, () => console.log('Listening on http://localhost:' + PORT));
+`;
+
+/** app/api/[...path]/route.ts - the data API as a Next.js route handler */
+export const NEXT_ROUTE_MODULE = `import { NextRequest, NextResponse } from 'next/server';
+import { handleDataRequest } from '../../../server/api.js';
+
+export const dynamic = 'force-dynamic';
+
+async function handle(request: NextRequest) {
+  let body: unknown;
+  if (request.method !== 'GET' && request.method !== 'DELETE') {
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+  }
+
+  const result = handleDataRequest({
+    method: request.method,
+    pathname: request.nextUrl.pathname,
+    searchParams: request.nextUrl.searchParams,
+    body,
+  });
+  if (!result) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  return NextResponse.json(result.body, { status: result.status, headers: result.headers });
+}
+
+export { handle as GET, handle as POST, handle as PATCH, handle as PUT, handle as DELETE };
+`;
+
+// ============================================================================
+// Runtime
+// ============================================================================
+
+/** src/nebula/runtime.ts - useAppData() against the local data API */
+export function runtimeModule(clientDirective: boolean): string {
+  return `${clientDirective ? "'use client';\n\n" : ''}/**
+ * App runtime
+ * The useAppData() hook the app was written against, backed by the local
+ * data API instead of Nebula hosting
+ */
+
+import * as React from 'react';
+
+export interface AppData<T = any> {
+  data: T[];
+  isLoading: boolean;
+  /** Messages for the fields the last rejected write got wrong */
+  fieldErrors: Record<string, string>;
+  addRecord(record: Partial<T>): Promise<T | undefined>;
+  updateRecord(id: string, updates: Partial<T>, options?: { checkVersion?: boolean }): Promise<boolean>;
+  deleteRecord(id: string): Promise<boolean>;
+  queryData(params?: Record<string, unknown>): Promise<{ data: T[]; total: number }>;
+}
+
+const DATA_API = '/api/data';
+
+export function useAppData<T = any>(collection?: string): AppData<T> {
+  const [data, setData] = React.useState<T[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [fieldErrors, setFieldErrors] = React.useState<Record<string, string>>({});
+  const endpoint = DATA_API + (collection ? '?collection=' + encodeURIComponent(collection) : '');
+
+  const reload = React.useCallback(async () => {
+    const response = await fetch(endpoint);
+    if (response.ok) setData(await response.json());
+  }, [endpoint]);
+
+  React.useEffect(() => {
+    setIsLoading(true);
+    reload()
+      .catch(error => console.error('Failed to load data:', error))
+      .finally(() => setIsLoading(false));
+  }, [reload]);
+
+  // Rejected writes show their field errors and undo the optimistic change
+  const write = async (payload: Record<string, unknown>) => {
+    try {
+      const response = await fetch(DATA_API, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ collection, ...payload }),
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        setFieldErrors(json.fieldErrors || {});
+        await reload();
+        return null;
+      }
+      setFieldErrors({});
+      setData(json.data);
+      return json;
+    } catch (error) {
+      console.error('Failed to save:', error);
+      await reload().catch(() => undefined);
+      return null;
+    }
+  };
+
+  const addRecord = async (record: Partial<T>) => {
+    const result = await write({ action: 'add', record });
+    return result ? (result.record as T) : undefined;
+  };
+
+  const updateRecord = async (id: string, updates: Partial<T>, options: { checkVersion?: boolean } = {}) => {
+    const current = data.find(item => (item as any).id === id) as any;
+    setData(previous => previous.map(item => (item as any).id === id ? { ...item, ...updates } : item));
+    const expectedUpdatedAt = options.checkVersion ? current?.updatedAt : undefined;
+    return (await write({ action: 'update', id, record: updates, expectedUpdatedAt })) !== null;
+  };
+
+  const deleteRecord = async (id: string) => {
+    setData(previous => previous.filter(item => (item as any).id !== id));
+    return (await write({ action: 'delete', id })) !== null;
+  };
+
+  const queryData = async (params: Record<string, unknown> = {}) => {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== null) search.set(key, String(value));
+    }
+    if (collection) search.set('collection', collection);
+
+    const response = await fetch(DATA_API + '?' + search.toString());
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || 'Failed to query data');
+    return { data: json as T[], total: Number(response.headers.get('X-Total-Count') || json.length) };
+  };
+
+  return { data, isLoading, fieldErrors, addRecord, updateRecord, deleteRecord, queryData };
+}
+
+/**
+ * Hosted pages provided React and useAppData() as globals, and generated
+ * code may use them without importing them
+ */
+export function installGlobals() {
+  Object.assign(globalThis, { React, useAppData });
+}
+`;
+}
+
+/** src/nebula/globals.d.ts */
+export const GLOBALS_DECLARATIONS = `import type { AppData } from './runtime';
+
+declare global {
+  function useAppData<T = any>(collection?: string): AppData<T>;
+}
+
+export {};
+`;
+
+/** src/nebula/utils.ts - what '@/lib/utils' resolved to on Nebula */
+export const UTILS_MODULE = `import { clsx, type ClassValue } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+export function cn(...inputs: ClassValue[]): string {
+  return twMerge(clsx(inputs));
+}
+`;
+
+// ============================================================================
+// Styling
+// ============================================================================
+
+/** The theme hosted pages configured Tailwind with, which generated code relies on */
+export function tailwindConfig(content: string[]): string {
+  return `/** @type {import('tailwindcss').Config} */
+export default {
+  content: ${JSON.stringify(content)},
+  darkMode: 'class',
+  theme: {
+    extend: {
+      fontFamily: { sans: ['Inter', 'sans-serif'] },
+      colors: {
+        surface: { base: '#000000', elevated: '#111111', layer: '#1a1a1a' },
+        text: { primary: '#ffffff', secondary: '#a1a1aa', tertiary: '#71717a' },
+        accent: { yellow: '#facc15' },
+        'surface-base': '#000000',
+        'surface-layer': '#111111',
+        'surface-elevated': '#1a1a1a',
+        'text-primary': '#ffffff',
+        'text-secondary': '#a1a1aa',
+        'text-tertiary': '#71717a',
+        'accent-yellow': '#facc15',
+        'outline-light': '#2d2d2d',
+        'outline-mid': '#3f3f46',
+      },
+    },
+  },
+  plugins: [],
+};
+`;
+}
+
+export const POSTCSS_CONFIG = `export default {
+  plugins: {
+    tailwindcss: {},
+    autoprefixer: {},
+  },
+};
+`;
+
+export const GLOBAL_CSS = `@import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap');
+
+@tailwind base;
+@tailwind components;
+@tailwind utilities;
+
+body {
+  font-family: 'Inter', sans-serif;
+  background-color: #000;
+  color: #fff;
+  margin: 0;
+  overflow-x: hidden;
+}
+
+#root {
+  min-height: 100vh;
+}
+`;
+
+export const GITIGNORE = `node_modules/
+dist/
+.next/
+next-env.d.ts
+data/app.db*
+`;
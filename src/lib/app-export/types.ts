@@ -0,0 +1,116 @@
+/**
+ * App Export Types
+ * A generated app packaged as a standalone project: its code, a local SQLite
+ * data layer for its schemas, and its current records as seed data
+ */
+
+import type { DataRecord } from '@/lib/primitives/types';
+import type { Schema } from '@/lib/scaffolder-v2/types';
+
+/**
+ * - vite: Vite + React, with the data API served by the dev server and by `npm start`
+ * - nextjs: Next.js app router, with the data API as a route handler
+ */
+export type ExportTarget = 'vite' | 'nextjs';
+
+export const EXPORT_TARGETS: ExportTarget[] = ['vite', 'nextjs'];
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'tar.gz'];
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  zip: 'application/zip',
+  'tar.gz': 'application/gzip',
+};
+
+/**
+ * Project path → file contents
+ */
+export type ProjectFiles = Record<string, string>;
+
+/**
+ * Everything a project is built from
+ */
+export interface ExportSource {
+  id: string;
+  name: string;
+  description: string | null;
+  /** The app's code, keyed by path relative to `src/` (App.tsx is the entry) */
+  files: ProjectFiles;
+  /** Every collection's schema, including the foreign key fields of its relations */
+  schemas: Schema[];
+  /** Collection name → its records */
+  data: Record<string, DataRecord[]>;
+}
+
+/**
+ * A packaged project, ready to send as a download
+ */
+export interface AppExport {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+/**
+ * Versions written to the exported package.json. Packages the generated code
+ * imports that aren't listed here get `latest`.
+ */
+export const PACKAGE_VERSIONS: Record<string, string> = {
+  react: '^18.2.0',
+  'react-dom': '^18.2.0',
+  'better-sqlite3': '^12.6.2',
+  'framer-motion': '^11.15.0',
+  'lucide-react': '^0.468.0',
+  recharts: '^2.15.0',
+  'date-fns': '^3.6.0',
+  dayjs: '^1.11.13',
+  clsx: '^2.1.1',
+  'tailwind-merge': '^2.6.0',
+  'react-hook-form': '^7.54.0',
+  zod: '^3.24.1',
+  nanoid: '^5.0.7',
+  'lodash-es': '^4.17.21',
+  zustand: '^5.0.2',
+  jotai: '^2.10.3',
+  '@tanstack/react-table': '^8.20.5',
+  'react-hot-toast': '^2.4.1',
+  sonner: '^1.7.1',
+  next: '^14.2.22',
+  vite: '^5.4.11',
+  '@vitejs/plugin-react': '^4.3.4',
+  typescript: '^5.3.3',
+  tailwindcss: '^3.4.17',
+  postcss: '^8.4.49',
+  autoprefixer: '^10.4.20',
+  '@types/react': '^18.2.0',
+  '@types/react-dom': '^18.2.0',
+  '@types/node': '^20.19.30',
+  '@types/better-sqlite3': '^7.6.12',
+  '@types/lodash-es': '^4.17.12',
+};
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * - NOT_FOUND: no such app
+ * - NO_CODE: the app has no generated code to export yet
+ */
+export type AppExportErrorCode = 'NOT_FOUND' | 'NO_CODE';
+
+export class AppExportError extends Error {
+  public readonly code: AppExportErrorCode;
+
+  constructor(message: string, code: AppExportErrorCode) {
+    super(message);
+    this.name = 'AppExportError';
+    this.code = code;
+  }
+
+  get status(): 404 | 409 {
+    return this.code === 'NOT_FOUND' ? 404 : 409;
+  }
+}
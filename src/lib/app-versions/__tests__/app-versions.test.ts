@@ -0,0 +1,248 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * App Versions Tests
+ * Tests for splitting snapshots into files, line diffs and hunks, mapping
+ * edits back onto columns, and recording, comparing and rolling back versions
+ */
+
+import {
+  AppVersionError,
+  applyFileEdits,
+  commitAppChange,
+  commitFileEdits,
+  compareAppVersions,
+  diffLines,
+  diffSnapshots,
+  listAppVersions,
+  recordAppVersion,
+  rollbackAppVersion,
+  toHunks,
+  versionFiles,
+  type AppSnapshot,
+} from '..';
+
+interface Row {
+  [key: string]: any;
+}
+
+const apps: Row[] = [];
+const versions: Row[] = [];
+
+function pick(row: Row, select?: Record<string, boolean>): Row {
+  return select ? Object.fromEntries(Object.keys(select).map(key => [key, row[key]])) : row;
+}
+
+function byNumberDesc(a: Row, b: Row) {
+  return b.number - a.number;
+}
+
+jest.mock('@/lib/db', () => {
+  const client = {
+    app: {
+      findUnique: async ({ where, select }: any) => {
+        const app = apps.find(row => row.id === where.id);
+        return app ? pick(app, select) : null;
+      },
+      update: async ({ where, data }: any) => Object.assign(apps.find(row => row.id === where.id)!, data),
+    },
+    appVersion: {
+      count: async ({ where }: any) => versions.filter(row => row.appId === where.appId).length,
+      create: async ({ data }: any) => {
+        const row = { id: `version-${versions.length + 1}`, createdAt: new Date(), summary: null, ...data };
+        versions.push(row);
+        return { ...row, createdBy: data.createdById ? { id: data.createdById, name: 'Ada', email: 'ada@example.com' } : null };
+      },
+      findFirst: async ({ where }: any) => {
+        const matches = versions
+          .filter(row => row.appId === where.appId)
+          .filter(row => !where.id || row.id === where.id)
+          .filter(row => !where.number || row.number < where.number.lt)
+          .sort(byNumberDesc);
+        return matches[0] ? { ...matches[0], createdBy: null } : null;
+      },
+      findMany: async ({ where, take }: any) =>
+        versions.filter(row => row.appId === where.appId).sort(byNumberDesc).slice(0, take).map(row => ({ ...row, createdBy: null })),
+    },
+    $transaction: async (run: (tx: unknown) => Promise<unknown>) => run(client),
+  };
+  return { __esModule: true, default: client };
+});
+
+const v2Snapshot: AppSnapshot = {
+  generatedCode: null,
+  componentFiles: JSON.stringify({ 'App.tsx': 'export default function App() {\n  return <div>Hi</div>;\n}\n' }),
+  spec: JSON.stringify({ name: 'Tasks', components: { TaskList: 'export const TaskList = () => null;' } }),
+  layoutDefinition: JSON.stringify({ id: 'root', type: 'container' }),
+};
+
+function createApp(id: string, snapshot: AppSnapshot = v2Snapshot) {
+  apps.push({ id, ...snapshot });
+}
+
+beforeEach(() => {
+  apps.length = 0;
+  versions.length = 0;
+});
+
+// ============================================================================
+// Files and diffs
+// ============================================================================
+
+describe('versionFiles', () => {
+  it('splits component files, spec components, the spec and the layout', () => {
+    const files = versionFiles(v2Snapshot);
+
+    expect(Object.keys(files).sort()).toEqual(['App.tsx', 'layout.json', 'spec.json', 'spec/components/TaskList']);
+    expect(JSON.parse(files['spec.json'])).toEqual({ name: 'Tasks' });
+  });
+
+  it('lists each piece of V1 generated code', () => {
+    const files = versionFiles({
+      generatedCode: JSON.stringify({ pageComponent: 'page', types: 'types', hooks: '' }),
+      componentFiles: null,
+      spec: '{}',
+      layoutDefinition: null,
+    });
+
+    expect(Object.keys(files).sort()).toEqual(['generated/pageComponent', 'generated/types', 'spec.json']);
+  });
+});
+
+describe('diffLines', () => {
+  it('marks added and removed lines with their line numbers', () => {
+    const lines = diffLines('a\nb\nc\n', 'a\nB\nc\nd\n');
+
+    expect(lines.map(line => `${line.type[0]}${line.text}`)).toEqual(['ca', 'rb', 'aB', 'cc', 'ad']);
+    expect(lines[2]).toEqual({ type: 'add', text: 'B', newLine: 2 });
+    expect(lines[3]).toEqual({ type: 'context', text: 'c', oldLine: 3, newLine: 3 });
+  });
+
+  it('treats a missing file as empty', () => {
+    expect(diffLines('', 'x').map(line => line.type)).toEqual(['add']);
+    expect(diffLines('x\ny', '').map(line => line.type)).toEqual(['remove', 'remove']);
+  });
+});
+
+describe('toHunks', () => {
+  it('keeps three lines of context and splits distant changes', () => {
+    const before = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`).join('\n');
+    const after = before.replace('line 2\n', 'line two\n').replace('line 18\n', 'line eighteen\n');
+    const hunks = toHunks(diffLines(before, after));
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0]).toMatchObject({ oldStart: 1, oldLines: 5, newStart: 1, newLines: 5 });
+    expect(hunks[1]).toMatchObject({ oldStart: 15, oldLines: 6, newStart: 15, newLines: 6 });
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('lists only changed files, with their status and counts', () => {
+    const files = diffSnapshots(v2Snapshot, {
+      ...v2Snapshot,
+      componentFiles: JSON.stringify({
+        'App.tsx': 'export default function App() {\n  return <div>Hello</div>;\n}\n',
+        'lib/utils.ts': 'export {};\n',
+      }),
+      layoutDefinition: null,
+    });
+
+    expect(files.map(file => [file.path, file.status, file.additions, file.deletions])).toEqual([
+      ['App.tsx', 'modified', 1, 1],
+      ['layout.json', 'removed', 0, 4],
+      ['lib/utils.ts', 'added', 1, 0],
+    ]);
+  });
+});
+
+describe('applyFileEdits', () => {
+  it('writes edits back to the columns the files came from', () => {
+    const changes = applyFileEdits(v2Snapshot, {
+      'App.tsx': 'edited app',
+      'spec/components/TaskList': 'edited list',
+      'spec.json': '{ "name": "Chores" }',
+    });
+
+    expect(changes.componentFiles).toEqual({ 'App.tsx': 'edited app' });
+    expect(changes.spec).toEqual({ name: 'Chores', components: { TaskList: 'edited list' } });
+    expect(changes).not.toHaveProperty('layoutDefinition');
+  });
+
+  it('rejects unknown files and invalid JSON', () => {
+    expect(() => applyFileEdits(v2Snapshot, { 'Missing.tsx': '' })).toThrow(AppVersionError);
+    expect(() => applyFileEdits(v2Snapshot, { 'layout.json': '{' })).toThrow('layout.json is not valid JSON');
+  });
+});
+
+// ============================================================================
+// History
+// ============================================================================
+
+describe('version history', () => {
+  it('keeps the state before the first recorded change as version 1', async () => {
+    createApp('app-1');
+
+    const version = await commitAppChange('app-1', { generatedCode: { pageComponent: 'new' } }, 'REGENERATION', {
+      userId: 'user-1',
+      summary: 'Fix the header',
+    });
+
+    expect(version).toMatchObject({ number: 2, source: 'REGENERATION', summary: 'Fix the header' });
+    expect(version?.createdBy?.id).toBe('user-1');
+    expect(versions[0]).toMatchObject({ number: 1, source: 'GENERATION', generatedCode: null });
+    expect(apps[0].generatedCode).toBe(JSON.stringify({ pageComponent: 'new' }));
+  });
+
+  it('skips versions that change nothing', async () => {
+    createApp('app-1');
+
+    expect(await recordAppVersion('app-1', 'GENERATION')).toMatchObject({ number: 1 });
+    expect(await recordAppVersion('app-1', 'GENERATION')).toBeNull();
+    expect(await commitAppChange('app-1', { spec: v2Snapshot.spec }, 'USER_EDIT')).toBeNull();
+    expect(versions).toHaveLength(1);
+  });
+
+  it('saves file edits as user edits', async () => {
+    createApp('app-1');
+
+    const version = await commitFileEdits('app-1', { 'App.tsx': 'edited' }, { userId: 'user-1' });
+
+    expect(version).toMatchObject({ number: 2, source: 'USER_EDIT' });
+    expect(JSON.parse(apps[0].componentFiles)).toEqual({ 'App.tsx': 'edited' });
+  });
+
+  it('compares a version with the one before it', async () => {
+    createApp('app-1');
+    await commitFileEdits('app-1', { 'App.tsx': 'edited\n' });
+
+    const first = await compareAppVersions('app-1', 'version-1');
+    const second = await compareAppVersions('app-1', 'version-2');
+
+    expect(first.from).toBeNull();
+    expect(first.files.every(file => file.status === 'added')).toBe(true);
+    expect(second.from?.number).toBe(1);
+    expect(second.files.map(file => file.path)).toEqual(['App.tsx']);
+  });
+
+  it('rolls back by recording the old state as a new version', async () => {
+    createApp('app-1');
+    await commitFileEdits('app-1', { 'App.tsx': 'edited' });
+
+    const version = await rollbackAppVersion('app-1', 'version-1', 'user-1');
+
+    expect(version).toMatchObject({ number: 3, source: 'ROLLBACK', summary: 'Rolled back to version 1' });
+    expect(apps[0].componentFiles).toBe(v2Snapshot.componentFiles);
+    expect((await listAppVersions('app-1')).map(listed => listed.number)).toEqual([3, 2, 1]);
+  });
+
+  it('refuses to roll back to the current state or an unknown version', async () => {
+    createApp('app-1');
+    await commitFileEdits('app-1', { 'App.tsx': 'edited' });
+
+    await expect(rollbackAppVersion('app-1', 'version-2', 'user-1')).rejects.toMatchObject({ code: 'NO_CHANGES' });
+    await expect(rollbackAppVersion('app-1', 'missing', 'user-1')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(rollbackAppVersion('app-2', 'version-1', 'user-1')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Version Diffs
+ * Compares two snapshots file by file, as line hunks like `git diff` shows them
+ */
+
+import { versionFiles } from './files';
+import type { AppSnapshot, DiffHunk, DiffLine, FileDiff } from './types';
+
+/** Unchanged lines shown around each change */
+const CONTEXT_LINES = 3;
+
+/**
+ * Largest lines × lines table compared line by line. Bigger changes show
+ * the changed region as removed and re-added.
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+// ============================================================================
+// Lines
+// ============================================================================
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  return lines[lines.length - 1] === '' ? lines.slice(0, -1) : lines;
+}
+
+/**
+ * Every line of both texts in order, marked as kept, removed or added, using
+ * the longest common subsequence of lines
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Matching lines at either end need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middle: Array<{ type: DiffLine['type']; text: string }> = [];
+  const rows = endA - start;
+  const cols = endB - start;
+
+  if ((rows + 1) * (cols + 1) > MAX_DIFF_CELLS) {
+    middle.push(...a.slice(start, endA).map(text => ({ type: 'remove' as const, text })));
+    middle.push(...b.slice(start, endB).map(text => ({ type: 'add' as const, text })));
+  } else {
+    // lengths[i * (cols + 1) + j]: common lines of a[start + i..] and b[start + j..]
+    const lengths = new Uint32Array((rows + 1) * (cols + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i * (cols + 1) + j] = a[start + i] === b[start + j]
+          ? lengths[(i + 1) * (cols + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (cols + 1) + j], lengths[i * (cols + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && a[start + i] === b[start + j]) {
+        middle.push({ type: 'context', text: a[start + i] });
+        i++;
+        j++;
+      } else if (i < rows && (j === cols || lengths[(i + 1) * (cols + 1) + j] >= lengths[i * (cols + 1) + j + 1])) {
+        middle.push({ type: 'remove', text: a[start + i] });
+        i++;
+      } else {
+        middle.push({ type: 'add', text: b[start + j] });
+        j++;
+      }
+    }
+  }
+
+  const entries = [
+    ...a.slice(0, start).map(text => ({ type: 'context' as const, text })),
+    ...middle,
+    ...a.slice(endA).map(text => ({ type: 'context' as const, text })),
+  ];
+
+  let oldLine = 0;
+  let newLine = 0;
+  return entries.map(({ type, text }) => {
+    if (type === 'add') return { type, text, newLine: ++newLine };
+    if (type === 'remove') return { type, text, oldLine: ++oldLine };
+    return { type, text, oldLine: ++oldLine, newLine: ++newLine };
+  });
+}
+
+/**
+ * Group changed lines into hunks, keeping a few unchanged lines around each
+ * and merging changes whose context overlaps
+ */
+export function toHunks(lines: DiffLine[], context = CONTEXT_LINES): DiffHunk[] {
+  const changed = lines.flatMap((line, index) => line.type === 'context' ? [] : [index]);
+  const hunks: DiffHunk[] = [];
+
+  let index = 0;
+  while (index < changed.length) {
+    const first = Math.max(0, changed[index] - context);
+    let last = changed[index];
+    while (index + 1 < changed.length && changed[index + 1] - last <= context * 2 + 1) {
+      last = changed[++index];
+    }
+    index++;
+
+    const hunkLines = lines.slice(first, Math.min(lines.length, last + context + 1));
+    const oldLines = hunkLines.filter(line => line.type !== 'add');
+    const newLines = hunkLines.filter(line => line.type !== 'remove');
+    hunks.push({
+      oldStart: oldLines[0]?.oldLine ?? precedingLine(lines, first, 'oldLine'),
+      oldLines: oldLines.length,
+      newStart: newLines[0]?.newLine ?? precedingLine(lines, first, 'newLine'),
+      newLines: newLines.length,
+      lines: hunkLines,
+    });
+  }
+
+  return hunks;
+}
+
+/** For a hunk with no lines on one side, the line it comes after (0 at the top) */
+function precedingLine(lines: DiffLine[], before: number, side: 'oldLine' | 'newLine'): number {
+  for (let index = before - 1; index >= 0; index--) {
+    const line = lines[index][side];
+    if (line !== undefined) return line;
+  }
+  return 0;
+}
+
+// ============================================================================
+// Snapshots
+// ============================================================================
+
+/**
+ * The files that differ between two snapshots, in path order
+ */
+export function diffSnapshots(from: AppSnapshot, to: AppSnapshot): FileDiff[] {
+  const before = versionFiles(from);
+  const after = versionFiles(to);
+  const paths = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  return paths.flatMap((path): FileDiff[] => {
+    if (before[path] === after[path]) return [];
+
+    const lines = diffLines(before[path] ?? '', after[path] ?? '');
+    return [{
+      path,
+      status: before[path] === undefined ? 'added' : after[path] === undefined ? 'removed' : 'modified',
+      additions: lines.filter(line => line.type === 'add').length,
+      deletions: lines.filter(line => line.type === 'remove').length,
+      hunks: toHunks(lines),
+    }];
+  });
+}
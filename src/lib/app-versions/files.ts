@@ -0,0 +1,137 @@
+/**
+ * Version Files
+ * An app's code and definition as the files a diff or editor shows, and file
+ * edits mapped back onto the columns they came from
+ */
+
+import { AppVersionError, type AppSnapshot, type AppSnapshotChanges } from './types';
+
+function parseColumn(value: string | null): unknown {
+  if (value === null) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function pretty(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+const GENERATED_PREFIX = 'generated/';
+const SPEC_COMPONENTS_PREFIX = 'spec/components/';
+
+/**
+ * The files a snapshot holds, keyed by path: each component file, each piece
+ * of V1 generated code, each component kept in the spec, the rest of the
+ * spec as `spec.json` and the layout as `layout.json`
+ */
+export function versionFiles(snapshot: AppSnapshot): Record<string, string> {
+  const files: Record<string, string> = {};
+
+  const componentFiles = parseColumn(snapshot.componentFiles);
+  if (isObject(componentFiles)) {
+    for (const [name, code] of Object.entries(componentFiles)) {
+      if (typeof code === 'string') files[name] = code;
+    }
+  }
+
+  const generatedCode = parseColumn(snapshot.generatedCode);
+  if (isObject(generatedCode)) {
+    for (const [name, code] of Object.entries(generatedCode)) {
+      if (typeof code === 'string' && code) files[`${GENERATED_PREFIX}${name}`] = code;
+    }
+  } else if (generatedCode !== null) {
+    files['generated'] = pretty(generatedCode);
+  }
+
+  const spec = parseColumn(snapshot.spec);
+  if (isObject(spec)) {
+    const { components, ...rest } = spec;
+    if (isObject(components)) {
+      for (const [name, code] of Object.entries(components)) {
+        if (typeof code === 'string' && code) files[`${SPEC_COMPONENTS_PREFIX}${name}`] = code;
+      }
+    }
+    files['spec.json'] = pretty(isObject(components) ? rest : spec);
+  } else if (spec !== null) {
+    files['spec.json'] = pretty(spec);
+  }
+
+  const layout = parseColumn(snapshot.layoutDefinition);
+  if (layout !== null) {
+    files['layout.json'] = pretty(layout);
+  }
+
+  return files;
+}
+
+function parseJsonFile(path: string, text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new AppVersionError(`${path} is not valid JSON`, 'INVALID_EDIT');
+  }
+}
+
+/**
+ * Column changes that give the snapshot the edited file contents. Paths are
+ * those versionFiles returns; only files the snapshot already has can be edited.
+ *
+ * @throws AppVersionError with code INVALID_EDIT for unknown paths or invalid JSON
+ */
+export function applyFileEdits(snapshot: AppSnapshot, edits: Record<string, string>): AppSnapshotChanges {
+  const existing = versionFiles(snapshot);
+  const unknown = Object.keys(edits).filter(path => existing[path] === undefined);
+  if (unknown.length > 0) {
+    throw new AppVersionError(`Unknown file: ${unknown.join(', ')}`, 'INVALID_EDIT');
+  }
+
+  const changes: AppSnapshotChanges = {};
+
+  if (edits['layout.json'] !== undefined) {
+    changes.layoutDefinition = parseJsonFile('layout.json', edits['layout.json']);
+  }
+
+  // spec.json holds the spec without its components, which are files of their own
+  const spec = parseColumn(snapshot.spec);
+  let nextSpec = spec;
+  if (edits['spec.json'] !== undefined) {
+    const edited = parseJsonFile('spec.json', edits['spec.json']);
+    nextSpec = isObject(edited) && isObject(spec) && isObject(spec.components)
+      ? { ...edited, components: spec.components }
+      : edited;
+  }
+
+  const componentFiles = parseColumn(snapshot.componentFiles);
+  const generatedCode = parseColumn(snapshot.generatedCode);
+  const nextFiles = isObject(componentFiles) ? { ...componentFiles } : null;
+  const nextGenerated = isObject(generatedCode) ? { ...generatedCode } : null;
+
+  for (const [path, text] of Object.entries(edits)) {
+    if (path === 'spec.json' || path === 'layout.json') continue;
+
+    if (nextFiles && typeof nextFiles[path] === 'string') {
+      nextFiles[path] = text;
+      changes.componentFiles = nextFiles;
+    } else if (path.startsWith(SPEC_COMPONENTS_PREFIX) && isObject(nextSpec) && isObject(nextSpec.components)) {
+      nextSpec = { ...nextSpec, components: { ...nextSpec.components, [path.slice(SPEC_COMPONENTS_PREFIX.length)]: text } };
+    } else if (path.startsWith(GENERATED_PREFIX) && nextGenerated) {
+      nextGenerated[path.slice(GENERATED_PREFIX.length)] = text;
+      changes.generatedCode = nextGenerated;
+    } else {
+      changes.generatedCode = text;
+    }
+  }
+
+  if (nextSpec !== spec) {
+    changes.spec = nextSpec;
+  }
+
+  return changes;
+}
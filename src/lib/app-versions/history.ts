@@ -0,0 +1,267 @@
+/**
+ * App Version History
+ * Every change to an app's generated code, spec or layout goes through
+ * commitAppChange, which stores the new state as the next numbered version.
+ * Apps that changed before history was kept get their prior state saved as
+ * version 1 on their first recorded change, so it can still be restored.
+ */
+
+import type { AppVersion, Prisma } from '@prisma/client';
+import prisma from '@/lib/db';
+import { hasScheduledWorkflows } from '@/lib/workflows/definitions';
+import { diffSnapshots } from './diff';
+import { applyFileEdits } from './files';
+import {
+  AppVersionError,
+  MAX_LISTED_VERSIONS,
+  type AppSnapshot,
+  type AppSnapshotChanges,
+  type AppVersionInfo,
+  type AppVersionSource,
+  type FileDiff,
+} from './types';
+
+export interface AppVersionOptions {
+  /** Who made or asked for the change; omit for automatic changes */
+  userId?: string | null;
+  summary?: string;
+}
+
+const SNAPSHOT_SELECT = {
+  generatedCode: true,
+  componentFiles: true,
+  spec: true,
+  layoutDefinition: true,
+} as const;
+
+const CREATED_BY_SELECT = { select: { id: true, name: true, email: true } } as const;
+
+type VersionWithCreator = AppVersion & { createdBy: AppVersionInfo['createdBy'] };
+
+function toInfo(version: VersionWithCreator): AppVersionInfo {
+  return {
+    id: version.id,
+    number: version.number,
+    source: version.source as AppVersionSource,
+    summary: version.summary,
+    createdBy: version.createdBy,
+    createdAt: version.createdAt,
+  };
+}
+
+function serialize(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Column values for the given changes, in the form they are stored
+ */
+export function snapshotData(changes: AppSnapshotChanges): Partial<AppSnapshot> {
+  const data: Partial<AppSnapshot> = {};
+  if ('generatedCode' in changes) data.generatedCode = serialize(changes.generatedCode);
+  if ('componentFiles' in changes) data.componentFiles = serialize(changes.componentFiles);
+  if ('spec' in changes) data.spec = serialize(changes.spec) ?? '{}';
+  if ('layoutDefinition' in changes) data.layoutDefinition = serialize(changes.layoutDefinition);
+  return data;
+}
+
+export function snapshotOf(row: AppSnapshot): AppSnapshot {
+  return {
+    generatedCode: row.generatedCode,
+    componentFiles: row.componentFiles,
+    spec: row.spec,
+    layoutDefinition: row.layoutDefinition,
+  };
+}
+
+export function sameSnapshot(a: AppSnapshot, b: AppSnapshot): boolean {
+  return a.generatedCode === b.generatedCode
+    && a.componentFiles === b.componentFiles
+    && a.spec === b.spec
+    && a.layoutDefinition === b.layoutDefinition;
+}
+
+/**
+ * Store a snapshot as the app's next version, unless it matches the latest one
+ */
+async function appendVersion(
+  tx: Prisma.TransactionClient,
+  appId: string,
+  snapshot: AppSnapshot,
+  source: AppVersionSource,
+  options: AppVersionOptions
+): Promise<AppVersionInfo | null> {
+  const latest = await tx.appVersion.findFirst({
+    where: { appId },
+    orderBy: { number: 'desc' },
+  });
+  if (latest && sameSnapshot(latest, snapshot)) return null;
+
+  const version = await tx.appVersion.create({
+    data: {
+      appId,
+      number: (latest?.number ?? 0) + 1,
+      source,
+      summary: options.summary,
+      createdById: options.userId ?? null,
+      ...snapshotOf(snapshot),
+    },
+    include: { createdBy: CREATED_BY_SELECT },
+  });
+  return toInfo(version);
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Save the app's current code and definition as a version, e.g. right after
+ * it was generated. Returns null when nothing changed since the latest version.
+ *
+ * @throws AppVersionError with code NOT_FOUND
+ */
+export async function recordAppVersion(
+  appId: string,
+  source: AppVersionSource,
+  options: AppVersionOptions = {}
+): Promise<AppVersionInfo | null> {
+  return prisma.$transaction(async tx => {
+    const app = await tx.app.findUnique({ where: { id: appId }, select: SNAPSHOT_SELECT });
+    if (!app) {
+      throw new AppVersionError('App not found', 'NOT_FOUND');
+    }
+    return appendVersion(tx, appId, app, source, options);
+  });
+}
+
+/**
+ * Write new code or definition to the app and record the result as a version.
+ * Returns null when the changes leave the app as it was.
+ *
+ * @throws AppVersionError with code NOT_FOUND
+ */
+export async function commitAppChange(
+  appId: string,
+  changes: AppSnapshotChanges,
+  source: AppVersionSource,
+  options: AppVersionOptions = {}
+): Promise<AppVersionInfo | null> {
+  const data = snapshotData(changes);
+
+  return prisma.$transaction(async tx => {
+    const app = await tx.app.findUnique({ where: { id: appId }, select: SNAPSHOT_SELECT });
+    if (!app) {
+      throw new AppVersionError('App not found', 'NOT_FOUND');
+    }
+
+    if (await tx.appVersion.count({ where: { appId } }) === 0) {
+      await appendVersion(tx, appId, app, 'GENERATION', { summary: 'State before the first recorded change' });
+    }
+
+    // The scheduler only loads apps flagged as having scheduled workflows
+    const hasSchedules = data.spec !== undefined ? { hasSchedules: hasScheduledWorkflows(data.spec) } : {};
+    await tx.app.update({ where: { id: appId }, data: { ...data, ...hasSchedules } });
+    return appendVersion(tx, appId, { ...app, ...data }, source, options);
+  });
+}
+
+/**
+ * Save hand edits to some of the app's files, keyed by the paths versionFiles
+ * gives them, as a USER_EDIT version
+ *
+ * @throws AppVersionError with code NOT_FOUND, or INVALID_EDIT for unknown files or invalid JSON
+ */
+export async function commitFileEdits(
+  appId: string,
+  edits: Record<string, string>,
+  options: AppVersionOptions = {}
+): Promise<AppVersionInfo | null> {
+  const app = await prisma.app.findUnique({ where: { id: appId }, select: SNAPSHOT_SELECT });
+  if (!app) {
+    throw new AppVersionError('App not found', 'NOT_FOUND');
+  }
+  return commitAppChange(appId, applyFileEdits(app, edits), 'USER_EDIT', options);
+}
+
+// ============================================================================
+// Browsing
+// ============================================================================
+
+/**
+ * An app's versions, newest first
+ */
+export async function listAppVersions(appId: string, limit = MAX_LISTED_VERSIONS): Promise<AppVersionInfo[]> {
+  const versions = await prisma.appVersion.findMany({
+    where: { appId },
+    orderBy: { number: 'desc' },
+    take: limit,
+    include: { createdBy: CREATED_BY_SELECT },
+  });
+  return versions.map(toInfo);
+}
+
+async function findVersion(appId: string, versionId: string): Promise<VersionWithCreator> {
+  const version = await prisma.appVersion.findFirst({
+    where: { id: versionId, appId },
+    include: { createdBy: CREATED_BY_SELECT },
+  });
+  if (!version) {
+    throw new AppVersionError('Version not found', 'NOT_FOUND');
+  }
+  return version;
+}
+
+const EMPTY_SNAPSHOT: AppSnapshot = { generatedCode: null, componentFiles: null, spec: 'null', layoutDefinition: null };
+
+/**
+ * The files that changed between two versions. Without `againstId` a version
+ * is compared with the one before it; the first version shows every file as added.
+ *
+ * @throws AppVersionError with code NOT_FOUND
+ */
+export async function compareAppVersions(
+  appId: string,
+  versionId: string,
+  againstId?: string
+): Promise<{ from: AppVersionInfo | null; to: AppVersionInfo; files: FileDiff[] }> {
+  const to = await findVersion(appId, versionId);
+  const from = againstId
+    ? await findVersion(appId, againstId)
+    : await prisma.appVersion.findFirst({
+      where: { appId, number: { lt: to.number } },
+      orderBy: { number: 'desc' },
+      include: { createdBy: CREATED_BY_SELECT },
+    });
+
+  return {
+    from: from ? toInfo(from) : null,
+    to: toInfo(to),
+    files: diffSnapshots(from ?? EMPTY_SNAPSHOT, to),
+  };
+}
+
+// ============================================================================
+// Rollback
+// ============================================================================
+
+/**
+ * Restore the app to an earlier version. The restore is itself recorded as a
+ * new version, so it can be undone the same way. Callers rebuild the app's
+ * bundle and hosted worker afterwards.
+ *
+ * @throws AppVersionError with code NOT_FOUND, or NO_CHANGES if the app already matches it
+ */
+export async function rollbackAppVersion(appId: string, versionId: string, userId: string): Promise<AppVersionInfo> {
+  const target = await findVersion(appId, versionId);
+
+  const version = await commitAppChange(appId, snapshotOf(target), 'ROLLBACK', {
+    userId,
+    summary: `Rolled back to version ${target.number}`,
+  });
+  if (!version) {
+    throw new AppVersionError(`The app already matches version ${target.number}`, 'NO_CHANGES');
+  }
+  return version;
+}
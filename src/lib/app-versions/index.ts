@@ -0,0 +1,41 @@
+/**
+ * App Versions Module Index
+ * History of an app's generated code and definition, with diffs and rollback
+ */
+
+export {
+  recordAppVersion,
+  commitAppChange,
+  commitFileEdits,
+  listAppVersions,
+  compareAppVersions,
+  rollbackAppVersion,
+  snapshotData,
+  sameSnapshot,
+  type AppVersionOptions,
+} from './history';
+
+export {
+  versionFiles,
+  applyFileEdits,
+} from './files';
+
+export {
+  diffLines,
+  toHunks,
+  diffSnapshots,
+} from './diff';
+
+export {
+  APP_VERSION_SOURCES,
+  MAX_LISTED_VERSIONS,
+  AppVersionError,
+  type AppVersionSource,
+  type AppSnapshot,
+  type AppSnapshotChanges,
+  type AppVersionInfo,
+  type DiffLine,
+  type DiffHunk,
+  type FileDiff,
+  type AppVersionErrorCode,
+} from './types';
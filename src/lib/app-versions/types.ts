@@ -0,0 +1,105 @@
+/**
+ * App Version Types
+ * Snapshots of an app's generated code and definition, the per-file diffs
+ * between them, and the errors raised while browsing or restoring them
+ */
+
+/**
+ * What produced a version: the first build, a regeneration from feedback, a
+ * hand edit, a component fix from the feedback loop, or a rollback
+ */
+export type AppVersionSource = 'GENERATION' | 'REGENERATION' | 'USER_EDIT' | 'AUTO_FIX' | 'ROLLBACK';
+
+export const APP_VERSION_SOURCES: AppVersionSource[] = ['GENERATION', 'REGENERATION', 'USER_EDIT', 'AUTO_FIX', 'ROLLBACK'];
+
+/** Versions listed per request */
+export const MAX_LISTED_VERSIONS = 100;
+
+/**
+ * The App columns a version captures, as stored (JSON strings)
+ */
+export interface AppSnapshot {
+  generatedCode: string | null;
+  componentFiles: string | null;
+  spec: string;
+  layoutDefinition: string | null;
+}
+
+/**
+ * New values for some of the captured columns. Strings are stored as they
+ * are; anything else is stored as JSON.
+ */
+export type AppSnapshotChanges = Partial<Record<keyof AppSnapshot, unknown>>;
+
+/**
+ * A version as listed in the app's history
+ */
+export interface AppVersionInfo {
+  id: string;
+  number: number;
+  source: AppVersionSource;
+  summary: string | null;
+  createdBy: { id: string; name: string | null; email: string } | null;
+  createdAt: Date;
+}
+
+// ============================================================================
+// Diffs
+// ============================================================================
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+  /** 1-based line in the older file; absent for added lines */
+  oldLine?: number;
+  /** 1-based line in the newer file; absent for removed lines */
+  newLine?: number;
+}
+
+/**
+ * A run of changed lines with a few unchanged lines around it
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  /** Path within the version, e.g. `App.tsx`, `spec.json` or `generated/pageComponent` */
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type AppVersionErrorCode = 'NOT_FOUND' | 'NO_CHANGES' | 'INVALID_EDIT';
+
+export class AppVersionError extends Error {
+  public readonly code: AppVersionErrorCode;
+
+  constructor(message: string, code: AppVersionErrorCode) {
+    super(message);
+    this.name = 'AppVersionError';
+    this.code = code;
+  }
+
+  /** HTTP status for API responses */
+  get status(): number {
+    switch (this.code) {
+      case 'NOT_FOUND':
+        return 404;
+      case 'NO_CHANGES':
+        return 409;
+      default:
+        return 400;
+    }
+  }
+}
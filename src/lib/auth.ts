@@ -1,107 +0,0 @@
-import { NextAuthOptions } from 'next-auth';
-import CredentialsProvider from 'next-auth/providers/credentials';
-import bcrypt from 'bcryptjs';
-import prisma, { parsePrismaError, DBErrorType } from '@/lib/db';
-
-export const authOptions: NextAuthOptions = {
-  providers: [
-    CredentialsProvider({
-      name: 'credentials',
-      credentials: {
-        email: { label: 'Email', type: 'email' },
-        password: { label: 'Password', type: 'password' },
-      },
-      async authorize(credentials) {
-        if (!credentials?.email || !credentials?.password) {
-          throw new Error('Email and password are required');
-        }
-
-        try {
-          const user = await prisma.user.findUnique({
-            where: { email: credentials.email },
-          });
-
-          if (!user) {
-            throw new Error('No user found with this email');
-          }
-
-          const isPasswordValid = await bcrypt.compare(credentials.password, user.password);
-
-          if (!isPasswordValid) {
-            throw new Error('Invalid password');
-          }
-
-          return {
-            id: user.id,
-            email: user.email,
-            name: user.name,
-          };
-        } catch (error) {
-          // Handle database errors gracefully
-          const dbError = parsePrismaError(error);
-          
-          if (dbError.type === DBErrorType.CONNECTION || 
-              dbError.type === DBErrorType.PERMISSION ||
-              dbError.type === DBErrorType.TIMEOUT) {
-            console.error('Database error during authentication:', dbError);
-            throw new Error('Service temporarily unavailable. Please try again in a moment.');
-          }
-          
-          // Re-throw other errors (like validation errors)
-          if (error instanceof Error) {
-            throw error;
-          }
-          
-          throw new Error('An unexpected error occurred during sign in');
-        }
-      },
-    }),
-  ],
-  session: {
-    strategy: 'jwt',
-    maxAge: 30 * 24 * 60 * 60, // 30 days
-  },
-  pages: {
-    signIn: '/auth/signin',
-    error: '/auth/error',
-  },
-  callbacks: {
-    async jwt({ token, user }) {
-      if (user) {
-        token.id = user.id;
-      }
-      return token;
-    },
-    async session({ session, token }) {
-      if (session.user) {
-        session.user.id = token.id as string;
-      }
-      return session;
-    },
-  },
-  secret: process.env.NEXTAUTH_SECRET,
-};
-
-// Helper to get session on the server
-export async function getServerSession() {
-  const { getServerSession: getSession } = await import('next-auth/next');
-  return getSession(authOptions);
-}
-
-// Type augmentation for NextAuth
-declare module 'next-auth' {
-  interface Session {
-    user: {
-      id: string;
-      email?: string | null;
-      name?: string | null;
-      image?: string | null;
-    };
-  }
-}
-
-declare module 'next-auth/jwt' {
-  interface JWT {
-    id: string;
-  }
-}
@@ -0,0 +1,215 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Auth Tests
+ * Tests for the Prisma adapter, magic-link delivery, verified-email account
+ * linking and password sign-in for passwordless accounts
+ */
+
+import type { Account } from 'next-auth';
+import { authOptions, hasVerifiedEmail, PrismaAuthAdapter, sendMagicLink } from '..';
+import { setMailTransport, type EmailMessage } from '@/lib/email';
+
+interface StoredUser {
+  id: string;
+  email: string;
+  emailVerified: Date | null;
+  name: string | null;
+  image: string | null;
+  password: string | null;
+}
+
+const users: StoredUser[] = [];
+const accounts: Array<{ userId: string; provider: string; providerAccountId: string }> = [];
+const tokens: Array<{ identifier: string; token: string; expires: Date }> = [];
+
+function notFound() {
+  return Object.assign(new Error('Record not found'), { code: 'P2025' });
+}
+
+function pick(user: StoredUser, select?: Record<string, boolean>) {
+  if (!select) return user;
+  return Object.fromEntries(Object.keys(select).map(key => [key, user[key as keyof StoredUser]]));
+}
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  DBErrorType: { NOT_FOUND: 'NOT_FOUND', UNKNOWN: 'UNKNOWN' },
+  parsePrismaError: (error: any) => ({ type: error?.code === 'P2025' ? 'NOT_FOUND' : 'UNKNOWN' }),
+  default: {
+    user: {
+      findUnique: async ({ where, select }: any) => {
+        const user = users.find(u => (where.id ? u.id === where.id : u.email === where.email));
+        return user ? pick(user, select) : null;
+      },
+      create: async ({ data, select }: any) => {
+        const user = { id: `user-${users.length + 1}`, password: null, ...data };
+        users.push(user);
+        return pick(user, select);
+      },
+      updateMany: async ({ where, data }: any) => {
+        const found = users.filter(u => u.id === where.id && u.emailVerified === where.emailVerified);
+        found.forEach(u => Object.assign(u, data));
+        return { count: found.length };
+      },
+    },
+    account: {
+      findUnique: async ({ where, select }: any) => {
+        const { provider, providerAccountId } = where.provider_providerAccountId;
+        const account = accounts.find(a => a.provider === provider && a.providerAccountId === providerAccountId);
+        if (!account) return null;
+        return { user: pick(users.find(u => u.id === account.userId)!, select.user.select) };
+      },
+      create: async ({ data }: any) => {
+        accounts.push(data);
+        return data;
+      },
+    },
+    loginAttempt: {
+      findMany: async () => [],
+      findFirst: async () => null,
+      create: async ({ data }: any) => data,
+      deleteMany: async () => ({ count: 0 }),
+    },
+    verificationToken: {
+      create: async ({ data }: any) => {
+        tokens.push(data);
+        return data;
+      },
+      delete: async ({ where }: any) => {
+        const { identifier, token } = where.identifier_token;
+        const index = tokens.findIndex(t => t.identifier === identifier && t.token === token);
+        if (index === -1) throw notFound();
+        return tokens.splice(index, 1)[0];
+      },
+    },
+  },
+}));
+
+const sent: EmailMessage[] = [];
+
+beforeEach(() => {
+  users.length = 0;
+  accounts.length = 0;
+  tokens.length = 0;
+  sent.length = 0;
+  setMailTransport({
+    name: 'memory',
+    send: async message => {
+      sent.push(message);
+      return { id: 'email-1', sentAt: new Date().toISOString(), ...message };
+    },
+  });
+});
+
+afterAll(() => setMailTransport(null));
+
+function addUser(overrides: Partial<StoredUser> = {}): StoredUser {
+  const user: StoredUser = {
+    id: 'user-1',
+    email: 'ada@example.com',
+    emailVerified: null,
+    name: 'Ada',
+    image: null,
+    password: '$2a$12$hash',
+    ...overrides,
+  };
+  users.push(user);
+  return user;
+}
+
+function oauthAccount(provider: string): Account {
+  return { provider, providerAccountId: '42', type: 'oauth', access_token: 'gho_token' };
+}
+
+describe('PrismaAuthAdapter', () => {
+  const adapter = PrismaAuthAdapter();
+
+  it('should return linked users without their password hash', async () => {
+    addUser();
+    await adapter.linkAccount!({ userId: 'user-1', provider: 'github', providerAccountId: '42', type: 'oauth' });
+
+    const user = await adapter.getUserByAccount!({ provider: 'github', providerAccountId: '42' });
+    expect(user).toEqual({ id: 'user-1', email: 'ada@example.com', emailVerified: null, name: 'Ada', image: null });
+    await expect(adapter.getUserByAccount!({ provider: 'google', providerAccountId: '42' })).resolves.toBeNull();
+  });
+
+  it('should create users without a password', async () => {
+    const user = await adapter.createUser!({ email: 'new@example.com', emailVerified: new Date() } as any);
+
+    expect(user.email).toBe('new@example.com');
+    expect(users[0].password).toBeNull();
+  });
+
+  it('should let a verification token be used once', async () => {
+    const token = { identifier: 'ada@example.com', token: 'hashed', expires: new Date(Date.now() + 60_000) };
+    await adapter.createVerificationToken!(token);
+
+    await expect(adapter.useVerificationToken!({ identifier: 'ada@example.com', token: 'hashed' })).resolves.toEqual(token);
+    await expect(adapter.useVerificationToken!({ identifier: 'ada@example.com', token: 'hashed' })).resolves.toBeNull();
+  });
+});
+
+describe('sendMagicLink', () => {
+  it('should send the link through the registered mail transport', async () => {
+    const url = 'http://localhost:1000/api/auth/callback/email?token=abc&email=ada%40example.com';
+    await sendMagicLink({ identifier: 'ada@example.com', url });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ to: 'ada@example.com', subject: 'Sign in to localhost:1000' });
+    expect(sent[0].text).toContain(url);
+    expect(sent[0].text).toContain('15 minutes');
+  });
+});
+
+describe('hasVerifiedEmail', () => {
+  const originalFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should trust Google only for a verified email', async () => {
+    const profile = { email: 'Ada@example.com', email_verified: true } as any;
+    await expect(hasVerifiedEmail(oauthAccount('google'), profile, 'ada@example.com')).resolves.toBe(true);
+    await expect(hasVerifiedEmail(oauthAccount('google'), { ...profile, email_verified: false }, 'ada@example.com'))
+      .resolves.toBe(false);
+  });
+
+  it('should check the GitHub email list for a verified match', async () => {
+    global.fetch = jest.fn(async () => new Response(JSON.stringify([
+      { email: 'ada@example.com', verified: false },
+      { email: 'ada@work.example', verified: true },
+    ]))) as typeof fetch;
+
+    await expect(hasVerifiedEmail(oauthAccount('github'), undefined, 'ada@example.com')).resolves.toBe(false);
+    await expect(hasVerifiedEmail(oauthAccount('github'), undefined, 'ada@work.example')).resolves.toBe(true);
+  });
+});
+
+describe('authOptions', () => {
+  it('should refuse OAuth sign-in with an unverified email', async () => {
+    const result = await authOptions.callbacks!.signIn!({
+      user: { id: 'user-1', email: 'ada@example.com' },
+      account: oauthAccount('google'),
+      profile: { email: 'ada@example.com', email_verified: false } as any,
+    });
+    expect(result).toBe('/auth/error?error=OAuthEmailNotVerified');
+  });
+
+  it('should mark the email verified after an OAuth sign-in', async () => {
+    const user = addUser();
+    await authOptions.events!.signIn!({ user, account: oauthAccount('github'), isNewUser: false });
+
+    expect(user.emailVerified).toBeInstanceOf(Date);
+  });
+
+  it('should point passwordless accounts at the other sign-in methods', async () => {
+    addUser({ password: null });
+    const credentials = authOptions.providers.find(provider => provider.id === 'credentials') as any;
+
+    await expect(credentials.options.authorize({ email: 'ada@example.com', password: 'secret123' }))
+      .rejects.toThrow('This account has no password');
+  });
+});
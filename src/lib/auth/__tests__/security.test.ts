@@ -0,0 +1,308 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Account Security Tests
+ * Tests for reset and verification tokens, login throttling and session
+ * revocation
+ */
+
+import {
+  ACCOUNT_LOCKOUT_MS,
+  assertAppUnlockAllowed,
+  assertLoginAllowed,
+  authOptions,
+  clientIp,
+  AuthFlowError,
+  hashAuthToken,
+  listSessions,
+  MAX_ACCOUNT_FAILURES,
+  MAX_IP_FAILURES,
+  recordAppUnlockAttempt,
+  recordLoginAttempt,
+  requestPasswordReset,
+  resetPassword,
+  revokeOtherSessions,
+  revokeSession,
+  sendEmailVerification,
+  SESSION_CHECK_INTERVAL_MS,
+  startSession,
+  touchSession,
+  verifyEmail,
+} from '..';
+
+interface Row {
+  [key: string]: any;
+}
+
+const users: Row[] = [];
+const authTokens: Row[] = [];
+const attempts: Row[] = [];
+const sessions: Row[] = [];
+const sentEmails: Array<{ to: string; subject: string; text: string }> = [];
+
+let nextId = 0;
+
+/** Just enough of Prisma's where clauses for these tables */
+function matches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    const value = row[key];
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      if ('gte' in condition && !(value >= condition.gte)) return false;
+      if ('gt' in condition && !(value > condition.gt)) return false;
+      if ('lt' in condition && !(value < condition.lt)) return false;
+      if ('not' in condition && value === condition.not) return false;
+      return true;
+    }
+    return value === condition;
+  });
+}
+
+/** Rows are read through a getter: the mock factory runs before the arrays exist */
+function table(rowsOf: () => Row[], defaults: () => Row = () => ({})) {
+  return {
+    findUnique: async ({ where }: any) => rowsOf().find(row => matches(row, where)) ?? null,
+    findFirst: async ({ where, orderBy }: any) => sorted(rowsOf().filter(row => matches(row, where)), orderBy)[0] ?? null,
+    findMany: async ({ where, orderBy }: any) => sorted(rowsOf().filter(row => matches(row, where)), orderBy),
+    create: async ({ data }: any) => {
+      const row = { id: `id-${++nextId}`, createdAt: new Date(), ...defaults(), ...data };
+      rowsOf().push(row);
+      return row;
+    },
+    update: async ({ where, data }: any) => Object.assign(rowsOf().find(row => matches(row, where))!, data),
+    updateMany: async ({ where, data }: any) => {
+      const found = rowsOf().filter(row => matches(row, where));
+      found.forEach(row => Object.assign(row, data));
+      return { count: found.length };
+    },
+    deleteMany: async ({ where }: any) => {
+      const rows = rowsOf();
+      const before = rows.length;
+      const kept = rows.filter(row => !matches(row, where));
+      rows.splice(0, rows.length, ...kept);
+      return { count: before - rows.length };
+    },
+  };
+}
+
+function sorted(rows: Row[], orderBy?: Record<string, 'asc' | 'desc'>): Row[] {
+  if (!orderBy) return rows;
+  const [[key, direction]] = Object.entries(orderBy);
+  return [...rows].sort((a, b) => (a[key] - b[key]) * (direction === 'asc' ? 1 : -1));
+}
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    user: table(() => users),
+    authToken: table(() => authTokens),
+    loginAttempt: table(() => attempts),
+    session: table(() => sessions, () => ({ lastActiveAt: new Date() })),
+  },
+}));
+
+jest.mock('@/lib/email', () => ({
+  appBaseUrl: () => 'http://localhost:1000',
+  sendEmail: async (message: any) => {
+    sentEmails.push(message);
+    return message;
+  },
+}));
+
+function linkToken(): string {
+  const match = sentEmails[sentEmails.length - 1].text.match(/token=([\w-]+)/);
+  return match![1];
+}
+
+async function flowError(promise: Promise<unknown>): Promise<AuthFlowError> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof AuthFlowError) return error;
+    throw error;
+  }
+  throw new Error('Expected an AuthFlowError');
+}
+
+beforeEach(() => {
+  for (const rows of [users, authTokens, attempts, sessions, sentEmails]) rows.length = 0;
+  users.push({ id: 'user-1', email: 'ada@example.com', emailVerified: null, password: 'old-hash' });
+});
+
+describe('password reset', () => {
+  it('should email a single-use link and store only its hash', async () => {
+    await requestPasswordReset('ada@example.com');
+
+    const token = linkToken();
+    expect(sentEmails[0].text).toContain('http://localhost:1000/auth/reset-password?token=');
+    expect(authTokens).toHaveLength(1);
+    expect(authTokens[0].tokenHash).toBe(hashAuthToken(token));
+    expect(JSON.stringify(authTokens)).not.toContain(token);
+
+    await resetPassword(token, 'new-password');
+    expect(users[0].password).not.toBe('old-hash');
+    expect((await flowError(resetPassword(token, 'again-password'))).code).toBe('INVALID_TOKEN');
+  });
+
+  it('should say nothing about emails without an account', async () => {
+    await expect(requestPasswordReset('nobody@example.com')).resolves.toBeUndefined();
+    expect(sentEmails).toHaveLength(0);
+  });
+
+  it('should only honour the latest link, and not once it has expired', async () => {
+    await requestPasswordReset('ada@example.com');
+    const first = linkToken();
+    await requestPasswordReset('ada@example.com');
+
+    expect((await flowError(resetPassword(first, 'new-password'))).code).toBe('INVALID_TOKEN');
+
+    authTokens[0].expiresAt = new Date(Date.now() - 1000);
+    expect((await flowError(resetPassword(linkToken(), 'new-password'))).code).toBe('EXPIRED_TOKEN');
+  });
+
+  it('should sign out every session and lift a lockout', async () => {
+    await startSession('user-1');
+    await startSession('user-1');
+    for (let i = 0; i < MAX_ACCOUNT_FAILURES; i++) await recordLoginAttempt('ada@example.com', null, false);
+
+    await requestPasswordReset('ada@example.com');
+    await resetPassword(linkToken(), 'new-password');
+
+    expect(sessions).toHaveLength(0);
+    await expect(assertLoginAllowed('ada@example.com', null)).resolves.toBeUndefined();
+  });
+});
+
+describe('email verification', () => {
+  it('should verify the address the link was sent to', async () => {
+    await expect(sendEmailVerification('user-1')).resolves.toBe(true);
+    await expect(verifyEmail(linkToken())).resolves.toEqual({ email: 'ada@example.com' });
+
+    expect(users[0].emailVerified).toBeInstanceOf(Date);
+    await expect(sendEmailVerification('user-1')).resolves.toBe(false);
+  });
+
+  it('should not verify an address the user has since changed', async () => {
+    await sendEmailVerification('user-1');
+    users[0].email = 'ada@new.example';
+
+    expect((await flowError(verifyEmail(linkToken()))).code).toBe('INVALID_TOKEN');
+    expect(users[0].emailVerified).toBeNull();
+  });
+});
+
+describe('login throttling', () => {
+  it('should lock an account after repeated failures until the lockout passes', async () => {
+    for (let i = 0; i < MAX_ACCOUNT_FAILURES - 1; i++) await recordLoginAttempt('Ada@example.com', '10.0.0.1', false);
+    await expect(assertLoginAllowed('ada@example.com', '10.0.0.2')).resolves.toBeUndefined();
+
+    await recordLoginAttempt('ada@example.com', '10.0.0.3', false);
+    const error = await flowError(assertLoginAllowed('ada@example.com', '10.0.0.2'));
+    expect(error.code).toBe('ACCOUNT_LOCKED');
+    expect(error.message).toContain('15 minutes');
+
+    await expect(assertLoginAllowed('ada@example.com', null, Date.now() + ACCOUNT_LOCKOUT_MS + 1000)).resolves.toBeUndefined();
+  });
+
+  it('should only count failures since the last successful sign-in', async () => {
+    for (let i = 0; i < MAX_ACCOUNT_FAILURES - 1; i++) await recordLoginAttempt('ada@example.com', null, false);
+    attempts.forEach(attempt => (attempt.createdAt = new Date(Date.now() - 60_000)));
+    await recordLoginAttempt('ada@example.com', null, true);
+    await recordLoginAttempt('ada@example.com', null, false);
+
+    await expect(assertLoginAllowed('ada@example.com', null)).resolves.toBeUndefined();
+  });
+
+  it('should throttle an IP address failing across many accounts', async () => {
+    for (let i = 0; i < MAX_IP_FAILURES; i++) await recordLoginAttempt(`user${i}@example.com`, '10.0.0.9', false);
+
+    expect((await flowError(assertLoginAllowed('ada@example.com', '10.0.0.9'))).code).toBe('TOO_MANY_ATTEMPTS');
+    await expect(assertLoginAllowed('ada@example.com', '10.0.0.10')).resolves.toBeUndefined();
+  });
+
+  it('should throttle password guesses on a protected app', async () => {
+    for (let i = 0; i < MAX_ACCOUNT_FAILURES; i++) await recordAppUnlockAttempt('app-1', `10.0.1.${i}`, false);
+
+    const error = await flowError(assertAppUnlockAllowed('app-1', '10.0.0.2'));
+    expect(error.code).toBe('TOO_MANY_ATTEMPTS');
+    expect(error.retryAt!.getTime()).toBeGreaterThan(Date.now());
+    await expect(assertAppUnlockAllowed('app-2', '10.0.0.2')).resolves.toBeUndefined();
+    await expect(assertLoginAllowed('ada@example.com', '10.0.0.2')).resolves.toBeUndefined();
+  });
+
+  it('should count app password guesses against the IP address', async () => {
+    for (let i = 0; i < MAX_IP_FAILURES; i++) await recordAppUnlockAttempt(`app-${i}`, '10.0.0.9', false);
+
+    expect((await flowError(assertAppUnlockAllowed('app-new', '10.0.0.9'))).code).toBe('TOO_MANY_ATTEMPTS');
+    await expect(assertAppUnlockAllowed('app-new', '10.0.0.10')).resolves.toBeUndefined();
+  });
+
+  it('should only read forwarded addresses behind a trusted proxy', () => {
+    const headers = new Headers({ 'x-forwarded-for': '6.6.6.6, 203.0.113.7' });
+    expect(clientIp(headers)).toBeNull();
+
+    process.env.AUTH_TRUST_PROXY = 'true';
+    try {
+      expect(clientIp(headers)).toBe('203.0.113.7');
+      expect(clientIp({ 'x-real-ip': '203.0.113.8' })).toBe('203.0.113.8');
+    } finally {
+      delete process.env.AUTH_TRUST_PROXY;
+    }
+  });
+});
+
+describe('sessions', () => {
+  it('should list sessions and mark the current one', async () => {
+    const current = await startSession('user-1', { userAgent: 'Firefox', ipAddress: '10.0.0.1' });
+    await startSession('user-1', { userAgent: 'Safari' });
+    await startSession('someone-else');
+
+    const listed = await listSessions('user-1', current);
+    expect(listed).toHaveLength(2);
+    expect(listed.find(s => s.current)).toMatchObject({ userAgent: 'Firefox', ipAddress: '10.0.0.1' });
+    expect(JSON.stringify(listed)).not.toContain(current);
+  });
+
+  it('should stop accepting a revoked or expired session', async () => {
+    const token = await startSession('user-1');
+    await expect(touchSession(token)).resolves.toBe(true);
+
+    const [session] = await listSessions('user-1');
+    await expect(revokeSession('someone-else', session.id)).resolves.toBe(false);
+    await expect(revokeSession('user-1', session.id)).resolves.toBe(true);
+    await expect(touchSession(token)).resolves.toBe(false);
+
+    const expiring = await startSession('user-1');
+    sessions[0].expires = new Date(Date.now() - 1000);
+    await expect(touchSession(expiring)).resolves.toBe(false);
+  });
+
+  it('should sign out other sessions but keep the current one', async () => {
+    const current = await startSession('user-1');
+    await startSession('user-1');
+    await startSession('user-1');
+
+    await expect(revokeOtherSessions('user-1', current)).resolves.toBe(2);
+    await expect(touchSession(current)).resolves.toBe(true);
+  });
+
+  it('should sign out tokens without a session instead of starting one', async () => {
+    const jwt = authOptions.callbacks!.jwt!;
+
+    await expect(jwt({ token: { id: 'user-1' } } as any)).rejects.toThrow('Please sign in again');
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should re-check a token\'s session at most once a minute', async () => {
+    const jwt = authOptions.callbacks!.jwt!;
+    const token = await jwt({ token: { id: 'user-1' }, user: { id: 'user-1' } } as any);
+    expect(sessions).toHaveLength(1);
+
+    sessions.length = 0;
+    await expect(jwt({ token } as any)).resolves.toBe(token);
+
+    token.checkedAt! -= SESSION_CHECK_INTERVAL_MS;
+    await expect(jwt({ token } as any)).rejects.toThrow('This session has been signed out');
+  });
+});
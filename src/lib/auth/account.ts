@@ -0,0 +1,112 @@
+/**
+ * Account Flows
+ * Password reset and email verification through emailed single-use links
+ */
+
+import bcrypt from 'bcryptjs';
+import prisma from '@/lib/db';
+import { appBaseUrl, sendEmail } from '@/lib/email';
+import { revokeOtherSessions } from './sessions';
+import { clearFailedLogins } from './throttle';
+import { AUTH_TOKEN_TTL_MS, consumeAuthToken, issueAuthToken } from './tokens';
+import { AuthFlowError } from './types';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+function hoursLabel(ms: number): string {
+  const hours = ms / (60 * 60 * 1000);
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+// ============================================================================
+// Password reset
+// ============================================================================
+
+/**
+ * Email a reset link if an account has this address. Resolves the same way
+ * either way, so the form does not reveal which emails have accounts.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { email: email.trim() },
+    select: { id: true, email: true },
+  });
+  if (!user) return;
+
+  const token = await issueAuthToken(user.id, user.email, 'PASSWORD_RESET');
+  const link = `${appBaseUrl()}/auth/reset-password?token=${token}`;
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Someone asked to reset the password for your account.\n\nChoose a new password: ${link}\n\nThe link expires in ${hoursLabel(AUTH_TOKEN_TTL_MS.PASSWORD_RESET)} and can be used once. If you didn't ask for this, you can ignore this email; your password has not changed.`,
+  });
+}
+
+/**
+ * Set a new password from a reset link. Every session is signed out and any
+ * lockout cleared, since whoever holds the link controls the email.
+ */
+export async function resetPassword(token: string, newPassword: string): Promise<void> {
+  const { userId, email } = await consumeAuthToken(token, 'PASSWORD_RESET');
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+  if (!user || user.email !== email) {
+    throw new AuthFlowError('This link is invalid or has already been used', 'INVALID_TOKEN');
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      password: await bcrypt.hash(newPassword, 12),
+      // Following the link proves the address works
+      emailVerified: new Date(),
+    },
+  });
+  await revokeOtherSessions(userId, null);
+  await clearFailedLogins(email);
+}
+
+// ============================================================================
+// Email verification
+// ============================================================================
+
+/**
+ * Email a verification link to the user's current address; false when it is
+ * already verified
+ */
+export async function sendEmailVerification(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, emailVerified: true },
+  });
+  if (!user || user.emailVerified) return false;
+
+  const token = await issueAuthToken(user.id, user.email, 'EMAIL_VERIFICATION');
+  const link = `${appBaseUrl()}/auth/verify-email?token=${token}`;
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Confirm that ${user.email} is your email address: ${link}\n\nThe link expires in ${hoursLabel(AUTH_TOKEN_TTL_MS.EMAIL_VERIFICATION)}.`,
+  });
+  return true;
+}
+
+/**
+ * Mark the address a verification link was sent to as verified. A link sent
+ * before the user changed their email no longer applies.
+ */
+export async function verifyEmail(token: string): Promise<{ email: string }> {
+  const { userId, email } = await consumeAuthToken(token, 'EMAIL_VERIFICATION');
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, email },
+    data: { emailVerified: new Date() },
+  });
+  if (count === 0) {
+    throw new AuthFlowError('This link is for an email address no longer on your account', 'INVALID_TOKEN');
+  }
+
+  return { email };
+}
@@ -0,0 +1,163 @@
+/**
+ * Auth Adapter
+ * Stores OAuth accounts, users created at first sign-in and magic-link tokens
+ * for NextAuth in Prisma
+ */
+
+import type { Adapter, AdapterAccount, AdapterSession, AdapterUser } from 'next-auth/adapters';
+import prisma, { DBErrorType, parsePrismaError } from '@/lib/db';
+
+interface StoredUser {
+  id: string;
+  email: string;
+  emailVerified: Date | null;
+  name: string | null;
+  image: string | null;
+}
+
+const userSelect = { id: true, email: true, emailVerified: true, name: true, image: true } as const;
+
+/**
+ * Only the fields NextAuth needs, so password hashes and API keys never reach
+ * its callbacks
+ */
+function toAdapterUser(user: StoredUser): AdapterUser {
+  return {
+    id: user.id,
+    email: user.email,
+    emailVerified: user.emailVerified,
+    name: user.name,
+    image: user.image,
+  };
+}
+
+function toAdapterSession(session: AdapterSession): AdapterSession {
+  return { sessionToken: session.sessionToken, userId: session.userId, expires: session.expires };
+}
+
+function isNotFound(error: unknown): boolean {
+  return parsePrismaError(error).type === DBErrorType.NOT_FOUND;
+}
+
+export function PrismaAuthAdapter(): Adapter {
+  return {
+    async createUser(user: Omit<AdapterUser, 'id'>) {
+      const created = await prisma.user.create({
+        data: {
+          email: user.email,
+          emailVerified: user.emailVerified,
+          name: user.name ?? null,
+          image: user.image ?? null,
+        },
+        select: userSelect,
+      });
+      return toAdapterUser(created);
+    },
+
+    async getUser(id) {
+      const user = await prisma.user.findUnique({ where: { id }, select: userSelect });
+      return user ? toAdapterUser(user) : null;
+    },
+
+    async getUserByEmail(email) {
+      const user = await prisma.user.findUnique({ where: { email }, select: userSelect });
+      return user ? toAdapterUser(user) : null;
+    },
+
+    async getUserByAccount({ provider, providerAccountId }) {
+      const account = await prisma.account.findUnique({
+        where: { provider_providerAccountId: { provider, providerAccountId } },
+        select: { user: { select: userSelect } },
+      });
+      return account ? toAdapterUser(account.user) : null;
+    },
+
+    async updateUser({ id, email, emailVerified, name, image }) {
+      const user = await prisma.user.update({
+        where: { id },
+        data: { email: email ?? undefined, emailVerified, name, image },
+        select: userSelect,
+      });
+      return toAdapterUser(user);
+    },
+
+    async deleteUser(id) {
+      await prisma.user.delete({ where: { id } });
+    },
+
+    async linkAccount(account: AdapterAccount) {
+      await prisma.account.create({
+        data: {
+          userId: account.userId,
+          type: account.type,
+          provider: account.provider,
+          providerAccountId: account.providerAccountId,
+          refresh_token: account.refresh_token,
+          access_token: account.access_token,
+          expires_at: account.expires_at,
+          token_type: account.token_type,
+          scope: account.scope,
+          id_token: account.id_token,
+          session_state: account.session_state,
+        },
+      });
+    },
+
+    async unlinkAccount({ provider, providerAccountId }: Pick<AdapterAccount, 'provider' | 'providerAccountId'>) {
+      await prisma.account.delete({
+        where: { provider_providerAccountId: { provider, providerAccountId } },
+      });
+    },
+
+    async createSession(session) {
+      return toAdapterSession(await prisma.session.create({ data: session }));
+    },
+
+    async getSessionAndUser(sessionToken) {
+      const session = await prisma.session.findUnique({
+        where: { sessionToken },
+        include: { user: { select: userSelect } },
+      });
+      if (!session) return null;
+      return { session: toAdapterSession(session), user: toAdapterUser(session.user) };
+    },
+
+    async updateSession({ sessionToken, expires }) {
+      try {
+        return toAdapterSession(await prisma.session.update({ where: { sessionToken }, data: { expires } }));
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async deleteSession(sessionToken) {
+      try {
+        await prisma.session.delete({ where: { sessionToken } });
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    },
+
+    async createVerificationToken(token) {
+      const created = await prisma.verificationToken.create({ data: token });
+      return { identifier: created.identifier, token: created.token, expires: created.expires };
+    },
+
+    /**
+     * Tokens are single use: the row is deleted as it is read, so a second
+     * click on the same link fails
+     */
+    async useVerificationToken({ identifier, token }) {
+      try {
+        const used = await prisma.verificationToken.delete({
+          where: { identifier_token: { identifier, token } },
+        });
+        return { identifier: used.identifier, token: used.token, expires: used.expires };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+  };
+}
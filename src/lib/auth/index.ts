@@ -0,0 +1,53 @@
+/**
+ * Auth Module Index
+ * NextAuth configuration, session helpers and account security flows
+ */
+
+export { authOptions } from './options';
+export { getServerSession, isAdminEmail } from './session';
+export { PrismaAuthAdapter } from './adapter';
+export { MagicLinkProvider, sendMagicLink, MAGIC_LINK_MAX_AGE } from './magic-link';
+export { oauthProviders, hasVerifiedEmail } from './oauth';
+
+export {
+  SESSION_MAX_AGE_SECONDS,
+  SESSION_CHECK_INTERVAL_MS,
+  requestMetadata,
+  startSession,
+  touchSession,
+  listSessions,
+  revokeSession,
+  revokeOtherSessions,
+  currentSessionToken,
+} from './sessions';
+
+export {
+  LOGIN_WINDOW_MS,
+  MAX_ACCOUNT_FAILURES,
+  ACCOUNT_LOCKOUT_MS,
+  MAX_IP_FAILURES,
+  clientIp,
+  assertLoginAllowed,
+  recordLoginAttempt,
+  clearFailedLogins,
+  assertAppUnlockAllowed,
+  recordAppUnlockAttempt,
+} from './throttle';
+
+export { AUTH_TOKEN_TTL_MS, hashAuthToken, issueAuthToken, consumeAuthToken } from './tokens';
+
+export {
+  MIN_PASSWORD_LENGTH,
+  requestPasswordReset,
+  resetPassword,
+  sendEmailVerification,
+  verifyEmail,
+} from './account';
+
+export {
+  AuthFlowError,
+  type AuthTokenPurpose,
+  type SessionMetadata,
+  type ActiveSession,
+  type AuthFlowErrorCode,
+} from './types';
@@ -0,0 +1,64 @@
+/**
+ * OAuth Providers
+ * GitHub and Google sign-in, each enabled when its client credentials are
+ * set. Accounts link to an existing user with the same email, which is only
+ * safe because the provider must vouch for that email first.
+ */
+
+import type { Account, Profile } from 'next-auth';
+import type { Provider } from 'next-auth/providers/index';
+import GitHubProvider from 'next-auth/providers/github';
+import GoogleProvider, { type GoogleProfile } from 'next-auth/providers/google';
+
+export function oauthProviders(): Provider[] {
+  const providers: Provider[] = [];
+
+  if (process.env.GITHUB_ID && process.env.GITHUB_SECRET) {
+    providers.push(GitHubProvider({
+      clientId: process.env.GITHUB_ID,
+      clientSecret: process.env.GITHUB_SECRET,
+      allowDangerousEmailAccountLinking: true,
+    }));
+  }
+
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    providers.push(GoogleProvider({
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+      allowDangerousEmailAccountLinking: true,
+    }));
+  }
+
+  return providers;
+}
+
+interface GitHubEmail {
+  email: string;
+  verified: boolean;
+}
+
+/**
+ * Whether the provider has verified the email we are about to sign in (and
+ * possibly link) with. Anyone can put an unverified address on a GitHub or
+ * Google account, so without this check they could take over our account for it.
+ */
+export async function hasVerifiedEmail(account: Account, profile: Profile | undefined, email: string): Promise<boolean> {
+  const normalized = email.toLowerCase();
+
+  if (account.provider === 'google') {
+    const google = profile as GoogleProfile | undefined;
+    return google?.email_verified === true && google.email.toLowerCase() === normalized;
+  }
+
+  if (account.provider === 'github') {
+    if (!account.access_token) return false;
+    const response = await fetch('https://api.github.com/user/emails', {
+      headers: { Authorization: `Bearer ${account.access_token}`, 'User-Agent': 'cumulonimbus' },
+    });
+    if (!response.ok) return false;
+    const emails = (await response.json()) as GitHubEmail[];
+    return emails.some(entry => entry.verified && entry.email.toLowerCase() === normalized);
+  }
+
+  return false;
+}
@@ -0,0 +1,171 @@
+/**
+ * Auth Options
+ * Sign-in with a password, GitHub, Google or a magic link. Sessions are JWTs
+ * tied to a Session row so they can be listed and revoked; the adapter stores
+ * linked OAuth accounts and magic-link tokens.
+ */
+
+import { NextAuthOptions } from 'next-auth';
+import CredentialsProvider from 'next-auth/providers/credentials';
+import bcrypt from 'bcryptjs';
+import prisma, { parsePrismaError, DBErrorType } from '@/lib/db';
+import { PrismaAuthAdapter } from './adapter';
+import { MagicLinkProvider } from './magic-link';
+import { hasVerifiedEmail, oauthProviders } from './oauth';
+import {
+  requestMetadata,
+  SESSION_CHECK_INTERVAL_MS,
+  SESSION_MAX_AGE_SECONDS,
+  startSession,
+  touchSession,
+} from './sessions';
+import { assertLoginAllowed, clientIp, recordLoginAttempt } from './throttle';
+import { AuthFlowError } from './types';
+
+export const authOptions: NextAuthOptions = {
+  adapter: PrismaAuthAdapter(),
+  providers: [
+    ...oauthProviders(),
+    MagicLinkProvider(),
+    CredentialsProvider({
+      name: 'credentials',
+      credentials: {
+        email: { label: 'Email', type: 'email' },
+        password: { label: 'Password', type: 'password' },
+      },
+      async authorize(credentials, req) {
+        if (!credentials?.email || !credentials?.password) {
+          throw new Error('Email and password are required');
+        }
+
+        try {
+          const ipAddress = clientIp(req?.headers);
+          await assertLoginAllowed(credentials.email, ipAddress);
+
+          const user = await prisma.user.findUnique({
+            where: { email: credentials.email },
+          });
+
+          if (!user) {
+            await recordLoginAttempt(credentials.email, ipAddress, false);
+            throw new Error('No user found with this email');
+          }
+
+          if (!user.password) {
+            throw new Error('This account has no password. Sign in with GitHub, Google or an email link.');
+          }
+
+          const isPasswordValid = await bcrypt.compare(credentials.password, user.password);
+
+          if (!isPasswordValid) {
+            await recordLoginAttempt(credentials.email, ipAddress, false);
+            throw new Error('Invalid password');
+          }
+
+          await recordLoginAttempt(credentials.email, ipAddress, true);
+
+          return {
+            id: user.id,
+            email: user.email,
+            name: user.name,
+          };
+        } catch (error) {
+          // Handle database errors gracefully
+          const dbError = parsePrismaError(error);
+          
+          if (dbError.type === DBErrorType.CONNECTION || 
+              dbError.type === DBErrorType.PERMISSION ||
+              dbError.type === DBErrorType.TIMEOUT) {
+            console.error('Database error during authentication:', dbError);
+            throw new Error('Service temporarily unavailable. Please try again in a moment.');
+          }
+          
+          // Re-throw other errors (like validation errors)
+          if (error instanceof Error) {
+            throw error;
+          }
+          
+          throw new Error('An unexpected error occurred during sign in');
+        }
+      },
+    }),
+  ],
+  session: {
+    strategy: 'jwt',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  },
+  pages: {
+    signIn: '/auth/signin',
+    error: '/auth/error',
+  },
+  callbacks: {
+    async signIn({ user, account, profile }) {
+      if (account?.type !== 'oauth') return true;
+      // OAuth sign-in links to the user with the same email, so it must be verified
+      if (user.email && await hasVerifiedEmail(account, profile, user.email)) return true;
+      return '/auth/error?error=OAuthEmailNotVerified';
+    },
+    async jwt({ token, user }) {
+      const now = Date.now();
+      if (user) {
+        token.id = user.id;
+        token.sid = await startSession(user.id, requestMetadata());
+        token.checkedAt = now;
+        return token;
+      }
+      // Throwing makes NextAuth drop the session and clear its cookie.
+      // Tokens issued before sessions were tracked can't be revoked, so they sign in again.
+      if (!token.sid) {
+        throw new AuthFlowError('Please sign in again', 'SESSION_REVOKED');
+      }
+      if (token.checkedAt !== undefined && now - token.checkedAt < SESSION_CHECK_INTERVAL_MS) {
+        return token;
+      }
+      if (!(await touchSession(token.sid, now))) {
+        throw new AuthFlowError('This session has been signed out', 'SESSION_REVOKED');
+      }
+      token.checkedAt = now;
+      return token;
+    },
+    async session({ session, token }) {
+      if (session.user) {
+        session.user.id = token.id as string;
+      }
+      return session;
+    },
+  },
+  events: {
+    async signIn({ user, account }) {
+      // The signIn callback only lets OAuth through with an email the provider verified
+      if (account?.type === 'oauth') {
+        await prisma.user.updateMany({
+          where: { id: user.id, emailVerified: null },
+          data: { emailVerified: new Date() },
+        });
+      }
+    },
+  },
+  secret: process.env.NEXTAUTH_SECRET,
+};
+
+// Type augmentation for NextAuth
+declare module 'next-auth' {
+  interface Session {
+    user: {
+      id: string;
+      email?: string | null;
+      name?: string | null;
+      image?: string | null;
+    };
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    id: string;
+    /** Session row this token belongs to; see sessions.ts */
+    sid?: string;
+    /** When the Session row was last checked, in epoch milliseconds */
+    checkedAt?: number;
+  }
+}
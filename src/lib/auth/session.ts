@@ -0,0 +1,21 @@
+/**
+ * Session Helpers
+ */
+
+import { authOptions } from './options';
+
+// Helper to get session on the server
+export async function getServerSession() {
+  const { getServerSession: getSession } = await import('next-auth/next');
+  return getSession(authOptions);
+}
+
+// Admins are listed by email in ADMIN_EMAILS (comma-separated)
+export function isAdminEmail(email?: string | null): boolean {
+  if (!email) return false;
+  const admins = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(email.toLowerCase());
+}
@@ -0,0 +1,114 @@
+/**
+ * Sessions
+ * Signed-in devices. Sign-in stays JWT based, but each JWT carries the token
+ * of a Session row; the jwt callback checks that the row still exists, so
+ * deleting it signs the device out within SESSION_CHECK_INTERVAL_MS.
+ */
+
+import { randomBytes } from 'crypto';
+import { headers } from 'next/headers';
+import type { NextRequest } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import prisma from '@/lib/db';
+import { clientIp } from './throttle';
+import type { ActiveSession, SessionMetadata } from './types';
+
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+/** A token re-checks its Session row at most this often, to avoid a query per request */
+export const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+
+/** lastActiveAt is refreshed at most this often, to avoid a write per request */
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * User agent and IP of the request being handled, when there is one
+ */
+export function requestMetadata(): SessionMetadata {
+  try {
+    const requestHeaders = headers();
+    return {
+      userAgent: requestHeaders.get('user-agent'),
+      ipAddress: clientIp(requestHeaders),
+    };
+  } catch {
+    // Outside a request (scripts, tests)
+    return {};
+  }
+}
+
+export async function startSession(userId: string, metadata: SessionMetadata = {}): Promise<string> {
+  const sessionToken = randomBytes(32).toString('base64url');
+  await prisma.session.create({
+    data: {
+      sessionToken,
+      userId,
+      expires: new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000),
+      userAgent: metadata.userAgent?.slice(0, 500) ?? null,
+      ipAddress: metadata.ipAddress ?? null,
+    },
+  });
+  return sessionToken;
+}
+
+/**
+ * Whether the session is still signed in, recording activity on it
+ */
+export async function touchSession(sessionToken: string, now = Date.now()): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { sessionToken },
+    select: { id: true, expires: true, lastActiveAt: true },
+  });
+  if (!session || session.expires.getTime() <= now) return false;
+
+  if (now - session.lastActiveAt.getTime() > TOUCH_INTERVAL_MS) {
+    await prisma.session.updateMany({
+      where: { id: session.id },
+      data: { lastActiveAt: new Date(now), expires: new Date(now + SESSION_MAX_AGE_SECONDS * 1000) },
+    });
+  }
+  return true;
+}
+
+export async function listSessions(userId: string, currentToken?: string | null): Promise<ActiveSession[]> {
+  const sessions = await prisma.session.findMany({
+    where: { userId, expires: { gt: new Date() } },
+    orderBy: { lastActiveAt: 'desc' },
+  });
+
+  return sessions.map(session => ({
+    id: session.id,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastActiveAt: session.lastActiveAt,
+    current: session.sessionToken === currentToken,
+  }));
+}
+
+/**
+ * Sign out one of the user's sessions; false when it isn't theirs or is gone
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const { count } = await prisma.session.deleteMany({ where: { id: sessionId, userId } });
+  return count > 0;
+}
+
+/**
+ * Sign out every session but the current one, or all of them when there is
+ * no current one; returns how many ended
+ */
+export async function revokeOtherSessions(userId: string, currentToken: string | null): Promise<number> {
+  const { count } = await prisma.session.deleteMany({
+    where: { userId, ...(currentToken ? { sessionToken: { not: currentToken } } : {}) },
+  });
+  return count;
+}
+
+/**
+ * Token of the session a request is signed in with
+ */
+export async function currentSessionToken(request: NextRequest): Promise<string | null> {
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+  return token?.sid ?? null;
+}
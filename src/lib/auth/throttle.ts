@@ -0,0 +1,154 @@
+/**
+ * Login Throttling
+ * Limits password guessing. An account locks after repeated failures since
+ * its last successful sign-in, and an IP address is throttled after many
+ * failures across any accounts.
+ */
+
+import prisma from '@/lib/db';
+import { AuthFlowError } from './types';
+
+/** Failures older than this no longer count */
+export const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+/** Consecutive failures that lock an account */
+export const MAX_ACCOUNT_FAILURES = 5;
+/** How long an account stays locked after its last failure */
+export const ACCOUNT_LOCKOUT_MS = 15 * 60 * 1000;
+/** Failures from one IP address, across accounts, before it is throttled */
+export const MAX_IP_FAILURES = 20;
+
+/** Attempts are kept this long, then pruned */
+const ATTEMPT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function minutesUntil(date: Date, now: number): number {
+  return Math.max(1, Math.ceil((date.getTime() - now) / 60_000));
+}
+
+/**
+ * The client's address as reported by the reverse proxy in front of the app.
+ * Clients can send these headers themselves, so they are only read when
+ * AUTH_TRUST_PROXY=true, and then only the last X-Forwarded-For entry, which
+ * is the one our proxy appended.
+ */
+export function clientIp(headers: Headers | Record<string, string | string[] | undefined> | undefined): string | null {
+  if (!headers || process.env.AUTH_TRUST_PROXY !== 'true') return null;
+  const read = (name: string) => {
+    const value = headers instanceof Headers ? headers.get(name) : headers[name];
+    return Array.isArray(value) ? value[value.length - 1] : value;
+  };
+  const forwarded = read('x-forwarded-for')?.split(',').pop()?.trim();
+  return forwarded || read('x-real-ip')?.trim() || null;
+}
+
+type Throttle = { code: 'TOO_MANY_ATTEMPTS' | 'ACCOUNT_LOCKED'; retryAt: Date };
+
+/**
+ * When the IP address or the attempt key (an email, or an app unlock key)
+ * is throttled, and until when
+ */
+async function findThrottle(key: string, ipAddress: string | null, now: number): Promise<Throttle | null> {
+  const windowStart = new Date(now - LOGIN_WINDOW_MS);
+
+  if (ipAddress) {
+    const ipFailures = await prisma.loginAttempt.findMany({
+      where: { ipAddress, succeeded: false, createdAt: { gte: windowStart } },
+      orderBy: { createdAt: 'asc' },
+      select: { createdAt: true },
+    });
+    if (ipFailures.length >= MAX_IP_FAILURES) {
+      const retryAt = new Date(ipFailures[ipFailures.length - MAX_IP_FAILURES].createdAt.getTime() + LOGIN_WINDOW_MS);
+      return { code: 'TOO_MANY_ATTEMPTS', retryAt };
+    }
+  }
+
+  const email = normalizeEmail(key);
+  const lastSuccess = await prisma.loginAttempt.findFirst({
+    where: { email, succeeded: true },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+  const since = lastSuccess && lastSuccess.createdAt > windowStart ? lastSuccess.createdAt : windowStart;
+
+  const failures = await prisma.loginAttempt.findMany({
+    where: { email, succeeded: false, createdAt: { gt: since } },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+  if (failures.length >= MAX_ACCOUNT_FAILURES) {
+    const retryAt = new Date(failures[0].createdAt.getTime() + ACCOUNT_LOCKOUT_MS);
+    if (retryAt.getTime() > now) {
+      return { code: 'ACCOUNT_LOCKED', retryAt };
+    }
+  }
+  return null;
+}
+
+/**
+ * Throw if the account is locked or the IP address is throttled
+ */
+export async function assertLoginAllowed(email: string, ipAddress: string | null, now = Date.now()): Promise<void> {
+  const throttle = await findThrottle(email, ipAddress, now);
+  if (throttle?.code === 'TOO_MANY_ATTEMPTS') {
+    throw new AuthFlowError(
+      `Too many sign-in attempts from your network. Try again in ${minutesUntil(throttle.retryAt, now)} minutes.`,
+      'TOO_MANY_ATTEMPTS',
+      throttle.retryAt
+    );
+  }
+  if (throttle) {
+    throw new AuthFlowError(
+      `This account is locked after too many failed sign-in attempts. Try again in ${minutesUntil(throttle.retryAt, now)} minutes or reset your password.`,
+      'ACCOUNT_LOCKED',
+      throttle.retryAt
+    );
+  }
+}
+
+export async function recordLoginAttempt(email: string, ipAddress: string | null, succeeded: boolean): Promise<void> {
+  await prisma.loginAttempt.create({
+    data: { email: normalizeEmail(email), ipAddress, succeeded },
+  });
+
+  if (succeeded) {
+    await prisma.loginAttempt.deleteMany({
+      where: { createdAt: { lt: new Date(Date.now() - ATTEMPT_RETENTION_MS) } },
+    });
+  }
+}
+
+/**
+ * Unlock an account, after its owner proves control of the email
+ */
+export async function clearFailedLogins(email: string): Promise<void> {
+  await prisma.loginAttempt.deleteMany({ where: { email: normalizeEmail(email), succeeded: false } });
+}
+
+/**
+ * Attempts to unlock a password-protected app are recorded alongside sign-ins,
+ * keyed by app. The key has no "@", so it never matches an email.
+ */
+function appUnlockKey(appId: string): string {
+  return `app:${appId}`;
+}
+
+/**
+ * Throw if the app's password page, or the IP address, is throttled
+ */
+export async function assertAppUnlockAllowed(appId: string, ipAddress: string | null, now = Date.now()): Promise<void> {
+  const throttle = await findThrottle(appUnlockKey(appId), ipAddress, now);
+  if (throttle) {
+    throw new AuthFlowError(
+      `Too many password attempts. Try again in ${minutesUntil(throttle.retryAt, now)} minutes.`,
+      'TOO_MANY_ATTEMPTS',
+      throttle.retryAt
+    );
+  }
+}
+
+export async function recordAppUnlockAttempt(appId: string, ipAddress: string | null, succeeded: boolean): Promise<void> {
+  await recordLoginAttempt(appUnlockKey(appId), ipAddress, succeeded);
+}
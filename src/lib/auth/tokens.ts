@@ -0,0 +1,66 @@
+/**
+ * Auth Tokens
+ * Single-use links for password resets and email verification. The emailed
+ * token is random; only its SHA-256 hash is stored, so a database leak does
+ * not hand out working links.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import prisma from '@/lib/db';
+import { AuthFlowError, type AuthTokenPurpose } from './types';
+
+export const AUTH_TOKEN_TTL_MS: Record<AuthTokenPurpose, number> = {
+  PASSWORD_RESET: 60 * 60 * 1000,
+  EMAIL_VERIFICATION: 24 * 60 * 60 * 1000,
+};
+
+export function hashAuthToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a token for the user, replacing any earlier one for the same
+ * purpose so only the latest link works. Returns the raw token for the link.
+ */
+export async function issueAuthToken(userId: string, email: string, purpose: AuthTokenPurpose): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+
+  await prisma.authToken.deleteMany({ where: { userId, purpose } });
+  await prisma.authToken.create({
+    data: {
+      userId,
+      email,
+      purpose,
+      tokenHash: hashAuthToken(token),
+      expiresAt: new Date(Date.now() + AUTH_TOKEN_TTL_MS[purpose]),
+    },
+  });
+
+  return token;
+}
+
+/**
+ * Use up a token. It is deleted whether or not it has expired, so each link
+ * works at most once.
+ */
+export async function consumeAuthToken(
+  token: string,
+  purpose: AuthTokenPurpose
+): Promise<{ userId: string; email: string }> {
+  const stored = await prisma.authToken.findUnique({ where: { tokenHash: hashAuthToken(token) } });
+
+  // Deleting by id tells concurrent uses of the same link apart: only one removes the row
+  const deleted = stored && stored.purpose === purpose
+    ? await prisma.authToken.deleteMany({ where: { id: stored.id } })
+    : { count: 0 };
+
+  if (!stored || deleted.count === 0) {
+    throw new AuthFlowError('This link is invalid or has already been used', 'INVALID_TOKEN');
+  }
+
+  if (stored.expiresAt.getTime() <= Date.now()) {
+    throw new AuthFlowError('This link has expired. Please request a new one.', 'EXPIRED_TOKEN');
+  }
+
+  return { userId: stored.userId, email: stored.email };
+}
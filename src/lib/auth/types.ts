@@ -0,0 +1,51 @@
+/**
+ * Auth Types
+ * Account security tokens, signed-in sessions and their errors
+ */
+
+export type AuthTokenPurpose = 'PASSWORD_RESET' | 'EMAIL_VERIFICATION';
+
+/**
+ * Where a session was started, recorded so the user can recognise it
+ */
+export interface SessionMetadata {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+/**
+ * A signed-in device as listed on the security settings page
+ */
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastActiveAt: Date;
+  /** The session making the request */
+  current: boolean;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type AuthFlowErrorCode =
+  | 'INVALID_TOKEN'
+  | 'EXPIRED_TOKEN'
+  | 'ACCOUNT_LOCKED'
+  | 'TOO_MANY_ATTEMPTS'
+  | 'SESSION_REVOKED';
+
+export class AuthFlowError extends Error {
+  public readonly code: AuthFlowErrorCode;
+  /** For throttling errors: when another attempt will be accepted */
+  public readonly retryAt?: Date;
+
+  constructor(message: string, code: AuthFlowErrorCode, retryAt?: Date) {
+    super(message);
+    this.name = 'AuthFlowError';
+    this.code = code;
+    this.retryAt = retryAt;
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Billing Tests
+ * Tests for webhook signatures, subscription syncing, plan changes and the
+ * plan a subscription state entitles a user to
+ */
+
+import {
+  changePlan,
+  effectivePlan,
+  encodeForm,
+  handleBillingEvent,
+  signWebhookPayload,
+  verifyWebhookEvent,
+  type StripeClient,
+  type StripeSubscription,
+} from '..';
+
+interface StoredUser {
+  id: string;
+  email: string;
+  name: string | null;
+  plan: string;
+  subscriptionStatus: string | null;
+  subscriptionPeriod: string | null;
+  stripeCustomerId: string | null;
+  stripeSubscriptionId: string | null;
+  subscriptionPeriodEnd: Date | null;
+  subscriptionCancelAtPeriodEnd: boolean;
+  subscriptionEventAt: Date | null;
+}
+
+const users: StoredUser[] = [];
+
+jest.mock('@/lib/email', () => ({
+  appBaseUrl: () => 'http://localhost:1000',
+}));
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    user: {
+      findFirst: async ({ where }: any) => users.find(user => user.stripeCustomerId === where.stripeCustomerId) ?? null,
+      findUnique: async ({ where }: any) => users.find(user => user.id === where.id) ?? null,
+      findUniqueOrThrow: async ({ where }: any) => users.find(user => user.id === where.id)!,
+      update: async ({ where, data }: any) => Object.assign(users.find(user => user.id === where.id)!, data),
+    },
+  },
+}));
+
+const SECRET = 'whsec_test';
+
+function addUser(overrides: Partial<StoredUser> = {}): StoredUser {
+  const user: StoredUser = {
+    id: 'user-1',
+    email: 'ada@example.com',
+    name: 'Ada',
+    plan: 'FREE',
+    subscriptionStatus: 'ACTIVE',
+    subscriptionPeriod: 'MONTHLY',
+    stripeCustomerId: 'cus_1',
+    stripeSubscriptionId: null,
+    subscriptionPeriodEnd: null,
+    subscriptionCancelAtPeriodEnd: false,
+    subscriptionEventAt: null,
+    ...overrides,
+  };
+  users.push(user);
+  return user;
+}
+
+function subscription(overrides: Partial<StripeSubscription> = {}, price = 'price_pro_monthly'): StripeSubscription {
+  return {
+    id: 'sub_1',
+    object: 'subscription',
+    customer: 'cus_1',
+    status: 'active',
+    current_period_end: 1_800_000_000,
+    items: { data: [{ id: 'si_1', price: { id: price } }] },
+    ...overrides,
+  };
+}
+
+function event(type: string, object: unknown, created = 1_700_000_000) {
+  return { id: 'evt_1', type, created, data: { object } };
+}
+
+const ENV_KEYS = ['STRIPE_SECRET_KEY', 'STRIPE_PRICE_PLUS_MONTHLY', 'STRIPE_PRICE_PRO_MONTHLY', 'STRIPE_PRICE_PRO_YEARLY'];
+const originalEnv = ENV_KEYS.map(key => process.env[key]);
+
+beforeEach(() => {
+  users.length = 0;
+  process.env.STRIPE_SECRET_KEY = 'sk_test';
+  process.env.STRIPE_PRICE_PLUS_MONTHLY = 'price_plus_monthly';
+  process.env.STRIPE_PRICE_PRO_MONTHLY = 'price_pro_monthly';
+  process.env.STRIPE_PRICE_PRO_YEARLY = 'price_pro_yearly';
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  ENV_KEYS.forEach((key, i) => {
+    if (originalEnv[i] === undefined) delete process.env[key];
+    else process.env[key] = originalEnv[i];
+  });
+});
+
+describe('webhook signatures', () => {
+  const payload = JSON.stringify(event('customer.subscription.updated', subscription()));
+  const now = 1_700_000_000;
+
+  it('should accept a delivery signed with the webhook secret', () => {
+    const header = signWebhookPayload(payload, SECRET, now);
+    expect(header).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookEvent(payload, header, SECRET, { now }).type).toBe('customer.subscription.updated');
+  });
+
+  it('should reject tampered, mis-signed, stale and unsigned deliveries', () => {
+    const header = signWebhookPayload(payload, SECRET, now);
+
+    expect(() => verifyWebhookEvent(payload.replace('active', 'trialing'), header, SECRET, { now }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_SIGNATURE' }));
+    expect(() => verifyWebhookEvent(payload, signWebhookPayload(payload, 'whsec_other', now), SECRET, { now }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_SIGNATURE' }));
+    expect(() => verifyWebhookEvent(payload, header, SECRET, { now: now + 3600 }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_SIGNATURE' }));
+    expect(() => verifyWebhookEvent(payload, null, SECRET, { now }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_SIGNATURE' }));
+    expect(() => verifyWebhookEvent(payload, header, '', { now }))
+      .toThrow(expect.objectContaining({ code: 'NOT_CONFIGURED' }));
+  });
+});
+
+describe('webhook events', () => {
+  it('should move the user onto the subscribed plan', async () => {
+    const user = addUser();
+
+    await expect(handleBillingEvent(event('customer.subscription.created', subscription()))).resolves.toBe(true);
+
+    expect(user).toMatchObject({
+      plan: 'PRO',
+      subscriptionPeriod: 'MONTHLY',
+      subscriptionStatus: 'ACTIVE',
+      stripeSubscriptionId: 'sub_1',
+      subscriptionPeriodEnd: new Date(1_800_000_000 * 1000),
+    });
+  });
+
+  it('should mark the subscription past due when a payment fails, keeping the plan', async () => {
+    const user = addUser({ plan: 'PRO', stripeSubscriptionId: 'sub_1' });
+
+    await handleBillingEvent(event('invoice.payment_failed', { id: 'in_1', object: 'invoice', customer: 'cus_1', subscription: 'sub_1' }));
+
+    expect(user.subscriptionStatus).toBe('PAST_DUE');
+    expect(effectivePlan(user)).toBe('PRO');
+  });
+
+  it('should drop the user to Free when the subscription is deleted', async () => {
+    const user = addUser({ plan: 'PRO', stripeSubscriptionId: 'sub_1' });
+
+    await handleBillingEvent(event('customer.subscription.deleted', subscription()));
+
+    expect(user).toMatchObject({ plan: 'FREE', subscriptionStatus: 'CANCELED', stripeSubscriptionId: null });
+  });
+
+  it('should ignore the end of a subscription the user has replaced', async () => {
+    const user = addUser({ plan: 'PLUS', stripeSubscriptionId: 'sub_2' });
+
+    await handleBillingEvent(event('customer.subscription.deleted', subscription({ id: 'sub_1' })));
+
+    expect(user).toMatchObject({ plan: 'PLUS', stripeSubscriptionId: 'sub_2' });
+  });
+
+  it('should ignore updates delivered after a later deletion', async () => {
+    const user = addUser({ plan: 'PRO', stripeSubscriptionId: 'sub_1' });
+
+    await handleBillingEvent(event('customer.subscription.deleted', subscription(), 1_700_000_060));
+    await handleBillingEvent(event('customer.subscription.updated', subscription(), 1_700_000_000));
+    await handleBillingEvent(event('customer.subscription.updated', subscription(), 1_700_000_060));
+    await handleBillingEvent(event('invoice.payment_failed', { id: 'in_1', object: 'invoice', customer: 'cus_1', subscription: 'sub_1' }, 1_700_000_030));
+
+    expect(user).toMatchObject({ plan: 'FREE', subscriptionStatus: 'CANCELED', stripeSubscriptionId: null });
+
+    // A new subscription after the deletion still applies
+    await handleBillingEvent(event('customer.subscription.created', subscription({ id: 'sub_2' }), 1_700_000_120));
+    expect(user).toMatchObject({ plan: 'PRO', stripeSubscriptionId: 'sub_2', subscriptionEventAt: new Date(1_700_000_120 * 1000) });
+  });
+
+  it('should acknowledge events it does not act on', async () => {
+    await expect(handleBillingEvent(event('charge.succeeded', {}))).resolves.toBe(false);
+  });
+});
+
+describe('changePlan', () => {
+  function fakeClient(current?: StripeSubscription) {
+    const calls: Array<[string, unknown]> = [];
+    const client = {
+      createCustomer: async (params: unknown) => {
+        calls.push(['createCustomer', params]);
+        return { id: 'cus_new' };
+      },
+      createCheckoutSession: async (params: unknown) => {
+        calls.push(['createCheckoutSession', params]);
+        return { id: 'cs_1', url: 'https://checkout.stripe.test/cs_1' };
+      },
+      retrieveSubscription: async () => current!,
+      changeSubscriptionPrice: async (sub: StripeSubscription, priceId: string) => {
+        calls.push(['changeSubscriptionPrice', priceId]);
+        return { ...sub, items: { data: [{ id: 'si_1', price: { id: priceId } }] } };
+      },
+      cancelSubscriptionAtPeriodEnd: async () => {
+        calls.push(['cancelSubscriptionAtPeriodEnd', current!.id]);
+        return { ...current!, cancel_at_period_end: true };
+      },
+    };
+    return { client: client as unknown as StripeClient, calls };
+  }
+
+  it('should send users without a subscription to checkout', async () => {
+    const user = addUser({ stripeCustomerId: null });
+    const { client, calls } = fakeClient();
+
+    await expect(changePlan('user-1', 'PRO', 'YEARLY', client))
+      .resolves.toEqual({ type: 'checkout', url: 'https://checkout.stripe.test/cs_1' });
+    expect(user.stripeCustomerId).toBe('cus_new');
+    expect(calls[1]).toEqual(['createCheckoutSession', expect.objectContaining({
+      customer: 'cus_new',
+      priceId: 'price_pro_yearly',
+      successUrl: 'http://localhost:1000/profile?billing=success',
+    })]);
+    // Nothing changes until Stripe confirms the subscription
+    expect(user.plan).toBe('FREE');
+  });
+
+  it('should switch an existing subscription to the new price', async () => {
+    const user = addUser({ plan: 'PLUS', stripeSubscriptionId: 'sub_1' });
+    const { client, calls } = fakeClient(subscription({}, 'price_plus_monthly'));
+
+    await expect(changePlan('user-1', 'PRO', 'MONTHLY', client)).resolves.toEqual({ type: 'updated', plan: 'PRO' });
+    expect(calls).toEqual([['changeSubscriptionPrice', 'price_pro_monthly']]);
+    expect(user.plan).toBe('PRO');
+  });
+
+  it('should cancel at the end of the period when moving to Free', async () => {
+    const user = addUser({ plan: 'PRO', stripeSubscriptionId: 'sub_1' });
+    const { client } = fakeClient(subscription());
+
+    await expect(changePlan('user-1', 'FREE', 'MONTHLY', client)).resolves.toMatchObject({ type: 'canceling' });
+    expect(user).toMatchObject({ plan: 'PRO', subscriptionCancelAtPeriodEnd: true });
+  });
+
+  it('should refuse paid plans when billing is not configured', async () => {
+    addUser();
+    delete process.env.STRIPE_SECRET_KEY;
+
+    await expect(changePlan('user-1', 'PLUS', 'MONTHLY', fakeClient().client))
+      .rejects.toMatchObject({ code: 'NOT_CONFIGURED' });
+  });
+});
+
+describe('plans', () => {
+  it('should only grant the paid plan while the subscription is in good standing', () => {
+    expect(effectivePlan({ plan: 'PRO', subscriptionStatus: 'ACTIVE' })).toBe('PRO');
+    expect(effectivePlan({ plan: 'PLUS', subscriptionStatus: null })).toBe('PLUS');
+    expect(effectivePlan({ plan: 'PRO', subscriptionStatus: 'UNPAID' })).toBe('FREE');
+    expect(effectivePlan({ plan: 'PRO', subscriptionStatus: 'INCOMPLETE' })).toBe('FREE');
+    expect(effectivePlan({ plan: 'ENTERPRISE', subscriptionStatus: 'ACTIVE' })).toBe('FREE');
+    expect(effectivePlan(null)).toBe('FREE');
+  });
+});
+
+describe('encodeForm', () => {
+  it('should encode nested params with bracketed keys', () => {
+    expect(decodeURIComponent(encodeForm({
+      mode: 'subscription',
+      line_items: [{ price: 'price_1', quantity: 1 }],
+      metadata: { userId: 'u 1' },
+      skipped: undefined,
+    }))).toBe('mode=subscription&line_items[0][price]=price_1&line_items[0][quantity]=1&metadata[userId]=u 1');
+  });
+});
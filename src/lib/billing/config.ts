@@ -0,0 +1,64 @@
+/**
+ * Billing Configuration
+ * Stripe keys and the price each paid plan and interval is sold at
+ */
+
+import { BillingError, type BillingInterval, type PaidPlan, type Plan } from './types';
+
+export interface BillingConfig {
+  secretKey: string;
+  webhookSecret: string;
+  /** Stripe API origin; point it at a local mock in development */
+  apiBase: string;
+  prices: Record<PaidPlan, Record<BillingInterval, string | undefined>>;
+}
+
+export function getBillingConfig(): BillingConfig {
+  return {
+    secretKey: process.env.STRIPE_SECRET_KEY || '',
+    webhookSecret: process.env.STRIPE_WEBHOOK_SECRET || '',
+    apiBase: (process.env.STRIPE_API_BASE || 'https://api.stripe.com').replace(/\/$/, ''),
+    prices: {
+      PLUS: {
+        MONTHLY: process.env.STRIPE_PRICE_PLUS_MONTHLY,
+        YEARLY: process.env.STRIPE_PRICE_PLUS_YEARLY,
+      },
+      PRO: {
+        MONTHLY: process.env.STRIPE_PRICE_PRO_MONTHLY,
+        YEARLY: process.env.STRIPE_PRICE_PRO_YEARLY,
+      },
+    },
+  };
+}
+
+export function isBillingConfigured(config: BillingConfig = getBillingConfig()): boolean {
+  return Boolean(config.secretKey);
+}
+
+/**
+ * Stripe price for a paid plan
+ */
+export function priceIdFor(plan: PaidPlan, interval: BillingInterval, config: BillingConfig = getBillingConfig()): string {
+  const priceId = config.prices[plan][interval];
+  if (!priceId) {
+    throw new BillingError(`No price is configured for ${plan} billed ${interval.toLowerCase()}`, 'UNKNOWN_PRICE');
+  }
+  return priceId;
+}
+
+/**
+ * Plan and interval a Stripe price belongs to, or null for prices we don't sell
+ */
+export function planForPrice(
+  priceId: string,
+  config: BillingConfig = getBillingConfig()
+): { plan: Plan; interval: BillingInterval } | null {
+  for (const plan of Object.keys(config.prices) as PaidPlan[]) {
+    for (const interval of Object.keys(config.prices[plan]) as BillingInterval[]) {
+      if (config.prices[plan][interval] === priceId) {
+        return { plan, interval };
+      }
+    }
+  }
+  return null;
+}
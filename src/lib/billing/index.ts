@@ -0,0 +1,51 @@
+/**
+ * Billing Module Index
+ * Stripe subscriptions and the plan they entitle a user to
+ */
+
+export {
+  ENTITLED_STATUSES,
+  isPlan,
+  effectivePlan,
+  getUserPlan,
+} from './plans';
+
+export {
+  getBillingConfig,
+  isBillingConfigured,
+  priceIdFor,
+  planForPrice,
+  type BillingConfig,
+} from './config';
+
+export { StripeClient, encodeForm, type FormParams } from './stripe';
+
+export {
+  signWebhookPayload,
+  verifyWebhookEvent,
+  WEBHOOK_TOLERANCE_SECONDS,
+} from './webhooks';
+
+export {
+  statusFromStripe,
+  applySubscription,
+  applyPaymentFailed,
+  handleBillingEvent,
+  changePlan,
+  createPortalLink,
+} from './subscriptions';
+
+export {
+  PLANS,
+  BillingError,
+  type Plan,
+  type PaidPlan,
+  type BillingInterval,
+  type SubscriptionStatus,
+  type UserSubscription,
+  type PlanChangeResult,
+  type StripeSubscription,
+  type StripeInvoice,
+  type StripeEvent,
+  type BillingErrorCode,
+} from './types';
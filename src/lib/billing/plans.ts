@@ -0,0 +1,37 @@
+/**
+ * Plans
+ * The plan a user is entitled to given the state of their subscription. What
+ * each plan allows lives in lib/entitlements.
+ */
+
+import prisma from '@/lib/db';
+import { PLANS, type Plan, type SubscriptionStatus, type UserSubscription } from './types';
+
+/**
+ * Statuses that keep the paid plan. Stripe retries failed payments while a
+ * subscription is past due, so access continues until it becomes unpaid or canceled.
+ */
+export const ENTITLED_STATUSES: SubscriptionStatus[] = ['ACTIVE', 'TRIALING', 'PAST_DUE'];
+
+export function isPlan(value: unknown): value is Plan {
+  return typeof value === 'string' && (PLANS as string[]).includes(value);
+}
+
+/**
+ * The plan a user is entitled to: their stored plan while the subscription is
+ * in good standing, otherwise Free. A missing status counts as active, as for
+ * plans assigned before billing existed.
+ */
+export function effectivePlan(user: UserSubscription | null | undefined): Plan {
+  if (!user || !isPlan(user.plan)) return 'FREE';
+  const status = (user.subscriptionStatus || 'ACTIVE') as SubscriptionStatus;
+  return ENTITLED_STATUSES.includes(status) ? user.plan : 'FREE';
+}
+
+export async function getUserPlan(userId: string): Promise<Plan> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { plan: true, subscriptionStatus: true },
+  });
+  return effectivePlan(user);
+}
@@ -0,0 +1,123 @@
+/**
+ * Stripe Client
+ * Minimal REST client for the Stripe endpoints billing uses. Anything that
+ * speaks the same API (stripe-mock, a local fake) works via STRIPE_API_BASE.
+ */
+
+import { getBillingConfig, type BillingConfig } from './config';
+import { BillingError, type StripeSubscription } from './types';
+
+type FormValue = string | number | boolean | null | undefined | FormParams | FormValue[];
+export interface FormParams {
+  [key: string]: FormValue;
+}
+
+/**
+ * Encode params the way Stripe expects: form fields with bracketed keys for
+ * nested objects and arrays (`items[0][price]=...`)
+ */
+export function encodeForm(params: FormParams): string {
+  const fields: string[] = [];
+
+  const add = (key: string, value: FormValue) => {
+    if (value === undefined || value === null) return;
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => add(`${key}[${index}]`, item));
+    } else if (typeof value === 'object') {
+      for (const [child, childValue] of Object.entries(value)) {
+        add(`${key}[${child}]`, childValue);
+      }
+    } else {
+      fields.push(`${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+    }
+  };
+
+  for (const [key, value] of Object.entries(params)) {
+    add(key, value);
+  }
+  return fields.join('&');
+}
+
+export class StripeClient {
+  constructor(private readonly config: Pick<BillingConfig, 'secretKey' | 'apiBase'> = getBillingConfig()) {}
+
+  private async request<T>(method: 'GET' | 'POST' | 'DELETE', path: string, params: FormParams = {}): Promise<T> {
+    if (!this.config.secretKey) {
+      throw new BillingError('Billing is not configured', 'NOT_CONFIGURED');
+    }
+
+    const body = encodeForm(params);
+    const url = `${this.config.apiBase}${path}${method === 'GET' && body ? `?${body}` : ''}`;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.config.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: method === 'GET' ? undefined : body,
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const message = data?.error?.message || `Stripe request failed with status ${response.status}`;
+      throw new BillingError(message, 'PROVIDER_ERROR');
+    }
+    return data as T;
+  }
+
+  public createCustomer(params: { email: string; name?: string | null; userId: string }): Promise<{ id: string }> {
+    return this.request('POST', '/v1/customers', {
+      email: params.email,
+      name: params.name,
+      metadata: { userId: params.userId },
+    });
+  }
+
+  public createCheckoutSession(params: {
+    customer: string;
+    priceId: string;
+    userId: string;
+    successUrl: string;
+    cancelUrl: string;
+  }): Promise<{ id: string; url: string }> {
+    return this.request('POST', '/v1/checkout/sessions', {
+      mode: 'subscription',
+      customer: params.customer,
+      client_reference_id: params.userId,
+      line_items: [{ price: params.priceId, quantity: 1 }],
+      subscription_data: { metadata: { userId: params.userId } },
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+    });
+  }
+
+  public retrieveSubscription(id: string): Promise<StripeSubscription> {
+    return this.request('GET', `/v1/subscriptions/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * Move a subscription to another price. Stripe credits the unused time on
+   * the old price and charges the rest of the period on the new one.
+   */
+  public changeSubscriptionPrice(subscription: StripeSubscription, priceId: string): Promise<StripeSubscription> {
+    const item = subscription.items.data[0];
+    return this.request('POST', `/v1/subscriptions/${encodeURIComponent(subscription.id)}`, {
+      items: [{ id: item?.id, price: priceId }],
+      proration_behavior: 'always_invoice',
+      cancel_at_period_end: false,
+    });
+  }
+
+  public cancelSubscriptionAtPeriodEnd(id: string): Promise<StripeSubscription> {
+    return this.request('POST', `/v1/subscriptions/${encodeURIComponent(id)}`, {
+      cancel_at_period_end: true,
+    });
+  }
+
+  public createPortalSession(params: { customer: string; returnUrl: string }): Promise<{ id: string; url: string }> {
+    return this.request('POST', '/v1/billing_portal/sessions', {
+      customer: params.customer,
+      return_url: params.returnUrl,
+    });
+  }
+}
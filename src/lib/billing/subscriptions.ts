@@ -0,0 +1,258 @@
+/**
+ * Subscriptions
+ * Plan changes through Stripe, and syncing subscription state back onto the
+ * user from webhook events
+ */
+
+import prisma from '@/lib/db';
+import { appBaseUrl } from '@/lib/email';
+import { getBillingConfig, isBillingConfigured, planForPrice, priceIdFor } from './config';
+import { ENTITLED_STATUSES } from './plans';
+import { StripeClient } from './stripe';
+import {
+  BillingError,
+  type BillingInterval,
+  type Plan,
+  type PlanChangeResult,
+  type StripeEvent,
+  type StripeInvoice,
+  type StripeSubscription,
+  type SubscriptionStatus,
+} from './types';
+
+const STRIPE_STATUSES: Record<string, SubscriptionStatus> = {
+  active: 'ACTIVE',
+  trialing: 'TRIALING',
+  past_due: 'PAST_DUE',
+  incomplete: 'INCOMPLETE',
+  incomplete_expired: 'INCOMPLETE_EXPIRED',
+  unpaid: 'UNPAID',
+  canceled: 'CANCELED',
+};
+
+export function statusFromStripe(status: string): SubscriptionStatus {
+  return STRIPE_STATUSES[status] ?? 'INCOMPLETE';
+}
+
+function profileUrl(billing: string): string {
+  return `${appBaseUrl()}/profile?billing=${billing}`;
+}
+
+// ============================================================================
+// Syncing from Stripe
+// ============================================================================
+
+async function findSubscriber(customerId: string, userId?: string) {
+  const select = { id: true, stripeSubscriptionId: true, subscriptionStatus: true, subscriptionEventAt: true } as const;
+  const byCustomer = await prisma.user.findFirst({ where: { stripeCustomerId: customerId }, select });
+  if (byCustomer || !userId) return byCustomer;
+  return prisma.user.findUnique({ where: { id: userId }, select });
+}
+
+/**
+ * Stripe doesn't deliver webhooks in order, so an event older than the last
+ * one applied would roll the user back. Within the same second a cancellation
+ * wins, so a late update can't revive a deleted subscription.
+ */
+function isStale(
+  user: { subscriptionStatus: string | null; subscriptionEventAt: Date | null },
+  eventAt: Date | undefined,
+  status: SubscriptionStatus
+): boolean {
+  if (!eventAt || !user.subscriptionEventAt) return false;
+  const last = user.subscriptionEventAt.getTime();
+  return eventAt.getTime() < last
+    || (eventAt.getTime() === last && user.subscriptionStatus === 'CANCELED' && status !== 'CANCELED');
+}
+
+/**
+ * Copy a subscription's plan, status and period onto its user. Events for a
+ * subscription the user has since replaced, and webhook events older than the
+ * last one applied, are ignored. Returns whether a user was updated.
+ *
+ * @param eventAt - When Stripe created the webhook event; omit for API responses
+ */
+export async function applySubscription(subscription: StripeSubscription, eventAt?: Date): Promise<boolean> {
+  const user = await findSubscriber(subscription.customer, subscription.metadata?.userId);
+  if (!user) {
+    console.warn(`[Billing] No user for Stripe customer ${subscription.customer}`);
+    return false;
+  }
+
+  const status = statusFromStripe(subscription.status);
+  const isCurrent = !user.stripeSubscriptionId || user.stripeSubscriptionId === subscription.id;
+  if ((!isCurrent && !ENTITLED_STATUSES.includes(status)) || isStale(user, eventAt, status)) {
+    return false;
+  }
+
+  if (status === 'CANCELED') {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        plan: 'FREE',
+        subscriptionStatus: 'CANCELED',
+        stripeSubscriptionId: null,
+        stripeCustomerId: subscription.customer,
+        subscriptionPeriodEnd: null,
+        subscriptionCancelAtPeriodEnd: false,
+        subscriptionEventAt: eventAt,
+      },
+    });
+    return true;
+  }
+
+  const priceId = subscription.items.data[0]?.price.id;
+  const price = priceId ? planForPrice(priceId) : null;
+  if (!price) {
+    console.warn(`[Billing] Subscription ${subscription.id} uses unknown price ${priceId}`);
+    return false;
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      plan: price.plan,
+      subscriptionPeriod: price.interval,
+      subscriptionStatus: status,
+      stripeSubscriptionId: subscription.id,
+      stripeCustomerId: subscription.customer,
+      subscriptionPeriodEnd: subscription.current_period_end
+        ? new Date(subscription.current_period_end * 1000)
+        : null,
+      subscriptionCancelAtPeriodEnd: Boolean(subscription.cancel_at_period_end),
+      subscriptionEventAt: eventAt,
+    },
+  });
+  return true;
+}
+
+/**
+ * A renewal charge failed. Stripe keeps retrying; the plan stays usable while
+ * the subscription is past due and ends when Stripe cancels it.
+ */
+export async function applyPaymentFailed(invoice: StripeInvoice, eventAt?: Date): Promise<boolean> {
+  const user = await findSubscriber(invoice.customer);
+  if (!user) return false;
+  if (invoice.subscription && user.stripeSubscriptionId && invoice.subscription !== user.stripeSubscriptionId) {
+    return false;
+  }
+  if (isStale(user, eventAt, 'PAST_DUE')) {
+    return false;
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { subscriptionStatus: 'PAST_DUE' },
+  });
+  return true;
+}
+
+/**
+ * Apply a verified webhook event. Returns whether the event type is one we act on.
+ */
+export async function handleBillingEvent(event: StripeEvent): Promise<boolean> {
+  const eventAt = new Date(event.created * 1000);
+  switch (event.type) {
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+      await applySubscription(event.data.object as StripeSubscription, eventAt);
+      return true;
+    case 'customer.subscription.deleted':
+      await applySubscription({ ...(event.data.object as StripeSubscription), status: 'canceled' }, eventAt);
+      return true;
+    case 'invoice.payment_failed':
+      await applyPaymentFailed(event.data.object as StripeInvoice, eventAt);
+      return true;
+    default:
+      return false;
+  }
+}
+
+// ============================================================================
+// Plan changes
+// ============================================================================
+
+/**
+ * Move a user to a plan. Users without a subscription are sent to checkout;
+ * existing subscriptions switch price with proration, or cancel at the end of
+ * the paid period when moving to Free.
+ */
+export async function changePlan(
+  userId: string,
+  plan: Plan,
+  interval: BillingInterval,
+  client: StripeClient = new StripeClient()
+): Promise<PlanChangeResult> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { id: true, email: true, name: true, stripeCustomerId: true, stripeSubscriptionId: true },
+  });
+
+  if (plan === 'FREE' && !user.stripeSubscriptionId) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { plan: 'FREE', subscriptionStatus: 'ACTIVE' },
+    });
+    return { type: 'updated', plan: 'FREE' };
+  }
+
+  if (!isBillingConfigured()) {
+    throw new BillingError('Billing is not configured', 'NOT_CONFIGURED');
+  }
+
+  if (plan === 'FREE') {
+    const subscription = await client.cancelSubscriptionAtPeriodEnd(user.stripeSubscriptionId!);
+    await applySubscription(subscription);
+    return {
+      type: 'canceling',
+      plan: 'FREE',
+      endsAt: subscription.current_period_end ? new Date(subscription.current_period_end * 1000) : null,
+    };
+  }
+
+  const priceId = priceIdFor(plan, interval, getBillingConfig());
+
+  if (user.stripeSubscriptionId) {
+    const current = await client.retrieveSubscription(user.stripeSubscriptionId);
+    if (ENTITLED_STATUSES.includes(statusFromStripe(current.status))) {
+      const updated = await client.changeSubscriptionPrice(current, priceId);
+      await applySubscription(updated);
+      return { type: 'updated', plan };
+    }
+  }
+
+  let customerId = user.stripeCustomerId;
+  if (!customerId) {
+    const customer = await client.createCustomer({ email: user.email, name: user.name, userId });
+    customerId = customer.id;
+    await prisma.user.update({ where: { id: userId }, data: { stripeCustomerId: customerId } });
+  }
+
+  const session = await client.createCheckoutSession({
+    customer: customerId,
+    priceId,
+    userId,
+    successUrl: profileUrl('success'),
+    cancelUrl: profileUrl('canceled'),
+  });
+  return { type: 'checkout', url: session.url };
+}
+
+/**
+ * Link to Stripe's customer portal for invoices and payment methods
+ */
+export async function createPortalLink(userId: string, client: StripeClient = new StripeClient()): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { stripeCustomerId: true },
+  });
+  if (!user?.stripeCustomerId) {
+    throw new BillingError('No billing account yet; subscribe to a plan first', 'NO_CUSTOMER');
+  }
+
+  const session = await client.createPortalSession({
+    customer: user.stripeCustomerId,
+    returnUrl: profileUrl('portal'),
+  });
+  return session.url;
+}
@@ -0,0 +1,96 @@
+/**
+ * Billing Types
+ * Plans, subscription states and the subset of Stripe objects we read
+ */
+
+export type Plan = 'FREE' | 'PLUS' | 'PRO';
+export type PaidPlan = Exclude<Plan, 'FREE'>;
+export type BillingInterval = 'MONTHLY' | 'YEARLY';
+
+export const PLANS: Plan[] = ['FREE', 'PLUS', 'PRO'];
+
+/**
+ * Stored in `User.subscriptionStatus`; mirrors Stripe's subscription statuses
+ */
+export type SubscriptionStatus =
+  | 'ACTIVE'
+  | 'TRIALING'
+  | 'PAST_DUE'
+  | 'INCOMPLETE'
+  | 'INCOMPLETE_EXPIRED'
+  | 'UNPAID'
+  | 'CANCELED';
+
+/**
+ * Subscription fields on the user record
+ */
+export interface UserSubscription {
+  plan: string | null;
+  subscriptionStatus: string | null;
+}
+
+/**
+ * Result of asking for a plan change
+ */
+export type PlanChangeResult =
+  /** No subscription yet: the user completes payment on the hosted checkout page */
+  | { type: 'checkout'; url: string }
+  /** Existing subscription moved to the new price, prorated */
+  | { type: 'updated'; plan: Plan }
+  /** Downgrade to Free: the subscription ends with the paid period */
+  | { type: 'canceling'; plan: Plan; endsAt: Date | null };
+
+// ============================================================================
+// Stripe objects
+// ============================================================================
+
+export interface StripeSubscriptionItem {
+  id: string;
+  price: { id: string };
+}
+
+export interface StripeSubscription {
+  id: string;
+  object: 'subscription';
+  customer: string;
+  status: string;
+  cancel_at_period_end?: boolean;
+  current_period_end?: number | null;
+  items: { data: StripeSubscriptionItem[] };
+  metadata?: Record<string, string>;
+}
+
+export interface StripeInvoice {
+  id: string;
+  object: 'invoice';
+  customer: string;
+  subscription?: string | null;
+}
+
+export interface StripeEvent<T = unknown> {
+  id: string;
+  type: string;
+  created: number;
+  data: { object: T };
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type BillingErrorCode =
+  | 'NOT_CONFIGURED'
+  | 'UNKNOWN_PRICE'
+  | 'NO_CUSTOMER'
+  | 'INVALID_SIGNATURE'
+  | 'PROVIDER_ERROR';
+
+export class BillingError extends Error {
+  public readonly code: BillingErrorCode;
+
+  constructor(message: string, code: BillingErrorCode) {
+    super(message);
+    this.name = 'BillingError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Billing Webhooks
+ * Stripe-Signature verification, and signing for local mock deliveries
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { BillingError, type StripeEvent } from './types';
+
+/** Deliveries signed longer ago than this are rejected as replays */
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+function computeSignature(payload: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+}
+
+/**
+ * Build a Stripe-Signature header (`t=<unix seconds>,v1=<hex hmac>`)
+ */
+export function signWebhookPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+}
+
+/**
+ * Check a delivery's Stripe-Signature header and parse its event
+ */
+export function verifyWebhookEvent(
+  payload: string,
+  header: string | null,
+  secret: string,
+  options: { tolerance?: number; now?: number } = {}
+): StripeEvent {
+  if (!secret) {
+    throw new BillingError('Webhook signing secret is not configured', 'NOT_CONFIGURED');
+  }
+  if (!header) {
+    throw new BillingError('Missing Stripe-Signature header', 'INVALID_SIGNATURE');
+  }
+
+  let timestamp = NaN;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=');
+    if (key === 't') timestamp = Number(value);
+    if (key === 'v1' && value) signatures.push(value);
+  }
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    throw new BillingError('Malformed Stripe-Signature header', 'INVALID_SIGNATURE');
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (Math.abs(now - timestamp) > (options.tolerance ?? WEBHOOK_TOLERANCE_SECONDS)) {
+    throw new BillingError('Webhook timestamp is outside the tolerance window', 'INVALID_SIGNATURE');
+  }
+
+  const expected = Buffer.from(computeSignature(payload, secret, timestamp), 'hex');
+  const matches = signatures.some(signature => {
+    const received = Buffer.from(signature, 'hex');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  });
+  if (!matches) {
+    throw new BillingError('Webhook signature does not match', 'INVALID_SIGNATURE');
+  }
+
+  try {
+    return JSON.parse(payload) as StripeEvent;
+  } catch {
+    throw new BillingError('Webhook payload is not valid JSON', 'PROVIDER_ERROR');
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * App Collaboration Tests
+ * Tests for role ranking, role-scoped app lookups and the invite flow
+ */
+
+import {
+  acceptInvite,
+  appWhereRole,
+  CollaborationError,
+  createInvite,
+  hasAppRole,
+  hashInviteToken,
+  rolesAtLeast,
+} from '..';
+
+interface StoredInvite {
+  id: string;
+  appId: string;
+  email: string;
+  role: string;
+  tokenHash: string;
+  invitedById: string;
+  expiresAt: Date;
+  acceptedAt: Date | null;
+  createdAt: Date;
+}
+
+const users = [
+  { id: 'owner', email: 'owner@example.com', name: 'Olivia', emailVerified: new Date() },
+  { id: 'guest', email: 'guest@example.com', name: null, emailVerified: new Date() as Date | null },
+];
+const invites: StoredInvite[] = [];
+const members: Array<{ appId: string; userId: string; role: string }> = [];
+const sentEmails: Array<{ to: string; subject: string; text: string }> = [];
+
+jest.mock('@/lib/email', () => ({
+  appBaseUrl: () => 'http://localhost:1000',
+  sendEmail: async (message: any) => {
+    sentEmails.push(message);
+    return message;
+  },
+}));
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    app: {
+      findUnique: async () => ({
+        name: 'Expenses',
+        user: { email: 'Owner@Example.com' },
+        members: members
+          .filter(member => users.find(user => user.id === member.userId)?.email === 'guest@example.com')
+          .map(() => ({ id: 'member' })),
+      }),
+    },
+    user: {
+      findUnique: async ({ where }: any) => users.find(user => user.id === where.id) ?? null,
+    },
+    appInvite: {
+      deleteMany: async ({ where }: any) => {
+        const before = invites.length;
+        for (let i = invites.length - 1; i >= 0; i--) {
+          if (invites[i].email === where.email && !invites[i].acceptedAt) invites.splice(i, 1);
+        }
+        return { count: before - invites.length };
+      },
+      create: async ({ data }: any) => {
+        const invite = { id: `invite-${invites.length + 1}`, acceptedAt: null, createdAt: new Date(), ...data };
+        invites.push(invite);
+        return invite;
+      },
+      findUnique: async ({ where }: any) => {
+        const invite = invites.find(candidate => candidate.tokenHash === where.tokenHash);
+        return invite ? { ...invite, app: { userId: 'owner' } } : null;
+      },
+      update: async ({ where, data }: any) => Object.assign(invites.find(invite => invite.id === where.id)!, data),
+    },
+    appMember: {
+      upsert: async ({ create }: any) => {
+        members.push(create);
+        return create;
+      },
+    },
+  },
+}));
+
+/** The raw token from the link in the last invite email */
+function emailedToken(): string {
+  return sentEmails[sentEmails.length - 1].text.match(/\/invites\/([\w-]+)/)![1];
+}
+
+beforeEach(() => {
+  users[1].emailVerified = new Date();
+  invites.length = 0;
+  members.length = 0;
+  sentEmails.length = 0;
+});
+
+describe('roles', () => {
+  it('should rank viewer below editor below admin below owner', () => {
+    expect(hasAppRole('editor', 'viewer')).toBe(true);
+    expect(hasAppRole('editor', 'admin')).toBe(false);
+    expect(hasAppRole('owner', 'admin')).toBe(true);
+    expect(hasAppRole(null, 'viewer')).toBe(false);
+    expect(rolesAtLeast('editor')).toEqual(['editor', 'admin']);
+  });
+
+  it('should match owners and sufficiently privileged members', () => {
+    expect(appWhereRole('app-1', 'user-1', 'editor')).toEqual({
+      id: 'app-1',
+      OR: [
+        { userId: 'user-1' },
+        { members: { some: { userId: 'user-1', role: { in: ['editor', 'admin'] } } } },
+      ],
+    });
+    expect(appWhereRole('app-1', 'user-1', 'owner')).toEqual({ id: 'app-1', userId: 'user-1' });
+  });
+});
+
+describe('invites', () => {
+  it('should email an invite link and turn it into a membership', async () => {
+    const invite = await createInvite({ appId: 'app-1', invitedById: 'owner', email: ' Guest@Example.com ', role: 'editor' });
+
+    expect(invite.email).toBe('guest@example.com');
+    expect(sentEmails).toHaveLength(1);
+    expect(sentEmails[0].to).toBe('guest@example.com');
+    expect(sentEmails[0].subject).toContain('Olivia');
+    const token = emailedToken();
+    expect(invites[0].tokenHash).toBe(hashInviteToken(token));
+    expect(invites[0].tokenHash).not.toBe(token);
+
+    await expect(acceptInvite(token, { id: 'guest', email: 'guest@example.com' }))
+      .resolves.toEqual({ appId: 'app-1', role: 'editor' });
+    expect(members).toEqual([{ appId: 'app-1', userId: 'guest', role: 'editor' }]);
+    expect(invites[0].acceptedAt).toBeInstanceOf(Date);
+  });
+
+  it('should replace a pending invite to the same address', async () => {
+    await createInvite({ appId: 'app-1', invitedById: 'owner', email: 'guest@example.com', role: 'viewer' });
+    await createInvite({ appId: 'app-1', invitedById: 'owner', email: 'guest@example.com', role: 'admin' });
+
+    expect(invites).toHaveLength(1);
+    expect(invites[0].role).toBe('admin');
+  });
+
+  it('should refuse to invite the owner or an existing member', async () => {
+    await expect(createInvite({ appId: 'app-1', invitedById: 'owner', email: 'owner@example.com', role: 'viewer' }))
+      .rejects.toMatchObject({ code: 'ALREADY_MEMBER' });
+
+    members.push({ appId: 'app-1', userId: 'guest', role: 'viewer' });
+    await expect(createInvite({ appId: 'app-1', invitedById: 'owner', email: 'guest@example.com', role: 'viewer' }))
+      .rejects.toBeInstanceOf(CollaborationError);
+  });
+
+  it('should only be accepted once, before it expires, by the invited address', async () => {
+    await createInvite({ appId: 'app-1', invitedById: 'owner', email: 'guest@example.com', role: 'viewer' });
+    const token = emailedToken();
+
+    await expect(acceptInvite(token, { id: 'other', email: 'other@example.com' }))
+      .rejects.toMatchObject({ code: 'INVITE_EMAIL_MISMATCH' });
+
+    invites[0].expiresAt = new Date(Date.now() - 1000);
+    await expect(acceptInvite(token, { id: 'guest', email: 'guest@example.com' }))
+      .rejects.toMatchObject({ code: 'INVITE_EXPIRED' });
+
+    invites[0].expiresAt = new Date(Date.now() + 60_000);
+    await acceptInvite(token, { id: 'guest', email: 'guest@example.com' });
+    await expect(acceptInvite(token, { id: 'guest', email: 'guest@example.com' }))
+      .rejects.toMatchObject({ code: 'INVITE_NOT_FOUND' });
+  });
+
+  it('should require the invited address to be verified', async () => {
+    await createInvite({ appId: 'app-1', invitedById: 'owner', email: 'guest@example.com', role: 'viewer' });
+    users[1].emailVerified = null;
+
+    await expect(acceptInvite(emailedToken(), { id: 'guest', email: 'guest@example.com' }))
+      .rejects.toMatchObject({ code: 'EMAIL_NOT_VERIFIED' });
+    expect(members).toEqual([]);
+    expect(invites[0].acceptedAt).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Collaboration Module Index
+ * Sharing an app with other users as viewer, editor or admin
+ */
+
+export {
+  isAppRole,
+  hasAppRole,
+  rolesAtLeast,
+  appWhereRole,
+  getAppRole,
+} from './roles';
+
+export {
+  createInvite,
+  acceptInvite,
+  listAppMembers,
+  normalizeEmail,
+  inviteUrl,
+  hashInviteToken,
+  INVITE_TTL_MS,
+} from './invites';
+
+export {
+  APP_ROLES,
+  CollaborationError,
+  type AppRole,
+  type AppMemberRole,
+  type AppMemberInfo,
+  type AppInviteInfo,
+  type CollaborationErrorCode,
+} from './types';
@@ -0,0 +1,213 @@
+/**
+ * App Invites
+ * Inviting users to an app by email and accepting those invitations
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import prisma from '@/lib/db';
+import { appBaseUrl, sendEmail } from '@/lib/email';
+import { isAppRole } from './roles';
+import {
+  CollaborationError,
+  type AppInviteInfo,
+  type AppMemberInfo,
+  type AppRole,
+} from './types';
+
+export const INVITE_TTL_MS = 14 * 24 * 60 * 60 * 1000; // 14 days
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/** Only this hash of an invite token is stored, so a database leak hands out no working links */
+export function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function inviteUrl(token: string): string {
+  return `${appBaseUrl()}/invites/${token}`;
+}
+
+// ============================================================================
+// Inviting
+// ============================================================================
+
+interface CreateInviteInput {
+  appId: string;
+  invitedById: string;
+  email: string;
+  role: AppRole;
+}
+
+/**
+ * Invite someone to an app and email them the link. Inviting the same address
+ * again replaces the pending invite, so the newest link and role win.
+ */
+export async function createInvite({ appId, invitedById, email, role }: CreateInviteInput): Promise<AppInviteInfo> {
+  if (!isAppRole(role)) {
+    throw new CollaborationError(`Unknown role "${role}"`, 'INVALID_ROLE');
+  }
+
+  const normalized = normalizeEmail(email);
+  const app = await prisma.app.findUnique({
+    where: { id: appId },
+    select: {
+      name: true,
+      user: { select: { email: true } },
+      members: { where: { user: { email: normalized } }, select: { id: true } },
+    },
+  });
+
+  if (!app) {
+    throw new CollaborationError('App not found', 'INVITE_NOT_FOUND');
+  }
+  if (normalizeEmail(app.user.email) === normalized || app.members.length > 0) {
+    throw new CollaborationError(`${normalized} already has access to this app`, 'ALREADY_MEMBER');
+  }
+
+  const inviter = await prisma.user.findUnique({
+    where: { id: invitedById },
+    select: { name: true, email: true },
+  });
+
+  await prisma.appInvite.deleteMany({ where: { appId, email: normalized, acceptedAt: null } });
+
+  const token = randomBytes(24).toString('base64url');
+  const invite = await prisma.appInvite.create({
+    data: {
+      appId,
+      email: normalized,
+      role,
+      invitedById,
+      tokenHash: hashInviteToken(token),
+      expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+    },
+  });
+
+  const from = inviter?.name || inviter?.email || 'Someone';
+  const link = inviteUrl(token);
+  await sendEmail({
+    to: normalized,
+    subject: `${from} invited you to "${app.name}"`,
+    text: `${from} invited you to collaborate on "${app.name}" as ${role}.\n\nAccept the invitation: ${link}\n\nThe link expires in 14 days.`,
+  });
+
+  return {
+    id: invite.id,
+    email: invite.email,
+    role,
+    expiresAt: invite.expiresAt,
+    createdAt: invite.createdAt,
+  };
+}
+
+// ============================================================================
+// Accepting
+// ============================================================================
+
+interface AcceptingUser {
+  id: string;
+  email: string;
+}
+
+/**
+ * Turn an invite into a membership for the signed-in user. The invite must be
+ * addressed to their email, and they must have verified it: anyone can sign
+ * up with an address they don't own. Returns the app id so the caller can open it.
+ */
+export async function acceptInvite(token: string, user: AcceptingUser): Promise<{ appId: string; role: AppRole }> {
+  const invite = await prisma.appInvite.findUnique({
+    where: { tokenHash: hashInviteToken(token) },
+    select: { id: true, appId: true, email: true, role: true, expiresAt: true, acceptedAt: true, app: { select: { userId: true } } },
+  });
+
+  if (!invite || invite.acceptedAt || !isAppRole(invite.role)) {
+    throw new CollaborationError('This invitation is no longer valid', 'INVITE_NOT_FOUND');
+  }
+  if (invite.expiresAt.getTime() < Date.now()) {
+    throw new CollaborationError('This invitation has expired', 'INVITE_EXPIRED');
+  }
+  if (normalizeEmail(user.email) !== invite.email) {
+    throw new CollaborationError(`This invitation was sent to ${invite.email}`, 'INVITE_EMAIL_MISMATCH');
+  }
+
+  const account = await prisma.user.findUnique({
+    where: { id: user.id },
+    select: { email: true, emailVerified: true },
+  });
+  if (!account?.emailVerified || normalizeEmail(account.email) !== invite.email) {
+    throw new CollaborationError('Verify your email address before accepting this invitation', 'EMAIL_NOT_VERIFIED');
+  }
+
+  // The owner already has every permission; just use up the invite
+  if (invite.app.userId !== user.id) {
+    await prisma.appMember.upsert({
+      where: { appId_userId: { appId: invite.appId, userId: user.id } },
+      create: { appId: invite.appId, userId: user.id, role: invite.role },
+      update: { role: invite.role },
+    });
+  }
+
+  await prisma.appInvite.update({
+    where: { id: invite.id },
+    data: { acceptedAt: new Date() },
+  });
+
+  return { appId: invite.appId, role: invite.role };
+}
+
+// ============================================================================
+// Listing
+// ============================================================================
+
+/**
+ * The owner, current members and pending invites of an app
+ */
+export async function listAppMembers(appId: string): Promise<{ members: AppMemberInfo[]; invites: AppInviteInfo[] }> {
+  const app = await prisma.app.findUnique({
+    where: { id: appId },
+    select: {
+      user: { select: { id: true, email: true, name: true } },
+      members: {
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, role: true, user: { select: { id: true, email: true, name: true } } },
+      },
+      invites: {
+        where: { acceptedAt: null, expiresAt: { gt: new Date() } },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, email: true, role: true, expiresAt: true, createdAt: true },
+      },
+    },
+  });
+
+  if (!app) {
+    return { members: [], invites: [] };
+  }
+
+  const owner: AppMemberInfo = {
+    id: 'owner',
+    userId: app.user.id,
+    email: app.user.email,
+    name: app.user.name,
+    role: 'owner',
+  };
+
+  return {
+    members: [
+      owner,
+      ...app.members
+        .filter(member => isAppRole(member.role))
+        .map(member => ({
+          id: member.id,
+          userId: member.user.id,
+          email: member.user.email,
+          name: member.user.name,
+          role: member.role as AppRole,
+        })),
+    ],
+    invites: app.invites
+      .filter(invite => isAppRole(invite.role))
+      .map(invite => ({ ...invite, role: invite.role as AppRole })),
+  };
+}
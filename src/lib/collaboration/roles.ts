@@ -0,0 +1,69 @@
+/**
+ * App Roles
+ * Role ranking and the queries routes use to find apps a user may act on
+ */
+
+import prisma from '@/lib/db';
+import { APP_ROLES, type AppMemberRole, type AppRole } from './types';
+
+const ROLE_RANK: Record<AppMemberRole, number> = {
+  viewer: 1,
+  editor: 2,
+  admin: 3,
+  owner: 4,
+};
+
+export function isAppRole(value: unknown): value is AppRole {
+  return APP_ROLES.includes(value as AppRole);
+}
+
+/**
+ * Whether a role grants at least the permissions of `minimum`
+ */
+export function hasAppRole(role: AppMemberRole | null | undefined, minimum: AppMemberRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+/**
+ * Member roles that satisfy `minimum`
+ */
+export function rolesAtLeast(minimum: AppMemberRole): AppRole[] {
+  return APP_ROLES.filter(role => hasAppRole(role, minimum));
+}
+
+/**
+ * Prisma filter for an app the user owns or is a member of with at least
+ * `minimum`. Drop-in replacement for `{ id: appId, userId }` in app lookups.
+ */
+export function appWhereRole(appId: string, userId: string, minimum: AppMemberRole = 'viewer') {
+  if (minimum === 'owner') {
+    return { id: appId, userId };
+  }
+
+  return {
+    id: appId,
+    OR: [
+      { userId },
+      { members: { some: { userId, role: { in: rolesAtLeast(minimum) } } } },
+    ],
+  };
+}
+
+/**
+ * The user's role on an app, or null if they have none
+ */
+export async function getAppRole(appId: string, userId: string): Promise<AppMemberRole | null> {
+  const app = await prisma.app.findUnique({
+    where: { id: appId },
+    select: {
+      userId: true,
+      members: { where: { userId }, select: { role: true } },
+    },
+  });
+
+  if (!app) return null;
+  if (app.userId === userId) return 'owner';
+
+  const role = app.members[0]?.role;
+  return isAppRole(role) ? role : null;
+}
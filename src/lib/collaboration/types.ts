@@ -0,0 +1,50 @@
+/**
+ * Collaboration Types
+ * Roles other users can hold on an app, and the errors raised when inviting them
+ */
+
+/**
+ * - viewer: open the app and read its data
+ * - editor: also add, change and delete records and run workflows
+ * - admin: also rename the app, change who can open it and manage members
+ */
+export type AppRole = 'viewer' | 'editor' | 'admin';
+
+/** A member's role, or 'owner' for the user the app belongs to */
+export type AppMemberRole = AppRole | 'owner';
+
+export const APP_ROLES: AppRole[] = ['viewer', 'editor', 'admin'];
+
+export interface AppMemberInfo {
+  id: string;
+  userId: string;
+  email: string;
+  name: string | null;
+  role: AppMemberRole;
+}
+
+export interface AppInviteInfo {
+  id: string;
+  email: string;
+  role: AppRole;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export type CollaborationErrorCode =
+  | 'INVALID_ROLE'
+  | 'ALREADY_MEMBER'
+  | 'INVITE_NOT_FOUND'
+  | 'INVITE_EXPIRED'
+  | 'INVITE_EMAIL_MISMATCH'
+  | 'EMAIL_NOT_VERIFIED';
+
+export class CollaborationError extends Error {
+  public readonly code: CollaborationErrorCode;
+
+  constructor(message: string, code: CollaborationErrorCode) {
+    super(message);
+    this.name = 'CollaborationError';
+    this.code = code;
+  }
+}
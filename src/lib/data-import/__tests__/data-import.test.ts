@@ -0,0 +1,351 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Data Import Tests
+ * Tests for parsing CSV, JSON and XLSX files, suggesting column mappings,
+ * validating rows, and committing and undoing an import
+ */
+
+import Database from 'better-sqlite3';
+import { deflateRawSync } from 'zlib';
+import { AppDataStore } from '@/lib/app-data/store';
+import type { Schema } from '@/lib/scaffolder-v2/types';
+import {
+  DataImportError,
+  checkColumnMapping,
+  commitDataImport,
+  detectImportFormat,
+  listDataImports,
+  parseCsvRows,
+  parseImportFile,
+  suggestColumnMapping,
+  undoDataImport,
+  validateImportRows,
+  type ParsedTable,
+} from '..';
+
+interface Row {
+  [key: string]: any;
+}
+
+const dataImports: Row[] = [];
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    dataImport: {
+      create: async ({ data }: any) => {
+        const row = { id: `import-${dataImports.length + 1}`, undoneAt: null, createdAt: new Date(), ...data };
+        dataImports.push(row);
+        return row;
+      },
+      findFirst: async ({ where }: any) =>
+        dataImports.find(row => row.id === where.id && row.appId === where.appId) ?? null,
+      findMany: async ({ where }: any) => dataImports.filter(row => row.appId === where.appId).reverse(),
+      updateMany: async ({ where, data }: any) => {
+        const row = dataImports.find(candidate => candidate.id === where.id && candidate.undoneAt === null);
+        if (row) Object.assign(row, data);
+        return { count: row ? 1 : 0 };
+      },
+      update: async ({ where, data }: any) => Object.assign(dataImports.find(row => row.id === where.id)!, data),
+    },
+  },
+}));
+
+const projectSchema: Schema = {
+  name: 'Project',
+  label: 'Project',
+  fields: [{ name: 'name', label: 'Name', type: 'string', required: true }],
+  relationships: [{ type: 'hasMany', target: 'Task' }],
+};
+
+const taskSchema: Schema = {
+  name: 'Task',
+  label: 'Task',
+  fields: [
+    { name: 'title', label: 'Title', type: 'string', required: true },
+    { name: 'code', label: 'Code', type: 'string', required: false, unique: true },
+    { name: 'estimate', label: 'Estimate', type: 'number', required: false },
+    { name: 'dueDate', label: 'Due Date', type: 'date', required: false },
+    { name: 'done', label: 'Done', type: 'boolean', required: false },
+    { name: 'priority', label: 'Priority', type: 'enum', required: false, options: ['low', 'high'] },
+    { name: 'slug', label: 'Slug', type: 'string', required: false, generated: true },
+  ],
+  relationships: [{ type: 'belongsTo', target: 'Project' }],
+};
+
+function setup() {
+  const store = new AppDataStore('app-1', new Database(':memory:'), [projectSchema, taskSchema]);
+  return { store, projects: store.collection('Project'), tasks: store.collection('Task') };
+}
+
+function table(columns: string[], rows: unknown[][]): ParsedTable {
+  return {
+    format: 'csv',
+    columns,
+    rows: rows.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? null]))),
+  };
+}
+
+async function importError(promise: Promise<unknown> | (() => unknown)): Promise<DataImportError> {
+  try {
+    await (typeof promise === 'function' ? promise() : promise);
+  } catch (error) {
+    if (error instanceof DataImportError) return error;
+    throw error;
+  }
+  throw new Error('Expected a DataImportError');
+}
+
+/**
+ * A minimal .xlsx: a zip with the parts the reader needs. The sheet is
+ * deflated and the rest stored, as real workbooks mix both.
+ */
+function buildXlsx(sheetRows: string, sharedStrings: string[], styles = ''): Buffer {
+  const parts: Record<string, string> = {
+    'xl/workbook.xml': '<workbook><sheets><sheet name="Tasks" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>',
+    'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${sheetRows}</sheetData></worksheet>`,
+    'xl/sharedStrings.xml': `<sst>${sharedStrings.map(text => `<si><t>${text}</t></si>`).join('')}</sst>`,
+    'xl/styles.xml': `<styleSheet>${styles}</styleSheet>`,
+  };
+
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(parts)) {
+    const raw = Buffer.from(content, 'utf8');
+    const deflate = name.includes('worksheets');
+    const data = deflate ? deflateRawSync(raw) : raw;
+    const nameBytes = Buffer.from(name, 'utf8');
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(deflate ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(parts).length, 8);
+  end.writeUInt16LE(Object.keys(parts).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+beforeEach(() => {
+  dataImports.length = 0;
+});
+
+describe('parsing', () => {
+  it('reads quoted CSV fields, CRLF line ends and a byte order mark', () => {
+    const csv = '﻿Title,Notes\r\n"Plan, then build","Say ""hi""\nand wave"\r\n\r\nShip,\r\n';
+    expect(parseCsvRows(csv)).toEqual([
+      ['Title', 'Notes'],
+      ['Plan, then build', 'Say "hi"\nand wave'],
+      ['Ship', ''],
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters', () => {
+    expect(parseCsvRows('a;b\n1,5;2')).toEqual([['a', 'b'], ['1,5', '2']]);
+    expect(parseCsvRows('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('names blank and repeated CSV headers', () => {
+    const parsed = parseImportFile(Buffer.from('Title,,Title\nA,B,C\n'), 'csv');
+    expect(parsed.columns).toEqual(['Title', 'Column B', 'Title (2)']);
+    expect(parsed.rows).toEqual([{ Title: 'A', 'Column B': 'B', 'Title (2)': 'C' }]);
+  });
+
+  it('reads JSON arrays and arrays wrapped in an object', () => {
+    const wrapped = parseImportFile(Buffer.from(JSON.stringify({ data: [{ title: 'A' }, { title: 'B', done: true }] })), 'json');
+    expect(wrapped.columns).toEqual(['title', 'done']);
+    expect(wrapped.rows).toHaveLength(2);
+  });
+
+  it('reads the first worksheet of an xlsx file', () => {
+    const xlsx = buildXlsx(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>Done</t></is></c></row>' +
+      '<row r="2"/>' +
+      '<row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3" s="1"><v>45292</v></c><c r="C3"><v>2.5</v></c><c r="D3" t="b"><v>1</v></c></row>' +
+      '<row r="4"><c r="A4" t="inlineStr"><is><r><t>Tom &amp; </t></r><r><t>Jerry</t></r></is></c><c r="C4"><v>3</v></c></row>',
+      ['Title', 'Due', 'Write tests'],
+      '<cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="14" applyNumberFormat="1"/></cellXfs>'
+    );
+
+    const parsed = parseImportFile(xlsx, 'xlsx');
+
+    expect(parsed.columns).toEqual(['Title', 'Due', 'Column C', 'Done']);
+    expect(parsed.rows).toEqual([
+      { Title: 'Write tests', Due: '2024-01-01', 'Column C': 2.5, Done: true },
+      { Title: 'Tom & Jerry', Due: null, 'Column C': 3, Done: null },
+    ]);
+  });
+
+  it('rejects unreadable and empty files', async () => {
+    expect((await importError(() => parseImportFile(Buffer.from('not a zip'), 'xlsx'))).code).toBe('PARSE_FAILED');
+    expect((await importError(() => parseImportFile(Buffer.from('{"a": 1'), 'json'))).code).toBe('PARSE_FAILED');
+    expect((await importError(() => parseImportFile(Buffer.from('Title\n'), 'csv'))).code).toBe('EMPTY_FILE');
+  });
+
+  it('detects formats from file names and content types', () => {
+    expect(detectImportFormat('Tasks.XLSX')).toBe('xlsx');
+    expect(detectImportFormat('export', 'text/csv; charset=utf-8')).toBe('csv');
+    expect(detectImportFormat('notes.pdf', 'application/pdf')).toBeNull();
+  });
+});
+
+describe('column mapping', () => {
+  it('matches columns to fields by name, label and type', () => {
+    const { tasks } = setup();
+    const parsed = table(
+      ['Task Title', 'due date', 'Estimate', 'Priority', 'Slug', 'Notes'],
+      [['A', '2024-03-01', 'a lot', 'high', 'a', 'x']]
+    );
+
+    expect(suggestColumnMapping(parsed, tasks.schema)).toEqual({
+      'Task Title': 'title',
+      'due date': 'dueDate',
+      // "a lot" isn't a number
+      Estimate: null,
+      Priority: 'priority',
+      // Generated fields can't be imported
+      Slug: null,
+      Notes: null,
+    });
+  });
+
+  it('checks edited mappings', async () => {
+    const { tasks } = setup();
+    const parsed = table(['A', 'B'], [['x', 'y']]);
+
+    expect(checkColumnMapping(parsed, tasks.schema, { A: 'title' })).toEqual({ A: 'title', B: null });
+    expect((await importError(() => checkColumnMapping(parsed, tasks.schema, { A: 'title', B: 'title' }))).code).toBe('INVALID_MAPPING');
+    expect((await importError(() => checkColumnMapping(parsed, tasks.schema, { A: 'slug' }))).code).toBe('INVALID_MAPPING');
+    expect((await importError(() => checkColumnMapping(parsed, tasks.schema, { C: 'title' }))).code).toBe('INVALID_MAPPING');
+    expect((await importError(() => checkColumnMapping(parsed, tasks.schema, { A: null }))).code).toBe('INVALID_MAPPING');
+  });
+});
+
+describe('importing', () => {
+  const mapping = { Title: 'title', Code: 'code', Estimate: 'estimate', Done: 'done', Project: 'projectId' };
+
+  it('reports coercion, uniqueness and reference problems per row', () => {
+    const { store, projects, tasks } = setup();
+    const project = projects.insert({ name: 'Launch' });
+    tasks.insert({ title: 'Existing', code: 'T-1' });
+
+    const { valid, invalid } = validateImportRows(store, tasks, table(
+      ['Title', 'Code', 'Estimate', 'Done', 'Project'],
+      [
+        ['Write copy', 'T-2', '3', 'true', project.id],
+        ['', 'T-3', 'soon', 'maybe', ''],
+        ['Duplicate', 'T-1', '', '', ''],
+        ['Repeat', 'T-2', '', '', 'missing'],
+      ]
+    ), mapping);
+
+    expect(valid).toHaveLength(1);
+    expect(valid[0]).toMatchObject({
+      row: 1,
+      record: { title: 'Write copy', code: 'T-2', estimate: 3, done: true, projectId: project.id },
+    });
+    expect(invalid.map(error => [error.row, error.issues.map(issue => issue.code)])).toEqual([
+      [2, ['required', 'type', 'type']],
+      [3, ['unique']],
+      [4, ['unique', 'reference']],
+    ]);
+    expect(invalid[2].issues[0].message).toBe('Code is the same as in row 1');
+    expect(invalid[0].values).toEqual({ Title: '', Code: 'T-3', Estimate: 'soon', Done: 'maybe', Project: '' });
+    // Validation alone writes nothing
+    expect(tasks.count()).toBe(1);
+  });
+
+  it('commits valid rows in one batch and undoes them', async () => {
+    const { store, tasks } = setup();
+    const parsed = table(['Title', 'Estimate'], [['One', '1'], ['Two', 'x'], ['Three', '3']]);
+    const { valid } = validateImportRows(store, tasks, parsed, { Title: 'title', Estimate: 'estimate' });
+    const changes = jest.fn();
+    store.subscribe(changes);
+
+    const dataImport = await commitDataImport(tasks, valid, {
+      appId: 'app-1',
+      userId: 'user-1',
+      fileName: 'tasks.csv',
+      format: 'csv',
+      rowCount: parsed.rows.length,
+    });
+
+    expect(dataImport).toMatchObject({ collection: 'Task', inserted: 2, skipped: 1, undoneAt: null });
+    expect(tasks.list().map(task => task.title)).toEqual(['One', 'Three']);
+    expect(changes).not.toHaveBeenCalled();
+    expect(await listDataImports('app-1')).toHaveLength(1);
+
+    tasks.insert({ title: 'Added by hand' });
+    const { removed, dataImport: undone } = await undoDataImport(store, 'app-1', dataImport.id);
+
+    expect(removed).toBe(2);
+    expect(undone.undoneAt).toBeInstanceOf(Date);
+    expect(tasks.list().map(task => task.title)).toEqual(['Added by hand']);
+    expect((await importError(undoDataImport(store, 'app-1', dataImport.id))).code).toBe('ALREADY_UNDONE');
+    expect((await importError(undoDataImport(store, 'app-2', dataImport.id))).code).toBe('NOT_FOUND');
+  });
+
+  it('refuses to commit when no row is valid', async () => {
+    const { tasks } = setup();
+    const error = await importError(commitDataImport(tasks, [], {
+      appId: 'app-1', userId: 'user-1', fileName: 'empty.csv', format: 'csv', rowCount: 3,
+    }));
+    expect(error.code).toBe('NOTHING_TO_IMPORT');
+    expect(dataImports).toHaveLength(0);
+  });
+
+  it('keeps an undo that a delete rule blocks from removing anything', async () => {
+    const store = new AppDataStore('app-1', new Database(':memory:'), [
+      projectSchema,
+      { ...taskSchema, relationships: [{ type: 'belongsTo', target: 'Project', onDelete: 'restrict' }] },
+    ]);
+    const projects = store.collection('Project');
+    const tasks = store.collection('Task');
+
+    const { valid } = validateImportRows(store, projects, table(['Name'], [['A'], ['B']]), { Name: 'name' });
+    const dataImport = await commitDataImport(projects, valid, {
+      appId: 'app-1', userId: 'user-1', fileName: 'projects.csv', format: 'csv', rowCount: 2,
+    });
+    const dependent = tasks.insert({ title: 'Depends on B', projectId: projects.list()[1].id });
+    const changes: string[] = [];
+    store.subscribe(event => changes.push(`${event.type}:${event.record.name}`));
+
+    await expect(undoDataImport(store, 'app-1', dataImport.id)).rejects.toMatchObject({ code: 'DELETE_RESTRICTED' });
+    expect(projects.count()).toBe(2);
+    // A was deleted before B hit the rule; its rolled-back delete is never published
+    expect(changes).toEqual([]);
+    // The undo can be tried again once the dependency is gone
+    expect(dataImports[0].undoneAt).toBeNull();
+
+    tasks.delete(dependent.id);
+    changes.length = 0;
+    await expect(undoDataImport(store, 'app-1', dataImport.id)).resolves.toMatchObject({ removed: 2 });
+    expect(changes).toEqual(['delete:A', 'delete:B']);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * CSV Parsing
+ * RFC 4180 records: quoted fields may hold delimiters, doubled quotes and line
+ * breaks. The delimiter is detected from the header line, since spreadsheets
+ * saved in many locales use semicolons or tabs instead of commas.
+ */
+
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * The candidate delimiter that appears most often, outside quotes, in the first line
+ */
+export function detectDelimiter(text: string): string {
+  const counts = new Map(DELIMITERS.map(delimiter => [delimiter, 0]));
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+
+  let best = ',';
+  for (const [delimiter, count] of Array.from(counts)) {
+    if (count > counts.get(best)!) best = delimiter;
+  }
+  return best;
+}
+
+/**
+ * Split CSV text into rows of fields. Blank lines are dropped.
+ *
+ * @throws Error if a quoted field is never closed
+ */
+export function parseCsvRows(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    field = '';
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('A quoted value is never closed');
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
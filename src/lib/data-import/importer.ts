@@ -0,0 +1,219 @@
+/**
+ * Data Importer
+ * Validates mapped rows the same way single-record writes are validated, then
+ * inserts the valid ones in one transaction and remembers their ids so the
+ * whole import can be undone.
+ *
+ * Like other bulk inserts, imports don't emit change events; the import
+ * history is the record of what they added.
+ */
+
+import type { DataImport } from '@prisma/client';
+import prisma from '@/lib/db';
+import type { AppDataStore, DataCollection } from '@/lib/app-data/store';
+import { validateRecord } from '@/lib/app-data/validation';
+import {
+  DataImportError,
+  type ColumnMapping,
+  type DataImportInfo,
+  type ImportFormat,
+  type ImportRow,
+  type ImportRowError,
+  type ImportValidation,
+  type ParsedTable,
+} from './types';
+
+export interface DataImportSource {
+  appId: string;
+  userId: string;
+  fileName: string;
+  format: ImportFormat;
+  /** Data rows in the file, valid or not */
+  rowCount: number;
+}
+
+function toInfo(dataImport: DataImport): DataImportInfo {
+  return {
+    id: dataImport.id,
+    collection: dataImport.collection,
+    fileName: dataImport.fileName,
+    format: dataImport.format as ImportFormat,
+    rowCount: dataImport.rowCount,
+    inserted: dataImport.inserted,
+    skipped: dataImport.skipped,
+    undoneAt: dataImport.undoneAt,
+    createdAt: dataImport.createdAt,
+  };
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Coerce and check every row of a file against a collection. Besides each
+ * field's own rules, unique fields must not clash with existing records or
+ * other rows of the file, and references must point at existing records.
+ */
+export function validateImportRows(
+  store: AppDataStore,
+  collection: DataCollection,
+  table: ParsedTable,
+  mapping: ColumnMapping
+): ImportValidation {
+  const schema = collection.schema;
+  const mapped = Object.entries(mapping).filter((entry): entry is [string, string] => entry[1] !== null);
+  const uniqueFields = (schema?.fields || []).filter(field => field.unique && !field.primaryKey);
+  const foreignKeys = store.relations.foreignKeys.filter(key => key.collection === collection.name);
+  // Unique field → value → first row that has it
+  const seen = new Map(uniqueFields.map(field => [field.name, new Map<string, number>()]));
+
+  const valid: ImportRow[] = [];
+  const invalid: ImportRowError[] = [];
+
+  table.rows.forEach((source, index) => {
+    const row = index + 1;
+    const input: Record<string, unknown> = {};
+    const values: Record<string, unknown> = {};
+    for (const [column, field] of mapped) {
+      input[field] = source[column];
+      values[column] = source[column];
+    }
+
+    const { record, issues } = validateRecord(schema, input);
+    const failed = new Set(issues.map(item => item.path));
+
+    for (const field of uniqueFields) {
+      const value = record[field.name];
+      if (failed.has(field.name) || isEmpty(value)) continue;
+
+      const key = JSON.stringify(value);
+      const earlier = seen.get(field.name)!.get(key);
+      if (earlier !== undefined) {
+        issues.push({ path: field.name, code: 'unique', message: `${field.label} is the same as in row ${earlier}` });
+      } else if (collection.hasValue(field.name, value)) {
+        issues.push({ path: field.name, code: 'unique', message: `${field.label} must be unique` });
+      } else {
+        seen.get(field.name)!.set(key, row);
+      }
+    }
+
+    for (const key of foreignKeys) {
+      if (failed.has(key.field)) continue;
+      const value = record[key.field];
+      const ids = (Array.isArray(value) ? value : [value]).filter(id => !isEmpty(id));
+      const target = store.collection(key.target);
+      const missing = ids.find(id => !target.get(String(id)));
+      if (missing !== undefined) {
+        const label = target.schema?.label || target.name;
+        issues.push({ path: key.field, code: 'reference', message: `No ${label} with id "${missing}"` });
+      }
+    }
+
+    if (issues.length > 0) {
+      invalid.push({ row, values, issues });
+    } else {
+      valid.push({ row, record });
+    }
+  });
+
+  return { valid, invalid };
+}
+
+// ============================================================================
+// Commit and undo
+// ============================================================================
+
+/**
+ * Insert validated rows in one transaction and record the import
+ *
+ * @throws DataImportError with code NOTHING_TO_IMPORT if no row is valid
+ */
+export async function commitDataImport(
+  collection: DataCollection,
+  rows: ImportRow[],
+  source: DataImportSource
+): Promise<DataImportInfo> {
+  if (rows.length === 0) {
+    throw new DataImportError('None of the rows can be imported', 'NOTHING_TO_IMPORT');
+  }
+
+  const inserted = collection.insertMany(rows.map(row => row.record));
+
+  try {
+    const dataImport = await prisma.dataImport.create({
+      data: {
+        appId: source.appId,
+        userId: source.userId,
+        collection: collection.name,
+        fileName: source.fileName,
+        format: source.format,
+        rowCount: source.rowCount,
+        inserted: inserted.length,
+        skipped: source.rowCount - inserted.length,
+        recordIds: JSON.stringify(inserted.map(record => record.id)),
+      },
+    });
+    return toInfo(dataImport);
+  } catch (error) {
+    // Without the history row the records could never be undone, so take them back out
+    collection.deleteMany(inserted.map(record => record.id));
+    throw error;
+  }
+}
+
+/**
+ * Delete the records an import added, skipping any deleted since. Each is
+ * deleted as a normal delete would, so delete rules and change events apply;
+ * a restricted delete stops the undo and nothing is removed.
+ *
+ * @throws DataImportError with code NOT_FOUND or ALREADY_UNDONE
+ */
+export async function undoDataImport(
+  store: AppDataStore,
+  appId: string,
+  importId: string
+): Promise<{ dataImport: DataImportInfo; removed: number }> {
+  const dataImport = await prisma.dataImport.findFirst({ where: { id: importId, appId } });
+  if (!dataImport) {
+    throw new DataImportError('Import not found', 'NOT_FOUND');
+  }
+
+  // Claim the undo first, so two clicks can't both run it
+  const undoneAt = new Date();
+  const { count } = await prisma.dataImport.updateMany({
+    where: { id: importId, undoneAt: null },
+    data: { undoneAt },
+  });
+  if (count === 0) {
+    throw new DataImportError('This import was already undone', 'ALREADY_UNDONE');
+  }
+
+  let removed: number;
+  try {
+    const collection = store.collection(dataImport.collection);
+    const ids = JSON.parse(dataImport.recordIds) as string[];
+    removed = store.transaction(() => ids.filter(id => collection.delete(id)).length);
+  } catch (error) {
+    await prisma.dataImport.update({ where: { id: importId }, data: { undoneAt: null } });
+    throw error;
+  }
+
+  return { dataImport: toInfo({ ...dataImport, undoneAt }), removed };
+}
+
+/**
+ * An app's imports, newest first
+ */
+export async function listDataImports(appId: string, limit = 20): Promise<DataImportInfo[]> {
+  const imports = await prisma.dataImport.findMany({
+    where: { appId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+  return imports.map(toInfo);
+}
@@ -0,0 +1,47 @@
+/**
+ * Data Import Module Index
+ * CSV, JSON and XLSX files imported into an app's collections
+ */
+
+export {
+  detectImportFormat,
+  parseImportFile,
+} from './parse';
+
+export {
+  detectDelimiter,
+  parseCsvRows,
+} from './csv';
+
+export {
+  readXlsxRows,
+} from './xlsx';
+
+export {
+  importableFields,
+  suggestColumnMapping,
+  checkColumnMapping,
+} from './mapping';
+
+export {
+  validateImportRows,
+  commitDataImport,
+  undoDataImport,
+  listDataImports,
+  type DataImportSource,
+} from './importer';
+
+export {
+  IMPORT_FORMATS,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ROWS,
+  DataImportError,
+  type ImportFormat,
+  type ParsedTable,
+  type ColumnMapping,
+  type ImportRow,
+  type ImportRowError,
+  type ImportValidation,
+  type DataImportInfo,
+  type DataImportErrorCode,
+} from './types';
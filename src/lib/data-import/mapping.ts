@@ -0,0 +1,129 @@
+/**
+ * Column Mapping
+ * Matches a file's columns to a collection's fields. A column maps to a field
+ * when their names are alike and most of the column's values fit the field's
+ * type; the user can then change any pairing before importing.
+ */
+
+import { SYSTEM_COLUMNS } from '@/lib/app-data/store';
+import { coerceFieldValue } from '@/lib/app-data/validation';
+import type { FieldDefinition, Schema } from '@/lib/scaffolder-v2/types';
+import { DataImportError, type ColumnMapping, type ParsedTable } from './types';
+
+/** Rows sampled when checking how well a column fits a field type */
+const SAMPLE_ROWS = 50;
+
+/** Share of a column's sampled values that must coerce to a field's type */
+const TYPE_FIT_THRESHOLD = 0.5;
+
+/**
+ * Fields an import can fill: everything but system columns and generated values
+ */
+export function importableFields(schema: Schema | null): FieldDefinition[] {
+  return (schema?.fields || []).filter(field =>
+    !field.generated && !(SYSTEM_COLUMNS as readonly string[]).includes(field.name)
+  );
+}
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function singular(name: string): string {
+  return name.endsWith('s') ? name.slice(0, -1) : name;
+}
+
+/**
+ * 3 for the same name or label, 2 when they differ by a plural, 1 when one
+ * contains the other, 0 otherwise
+ */
+function nameScore(column: string, field: FieldDefinition): number {
+  const wanted = normalize(column);
+  if (!wanted) return 0;
+
+  let best = 0;
+  for (const candidate of [normalize(field.name), normalize(field.label)]) {
+    if (!candidate) continue;
+    if (candidate === wanted) return 3;
+    if (singular(candidate) === singular(wanted)) best = Math.max(best, 2);
+    else if (Math.min(candidate.length, wanted.length) >= 3 && (candidate.includes(wanted) || wanted.includes(candidate))) {
+      best = Math.max(best, 1);
+    }
+  }
+  return best;
+}
+
+/**
+ * Share of the column's non-empty sampled values that coerce to the field's
+ * type; 1 when the sample is all empty
+ */
+function typeFit(table: ParsedTable, column: string, field: FieldDefinition): number {
+  const values = table.rows
+    .slice(0, SAMPLE_ROWS)
+    .map(row => row[column])
+    .filter(value => value !== null && value !== undefined && value !== '');
+  if (values.length === 0) return 1;
+
+  return values.filter(value => coerceFieldValue(field, value) !== undefined).length / values.length;
+}
+
+/**
+ * Propose a field for each column. The best-scoring pairs are taken first and
+ * each field is used at most once; columns without a match are left out.
+ */
+export function suggestColumnMapping(table: ParsedTable, schema: Schema | null): ColumnMapping {
+  const fields = importableFields(schema);
+  const candidates: Array<{ column: string; field: string; score: number }> = [];
+
+  for (const column of table.columns) {
+    for (const field of fields) {
+      const byName = nameScore(column, field);
+      if (byName === 0) continue;
+      const fit = typeFit(table, column, field);
+      if (fit < TYPE_FIT_THRESHOLD) continue;
+      candidates.push({ column, field: field.name, score: byName + fit });
+    }
+  }
+
+  const mapping: ColumnMapping = Object.fromEntries(table.columns.map(column => [column, null]));
+  const used = new Set<string>();
+  for (const candidate of candidates.sort((a, b) => b.score - a.score)) {
+    if (mapping[candidate.column] !== null || used.has(candidate.field)) continue;
+    mapping[candidate.column] = candidate.field;
+    used.add(candidate.field);
+  }
+
+  return mapping;
+}
+
+/**
+ * Check a user-edited mapping against the file and the collection.
+ * Columns it leaves out are skipped.
+ *
+ * @throws DataImportError with code INVALID_MAPPING
+ */
+export function checkColumnMapping(table: ParsedTable, schema: Schema | null, mapping: ColumnMapping): ColumnMapping {
+  const fields = new Set(importableFields(schema).map(field => field.name));
+  const checked: ColumnMapping = Object.fromEntries(table.columns.map(column => [column, null]));
+  const used = new Set<string>();
+
+  for (const [column, field] of Object.entries(mapping)) {
+    if (!table.columns.includes(column)) {
+      throw new DataImportError(`The file has no column "${column}"`, 'INVALID_MAPPING');
+    }
+    if (field === null || field === '') continue;
+    if (!fields.has(field)) {
+      throw new DataImportError(`"${field}" is not a field that can be imported`, 'INVALID_MAPPING');
+    }
+    if (used.has(field)) {
+      throw new DataImportError(`More than one column is mapped to "${field}"`, 'INVALID_MAPPING');
+    }
+    used.add(field);
+    checked[column] = field;
+  }
+
+  if (used.size === 0) {
+    throw new DataImportError('Map at least one column to a field', 'INVALID_MAPPING');
+  }
+  return checked;
+}
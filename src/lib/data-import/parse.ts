@@ -0,0 +1,158 @@
+/**
+ * Import File Parsing
+ * Turns an uploaded CSV, JSON or XLSX file into a header row and row objects
+ */
+
+import { parseCsvRows } from './csv';
+import { readXlsxRows } from './xlsx';
+import {
+  DataImportError,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ROWS,
+  type ImportFormat,
+  type ParsedTable,
+} from './types';
+
+const EXTENSIONS: Record<string, ImportFormat> = {
+  csv: 'csv',
+  tsv: 'csv',
+  txt: 'csv',
+  json: 'json',
+  xlsx: 'xlsx',
+};
+
+const CONTENT_TYPES: Record<string, ImportFormat> = {
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'csv',
+  'application/json': 'json',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+};
+
+/**
+ * Work out a file's format from its extension, falling back to its content type
+ */
+export function detectImportFormat(fileName: string, contentType?: string | null): ImportFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return EXTENSIONS[extension] || CONTENT_TYPES[(contentType || '').split(';')[0].trim()] || null;
+}
+
+/**
+ * Header names for a table: blanks get their column letter and repeats a
+ * counter, so every column can be mapped on its own
+ */
+function headerNames(cells: unknown[], width: number): string[] {
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, index) => {
+    const cell = cells[index];
+    let name = cell === null || cell === undefined ? '' : String(cell).trim();
+    if (!name) name = `Column ${columnLetter(index)}`;
+
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name} (${count})`;
+  });
+}
+
+function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/**
+ * The first row is the header; the rest become objects keyed by it
+ */
+function fromGrid(format: ImportFormat, grid: unknown[][]): ParsedTable {
+  if (grid.length === 0) {
+    throw new DataImportError('The file has no rows', 'EMPTY_FILE');
+  }
+
+  const width = Math.max(...grid.map(row => row.length));
+  const columns = headerNames(grid[0], width);
+  const rows = grid.slice(1).map(cells => {
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      row[column] = cells[index] ?? null;
+    });
+    return row;
+  });
+
+  return { format, columns, rows };
+}
+
+/**
+ * JSON imports are an array of objects, or an object holding one (as our own
+ * data API returns under `data`)
+ */
+function fromJson(text: string): ParsedTable {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+  } catch {
+    throw new DataImportError('The file is not valid JSON', 'PARSE_FAILED');
+  }
+
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+    const container = parsed as Record<string, unknown>;
+    parsed = ['data', 'records', 'rows', 'items'].map(key => container[key]).find(Array.isArray)
+      ?? Object.values(container).find(Array.isArray);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new DataImportError('Expected a JSON array of records', 'PARSE_FAILED');
+  }
+
+  const rows = parsed.filter((item): item is Record<string, unknown> =>
+    item !== null && typeof item === 'object' && !Array.isArray(item)
+  );
+  if (rows.length !== parsed.length) {
+    throw new DataImportError('Every item in the JSON array must be an object', 'PARSE_FAILED');
+  }
+
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+
+  return { format: 'json', columns, rows };
+}
+
+/**
+ * Parse an uploaded file
+ *
+ * @throws DataImportError if it is too large, unreadable, empty or has too many rows
+ */
+export function parseImportFile(buffer: Buffer, format: ImportFormat): ParsedTable {
+  if (buffer.length > MAX_IMPORT_BYTES) {
+    throw new DataImportError(`Files can be up to ${MAX_IMPORT_BYTES / (1024 * 1024)} MB`, 'FILE_TOO_LARGE');
+  }
+
+  let table: ParsedTable;
+  if (format === 'json') {
+    table = fromJson(buffer.toString('utf8'));
+  } else {
+    let grid: unknown[][];
+    try {
+      grid = format === 'xlsx' ? readXlsxRows(buffer) : parseCsvRows(buffer.toString('utf8'));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new DataImportError(`Could not read the file: ${reason}`, 'PARSE_FAILED');
+    }
+    table = fromGrid(format, grid);
+  }
+
+  if (table.rows.length === 0) {
+    throw new DataImportError('The file has no data rows', 'EMPTY_FILE');
+  }
+  if (table.rows.length > MAX_IMPORT_ROWS) {
+    throw new DataImportError(
+      `Files can have up to ${MAX_IMPORT_ROWS.toLocaleString('en-US')} rows; this one has ${table.rows.length.toLocaleString('en-US')}`,
+      'TOO_MANY_ROWS'
+    );
+  }
+
+  return table;
+}
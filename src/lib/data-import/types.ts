@@ -0,0 +1,109 @@
+/**
+ * Data Import Types
+ * Spreadsheet and JSON files parsed into rows, mapped onto a collection's
+ * fields, and committed as one undoable batch
+ */
+
+import type { AppDataIssue } from '@/lib/app-data/store';
+
+export type ImportFormat = 'csv' | 'json' | 'xlsx';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'json', 'xlsx'];
+
+/** Largest file accepted */
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+/** Most data rows accepted from one file */
+export const MAX_IMPORT_ROWS = 10000;
+
+/**
+ * A parsed file: its column headers and one object per data row, keyed by header
+ */
+export interface ParsedTable {
+  format: ImportFormat;
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * Column header → field name it fills, or null to leave the column out
+ */
+export type ColumnMapping = Record<string, string | null>;
+
+/**
+ * A row that would be imported, with its values coerced to the field types
+ */
+export interface ImportRow {
+  /** 1-based position among the file's data rows */
+  row: number;
+  record: Record<string, unknown>;
+}
+
+/**
+ * A row that fails validation and would be skipped
+ */
+export interface ImportRowError {
+  row: number;
+  /** The row's values for the mapped columns, as they are in the file */
+  values: Record<string, unknown>;
+  issues: AppDataIssue[];
+}
+
+export interface ImportValidation {
+  valid: ImportRow[];
+  invalid: ImportRowError[];
+}
+
+/**
+ * A finished import, as listed in the app's import history
+ */
+export interface DataImportInfo {
+  id: string;
+  collection: string;
+  fileName: string;
+  format: ImportFormat;
+  rowCount: number;
+  inserted: number;
+  skipped: number;
+  undoneAt: Date | null;
+  createdAt: Date;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type DataImportErrorCode =
+  | 'UNSUPPORTED_FORMAT'
+  | 'FILE_TOO_LARGE'
+  | 'PARSE_FAILED'
+  | 'EMPTY_FILE'
+  | 'TOO_MANY_ROWS'
+  | 'INVALID_MAPPING'
+  | 'NOTHING_TO_IMPORT'
+  | 'NOT_FOUND'
+  | 'ALREADY_UNDONE';
+
+export class DataImportError extends Error {
+  public readonly code: DataImportErrorCode;
+
+  constructor(message: string, code: DataImportErrorCode) {
+    super(message);
+    this.name = 'DataImportError';
+    this.code = code;
+  }
+
+  /** HTTP status for API responses */
+  get status(): number {
+    switch (this.code) {
+      case 'FILE_TOO_LARGE':
+        return 413;
+      case 'NOT_FOUND':
+        return 404;
+      case 'ALREADY_UNDONE':
+        return 409;
+      default:
+        return 400;
+    }
+  }
+}
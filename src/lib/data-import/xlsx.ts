@@ -0,0 +1,218 @@
+/**
+ * XLSX Reading
+ * An .xlsx workbook is a zip of XML parts. This reads the first worksheet's
+ * cell values, resolving shared strings and turning date-formatted serial
+ * numbers into ISO dates. Formulas come back as their cached results.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+/** Upper bound on a decompressed part, so a small zip can't expand without limit */
+const MAX_PART_BYTES = 64 * 1024 * 1024;
+
+// Built-in number formats that display dates or times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+/** Days between the spreadsheet epoch (1899-12-30) and 1970-01-01 */
+const EPOCH_OFFSET_DAYS = 25569;
+
+// ============================================================================
+// Zip
+// ============================================================================
+
+function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  // The end-of-central-directory record sits in the last 64 KB + 22 bytes
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not an .xlsx file');
+  }
+
+  const entries = new Map<string, Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let n = 0; n < count; n++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('The .xlsx file is damaged');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      entries.set(name, inflateRawSync(data, { maxOutputLength: MAX_PART_BYTES }));
+    }
+  }
+
+  return entries;
+}
+
+// ============================================================================
+// XML
+// ============================================================================
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1].toLowerCase() === 'x'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10));
+    }
+  });
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes);
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/** The text of every <t> element inside a fragment, joined (rich text has one per run) */
+function textContent(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+}
+
+// ============================================================================
+// Workbook parts
+// ============================================================================
+
+function part(entries: Map<string, Buffer>, name: string): string | null {
+  return entries.get(name)?.toString('utf8') ?? null;
+}
+
+function firstSheetPath(entries: Map<string, Buffer>): string {
+  const workbook = part(entries, 'xl/workbook.xml') || '';
+  const relations = part(entries, 'xl/_rels/workbook.xml.rels') || '';
+  const sheet = /<sheet\s([^>]*)\/?>/.exec(workbook);
+  const relationId = sheet && attribute(sheet[1], 'r:id');
+
+  for (const match of Array.from(relations.matchAll(/<Relationship\s([^>]*)\/?>/g))) {
+    if (attribute(match[1], 'Id') !== relationId) continue;
+    const target = attribute(match[1], 'Target') || '';
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+  return 'xl/worksheets/sheet1.xml';
+}
+
+function sharedStrings(entries: Map<string, Buffer>): string[] {
+  const xml = part(entries, 'xl/sharedStrings.xml') || '';
+  return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g), match => textContent(match[1]));
+}
+
+/**
+ * Which cell style indexes display their number as a date
+ */
+function dateStyles(entries: Map<string, Buffer>): Set<number> {
+  const xml = part(entries, 'xl/styles.xml') || '';
+  const dateFormats = new Set(DATE_FORMAT_IDS);
+  for (const match of Array.from(xml.matchAll(/<numFmt\s([^>]*)\/?>/g))) {
+    // Quoted literals and [colours] aside, a format showing d, m, y, h or s is a date
+    const code = (attribute(match[1], 'formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+    if (/[dmyhs]/i.test(code)) dateFormats.add(Number(attribute(match[1], 'numFmtId')));
+  }
+
+  const styles = new Set<number>();
+  const cellXfs = /<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/.exec(xml)?.[1] || '';
+  Array.from(cellXfs.matchAll(/<xf\s([^>]*?)\/?>/g)).forEach((match, index) => {
+    if (dateFormats.has(Number(attribute(match[1], 'numFmtId')))) styles.add(index);
+  });
+  return styles;
+}
+
+function serialToDate(serial: number): string {
+  const iso = new Date(Math.round((serial - EPOCH_OFFSET_DAYS) * 86400000)).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso;
+}
+
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '').toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// ============================================================================
+// Sheet
+// ============================================================================
+
+/**
+ * Read the first worksheet of an .xlsx file into rows of cell values.
+ * Empty rows are dropped; missing cells are null.
+ *
+ * @throws Error if the file is not a readable workbook
+ */
+export function readXlsxRows(buffer: Buffer): unknown[][] {
+  const entries = readZipEntries(buffer);
+  const sheet = part(entries, firstSheetPath(entries));
+  if (sheet === null) {
+    throw new Error('The workbook has no worksheets');
+  }
+
+  const strings = sharedStrings(entries);
+  const dates = dateStyles(entries);
+  const rows: unknown[][] = [];
+
+  for (const rowMatch of Array.from(sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g))) {
+    const row: unknown[] = [];
+
+    for (const cell of Array.from((rowMatch[1] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const attributes = cell[1];
+      const content = cell[2] || '';
+      const reference = attribute(attributes, 'r');
+      const index = reference ? columnIndex(reference) : row.length;
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(content)?.[1];
+
+      let value: unknown = null;
+      switch (attribute(attributes, 't')) {
+        case 's':
+          value = raw === undefined ? null : strings[Number(raw)] ?? null;
+          break;
+        case 'inlineStr':
+          value = textContent(content);
+          break;
+        case 'str':
+          value = raw === undefined ? null : decodeXml(raw);
+          break;
+        case 'b':
+          value = raw === undefined ? null : raw === '1';
+          break;
+        case 'e':
+          value = null;
+          break;
+        default:
+          if (raw !== undefined && raw !== '') {
+            const number = Number(raw);
+            value = dates.has(Number(attribute(attributes, 's'))) ? serialToDate(number) : number;
+          }
+      }
+
+      while (row.length < index) row.push(null);
+      row[index] = value;
+    }
+
+    if (row.some(value => value !== null && value !== '')) rows.push(row);
+  }
+
+  return rows;
+}
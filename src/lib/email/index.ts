@@ -0,0 +1,14 @@
+/**
+ * Email delivery through a pluggable transport, the local outbox by default
+ */
+
+export { sendEmail, setMailTransport, getMailTransport } from './transport';
+
+export {
+  outboxTransport,
+  listOutbox,
+  outboxDir,
+  appBaseUrl,
+} from './outbox';
+
+export type { EmailMessage, SentEmail, MailTransport } from './types';
@@ -0,0 +1,68 @@
+/**
+ * Email Outbox
+ * Transport for local development: every message is written as a JSON file
+ * to a local outbox directory, where it can be opened
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EmailMessage, MailTransport, SentEmail } from './types';
+
+/**
+ * Directory messages are written to; EMAIL_OUTBOX_DIR overrides the default
+ * `.outbox` in the project root
+ */
+export function outboxDir(): string {
+  return process.env.EMAIL_OUTBOX_DIR || path.resolve(process.cwd(), '.outbox');
+}
+
+/**
+ * Base URL for links in emails
+ */
+export function appBaseUrl(): string {
+  return (process.env.NEXTAUTH_URL || 'http://localhost:1000').replace(/\/$/, '');
+}
+
+/**
+ * "Send" an email by writing it to the outbox
+ */
+async function writeToOutbox(message: EmailMessage): Promise<SentEmail> {
+  const id = randomUUID();
+  const sentAt = new Date().toISOString();
+  const dir = outboxDir();
+  const file = path.join(dir, `${sentAt.replace(/[:.]/g, '-')}-${id}.json`);
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(file, JSON.stringify({ id, sentAt, ...message }, null, 2));
+
+  if (process.env.NODE_ENV !== 'test') {
+    console.log(`[Email] "${message.subject}" to ${message.to} written to ${file}`);
+  }
+
+  return { id, sentAt, path: file, ...message };
+}
+
+export const outboxTransport: MailTransport = {
+  name: 'outbox',
+  send: writeToOutbox,
+};
+
+/**
+ * Messages in the outbox, newest first
+ */
+export async function listOutbox(): Promise<SentEmail[]> {
+  const dir = outboxDir();
+  const files = await fs.readdir(dir).catch(() => [] as string[]);
+
+  const messages = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(async file => {
+        const content = JSON.parse(await fs.readFile(path.join(dir, file), 'utf8'));
+        return { ...content, path: path.join(dir, file) } as SentEmail;
+      })
+  );
+
+  return messages.sort((a, b) => b.sentAt.localeCompare(a.sentAt));
+}
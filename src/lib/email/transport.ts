@@ -0,0 +1,25 @@
+/**
+ * Mail Transport
+ * Picks how messages are delivered. Deployments with a mail provider register
+ * a transport for it at startup; everything else goes to the local outbox.
+ */
+
+import { outboxTransport } from './outbox';
+import type { EmailMessage, MailTransport, SentEmail } from './types';
+
+let transport: MailTransport | null = null;
+
+/**
+ * Register the transport used by `sendEmail`; null restores the outbox
+ */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
+
+export function getMailTransport(): MailTransport {
+  return transport ?? outboxTransport;
+}
+
+export async function sendEmail(message: EmailMessage): Promise<SentEmail> {
+  return getMailTransport().send(message);
+}
@@ -0,0 +1,26 @@
+/**
+ * Email Types
+ */
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SentEmail extends EmailMessage {
+  id: string;
+  sentAt: string;
+  /** File the message was written to, for the outbox transport */
+  path?: string;
+}
+
+/**
+ * Delivers messages. The outbox transport is used unless another one is
+ * registered with `setMailTransport`.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<SentEmail>;
+}
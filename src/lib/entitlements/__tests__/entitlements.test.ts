@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Entitlement Tests
+ * Tests for plan quotas, feature checks and the denial sent to the UI
+ */
+
+import {
+  assertCanAddRecords,
+  assertCanCreateApp,
+  assertCanHostAlwaysOn,
+  assertCanUseProvider,
+  EntitlementError,
+  entitlementErrorResponse,
+  hostsAlwaysOn,
+  isEntitlementErrorBody,
+  PLAN_ENTITLEMENTS,
+  providerForPlan,
+  startGeneration,
+  upgradeFor,
+} from '..';
+
+const users: Record<string, { plan: string; subscriptionStatus: string | null }> = {};
+const appCounts: Record<string, number> = {};
+const generations: Array<{ userId: string; kind: string; createdAt: Date }> = [];
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    user: {
+      findUnique: async ({ where }: any) => users[where.id] ?? null,
+    },
+    app: {
+      count: async ({ where }: any) => appCounts[where.userId] ?? 0,
+    },
+    generation: {
+      count: async ({ where }: any) =>
+        generations.filter(g => g.userId === where.userId && g.createdAt >= where.createdAt.gte).length,
+      create: async ({ data }: any) => {
+        const generation = { ...data, createdAt: new Date() };
+        generations.push(generation);
+        return generation;
+      },
+    },
+  },
+}));
+
+async function denial(promise: Promise<unknown> | (() => void)): Promise<EntitlementError> {
+  try {
+    await (typeof promise === 'function' ? promise() : promise);
+  } catch (error) {
+    if (error instanceof EntitlementError) return error;
+    throw error;
+  }
+  throw new Error('Expected an EntitlementError');
+}
+
+beforeEach(() => {
+  for (const key of Object.keys(users)) delete users[key];
+  for (const key of Object.keys(appCounts)) delete appCounts[key];
+  generations.length = 0;
+  users.free = { plan: 'FREE', subscriptionStatus: 'ACTIVE' };
+  users.plus = { plan: 'PLUS', subscriptionStatus: 'ACTIVE' };
+  users.lapsed = { plan: 'PRO', subscriptionStatus: 'CANCELED' };
+});
+
+describe('quotas', () => {
+  it('should refuse apps past the limit with a 402 and the plan that lifts it', async () => {
+    appCounts.free = PLAN_ENTITLEMENTS.FREE.maxApps!;
+    const error = await denial(assertCanCreateApp('free'));
+
+    expect(error.status).toBe(402);
+    expect(error.denial).toMatchObject({ code: 'APP_LIMIT', plan: 'FREE', limit: 50, used: 50, upgradeTo: 'PLUS' });
+    expect(error.message).toContain('Upgrade to Plus');
+
+    appCounts.plus = 500;
+    await expect(assertCanCreateApp('plus')).resolves.toBeUndefined();
+  });
+
+  it('should count records against the owner plan, including a batch being added', async () => {
+    await expect(assertCanAddRecords('free', 999)).resolves.toBeUndefined();
+    expect((await denial(assertCanAddRecords('free', 1000))).denial.upgradeTo).toBe('PLUS');
+    // A batch too large for Plus needs Pro
+    expect((await denial(assertCanAddRecords('free', 0, 60_000))).denial.upgradeTo).toBe('PRO');
+  });
+
+  it('should count generations per day and stop at the quota', async () => {
+    const limit = PLAN_ENTITLEMENTS.FREE.generationsPerDay!;
+    for (let i = 0; i < limit; i++) {
+      await startGeneration('free', 'build');
+    }
+    expect(generations).toHaveLength(limit);
+
+    const error = await denial(startGeneration('free', 'regenerate'));
+    expect(error.denial).toMatchObject({ code: 'GENERATION_LIMIT', used: limit });
+    expect(new Date(error.denial.resetsAt!).getTime()).toBeGreaterThan(Date.now());
+    expect(generations).toHaveLength(limit);
+
+    generations.forEach(g => (g.createdAt = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)));
+    await expect(startGeneration('free', 'build')).resolves.toBeUndefined();
+  });
+
+  it('should check the app limit before counting a build that creates an app', async () => {
+    appCounts.free = 50;
+    expect((await denial(startGeneration('free', 'build', { createsApp: true }))).code).toBe('APP_LIMIT');
+    expect(generations).toHaveLength(0);
+  });
+});
+
+describe('features', () => {
+  it('should answer 403 for features outside the plan', async () => {
+    const error = await denial(assertCanHostAlwaysOn('plus'));
+    expect(error.status).toBe(403);
+    expect(error.denial).toMatchObject({ code: 'ALWAYS_ON_NOT_INCLUDED', upgradeTo: 'PRO' });
+
+    expect((await denial(() => assertCanUseProvider('FREE', 'openrouter'))).denial.upgradeTo).toBe('PLUS');
+    expect(() => assertCanUseProvider('FREE', 'deepseek')).not.toThrow();
+  });
+
+  it('should apply Free limits once a subscription has lapsed', async () => {
+    expect((await denial(assertCanHostAlwaysOn('lapsed'))).denial.plan).toBe('FREE');
+    expect(hostsAlwaysOn({ isAlwaysOn: true, user: users.lapsed })).toBe(false);
+    expect(hostsAlwaysOn({ isAlwaysOn: true, user: { plan: 'PRO', subscriptionStatus: 'PAST_DUE' } })).toBe(true);
+  });
+
+  it('should fall back to default routing for providers the plan does not include', () => {
+    expect(providerForPlan('FREE', 'openrouter')).toBeUndefined();
+    expect(providerForPlan('FREE', 'deepseek')).toBe('deepseek');
+    expect(providerForPlan('PLUS', 'openrouter')).toBe('openrouter');
+  });
+
+  it('should have no upgrade once on the top plan', () => {
+    expect(upgradeFor('PRO', () => true)).toBeNull();
+  });
+});
+
+describe('entitlementErrorResponse', () => {
+  it('should send the message, code and denial with the error status', async () => {
+    const response = entitlementErrorResponse(await denial(assertCanHostAlwaysOn('free')));
+    const body = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(isEntitlementErrorBody(body)).toBe(true);
+    expect(body).toMatchObject({
+      code: 'ALWAYS_ON_NOT_INCLUDED',
+      entitlement: { plan: 'FREE', upgradeTo: 'PRO', upgradeUrl: '/profile' },
+    });
+    expect(isEntitlementErrorBody({ error: 'Nope' })).toBe(false);
+  });
+});
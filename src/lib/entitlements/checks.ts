@@ -0,0 +1,158 @@
+/**
+ * Entitlement Checks
+ * Compare a request against the caller's plan and throw an EntitlementError
+ * with an upgrade hint when it goes past it
+ */
+
+import prisma from '@/lib/db';
+import { effectivePlan, getUserPlan } from '@/lib/billing/plans';
+import type { Plan, UserSubscription } from '@/lib/billing/types';
+import { canUseProvider, getPlanEntitlements, upgradeFor, UPGRADE_URL, withinLimit } from './limits';
+import {
+  EntitlementError,
+  PLAN_NAMES,
+  type EntitlementCode,
+  type EntitlementDenial,
+  type GenerationKind,
+  type PlanEntitlements,
+} from './types';
+
+function deny(
+  message: string,
+  code: EntitlementCode,
+  plan: Plan,
+  allows: (entitlements: PlanEntitlements) => boolean,
+  details: Pick<EntitlementDenial, 'limit' | 'used' | 'resetsAt'> = {}
+): EntitlementError {
+  const upgradeTo = upgradeFor(plan, allows);
+  const hint = upgradeTo ? ` Upgrade to ${PLAN_NAMES[upgradeTo]} to continue.` : '';
+  return new EntitlementError(`${message}${hint}`, {
+    code,
+    plan,
+    ...details,
+    upgradeTo,
+    upgradeUrl: UPGRADE_URL,
+  });
+}
+
+/**
+ * Start of the current day for daily quotas (UTC)
+ */
+export function currentDayStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export async function getEntitlements(userId: string): Promise<{ plan: Plan; entitlements: PlanEntitlements }> {
+  const plan = await getUserPlan(userId);
+  return { plan, entitlements: getPlanEntitlements(plan) };
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+export async function assertCanCreateApp(userId: string): Promise<void> {
+  const { plan, entitlements } = await getEntitlements(userId);
+  if (entitlements.maxApps === null) return;
+
+  const used = await prisma.app.count({ where: { userId } });
+  if (!withinLimit(entitlements.maxApps, used)) {
+    throw deny(
+      `The ${PLAN_NAMES[plan]} plan includes up to ${entitlements.maxApps} apps.`,
+      'APP_LIMIT',
+      plan,
+      next => next.maxApps === null || next.maxApps > used,
+      { limit: entitlements.maxApps, used }
+    );
+  }
+}
+
+/**
+ * Check that an app whose owner is `ownerId`, holding `used` records, can take
+ * `adding` more
+ */
+export async function assertCanAddRecords(ownerId: string, used: number, adding = 1): Promise<void> {
+  const { plan, entitlements } = await getEntitlements(ownerId);
+  if (!withinLimit(entitlements.maxRecordsPerApp, used, adding)) {
+    throw deny(
+      `Apps on the ${PLAN_NAMES[plan]} plan hold up to ${entitlements.maxRecordsPerApp!.toLocaleString('en-US')} records.`,
+      'RECORD_LIMIT',
+      plan,
+      next => withinLimit(next.maxRecordsPerApp, used, adding),
+      { limit: entitlements.maxRecordsPerApp!, used }
+    );
+  }
+}
+
+export async function assertCanHostAlwaysOn(ownerId: string): Promise<void> {
+  const { plan, entitlements } = await getEntitlements(ownerId);
+  if (!entitlements.alwaysOnHosting) {
+    throw deny(
+      `Always-on hosting is not included in the ${PLAN_NAMES[plan]} plan.`,
+      'ALWAYS_ON_NOT_INCLUDED',
+      plan,
+      next => next.alwaysOnHosting
+    );
+  }
+}
+
+export function assertCanUseProvider(plan: Plan, provider: string): void {
+  if (!canUseProvider(plan, provider)) {
+    throw deny(
+      `Choosing the ${provider} provider is not included in the ${PLAN_NAMES[plan]} plan.`,
+      'PROVIDER_NOT_INCLUDED',
+      plan,
+      next => next.allowedProviders === null || next.allowedProviders.includes(provider)
+    );
+  }
+}
+
+/**
+ * Check the daily generation quota (and the app limit, for builds that create
+ * an app), then count this generation against it
+ */
+export async function startGeneration(
+  userId: string,
+  kind: GenerationKind,
+  options: { createsApp?: boolean; conversationId?: string | null; appId?: string | null } = {}
+): Promise<void> {
+  if (options.createsApp) {
+    await assertCanCreateApp(userId);
+  }
+
+  const { plan, entitlements } = await getEntitlements(userId);
+  if (entitlements.generationsPerDay !== null) {
+    const dayStart = currentDayStart();
+    const used = await prisma.generation.count({ where: { userId, createdAt: { gte: dayStart } } });
+    if (!withinLimit(entitlements.generationsPerDay, used)) {
+      throw deny(
+        `The ${PLAN_NAMES[plan]} plan includes ${entitlements.generationsPerDay} generations a day.`,
+        'GENERATION_LIMIT',
+        plan,
+        next => withinLimit(next.generationsPerDay, used),
+        {
+          limit: entitlements.generationsPerDay,
+          used,
+          resetsAt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+        }
+      );
+    }
+  }
+
+  await prisma.generation.create({
+    data: {
+      userId,
+      kind,
+      conversationId: options.conversationId ?? null,
+      appId: options.appId ?? null,
+    },
+  });
+}
+
+/**
+ * Whether a hosted app should stay running while idle: it is flagged always-on
+ * and its owner's plan still includes that
+ */
+export function hostsAlwaysOn(app: { isAlwaysOn: boolean; user: UserSubscription } | null | undefined): boolean {
+  return Boolean(app?.isAlwaysOn) && getPlanEntitlements(effectivePlan(app?.user)).alwaysOnHosting;
+}
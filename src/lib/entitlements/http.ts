@@ -0,0 +1,14 @@
+/**
+ * Entitlement Responses
+ * The one shape every route uses to report a plan limit
+ */
+
+import { NextResponse } from 'next/server';
+import type { EntitlementError, EntitlementErrorBody } from './types';
+
+export function entitlementErrorResponse(error: EntitlementError): NextResponse<EntitlementErrorBody> {
+  return NextResponse.json(
+    { error: error.message, code: error.code, entitlement: error.denial },
+    { status: error.status }
+  );
+}
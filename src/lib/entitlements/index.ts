@@ -0,0 +1,40 @@
+/**
+ * Entitlements Module Index
+ * Plan quotas and features, checked by every route that creates apps,
+ * records or generations, hosts apps, or picks an LLM provider
+ */
+
+export {
+  PLAN_ENTITLEMENTS,
+  UPGRADE_URL,
+  getPlanEntitlements,
+  withinLimit,
+  upgradeFor,
+  canUseProvider,
+  providerForPlan,
+} from './limits';
+
+export {
+  currentDayStart,
+  getEntitlements,
+  assertCanCreateApp,
+  assertCanAddRecords,
+  assertCanHostAlwaysOn,
+  assertCanUseProvider,
+  startGeneration,
+  hostsAlwaysOn,
+} from './checks';
+
+export { entitlementErrorResponse } from './http';
+
+export {
+  PLAN_NAMES,
+  QUOTA_CODES,
+  EntitlementError,
+  isEntitlementErrorBody,
+  type PlanEntitlements,
+  type GenerationKind,
+  type EntitlementCode,
+  type EntitlementDenial,
+  type EntitlementErrorBody,
+} from './types';
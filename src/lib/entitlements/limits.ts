@@ -0,0 +1,66 @@
+/**
+ * Plan Entitlements
+ * The limits behind the tiers on the pricing page
+ */
+
+import { PLANS, type Plan } from '@/lib/billing/types';
+import type { PlanEntitlements } from './types';
+
+export const PLAN_ENTITLEMENTS: Record<Plan, PlanEntitlements> = {
+  FREE: {
+    maxApps: 50,
+    maxRecordsPerApp: 1_000,
+    alwaysOnHosting: false,
+    generationsPerDay: 10,
+    allowedProviders: ['auto', 'deepseek'],
+  },
+  PLUS: {
+    maxApps: null,
+    maxRecordsPerApp: 50_000,
+    alwaysOnHosting: false,
+    generationsPerDay: 100,
+    allowedProviders: null,
+  },
+  PRO: {
+    maxApps: null,
+    maxRecordsPerApp: null,
+    alwaysOnHosting: true,
+    generationsPerDay: null,
+    allowedProviders: null,
+  },
+};
+
+/** Where denials send users to upgrade */
+export const UPGRADE_URL = '/profile';
+
+export function getPlanEntitlements(plan: Plan): PlanEntitlements {
+  return PLAN_ENTITLEMENTS[plan];
+}
+
+/**
+ * Whether `used + adding` stays within a limit (null is unlimited)
+ */
+export function withinLimit(limit: number | null, used: number, adding = 1): boolean {
+  return limit === null || used + adding <= limit;
+}
+
+/**
+ * The cheapest plan above `plan` whose entitlements pass `allows`
+ */
+export function upgradeFor(plan: Plan, allows: (entitlements: PlanEntitlements) => boolean): Plan | null {
+  return PLANS.slice(PLANS.indexOf(plan) + 1).find(candidate => allows(PLAN_ENTITLEMENTS[candidate])) ?? null;
+}
+
+export function canUseProvider(plan: Plan, provider: string): boolean {
+  const allowed = PLAN_ENTITLEMENTS[plan].allowedProviders;
+  return allowed === null || allowed.includes(provider);
+}
+
+/**
+ * A stored provider preference, dropped back to default routing when the
+ * plan no longer allows it (e.g. after a downgrade)
+ */
+export function providerForPlan<T extends string>(plan: Plan, provider: T | null | undefined): T | undefined {
+  if (!provider) return undefined;
+  return canUseProvider(plan, provider) ? provider : undefined;
+}
@@ -0,0 +1,90 @@
+/**
+ * Entitlement Types
+ * What each plan allows, and the denial the API returns when a request goes
+ * past it. Free of server imports so client components can read denials.
+ */
+
+import type { Plan } from '@/lib/billing/types';
+
+/** Plan names as shown to users */
+export const PLAN_NAMES: Record<Plan, string> = { FREE: 'Free', PLUS: 'Plus', PRO: 'Pro' };
+
+export interface PlanEntitlements {
+  /** Apps a user can own; null for no limit */
+  maxApps: number | null;
+  /** Records across all collections of one app; null for no limit */
+  maxRecordsPerApp: number | null;
+  /** Keep hosted apps running instead of sleeping them when idle */
+  alwaysOnHosting: boolean;
+  /** App builds and code regenerations per UTC day; null for no limit */
+  generationsPerDay: number | null;
+  /** LLM providers a user may pick as their preference; null for any */
+  allowedProviders: string[] | null;
+}
+
+/** What started a generation, for the daily count */
+export type GenerationKind = 'build' | 'regenerate' | 'design';
+
+/**
+ * - APP_LIMIT, RECORD_LIMIT, GENERATION_LIMIT: a quota is used up (402)
+ * - ALWAYS_ON_NOT_INCLUDED, PROVIDER_NOT_INCLUDED: the plan lacks the feature (403)
+ */
+export type EntitlementCode =
+  | 'APP_LIMIT'
+  | 'RECORD_LIMIT'
+  | 'GENERATION_LIMIT'
+  | 'ALWAYS_ON_NOT_INCLUDED'
+  | 'PROVIDER_NOT_INCLUDED';
+
+export const QUOTA_CODES: EntitlementCode[] = ['APP_LIMIT', 'RECORD_LIMIT', 'GENERATION_LIMIT'];
+
+/**
+ * Sent as `entitlement` in 402/403 responses so the UI can offer an upgrade
+ */
+export interface EntitlementDenial {
+  code: EntitlementCode;
+  plan: Plan;
+  /** The quota that was hit, for quota codes */
+  limit?: number;
+  used?: number;
+  /** When a daily quota starts over (ISO timestamp) */
+  resetsAt?: string;
+  /** Cheapest plan that would allow the request; null when none would */
+  upgradeTo: Plan | null;
+  upgradeUrl: string;
+}
+
+export class EntitlementError extends Error {
+  public readonly code: EntitlementCode;
+  public readonly denial: EntitlementDenial;
+
+  constructor(message: string, denial: EntitlementDenial) {
+    super(message);
+    this.name = 'EntitlementError';
+    this.code = denial.code;
+    this.denial = denial;
+  }
+
+  /** 402 when more quota can be bought, 403 when the feature isn't in the plan */
+  get status(): 402 | 403 {
+    return QUOTA_CODES.includes(this.code) ? 402 : 403;
+  }
+}
+
+/**
+ * Body of an entitlement error response
+ */
+export interface EntitlementErrorBody {
+  error: string;
+  code: EntitlementCode;
+  entitlement: EntitlementDenial;
+}
+
+export function isEntitlementErrorBody(body: unknown): body is EntitlementErrorBody {
+  return Boolean(
+    body &&
+    typeof body === 'object' &&
+    'entitlement' in body &&
+    typeof (body as EntitlementErrorBody).entitlement?.code === 'string'
+  );
+}
@@ -83,6 +83,15 @@ describe('AIParseError', () => {
 
     expect(error.rawResponse?.length).toBeLessThanOrEqual(500);
   });
+
+  it('should carry the paths that failed validation', () => {
+    const issues = [{ path: 'schemas[0].name', message: 'Required' }];
+    const error = new AIParseError('{}', 'Schema mismatch', issues);
+
+    expect(error.issues).toEqual(issues);
+    expect(error.toJSON().issues).toEqual(issues);
+    expect(new AIParseError().issues).toEqual([]);
+  });
 });
 
 describe('ValidationError', () => {
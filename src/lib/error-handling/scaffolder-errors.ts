@@ -83,13 +83,23 @@ export class AIServiceError extends ScaffolderError {
   }
 }
 
+/**
+ * One way an AI response failed to match its expected shape
+ */
+export interface AIParseIssue {
+  /** Location in the response, e.g. "schemas[0].fields[2].type" ("" for the whole response) */
+  path: string;
+  message: string;
+}
+
 /**
  * Error thrown when AI response cannot be parsed
  */
 export class AIParseError extends ScaffolderError {
   public readonly rawResponse?: string;
+  public readonly issues: AIParseIssue[];
 
-  constructor(rawResponse?: string, details?: string) {
+  constructor(rawResponse?: string, details?: string, issues: AIParseIssue[] = []) {
     super(
       'Could not understand AI response',
       'parse',
@@ -102,6 +112,11 @@ export class AIParseError extends ScaffolderError {
     );
     this.name = 'AIParseError';
     this.rawResponse = rawResponse?.substring(0, 500); // Truncate for logging
+    this.issues = issues;
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), issues: this.issues };
   }
 }
 
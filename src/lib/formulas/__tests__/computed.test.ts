@@ -0,0 +1,129 @@
+/**
+ * Computed Field Tests
+ * Tests for design-time formula validation and computed value evaluation
+ */
+
+import { validateComputedFields, computeValues, applyComputedFields, orderComputedFields } from '../computed';
+import type { ComputedField, Schema } from '@/lib/scaffolder-v2/types';
+
+const taskSchema: Schema = {
+  name: 'Task',
+  label: 'Task',
+  fields: [
+    { name: 'id', label: 'ID', type: 'string', required: true, generated: true, primaryKey: true },
+    { name: 'title', label: 'Title', type: 'string', required: true },
+    { name: 'hours', label: 'Hours', type: 'number', required: false },
+    { name: 'status', label: 'Status', type: 'enum', required: false, options: ['Open', 'Done'] },
+    { name: 'projectId', label: 'Project', type: 'string', required: false },
+  ],
+};
+
+function projectSchema(computedFields: ComputedField[]): Schema {
+  return {
+    name: 'Project',
+    label: 'Project',
+    fields: [
+      { name: 'id', label: 'ID', type: 'string', required: true, generated: true, primaryKey: true },
+      { name: 'name', label: 'Name', type: 'string', required: true },
+      { name: 'dueDate', label: 'Due Date', type: 'date', required: false },
+      { name: 'budget', label: 'Budget', type: 'number', required: false },
+    ],
+    computedFields,
+    relationships: [{ type: 'hasMany', target: 'Task', foreignKey: 'projectId' }],
+  };
+}
+
+function computed(name: string, formula: string, type: ComputedField['type'] = 'number'): ComputedField {
+  return { name, label: name, type, formula };
+}
+
+function issuesFor(fields: ComputedField[]) {
+  const schema = projectSchema(fields);
+  return validateComputedFields(schema, [schema, taskSchema]).map(issue => `${issue.field}: ${issue.message}`);
+}
+
+describe('validateComputedFields', () => {
+  it('should accept formulas over fields, computed fields and relations', () => {
+    expect(issuesFor([
+      computed('isOverdue', 'dueDate < today() && progress < 100', 'boolean'),
+      computed('progress', "count(tasks where status = 'Done') / count(tasks) * 100"),
+      computed('hoursLeft', "budget - sum(Task.hours where status !== 'Done')"),
+    ])).toEqual([]);
+  });
+
+  it('should report syntax errors', () => {
+    expect(issuesFor([computed('broken', 'budget * ')])).toEqual([
+      expect.stringMatching(/^broken: Unexpected end of formula/),
+    ]);
+  });
+
+  it('should report unknown fields, relation fields and functions', () => {
+    expect(issuesFor([
+      computed('a', 'cost * 2'),
+      computed('b', 'sum(tasks.minutes)'),
+      computed('c', "count(tasks where priority = 'High')"),
+      computed('d', 'median(budget)'),
+    ])).toEqual([
+      'a: Unknown field "cost"',
+      'b: "Task" has no field "minutes"',
+      'c: Unknown field "priority"',
+      'd: Unknown function "median"',
+    ]);
+  });
+
+  it('should only allow where on related records', () => {
+    expect(issuesFor([computed('x', 'count(budget where budget > 1)')])).toEqual([
+      'x: "where" can only filter related records',
+    ]);
+  });
+
+  it('should report name clashes and cycles', () => {
+    expect(issuesFor([
+      computed('budget', '1'),
+      computed('a', 'b + 1'),
+      computed('b', 'a + 1'),
+    ])).toEqual([
+      'budget: "budget" is already a stored field',
+      'b: Formula depends on itself through other computed fields',
+      'a: Formula depends on itself through other computed fields',
+    ]);
+  });
+});
+
+describe('computeValues', () => {
+  const now = new Date('2026-03-10T12:00:00.000Z');
+
+  it('should evaluate computed fields in dependency order with related records', () => {
+    const fields = [
+      computed('isOverdue', 'dueDate < today() and progress < 100', 'boolean'),
+      computed('progress', "round(count(tasks where status = 'Done') / count(tasks) * 100)"),
+    ];
+    const tasks = [{ status: 'Done' }, { status: 'Open' }, { status: 'Open' }];
+
+    const record = computeValues({ id: 'p1', dueDate: '2026-03-01' }, fields, { related: { tasks }, now });
+
+    expect(record).toMatchObject({ progress: 33, isOverdue: true });
+    expect(orderComputedFields(fields).ordered.map(field => field.name)).toEqual(['progress', 'isOverdue']);
+  });
+
+  it('should coerce values to the declared type and null out failures', () => {
+    const record = computeValues({ id: 'p1', name: 'Apollo', budget: 5 }, [
+      computed('label', "name + ' (' + budget + ')'", 'string'),
+      computed('hasBudget', 'budget', 'boolean'),
+      computed('bad', 'name * 2'),
+    ]);
+
+    expect(record).toMatchObject({ label: 'Apollo (5)', hasBudget: true, bad: null });
+  });
+
+  it('should only fill in values the records are missing', () => {
+    const fields = [computed('double', 'budget * 2')];
+    const [fromServer, local] = applyComputedFields(
+      [{ id: 'a', budget: 1, double: 99 }, { id: 'b', budget: 4 }],
+      fields
+    );
+
+    expect(fromServer.double).toBe(99);
+    expect(local.double).toBe(8);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Formula Tests
+ * Tests for parsing and evaluating workflow formulas
+ */
+
+import {
+  parseFormula,
+  collectFieldReferences,
+  evaluateFormula,
+  FormulaSyntaxError,
+  FormulaEvaluationError,
+} from '../index';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+function evaluate(formula: string, record: Record<string, unknown> = {}) {
+  return evaluateFormula(formula, { record, now });
+}
+
+describe('parseFormula', () => {
+  it('should respect operator precedence', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('-2 * 3 + 10 % 4')).toBe(-4);
+  });
+
+  it('should accept word operators and SQL-style equality', () => {
+    expect(evaluate("status = 'Done' and not archived", { status: 'done', archived: false })).toBe(true);
+    expect(evaluate("priority <> 'High' or overdue", { priority: 'High', overdue: false })).toBe(false);
+  });
+
+  it('should collect referenced fields', () => {
+    const node = parseFormula('if(quantity > 0, price * quantity, discount.amount)');
+    const paths = collectFieldReferences(node).map(path => path.join('.'));
+    expect(Array.from(new Set(paths)).sort()).toEqual(['discount.amount', 'price', 'quantity']);
+  });
+
+  it('should report the position of syntax errors', () => {
+    expect(() => parseFormula('price * ')).toThrow(FormulaSyntaxError);
+    expect(() => parseFormula("name == 'open")).toThrow(/position/);
+    expect(() => parseFormula('round(1, 2')).toThrow(FormulaSyntaxError);
+    expect(() => parseFormula('count(tasks where)')).toThrow(FormulaSyntaxError);
+  });
+});
+
+describe('evaluateFormula', () => {
+  it('should read record fields and nested values', () => {
+    expect(evaluate('price * quantity', { price: 2.5, quantity: 4 })).toBe(10);
+    expect(evaluate('owner.name', { owner: { name: 'Ada' } })).toBe('Ada');
+    expect(evaluate('missing.name', {})).toBeNull();
+  });
+
+  it('should treat blanks as zero in arithmetic and concatenate text', () => {
+    expect(evaluate('total + tax', { total: 10 })).toBe(10);
+    expect(evaluate("first + ' ' + last", { first: 'Ada', last: 'Lovelace' })).toBe('Ada Lovelace');
+  });
+
+  it('should return null when dividing by zero', () => {
+    expect(evaluate('10 / count', { count: 0 })).toBeNull();
+  });
+
+  it('should compare dates', () => {
+    expect(evaluate('dueDate < today()', { dueDate: '2026-03-09' })).toBe(true);
+    expect(evaluate('dueDate < today()', { dueDate: '2026-03-11' })).toBe(false);
+    expect(evaluate('daysBetween(startDate, today())', { startDate: '2026-03-01' })).toBe(9);
+    expect(evaluate("addDays('2026-03-10', 7)")).toBe('2026-03-17');
+  });
+
+  it('should provide built-in functions case-insensitively', () => {
+    expect(evaluate('ROUND(2.345, 2)')).toBe(2.35);
+    expect(evaluate("coalesce(nickname, name, 'Anonymous')", { name: 'Ada' })).toBe('Ada');
+    expect(evaluate("if(isEmpty(tags), 'none', upper(concat(len(tags), ' tags')))", { tags: ['a', 'b'] })).toBe('2 TAGS');
+    expect(evaluate("contains(tags, 'urgent')", { tags: ['Urgent'] })).toBe(true);
+    expect(evaluate('max(a, b, 3)', { a: 1, b: null })).toBe(3);
+  });
+
+  it('should accept JavaScript-style strict equality', () => {
+    expect(evaluate('dueDate < today() && status !== "Done"', { dueDate: '2026-03-01', status: 'Open' })).toBe(true);
+    expect(evaluate('status === "done"', { status: 'Done' })).toBe(true);
+  });
+
+  it('should aggregate lists of related records', () => {
+    const tasks = [
+      { title: 'Design', hours: 3, status: 'Done' },
+      { title: 'Build', hours: 5, status: 'Open' },
+      { title: 'Test', hours: null, status: 'Done' },
+    ];
+    const scope = { record: { budget: 10 }, variables: { tasks } };
+
+    expect(evaluateFormula('sum(tasks.hours)', scope)).toBe(8);
+    expect(evaluateFormula('avg(tasks.hours)', scope)).toBe(4);
+    expect(evaluateFormula('count(tasks)', scope)).toBe(3);
+    expect(evaluateFormula("count(tasks where status = 'Done')", scope)).toBe(2);
+    expect(evaluateFormula("sum(tasks.hours where status = 'Open') / budget", scope)).toBe(0.5);
+    expect(evaluateFormula('max(tasks.hours where hours < parent.budget / 2)', scope)).toBe(3);
+    expect(evaluateFormula('sum(tasks.hours where false)', scope)).toBe(0);
+  });
+
+  it('should provide date part helpers', () => {
+    expect(evaluate('year(d) * 100 + month(d)', { d: '2026-03-10' })).toBe(202603);
+    expect(evaluate('day(d)', { d: '2026-03-10' })).toBe(10);
+    expect(evaluate('weekday(d)', { d: '2026-03-10' })).toBe(2);
+    expect(evaluate("addMonths('2026-01-31', 1)")).toBe('2026-03-03');
+  });
+
+  it('should prefer scope variables over record fields', () => {
+    const value = evaluateFormula('previous.status != status', {
+      record: { status: 'Done' },
+      variables: { previous: { status: 'Open' } },
+    });
+    expect(value).toBe(true);
+  });
+
+  it('should reject unknown functions and bad arity', () => {
+    expect(() => evaluate('eval(1)')).toThrow(FormulaEvaluationError);
+    expect(() => evaluate('round()')).toThrow(FormulaEvaluationError);
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * Computed Fields
+ * Design-time validation and evaluation of a Schema's ComputedField formulas.
+ *
+ * Computed values are derived on read and never stored. Formulas can read the
+ * record's own fields, other computed fields, and related records through the
+ * schema's relationships: a relationship is addressed by its target schema's
+ * name (`Task` or `task`), or the plural for list relations (`tasks`).
+ * hasMany relations are lists (`sum(tasks.hours where status = 'Done')`);
+ * belongsTo and hasOne relations are single records (`project.name`).
+ */
+
+import type { ComputedField, FieldType, Relationship, Schema } from '@/lib/scaffolder-v2/types';
+import { parseFormula, FormulaSyntaxError, type FormulaNode } from './parser';
+import { evaluateFormula, FORMULA_FUNCTIONS, isTruthy, toDate, toNumber } from './evaluator';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A problem with one computed field's formula
+ */
+export interface FormulaIssue {
+  field: string;
+  formula: string;
+  message: string;
+}
+
+/**
+ * A relationship as formulas see it
+ */
+export interface FormulaRelation {
+  /** Name formulas use, e.g. `tasks` */
+  alias: string;
+  relationship: Relationship;
+  /** Target schema, when it is part of the app */
+  target: Schema | null;
+  /** Whether the relation yields a list of records */
+  many: boolean;
+}
+
+export interface ComputeOptions {
+  /** Related records keyed by every name in relationKeys() */
+  related?: Record<string, unknown>;
+  now?: Date;
+}
+
+const SYSTEM_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+// ============================================================================
+// Relations
+// ============================================================================
+
+function lowerFirst(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+/**
+ * The name formulas use for a relationship target
+ */
+export function relationAlias(relationship: Relationship): string {
+  const base = lowerFirst(relationship.target);
+  const many = relationship.type === 'hasMany' || relationship.type === 'manyToMany';
+  return many && !base.endsWith('s') ? `${base}s` : base;
+}
+
+/**
+ * Every name a formula may use for a relation
+ */
+export function relationKeys(relation: FormulaRelation): string[] {
+  const target = relation.relationship.target;
+  return Array.from(new Set([relation.alias, target, lowerFirst(target)]));
+}
+
+/**
+ * Resolve the relationships of a schema against the app's other schemas
+ */
+export function formulaRelations(schema: Schema, schemas: Schema[] = []): FormulaRelation[] {
+  return (schema.relationships || []).map(relationship => ({
+    alias: relationAlias(relationship),
+    relationship,
+    target: schemas.find(candidate => candidate.name.toLowerCase() === relationship.target.toLowerCase()) || null,
+    many: relationship.type === 'hasMany' || relationship.type === 'manyToMany',
+  }));
+}
+
+function findRelation(relations: FormulaRelation[], name: string): FormulaRelation | undefined {
+  return relations.find(relation => relationKeys(relation).includes(name));
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+interface CheckContext {
+  fields: Set<string>;
+  relations: FormulaRelation[];
+  /** Fields of the related records a `where` condition is evaluated against */
+  related?: Set<string>;
+}
+
+function fieldNames(schema: Schema | null): Set<string> {
+  const names = new Set(SYSTEM_FIELDS);
+  for (const field of schema?.fields || []) names.add(field.name);
+  for (const field of schema?.computedFields || []) names.add(field.name);
+  return names;
+}
+
+function checkField(path: string[], context: CheckContext): string | null {
+  const [head, next] = path;
+
+  if (context.related) {
+    if (context.related.has(head)) return null;
+    if (head === 'parent') return next === undefined || context.fields.has(next) ? null : `Unknown field "${next}"`;
+  }
+
+  if (context.fields.has(head)) return null;
+
+  const relation = findRelation(context.relations, head);
+  if (!relation) return `Unknown field "${head}"`;
+  if (next !== undefined && relation.target && !fieldNames(relation.target).has(next)) {
+    return `"${relation.target.label || relation.target.name}" has no field "${next}"`;
+  }
+  return null;
+}
+
+function checkNode(node: FormulaNode, context: CheckContext, problems: string[]): void {
+  switch (node.type) {
+    case 'literal':
+      return;
+    case 'field': {
+      const problem = checkField(node.path, context);
+      if (problem) problems.push(problem);
+      return;
+    }
+    case 'unary':
+      checkNode(node.operand, context, problems);
+      return;
+    case 'binary':
+      checkNode(node.left, context, problems);
+      checkNode(node.right, context, problems);
+      return;
+    case 'call': {
+      if (!FORMULA_FUNCTIONS[node.name.toLowerCase()]) {
+        problems.push(`Unknown function "${node.name}"`);
+      }
+      node.args.forEach(arg => checkNode(arg, context, problems));
+      if (node.where) {
+        const source = node.args[0];
+        const relation = source.type === 'field' ? findRelation(context.relations, source.path[0]) : undefined;
+        if (!relation) {
+          problems.push('"where" can only filter related records');
+          return;
+        }
+        // Without the target schema the related fields are unknown, so they are not checked
+        if (relation.target) {
+          checkNode(node.where, { ...context, related: fieldNames(relation.target) }, problems);
+        }
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Field heads a formula reads from its own record (used for dependency order)
+ */
+function dependencies(node: FormulaNode): string[] {
+  switch (node.type) {
+    case 'field':
+      return [node.path[0]];
+    case 'unary':
+      return dependencies(node.operand);
+    case 'binary':
+      return [...dependencies(node.left), ...dependencies(node.right)];
+    case 'call':
+      return node.args.flatMap(dependencies);
+    default:
+      return [];
+  }
+}
+
+function parseOrNull(formula: string): FormulaNode | null {
+  try {
+    return parseFormula(formula);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Order computed fields so that each is evaluated after the computed fields
+ * it reads. Fields caught in a cycle are returned in `cyclic`.
+ */
+export function orderComputedFields(computed: ComputedField[]): { ordered: ComputedField[]; cyclic: ComputedField[] } {
+  const byName = new Map(computed.map(field => [field.name, field]));
+  const ordered: ComputedField[] = [];
+  const cyclic: ComputedField[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (field: ComputedField): boolean => {
+    const current = state.get(field.name);
+    if (current === 'done') return true;
+    if (current === 'visiting') return false;
+
+    state.set(field.name, 'visiting');
+    const node = parseOrNull(field.formula);
+    let acyclic = true;
+    for (const name of node ? dependencies(node) : []) {
+      const dependency = byName.get(name);
+      if (dependency && dependency !== field && !visit(dependency)) acyclic = false;
+      if (dependency === field) acyclic = false;
+    }
+    state.set(field.name, 'done');
+    (acyclic ? ordered : cyclic).push(field);
+    return acyclic;
+  };
+
+  computed.forEach(visit);
+  return { ordered, cyclic };
+}
+
+/**
+ * Check a schema's computed field formulas before the app is built.
+ * Reports syntax errors, unknown fields, functions and relations, name
+ * clashes with stored fields, and computed fields that depend on each other
+ * in a cycle.
+ */
+export function validateComputedFields(schema: Schema, schemas: Schema[] = [schema]): FormulaIssue[] {
+  const computed = schema.computedFields || [];
+  const issues: FormulaIssue[] = [];
+  const context: CheckContext = {
+    fields: fieldNames(schema),
+    relations: formulaRelations(schema, schemas),
+  };
+  const stored = new Set([...SYSTEM_FIELDS, ...schema.fields.map(field => field.name)]);
+
+  for (const field of computed) {
+    const issue = (message: string) => issues.push({ field: field.name, formula: field.formula, message });
+
+    if (stored.has(field.name)) {
+      issue(`"${field.name}" is already a stored field`);
+    }
+    if (!field.formula || !field.formula.trim()) {
+      issue('Formula is empty');
+      continue;
+    }
+
+    let node: FormulaNode;
+    try {
+      node = parseFormula(field.formula);
+    } catch (error) {
+      issue(error instanceof FormulaSyntaxError ? error.message : String(error));
+      continue;
+    }
+
+    const problems: string[] = [];
+    checkNode(node, context, problems);
+    Array.from(new Set(problems)).forEach(issue);
+  }
+
+  for (const field of orderComputedFields(computed).cyclic) {
+    issues.push({ field: field.name, formula: field.formula, message: 'Formula depends on itself through other computed fields' });
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function coerce(value: unknown, type: FieldType): unknown {
+  if (value === null || value === undefined) return null;
+
+  switch (type) {
+    case 'number':
+      return toNumber(value);
+    case 'boolean':
+      return isTruthy(value);
+    case 'date': {
+      const date = toDate(value);
+      return date ? date.toISOString().slice(0, 10) : null;
+    }
+    case 'datetime': {
+      const date = toDate(value);
+      return date ? date.toISOString() : null;
+    }
+    case 'string':
+    case 'text':
+    case 'enum':
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Add computed values to a record. A formula that fails to evaluate yields
+ * null for that field rather than failing the whole record.
+ */
+export function computeValues<T extends Record<string, unknown>>(
+  record: T,
+  computed: ComputedField[],
+  options: ComputeOptions = {}
+): T {
+  const result: Record<string, unknown> = { ...record };
+  const { ordered, cyclic } = orderComputedFields(computed);
+
+  for (const field of ordered) {
+    try {
+      const value = evaluateFormula(field.formula, {
+        record: result,
+        variables: options.related,
+        now: options.now,
+      });
+      result[field.name] = coerce(value, field.type);
+    } catch {
+      result[field.name] = null;
+    }
+  }
+  for (const field of cyclic) {
+    result[field.name] = null;
+  }
+
+  return result as T;
+}
+
+/**
+ * Fill in computed values the records don't already carry. Used by UI
+ * primitives for data that did not come through the data API; values the
+ * server computed (including aggregates over related records) are kept.
+ */
+export function applyComputedFields<T extends Record<string, unknown>>(
+  records: T[],
+  computed: ComputedField[] | undefined,
+  now?: Date
+): T[] {
+  if (!computed || computed.length === 0) return records;
+  return records.map(record => {
+    const missing = computed.filter(field => !(field.name in record));
+    return missing.length > 0 ? computeValues(record, missing, { now }) : record;
+  });
+}
+
+/**
+ * Relations a set of computed fields read, so callers only load the related
+ * records they need
+ */
+export function referencedRelations(computed: ComputedField[], relations: FormulaRelation[]): FormulaRelation[] {
+  const heads = new Set<string>();
+  for (const field of computed) {
+    const node = parseOrNull(field.formula);
+    if (node) dependencies(node).forEach(head => heads.add(head));
+  }
+  return relations.filter(relation => relationKeys(relation).some(key => heads.has(key)));
+}
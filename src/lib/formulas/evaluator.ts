@@ -0,0 +1,408 @@
+/**
+ * Formula Evaluator
+ * Interprets parsed formulas against a record without executing any user code.
+ *
+ * Semantics follow spreadsheets rather than JavaScript: missing values count as
+ * 0 in arithmetic, `=` compares text case-insensitively, date strings compare
+ * as dates, and division by zero yields null instead of Infinity.
+ *
+ * A field path that passes through a list (e.g. `lineItems.amount` when
+ * `lineItems` holds related records) yields the list of values, which the
+ * aggregate functions (`sum`, `avg`, `count`, `min`, `max`) accept.
+ */
+
+import { parseFormula, type FormulaNode } from './parser';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FormulaScope {
+  /** Record whose fields bare identifiers resolve to */
+  record?: Record<string, unknown>;
+  /** Named values that take precedence over record fields (e.g. `previous` or related records) */
+  variables?: Record<string, unknown>;
+  /** Clock used by date functions; defaults to the current time */
+  now?: Date;
+}
+
+export type FormulaFunction = (args: unknown[], scope: FormulaScope) => unknown;
+
+/**
+ * Raised when a well-formed formula cannot be evaluated
+ */
+export class FormulaEvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaEvaluationError';
+  }
+}
+
+// ============================================================================
+// Value helpers
+// ============================================================================
+
+const DATE_PREFIX = /^\d{4}-\d{2}-\d{2}/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+export function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' && DATE_PREFIX.test(value)) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+export function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function toBoolean(value: unknown): boolean {
+  if (typeof value === 'string') return !['', 'false', '0', 'no'].includes(value.toLowerCase());
+  return isTruthy(value);
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function startOfUtcDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function looseEquals(left: unknown, right: unknown): boolean {
+  if (isBlank(left) || isBlank(right)) return isBlank(left) && isBlank(right);
+
+  if (typeof left === 'number' || typeof right === 'number') {
+    return toNumber(left) === toNumber(right);
+  }
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return toBoolean(left) === toBoolean(right);
+  }
+
+  const leftDate = toDate(left);
+  const rightDate = toDate(right);
+  if (leftDate && rightDate) return leftDate.getTime() === rightDate.getTime();
+
+  return String(left).toLowerCase() === String(right).toLowerCase();
+}
+
+/**
+ * Order two values, or return null when they are not comparable
+ */
+function compareValues(left: unknown, right: unknown): number | null {
+  if (isBlank(left) || isBlank(right)) return null;
+
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  if (leftNumber !== null && rightNumber !== null) return leftNumber - rightNumber;
+
+  const leftDate = toDate(left);
+  const rightDate = toDate(right);
+  if (leftDate && rightDate) return leftDate.getTime() - rightDate.getTime();
+
+  return String(left).localeCompare(String(right));
+}
+
+function arithmetic(operator: '+' | '-' | '*' | '/' | '%', left: unknown, right: unknown): unknown {
+  const leftNumber = isBlank(left) ? 0 : toNumber(left);
+  const rightNumber = isBlank(right) ? 0 : toNumber(right);
+
+  if (operator === '+' && (leftNumber === null || rightNumber === null)) {
+    return `${left ?? ''}${right ?? ''}`;
+  }
+  if (leftNumber === null || rightNumber === null) {
+    throw new FormulaEvaluationError(`Cannot apply "${operator}" to non-numeric values`);
+  }
+
+  switch (operator) {
+    case '+': return leftNumber + rightNumber;
+    case '-': return leftNumber - rightNumber;
+    case '*': return leftNumber * rightNumber;
+    case '/': return rightNumber === 0 ? null : leftNumber / rightNumber;
+    case '%': return rightNumber === 0 ? null : leftNumber % rightNumber;
+  }
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+function requireArgs(name: string, args: unknown[], min: number, max = min): void {
+  if (args.length < min || args.length > max) {
+    const expected = min === max ? `${min}` : `${min}-${max}`;
+    throw new FormulaEvaluationError(`${name}() expects ${expected} argument(s), got ${args.length}`);
+  }
+}
+
+function numbers(args: unknown[]): number[] {
+  return args
+    .flatMap(arg => (Array.isArray(arg) ? arg : [arg]))
+    .map(toNumber)
+    .filter((value): value is number => value !== null);
+}
+
+/**
+ * Built-in functions, keyed by lower-case name
+ */
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  if: (args) => {
+    requireArgs('if', args, 2, 3);
+    return isTruthy(args[0]) ? args[1] : (args[2] ?? null);
+  },
+  coalesce: (args) => args.find(arg => !isBlank(arg)) ?? null,
+  isempty: (args) => {
+    requireArgs('isEmpty', args, 1);
+    return isBlank(args[0]) || (Array.isArray(args[0]) && args[0].length === 0);
+  },
+
+  round: (args) => {
+    requireArgs('round', args, 1, 2);
+    const value = toNumber(args[0]);
+    const digits = toNumber(args[1]) ?? 0;
+    if (value === null) return null;
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+  },
+  floor: (args) => {
+    requireArgs('floor', args, 1);
+    const value = toNumber(args[0]);
+    return value === null ? null : Math.floor(value);
+  },
+  ceil: (args) => {
+    requireArgs('ceil', args, 1);
+    const value = toNumber(args[0]);
+    return value === null ? null : Math.ceil(value);
+  },
+  abs: (args) => {
+    requireArgs('abs', args, 1);
+    const value = toNumber(args[0]);
+    return value === null ? null : Math.abs(value);
+  },
+  sum: (args) => numbers(args).reduce((total, value) => total + value, 0),
+  avg: (args) => {
+    const values = numbers(args);
+    return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+  },
+  count: (args) => {
+    requireArgs('count', args, 1);
+    if (Array.isArray(args[0])) return args[0].filter(value => !isBlank(value)).length;
+    return isBlank(args[0]) ? 0 : 1;
+  },
+  min: (args) => {
+    const values = numbers(args);
+    return values.length > 0 ? Math.min(...values) : null;
+  },
+  max: (args) => {
+    const values = numbers(args);
+    return values.length > 0 ? Math.max(...values) : null;
+  },
+
+  concat: (args) => args.map(arg => (isBlank(arg) ? '' : String(arg))).join(''),
+  lower: (args) => {
+    requireArgs('lower', args, 1);
+    return isBlank(args[0]) ? null : String(args[0]).toLowerCase();
+  },
+  upper: (args) => {
+    requireArgs('upper', args, 1);
+    return isBlank(args[0]) ? null : String(args[0]).toUpperCase();
+  },
+  len: (args) => {
+    requireArgs('len', args, 1);
+    if (Array.isArray(args[0])) return args[0].length;
+    return isBlank(args[0]) ? 0 : String(args[0]).length;
+  },
+  contains: (args) => {
+    requireArgs('contains', args, 2);
+    if (Array.isArray(args[0])) return args[0].some(item => looseEquals(item, args[1]));
+    return String(args[0] ?? '').toLowerCase().includes(String(args[1] ?? '').toLowerCase());
+  },
+
+  today: (args, scope) => {
+    requireArgs('today', args, 0);
+    return formatDate(scope.now ?? new Date());
+  },
+  now: (args, scope) => {
+    requireArgs('now', args, 0);
+    return (scope.now ?? new Date()).toISOString();
+  },
+  daysbetween: (args) => {
+    requireArgs('daysBetween', args, 2);
+    const start = toDate(args[0]);
+    const end = toDate(args[1]);
+    if (!start || !end) return null;
+    return Math.round((startOfUtcDay(end) - startOfUtcDay(start)) / DAY_MS);
+  },
+  year: (args) => {
+    requireArgs('year', args, 1);
+    return toDate(args[0])?.getUTCFullYear() ?? null;
+  },
+  month: (args) => {
+    requireArgs('month', args, 1);
+    const date = toDate(args[0]);
+    return date ? date.getUTCMonth() + 1 : null;
+  },
+  day: (args) => {
+    requireArgs('day', args, 1);
+    return toDate(args[0])?.getUTCDate() ?? null;
+  },
+  weekday: (args) => {
+    requireArgs('weekday', args, 1);
+    return toDate(args[0])?.getUTCDay() ?? null;
+  },
+  addmonths: (args) => {
+    requireArgs('addMonths', args, 2);
+    const date = toDate(args[0]);
+    const months = toNumber(args[1]);
+    if (!date || months === null) return null;
+    const result = new Date(date.getTime());
+    result.setUTCMonth(result.getUTCMonth() + months);
+    return typeof args[0] === 'string' && args[0].length === 10 ? formatDate(result) : result.toISOString();
+  },
+  adddays: (args) => {
+    requireArgs('addDays', args, 2);
+    const date = toDate(args[0]);
+    const days = toNumber(args[1]);
+    if (!date || days === null) return null;
+    const result = new Date(date.getTime() + days * DAY_MS);
+    return typeof args[0] === 'string' && args[0].length === 10 ? formatDate(result) : result.toISOString();
+  },
+};
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function readPart(value: unknown, part: string): unknown {
+  if (value === null || value === undefined || typeof value !== 'object') return null;
+  return (value as Record<string, unknown>)[part] ?? null;
+}
+
+function readPath(value: unknown, path: string[]): unknown {
+  for (const part of path) {
+    value = Array.isArray(value) ? value.map(item => readPart(item, part)) : readPart(value, part);
+  }
+  return value ?? null;
+}
+
+function resolveHead(head: string, scope: FormulaScope): unknown {
+  return scope.variables && head in scope.variables
+    ? scope.variables[head]
+    : scope.record?.[head];
+}
+
+function resolveField(path: string[], scope: FormulaScope): unknown {
+  const [head, ...rest] = path;
+  return readPath(resolveHead(head, scope), rest);
+}
+
+/**
+ * Evaluate `source where condition`: keep the items of the list `source`
+ * points into for which the condition holds, then read the rest of the path
+ * from each (`sum(items.amount where paid)` sums the amount of paid items).
+ */
+function filterList(source: FormulaNode, where: FormulaNode, scope: FormulaScope): unknown[] {
+  if (source.type !== 'field') {
+    throw new FormulaEvaluationError('"where" must follow a field or related collection');
+  }
+
+  let value = resolveHead(source.path[0], scope);
+  let index = 1;
+  while (!Array.isArray(value) && index < source.path.length && value !== null && value !== undefined) {
+    value = readPart(value, source.path[index++]);
+  }
+
+  const items = Array.isArray(value) ? value : value === null || value === undefined ? [] : [value];
+  const variables = { ...scope.variables, parent: scope.record ?? null };
+  const matching = items.filter(item =>
+    isTruthy(evaluateNode(where, { ...scope, record: item as Record<string, unknown>, variables }))
+  );
+
+  const rest = source.path.slice(index);
+  return rest.length > 0 ? (readPath(matching, rest) as unknown[]) : matching;
+}
+
+function evaluateNode(node: FormulaNode, scope: FormulaScope): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'field':
+      return resolveField(node.path, scope);
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      if (node.operator === '!') return !isTruthy(operand);
+      const value = toNumber(operand);
+      return value === null ? null : -value;
+    }
+
+    case 'binary': {
+      if (node.operator === '&&') {
+        return isTruthy(evaluateNode(node.left, scope)) && isTruthy(evaluateNode(node.right, scope));
+      }
+      if (node.operator === '||') {
+        return isTruthy(evaluateNode(node.left, scope)) || isTruthy(evaluateNode(node.right, scope));
+      }
+
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+
+      switch (node.operator) {
+        case '==': return looseEquals(left, right);
+        case '!=': return !looseEquals(left, right);
+        case '<':
+        case '<=':
+        case '>':
+        case '>=': {
+          const order = compareValues(left, right);
+          if (order === null) return false;
+          if (node.operator === '<') return order < 0;
+          if (node.operator === '<=') return order <= 0;
+          if (node.operator === '>') return order > 0;
+          return order >= 0;
+        }
+        default:
+          return arithmetic(node.operator, left, right);
+      }
+    }
+
+    case 'call': {
+      const fn = FORMULA_FUNCTIONS[node.name.toLowerCase()];
+      if (!fn) {
+        throw new FormulaEvaluationError(`Unknown function "${node.name}"`);
+      }
+      if (node.where) {
+        return fn([filterList(node.args[0], node.where, scope)], scope);
+      }
+      return fn(node.args.map(arg => evaluateNode(arg, scope)), scope);
+    }
+  }
+}
+
+/**
+ * Evaluate a formula (source text or parsed AST) in a scope
+ *
+ * @throws FormulaSyntaxError for malformed source, FormulaEvaluationError otherwise
+ */
+export function evaluateFormula(formula: string | FormulaNode, scope: FormulaScope = {}): unknown {
+  const node = typeof formula === 'string' ? parseFormula(formula) : formula;
+  const value = evaluateNode(node, scope);
+  return typeof value === 'number' && !Number.isFinite(value) ? null : value;
+}
@@ -0,0 +1,38 @@
+/**
+ * Formulas Module Index
+ * Safe expression language for workflow conditions and computed values
+ */
+
+export {
+  parseFormula,
+  collectFieldReferences,
+  FormulaSyntaxError,
+  type FormulaNode,
+  type BinaryOperator,
+  type UnaryOperator,
+} from './parser';
+
+export {
+  evaluateFormula,
+  FormulaEvaluationError,
+  FORMULA_FUNCTIONS,
+  toNumber,
+  toDate,
+  isTruthy,
+  type FormulaScope,
+  type FormulaFunction,
+} from './evaluator';
+
+export {
+  validateComputedFields,
+  computeValues,
+  applyComputedFields,
+  orderComputedFields,
+  formulaRelations,
+  referencedRelations,
+  relationAlias,
+  relationKeys,
+  type FormulaIssue,
+  type FormulaRelation,
+  type ComputeOptions,
+} from './computed';
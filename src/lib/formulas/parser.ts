@@ -0,0 +1,299 @@
+/**
+ * Formula Parser
+ * Parses the small expression language used by workflow conditions and formulas.
+ *
+ * Grammar (lowest to highest precedence):
+ *   or        := and (('||' | 'or') and)*
+ *   and       := equality (('&&' | 'and') equality)*
+ *   equality  := compare (('==' | '=' | '!=' | '<>') compare)*
+ *   compare   := additive (('<' | '<=' | '>' | '>=') additive)*
+ *   additive  := term (('+' | '-') term)*
+ *   term      := unary (('*' | '/' | '%') unary)*
+ *   unary     := ('-' | '!' | 'not') unary | primary
+ *   primary   := number | string | true | false | null
+ *              | identifier ('.' identifier)*
+ *              | identifier '(' (or (',' or)*)? ')'
+ *              | identifier '(' or 'where' or ')'
+ *              | '(' or ')'
+ *
+ * `where` filters a list of related records for aggregate functions, e.g.
+ * `count(tasks where status = 'Done')`; the condition is evaluated against
+ * each related record.
+ *
+ * Formulas never execute JavaScript; the AST is interpreted by the evaluator.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BinaryOperator =
+  | '||' | '&&'
+  | '==' | '!='
+  | '<' | '<=' | '>' | '>='
+  | '+' | '-' | '*' | '/' | '%';
+
+export type UnaryOperator = '-' | '!';
+
+export type FormulaNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'field'; path: string[] }
+  | { type: 'unary'; operator: UnaryOperator; operand: FormulaNode }
+  | { type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[]; where?: FormulaNode };
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+/**
+ * Raised when a formula cannot be parsed
+ */
+export class FormulaSyntaxError extends Error {
+  public readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (at position ${position})`);
+    this.name = 'FormulaSyntaxError';
+    this.position = position;
+  }
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+const OPERATORS = ['===', '!==', '||', '&&', '==', '!=', '<>', '<=', '>=', '<', '>', '=', '+', '-', '*', '/', '%', '!', '(', ')', ',', '.'];
+
+const WORD_OPERATORS: Record<string, string> = {
+  and: '&&',
+  or: '||',
+  not: '!',
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = /^[0-9]*\.?[0-9]+(?:[eE][-+]?[0-9]+)?/.exec(source.slice(i));
+      const text = match ? match[0] : char;
+      tokens.push({ kind: 'number', value: Number(text), position: i });
+      i += text.length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          j++;
+        }
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) {
+        throw new FormulaSyntaxError('Unterminated string', i);
+      }
+      tokens.push({ kind: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      const word = match[0];
+      const operator = WORD_OPERATORS[word.toLowerCase()];
+      tokens.push(operator
+        ? { kind: 'operator', value: operator, position: i }
+        : { kind: 'identifier', value: word, position: i });
+      i += word.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) {
+      throw new FormulaSyntaxError(`Unexpected character "${char}"`, i);
+    }
+    tokens.push({ kind: 'operator', value: operator, position: i });
+    i += operator.length;
+  }
+
+  tokens.push({ kind: 'end', position: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const BINARY_LEVELS: Array<Record<string, BinaryOperator>> = [
+  { '||': '||' },
+  { '&&': '&&' },
+  { '==': '==', '===': '==', '=': '==', '!=': '!=', '!==': '!=', '<>': '!=' },
+  { '<': '<', '<=': '<=', '>': '>', '>=': '>=' },
+  { '+': '+', '-': '-' },
+  { '*': '*', '/': '/', '%': '%' },
+];
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.parseLevel(0);
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      throw new FormulaSyntaxError(`Unexpected "${'value' in next ? next.value : ''}"`, next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'operator' && token.value === value;
+  }
+
+  private isKeyword(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'identifier' && token.value.toLowerCase() === value;
+  }
+
+  private expectOperator(value: string): void {
+    const token = this.next();
+    if (token.kind !== 'operator' || token.value !== value) {
+      throw new FormulaSyntaxError(`Expected "${value}"`, token.position);
+    }
+  }
+
+  private parseLevel(level: number): FormulaNode {
+    if (level >= BINARY_LEVELS.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseLevel(level + 1);
+    for (;;) {
+      const token = this.peek();
+      const operator = token.kind === 'operator' ? BINARY_LEVELS[level][token.value] : undefined;
+      if (!operator) return left;
+      this.next();
+      const right = this.parseLevel(level + 1);
+      left = { type: 'binary', operator, left, right };
+    }
+  }
+
+  private parseUnary(): FormulaNode {
+    if (this.isOperator('-') || this.isOperator('!')) {
+      const operator = (this.next() as { value: string }).value as UnaryOperator;
+      return { type: 'unary', operator, operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'identifier': {
+        const lower = token.value.toLowerCase();
+        if (lower === 'true' || lower === 'false') return { type: 'literal', value: lower === 'true' };
+        if (lower === 'null') return { type: 'literal', value: null };
+
+        if (this.isOperator('(')) {
+          this.next();
+          const args: FormulaNode[] = [];
+          if (!this.isOperator(')')) {
+            args.push(this.parseLevel(0));
+            if (this.isKeyword('where')) {
+              this.next();
+              const where = this.parseLevel(0);
+              this.expectOperator(')');
+              return { type: 'call', name: token.value, args, where };
+            }
+            while (this.isOperator(',')) {
+              this.next();
+              args.push(this.parseLevel(0));
+            }
+          }
+          this.expectOperator(')');
+          return { type: 'call', name: token.value, args };
+        }
+
+        const path = [token.value];
+        while (this.isOperator('.')) {
+          this.next();
+          const part = this.next();
+          if (part.kind !== 'identifier') {
+            throw new FormulaSyntaxError('Expected a field name after "."', part.position);
+          }
+          path.push(part.value);
+        }
+        return { type: 'field', path };
+      }
+
+      case 'operator':
+        if (token.value === '(') {
+          const inner = this.parseLevel(0);
+          this.expectOperator(')');
+          return inner;
+        }
+        throw new FormulaSyntaxError(`Unexpected "${token.value}"`, token.position);
+
+      case 'end':
+        throw new FormulaSyntaxError('Unexpected end of formula', token.position);
+    }
+  }
+}
+
+/**
+ * Parse a formula into an AST
+ *
+ * @throws FormulaSyntaxError when the formula is malformed
+ */
+export function parseFormula(source: string): FormulaNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Collect the field paths a formula reads (e.g. for dependency tracking).
+ * Fields inside a `where` condition belong to the related records and are not included.
+ */
+export function collectFieldReferences(node: FormulaNode): string[][] {
+  switch (node.type) {
+    case 'field':
+      return [node.path];
+    case 'unary':
+      return collectFieldReferences(node.operand);
+    case 'binary':
+      return [...collectFieldReferences(node.left), ...collectFieldReferences(node.right)];
+    case 'call':
+      return node.args.flatMap(collectFieldReferences);
+    default:
+      return [];
+  }
+}
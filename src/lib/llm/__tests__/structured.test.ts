@@ -0,0 +1,198 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Structured Output Tests
+ * Tests for describing zod schemas to the model, validating JSON completions
+ * and the router's repair loop and provider fallback
+ */
+
+import { z } from 'zod';
+import { AIParseError } from '@/lib/error-handling/scaffolder-errors';
+import { describeSchema, formatIssuePath, validateJSON, buildRepairMessages } from '../structured';
+import { completeJSON, refreshHealth } from '../router';
+import type { ChatMessage, JSONCompletionOptions } from '../types';
+
+type Reply = unknown | Error;
+
+const replies: Record<string, Reply[]> = { deepseek: [], openrouter: [] };
+const requests: Record<string, ChatMessage[][]> = { deepseek: [], openrouter: [] };
+
+function mockProvider(name: string) {
+  return {
+    name,
+    isAvailable: async () => true,
+    complete: async () => '',
+    streamComplete: async function* () {},
+    completeJSON: async (options: JSONCompletionOptions) => {
+      requests[name].push(options.messages);
+      const reply = replies[name].shift();
+      if (reply instanceof Error) throw reply;
+      return reply;
+    },
+  };
+}
+
+jest.mock('../deepseek-client', () => ({
+  getDeepseekClient: () => mockProvider('deepseek'),
+  checkDeepseekHealth: async () => ({ provider: 'deepseek', available: true }),
+  getDeepseekConfig: () => ({ apiKey: 'key', apiUrl: '', model: 'deepseek-chat' }),
+}));
+
+jest.mock('../openrouter-client', () => ({
+  getOpenRouterClient: () => mockProvider('openrouter'),
+  checkOpenRouterHealth: async () => ({ provider: 'openrouter', available: true }),
+  getOpenRouterConfig: () => ({ apiKey: 'key', apiUrl: '', model: 'openrouter-model' }),
+}));
+
+jest.mock('../ollama-client', () => ({
+  getOllamaClient: () => mockProvider('ollama'),
+  checkOllamaHealth: async () => ({ provider: 'ollama', available: false }),
+  getOllamaConfig: () => ({ apiUrl: '', model: 'llama', smallModel: 'llama' }),
+}));
+
+jest.mock('../lmstudio-client', () => ({
+  getLMStudioClient: () => mockProvider('lmstudio'),
+  checkLMStudioHealth: async () => ({ provider: 'lmstudio', available: false }),
+  getLMStudioConfig: () => ({ apiUrl: '', model: 'local' }),
+}));
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+const taskSchema = z.object({
+  title: z.string().min(1),
+  status: z.enum(['todo', 'done']),
+  points: z.number().min(0).max(10),
+  tags: z.array(z.string()).default([]),
+  assignee: z.string().nullable().optional(),
+});
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'Make a task' }];
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  process.env.LLM_PROVIDER = 'deepseek';
+  await refreshHealth();
+});
+
+beforeEach(() => {
+  for (const name of Object.keys(replies)) {
+    replies[name].length = 0;
+    requests[name].length = 0;
+  }
+});
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+describe('describeSchema', () => {
+  it('should write a zod schema out as a JSON outline', () => {
+    expect(describeSchema(taskSchema)).toBe([
+      '{',
+      '  "title": string,',
+      '  "status": "todo"|"done",',
+      '  "points": number (0-10),',
+      '  "tags"?: [string],',
+      '  "assignee"?: string|null',
+      '}',
+    ].join('\n'));
+  });
+
+  it('should stop at the first repeat of a recursive schema', () => {
+    interface Folder { name: string; folders: Folder[] }
+    const folderSchema: z.ZodType<Folder> = z.lazy(() => z.object({ name: z.string(), folders: z.array(folderSchema) }));
+
+    expect(describeSchema(folderSchema)).toBe([
+      '{',
+      '  "name": string,',
+      '  "folders": [...]',
+      '}',
+    ].join('\n'));
+  });
+});
+
+describe('validateJSON', () => {
+  it('should return the parsed data with defaults applied', () => {
+    expect(validateJSON(taskSchema, { title: 'Ship', status: 'todo', points: 3 })).toEqual({
+      success: true,
+      data: { title: 'Ship', status: 'todo', points: 3, tags: [] },
+    });
+  });
+
+  it('should list every issue with its path', () => {
+    const result = validateJSON(z.object({ items: z.array(taskSchema) }), { items: [{ title: 'Ship', status: 'later', points: 30 }] });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.issues.map(issue => issue.path)).toEqual(['items[0].status', 'items[0].points']);
+  });
+
+  it('should format paths the way they read in code', () => {
+    expect(formatIssuePath(['schemas', 0, 'fields', 2, 'type'])).toBe('schemas[0].fields[2].type');
+    expect(formatIssuePath([])).toBe('');
+  });
+
+  it('should build a repair request after the rejected response', () => {
+    const repair = buildRepairMessages(messages, '{"title":""}', [{ path: 'title', message: 'Too short' }]);
+
+    expect(repair.slice(0, 2)).toEqual([...messages, { role: 'assistant', content: '{"title":""}' }]);
+    expect(repair[2].content).toContain('- title: Too short');
+  });
+});
+
+// ============================================================================
+// Router
+// ============================================================================
+
+describe('completeJSON', () => {
+  it('should return valid responses without a repair', async () => {
+    replies.deepseek.push({ title: 'Ship', status: 'done', points: 1 });
+
+    await expect(completeJSON({ messages, schema: taskSchema })).resolves.toEqual({ title: 'Ship', status: 'done', points: 1, tags: [] });
+    expect(requests.deepseek).toHaveLength(1);
+  });
+
+  it('should feed validation errors back to the model until the response is valid', async () => {
+    replies.deepseek.push({ title: 'Ship', status: 'shipped', points: 1 }, { title: 'Ship', status: 'done', points: 1 });
+
+    const result = await completeJSON({ messages, schema: taskSchema });
+
+    expect(result.status).toBe('done');
+    expect(requests.deepseek).toHaveLength(2);
+    const repair = requests.deepseek[1];
+    expect(repair[1]).toEqual({ role: 'assistant', content: JSON.stringify({ title: 'Ship', status: 'shipped', points: 1 }) });
+    expect(repair[2].content).toContain('- status:');
+  });
+
+  it('should ask again when the response is not JSON at all', async () => {
+    replies.deepseek.push(new AIParseError('not json', 'Unexpected token'), { title: 'Ship', status: 'done', points: 1 });
+
+    await expect(completeJSON({ messages, schema: taskSchema })).resolves.toMatchObject({ title: 'Ship' });
+    expect(requests.deepseek[1]).toHaveLength(2);
+    expect(requests.deepseek[1][1].content).toContain('Unexpected token');
+  });
+
+  it('should fall back to another provider once the repairs run out', async () => {
+    replies.deepseek.push({ title: '' }, { title: '' });
+    replies.openrouter.push({ title: 'Ship', status: 'todo', points: 2 });
+
+    await expect(completeJSON({ messages, schema: taskSchema, maxRepairs: 1 })).resolves.toMatchObject({ status: 'todo' });
+    expect(requests.deepseek).toHaveLength(2);
+    expect(requests.openrouter).toHaveLength(1);
+  });
+
+  it('should throw an AIParseError with the offending paths when every provider fails', async () => {
+    replies.deepseek.push({ title: 'Ship', status: 'todo', points: -1 });
+    replies.openrouter.push({ title: 'Ship', status: 'todo', points: 11 });
+
+    const error = await completeJSON({ messages, schema: taskSchema, maxRepairs: 0 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(AIParseError);
+    expect(error.issues).toEqual([{ path: 'points', message: expect.any(String) }]);
+    expect(error.rawResponse).toContain('"points":11');
+  });
+});
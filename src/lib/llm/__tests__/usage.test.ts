@@ -0,0 +1,174 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * LLM Usage Tests
+ * Tests for token/cost estimation, attribution context and plan budgets
+ */
+
+import {
+  currentPeriodStart,
+  estimateCost,
+  estimateMessageTokens,
+  getBudgetStatus,
+  getPlanBudget,
+  getUsageSummary,
+  recordUsage,
+  resolveUsageContext,
+  runWithUsageContext,
+  setUsageConversationId,
+  type LLMUsageRecord,
+} from '../usage';
+
+interface StoredUsage {
+  userId: string;
+  conversationId?: string;
+  agent?: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUSD: number;
+  createdAt: Date;
+}
+
+const stored: StoredUsage[] = [];
+const plans: Record<string, string> = {};
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    user: {
+      findUnique: async ({ where }: any) => (plans[where.id] ? { plan: plans[where.id] } : null),
+    },
+    lLMUsage: {
+      create: async ({ data }: any) => {
+        stored.push({ ...data, createdAt: new Date() });
+        return data;
+      },
+      aggregate: async ({ where }: any) => {
+        const rows = stored.filter(row => row.userId === where.userId && row.createdAt >= where.createdAt.gte);
+        return { _sum: { costUSD: rows.length ? rows.reduce((sum, row) => sum + row.costUSD, 0) : null } };
+      },
+      findMany: async ({ where }: any) =>
+        stored.filter(row => row.userId === where.userId && row.createdAt >= where.createdAt.gte),
+    },
+  },
+}));
+
+function usageRecord(overrides: Partial<LLMUsageRecord> = {}): LLMUsageRecord {
+  return {
+    userId: 'user-1',
+    provider: 'deepseek',
+    model: 'deepseek-chat',
+    operation: 'complete',
+    promptTokens: 1000,
+    completionTokens: 500,
+    costUSD: 0.25,
+    latencyMs: 120,
+    success: true,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  stored.length = 0;
+  for (const key of Object.keys(plans)) delete plans[key];
+});
+
+describe('estimation', () => {
+  it('should estimate prompt tokens from message length plus overhead', () => {
+    expect(estimateMessageTokens([
+      { role: 'system', content: 'a'.repeat(40) },
+      { role: 'user', content: 'b'.repeat(8) },
+    ])).toBe(10 + 4 + 2 + 4);
+  });
+
+  it('should price hosted models per million tokens', () => {
+    expect(estimateCost('deepseek', 'deepseek-chat', 1_000_000, 1_000_000)).toBeCloseTo(1.37);
+  });
+
+  it('should treat local providers and free models as free', () => {
+    expect(estimateCost('ollama', 'qwen3-coder:30b', 50_000, 50_000)).toBe(0);
+    expect(estimateCost('openrouter', 'qwen/qwen3-coder:free', 50_000, 50_000)).toBe(0);
+  });
+
+  it('should never price an unknown hosted model at zero', () => {
+    expect(estimateCost('openrouter', 'some/new-model', 1000, 1000)).toBeGreaterThan(0);
+  });
+});
+
+describe('usage context', () => {
+  it('should attribute calls to the surrounding request context', async () => {
+    await runWithUsageContext({ userId: 'user-1', conversationId: 'conv-1' }, async () => {
+      await Promise.resolve();
+      expect(resolveUsageContext({ messages: [], agent: 'architect' })).toEqual({
+        userId: 'user-1',
+        conversationId: 'conv-1',
+        agent: 'architect',
+      });
+    });
+  });
+
+  it('should pick up a conversation id assigned mid-request', () => {
+    runWithUsageContext({ userId: 'user-1' }, () => {
+      setUsageConversationId('conv-2');
+      expect(resolveUsageContext({ messages: [] }).conversationId).toBe('conv-2');
+    });
+  });
+
+  it('should fall back to the user in the settings outside a request context', () => {
+    expect(resolveUsageContext({ messages: [], userSettings: { userId: 'user-3' } })).toEqual({
+      userId: 'user-3',
+      conversationId: undefined,
+      agent: undefined,
+    });
+  });
+});
+
+describe('budgets', () => {
+  it('should fall back to the free budget for unknown plans', () => {
+    expect(getPlanBudget('PRO')).toBeGreaterThan(getPlanBudget('FREE'));
+    expect(getPlanBudget('LEGACY')).toBe(getPlanBudget('FREE'));
+    expect(getPlanBudget(null)).toBe(getPlanBudget('FREE'));
+  });
+
+  it('should start the period on the first of the month', () => {
+    expect(currentPeriodStart(new Date('2026-03-17T12:00:00Z')).toISOString()).toBe('2026-03-01T00:00:00.000Z');
+  });
+
+  it('should mark the budget exhausted once spend reaches the plan limit', async () => {
+    plans['user-1'] = 'FREE';
+    await recordUsage(usageRecord({ costUSD: getPlanBudget('FREE') / 2 }));
+    expect((await getBudgetStatus('user-1')).exhausted).toBe(false);
+
+    await recordUsage(usageRecord({ costUSD: getPlanBudget('FREE') / 2 }));
+    const budget = await getBudgetStatus('user-1');
+    expect(budget.exhausted).toBe(true);
+    expect(budget.remainingUSD).toBe(0);
+  });
+
+  it('should not record calls without a user', async () => {
+    await recordUsage(usageRecord({ userId: undefined }));
+    expect(stored).toHaveLength(0);
+  });
+});
+
+describe('getUsageSummary', () => {
+  it('should total usage and break it down by model and agent', async () => {
+    plans['user-1'] = 'PRO';
+    await recordUsage(usageRecord({ agent: 'architect' }));
+    await recordUsage(usageRecord({ agent: 'architect', costUSD: 0.5 }));
+    await recordUsage(usageRecord({ provider: 'ollama', model: 'qwen3:4b', costUSD: 0 }));
+    await recordUsage(usageRecord({ userId: 'user-2' }));
+
+    const summary = await getUsageSummary('user-1');
+
+    expect(summary.totals).toEqual({ calls: 3, promptTokens: 3000, completionTokens: 1500, costUSD: 0.75 });
+    expect(summary.byDay).toHaveLength(1);
+    expect(summary.byProvider.map(row => row.model)).toEqual(['deepseek-chat', 'qwen3:4b']);
+    expect(summary.byAgent.map(row => [row.agent, row.calls])).toEqual([['architect', 2], ['other', 1]]);
+    expect(summary.budget.plan).toBe('PRO');
+  });
+});
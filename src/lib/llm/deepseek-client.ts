@@ -2,8 +2,11 @@ import OpenAI from 'openai';
 import type {
   LLMClient,
   CompletionOptions,
+  JSONCompletionOptions,
   HealthCheckResult,
 } from './types';
+import { describeSchema } from './structured';
+import { AIParseError } from '@/lib/error-handling/scaffolder-errors';
 
 interface DeepseekConfig {
   apiKey: string;
@@ -151,7 +154,7 @@ export function createDeepseekClient(): LLMClient {
       }
     },
 
-    async completeJSON<T>(options: CompletionOptions & { schema?: string }): Promise<T> {
+    async completeJSON<T>(options: JSONCompletionOptions<T>): Promise<T> {
       const model = options.model || config.model;
       const apiKey = getEffectiveApiKey(options);
       const openai = createOpenAIClient(apiKey);
@@ -160,13 +163,10 @@ export function createDeepseekClient(): LLMClient {
 
       const messages = [...options.messages];
       const lastMessage = messages[messages.length - 1];
-
-      if (options.schema) {
-        messages[messages.length - 1] = {
-          ...lastMessage,
-          content: `${lastMessage.content}\n\nRespond with valid JSON matching this schema:\n${options.schema}`,
-        };
-      }
+      messages[messages.length - 1] = {
+        ...lastMessage,
+        content: `${lastMessage.content}\n\nRespond with valid JSON matching this schema:\n${describeSchema(options.schema)}`,
+      };
 
       if (!messages.some(m => m.role === 'system' && m.content.includes('JSON'))) {
         messages.unshift({
@@ -199,7 +199,7 @@ export function createDeepseekClient(): LLMClient {
           return JSON.parse(jsonStr) as T;
         } catch (e) {
           console.error('❌ DeepSeek: Failed to parse JSON:', jsonStr.substring(0, 200));
-          throw new Error(`Failed to parse DeepSeek response as JSON: ${e}`);
+          throw new AIParseError(jsonStr, `Failed to parse DeepSeek response as JSON: ${e}`);
         }
       } catch (error) {
         console.error('❌ DeepSeek: JSON request failed:', error);
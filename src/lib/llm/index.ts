@@ -11,6 +11,8 @@ export type {
   LLMRouterState,
   ChatMessage,
   CompletionOptions,
+  JSONSchema,
+  JSONCompletionOptions,
   StreamChunk,
   HealthCheckResult,
   ModelSize,
@@ -64,3 +66,33 @@ export {
   streamComplete,
   completeJSON,
 } from './router';
+
+// Structured output
+export type { JSONValidationResult } from './structured';
+
+export {
+  describeSchema,
+  validateJSON,
+  formatIssuePath,
+  DEFAULT_MAX_REPAIRS,
+} from './structured';
+
+// Usage accounting
+export type {
+  UsageOperation,
+  LLMUsageContext,
+  LLMUsageRecord,
+  BudgetStatus,
+  UsageTotals,
+  UsageSummary,
+} from './usage';
+
+export {
+  BudgetExceededError,
+  runWithUsageContext,
+  setUsageConversationId,
+  getBudgetStatus,
+  getUsageSummary,
+  getPlanBudget,
+  PLAN_BUDGETS,
+} from './usage';
@@ -6,9 +6,12 @@
 import type {
   LLMClient,
   CompletionOptions,
+  JSONCompletionOptions,
   HealthCheckResult,
   ChatMessage,
 } from './types';
+import { describeSchema } from './structured';
+import { AIParseError } from '@/lib/error-handling/scaffolder-errors';
 
 interface LMStudioConfig {
   apiUrl: string;
@@ -207,7 +210,7 @@ export function createLMStudioClient(): LLMClient {
       console.log(`✅ LM Studio: Stream complete`);
     },
 
-    async completeJSON<T>(options: CompletionOptions & { schema?: string }): Promise<T> {
+    async completeJSON<T>(options: JSONCompletionOptions<T>): Promise<T> {
       const model = options.model || config.model;
 
       console.log(`🎭 LM Studio: JSON request to ${model}`);
@@ -215,13 +218,10 @@ export function createLMStudioClient(): LLMClient {
       // Add JSON instruction to messages
       const messages = [...options.messages];
       const lastMessage = messages[messages.length - 1];
-
-      if (options.schema) {
-        messages[messages.length - 1] = {
-          ...lastMessage,
-          content: `${lastMessage.content}\n\nRespond with valid JSON matching this schema:\n${options.schema}`,
-        };
-      }
+      messages[messages.length - 1] = {
+        ...lastMessage,
+        content: `${lastMessage.content}\n\nRespond with valid JSON matching this schema:\n${describeSchema(options.schema)}`,
+      };
 
       // Add system instruction for JSON
       if (!messages.some(m => m.role === 'system' && m.content.includes('JSON'))) {
@@ -262,7 +262,7 @@ export function createLMStudioClient(): LLMClient {
         return JSON.parse(jsonStr) as T;
       } catch (e) {
         console.error('❌ LM Studio: Failed to parse JSON:', jsonStr.substring(0, 200));
-        throw new Error(`Failed to parse LM Studio response as JSON: ${e}`);
+        throw new AIParseError(jsonStr, `Failed to parse LM Studio response as JSON: ${e}`);
       }
     },
   };
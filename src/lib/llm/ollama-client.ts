@@ -6,9 +6,12 @@
 import type {
   LLMClient,
   CompletionOptions,
+  JSONCompletionOptions,
   HealthCheckResult,
   ChatMessage,
 } from './types';
+import { describeSchema } from './structured';
+import { AIParseError } from '@/lib/error-handling/scaffolder-errors';
 
 interface OllamaConfig {
   apiUrl: string;
@@ -242,7 +245,7 @@ export function createOllamaClient(): LLMClient {
       }
     },
 
-    async completeJSON<T>(options: CompletionOptions & { schema?: string }): Promise<T> {
+    async completeJSON<T>(options: JSONCompletionOptions<T>): Promise<T> {
       const model = options.model || config.model;
 
       console.log(`🦙 Ollama: JSON request to ${model}`);
@@ -250,13 +253,10 @@ export function createOllamaClient(): LLMClient {
       // Add JSON instruction to messages
       const messages = [...options.messages];
       const lastMessage = messages[messages.length - 1];
-
-      if (options.schema) {
-        messages[messages.length - 1] = {
-          ...lastMessage,
-          content: `${lastMessage.content}\n\nRespond with valid JSON matching this schema:\n${options.schema}`,
-        };
-      }
+      messages[messages.length - 1] = {
+        ...lastMessage,
+        content: `${lastMessage.content}\n\nRespond with valid JSON matching this schema:\n${describeSchema(options.schema)}`,
+      };
 
       // Add system instruction for JSON
       if (!messages.some(m => m.role === 'system' && m.content.includes('JSON'))) {
@@ -298,7 +298,7 @@ export function createOllamaClient(): LLMClient {
         return JSON.parse(jsonStr) as T;
       } catch (e) {
         console.error('❌ Ollama: Failed to parse JSON:', jsonStr.substring(0, 200));
-        throw new Error(`Failed to parse Ollama response as JSON: ${e}`);
+        throw new AIParseError(jsonStr, `Failed to parse Ollama response as JSON: ${e}`);
       }
     },
   };
@@ -7,8 +7,11 @@ import OpenAI from 'openai';
 import type {
   LLMClient,
   CompletionOptions,
+  JSONCompletionOptions,
   HealthCheckResult,
 } from './types';
+import { describeSchema } from './structured';
+import { AIParseError } from '@/lib/error-handling/scaffolder-errors';
 
 interface OpenRouterConfig {
   apiKey: string;
@@ -156,7 +159,7 @@ export function createOpenRouterClient(): LLMClient {
       console.log(`✅ OpenRouter: Stream complete`);
     },
 
-    async completeJSON<T>(options: CompletionOptions & { schema?: string }): Promise<T> {
+    async completeJSON<T>(options: JSONCompletionOptions<T>): Promise<T> {
       const model = options.model || config.model;
       const apiKey = getEffectiveApiKey(options);
       const openai = createOpenAIClient(apiKey);
@@ -166,13 +169,10 @@ export function createOpenRouterClient(): LLMClient {
       // Add JSON instruction to messages
       const messages = [...options.messages];
       const lastMessage = messages[messages.length - 1];
-
-      if (options.schema) {
-        messages[messages.length - 1] = {
-          ...lastMessage,
-          content: `${lastMessage.content}\n\nRespond with valid JSON matching this schema:\n${options.schema}`,
-        };
-      }
+      messages[messages.length - 1] = {
+        ...lastMessage,
+        content: `${lastMessage.content}\n\nRespond with valid JSON matching this schema:\n${describeSchema(options.schema)}`,
+      };
 
       // Add system instruction for JSON
       if (!messages.some(m => m.role === 'system' && m.content.includes('JSON'))) {
@@ -202,7 +202,7 @@ export function createOpenRouterClient(): LLMClient {
           return JSON.parse(jsonStr) as T;
         } catch (e) {
           console.error('❌ OpenRouter: Failed to parse JSON:', jsonStr.substring(0, 200));
-          throw new Error(`Failed to parse OpenRouter response as JSON: ${e}`);
+          throw new AIParseError(jsonStr, `Failed to parse OpenRouter response as JSON: ${e}`);
         }
       } catch (error) {
         console.error('❌ OpenRouter: JSON request failed:', error);
@@ -9,6 +9,7 @@ import type {
   LLMConfig,
   LLMRouterState,
   CompletionOptions,
+  JSONCompletionOptions,
   HealthCheckResult,
   ModelSize,
   ModelSelectionHints,
@@ -19,6 +20,24 @@ import { getOpenRouterClient, checkOpenRouterHealth, getOpenRouterConfig } from
 import { getLMStudioClient, checkLMStudioHealth, getLMStudioConfig } from './lmstudio-client';
 import { getDeepseekClient, checkDeepseekHealth, getDeepseekConfig } from './deepseek-client';
 import { decryptApiKey, isEncryptionAvailable } from '@/lib/crypto';
+import { AIParseError } from '@/lib/error-handling/scaffolder-errors';
+import {
+  DEFAULT_MAX_REPAIRS,
+  buildRepairMessages,
+  validateJSON,
+} from './structured';
+import {
+  BudgetExceededError,
+  estimateCost,
+  estimateMessageTokens,
+  estimateTokens,
+  getBudgetStatus,
+  isLocalProvider,
+  recordUsage,
+  resolveUsageContext,
+  type LLMUsageContext,
+  type UsageOperation,
+} from './usage';
 
 // Health check interval: 30 seconds
 const HEALTH_CHECK_INTERVAL_MS = 30000;
@@ -252,6 +271,143 @@ export function selectModel(
   return config.openrouterModel;
 }
 
+/**
+ * Apply the user's plan budget before routing. Once the month's hosted spend is
+ * used up, calls are downgraded to a local provider, or refused if none is up.
+ */
+async function applyBudget(
+  options: CompletionOptions,
+  context: LLMUsageContext
+): Promise<{ options: CompletionOptions; downgraded: boolean }> {
+  const requested = options.provider || getLLMConfig(options.userSettings).provider;
+  if (!context.userId || isLocalProvider(requested)) {
+    return { options, downgraded: false };
+  }
+
+  let budget;
+  try {
+    budget = await getBudgetStatus(context.userId);
+  } catch (error) {
+    console.error('Failed to check LLM budget:', error);
+    return { options, downgraded: false };
+  }
+  if (!budget.exhausted) {
+    return { options, downgraded: false };
+  }
+
+  await ensureFreshHealthCheck();
+  const config = getLLMConfig(options.userSettings);
+  const localProvider: LLMProvider | null =
+    config.ollamaEnabled && routerState.ollamaAvailable
+      ? 'ollama'
+      : config.lmstudioEnabled && routerState.lmstudioAvailable
+        ? 'lmstudio'
+        : null;
+
+  if (!localProvider) {
+    throw new BudgetExceededError(budget);
+  }
+
+  console.log(`💸 Budget exhausted for ${budget.plan} plan, downgrading to ${localProvider}`);
+  return { options: { ...options, provider: localProvider, model: undefined }, downgraded: true };
+}
+
+/**
+ * Start timing one provider attempt; the returned recorder stores its usage
+ */
+function trackUsage(operation: UsageOperation, options: CompletionOptions, context: LLMUsageContext) {
+  const startedAt = Date.now();
+  const promptTokens = estimateMessageTokens(options.messages);
+
+  const record = (provider: LLMProvider, output: string, success: boolean) => {
+    const model = options.model || selectModel(provider, 'large', options.userSettings);
+    const completionTokens = estimateTokens(output);
+    void recordUsage({
+      ...context,
+      provider,
+      model,
+      operation,
+      promptTokens,
+      completionTokens,
+      // A stream that fails part way was still billed for what it produced
+      costUSD: success || output ? estimateCost(provider, model, promptTokens, completionTokens) : 0,
+      latencyMs: Date.now() - startedAt,
+      success,
+    });
+  };
+
+  return {
+    succeeded: (provider: LLMProvider, output: string) => record(provider, output, true),
+    failed: (provider: LLMProvider) => record(provider, '', false),
+
+    /** Pass a stream through, recording what was produced once it ends or fails */
+    async *stream(provider: LLMProvider, source: AsyncGenerator<string>): AsyncGenerator<string> {
+      let output = '';
+      let failed = false;
+      try {
+        for await (const chunk of source) {
+          output += chunk;
+          yield chunk;
+        }
+      } catch (error) {
+        failed = true;
+        throw error;
+      } finally {
+        record(provider, output, !failed);
+      }
+    },
+  };
+}
+
+/**
+ * Run a JSON completion on one provider. Responses that are not JSON, or that
+ * fail a zod schema, are sent back to the model with what was wrong, up to
+ * maxRepairs times; after that the last AIParseError is thrown.
+ */
+async function completeValidJSON<T>(
+  provider: LLMProvider,
+  client: LLMClient,
+  options: JSONCompletionOptions<T>,
+  context: LLMUsageContext
+): Promise<T> {
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  let messages = options.messages;
+
+  for (let attempt = 0; ; attempt++) {
+    const attemptOptions = { ...options, messages };
+    const usage = trackUsage('json', attemptOptions, context);
+    let result: unknown;
+    try {
+      result = await client.completeJSON<unknown>(attemptOptions);
+      usage.succeeded(provider, JSON.stringify(result) ?? '');
+    } catch (error) {
+      usage.failed(provider);
+      if (!(error instanceof AIParseError) || attempt >= maxRepairs) throw error;
+      console.log(`🔧 ${provider} returned unparseable JSON, asking for a repair (${attempt + 1}/${maxRepairs})`);
+      messages = buildRepairMessages(options.messages, undefined, [
+        { path: '', message: error.technicalDetails || 'Not valid JSON' },
+      ]);
+      continue;
+    }
+
+    const validation = validateJSON(options.schema, result);
+    if (validation.success) {
+      return validation.data;
+    }
+
+    const response = JSON.stringify(result) ?? '';
+    if (attempt >= maxRepairs) {
+      throw new AIParseError(
+        response,
+        `${provider} response did not match the schema after ${maxRepairs} repair attempts`,
+        validation.issues
+      );
+    }
+    console.log(`🔧 ${provider} response failed validation on ${validation.issues.length} path(s), asking for a repair (${attempt + 1}/${maxRepairs})`);
+    messages = buildRepairMessages(options.messages, response, validation.issues);
+  }
+}
+
 /**
  * Create a routed LLM client that handles fallback
  */
@@ -269,17 +425,23 @@ export function createRoutedClient(): LLMClient {
       );
     },
 
-    async complete(options: CompletionOptions): Promise<string> {
+    async complete(requestOptions: CompletionOptions): Promise<string> {
+      const context = resolveUsageContext(requestOptions);
+      const { options, downgraded } = await applyBudget(requestOptions, context);
       const { provider, client } = await selectProvider(options.provider, undefined, options.userSettings);
 
       console.log(`🔀 Router: Using ${provider} for completion`);
 
+      const usage = trackUsage('complete', options, context);
       try {
-        return await client.complete(options);
+        const result = await client.complete(options);
+        usage.succeeded(provider, result);
+        return result;
       } catch (error) {
-        // Try fallback
+        usage.failed(provider);
+        // Try fallback, but never back onto hosted models after a budget downgrade
         const config = getLLMConfig();
-        if (config.fallbackEnabled) {
+        if (config.fallbackEnabled && !downgraded) {
           let fallbackProvider: LLMProvider | null = null;
           let fallbackAvailable = false;
 
@@ -336,25 +498,35 @@ export function createRoutedClient(): LLMClient {
             } else {
               fallbackClient = getOpenRouterClient();
             }
-            return await fallbackClient.complete(options);
+            const fallbackUsage = trackUsage('complete', options, context);
+            try {
+              const result = await fallbackClient.complete(options);
+              fallbackUsage.succeeded(fallbackProvider, result);
+              return result;
+            } catch (fallbackError) {
+              fallbackUsage.failed(fallbackProvider);
+              throw fallbackError;
+            }
           }
         }
         throw error;
       }
     },
 
-    async *streamComplete(options: CompletionOptions): AsyncGenerator<string> {
+    async *streamComplete(requestOptions: CompletionOptions): AsyncGenerator<string> {
+      const context = resolveUsageContext(requestOptions);
+      const { options, downgraded } = await applyBudget(requestOptions, context);
       const { provider, client } = await selectProvider(options.provider, undefined, options.userSettings);
 
       console.log(`🔀 Router: Using ${provider} for streaming`);
 
       try {
-        yield* client.streamComplete(options);
+        yield* trackUsage('stream', options, context).stream(provider, client.streamComplete(options));
       } catch (error) {
         console.error(`❌ ${provider} stream failed:`, error);
-        // Try fallback
+        // Try fallback, but never back onto hosted models after a budget downgrade
         const config = getLLMConfig();
-        if (config.fallbackEnabled) {
+        if (config.fallbackEnabled && !downgraded) {
           let fallbackProvider: LLMProvider | null = null;
           let fallbackAvailable = false;
 
@@ -411,7 +583,7 @@ export function createRoutedClient(): LLMClient {
             } else {
               fallbackClient = getOpenRouterClient();
             }
-            yield* fallbackClient.streamComplete(options);
+            yield* trackUsage('stream', options, context).stream(fallbackProvider, fallbackClient.streamComplete(options));
             return;
           }
         }
@@ -419,17 +591,20 @@ export function createRoutedClient(): LLMClient {
       }
     },
 
-    async completeJSON<T>(options: CompletionOptions & { schema?: string }): Promise<T> {
+    async completeJSON<T>(requestOptions: JSONCompletionOptions<T>): Promise<T> {
+      const context = resolveUsageContext(requestOptions);
+      const budgeted = await applyBudget(requestOptions, context);
+      const options = budgeted.options as JSONCompletionOptions<T>;
       const { provider, client } = await selectProvider(options.provider, undefined, options.userSettings);
 
       console.log(`🔀 Router: Using ${provider} for JSON completion`);
 
       try {
-        return await client.completeJSON<T>(options);
+        return await completeValidJSON(provider, client, options, context);
       } catch (error) {
-        // Try fallback
+        // Try fallback, but never back onto hosted models after a budget downgrade
         const config = getLLMConfig();
-        if (config.fallbackEnabled) {
+        if (config.fallbackEnabled && !budgeted.downgraded) {
           let fallbackProvider: LLMProvider | null = null;
           let fallbackAvailable = false;
 
@@ -491,7 +666,7 @@ export function createRoutedClient(): LLMClient {
             } else {
               fallbackClient = getOpenRouterClient();
             }
-            return await fallbackClient.completeJSON<T>(options);
+            return completeValidJSON(fallbackProvider, fallbackClient, options, context);
           }
         }
         throw error;
@@ -521,7 +696,7 @@ export async function* streamComplete(options: CompletionOptions): AsyncGenerato
   yield* getRoutedClient().streamComplete(options);
 }
 
-export async function completeJSON<T>(options: CompletionOptions & { schema?: string }): Promise<T> {
+export async function completeJSON<T>(options: JSONCompletionOptions<T>): Promise<T> {
   return getRoutedClient().completeJSON<T>(options);
 }
 
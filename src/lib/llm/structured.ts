@@ -0,0 +1,141 @@
+/**
+ * Structured Output
+ * Describes zod schemas to the model, validates JSON completions against them
+ * and builds the follow-up messages that ask the model to repair a response
+ */
+
+import { ZodFirstPartyTypeKind, ZodType, type ZodTypeAny, type ZodTypeDef } from 'zod';
+import type { AIParseIssue } from '@/lib/error-handling/scaffolder-errors';
+import type { ChatMessage, JSONSchema } from './types';
+
+export const DEFAULT_MAX_REPAIRS = 2;
+
+// Issues listed in a repair request; the rest usually follow from the same mistake
+const MAX_REPAIR_ISSUES = 20;
+
+// ============================================================================
+// Schema descriptions
+// ============================================================================
+
+/**
+ * The schema as the text shown to the model, written out as a JSON outline
+ */
+export function describeSchema(schema: JSONSchema): string {
+  return describeType(schema, '', new Set());
+}
+
+// `expanding` holds the lazy schemas being written out, so recursive ones end in "..."
+function describeType(schema: ZodTypeAny, indent: string, expanding: Set<ZodTypeAny>): string {
+  const def = schema._def;
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return 'string';
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const checks: Array<{ kind: string; value?: number }> = def.checks;
+      const min = checks.find(check => check.kind === 'min')?.value;
+      const max = checks.find(check => check.kind === 'max')?.value;
+      const integer = checks.some(check => check.kind === 'int');
+      const range = min !== undefined && max !== undefined ? ` (${min}-${max})` : '';
+      return `${integer ? 'integer' : 'number'}${range}`;
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return 'true|false';
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return JSON.stringify(def.value);
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return (def.values as string[]).map(value => JSON.stringify(value)).join('|');
+    case ZodFirstPartyTypeKind.ZodArray:
+      return `[${describeType(def.type, indent, expanding)}]`;
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, ZodTypeAny> = def.shape();
+      const inner = `${indent}  `;
+      const lines = Object.entries(shape).map(([key, value]) => {
+        const comment = value.description ? ` // ${value.description}` : '';
+        return `${inner}"${key}"${value.isOptional() ? '?' : ''}: ${describeType(value, inner, expanding)}${comment}`;
+      });
+      return lines.length ? `{\n${lines.join(',\n')}\n${indent}}` : '{}';
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return `{ [key: string]: ${describeType(def.valueType, indent, expanding)} }`;
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return (def.options as ZodTypeAny[]).map(option => describeType(option, indent, expanding)).join('|');
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return `${describeType(def.innerType, indent, expanding)}|null`;
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodDefault:
+    case ZodFirstPartyTypeKind.ZodCatch:
+      return describeType(def.innerType, indent, expanding);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return describeType(def.schema, indent, expanding);
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return expanding.has(schema) ? '...' : describeType(def.getter(), indent, new Set(expanding).add(schema));
+    default:
+      return 'any';
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Path of a zod issue the way it reads in code, e.g. "schemas[0].fields[2].type"
+ */
+export function formatIssuePath(path: Array<string | number>): string {
+  return path.reduce<string>(
+    (formatted, segment) => (typeof segment === 'number' ? `${formatted}[${segment}]` : formatted ? `${formatted}.${segment}` : segment),
+    ''
+  );
+}
+
+export type JSONValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: AIParseIssue[] };
+
+/**
+ * Check a parsed response against a zod schema. The data returned on success is
+ * zod's output, so defaults and transforms in the schema are applied.
+ */
+export function validateJSON<T>(schema: ZodType<T, ZodTypeDef, unknown>, value: unknown): JSONValidationResult<T> {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    issues: result.error.issues.map(issue => ({ path: formatIssuePath(issue.path), message: issue.message })),
+  };
+}
+
+// ============================================================================
+// Repair
+// ============================================================================
+
+export function formatIssues(issues: AIParseIssue[]): string {
+  const listed = issues.slice(0, MAX_REPAIR_ISSUES).map(issue => `- ${issue.path || '(response)'}: ${issue.message}`);
+  if (issues.length > MAX_REPAIR_ISSUES) {
+    listed.push(`- ...and ${issues.length - MAX_REPAIR_ISSUES} more`);
+  }
+  return listed.join('\n');
+}
+
+/**
+ * The original conversation followed by the rejected response (when it could
+ * be parsed) and a request to fix the listed issues
+ */
+export function buildRepairMessages(
+  messages: ChatMessage[],
+  response: string | undefined,
+  issues: AIParseIssue[]
+): ChatMessage[] {
+  const repaired = [...messages];
+  if (response !== undefined) {
+    repaired.push({ role: 'assistant', content: response });
+  }
+  repaired.push({
+    role: 'user',
+    content: `Your previous response was rejected:\n${formatIssues(issues)}\n\nRespond again with the complete, corrected JSON only.`,
+  });
+  return repaired;
+}
@@ -3,6 +3,8 @@
  * Shared type definitions for LLM providers
  */
 
+import type { ZodType, ZodTypeDef } from 'zod';
+
 export type LLMProvider = 'ollama' | 'openrouter' | 'lmstudio' | 'deepseek' | 'auto';
 
 export interface LLMConfig {
@@ -39,6 +41,19 @@ export interface CompletionOptions {
   model?: string; // Override default model
   provider?: LLMProvider; // Override default provider
   userSettings?: UserLLMSettings; // User-specific LLM settings
+  agent?: string; // Caller name, for usage accounting
+}
+
+/**
+ * Expected shape of a JSON completion: a zod schema that is described to the
+ * model and that the response is validated against
+ */
+export type JSONSchema<T = unknown> = ZodType<T, ZodTypeDef, unknown>;
+
+export interface JSONCompletionOptions<T = unknown> extends CompletionOptions {
+  schema: JSONSchema<T>;
+  /** How many times the model is asked to fix an invalid response before giving up (default 2) */
+  maxRepairs?: number;
 }
 
 export interface UserLLMSettings {
@@ -82,8 +97,8 @@ export interface LLMClient {
   /** Streaming completion */
   streamComplete(options: CompletionOptions): AsyncGenerator<string>;
   
-  /** JSON mode completion */
-  completeJSON<T>(options: CompletionOptions & { schema?: string }): Promise<T>;
+  /** JSON mode completion (the routed client also validates it against a zod schema) */
+  completeJSON<T>(options: JSONCompletionOptions<T>): Promise<T>;
 }
 
 export interface HealthCheckResult {
@@ -0,0 +1,315 @@
+/**
+ * LLM Usage Accounting
+ * Records tokens, latency and estimated cost of every routed call against the
+ * user, conversation and agent, and tracks per-plan monthly budgets
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import prisma from '@/lib/db';
+import { effectivePlan } from '@/lib/billing';
+import type { ChatMessage, CompletionOptions, LLMProvider } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UsageOperation = 'complete' | 'stream' | 'json';
+
+/**
+ * Who a call is billed to. Routes set the user and conversation for a whole
+ * request; agents add their own name per call.
+ */
+export interface LLMUsageContext {
+  userId?: string;
+  conversationId?: string;
+  agent?: string;
+}
+
+export interface LLMUsageRecord extends LLMUsageContext {
+  provider: LLMProvider;
+  model: string;
+  operation: UsageOperation;
+  promptTokens: number;
+  completionTokens: number;
+  costUSD: number;
+  latencyMs: number;
+  success: boolean;
+}
+
+export interface BudgetStatus {
+  plan: string;
+  limitUSD: number;
+  usedUSD: number;
+  remainingUSD: number;
+  exhausted: boolean;
+  periodStart: Date;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUSD: number;
+}
+
+export interface UsageSummary {
+  since: Date;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { date: string }>;
+  byProvider: Array<UsageTotals & { provider: string; model: string }>;
+  byAgent: Array<UsageTotals & { agent: string }>;
+  budget: BudgetStatus;
+}
+
+/**
+ * Raised by the router when a user's hosted budget is used up and no local
+ * provider is available to downgrade to
+ */
+export class BudgetExceededError extends Error {
+  public readonly code = 'BUDGET_EXCEEDED';
+  public readonly budget: BudgetStatus;
+
+  constructor(budget: BudgetStatus) {
+    super(
+      `Monthly AI budget for the ${budget.plan} plan is used up ` +
+      `($${budget.usedUSD.toFixed(2)} of $${budget.limitUSD.toFixed(2)})`
+    );
+    this.name = 'BudgetExceededError';
+    this.budget = budget;
+  }
+}
+
+// ============================================================================
+// Context
+// ============================================================================
+
+const usageContext = new AsyncLocalStorage<LLMUsageContext>();
+
+/**
+ * Run `fn` with calls inside it attributed to `context`. Nested contexts
+ * inherit fields they don't set.
+ */
+export function runWithUsageContext<T>(context: LLMUsageContext, fn: () => T): T {
+  return usageContext.run({ ...usageContext.getStore(), ...context }, fn);
+}
+
+/**
+ * Attach the conversation to the current context once it has an id
+ */
+export function setUsageConversationId(conversationId: string): void {
+  const store = usageContext.getStore();
+  if (store) store.conversationId = conversationId;
+}
+
+/**
+ * Attribution for one call: explicit options win over the request context
+ */
+export function resolveUsageContext(options: CompletionOptions): LLMUsageContext {
+  const store = usageContext.getStore() || {};
+  return {
+    userId: options.userSettings?.userId || store.userId,
+    conversationId: store.conversationId,
+    agent: options.agent || store.agent,
+  };
+}
+
+// ============================================================================
+// Tokens & cost
+// ============================================================================
+
+/** Providers that run on the user's own hardware and cost nothing */
+export const LOCAL_PROVIDERS: LLMProvider[] = ['ollama', 'lmstudio'];
+
+/** USD per million tokens */
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 },
+  'qwen/qwen-2.5-coder-32b-instruct': { input: 0.07, output: 0.16 },
+  'qwen/qwen3-coder': { input: 0.22, output: 0.95 },
+};
+
+/** Used for hosted models missing from the table, so they are never free */
+const DEFAULT_HOSTED_PRICE: ModelPrice = { input: 1, output: 3 };
+
+export function isLocalProvider(provider: LLMProvider): boolean {
+  return LOCAL_PROVIDERS.includes(provider);
+}
+
+/**
+ * Rough token count (~4 characters per token); providers don't report usage
+ * through the client interface
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+  // ~4 tokens of role/formatting overhead per message
+  return messages.reduce((sum, message) => sum + estimateTokens(message.content) + 4, 0);
+}
+
+export function estimateCost(
+  provider: LLMProvider,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  if (isLocalProvider(provider) || model.endsWith(':free')) return 0;
+
+  const price = MODEL_PRICES[model] || DEFAULT_HOSTED_PRICE;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+/** Monthly spend on hosted providers per plan, in USD. Local models are unmetered. */
+export const PLAN_BUDGETS: Record<string, number> = {
+  FREE: 1,
+  PLUS: 20,
+  PRO: 100,
+};
+
+export function getPlanBudget(plan: string | null | undefined): number {
+  return PLAN_BUDGETS[plan || 'FREE'] ?? PLAN_BUDGETS.FREE;
+}
+
+/**
+ * Budgets reset on the first of each month (UTC)
+ */
+export function currentPeriodStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export async function getBudgetStatus(userId: string): Promise<BudgetStatus> {
+  const periodStart = currentPeriodStart();
+  const [user, usage] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { plan: true, subscriptionStatus: true } }),
+    prisma.lLMUsage.aggregate({
+      where: { userId, createdAt: { gte: periodStart } },
+      _sum: { costUSD: true },
+    }),
+  ]);
+
+  // Lapsed subscriptions fall back to the Free budget
+  const plan = effectivePlan(user);
+  const limitUSD = getPlanBudget(plan);
+  const usedUSD = usage._sum.costUSD || 0;
+
+  return {
+    plan,
+    limitUSD,
+    usedUSD,
+    remainingUSD: Math.max(0, limitUSD - usedUSD),
+    exhausted: usedUSD >= limitUSD,
+    periodStart,
+  };
+}
+
+// ============================================================================
+// Recording & reporting
+// ============================================================================
+
+/**
+ * Store one call. Failures are logged and never break the completion itself.
+ * Calls without a user (background jobs, scripts) are not recorded.
+ */
+export async function recordUsage(record: LLMUsageRecord): Promise<void> {
+  if (!record.userId) return;
+
+  try {
+    await prisma.lLMUsage.create({
+      data: {
+        userId: record.userId,
+        conversationId: record.conversationId,
+        agent: record.agent,
+        provider: record.provider,
+        model: record.model,
+        operation: record.operation,
+        promptTokens: record.promptTokens,
+        completionTokens: record.completionTokens,
+        costUSD: record.costUSD,
+        latencyMs: record.latencyMs,
+        success: record.success,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to record LLM usage:', error);
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, costUSD: 0 };
+}
+
+function addTo(totals: UsageTotals, row: { promptTokens: number; completionTokens: number; costUSD: number }): void {
+  totals.calls += 1;
+  totals.promptTokens += row.promptTokens;
+  totals.completionTokens += row.completionTokens;
+  totals.costUSD += row.costUSD;
+}
+
+/**
+ * Usage for the settings dashboard: totals, a daily series and breakdowns by
+ * provider/model and agent over the last `days` days
+ */
+export async function getUsageSummary(userId: string, days = 30): Promise<UsageSummary> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const [rows, budget] = await Promise.all([
+    prisma.lLMUsage.findMany({
+      where: { userId, createdAt: { gte: since } },
+      select: {
+        provider: true,
+        model: true,
+        agent: true,
+        promptTokens: true,
+        completionTokens: true,
+        costUSD: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    getBudgetStatus(userId),
+  ]);
+
+  const totals = emptyTotals();
+  const byDay = new Map<string, UsageTotals & { date: string }>();
+  const byProvider = new Map<string, UsageTotals & { provider: string; model: string }>();
+  const byAgent = new Map<string, UsageTotals & { agent: string }>();
+
+  for (const row of rows) {
+    addTo(totals, row);
+
+    const date = row.createdAt.toISOString().slice(0, 10);
+    if (!byDay.has(date)) byDay.set(date, { date, ...emptyTotals() });
+    addTo(byDay.get(date)!, row);
+
+    const providerKey = `${row.provider}:${row.model}`;
+    if (!byProvider.has(providerKey)) {
+      byProvider.set(providerKey, { provider: row.provider, model: row.model, ...emptyTotals() });
+    }
+    addTo(byProvider.get(providerKey)!, row);
+
+    const agent = row.agent || 'other';
+    if (!byAgent.has(agent)) byAgent.set(agent, { agent, ...emptyTotals() });
+    addTo(byAgent.get(agent)!, row);
+  }
+
+  const byCost = (a: UsageTotals, b: UsageTotals) =>
+    b.costUSD - a.costUSD || (b.promptTokens + b.completionTokens) - (a.promptTokens + a.completionTokens);
+
+  return {
+    since,
+    totals,
+    byDay: Array.from(byDay.values()),
+    byProvider: Array.from(byProvider.values()).sort(byCost),
+    byAgent: Array.from(byAgent.values()).sort(byCost),
+    budget,
+  };
+}
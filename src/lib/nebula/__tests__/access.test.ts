@@ -0,0 +1,104 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Nebula App Access Tests
+ * Tests for visibility modes, share-link and password grants, and revocation
+ */
+
+import {
+  canWrite,
+  hashAccessPassword,
+  resolveAppAccess,
+  signAccessGrant,
+  verifyAccessPassword,
+  type AppAccessSettings,
+} from '../access';
+
+process.env.NEXTAUTH_SECRET = 'test-secret';
+
+function app(overrides: Partial<AppAccessSettings> = {}): AppAccessSettings {
+  return {
+    id: 'app-1',
+    userId: 'owner',
+    visibility: 'PRIVATE',
+    shareToken: null,
+    accessPasswordHash: null,
+    ...overrides,
+  };
+}
+
+describe('resolveAppAccess', () => {
+  it('should always give the owner full access', () => {
+    for (const visibility of ['PRIVATE', 'LINK', 'PASSWORD', 'PUBLIC']) {
+      expect(resolveAppAccess(app({ visibility }), { userId: 'owner' })).toEqual({ allowed: true, level: 'owner' });
+    }
+  });
+
+  it('should ask anonymous visitors of a private app to sign in', () => {
+    expect(resolveAppAccess(app(), {})).toEqual({ allowed: false, reason: 'signin' });
+    expect(resolveAppAccess(app(), { userId: 'someone-else' })).toEqual({ allowed: false, reason: 'forbidden' });
+  });
+
+  it('should treat unknown visibility values as private', () => {
+    expect(resolveAppAccess(app({ visibility: 'SHARED' }), {}).allowed).toBe(false);
+  });
+
+  it('should make public apps read-only', () => {
+    const decision = resolveAppAccess(app({ visibility: 'PUBLIC' }), {});
+    expect(decision).toEqual({ allowed: true, level: 'read' });
+    expect(canWrite(decision.allowed ? decision.level : null)).toBe(false);
+  });
+
+  it('should grant share-link visitors write access and a cookie to keep it', () => {
+    const linked = app({ visibility: 'LINK', shareToken: 'secret-token' });
+    const decision = resolveAppAccess(linked, { token: 'secret-token' });
+    expect(decision).toMatchObject({ allowed: true, level: 'write' });
+
+    const grant = decision.allowed ? decision.grant : undefined;
+    expect(grant).toBeTruthy();
+    expect(resolveAppAccess(linked, { grant })).toEqual({ allowed: true, level: 'write' });
+    expect(resolveAppAccess(linked, { token: 'wrong-token' }).allowed).toBe(false);
+  });
+
+  it('should revoke share-link grants when the token is rotated', () => {
+    const grant = signAccessGrant(app({ visibility: 'LINK', shareToken: 'old-token' }));
+    const rotated = app({ visibility: 'LINK', shareToken: 'new-token' });
+    expect(resolveAppAccess(rotated, { grant }).allowed).toBe(false);
+  });
+
+  it('should require a password grant for password-protected apps', () => {
+    const hash = hashAccessPassword('hunter22');
+    const protectedApp = app({ visibility: 'PASSWORD', accessPasswordHash: hash });
+
+    expect(resolveAppAccess(protectedApp, {})).toEqual({ allowed: false, reason: 'password' });
+    expect(resolveAppAccess(protectedApp, { grant: signAccessGrant(protectedApp) })).toEqual({ allowed: true, level: 'write' });
+
+    const changed = { ...protectedApp, accessPasswordHash: hashAccessPassword('hunter22') };
+    expect(resolveAppAccess(changed, { grant: signAccessGrant(protectedApp) }).allowed).toBe(false);
+  });
+
+  it('should give members their role in any visibility mode', () => {
+    expect(resolveAppAccess(app(), { userId: 'member', role: 'editor' })).toEqual({ allowed: true, level: 'write' });
+    expect(resolveAppAccess(app(), { userId: 'member', role: 'viewer' })).toEqual({ allowed: true, level: 'read' });
+
+    const linked = app({ visibility: 'LINK', shareToken: 'secret-token' });
+    expect(resolveAppAccess(linked, { userId: 'member', role: 'viewer', token: 'secret-token' }))
+      .toMatchObject({ allowed: true, level: 'write' });
+  });
+
+  it('should not accept a grant issued for another app', () => {
+    const grant = signAccessGrant(app({ id: 'app-2', visibility: 'LINK', shareToken: 'token' }));
+    expect(resolveAppAccess(app({ visibility: 'LINK', shareToken: 'token' }), { grant }).allowed).toBe(false);
+  });
+});
+
+describe('access passwords', () => {
+  it('should verify only the original password', () => {
+    const hash = hashAccessPassword('correct horse');
+    expect(verifyAccessPassword('correct horse', hash)).toBe(true);
+    expect(verifyAccessPassword('wrong horse', hash)).toBe(false);
+    expect(verifyAccessPassword('correct horse', null)).toBe(false);
+  });
+});
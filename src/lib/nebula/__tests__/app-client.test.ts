@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Nebula App Data Client Tests
+ * Tests for the browser useAppData hook that runner and worker pages both embed
+ */
+
+import { appDataClientScript } from '../app-client';
+
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  listeners: Record<string, (event: { data?: string }) => void> = {};
+  closed = false;
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: { data?: string }) => void) {
+    this.listeners[type] = listener;
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+/** Run the client script with just enough of React for one hook call */
+function loadHook(initialData: any[]) {
+  let data: any[] = initialData;
+  const React = {
+    useState: (initial: any) => [initial, (next: any) => { data = typeof next === 'function' ? next(data) : next; }],
+    useRef: (current: any) => ({ current }),
+    useEffect: (effect: () => void) => { effect(); },
+  };
+  const fetch = jest.fn(async () => ({ ok: true, json: async () => ({ data }) }));
+  const window: Record<string, any> = {};
+  new Function('React', 'APP_PROPS', 'window', 'EventSource', 'fetch', appDataClientScript('Task'))(
+    React, { appId: 'app-1', initialData }, window, FakeEventSource, fetch
+  );
+  return { hook: window.useAppData(), fetch, getData: () => data };
+}
+
+beforeEach(() => {
+  FakeEventSource.instances = [];
+});
+
+describe('appDataClientScript', () => {
+  it('should subscribe to the app change feed through the serve route', () => {
+    loadHook([]);
+
+    expect(FakeEventSource.instances).toHaveLength(1);
+    expect(FakeEventSource.instances[0].url).toBe('/s/app-1/api/nebula/changes');
+  });
+
+  it('should merge pushed changes for the primary collection', () => {
+    const { getData } = loadHook([{ id: 'a', title: 'Old', updatedAt: '2026-01-01T00:00:00.000Z' }]);
+    const feed = FakeEventSource.instances[0];
+
+    feed.listeners.change({ data: JSON.stringify({ type: 'update', collection: 'task', record: { id: 'a', title: 'New', updatedAt: '2026-01-02T00:00:00.000Z' } }) });
+    feed.listeners.change({ data: JSON.stringify({ type: 'add', collection: 'Project', record: { id: 'p' } }) });
+
+    expect(getData()).toEqual([{ id: 'a', title: 'New', updatedAt: '2026-01-02T00:00:00.000Z' }]);
+  });
+
+  it('should ignore a pushed change older than the record held', () => {
+    const current = { id: 'a', title: 'Mine', updatedAt: '2026-01-02T00:00:00.000Z' };
+    const { getData } = loadHook([current]);
+
+    FakeEventSource.instances[0].listeners.change({
+      data: JSON.stringify({ type: 'update', collection: 'Task', record: { id: 'a', title: 'Stale', updatedAt: '2026-01-01T00:00:00.000Z' } }),
+    });
+
+    expect(getData()).toEqual([current]);
+  });
+
+  it('should send the held version when an update checks it', async () => {
+    const { hook, fetch } = loadHook([{ id: 'a', title: 'Old', updatedAt: '2026-01-01T00:00:00.000Z' }]);
+
+    await hook.updateRecord('a', { title: 'New' }, { checkVersion: true });
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, { body: string }];
+    expect(url).toBe('/s/app-1/api/nebula/data');
+    expect(JSON.parse(init.body)).toMatchObject({ action: 'update', id: 'a', expectedUpdatedAt: '2026-01-01T00:00:00.000Z' });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Nebula App Bundle Tests
+ * Tests for source hashing, compilation and bundle invalidation
+ */
+
+import {
+  bundleSourceHash,
+  bundleUrl,
+  compileBundle,
+  ensureAppBundle,
+  resolveBundleSource,
+} from '../bundle';
+
+interface StoredBundle {
+  appId: string;
+  hash: string;
+  sourceHash: string;
+  code: string;
+  size: number;
+}
+
+const stored: StoredBundle[] = [];
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    appBundle: {
+      findFirst: async ({ where }: any) => {
+        const bundle = stored.find(b => b.appId === where.appId && b.sourceHash === where.sourceHash);
+        return bundle ? { hash: bundle.hash, sourceHash: bundle.sourceHash, size: bundle.size } : null;
+      },
+      upsert: async ({ create }: any) => {
+        stored.push(create);
+        return create;
+      },
+      deleteMany: async ({ where }: any) => {
+        for (let i = stored.length - 1; i >= 0; i--) {
+          if (stored[i].appId === where.appId && stored[i].hash !== where.NOT.hash) stored.splice(i, 1);
+        }
+        return { count: 0 };
+      },
+    },
+  },
+}));
+
+const componentFiles = {
+  'App.tsx': "import { Title } from './components/Title';\nexport default function App() { return <Title />; }",
+  'components/Title.tsx': "export function Title() { return <h1>Tasks</h1>; }",
+};
+
+describe('resolveBundleSource', () => {
+  it('should prefer component files with an App.tsx entry', () => {
+    const source = resolveBundleSource(JSON.stringify(componentFiles), JSON.stringify({ pageComponent: 'x' }));
+    expect(source?.kind).toBe('v2');
+  });
+
+  it('should fall back to the V1 page component', () => {
+    const source = resolveBundleSource(null, JSON.stringify({ pageComponent: 'export default () => null;' }));
+    expect(source).toEqual({ kind: 'v1', code: 'export default () => null;' });
+  });
+
+  it('should return null for apps without code', () => {
+    expect(resolveBundleSource(null, '{}')).toBeNull();
+    expect(resolveBundleSource('not json', null)).toBeNull();
+  });
+});
+
+describe('bundleSourceHash', () => {
+  it('should not depend on file order', () => {
+    const reordered = {
+      'components/Title.tsx': componentFiles['components/Title.tsx'],
+      'App.tsx': componentFiles['App.tsx'],
+    };
+    expect(bundleSourceHash({ kind: 'v2', componentFiles: reordered }))
+      .toBe(bundleSourceHash({ kind: 'v2', componentFiles }));
+  });
+
+  it('should change when any file changes', () => {
+    const edited = { ...componentFiles, 'components/Title.tsx': 'export function Title() { return null; }' };
+    expect(bundleSourceHash({ kind: 'v2', componentFiles: edited }))
+      .not.toBe(bundleSourceHash({ kind: 'v2', componentFiles }));
+  });
+});
+
+describe('compileBundle', () => {
+  it('should bundle relative imports and keep packages external', async () => {
+    const code = await compileBundle({
+      kind: 'v2',
+      componentFiles: { ...componentFiles, 'App.tsx': "import React from 'react';\n" + componentFiles['App.tsx'] },
+    });
+    expect(code).toContain('Tasks');
+    expect(code).toMatch(/from "react"/);
+  });
+});
+
+describe('ensureAppBundle', () => {
+  beforeEach(() => {
+    stored.length = 0;
+  });
+
+  it('should build once and reuse the bundle while the code is unchanged', async () => {
+    const app = { id: 'app-1', componentFiles: JSON.stringify(componentFiles) };
+    const first = await ensureAppBundle(app);
+    const second = await ensureAppBundle(app);
+
+    expect(first?.hash).toMatch(/^[a-f0-9]{32}$/);
+    expect(second).toEqual(first);
+    expect(stored).toHaveLength(1);
+    expect(bundleUrl('app-1', first!.hash)).toBe(`/api/nebula/bundle/app-1/${first!.hash}.js`);
+  });
+
+  it('should replace the bundle when the component files change', async () => {
+    const first = await ensureAppBundle({ id: 'app-1', componentFiles });
+    const edited = { ...componentFiles, 'components/Title.tsx': 'export function Title() { return <h1>Done</h1>; }' };
+    const second = await ensureAppBundle({ id: 'app-1', componentFiles: edited });
+
+    expect(second?.hash).not.toBe(first?.hash);
+    expect(stored.map(b => b.hash)).toEqual([second?.hash]);
+  });
+});
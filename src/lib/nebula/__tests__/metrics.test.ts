@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Nebula Worker Metrics Tests
+ * Tests for latency histograms, CPU strikes and restart backoff
+ */
+
+import { LatencyHistogram, AppMetrics, restartDelay, LATENCY_BUCKETS_MS } from '../metrics';
+
+describe('LatencyHistogram', () => {
+  it('should report nothing before any request', () => {
+    const snapshot = new LatencyHistogram().snapshot();
+    expect(snapshot.count).toBe(0);
+    expect(snapshot.p50).toBeNull();
+    expect(snapshot.buckets).toHaveLength(LATENCY_BUCKETS_MS.length + 1);
+  });
+
+  it('should count requests into cumulative buckets', () => {
+    const histogram = new LatencyHistogram();
+    [3, 8, 8, 40, 300].forEach(ms => histogram.record(ms));
+
+    const snapshot = histogram.snapshot();
+    expect(snapshot.count).toBe(5);
+    expect(snapshot.sumMs).toBe(359);
+    expect(snapshot.maxMs).toBe(300);
+    expect(snapshot.buckets.find(bucket => bucket.le === 10)?.count).toBe(3);
+    expect(snapshot.buckets.find(bucket => bucket.le === 50)?.count).toBe(4);
+    expect(snapshot.buckets[snapshot.buckets.length - 1]).toEqual({ le: null, count: 5 });
+  });
+
+  it('should estimate percentiles from bucket bounds', () => {
+    const histogram = new LatencyHistogram();
+    for (let i = 0; i < 95; i++) histogram.record(20);
+    for (let i = 0; i < 5; i++) histogram.record(20000);
+
+    const snapshot = histogram.snapshot();
+    expect(snapshot.p50).toBe(25);
+    expect(snapshot.p95).toBe(25);
+    // Requests beyond the last bucket report the slowest request seen
+    expect(snapshot.p99).toBe(20000);
+  });
+});
+
+describe('AppMetrics', () => {
+  it('should count requests and errors', () => {
+    const metrics = new AppMetrics();
+    metrics.recordRequest(12, false);
+    metrics.recordRequest(30, true);
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.requests).toBe(2);
+    expect(snapshot.errors).toBe(1);
+    expect(snapshot.latency.count).toBe(2);
+  });
+
+  it('should only flag CPU after consecutive samples over the limit', () => {
+    const metrics = new AppMetrics();
+    expect(metrics.recordCpu(95, 90, 3)).toBe(false);
+    expect(metrics.recordCpu(99, 90, 3)).toBe(false);
+    expect(metrics.recordCpu(40, 90, 3)).toBe(false);
+    expect(metrics.cpuStrikes).toBe(0);
+
+    metrics.recordCpu(95, 90, 3);
+    metrics.recordCpu(95, 90, 3);
+    expect(metrics.recordCpu(95, 90, 3)).toBe(true);
+  });
+});
+
+describe('restartDelay', () => {
+  const config = { restartBackoffMS: 1000, restartBackoffMaxMS: 10000 };
+
+  it('should double with each consecutive restart up to the cap', () => {
+    expect([1, 2, 3, 4, 5, 6].map(attempt => restartDelay(attempt, config))).toEqual([
+      1000, 2000, 4000, 8000, 10000, 10000,
+    ]);
+  });
+});
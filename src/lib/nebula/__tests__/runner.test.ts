@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Nebula Runner Tests
+ * Tests for the status codes of the app data API
+ */
+
+import { handleDataRequest, NEBULA_DATA_PATH, type NebulaRequest } from '../runner';
+import { NEBULA_ACCESS_HEADER } from '../access';
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    app: {
+      findUnique: async ({ where }: any) => ({ id: where.id, userId: 'owner', spec: null, data: null }),
+    },
+  },
+}));
+
+jest.mock('../db-manager', () => {
+  const Database = jest.requireActual('better-sqlite3');
+  const dbs = new Map<string, unknown>();
+  return {
+    nebulaDbManager: {
+      getDb: (appId: string) => {
+        if (!dbs.has(appId)) dbs.set(appId, new Database(':memory:'));
+        return dbs.get(appId);
+      },
+    },
+  };
+});
+
+function post(body: string | null): NebulaRequest {
+  return {
+    method: 'POST',
+    path: NEBULA_DATA_PATH,
+    query: {},
+    headers: { [NEBULA_ACCESS_HEADER]: 'owner' },
+    body,
+  };
+}
+
+describe('handleDataRequest', () => {
+  it('should reject a body that is not JSON with 400', async () => {
+    const response = await handleDataRequest('app-json', post('{"action": "add"'));
+
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.body).error).toMatch(/valid JSON/);
+  });
+
+  it('should answer 404 when deleting a record that does not exist', async () => {
+    const response = await handleDataRequest('app-delete', post(JSON.stringify({ action: 'delete', id: 'missing' })));
+
+    expect(response.status).toBe(404);
+    expect(JSON.parse(response.body).error).toBe('Record not found');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Nebula App Access Control
+ * Decides who may open a hosted app at /s/[appId] and whether they may write
+ * its data, based on the app's visibility mode
+ */
+
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import type { AppRole } from '@/lib/collaboration/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * - PRIVATE: only the owner, signed in
+ * - LINK: anyone holding the current share token
+ * - PASSWORD: anyone who enters the app password
+ * - PUBLIC: anyone, read-only
+ */
+export type AppVisibility = 'PRIVATE' | 'LINK' | 'PASSWORD' | 'PUBLIC';
+
+export const APP_VISIBILITIES: AppVisibility[] = ['PRIVATE', 'LINK', 'PASSWORD', 'PUBLIC'];
+
+export type AppAccessLevel = 'owner' | 'write' | 'read';
+
+/** App columns access is decided from */
+export interface AppAccessSettings {
+  id: string;
+  userId: string;
+  visibility: string;
+  shareToken: string | null;
+  accessPasswordHash: string | null;
+}
+
+/** What the visitor presented */
+export interface AccessCredentials {
+  userId?: string | null;
+  /** Signed-in visitor's membership role on the app */
+  role?: AppRole | null;
+  /** Share token from the link's query string */
+  token?: string | null;
+  /** Grant cookie from an earlier share-link visit or password unlock */
+  grant?: string | null;
+}
+
+export type AccessDecision =
+  | { allowed: true; level: AppAccessLevel; /** Cookie value to remember a link/password grant */ grant?: string }
+  | { allowed: false; reason: 'signin' | 'forbidden' | 'password' };
+
+/**
+ * Request header carrying the access level into the runner. The serve route
+ * always overwrites it; the middleware drops any value a client sends.
+ */
+export const NEBULA_ACCESS_HEADER = 'x-nebula-access';
+
+/** Query parameter share links carry their token in */
+export const SHARE_TOKEN_PARAM = 'token';
+
+/** App path the password form posts to */
+export const UNLOCK_PATH = '/__nebula/unlock';
+
+export function accessCookieName(appId: string): string {
+  return `nebula_access_${appId}`;
+}
+
+export function isAppVisibility(value: unknown): value is AppVisibility {
+  return APP_VISIBILITIES.includes(value as AppVisibility);
+}
+
+export function canWrite(level: string | null | undefined): boolean {
+  return level === 'owner' || level === 'write';
+}
+
+// ============================================================================
+// Secrets
+// ============================================================================
+
+export function generateShareToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Hash an app password as `scrypt$<salt>$<hash>`
+ */
+export function hashAccessPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, 32).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyAccessPassword(password: string, stored: string | null): boolean {
+  const [scheme, salt, hash] = (stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  return safeEqual(scryptSync(password, salt, 32).toString('hex'), hash);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function grantSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET is required to sign app access grants');
+  }
+  return secret;
+}
+
+/**
+ * The secret a grant is bound to. Rotating the share token or changing the
+ * password changes it, which revokes every grant issued before.
+ */
+function grantCredential(app: AppAccessSettings): string | null {
+  if (app.visibility === 'LINK') return app.shareToken;
+  if (app.visibility === 'PASSWORD') return app.accessPasswordHash;
+  return null;
+}
+
+/**
+ * Cookie value proving the visitor passed the app's link or password check
+ */
+export function signAccessGrant(app: AppAccessSettings): string | null {
+  const credential = grantCredential(app);
+  if (!credential) return null;
+
+  const signature = createHmac('sha256', grantSecret())
+    .update(`${app.id}:${app.visibility}:${credential}`)
+    .digest('base64url');
+  return `${app.visibility}.${signature}`;
+}
+
+export function verifyAccessGrant(app: AppAccessSettings, grant: string | null | undefined): boolean {
+  if (!grant) return false;
+  const expected = signAccessGrant(app);
+  return !!expected && safeEqual(grant, expected);
+}
+
+// ============================================================================
+// Decision
+// ============================================================================
+
+/**
+ * Decide what a visitor may do with an app. Members keep their role in every
+ * visibility mode; a viewer can still write through a share link or password
+ * if the app offers one. Unknown visibility values are treated as PRIVATE.
+ */
+export function resolveAppAccess(app: AppAccessSettings, credentials: AccessCredentials): AccessDecision {
+  if (credentials.userId && credentials.userId === app.userId) {
+    return { allowed: true, level: 'owner' };
+  }
+
+  if (credentials.role === 'editor' || credentials.role === 'admin') {
+    return { allowed: true, level: 'write' };
+  }
+
+  const decision = resolveVisibility(app, credentials);
+  if (credentials.role === 'viewer' && !(decision.allowed && decision.level === 'write')) {
+    return { allowed: true, level: 'read' };
+  }
+  return decision;
+}
+
+function resolveVisibility(app: AppAccessSettings, credentials: AccessCredentials): AccessDecision {
+  const denied: AccessDecision = { allowed: false, reason: credentials.userId ? 'forbidden' : 'signin' };
+
+  switch (app.visibility) {
+    case 'PUBLIC':
+      return { allowed: true, level: 'read' };
+
+    case 'LINK':
+      if (app.shareToken && credentials.token && safeEqual(credentials.token, app.shareToken)) {
+        return { allowed: true, level: 'write', grant: signAccessGrant(app) || undefined };
+      }
+      return verifyAccessGrant(app, credentials.grant) ? { allowed: true, level: 'write' } : denied;
+
+    case 'PASSWORD':
+      return verifyAccessGrant(app, credentials.grant)
+        ? { allowed: true, level: 'write' }
+        : { allowed: false, reason: 'password' };
+
+    default:
+      return denied;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Nebula App Data Client
+ * Browser-side useAppData hook shared by every page that hosts a generated app,
+ * whether rendered by the runner or by an app's worker thread
+ */
+
+/** App path of the data API */
+export const NEBULA_DATA_PATH = '/api/nebula/data';
+
+/**
+ * App path of the Server-Sent Events change feed. The serve route streams it
+ * directly, since worker responses are buffered.
+ */
+export const NEBULA_CHANGES_PATH = '/api/nebula/changes';
+
+/**
+ * Script that defines window.useAppData: reads, optimistic writes, version
+ * checked updates and live changes from the change feed. It runs inside the
+ * page's module script, after React and APP_PROPS are defined.
+ */
+export function appDataClientScript(primaryCollection: string): string {
+  return `
+        // Data requests go through /s/<appId> so the serve route's access check applies
+        const DATA_URL = '/s/' + APP_PROPS.appId + '${NEBULA_DATA_PATH}';
+        const CHANGES_URL = '/s/' + APP_PROPS.appId + '${NEBULA_CHANGES_PATH}';
+        const PRIMARY_COLLECTION = ${JSON.stringify(primaryCollection)};
+
+        // Every useAppData hook on the page shares one change feed connection.
+        // EventSource reconnects by itself and resumes from the last event it saw.
+        const changeHandlers = new Set();
+        let changeSource = null;
+        const subscribeToChanges = (handler) => {
+            changeHandlers.add(handler);
+            if (!changeSource && typeof EventSource !== 'undefined') {
+                changeSource = new EventSource(CHANGES_URL);
+                changeSource.addEventListener('change', (event) => {
+                    const change = JSON.parse(event.data);
+                    changeHandlers.forEach(notify => notify(change));
+                });
+                // The server couldn't replay what was missed while disconnected
+                changeSource.addEventListener('reset', () => {
+                    changeHandlers.forEach(notify => notify({ type: 'reset' }));
+                });
+            }
+            return () => {
+                changeHandlers.delete(handler);
+                if (changeHandlers.size === 0 && changeSource) {
+                    changeSource.close();
+                    changeSource = null;
+                }
+            };
+        };
+
+        // Merge a pushed change into a list of records. updatedAt is the record's
+        // version: a change older than the copy already held is ignored, otherwise
+        // the latest write wins.
+        const applyChange = (records, change) => {
+            const index = records.findIndex(r => r.id === change.record.id);
+            if (change.type === 'delete') {
+                return index === -1 ? records : records.filter(r => r.id !== change.record.id);
+            }
+            if (index === -1) {
+                return [change.record, ...records];
+            }
+            const current = records[index];
+            if (current.updatedAt && change.record.updatedAt && change.record.updatedAt < current.updatedAt) {
+                return records;
+            }
+            const next = records.slice();
+            next[index] = change.record;
+            return next;
+        };
+
+        // useAppData('Project') reads another schema's collection; the default is the primary one.
+        // The data stays in sync with writes from other tabs and users.
+        window.useAppData = (collection) => {
+            const endpoint = DATA_URL + (collection ? '?collection=' + encodeURIComponent(collection) : '');
+            const [data, setData] = React.useState(collection ? [] : (APP_PROPS.initialData || []));
+            const [isLoading, setIsLoading] = React.useState(false);
+            const dataRef = React.useRef(data);
+            dataRef.current = data;
+
+            React.useEffect(() => {
+                const name = (collection || PRIMARY_COLLECTION).toLowerCase();
+                return subscribeToChanges(async (change) => {
+                    if (change.type === 'reset') {
+                        const reload = await fetch(endpoint);
+                        if (reload.ok) setData(await reload.json());
+                        return;
+                    }
+                    if (change.collection.toLowerCase() === name) {
+                        setData(prev => applyChange(prev, change));
+                    }
+                });
+            }, [collection]);
+            
+            React.useEffect(() => {
+                if (!collection && APP_PROPS.initialData && APP_PROPS.initialData.length > 0) {
+                  return;
+                }
+                const loadData = async () => {
+                    setIsLoading(true);
+                    try {
+                        const res = await fetch(endpoint);
+                        const json = await res.json();
+                        setData(json);
+                    } catch (err) {
+                        console.error('Failed to load data:', err);
+                    } finally {
+                        setIsLoading(false);
+                    }
+                };
+                loadData();
+            }, [collection]);
+
+            // Per-field messages from the last rejected write, keyed by field name
+            const [fieldErrors, setFieldErrors] = React.useState({});
+
+            // Apply a write response; rejected writes roll back the optimistic change
+            const applyWriteResult = async (res) => {
+                const json = await res.json();
+                if (!res.ok) {
+                    setFieldErrors(json.fieldErrors || {});
+                    const reload = await fetch(endpoint);
+                    if (reload.ok) setData(await reload.json());
+                    return false;
+                }
+                setFieldErrors({});
+                if (json.data) setData(json.data);
+                return true;
+            };
+
+            const addRecord = async (record) => {
+                const newRecord = { ...record, id: Math.random().toString(36).substr(2, 9), createdAt: new Date().toISOString() };
+                setData(prev => [newRecord, ...prev]);
+                try {
+                    const res = await fetch(DATA_URL, {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ action: 'add', collection, record: newRecord })
+                    });
+                    return (await applyWriteResult(res)) ? newRecord : undefined;
+                } catch (err) {
+                    console.error('Failed to add record:', err);
+                }
+            };
+            
+            // Pass { checkVersion: true } to reject the update if someone else changed
+            // the record first; the rejected write is rolled back to their version
+            const updateRecord = async (id, updates, options = {}) => {
+                const expectedUpdatedAt = options.checkVersion
+                    ? dataRef.current.find(r => r.id === id)?.updatedAt
+                    : undefined;
+                setData(prev => prev.map(r => r.id === id ? { ...r, ...updates } : r));
+                try {
+                    const res = await fetch(DATA_URL, {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ action: 'update', collection, id, record: updates, expectedUpdatedAt })
+                    });
+                    return applyWriteResult(res);
+                } catch (err) {
+                    console.error('Failed to update record:', err);
+                }
+            };
+            
+            const deleteRecord = async (id) => {
+                setData(prev => prev.filter(r => r.id !== id));
+                try {
+                    const res = await fetch(DATA_URL, {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ action: 'delete', collection, id })
+                    });
+                    // A delete blocked by related records comes back as 409 and is rolled back
+                    return applyWriteResult(res);
+                } catch (err) {
+                    console.error('Failed to delete record:', err);
+                }
+            };
+            
+            // Server-side filtering, sorting and pagination, e.g.
+            // queryData({ 'filter[status]': 'Done', sort: '-createdAt', limit: 20, include: 'project' })
+            const queryData = async (params = {}) => {
+                const search = new URLSearchParams(collection ? { ...params, collection } : params).toString();
+                const res = await fetch(DATA_URL + (search ? '?' + search : ''));
+                const json = await res.json();
+                if (!res.ok) {
+                    throw new Error(json.error || 'Failed to query data');
+                }
+                return { data: json, total: Number(res.headers.get('X-Total-Count') || json.length) };
+            };
+
+            return { data, isLoading, fieldErrors, addRecord, updateRecord, deleteRecord, queryData };
+        };
+`;
+}
@@ -0,0 +1,252 @@
+/**
+ * Nebula App Bundles
+ * Compiles an app's browser code once and stores it by content hash, so workers
+ * and serverless requests serve a prebuilt bundle instead of running esbuild
+ */
+
+import { createHash } from 'crypto';
+import * as esbuild from 'esbuild';
+import path from 'path';
+import prisma from '@/lib/db';
+import { NEBULA_EXTERNALS } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The code a bundle is compiled from: V2 apps bundle `componentFiles` starting
+ * at App.tsx, V1 apps transpile `generatedCode.pageComponent`
+ */
+export type BundleSource =
+  | { kind: 'v2'; componentFiles: Record<string, string> }
+  | { kind: 'v1'; code: string };
+
+export interface AppBundleInfo {
+  hash: string;
+  sourceHash: string;
+  size: number;
+}
+
+/** App columns a bundle is built from, as stored (JSON strings) or already parsed */
+export interface BundleApp {
+  id: string;
+  componentFiles?: unknown;
+  generatedCode?: unknown;
+}
+
+// ============================================================================
+// Hashing
+// ============================================================================
+
+/** Bumped whenever compile options change, so existing bundles are rebuilt */
+export const BUNDLE_FORMAT = 1;
+
+function parseColumn(value: unknown): any {
+  if (typeof value !== 'string') return value ?? null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Pick what to compile for an app, or null when it has no code yet
+ */
+export function resolveBundleSource(componentFiles: unknown, generatedCode: unknown): BundleSource | null {
+  const files = parseColumn(componentFiles);
+  if (files && typeof files['App.tsx'] === 'string') {
+    return { kind: 'v2', componentFiles: files };
+  }
+
+  const code = parseColumn(generatedCode)?.pageComponent;
+  return typeof code === 'string' && code.trim() ? { kind: 'v1', code } : null;
+}
+
+/**
+ * Hash of everything a bundle depends on; it only changes when the app's code does
+ */
+export function bundleSourceHash(source: BundleSource): string {
+  const files = source.kind === 'v2'
+    ? Object.keys(source.componentFiles).sort().map(name => [name, source.componentFiles[name]])
+    : [['pageComponent', source.code]];
+  return sha256(JSON.stringify({ format: BUNDLE_FORMAT, kind: source.kind, files }));
+}
+
+/**
+ * Versioned URL a page loads its bundle from; safe to cache forever
+ */
+export function bundleUrl(appId: string, hash: string): string {
+  return `/api/nebula/bundle/${appId}/${hash}.js`;
+}
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+/**
+ * Bundle V2 app with all component files into a single module
+ */
+async function bundleV2App(componentFiles: Record<string, string>): Promise<string> {
+  // Create virtual file system for esbuild
+  const files: Record<string, string> = {};
+
+  for (const [filePath, content] of Object.entries(componentFiles)) {
+    files[`/virtual/${filePath}`] = content;
+  }
+
+  const result = await esbuild.build({
+    stdin: {
+      contents: files['/virtual/App.tsx'],
+      resolveDir: '/virtual',
+      sourcefile: 'App.tsx',
+      loader: 'tsx'
+    },
+    bundle: true,
+    format: 'esm',
+    target: 'es2020',
+    write: false,
+    external: NEBULA_EXTERNALS,
+    define: {
+      'process.env.NODE_ENV': '"development"'
+    },
+    plugins: [{
+      name: 'virtual-fs',
+      setup(build) {
+        // Resolve relative imports
+        build.onResolve({ filter: /^\./ }, args => {
+          const resolvedPath = path.join(path.dirname(args.importer), args.path);
+          const normalizedPath = resolvedPath.replace('/virtual/', '');
+
+          // Try with and without .tsx/.ts extension
+          for (const ext of ['', '.tsx', '.ts']) {
+            const tryPath = normalizedPath + ext;
+            if (files[`/virtual/${tryPath}`]) {
+              return { path: `/virtual/${tryPath}`, namespace: 'virtual' };
+            }
+          }
+
+          return { path: resolvedPath, namespace: 'virtual' };
+        });
+
+        // Load files from virtual file system
+        build.onLoad({ filter: /.*/, namespace: 'virtual' }, args => {
+          const content = files[args.path];
+          if (!content) {
+            return { errors: [{ text: `File not found: ${args.path}` }] };
+          }
+          return { contents: content, loader: 'tsx' };
+        });
+      }
+    }]
+  });
+
+  return result.outputFiles[0].text;
+}
+
+/**
+ * Compile an app's source into the ES module its page imports
+ */
+export async function compileBundle(source: BundleSource): Promise<string> {
+  if (source.kind === 'v2') {
+    return bundleV2App(source.componentFiles);
+  }
+
+  const result = await esbuild.transform(source.code, {
+    loader: 'tsx',
+    format: 'esm',
+    target: 'es2020',
+    define: {
+      'process.env.NODE_ENV': '"development"'
+    }
+  });
+  return result.code;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+const inFlight = new Map<string, Promise<AppBundleInfo>>();
+
+/**
+ * Return the stored bundle for the app's current code, compiling and storing it
+ * first if the code changed since the last build. Older bundles are removed.
+ */
+export async function ensureAppBundle(app: BundleApp): Promise<AppBundleInfo | null> {
+  const source = resolveBundleSource(app.componentFiles, app.generatedCode);
+  if (!source) return null;
+
+  const sourceHash = bundleSourceHash(source);
+  const existing = await prisma.appBundle.findFirst({
+    where: { appId: app.id, sourceHash },
+    select: { hash: true, sourceHash: true, size: true },
+  });
+  if (existing) return existing;
+
+  // Concurrent cold requests for the same code share one build
+  const key = `${app.id}:${sourceHash}`;
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const build = (async () => {
+    const code = await compileBundle(source);
+    const hash = sha256(code).slice(0, 32);
+    const size = Buffer.byteLength(code, 'utf8');
+
+    await prisma.appBundle.upsert({
+      where: { appId_hash: { appId: app.id, hash } },
+      create: { appId: app.id, hash, sourceHash, code, size },
+      update: { sourceHash },
+    });
+    await prisma.appBundle.deleteMany({
+      where: { appId: app.id, NOT: { hash } },
+    });
+
+    return { hash, sourceHash, size };
+  })();
+
+  inFlight.set(key, build);
+  try {
+    return await build;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+/**
+ * Build the bundle for an app that was just generated or changed. Failures are
+ * logged rather than thrown; the first page request retries the build.
+ */
+export async function prebuildAppBundle(appId: string): Promise<void> {
+  try {
+    const app = await prisma.app.findUnique({
+      where: { id: appId },
+      select: { id: true, componentFiles: true, generatedCode: true },
+    });
+    if (!app) return;
+
+    const bundle = await ensureAppBundle(app);
+    if (bundle) {
+      console.log(`📦 Bundled app ${appId} (${bundle.hash}, ${bundle.size} bytes)`);
+    }
+  } catch (err) {
+    console.error(`Failed to prebuild bundle for app ${appId}:`, err);
+  }
+}
+
+/**
+ * Load a stored bundle's code by its content hash
+ */
+export async function getBundleCode(appId: string, hash: string): Promise<string | null> {
+  const bundle = await prisma.appBundle.findUnique({
+    where: { appId_hash: { appId, hash } },
+    select: { code: true },
+  });
+  return bundle?.code ?? null;
+}
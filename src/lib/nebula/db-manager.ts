@@ -41,6 +41,13 @@ class NebulaDbManager {
     return db;
   }
 
+  /**
+   * Whether a connection to the app's database is open
+   */
+  public isOpen(appId: string): boolean {
+    return this.connections.has(appId);
+  }
+
   /**
    * Execute a query on an app's database
    */
@@ -73,6 +80,17 @@ class NebulaDbManager {
       this.connections.delete(appId);
     }
   }
+
+  /**
+   * Close and delete an app's database files
+   */
+  public deleteDb(appId: string) {
+    this.closeDb(appId);
+    const dbPath = path.join(DEFAULT_CONFIG.storagePath, `${appId}.db`);
+    for (const suffix of ['', '-wal', '-shm']) {
+      fs.removeSync(dbPath + suffix);
+    }
+  }
 }
 
 export const nebulaDbManager = NebulaDbManager.getInstance();
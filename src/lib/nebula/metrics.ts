@@ -0,0 +1,157 @@
+/**
+ * Nebula Worker Metrics
+ * Request latency histograms, resource samples and restart backoff for app workers
+ */
+
+import type { NebulaConfig } from './types';
+
+// ============================================================================
+// Latency histogram
+// ============================================================================
+
+/** Upper bounds (ms) of the latency buckets; slower requests land in the overflow bucket */
+export const LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+export interface LatencySnapshot {
+  count: number;
+  sumMs: number;
+  maxMs: number;
+  /** Cumulative counts per bucket, `le: null` being the overflow bucket */
+  buckets: { le: number | null; count: number }[];
+  /** Percentiles estimated from the buckets (upper bound of the bucket they fall in) */
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+/**
+ * Fixed-bucket histogram of request durations
+ */
+export class LatencyHistogram {
+  private readonly counts: number[] = new Array(LATENCY_BUCKETS_MS.length + 1).fill(0);
+  private count = 0;
+  private sum = 0;
+  private max = 0;
+
+  public record(durationMs: number): void {
+    const value = Math.max(0, durationMs);
+    const index = LATENCY_BUCKETS_MS.findIndex(bound => value <= bound);
+    this.counts[index === -1 ? LATENCY_BUCKETS_MS.length : index]++;
+    this.count++;
+    this.sum += value;
+    this.max = Math.max(this.max, value);
+  }
+
+  private percentile(fraction: number): number | null {
+    if (this.count === 0) return null;
+    const rank = Math.ceil(this.count * fraction);
+    let seen = 0;
+    for (let i = 0; i < this.counts.length; i++) {
+      seen += this.counts[i];
+      if (seen >= rank) {
+        // The overflow bucket has no upper bound, so report the slowest request seen
+        return i < LATENCY_BUCKETS_MS.length ? Math.min(LATENCY_BUCKETS_MS[i], this.max) : this.max;
+      }
+    }
+    return this.max;
+  }
+
+  public snapshot(): LatencySnapshot {
+    let cumulative = 0;
+    const buckets = this.counts.map((bucketCount, i) => {
+      cumulative += bucketCount;
+      return { le: i < LATENCY_BUCKETS_MS.length ? LATENCY_BUCKETS_MS[i] : null, count: cumulative };
+    });
+
+    return {
+      count: this.count,
+      sumMs: Math.round(this.sum),
+      maxMs: Math.round(this.max),
+      buckets,
+      p50: this.percentile(0.5),
+      p95: this.percentile(0.95),
+      p99: this.percentile(0.99),
+    };
+  }
+}
+
+// ============================================================================
+// Per-app metrics
+// ============================================================================
+
+/**
+ * Heap usage reported by a worker about its own V8 isolate
+ */
+export interface HeapSample {
+  usedMB: number;
+  totalMB: number;
+  limitMB: number;
+}
+
+export interface AppMetricsSnapshot {
+  requests: number;
+  errors: number;
+  timeouts: number;
+  restarts: number;
+  latency: LatencySnapshot;
+  heap?: HeapSample;
+  /** Share of wall time the worker's event loop was busy over the last sample, 0-100 */
+  cpuPercent?: number;
+  /** Consecutive samples above the CPU limit */
+  cpuStrikes: number;
+}
+
+/**
+ * Counters for one app, kept across worker restarts
+ */
+export class AppMetrics {
+  public requests = 0;
+  public errors = 0;
+  public timeouts = 0;
+  public restarts = 0;
+  public heap?: HeapSample;
+  public cpuPercent?: number;
+  public cpuStrikes = 0;
+  private readonly latency = new LatencyHistogram();
+
+  public recordRequest(durationMs: number, failed: boolean): void {
+    this.requests++;
+    if (failed) this.errors++;
+    this.latency.record(durationMs);
+  }
+
+  /**
+   * Record a CPU sample; returns whether the worker has now been over the limit
+   * for `maxStrikes` samples in a row
+   */
+  public recordCpu(percent: number, limitPercent: number, maxStrikes: number): boolean {
+    this.cpuPercent = Math.round(percent * 10) / 10;
+    this.cpuStrikes = percent > limitPercent ? this.cpuStrikes + 1 : 0;
+    return this.cpuStrikes >= maxStrikes;
+  }
+
+  public snapshot(): AppMetricsSnapshot {
+    return {
+      requests: this.requests,
+      errors: this.errors,
+      timeouts: this.timeouts,
+      restarts: this.restarts,
+      latency: this.latency.snapshot(),
+      heap: this.heap,
+      cpuPercent: this.cpuPercent,
+      cpuStrikes: this.cpuStrikes,
+    };
+  }
+}
+
+// ============================================================================
+// Restart backoff
+// ============================================================================
+
+/**
+ * Delay before the nth consecutive restart (1-based): exponential, capped
+ */
+export function restartDelay(attempt: number, config: Pick<NebulaConfig, 'restartBackoffMS' | 'restartBackoffMaxMS'>): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(config.restartBackoffMS * 2 ** exponent, config.restartBackoffMaxMS);
+}
@@ -1,12 +1,27 @@
-import * as esbuild from 'esbuild';
-import path from 'path';
 import prisma from '@/lib/db';
+import {
+  openAppDataStore,
+  loadAppDataStore,
+  AppDataError,
+  parseDataQuery,
+  prepareWrite,
+  toFieldErrors,
+  withComputedValues,
+  parseInclude,
+  expandRelations,
+} from '@/lib/app-data';
+import { bundleUrl, compileBundle, ensureAppBundle, type AppBundleInfo } from './bundle';
+import { canWrite, NEBULA_ACCESS_HEADER } from './access';
+import { appDataClientScript, NEBULA_DATA_PATH, NEBULA_CHANGES_PATH } from './app-client';
+import { assertCanAddRecords, EntitlementError } from '@/lib/entitlements';
 
 /**
  * Nebula Runner - Core execution logic for generated apps
  * This module can be used both in worker threads and directly in serverless functions.
  */
 
+export { NEBULA_DATA_PATH, NEBULA_CHANGES_PATH };
+
 export interface NebulaRequest {
   method: string;
   path: string;
@@ -31,80 +46,8 @@ export interface AppContext {
   initialData: any;
   isV2?: boolean;
   componentFiles?: Record<string, string> | null;
-}
-
-/**
- * Bundle V2 app with all component files into a single module
- */
-async function bundleV2App(componentFiles: Record<string, string>): Promise<string> {
-  // Create virtual file system for esbuild
-  const files: Record<string, string> = {};
-  
-  for (const [filePath, content] of Object.entries(componentFiles)) {
-    files[`/virtual/${filePath}`] = content;
-  }
-  
-  // Bundle with esbuild
-  const result = await esbuild.build({
-    stdin: {
-      contents: files['/virtual/App.tsx'],
-      resolveDir: '/virtual',
-      sourcefile: 'App.tsx',
-      loader: 'tsx'
-    },
-    bundle: true,
-    format: 'esm',
-    target: 'es2020',
-    write: false,
-    external: [
-      'react',
-      'react-dom',
-      'react-dom/client',
-      'framer-motion',
-      'lucide-react',
-      'recharts',
-      'date-fns',
-      'clsx',
-      'tailwind-merge',
-      'react-hook-form',
-      'zod',
-      'nanoid'
-    ],
-    define: {
-      'process.env.NODE_ENV': '"development"'
-    },
-    plugins: [{
-      name: 'virtual-fs',
-      setup(build) {
-        // Resolve relative imports
-        build.onResolve({ filter: /^\./ }, args => {
-          const resolvedPath = path.join(path.dirname(args.importer), args.path);
-          const normalizedPath = resolvedPath.replace('/virtual/', '');
-          
-          // Try with and without .tsx/.ts extension
-          for (const ext of ['', '.tsx', '.ts']) {
-            const tryPath = normalizedPath + ext;
-            if (files[`/virtual/${tryPath}`]) {
-              return { path: `/virtual/${tryPath}`, namespace: 'virtual' };
-            }
-          }
-          
-          return { path: resolvedPath, namespace: 'virtual' };
-        });
-        
-        // Load files from virtual file system
-        build.onLoad({ filter: /.*/, namespace: 'virtual' }, args => {
-          const content = files[args.path];
-          if (!content) {
-            return { errors: [{ text: `File not found: ${args.path}` }] };
-          }
-          return { contents: content, loader: 'tsx' };
-        });
-      }
-    }]
-  });
-  
-  return result.outputFiles[0].text;
+  /** Prebuilt browser bundle; when missing the code is compiled per request */
+  bundle?: AppBundleInfo | null;
 }
 
 /**
@@ -119,37 +62,33 @@ export async function executeRequest(
 
   try {
     // Check if it's a data API request
-    if (path === '/api/nebula/data') {
+    if (path === NEBULA_DATA_PATH) {
       return handleDataRequest(appId, request);
     }
 
     // Fetch latest app data
     const appRecord = await prisma.app.findUnique({
       where: { id: appId },
-      select: { data: true, name: true, description: true }
+      select: { id: true, spec: true, data: true, name: true, description: true }
     });
 
-    const currentData = typeof appRecord?.data === 'string' ? JSON.parse(appRecord.data) : (appRecord?.data || initialData || []);
+    let currentData = initialData || [];
+    let primaryCollection = '';
+    if (appRecord) {
+      const store = openAppDataStore(appRecord);
+      currentData = withComputedValues(store, store.collection(), store.collection().list({ newestFirst: true }));
+      primaryCollection = store.collection().name;
+    }
     const currentName = appRecord?.name || appName || subdomain;
     const currentDesc = appRecord?.description || appDescription || '';
 
-    // Bundle or transpile based on app version
-    let browserCode: string;
-    
-    if (context.isV2 && context.componentFiles) {
-      // Bundle V2 app (modular components)
-      browserCode = await bundleV2App(context.componentFiles);
-    } else {
-      // Transpile V1 app (single file)
-      const browserResult = await esbuild.transform(code, {
-        loader: 'tsx',
-        format: 'esm',
-        target: 'es2020',
-        define: {
-          'process.env.NODE_ENV': '"development"'
-        }
-      });
-      browserCode = browserResult.code;
+    // Serve the prebuilt bundle by URL; compile inline only if it couldn't be stored
+    let browserCode: string | undefined;
+    if (!context.bundle) {
+      const source = context.isV2 && context.componentFiles
+        ? { kind: 'v2' as const, componentFiles: context.componentFiles }
+        : { kind: 'v1' as const, code };
+      browserCode = await compileBundle(source);
     }
 
     // Generate the HTML response
@@ -158,7 +97,9 @@ export async function executeRequest(
       currentName,
       currentDesc,
       currentData,
+      primaryCollection,
       browserCode,
+      bundleSrc: context.bundle ? bundleUrl(appId, context.bundle.hash) : undefined,
     });
 
     return {
@@ -179,53 +120,104 @@ export async function executeRequest(
 
 /**
  * Handle data API requests (GET/POST /api/nebula/data)
+ * GET accepts the app-data query parameters (plus `include`) and reports the
+ * match count in X-Total-Count; each POST action is a row-level write against
+ * the data store. Both take `collection` to address a schema other than the primary one.
+ * Writes require the owner or write access level the serve route put in the
+ * request headers; read-only visitors get 403. An update that carries
+ * `expectedUpdatedAt` fails with 409 if the record changed in the meantime.
  */
-async function handleDataRequest(
+export async function handleDataRequest(
   appId: string,
   request: NebulaRequest
 ): Promise<NebulaResponse> {
   const method = request.method || 'GET';
 
   try {
+    const store = await loadAppDataStore(appId);
+    if (!store) {
+      return {
+        status: 404,
+        body: JSON.stringify({ error: 'App not found' }),
+        headers: { 'Content-Type': 'application/json' }
+      };
+    }
+    let payload: any = null;
+    if (method === 'POST') {
+      try {
+        payload = typeof request.body === 'string' ? JSON.parse(request.body) : request.body;
+      } catch {
+        return {
+          status: 400,
+          body: JSON.stringify({ error: 'Request body must be valid JSON' }),
+          headers: { 'Content-Type': 'application/json' }
+        };
+      }
+    }
+    const collection = store.collection(payload?.collection || request.query?.collection || undefined);
+
     if (method === 'GET') {
-      const app = await prisma.app.findUnique({
-        where: { id: appId },
-        select: { data: true }
-      });
-      const data = typeof app?.data === 'string' ? JSON.parse(app.data) : (app?.data || []);
+      const query = parseDataQuery(request.query || {}, collection.queryableFields());
+      const include = parseInclude(request.query?.include, store.relationsOf(collection.name));
+      const result = collection.query(query, { newestFirst: true });
+      const records = withComputedValues(store, collection, result.records);
       return {
         status: 200,
-        body: JSON.stringify(data),
-        headers: { 'Content-Type': 'application/json' }
+        body: JSON.stringify(expandRelations(store, records, include)),
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Total-Count': String(result.total)
+        }
       };
     }
 
     if (method === 'POST') {
-      const payload = typeof request.body === 'string' ? JSON.parse(request.body) : request.body;
-      const { action, id, record } = payload || {};
+      if (!canWrite(request.headers?.[NEBULA_ACCESS_HEADER])) {
+        return {
+          status: 403,
+          body: JSON.stringify({ error: 'This app is read-only' }),
+          headers: { 'Content-Type': 'application/json' }
+        };
+      }
 
-      const app = await prisma.app.findUnique({
-        where: { id: appId },
-        select: { data: true }
-      });
-      let currentData = (typeof app?.data === 'string' ? JSON.parse(app.data) : (app?.data || [])) as any[];
+      const { action, id, record, expectedUpdatedAt } = payload || {};
 
       if (action === 'add') {
-        currentData = [record, ...currentData];
+        const app = await prisma.app.findUnique({ where: { id: appId }, select: { userId: true } });
+        if (app) {
+          await assertCanAddRecords(app.userId, store.recordCount());
+        }
+        collection.insert(prepareWrite(collection, record || {}));
       } else if (action === 'update') {
-        currentData = currentData.map(r => r.id === id ? { ...r, ...record } : r);
+        if (!collection.get(id) || !collection.update(id, prepareWrite(collection, record || {}, id), { expectedUpdatedAt })) {
+          return {
+            status: 404,
+            body: JSON.stringify({ error: 'Record not found' }),
+            headers: { 'Content-Type': 'application/json' }
+          };
+        }
       } else if (action === 'delete') {
-        currentData = currentData.filter(r => r.id !== id);
+        if (!collection.delete(id)) {
+          return {
+            status: 404,
+            body: JSON.stringify({ error: 'Record not found' }),
+            headers: { 'Content-Type': 'application/json' }
+          };
+        }
+      } else {
+        return {
+          status: 400,
+          body: JSON.stringify({ error: `Unknown action: ${action}` }),
+          headers: { 'Content-Type': 'application/json' }
+        };
       }
 
-      await prisma.app.update({
-        where: { id: appId },
-        data: { data: JSON.stringify(currentData) }
-      });
-
       return {
         status: 200,
-        body: JSON.stringify({ success: true, data: currentData }),
+        body: JSON.stringify({
+          success: true,
+          data: withComputedValues(store, collection, collection.list({ newestFirst: true })),
+        }),
         headers: { 'Content-Type': 'application/json' }
       };
     }
@@ -236,6 +228,55 @@ async function handleDataRequest(
       headers: { 'Content-Type': 'application/json' }
     };
   } catch (err: any) {
+    if (err instanceof EntitlementError) {
+      return {
+        status: err.status,
+        body: JSON.stringify({ error: err.message, code: err.code, entitlement: err.denial }),
+        headers: { 'Content-Type': 'application/json' }
+      };
+    }
+    if (err instanceof AppDataError && err.code === 'DUPLICATE_ID') {
+      return {
+        status: 409,
+        body: JSON.stringify({ error: err.message }),
+        headers: { 'Content-Type': 'application/json' }
+      };
+    }
+    if (err instanceof AppDataError && err.code === 'VALIDATION_FAILED') {
+      return {
+        status: 400,
+        body: JSON.stringify({ error: err.message, issues: err.issues, fieldErrors: toFieldErrors(err.issues) }),
+        headers: { 'Content-Type': 'application/json' }
+      };
+    }
+    if (err instanceof AppDataError && err.code === 'CONFLICT') {
+      return {
+        status: 409,
+        body: JSON.stringify({ error: err.message, issues: err.issues }),
+        headers: { 'Content-Type': 'application/json' }
+      };
+    }
+    if (err instanceof AppDataError && err.code === 'INVALID_QUERY') {
+      return {
+        status: 400,
+        body: JSON.stringify({ error: err.message, issues: err.issues }),
+        headers: { 'Content-Type': 'application/json' }
+      };
+    }
+    if (err instanceof AppDataError && err.code === 'DELETE_RESTRICTED') {
+      return {
+        status: 409,
+        body: JSON.stringify({ error: err.message, issues: err.issues }),
+        headers: { 'Content-Type': 'application/json' }
+      };
+    }
+    if (err instanceof AppDataError && err.code === 'UNKNOWN_COLLECTION') {
+      return {
+        status: 404,
+        body: JSON.stringify({ error: err.message }),
+        headers: { 'Content-Type': 'application/json' }
+      };
+    }
     console.error(`[Runner ${appId}] Data API error:`, err);
     return {
       status: 500,
@@ -253,10 +294,12 @@ function generateAppHtml(params: {
   currentName: string;
   currentDesc: string;
   currentData: any;
-  browserCode: string;
+  primaryCollection: string;
+  browserCode?: string;
+  bundleSrc?: string;
 }): string {
-  const { appId, currentName, currentDesc, currentData, browserCode } = params;
-  const codeBase64 = Buffer.from(browserCode, 'utf8').toString('base64');
+  const { appId, currentName, currentDesc, currentData, primaryCollection, browserCode, bundleSrc } = params;
+  const codeBase64 = bundleSrc ? '' : Buffer.from(browserCode || '', 'utf8').toString('base64');
 
   return `
 <!DOCTYPE html>
@@ -352,88 +395,21 @@ function generateAppHtml(params: {
             initialData: ${JSON.stringify(currentData)}
         };
 
-        window.useAppData = () => {
-            const [data, setData] = React.useState(APP_PROPS.initialData || []);
-            const [isLoading, setIsLoading] = React.useState(false);
-            
-            React.useEffect(() => {
-                if (APP_PROPS.initialData && APP_PROPS.initialData.length > 0) {
-                  return;
-                }
-                const loadData = async () => {
-                    setIsLoading(true);
-                    try {
-                        const res = await fetch('/api/nebula/data');
-                        const json = await res.json();
-                        setData(json);
-                    } catch (err) {
-                        console.error('Failed to load data:', err);
-                    } finally {
-                        setIsLoading(false);
-                    }
-                };
-                loadData();
-            }, []);
-
-            const addRecord = async (record) => {
-                const newRecord = { ...record, id: Math.random().toString(36).substr(2, 9), createdAt: new Date().toISOString() };
-                setData(prev => [newRecord, ...prev]);
-                try {
-                    const res = await fetch('/api/nebula/data', {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({ action: 'add', record: newRecord })
-                    });
-                    const json = await res.json();
-                    if (json.data) setData(json.data);
-                    return newRecord;
-                } catch (err) {
-                    console.error('Failed to add record:', err);
-                }
-            };
-            
-            const updateRecord = async (id, updates) => {
-                setData(prev => prev.map(r => r.id === id ? { ...r, ...updates } : r));
-                try {
-                    const res = await fetch('/api/nebula/data', {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({ action: 'update', id, record: updates })
-                    });
-                    const json = await res.json();
-                    if (json.data) setData(json.data);
-                } catch (err) {
-                    console.error('Failed to update record:', err);
-                }
-            };
-            
-            const deleteRecord = async (id) => {
-                setData(prev => prev.filter(r => r.id !== id));
-                try {
-                    const res = await fetch('/api/nebula/data', {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({ action: 'delete', id })
-                    });
-                    const json = await res.json();
-                    if (json.data) setData(json.data);
-                } catch (err) {
-                    console.error('Failed to delete record:', err);
-                }
-            };
-            
-            return { data, isLoading, addRecord, updateRecord, deleteRecord };
-        };
+${appDataClientScript(primaryCollection)}
 
         async function hydrate() {
             try {
-                const codeBase64 = "${codeBase64}";
-                const code = decodeURIComponent(atob(codeBase64).split('').map(function(c) {
-                    return '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2);
-                }).join(''));
-                
-                const blob = new Blob([code], { type: 'text/javascript' });
-                const url = URL.createObjectURL(blob);
+                // Prebuilt bundles load from a cacheable URL; otherwise the code is inlined
+                let url = ${JSON.stringify(bundleSrc || '')};
+                if (!url) {
+                    const codeBase64 = "${codeBase64}";
+                    const code = decodeURIComponent(atob(codeBase64).split('').map(function(c) {
+                        return '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2);
+                    }).join(''));
+                    
+                    const blob = new Blob([code], { type: 'text/javascript' });
+                    url = URL.createObjectURL(blob);
+                }
                 
                 const appModule = await import(url);
                 const AppToRender = appModule.default || appModule.App || Object.values(appModule).find(v => typeof v === 'function');
@@ -490,6 +466,7 @@ export async function loadAppContext(appId: string): Promise<AppContext | null>
       generatedCode: true,
       name: true,
       description: true,
+      spec: true,
       data: true
     }
   });
@@ -511,14 +488,22 @@ export async function loadAppContext(appId: string): Promise<AppContext | null>
     ? parsedComponentFiles['App.tsx']
     : (typeof app.generatedCode === 'string' ? JSON.parse(app.generatedCode) : app.generatedCode)?.pageComponent || '';
 
+  let bundle: AppBundleInfo | null = null;
+  try {
+    bundle = await ensureAppBundle(app);
+  } catch (err) {
+    console.error(`[Runner ${app.id}] Failed to build bundle, compiling per request:`, err);
+  }
+
   return {
     appId: app.id,
     subdomain: app.subdomain,
     code,
     appName: app.name || '',
     appDescription: app.description || '',
-    initialData: typeof app.data === 'string' ? JSON.parse(app.data) : (app.data || []),
+    initialData: openAppDataStore(app).collection().list({ newestFirst: true }),
     isV2,
-    componentFiles: isV2 ? parsedComponentFiles : null
+    componentFiles: isV2 ? parsedComponentFiles : null,
+    bundle,
   };
 }
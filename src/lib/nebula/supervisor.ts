@@ -1,9 +1,16 @@
 import { Worker } from 'worker_threads';
+import type { EventLoopUtilization } from 'perf_hooks';
 import path from 'path';
-import { NebulaWorkerInfo, WorkerMessage, SupervisorMessage, DEFAULT_CONFIG } from './types';
+import { NebulaWorkerInfo, NebulaWorkerStatus, WorkerMessage, SupervisorMessage, DEFAULT_CONFIG } from './types';
+import { AppMetrics, restartDelay, type HeapSample } from './metrics';
+import { bundleUrl, ensureAppBundle } from './bundle';
 import prisma from '@/lib/db';
 import { nebulaDbManager } from './db-manager';
-import { executeRequest, loadAppContext, type NebulaRequest } from './runner';
+import { executeRequest, handleDataRequest, loadAppContext, type NebulaRequest } from './runner';
+import { openAppDataStore } from '@/lib/app-data';
+import { runDueWorkflows } from '@/lib/workflows/scheduler';
+import { processDueDeliveries } from '@/lib/webhooks/deliveries';
+import { hostsAlwaysOn } from '@/lib/entitlements';
 
 // Check if we're running on Vercel (serverless environment)
 const isVercel = process.env.VERCEL === '1' || 
@@ -13,11 +20,45 @@ const isVercel = process.env.VERCEL === '1' ||
                  !!process.env.AWS_LAMBDA_FUNCTION_NAME ||
                  process.cwd().includes('/var/task');
 
+interface WorkerEntry {
+  worker: Worker;
+  info: NebulaWorkerInfo;
+  /** Set when the supervisor stops the worker on purpose, so its exit is not treated as a crash */
+  stopping?: boolean;
+  /** Why the supervisor or V8 is ending the worker, reported when it exits */
+  exitReason?: string;
+  /** Cumulative event loop utilization at the last watchdog check */
+  elu?: EventLoopUtilization;
+}
+
+interface PendingRequest {
+  appId: string;
+  startedAt: number;
+  timer: NodeJS.Timeout;
+  resolve: (response: any) => void;
+}
+
+/**
+ * Everything the supervisor tracks about an app across worker restarts
+ */
+interface AppState {
+  info: NebulaWorkerInfo;
+  metrics: AppMetrics;
+  restartAttempts: number;
+  restartTimer?: NodeJS.Timeout;
+  nextRestartAt?: number;
+}
+
 class NebulaSupervisor {
   private static instance: NebulaSupervisor;
-  private workers: Map<string, { worker: Worker; info: NebulaWorkerInfo }> = new Map();
-  private pendingRequests: Map<string, (response: any) => void> = new Map();
+  private workers: Map<string, WorkerEntry> = new Map();
+  private apps: Map<string, AppState> = new Map();
+  /** Subdomains seen in requests, mapped to the app IDs workers are keyed by */
+  private aliases: Map<string, string> = new Map();
+  private pendingRequests: Map<string, PendingRequest> = new Map();
   private spawningWorkers: Map<string, Promise<Worker>> = new Map();
+  private schedulingWorkflows = false;
+  private sweepingWebhooks = false;
 
   private constructor() {
     // Only start watchdog in non-serverless environments
@@ -44,10 +85,12 @@ class NebulaSupervisor {
 
     // On non-serverless environments, use worker threads
     const worker = await this.getWorker(appId);
+    const id = this.resolveId(appId);
     const correlationId = Math.random().toString(36).substring(7);
 
     return new Promise((resolve) => {
-      this.pendingRequests.set(correlationId, resolve);
+      const timer = setTimeout(() => this.timeoutRequest(correlationId), DEFAULT_CONFIG.requestTimeoutMS);
+      this.pendingRequests.set(correlationId, { appId: id, startedAt: Date.now(), timer, resolve });
       worker.postMessage({
         type: 'request',
         appId,
@@ -57,6 +100,120 @@ class NebulaSupervisor {
     });
   }
 
+  /**
+   * Status and metrics of every app that has had a worker since startup
+   */
+  public listWorkers(): NebulaWorkerStatus[] {
+    return Array.from(this.apps.values()).map(state => ({
+      ...state.info,
+      metrics: state.metrics.snapshot(),
+      restartAttempts: state.restartAttempts,
+      nextRestartAt: state.nextRestartAt,
+    }));
+  }
+
+  private resolveId(appId: string): string {
+    return this.aliases.get(appId) || appId;
+  }
+
+  private stateFor(appId: string, subdomain: string): AppState {
+    let state = this.apps.get(appId);
+    if (!state) {
+      state = {
+        info: { appId, subdomain, status: 'starting', lastActivity: Date.now() },
+        metrics: new AppMetrics(),
+        restartAttempts: 0,
+      };
+      this.apps.set(appId, state);
+    }
+    return state;
+  }
+
+  private completeRequest(correlationId: string, response: any, failed: boolean) {
+    const pending = this.pendingRequests.get(correlationId);
+    if (!pending) return;
+
+    this.pendingRequests.delete(correlationId);
+    clearTimeout(pending.timer);
+    this.apps.get(pending.appId)?.metrics.recordRequest(Date.now() - pending.startedAt, failed);
+    pending.resolve(response);
+  }
+
+  /**
+   * A request the worker never answered: its event loop is most likely stuck,
+   * so the worker is recycled
+   */
+  private timeoutRequest(correlationId: string) {
+    const pending = this.pendingRequests.get(correlationId);
+    if (!pending) return;
+
+    const seconds = DEFAULT_CONFIG.requestTimeoutMS / 1000;
+    const state = this.apps.get(pending.appId);
+    if (state) state.metrics.timeouts++;
+    this.completeRequest(correlationId, { error: `App did not respond within ${seconds}s` }, true);
+    this.recycleWorker(pending.appId, `Request timed out after ${seconds}s`);
+  }
+
+  /**
+   * Fail the requests still waiting on an app's worker
+   */
+  private failPendingRequests(appId: string, error: string) {
+    for (const [correlationId, pending] of Array.from(this.pendingRequests.entries())) {
+      if (pending.appId === appId) {
+        this.completeRequest(correlationId, { error }, true);
+      }
+    }
+  }
+
+  /**
+   * Terminate a misbehaving worker; its exit is handled like a crash, so it
+   * comes back after the restart backoff
+   */
+  private recycleWorker(appId: string, reason: string) {
+    const entry = this.workers.get(appId);
+    if (!entry || entry.stopping || entry.exitReason) return;
+
+    console.warn(`Recycling worker for app ${appId}: ${reason}`);
+    entry.exitReason = reason;
+    entry.worker.terminate();
+  }
+
+  /**
+   * Start a crashed worker again after an exponential backoff, or suspend the
+   * app once it has crashed `maxRestarts` times in a row
+   */
+  private scheduleRestart(appId: string, reason: string) {
+    const state = this.apps.get(appId);
+    if (!state) return;
+
+    const uptime = state.info.startedAt ? Date.now() - state.info.startedAt : 0;
+    if (uptime > DEFAULT_CONFIG.restartResetMS) {
+      state.restartAttempts = 0;
+    }
+    state.restartAttempts++;
+    state.info.error = reason;
+
+    if (state.restartAttempts > DEFAULT_CONFIG.maxRestarts) {
+      console.error(`Suspending app ${appId} after ${DEFAULT_CONFIG.maxRestarts} consecutive crashes: ${reason}`);
+      state.info.status = 'suspended';
+      state.nextRestartAt = undefined;
+      return;
+    }
+
+    const delay = restartDelay(state.restartAttempts, DEFAULT_CONFIG);
+    state.info.status = 'error';
+    state.nextRestartAt = Date.now() + delay;
+    state.restartTimer = setTimeout(() => {
+      state.restartTimer = undefined;
+      state.nextRestartAt = undefined;
+      state.metrics.restarts++;
+      this.getWorker(appId).catch(err => {
+        console.error(`Restart failed for app ${appId}:`, err);
+      });
+    }, delay);
+    state.restartTimer.unref?.();
+  }
+
   /**
    * Execute a request directly without worker threads (for serverless)
    */
@@ -83,12 +240,23 @@ class NebulaSupervisor {
    * Start or get an existing worker for an app
    */
   public async getWorker(appId: string): Promise<Worker> {
-    const existing = this.workers.get(appId);
+    const id = this.resolveId(appId);
+    const existing = this.workers.get(id);
     if (existing && existing.info.status === 'running') {
       existing.info.lastActivity = Date.now();
       return existing.worker;
     }
 
+    // Crashed workers come back on their own schedule; requests don't skip the backoff
+    const state = this.apps.get(id);
+    if (state?.info.status === 'suspended') {
+      throw new Error(`App ${appId} is suspended after repeated crashes: ${state.info.error}`);
+    }
+    if (state?.restartTimer && state.nextRestartAt) {
+      const seconds = Math.ceil((state.nextRestartAt - Date.now()) / 1000);
+      throw new Error(`App ${appId} is restarting after a crash; retry in ${seconds}s`);
+    }
+
     // Check if we are already spawning this worker
     if (this.spawningWorkers.has(appId)) {
       return this.spawningWorkers.get(appId)!;
@@ -103,15 +271,36 @@ class NebulaSupervisor {
   }
 
   /**
-   * Force restart a worker
+   * Force restart a worker. This also lifts a crash suspension.
    */
   public async restartWorker(appId: string): Promise<Worker> {
-    const existing = this.workers.get(appId);
+    const id = this.resolveId(appId);
+    const existing = this.workers.get(id);
     if (existing) {
+      existing.stopping = true;
       existing.worker.terminate();
-      this.workers.delete(appId);
+      this.workers.delete(id);
     }
-    return this.getWorker(appId);
+
+    const state = this.apps.get(id);
+    if (state) {
+      clearTimeout(state.restartTimer);
+      state.restartTimer = undefined;
+      state.nextRestartAt = undefined;
+      state.restartAttempts = 0;
+      state.info.error = undefined;
+      state.info.status = 'starting';
+    }
+    return this.getWorker(id);
+  }
+
+  /**
+   * Pick up an app's new code: a running worker is restarted with it, and an
+   * app without one gets it when the next request spawns a worker
+   */
+  public async reloadApp(appId: string): Promise<void> {
+    if (!this.workers.has(this.resolveId(appId))) return;
+    await this.restartWorker(appId);
   }
 
   /**
@@ -138,6 +327,7 @@ class NebulaSupervisor {
         isAlwaysOn: true,
         name: true,
         description: true,
+        spec: true,
         data: true
       }
     });
@@ -152,79 +342,142 @@ class NebulaSupervisor {
     const generatedCode = typeof app.generatedCode === 'string' ? JSON.parse(app.generatedCode) : app.generatedCode;
     const code = componentFiles?.['App.tsx'] || generatedCode?.pageComponent || '';
 
+    // Workers link to the prebuilt bundle instead of running esbuild on startup
+    let bundleSrc: string | undefined;
+    try {
+      const bundle = await ensureAppBundle({ id: app.id, componentFiles, generatedCode });
+      if (bundle) bundleSrc = bundleUrl(app.id, bundle.hash);
+    } catch (err) {
+      console.error(`Failed to build bundle for app ${app.id}, worker will compile it:`, err);
+    }
+
+    const primary = openAppDataStore(app).collection();
     const worker = new Worker(workerPath, {
       workerData: {
         appId: app.id,
         subdomain: app.subdomain,
         code,
         componentFiles,
+        bundleSrc,
         appName: app.name,
         appDescription: app.description,
-        initialData: typeof app.data === 'string' ? JSON.parse(app.data) : (app.data || [])
+        initialData: primary.list({ newestFirst: true }),
+        primaryCollection: primary.name,
+        metricsIntervalMS: DEFAULT_CONFIG.metricsIntervalMS
+      },
+      resourceLimits: {
+        maxOldGenerationSizeMb: DEFAULT_CONFIG.maxMemoryMB,
+        maxYoungGenerationSizeMb: DEFAULT_CONFIG.maxYoungMemoryMB,
+        stackSizeMb: DEFAULT_CONFIG.stackSizeMB
       }
     });
 
-    const info: NebulaWorkerInfo = {
-      appId: app.id, // Use the real CUID
+    this.aliases.set(app.subdomain, app.id);
+    const state = this.stateFor(app.id, app.subdomain); // Use the real CUID
+    const info = state.info;
+    Object.assign(info, {
       subdomain: app.subdomain,
       status: 'starting',
-      lastActivity: Date.now()
-    };
+      lastActivity: Date.now(),
+      startedAt: Date.now(),
+      memoryUsage: undefined,
+      cpuUsage: undefined,
+    });
 
-    this.workers.set(app.id, { worker, info }); // Store by real CUID
+    const entry: WorkerEntry = { worker, info };
+    this.workers.set(app.id, entry); // Store by real CUID
+    let ready = false;
 
     worker.on('message', (msg: WorkerMessage) => {
       this.handleWorkerMessage(msg);
     });
-    worker.on('error', (err) => {
+    worker.on('error', (err: Error & { code?: string }) => {
       console.error(`Worker error for app ${app.id}:`, err);
       info.status = 'error';
       info.error = err.message;
-    });
-    worker.on('exit', (code) => {
-      if (code !== 0) {
-        console.error(`Worker for app ${app.id} exited with code ${code}`);
+      if (err.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+        entry.exitReason = `Exceeded the ${DEFAULT_CONFIG.maxMemoryMB}MB memory limit`;
       }
-      this.workers.delete(app.id);
     });
 
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
         worker.off('message', onReady);
+        entry.stopping = true;
+        worker.terminate();
         reject(new Error(`Worker start timeout for app ${app.id}`));
       }, 30000);
-      
+
       const onReady = (msg: WorkerMessage) => {
         if (msg.type === 'ready') {
           if (msg.appId === app.id) {
             clearTimeout(timeout);
+            ready = true;
             info.status = 'running';
+            info.error = undefined;
             worker.off('message', onReady);
             resolve(worker);
           }
         }
       };
-      
+
       worker.on('message', onReady);
+
+      worker.on('exit', (code) => {
+        clearTimeout(timeout);
+        if (this.workers.get(app.id) === entry) {
+          this.workers.delete(app.id);
+        }
+
+        const reason = entry.exitReason || info.error || `Exited with code ${code}`;
+        this.failPendingRequests(app.id, `App worker stopped: ${reason}`);
+
+        if (!ready) {
+          // Startup failures are reported to the caller rather than retried
+          info.status = 'error';
+          info.error = reason;
+          reject(new Error(`Worker for app ${app.id} failed to start: ${reason}`));
+          return;
+        }
+        if (entry.stopping || (code === 0 && !entry.exitReason)) {
+          if (info.status !== 'suspended') info.status = 'sleeping';
+          return;
+        }
+
+        console.error(`Worker for app ${app.id} crashed: ${reason}`);
+        this.scheduleRestart(app.id, reason);
+      });
     });
   }
 
   private handleWorkerMessage(msg: WorkerMessage) {
     const { type, appId, payload, correlationId } = msg;
+
+    // Periodic reports don't count as activity, or no worker would ever go idle
+    if (type === 'metrics') {
+      const state = this.apps.get(appId);
+      if (state) {
+        state.metrics.heap = payload as HeapSample;
+        state.info.memoryUsage = state.metrics.heap.usedMB;
+      }
+      return;
+    }
+
     const entry = this.workers.get(appId);
     if (entry) {
       entry.info.lastActivity = Date.now();
     }
 
     if (correlationId && this.pendingRequests.has(correlationId)) {
-      const resolve = this.pendingRequests.get(correlationId);
-      resolve?.(payload);
-      this.pendingRequests.delete(correlationId);
+      const failed = type === 'error' || (typeof payload?.status === 'number' && payload.status >= 500);
+      this.completeRequest(correlationId, payload, failed);
     }
 
     // Handle other message types like db_query here
     if (type === 'db_query') {
       this.handleDbQuery(appId, correlationId!, payload);
+    } else if (type === 'data_request') {
+      this.handleDataQuery(appId, correlationId!, payload);
     }
   }
 
@@ -239,38 +492,81 @@ class NebulaSupervisor {
     } as SupervisorMessage);
   }
 
+  /**
+   * Serve a worker's /api/nebula/data request from the app's data store
+   */
+  private async handleDataQuery(appId: string, correlationId: string, payload: NebulaRequest) {
+    const result = await handleDataRequest(appId, payload);
+    const worker = this.workers.get(appId)?.worker;
+    worker?.postMessage({
+      type: 'data_result',
+      appId,
+      correlationId,
+      payload: result
+    } as SupervisorMessage);
+  }
+
   /**
    * Watchdog to monitor resources and inactivity
    */
   private startWatchdog() {
     setInterval(async () => {
       const now = Date.now();
-      for (const [appId, { worker, info }] of this.workers.entries()) {
+      for (const [appId, entry] of Array.from(this.workers.entries())) {
+        const { worker, info } = entry;
         // 1. Check inactivity
         const app = await prisma.app.findUnique({
           where: { id: appId },
-          select: { isAlwaysOn: true }
+          select: { isAlwaysOn: true, user: { select: { plan: true, subscriptionStatus: true } } }
         });
-
-        if (!app?.isAlwaysOn && (now - info.lastActivity) > DEFAULT_CONFIG.idleTimeoutMS) {
+        // Always-on lapses when the owner's plan no longer includes it
+        if (!hostsAlwaysOn(app) && (now - info.lastActivity) > DEFAULT_CONFIG.idleTimeoutMS) {
           console.log(`Sleeping idle app: ${appId}`);
+          entry.stopping = true;
           worker.postMessage({ type: 'stop', appId } as SupervisorMessage);
           info.status = 'sleeping';
           continue;
         }
 
-        // 2. Check memory usage
+        // 2. Sample CPU; memory is capped by resourceLimits and reported by the worker
         try {
-          // Simplified placeholder: Kill if the worker has been alive too long and not always-on
-          if (!app?.isAlwaysOn && (now - info.lastActivity) > DEFAULT_CONFIG.idleTimeoutMS) {
-             console.log(`Watchdog: Stopping worker for app ${appId} (idle)`);
-             worker.terminate();
-             info.status = 'sleeping';
+          const current = worker.performance.eventLoopUtilization();
+          const delta = entry.elu ? worker.performance.eventLoopUtilization(current, entry.elu) : current;
+          entry.elu = current;
+          info.cpuUsage = Math.round(delta.utilization * 1000) / 10;
+
+          const metrics = this.apps.get(appId)?.metrics;
+          if (metrics?.recordCpu(info.cpuUsage, DEFAULT_CONFIG.cpuLimitPercent, DEFAULT_CONFIG.cpuStrikeLimit)) {
+            this.recycleWorker(appId, `CPU above ${DEFAULT_CONFIG.cpuLimitPercent}% for ${DEFAULT_CONFIG.cpuStrikeLimit} checks`);
           }
         } catch (err) {
           console.error(`Watchdog error for app ${appId}:`, err);
         }
       }
+
+      // 3. Run due time-based workflows (skipped while the previous pass is still going)
+      if (!this.schedulingWorkflows) {
+        this.schedulingWorkflows = true;
+        try {
+          await runDueWorkflows(new Date(now));
+        } catch (err) {
+          console.error('Watchdog: scheduled workflows failed:', err);
+        } finally {
+          this.schedulingWorkflows = false;
+        }
+      }
+
+      // 4. Retry webhook deliveries that are due, including any left over from before a restart
+      if (!this.sweepingWebhooks) {
+        this.sweepingWebhooks = true;
+        try {
+          await processDueDeliveries(new Date(now));
+        } catch (err) {
+          console.error('Watchdog: webhook retries failed:', err);
+        } finally {
+          this.sweepingWebhooks = false;
+        }
+      }
     }, DEFAULT_CONFIG.checkIntervalMS);
   }
 }
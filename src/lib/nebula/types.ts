@@ -1,4 +1,5 @@
 import path from 'path';
+import type { AppMetricsSnapshot } from './metrics';
 
 /**
  * Nebula Hosting System Types
@@ -11,29 +12,62 @@ export interface NebulaWorkerInfo {
   subdomain: string;
   status: AppStatus;
   lastActivity: number;
+  /** When the current worker thread started */
+  startedAt?: number;
+  /** Heap used by the worker, in MB */
   memoryUsage?: number;
+  /** Event loop utilization over the last watchdog check, 0-100 */
   cpuUsage?: number;
   error?: string;
 }
 
+/**
+ * A worker's state as reported by the admin endpoint
+ */
+export interface NebulaWorkerStatus extends NebulaWorkerInfo {
+  metrics: AppMetricsSnapshot;
+  /** Consecutive crash restarts, reset once a worker stays up for `restartResetMS` */
+  restartAttempts: number;
+  /** When a crashed worker will be started again */
+  nextRestartAt?: number;
+}
+
 export interface WorkerMessage {
-  type: 'ready' | 'response' | 'error' | 'status' | 'db_query';
+  type: 'ready' | 'response' | 'error' | 'status' | 'db_query' | 'data_request' | 'metrics';
   appId: string;
   payload?: any;
   correlationId?: string;
 }
 
 export interface SupervisorMessage {
-  type: 'start' | 'request' | 'stop' | 'db_result';
+  type: 'start' | 'request' | 'stop' | 'db_result' | 'data_result';
   appId: string;
   payload?: any;
   correlationId?: string;
 }
 
 export interface NebulaConfig {
+  /** Old-generation heap limit per worker; a worker that exceeds it is terminated by V8 */
   maxMemoryMB: number;
+  maxYoungMemoryMB: number;
+  stackSizeMB: number;
+  /** Event loop utilization above which a watchdog check counts as a strike */
+  cpuLimitPercent: number;
+  /** Consecutive CPU strikes before the worker is restarted */
+  cpuStrikeLimit: number;
+  /** Requests without a response after this long fail, and the worker is restarted */
+  requestTimeoutMS: number;
   idleTimeoutMS: number;
   checkIntervalMS: number;
+  /** How often workers report their heap usage */
+  metricsIntervalMS: number;
+  /** First restart delay after a crash; doubles with each consecutive crash */
+  restartBackoffMS: number;
+  restartBackoffMaxMS: number;
+  /** Consecutive crashes after which the app is suspended until restarted by hand */
+  maxRestarts: number;
+  /** Uptime after which a worker's crash count starts over */
+  restartResetMS: number;
   storagePath: string;
 }
 
@@ -50,7 +84,36 @@ const storagePath = isVercel
 
 export const DEFAULT_CONFIG: NebulaConfig = {
   maxMemoryMB: 128,
+  maxYoungMemoryMB: 16,
+  stackSizeMB: 4,
+  cpuLimitPercent: 90,
+  cpuStrikeLimit: 3,
+  requestTimeoutMS: 30 * 1000,  // 30 seconds
   idleTimeoutMS: 5 * 60 * 1000, // 5 minutes
   checkIntervalMS: 30 * 1000,   // 30 seconds
+  metricsIntervalMS: 10 * 1000, // 10 seconds
+  restartBackoffMS: 1000,
+  restartBackoffMaxMS: 60 * 1000,
+  maxRestarts: 5,
+  restartResetMS: 10 * 60 * 1000, // 10 minutes
   storagePath,
 };
+
+/**
+ * Packages a Nebula page provides through its import map; generated code may
+ * import these and nothing else besides its own files
+ */
+export const NEBULA_EXTERNALS = [
+  'react',
+  'react-dom',
+  'react-dom/client',
+  'framer-motion',
+  'lucide-react',
+  'recharts',
+  'date-fns',
+  'clsx',
+  'tailwind-merge',
+  'react-hook-form',
+  'zod',
+  'nanoid',
+];
@@ -3,28 +3,34 @@ import * as esbuild from 'esbuild';
 import { PrismaClient } from '@prisma/client';
 import { createRequire } from 'module';
 import path from 'path';
+import v8 from 'v8';
+import { appDataClientScript, NEBULA_DATA_PATH } from './app-client';
 
 // Fix for require in ESM worker
 const require = createRequire(import.meta.url);
 
 // Inline types
 interface WorkerMessage {
-  type: 'ready' | 'response' | 'error' | 'status' | 'db_query';
+  type: 'ready' | 'response' | 'error' | 'status' | 'db_query' | 'data_request' | 'metrics';
   appId: string;
   payload?: any;
   correlationId?: string;
 }
 
 interface SupervisorMessage {
-  type: 'start' | 'request' | 'stop' | 'db_result';
+  type: 'start' | 'request' | 'stop' | 'db_result' | 'data_result';
   appId: string;
   payload?: any;
   correlationId?: string;
 }
 
-const { appId, subdomain, code, componentFiles, appName, appDescription, initialData } = workerData;
+const { appId, subdomain, code, componentFiles, bundleSrc, appName, appDescription, initialData, primaryCollection, metricsIntervalMS } = workerData;
 const prisma = new PrismaClient();
 
+// Compiled code is the same for every request, so it's built at most once per worker
+let browserCodePromise: Promise<string> | null = null;
+let ssrCodePromise: Promise<string> | null = null;
+
 /**
  * Bundle V2 app with all component files into a single module
  */
@@ -99,6 +105,28 @@ async function bundleV2App(componentFiles: Record<string, string>): Promise<stri
   return result.outputFiles[0].text;
 }
 
+/**
+ * Bundle or transpile the app's browser code, for when no prebuilt bundle exists
+ */
+async function compileBrowserCode(): Promise<string> {
+  if (componentFiles && componentFiles['App.tsx']) {
+    // Bundle V2 app (modular components)
+    console.log(`[Worker ${appId}] Bundling V2 app with ${Object.keys(componentFiles).length} files`);
+    return bundleV2App(componentFiles);
+  }
+
+  // Transpile V1 app (single file)
+  const browserResult = await esbuild.transform(code, {
+    loader: 'tsx',
+    format: 'esm',
+    target: 'es2020',
+    define: {
+      'process.env.NODE_ENV': '"development"'
+    }
+  });
+  return browserResult.code;
+}
+
 async function start() {
   if (!parentPort) return;
 
@@ -150,6 +178,27 @@ async function start() {
       }
     };
 
+    // Record storage lives in the supervisor's per-app SQLite store;
+    // data API requests are forwarded there and answered with 'data_result'.
+    const requestData = (request: Record<string, unknown>): Promise<{ status: number; body: string; headers: Record<string, string> }> => {
+      return new Promise((resolve) => {
+        const correlationId = Math.random().toString(36).substring(7);
+        const onResult = (msg: SupervisorMessage) => {
+          if (msg.type === 'data_result' && msg.correlationId === correlationId) {
+            parentPort?.off('message', onResult);
+            resolve(msg.payload);
+          }
+        };
+        parentPort?.on('message', onResult);
+        parentPort?.postMessage({
+          type: 'data_request',
+          appId,
+          correlationId,
+          payload: request
+        } as WorkerMessage);
+      });
+    };
+
     // 3. Execution (Server-side)
     let requestHandler: (req: any) => Promise<any>;
 
@@ -279,108 +328,64 @@ async function start() {
       const path = req.path || req.url || '/';
       const url = new URL(path, `http://${subdomain}.nebula.internal`);
       
-      if (url.pathname === '/api/nebula/data') {
-        const method = req.method || 'GET';
-        
-        try {
-          if (method === 'GET') {
-            const app = await prisma.app.findUnique({
-              where: { id: appId },
-              select: { data: true }
-            });
-            const data = typeof app?.data === 'string' ? JSON.parse(app.data) : (app?.data || []);
-            return {
-              status: 200,
-              body: JSON.stringify(data),
-              headers: { 'Content-Type': 'application/json' }
-            };
-          }
-          
-          if (method === 'POST') {
-            const payload = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
-            const { action, id, record } = payload;
-            
-            const app = await prisma.app.findUnique({
-              where: { id: appId },
-              select: { data: true }
-            });
-            let currentData = (typeof app?.data === 'string' ? JSON.parse(app.data) : (app?.data || [])) as any[];
-            
-            if (action === 'add') {
-              currentData = [record, ...currentData];
-            } else if (action === 'update') {
-              currentData = currentData.map(r => r.id === id ? { ...r, ...record } : r);
-            } else if (action === 'delete') {
-              currentData = currentData.filter(r => r.id !== id);
-            }
-            
-            await prisma.app.update({
-              where: { id: appId },
-              data: { data: JSON.stringify(currentData) }
-            });
-            
-            return {
-              status: 200,
-              body: JSON.stringify({ success: true, data: currentData }),
-              headers: { 'Content-Type': 'application/json' }
-            };
-          }
-        } catch (err: any) {
-          console.error(`[Worker ${appId}] Data API error:`, err);
-          return {
-            status: 500,
-            body: JSON.stringify({ error: err.message }),
-            headers: { 'Content-Type': 'application/json' }
-          };
-        }
+      if (url.pathname === NEBULA_DATA_PATH) {
+        return requestData({
+          method: req.method || 'GET',
+          path: url.pathname,
+          query: { ...(req.query || {}), ...Object.fromEntries(url.searchParams.entries()) },
+          headers: req.headers || {},
+          body: req.body ?? null
+        });
       }
 
     const appRecord = await prisma.app.findUnique({
       where: { id: appId },
-      select: { data: true, name: true, description: true }
+      select: { name: true, description: true }
     });
 
-    const currentData = typeof appRecord?.data === 'string' ? JSON.parse(appRecord.data) : (appRecord?.data || initialData || []);
+    let currentData = initialData || [];
+    try {
+      const dataResponse = await requestData({ method: 'GET', path: NEBULA_DATA_PATH, query: {}, headers: {}, body: null });
+      if (dataResponse.status === 200) {
+        currentData = JSON.parse(dataResponse.body);
+      }
+    } catch (err: any) {
+      console.warn(`[Worker ${appId}] Failed to load data, using initial data:`, err.message);
+    }
     const currentName = appRecord?.name || appName || subdomain;
     const currentDesc = appRecord?.description || appDescription || '';
 
-      // Bundle or transpile based on app version
-      let browserCode: string;
+      // Link the prebuilt bundle; without one, compile once for this worker's lifetime
       const isV2 = !!(componentFiles && componentFiles['App.tsx']);
-      
-      if (isV2) {
-        // Bundle V2 app (modular components)
-        console.log(`[Worker ${appId}] Bundling V2 app with ${Object.keys(componentFiles).length} files`);
-        browserCode = await bundleV2App(componentFiles);
-      } else {
-        // Transpile V1 app (single file)
-        const browserResult = await esbuild.transform(code, {
-          loader: 'tsx',
-          format: 'esm',
-          target: 'es2020',
-          define: {
-            'process.env.NODE_ENV': '"development"'
-          }
+      let browserCode = '';
+      if (!bundleSrc) {
+        browserCodePromise ??= compileBrowserCode().catch(err => {
+          browserCodePromise = null;
+          throw err;
         });
-        browserCode = browserResult.code;
+        browserCode = await browserCodePromise;
       }
 
       // Perform SSR
       let ssrHtml = '';
       try {
-        const ssrResult = await esbuild.transform(code, {
+        ssrCodePromise ??= esbuild.transform(code, {
           loader: 'tsx',
           format: 'cjs',
           target: 'node18',
+        }).then(result => result.code).catch(err => {
+          ssrCodePromise = null;
+          throw err;
         });
+        const ssrCode = await ssrCodePromise;
         
         const mod = { exports: {} as any };
-        const execFn = new Function('React', 'require', 'module', 'exports', 'useAppData', ssrResult.code);
+        const execFn = new Function('React', 'require', 'module', 'exports', 'useAppData', ssrCode);
         
         // SSR implementation of useAppData
-        const useAppData = () => {
+        const useAppData = (collection?: string) => {
           return {
-            data: currentData,
+            data: collection ? [] : currentData,
             isLoading: false,
             addRecord: async () => {},
             updateRecord: async () => {},
@@ -535,90 +540,22 @@ async function start() {
             initialData: ${JSON.stringify(currentData)}
         };
 
-        // useAppData hook implementation
-        window.useAppData = () => {
-            const [data, setData] = React.useState(APP_PROPS.initialData || []);
-            const [isLoading, setIsLoading] = React.useState(false);
-            
-            React.useEffect(() => {
-                if (APP_PROPS.initialData && APP_PROPS.initialData.length > 0) {
-                  return;
-                }
-                const loadData = async () => {
-                    setIsLoading(true);
-                    try {
-                        const res = await fetch('/api/nebula/data');
-                        const json = await res.json();
-                        setData(json);
-                    } catch (err) {
-                        console.error('Failed to load data:', err);
-                    } finally {
-                        setIsLoading(false);
-                    }
-                };
-                loadData();
-            }, []);
-
-            const addRecord = async (record) => {
-                const newRecord = { ...record, id: Math.random().toString(36).substr(2, 9), createdAt: new Date().toISOString() };
-                setData(prev => [newRecord, ...prev]);
-                try {
-                    const res = await fetch('/api/nebula/data', {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({ action: 'add', record: newRecord })
-                    });
-                    const json = await res.json();
-                    if (json.data) setData(json.data);
-                    return newRecord;
-                } catch (err) {
-                    console.error('Failed to add record:', err);
-                }
-            };
-            
-            const updateRecord = async (id, updates) => {
-                setData(prev => prev.map(r => r.id === id ? { ...r, ...updates } : r));
-                try {
-                    const res = await fetch('/api/nebula/data', {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({ action: 'update', id, record: updates })
-                    });
-                    const json = await res.json();
-                    if (json.data) setData(json.data);
-                } catch (err) {
-                    console.error('Failed to update record:', err);
-                }
-            };
-            
-            const deleteRecord = async (id) => {
-                setData(prev => prev.filter(r => r.id !== id));
-                try {
-                    const res = await fetch('/api/nebula/data', {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({ action: 'delete', id })
-                    });
-                    const json = await res.json();
-                    if (json.data) setData(json.data);
-                } catch (err) {
-                    console.error('Failed to delete record:', err);
-                }
-            };
-            
-            return { data, isLoading, addRecord, updateRecord, deleteRecord };
-        };
+${appDataClientScript(primaryCollection)}
 
         // App Component Injection
         async function hydrate() {
             try {
-                const codeBase64 = "${Buffer.from(browserCode, 'utf8').toString('base64')}";
-                const code = decodeURIComponent(atob(codeBase64).split('').map(function(c) {
-                    return '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2);
-                }).join(''));
-                
-                const blob = new Blob([code], { type: 'text/javascript' });
-                const url = URL.createObjectURL(blob);
+                // Prebuilt bundles load from a cacheable URL; otherwise the code is inlined
+                let url = ${JSON.stringify(bundleSrc || '')};
+                if (!url) {
+                    const codeBase64 = "${Buffer.from(browserCode, 'utf8').toString('base64')}";
+                    const code = decodeURIComponent(atob(codeBase64).split('').map(function(c) {
+                        return '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2);
+                    }).join(''));
+                    
+                    const blob = new Blob([code], { type: 'text/javascript' });
+                    url = URL.createObjectURL(blob);
+                }
                 
                 const appModule = await import(url);
                 const AppToRender = appModule.default || appModule.App || Object.values(appModule).find(v => typeof v === 'function');
@@ -672,6 +609,19 @@ async function start() {
 
   parentPort.postMessage({ type: 'ready', appId } as WorkerMessage);
 
+  // Report this isolate's heap so the supervisor can show per-app memory usage
+  const toMB = (bytes: number) => Math.round(bytes / 1024 / 1024 * 10) / 10;
+  const reportMetrics = () => {
+    const heap = v8.getHeapStatistics();
+    parentPort?.postMessage({
+      type: 'metrics',
+      appId,
+      payload: { usedMB: toMB(heap.used_heap_size), totalMB: toMB(heap.total_heap_size), limitMB: toMB(heap.heap_size_limit) }
+    } as WorkerMessage);
+  };
+  reportMetrics();
+  setInterval(reportMetrics, metricsIntervalMS || 10000).unref();
+
   parentPort.on('message', async (msg: SupervisorMessage) => {
     if (msg.type === 'request') {
       try {
@@ -0,0 +1,140 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Primitive Field Helpers Tests
+ * Tests for picking fields, grouping kanban columns, calendar months, heatmap days and stats
+ */
+
+import type { FieldDefinition } from '@/lib/scaffolder-v2/types';
+import type { DataRecord } from '../types';
+import {
+  aggregateField,
+  findField,
+  groupRecords,
+  heatmapDays,
+  isoDay,
+  monthGrid,
+  recordTitle,
+  recordsByDay,
+} from '../fields';
+
+const fields: FieldDefinition[] = [
+  { name: 'id', label: 'ID', type: 'string', required: true, generated: true },
+  { name: 'title', label: 'Title', type: 'string', required: true },
+  { name: 'status', label: 'Status', type: 'enum', required: true, options: ['todo', 'doing', 'done'] },
+  { name: 'due', label: 'Due', type: 'date', required: false },
+  { name: 'hours', label: 'Hours', type: 'number', required: false },
+  { name: 'billable', label: 'Billable', type: 'boolean', required: false },
+];
+
+const stamps = { createdAt: '2024-03-01', updatedAt: '2024-03-01' };
+
+const records: DataRecord[] = [
+  { id: 'a', title: 'Write spec', status: 'todo', due: '2024-03-04', hours: 2, billable: true, ...stamps },
+  { id: 'b', title: 'Review', status: 'done', due: '2024-03-04T15:00:00Z', hours: 3, billable: false, ...stamps },
+  { id: 'c', title: 'Ship', status: 'blocked', due: '2024-03-10', hours: '5', ...stamps },
+  { id: 'd', title: '', status: null, due: null, ...stamps },
+];
+
+describe('findField', () => {
+  it('prefers the named field', () => {
+    expect(findField(fields, 'hours', ['date'])?.name).toBe('hours');
+  });
+
+  it('falls back to the first field of a type that is not generated', () => {
+    expect(findField(fields, undefined, ['string'])?.name).toBe('title');
+    expect(findField(fields, 'missing', ['date', 'datetime'])?.name).toBe('due');
+  });
+
+  it('finds nothing without a name or types', () => {
+    expect(findField(fields, 'missing')).toBeUndefined();
+  });
+});
+
+describe('recordTitle', () => {
+  it('falls back to the id when the title is empty', () => {
+    expect(recordTitle(fields, records[0])).toBe('Write spec');
+    expect(recordTitle(fields, records[3])).toBe('d');
+  });
+});
+
+describe('groupRecords', () => {
+  it('makes a column per option, then other values, then ungrouped records', () => {
+    const groups = groupRecords(records, fields[2]);
+
+    expect(groups.map(group => group.value)).toEqual(['todo', 'doing', 'done', 'blocked', null]);
+    expect(groups.map(group => group.records.map(record => record.id))).toEqual([['a'], [], ['b'], ['c'], ['d']]);
+  });
+
+  it('leaves out the ungrouped column when every record has a value', () => {
+    const groups = groupRecords(records.slice(0, 2), fields[2]);
+    expect(groups.map(group => group.value)).toEqual(['todo', 'doing', 'done']);
+  });
+});
+
+describe('monthGrid', () => {
+  it('covers six weeks starting on Monday by default', () => {
+    const days = monthGrid(new Date(Date.UTC(2024, 2, 15)));
+
+    expect(days).toHaveLength(42);
+    expect(isoDay(days[0])).toBe('2024-02-26');
+    expect(days[0].getUTCDay()).toBe(1);
+  });
+
+  it('can start weeks on Sunday', () => {
+    const days = monthGrid(new Date(Date.UTC(2024, 2, 1)), 0);
+    expect(isoDay(days[0])).toBe('2024-02-25');
+  });
+});
+
+describe('recordsByDay', () => {
+  it('groups dates and datetimes by day and skips records without one', () => {
+    const days = recordsByDay(records, 'due');
+
+    expect(days.get('2024-03-04')?.map(record => record.id)).toEqual(['a', 'b']);
+    expect(days.get('2024-03-10')?.map(record => record.id)).toEqual(['c']);
+    expect(days.size).toBe(2);
+  });
+});
+
+describe('heatmapDays', () => {
+  const today = new Date(Date.UTC(2024, 2, 10));
+
+  it('counts records per day over the range ending today', () => {
+    const days = heatmapDays(records, 'due', undefined, 'week', today);
+
+    expect(days).toHaveLength(7);
+    expect(days[0].day).toBe('2024-03-04');
+    expect(days[6].day).toBe('2024-03-10');
+    expect(days.map(day => day.total)).toEqual([2, 0, 0, 0, 0, 0, 1]);
+  });
+
+  it('adds up number fields and counts true booleans', () => {
+    const hours = heatmapDays(records, 'due', fields[4], 'week', today);
+    const billable = heatmapDays(records, 'due', fields[5], 'week', today);
+
+    expect(hours[0].total).toBe(5);
+    expect(hours[6].total).toBe(5);
+    expect(billable[0].total).toBe(1);
+    expect(billable[6].total).toBe(0);
+  });
+});
+
+describe('aggregateField', () => {
+  it('aggregates numeric values and ignores the rest', () => {
+    expect(aggregateField(records, 'hours', 'sum')).toBe(10);
+    expect(aggregateField(records, 'hours', 'avg')).toBeCloseTo(10 / 3);
+    expect(aggregateField(records, 'hours', 'min')).toBe(2);
+    expect(aggregateField(records, 'hours', 'max')).toBe(5);
+  });
+
+  it('counts records holding a value', () => {
+    expect(aggregateField(records, 'due', 'count')).toBe(3);
+  });
+
+  it('returns zero when there is nothing to aggregate', () => {
+    expect(aggregateField([], 'hours', 'max')).toBe(0);
+  });
+});
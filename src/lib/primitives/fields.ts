@@ -0,0 +1,183 @@
+/**
+ * Primitive Field Helpers
+ * Pick the fields a primitive is driven by and shape records for display:
+ * kanban columns, calendar months, heatmap days and stat aggregates
+ */
+
+import type { FieldDefinition, FieldType } from '@/lib/scaffolder-v2/types';
+import type { DataRecord, HeatmapRange, StatAggregation } from './types';
+
+/**
+ * The field a config names, or the first field of one of the given types
+ * that isn't generated
+ */
+export function findField(
+  fields: FieldDefinition[],
+  name: string | undefined,
+  types?: FieldType[]
+): FieldDefinition | undefined {
+  const named = name ? fields.find(field => field.name === name) : undefined;
+  if (named) return named;
+  return types ? fields.find(field => !field.generated && types.includes(field.type)) : undefined;
+}
+
+/**
+ * A value as display text
+ */
+export function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? '✓' : '✗';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (Array.isArray(value)) return value.map(formatFieldValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * A record's title: the named field, else its first text field, else its id
+ */
+export function recordTitle(fields: FieldDefinition[], record: DataRecord, titleField?: string): string {
+  const field = findField(fields, titleField, ['string', 'text', 'enum']);
+  const value = field ? formatFieldValue(record[field.name]) : '';
+  return value || record.id;
+}
+
+// ============================================================================
+// Kanban
+// ============================================================================
+
+export interface RecordGroup {
+  /** The field value shared by the group; null for records without one */
+  value: string | null;
+  records: DataRecord[];
+}
+
+/**
+ * Group records into columns: one per enum option, in order, then any other
+ * values records hold, then records with no value if there are any
+ */
+export function groupRecords(records: DataRecord[], field: FieldDefinition): RecordGroup[] {
+  const valueOf = (record: DataRecord) => {
+    const value = record[field.name];
+    return value === null || value === undefined || value === '' ? null : String(value);
+  };
+
+  const values = Array.from(new Set([
+    ...(field.options || []),
+    ...records.map(valueOf).filter((value): value is string => value !== null),
+  ]));
+  const groups: RecordGroup[] = values.map(value => ({
+    value,
+    records: records.filter(record => valueOf(record) === value),
+  }));
+
+  const ungrouped = records.filter(record => valueOf(record) === null);
+  return ungrouped.length > 0 ? [...groups, { value: null, records: ungrouped }] : groups;
+}
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+/**
+ * The day of a date or datetime value, as YYYY-MM-DD
+ */
+export function dayOf(value: unknown): string | null {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : null;
+}
+
+export function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The six weeks shown for a month (UTC), starting on the week that holds
+ * its first day
+ */
+export function monthGrid(month: Date, weekStartsOn: 0 | 1 = 1): Date[] {
+  const first = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth(), 1));
+  const lead = (first.getUTCDay() - weekStartsOn + 7) % 7;
+  return Array.from({ length: 42 }, (_, index) =>
+    new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), 1 - lead + index))
+  );
+}
+
+/**
+ * Records keyed by the day of a date field; records without one are left out
+ */
+export function recordsByDay(records: DataRecord[], dateField: string): Map<string, DataRecord[]> {
+  const days = new Map<string, DataRecord[]>();
+  for (const record of records) {
+    const day = dayOf(record[dateField]);
+    if (day) days.set(day, [...(days.get(day) || []), record]);
+  }
+  return days;
+}
+
+export const HEATMAP_DAYS: Record<HeatmapRange, number> = { week: 7, month: 30, quarter: 91, year: 364 };
+
+export interface HeatmapDay {
+  day: string;
+  total: number;
+}
+
+/**
+ * Totals per day for the range ending today, oldest first. Number fields add
+ * up, boolean fields count true values, and without a value field each
+ * record counts once.
+ */
+export function heatmapDays(
+  records: DataRecord[],
+  dateField: string,
+  valueField: FieldDefinition | undefined,
+  range: HeatmapRange = 'year',
+  today = new Date()
+): HeatmapDay[] {
+  const totals = new Map<string, number>();
+  for (const record of records) {
+    const day = dayOf(record[dateField]);
+    if (!day) continue;
+    const value = valueField ? record[valueField.name] : undefined;
+    const amount = valueField?.type === 'number' ? Number(value) || 0
+      : valueField?.type === 'boolean' ? Number(value === true)
+      : 1;
+    totals.set(day, (totals.get(day) || 0) + amount);
+  }
+
+  const length = HEATMAP_DAYS[range] || HEATMAP_DAYS.year;
+  return Array.from({ length }, (_, index) => {
+    const day = isoDay(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - (length - 1 - index))));
+    return { day, total: totals.get(day) || 0 };
+  });
+}
+
+// ============================================================================
+// Stats
+// ============================================================================
+
+/**
+ * Aggregate a field over records, ignoring values that aren't numbers
+ */
+export function aggregateField(records: DataRecord[], field: string, aggregation: StatAggregation): number {
+  if (aggregation === 'count') {
+    return records.filter(record => record[field] !== null && record[field] !== undefined && record[field] !== '').length;
+  }
+
+  const values = records
+    .map(record => record[field])
+    .filter(value => value !== null && value !== undefined && value !== '')
+    .map(Number)
+    .filter(Number.isFinite);
+  if (values.length === 0) return 0;
+
+  switch (aggregation) {
+    case 'avg':
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    default:
+      return values.reduce((sum, value) => sum + value, 0);
+  }
+}
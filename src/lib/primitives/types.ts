@@ -1,4 +1,5 @@
 import type { FieldDefinition } from '@/lib/scaffolder/types';
+import type { ComputedField, FieldDefinition as SchemaField } from '@/lib/scaffolder-v2/types';
 
 export interface DataRecord {
   id: string;
@@ -14,13 +15,33 @@ export interface PrimitiveProps {
   onDataChange?: (data: DataRecord[]) => void;
 }
 
+/** Validation messages keyed by field name, as returned by the data API */
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Form submit handler. Returning field errors keeps the form open and shows
+ * them next to the matching inputs.
+ */
+export type FormSubmitHandler = (
+  values: Record<string, unknown>
+) => void | FieldErrors | Promise<void | FieldErrors>;
+
+/** A record a relation field can point to */
+export interface RelationOption {
+  value: string;
+  label: string;
+}
+
 export interface FormPrimitiveConfig {
   fields: FieldDefinition[];
   submitLabel?: string;
-  onSubmit?: (values: Record<string, unknown>) => void;
+  onSubmit?: FormSubmitHandler;
+  /** Choices for foreign key fields, keyed by field name; these render as pickers */
+  relationOptions?: Record<string, RelationOption[]>;
 }
 
 export interface TablePrimitiveConfig {
+  /** A column's field may name a computed field */
   columns: {
     field: string;
     label: string;
@@ -31,6 +52,8 @@ export interface TablePrimitiveConfig {
     field: string;
     direction: 'asc' | 'desc';
   };
+  /** Computed fields to fill in for records that don't carry them */
+  computedFields?: ComputedField[];
 }
 
 export interface ChartPrimitiveConfig {
@@ -39,4 +62,99 @@ export interface ChartPrimitiveConfig {
   yAxis: string;
   groupBy?: string;
   aggregation?: 'sum' | 'count' | 'average';
+  /** Computed fields to fill in for records that don't carry them; usable as axes */
+  computedFields?: ComputedField[];
+}
+
+// ============================================================================
+// Schema-driven primitives
+// ============================================================================
+// These take the schema's field definitions alongside their config. Field
+// names a config leaves out default to the first field of a fitting type.
+
+/** Props shared by the schema-driven primitives */
+export interface SchemaPrimitiveProps<Config> {
+  data: DataRecord[];
+  fields: SchemaField[];
+  config: Config;
+  title?: string;
+  /** Called when a record is picked, e.g. to show it in a detail view */
+  onSelect?: (record: DataRecord) => void;
+  selectedId?: string;
+}
+
+export interface KanbanPrimitiveConfig {
+  /** Enum field whose options are the columns */
+  groupBy?: string;
+  titleField?: string;
+  subtitleField?: string;
+}
+
+export interface CalendarPrimitiveConfig {
+  /** A `date` or `datetime` field */
+  dateField?: string;
+  titleField?: string;
+  /** 0 starts weeks on Sunday, 1 on Monday (the default) */
+  weekStartsOn?: 0 | 1;
+}
+
+export interface TimelinePrimitiveConfig {
+  /** A `date` or `datetime` field; records without one fall back to when they were created */
+  dateField?: string;
+  titleField?: string;
+  descriptionField?: string;
+  order?: 'asc' | 'desc';
+}
+
+export interface GalleryPrimitiveConfig {
+  /** Field holding an http(s) or data: image URL */
+  imageField?: string;
+  titleField?: string;
+  /** Most images per row; fewer fit on narrow screens */
+  columns?: number;
+}
+
+export type HeatmapRange = 'week' | 'month' | 'quarter' | 'year';
+
+export interface HeatmapPrimitiveConfig {
+  /** A `date` or `datetime` field */
+  dateField?: string;
+  /** Number fields add up and boolean fields count true values; without one, records are counted */
+  valueField?: string;
+  timeRange?: HeatmapRange;
+}
+
+export interface ListPrimitiveConfig {
+  titleField?: string;
+  subtitleField?: string;
+  /** Boolean field shown as a checkbox that updates the record */
+  checkboxField?: string;
+}
+
+export interface CardsPrimitiveConfig {
+  titleField?: string;
+  subtitleField?: string;
+  /** Further fields listed on each card; defaults to the next few */
+  fields?: string[];
+}
+
+export interface DetailPrimitiveConfig {
+  /** Fields to show, in order; defaults to every field that isn't generated */
+  fields?: string[];
+}
+
+export type StatAggregation = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+export interface StatsPrimitiveConfig {
+  /** A metric's field may name a computed field */
+  metrics: {
+    field: string;
+    label?: string;
+    aggregation: StatAggregation;
+  }[];
+  /** Show the record count first; defaults to true */
+  showCount?: boolean;
+  countLabel?: string;
+  /** Computed fields to fill in for records that don't carry them */
+  computedFields?: ComputedField[];
 }
@@ -12,6 +12,7 @@ import {
   getLLMConfig,
   type ChatMessage as LLMChatMessage,
   type CompletionOptions,
+  type JSONSchema,
   type UserLLMSettings,
 } from '@/lib/llm';
 
@@ -29,6 +30,7 @@ export interface ChatCompletionOptions {
   maxTokens?: number;
   stream?: boolean;
   userSettings?: UserLLMSettings;
+  agent?: string;
 }
 
 // Get model name for backward compatibility
@@ -63,6 +65,7 @@ export async function complete(options: Omit<ChatCompletionOptions, 'stream'>):
       temperature: options.temperature,
       maxTokens: options.maxTokens,
       userSettings: options.userSettings,
+      agent: options.agent,
     });
 
     console.log('✅ AI response received, length:', result.length);
@@ -86,13 +89,16 @@ export async function* streamComplete(options: Omit<ChatCompletionOptions, 'stre
     temperature: options.temperature,
     maxTokens: options.maxTokens,
     userSettings: options.userSettings,
+    agent: options.agent,
   });
 }
 
 /**
  * JSON mode completion using the LLM router
  */
-export async function completeJSON<T>(options: Omit<ChatCompletionOptions, 'stream'> & { schema?: string }): Promise<T> {
+export async function completeJSON<T>(
+  options: Omit<ChatCompletionOptions, 'stream'> & { schema: JSONSchema<T>; maxRepairs?: number }
+): Promise<T> {
   try {
     console.log('🚀 Making JSON AI request via LLM router');
 
@@ -101,7 +107,9 @@ export async function completeJSON<T>(options: Omit<ChatCompletionOptions, 'stre
       temperature: options.temperature,
       maxTokens: options.maxTokens,
       schema: options.schema,
+      maxRepairs: options.maxRepairs,
       userSettings: options.userSettings,
+      agent: options.agent,
     });
 
     console.log('✅ JSON parsed successfully');
@@ -1,14 +1,24 @@
+/**
+ * @jest-environment node
+ */
+
 /**
  * Feedback Loop Tests
  * Tests for error detection, smart context extraction, and feedback loop management
  */
 
 import { ErrorAnalyzer, type ErrorCategory } from '../error-analyzer';
-import { ErrorDetectionService, errorDetectionService, type DetectedError } from '../error-detection-service';
+import {
+  ErrorDetectionService,
+  errorDetectionService,
+  type DetectedError,
+  type ServerBundleResult,
+  type BundleError,
+} from '../error-detection-service';
 import { SmartContextExtractor, smartContextExtractor } from '../smart-context-extractor';
 import { FeedbackLoop, type FeedbackSession } from '../feedback-loop';
 import { FEEDBACK_CONFIG, getRetryStrategy, getContextWindowSize, shouldRetry } from '../feedback-config';
-import type { ServerBundleResult, BundleError } from '@/lib/runtime/server-bundler';
+import type { CodeDiagnostic, QualityReport } from '../quality-control';
 
 // Sample code fixtures for testing
 const sampleCodeWithSyntaxError = `
@@ -119,6 +129,32 @@ describe('ErrorAnalyzer', () => {
       expect(result.category).toBe('unknown');
     });
   });
+
+  describe('analyzeDiagnostic', () => {
+    const diagnostic = (overrides: Partial<CodeDiagnostic>): CodeDiagnostic => ({
+      file: 'components/Chart.tsx',
+      line: 12,
+      column: 5,
+      code: 'TS2322',
+      source: 'type',
+      severity: 'error',
+      message: "Type 'number' is not assignable to type 'string'.",
+      ...overrides,
+    });
+
+    it('should keep the file, location and code', () => {
+      const result = ErrorAnalyzer.analyzeDiagnostic(diagnostic({}));
+
+      expect(result).toMatchObject({ file: 'components/Chart.tsx', line: 12, column: 5, code: 'TS2322' });
+      expect(result.category).toBe('semantic');
+    });
+
+    it('should classify by error code', () => {
+      expect(ErrorAnalyzer.analyzeDiagnostic(diagnostic({ source: 'syntax', code: 'TS1005' })).category).toBe('syntax');
+      expect(ErrorAnalyzer.analyzeDiagnostic(diagnostic({ code: 'TS2307' })).category).toBe('environment');
+      expect(ErrorAnalyzer.analyzeDiagnostic(diagnostic({ code: 'TS2305' })).category).toBe('environment');
+    });
+  });
 });
 
 // ====================
@@ -210,6 +246,26 @@ describe('ErrorDetectionService', () => {
     });
   });
 
+  describe('detectTypeCheckErrors', () => {
+    it('should detect errors and skip warnings', () => {
+      const result = service.detectTypeCheckErrors([
+        { file: 'App.tsx', line: 3, column: 1, code: 'no-console', source: 'style', severity: 'warning', message: 'Contains console.log statement' },
+        { file: 'App.tsx', line: 8, column: 14, code: 'TS2322', source: 'type', severity: 'error', message: 'Bad prop' },
+        { file: 'lib/api.ts', line: 2, column: 1, code: 'TS1005', source: 'syntax', severity: 'error', message: "';' expected." },
+      ]);
+
+      expect(result.hasErrors).toBe(true);
+      expect(result.errors).toHaveLength(2);
+      expect(result.primaryError?.stage).toBe('type_check');
+      expect(result.primaryError?.file).toBe('lib/api.ts');
+      expect(result.primaryError?.analysis.category).toBe('syntax');
+    });
+
+    it('should report success without errors', () => {
+      expect(service.detectTypeCheckErrors([]).hasErrors).toBe(false);
+    });
+  });
+
   describe('detectRuntimeErrors', () => {
     it('should detect runtime errors', () => {
       const errorData = {
@@ -547,6 +603,41 @@ describe('FeedbackLoop', () => {
     });
   });
 
+  describe('addTypeCheckResult', () => {
+    const report = (diagnostics: CodeDiagnostic[]): QualityReport => ({
+      valid: diagnostics.length === 0,
+      syntaxErrors: [],
+      typeErrors: [],
+      styleIssues: [],
+      diagnostics,
+      score: diagnostics.length === 0 ? 100 : 0,
+    });
+
+    it('should add one iteration listing every type error', () => {
+      const loop = new FeedbackLoop('test-id', 'Test');
+
+      const iteration = loop.addTypeCheckResult(sampleValidCode, report([
+        { file: 'App.tsx', line: 3, column: 36, code: 'TS2304', source: 'type', severity: 'error', message: "Cannot find name 'useState'." },
+        { file: 'App.tsx', line: 6, column: 5, code: 'TS2345', source: 'type', severity: 'error', message: 'Bad argument' },
+      ]));
+
+      expect(iteration?.stage).toBe('type_check');
+      expect(iteration?.errorLog.split('\n')).toEqual([
+        "App.tsx:3:36 - TS2304: Cannot find name 'useState'.",
+        'App.tsx:6:5 - TS2345: Bad argument',
+      ]);
+      expect(iteration?.analysis.code).toBe('TS2345');
+      expect(loop.getCurrentCode()).toBe(sampleValidCode);
+    });
+
+    it('should not add an iteration for code without errors', () => {
+      const loop = new FeedbackLoop('test-id', 'Test');
+
+      expect(loop.addTypeCheckResult(sampleValidCode, report([]))).toBeNull();
+      expect(loop.getSession().iterations).toHaveLength(0);
+    });
+  });
+
   describe('generateCorrectionPrompt', () => {
     it('should generate correction prompt after feedback', () => {
       const loop = new FeedbackLoop('test-id', 'Create a counter app');
@@ -0,0 +1,150 @@
+/**
+ * Tests for the layout rendering helpers
+ */
+
+import {
+  breakpointFor,
+  filterRecords,
+  layoutCollections,
+  parseLayout,
+  resolveArrangement,
+  sizingStyle,
+  sizing,
+  templates,
+} from '../layout';
+import type { ContainerConfig, FieldDefinition } from '../types';
+
+function containerOf(direction: ContainerConfig['direction'], responsive?: ContainerConfig['responsive']): ContainerConfig {
+  return { direction, children: [], responsive };
+}
+
+describe('breakpointFor', () => {
+  it('matches the md and lg breakpoints', () => {
+    expect(breakpointFor(375)).toBe('mobile');
+    expect(breakpointFor(768)).toBe('tablet');
+    expect(breakpointFor(1023)).toBe('tablet');
+    expect(breakpointFor(1440)).toBe('desktop');
+  });
+});
+
+describe('resolveArrangement', () => {
+  const responsive = { mobile: 'stack', tablet: 'scroll', desktop: 'side-by-side' } as const;
+
+  it('follows the responsive behavior of rows', () => {
+    const row = containerOf('row', responsive);
+    expect(resolveArrangement(row, 'mobile')).toBe('column');
+    expect(resolveArrangement(row, 'tablet')).toBe('scroll');
+    expect(resolveArrangement(row, 'desktop')).toBe('row');
+  });
+
+  it('keeps columns vertical unless they become tabs or sections', () => {
+    expect(resolveArrangement(containerOf('column', responsive), 'desktop')).toBe('column');
+    expect(resolveArrangement(containerOf('column', { mobile: 'tabs', tablet: 'collapse', desktop: 'stack' }), 'mobile')).toBe('tabs');
+    expect(resolveArrangement(containerOf('column', { mobile: 'tabs', tablet: 'collapse', desktop: 'stack' }), 'tablet')).toBe('collapse');
+  });
+
+  it('falls back to the direction without responsive config', () => {
+    expect(resolveArrangement(containerOf('grid'), 'mobile')).toBe('grid');
+    expect(resolveArrangement(containerOf('row'), 'mobile')).toBe('row');
+  });
+});
+
+describe('sizingStyle', () => {
+  it('turns sizing into flex styles in rows', () => {
+    expect(sizingStyle(sizing.sidebar(), 'row')).toEqual({
+      flexGrow: 0,
+      flexShrink: 0,
+      flexBasis: '300px',
+      minWidth: 'min(250px, 100%)',
+      maxWidth: '400px',
+    });
+    expect(sizingStyle(sizing.fill(), 'row')).toMatchObject({ flexGrow: 1, flexBasis: '0%' });
+  });
+
+  it('shares rows equally without sizing and ignores sizing in stacks', () => {
+    expect(sizingStyle(undefined, 'row')).toEqual({ flex: '1 1 0%', minWidth: 0 });
+    expect(sizingStyle(sizing.sidebar(), 'column')).toEqual({ minWidth: 0 });
+  });
+});
+
+describe('filterRecords', () => {
+  const fields: FieldDefinition[] = [
+    { name: 'title', label: 'Title', type: 'string', required: true },
+    { name: 'status', label: 'Status', type: 'enum', required: false, options: ['Open', 'Done'] },
+    { name: 'due', label: 'Due', type: 'date', required: false },
+    { name: 'done', label: 'Done', type: 'boolean', required: false },
+  ];
+  const records = [
+    { id: '1', title: 'Buy milk', status: 'Open', due: '2024-03-01', done: false },
+    { id: '2', title: 'Pay rent', status: 'Done', due: '2024-04-01', done: true },
+    { id: '3', title: 'Call mum', status: 'Open', due: null, done: false },
+  ];
+
+  it('returns every record without a filter', () => {
+    expect(filterRecords(records, fields, undefined)).toBe(records);
+    expect(filterRecords(records, fields, { search: ' ', values: { status: '' } })).toBe(records);
+  });
+
+  it('searches text fields and matches values', () => {
+    expect(filterRecords(records, fields, { search: 'MILK' }).map(r => r.id)).toEqual(['1']);
+    expect(filterRecords(records, fields, { values: { status: 'Open' } }).map(r => r.id)).toEqual(['1', '3']);
+    expect(filterRecords(records, fields, { values: { done: 'true' } }).map(r => r.id)).toEqual(['2']);
+  });
+
+  it('keeps records on or after a date', () => {
+    expect(filterRecords(records, fields, { values: { due: '2024-03-15' } }).map(r => r.id)).toEqual(['2']);
+  });
+});
+
+describe('parseLayout', () => {
+  it('keeps well-formed layouts', () => {
+    const layout = templates.dashboard();
+    expect(parseLayout(JSON.parse(JSON.stringify(layout)))).toEqual(JSON.parse(JSON.stringify(layout)));
+  });
+
+  it('repairs nodes and drops what it cannot render', () => {
+    const layout = parseLayout({
+      type: 'container',
+      container: {
+        direction: 'diagonal',
+        children: [
+          { type: 'component', component: { type: 'spreadsheet' } },
+          { type: 'widget' },
+          null,
+        ],
+      },
+    });
+
+    expect(layout?.container?.direction).toBe('column');
+    expect(layout?.container?.children).toHaveLength(1);
+    expect(layout?.container?.children[0]).toMatchObject({
+      id: 'node-0-0',
+      component: { type: 'custom', props: {} },
+    });
+  });
+
+  it('rejects layouts without components', () => {
+    expect(parseLayout(null)).toBeNull();
+    expect(parseLayout('{}')).toBeNull();
+    expect(parseLayout({ type: 'container', container: { direction: 'row', children: [] } })).toBeNull();
+  });
+});
+
+describe('layoutCollections', () => {
+  it('lists the collections components name', () => {
+    const layout = parseLayout({
+      type: 'container',
+      container: {
+        direction: 'row',
+        children: [
+          { type: 'component', component: { type: 'table', props: { collection: 'Task' } } },
+          { type: 'component', component: { type: 'list', props: { schemaRef: 'Project' } } },
+          { type: 'component', component: { type: 'form', props: { collection: 'Task' } } },
+          { type: 'component', component: { type: 'stats', props: {} } },
+        ],
+      },
+    });
+
+    expect(layoutCollections(layout!)).toEqual(['Task', 'Project']);
+  });
+});
@@ -445,3 +445,96 @@ describe('Quality Control - Report Structure', () => {
     expect(result.styleIssues.length).toBeGreaterThan(0);
   });
 });
+
+describe('Quality Control - Type Checking', () => {
+  it('should catch icons lucide-react does not export', () => {
+    const result = QualityController.verify(`import { Heart, NotAnIcon } from 'lucide-react';
+export default function App() {
+  return <div><Heart /><NotAnIcon /></div>;
+}`);
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      file: 'App.tsx',
+      line: 1,
+      code: 'TS2305',
+      source: 'type',
+    }));
+  });
+
+  it('should catch wrong props passed to recharts', () => {
+    const result = QualityController.verify(`import { BarChart } from 'recharts';
+export default function App() {
+  return <BarChart dataSet={[]} />;
+}`);
+
+    expect(result.typeErrors.some(e => e.includes('dataSet'))).toBe(true);
+  });
+
+  it('should catch bad hook usage', () => {
+    const result = QualityController.verify(`import { useState } from 'react';
+export default function App() {
+  const [count, setCount] = useState<number>(0);
+  return <button onClick={() => setCount('one')}>{count}</button>;
+}`);
+
+    expect(result.diagnostics.some(d => d.code === 'TS2345' && d.line === 4)).toBe(true);
+  });
+
+  it('should accept the runtime globals and React without an import', () => {
+    const result = QualityController.verify(`export default function App() {
+  const { data, addRecord } = useAppData('Task');
+  const [title, setTitle] = React.useState('');
+  return <button onClick={() => addRecord({ title })}>{data.length} {title}</button>;
+}`);
+
+    expect(result.typeErrors).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject packages the runtime does not provide', () => {
+    const result = QualityController.verify(`import axios from 'axios';
+export default function App() { return <div>{String(axios)}</div>; }`);
+
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({ code: 'TS2307', line: 1 }));
+  });
+
+  it('should check props across component files', () => {
+    const result = QualityController.verifyFiles({
+      'App.tsx': `import { Title } from './components/Title';
+export default function App() { return <Title label={3} />; }`,
+      'components/Title.tsx': `export function Title({ label }: { label: string }) { return <h1>{label}</h1>; }`,
+    });
+
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      file: 'App.tsx',
+      line: 2,
+      code: 'TS2322',
+    }));
+  });
+
+  it('should report missing app files unless only part of the app is checked', () => {
+    const code = `import { Title } from './components/Title';
+export default function App() { return <Title />; }`;
+
+    expect(QualityController.verifyFiles({ 'App.tsx': code }).diagnostics.some(d => d.code === 'TS2307')).toBe(true);
+    expect(QualityController.verify(code).diagnostics.some(d => d.code === 'TS2307')).toBe(false);
+  });
+
+  it('should report style issues with their location', () => {
+    const result = QualityController.verifyFiles({
+      'components/List.tsx': `export function List() {
+  console.warn('empty');
+  return null;
+}`,
+    });
+
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      file: 'components/List.tsx',
+      line: 2,
+      code: 'no-console',
+      severity: 'warning',
+    }));
+    expect(result.valid).toBe(true);
+  });
+});
@@ -4,6 +4,7 @@
  * Now includes creative iteration loop for design exploration
  */
 
+import { z } from 'zod';
 import { BaseAgent } from './base-agent';
 import { generateId } from '@/lib/utils';
 import type { UserLLMSettings } from '@/lib/llm';
@@ -21,6 +22,7 @@ import type {
   AppCategory,
   AppCapabilities,
 } from '../types';
+import { ENHANCED_INTENT_SCHEMA } from './intent-engine';
 import { DesignExplorerAgent, designExplorerAgent, type DesignConcept, type ExplorationResult } from './design-explorer';
 
 // ============================================================================
@@ -48,56 +50,27 @@ export interface CreativeLoopState {
 }
 
 // Decision analysis schema for LLM
-const DECISION_ANALYSIS_SCHEMA = `{
-  "understanding": {
-    "primaryIntent": "string",
-    "isNewRequest": true|false,
-    "isRefinement": true|false,
-    "isApproval": true|false,
-    "isQuestion": true|false,
-    "affectedAreas": ["schema"|"ui"|"workflow"|"all"],
-    "complexity": 1-10
-  },
-  "parallelActions": [{
-    "agent": "schema"|"ui"|"workflow"|"intent",
-    "action": "string",
-    "priority": 1-10,
-    "dependsOn": ["string"],
-    "estimatedMs": number
-  }],
-  "shouldGenerateProposals": true|false,
-  "userMessage": "string",
-  "reasoning": "string"
-}`;
-
-// Enhanced intent extraction schema
-const INTENT_EXTRACTION_SCHEMA = `{
-  "primaryGoal": "string",
-  "appCategory": "tracker"|"crm"|"dashboard"|"workflow"|"content"|"inventory"|"social"|"generic",
-  "complexityScore": 1-10,
-  "entities": [{
-    "name": "string",
-    "role": "primary"|"secondary",
-    "fields": ["string"],
-    "relationships": ["string"]
-  }],
-  "referenceApps": [{
-    "name": "string",
-    "aspects": ["string"],
-    "confidence": 0-1
-  }],
-  "workflows": [{
-    "trigger": "string",
-    "action": "string",
-    "description": "string"
-  }],
-  "layoutHints": {
-    "structure": "dashboard"|"sidebar"|"kanban"|"simple"|"split",
-    "components": ["string"],
-    "emphasis": "data-entry"|"visualization"|"workflow"|"balanced"
-  },
-  "suggestedEnhancements": ["string"]
-}`;
+const DECISION_ANALYSIS_SCHEMA = z.object({
+  understanding: z.object({
+    primaryIntent: z.string(),
+    isNewRequest: z.boolean(),
+    isRefinement: z.boolean(),
+    isApproval: z.boolean(),
+    isQuestion: z.boolean(),
+    affectedAreas: z.array(z.enum(['schema', 'ui', 'workflow', 'all'])).default([]),
+    complexity: z.number().min(1).max(10).catch(5),
+  }),
+  parallelActions: z.array(z.object({
+    agent: z.enum(['schema', 'ui', 'workflow', 'intent']),
+    action: z.string(),
+    priority: z.number().min(1).max(10).catch(5),
+    dependsOn: z.array(z.string()).optional(),
+    estimatedMs: z.number().optional(),
+  })).default([]),
+  shouldGenerateProposals: z.boolean(),
+  userMessage: z.string(),
+  reasoning: z.string(),
+});
 
 const ARCHITECT_SYSTEM_PROMPT = `You are the adaptive architect for an AI app builder. Your PRIMARY GOAL is to create CREATIVE, POLISHED applications - NOT generic CRUD interfaces.
 
@@ -288,27 +261,7 @@ IMPORTANT:
 Respond with JSON.`;
 
     try {
-      const analysis = await this.callLLMJSON<{
-        understanding: {
-          primaryIntent: string;
-          isNewRequest: boolean;
-          isRefinement: boolean;
-          isApproval: boolean;
-          isQuestion: boolean;
-          affectedAreas: ('schema' | 'ui' | 'workflow' | 'all')[];
-          complexity: number;
-        };
-        parallelActions: {
-          agent: string;
-          action: string;
-          priority: number;
-          dependsOn?: string[];
-          estimatedMs?: number;
-        }[];
-        shouldGenerateProposals: boolean;
-        userMessage: string;
-        reasoning: string;
-      }>(
+      const analysis = await this.callLLMJSON(
         [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: analysisPrompt },
@@ -319,7 +272,7 @@ Respond with JSON.`;
       // Convert to parallel actions
       const parallelActions: ParallelAction[] = analysis.parallelActions.map((a, i) => ({
         id: generateId(),
-        agent: a.agent as ParallelAction['agent'],
+        agent: a.agent,
         action: a.action,
         priority: a.priority || 5,
         dependsOn: a.dependsOn,
@@ -377,12 +330,12 @@ ${state.enhancedIntent ? `Previous understanding: ${JSON.stringify(state.enhance
 Provide a comprehensive analysis as JSON.`;
 
     try {
-      const intent = await this.callLLMJSON<EnhancedIntent>(
+      const intent: EnhancedIntent = await this.callLLMJSON(
         [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: extractionPrompt },
         ],
-        INTENT_EXTRACTION_SCHEMA
+        ENHANCED_INTENT_SCHEMA
       );
 
       return intent;
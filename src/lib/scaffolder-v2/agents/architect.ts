@@ -3,6 +3,7 @@
  * Coordinates other agents, maintains conversation context, decides next steps
  */
 
+import { z } from 'zod';
 import { BaseAgent } from './base-agent';
 import { generateId } from '@/lib/utils';
 import type { UserLLMSettings } from '@/lib/llm';
@@ -17,14 +18,14 @@ import type {
   Message,
 } from '../types';
 
-const INTENT_CLASSIFICATION_SCHEMA = `{
-  "type": "INITIAL_REQUEST|REFINEMENT|APPROVAL|QUESTION|NEW_REQUIREMENT|UNDO|FINALIZE",
-  "subject": "schema|ui|code|general",
-  "confidence": 0.0-1.0,
-  "extractedEntities": ["string"],
-  "extractedActions": ["string"],
-  "reasoning": "string"
-}`;
+const INTENT_CLASSIFICATION_SCHEMA = z.object({
+  type: z.enum(['INITIAL_REQUEST', 'REFINEMENT', 'APPROVAL', 'QUESTION', 'NEW_REQUIREMENT', 'UNDO', 'FINALIZE']),
+  subject: z.enum(['schema', 'ui', 'code', 'general']).catch('general'),
+  confidence: z.number().min(0).max(1).catch(0.5),
+  extractedEntities: z.array(z.string()).default([]),
+  extractedActions: z.array(z.string()).default([]),
+  reasoning: z.string().default(''),
+});
 
 const ARCHITECT_SYSTEM_PROMPT = `You are the Architect for an AI app builder. Your job is to:
 1. Understand what the user wants
@@ -111,7 +112,7 @@ ${state.schemas.length > 0 ? `- Schema fields: ${state.schemas[0]?.fields.map(f
 Respond with JSON only.`;
 
     try {
-      const result = await this.callLLMJSON<ParsedIntent & { reasoning: string }>(
+      const result = await this.callLLMJSON(
         [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
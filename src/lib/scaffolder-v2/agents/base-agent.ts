@@ -4,7 +4,7 @@
  */
 
 import { streamComplete, completeJSON, type ChatMessage } from '@/lib/qwen';
-import type { UserLLMSettings } from '@/lib/llm';
+import type { JSONSchema, UserLLMSettings } from '@/lib/llm';
 import type { AgentResponse, ConversationState } from '../types';
 
 export interface AgentConfig {
@@ -62,11 +62,12 @@ export abstract class BaseAgent {
   ): Promise<AgentResponse>;
 
   /**
-   * Call LLM with JSON response
+   * Call LLM with JSON response. A zod schema is enforced: the response is
+   * validated and repaired, and an AIParseError lists the paths that stayed invalid.
    */
   protected async callLLMJSON<T>(
     messages: ChatMessage[],
-    schema: string
+    schema: JSONSchema<T>
   ): Promise<T> {
     return completeJSON<T>({
       messages,
@@ -74,6 +75,7 @@ export abstract class BaseAgent {
       temperature: this.config.temperature,
       maxTokens: this.config.maxTokens,
       userSettings: this.config.userSettings,
+      agent: this.config.name,
     });
   }
 
@@ -88,6 +90,7 @@ export abstract class BaseAgent {
       temperature: this.config.temperature,
       maxTokens: this.config.maxTokens,
       userSettings: this.config.userSettings,
+      agent: this.config.name,
     })) {
       yield chunk;
     }
@@ -87,6 +87,11 @@ ALWAYS use these correct relative paths from components/ directory:
 CORE & BUILT-INS:
 - React hooks: useState, useEffect, useCallback, useMemo, useRef, useReducer, useContext
 - useAppData() hook: Built-in hook for CRUD operations (prefer over react-query)
+  - queryData({ 'filter[field][op]': value, sort: 'field,-other', limit, offset }) filters, sorts and pages on the server; returns { data, total }
+  - Writes are validated against the schema: addRecord returns undefined and updateRecord returns false when rejected, and fieldErrors maps field names to messages to show next to inputs
+  - Records already include the schema's computed fields (read-only); display them, don't recalculate them or send them in writes
+  - data updates live when other tabs or users change records; don't poll or refetch after writes. updateRecord(id, updates, { checkVersion: true }) refuses to overwrite someone else's newer change (returns false)
+  - useAppData('Project') works with another schema's records; a field holding a related record's id (e.g. projectId) must be a <select> picker filled from that collection, never a free-text input. queryData({ include: 'project' }) attaches related records. deleteRecord returns false when related records block the delete
 - SandboxAPI.fetch(): Built-in fetch wrapper (prefer over axios)
 
 ICONS:
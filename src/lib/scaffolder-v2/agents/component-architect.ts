@@ -6,6 +6,7 @@
  * designed for its specific needs.
  */
 
+import { z } from 'zod';
 import { BaseAgent } from './base-agent';
 import { generateId } from '@/lib/utils';
 import type { ConversationState, AgentResponse } from '../types';
@@ -98,6 +99,86 @@ Return a ComponentSystem object:
 - **@dnd-kit**: Drag and drop
 - **lucide-react**: Icons`;
 
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+const TOKEN_GROUP_SCHEMA = z.record(z.string()).optional();
+
+// Enum-like values stay free text here; convertToComponentSystem falls back on unknown ones
+const COMPONENT_SYSTEM_SCHEMA = z.object({
+  components: z.array(z.object({
+    name: z.string().min(1),
+    purpose: z.string().default(''),
+    description: z.string().default(''),
+    interactions: z.array(z.object({
+      trigger: z.string(),
+      effect: z.string(),
+      animation: z.string().optional(),
+    })).default([]),
+    visual: z.object({
+      width: z.string().optional(),
+      height: z.string().optional(),
+      style: z.string().optional(),
+      colors: z.object({
+        background: z.string().optional(),
+        foreground: z.string().optional(),
+        accent: z.string().optional(),
+      }).optional(),
+    }).optional(),
+    dataNeeds: z.array(z.object({
+      name: z.string(),
+      type: z.string(),
+      description: z.string().default(''),
+      source: z.string().optional(),
+    })).default([]),
+    props: z.array(z.object({
+      name: z.string(),
+      type: z.string(),
+      required: z.boolean().default(false),
+      description: z.string().default(''),
+    })).default([]),
+    state: z.array(z.object({
+      name: z.string(),
+      type: z.string(),
+      initial: z.unknown().optional(),
+      description: z.string().default(''),
+      persistence: z.string().optional(),
+    })).default([]),
+    suggestedLibraries: z.array(z.string()).default([]),
+    isPrimary: z.boolean().default(false),
+    layoutRole: z.string().optional(),
+  })).min(1),
+  designTokens: z.object({
+    colors: TOKEN_GROUP_SCHEMA,
+    fonts: TOKEN_GROUP_SCHEMA,
+    spacing: TOKEN_GROUP_SCHEMA,
+    radii: TOKEN_GROUP_SCHEMA,
+    shadows: TOKEN_GROUP_SCHEMA,
+    transitions: TOKEN_GROUP_SCHEMA,
+  }).optional(),
+  relationships: z.array(z.object({
+    parent: z.string().describe('component name'),
+    child: z.string().describe('component name'),
+    type: z.string(),
+    description: z.string().default(''),
+  })).default([]),
+});
+
+const COMPONENT_FEEDBACK_SCHEMA = z.object({
+  additionalComponents: z.array(z.object({
+    name: z.string(),
+    purpose: z.string().default(''),
+    suggestedLibraries: z.array(z.string()).default([]),
+  })).default([]),
+  componentUpdates: z.array(z.object({
+    name: z.string(),
+    updates: z.string(),
+  })).default([]),
+  concerns: z.array(z.string()).default([]),
+  suggestions: z.array(z.string()).default([]),
+});
+
 // ============================================================================
 // Component Architect Agent
 // ============================================================================
@@ -136,69 +217,12 @@ export class ComponentArchitect extends BaseAgent {
     const prompt = this.buildDesignPrompt(userRequest, journey, interactions, previousContributions);
     
     try {
-      const response = await this.callLLMJSON<{
-        components: Array<{
-          name: string;
-          purpose: string;
-          description: string;
-          interactions: Array<{
-            trigger: string;
-            effect: string;
-            animation?: string;
-          }>;
-          visual: {
-            width: string;
-            height: string;
-            style: string;
-            colors: {
-              background: string;
-              foreground: string;
-              accent?: string;
-            };
-          };
-          dataNeeds: Array<{
-            name: string;
-            type: string;
-            description: string;
-            source: string;
-          }>;
-          props: Array<{
-            name: string;
-            type: string;
-            required: boolean;
-            description: string;
-          }>;
-          state: Array<{
-            name: string;
-            type: string;
-            initial: unknown;
-            description: string;
-            persistence: string;
-          }>;
-          suggestedLibraries: string[];
-          isPrimary: boolean;
-          layoutRole: string;
-        }>;
-        designTokens: {
-          colors: Record<string, string>;
-          fonts: Record<string, string>;
-          spacing: Record<string, string>;
-          radii: Record<string, string>;
-          shadows: Record<string, string>;
-          transitions: Record<string, string>;
-        };
-        relationships: Array<{
-          parent: string;
-          child: string;
-          type: string;
-          description: string;
-        }>;
-      }>(
+      const response = await this.callLLMJSON(
         [
           { role: 'system', content: COMPONENT_ARCHITECT_SYSTEM_PROMPT },
           { role: 'user', content: prompt },
         ],
-        '{"components": [...], "designTokens": {...}, ...}'
+        COMPONENT_SYSTEM_SCHEMA
       );
 
       const system = this.convertToComponentSystem(response);
@@ -591,24 +615,12 @@ As the Component Architect, consider:
 3. What libraries would help?
 4. Any concerns about the component architecture?`;
 
-    const response = await this.callLLMJSON<{
-      additionalComponents: Array<{
-        name: string;
-        purpose: string;
-        suggestedLibraries: string[];
-      }>;
-      componentUpdates: Array<{
-        name: string;
-        updates: string;
-      }>;
-      concerns: string[];
-      suggestions: string[];
-    }>(
+    const response = await this.callLLMJSON(
       [
         { role: 'system', content: COMPONENT_ARCHITECT_SYSTEM_PROMPT },
         { role: 'user', content: prompt },
       ],
-      '{"additionalComponents": [...], ...}'
+      COMPONENT_FEEDBACK_SCHEMA
     );
 
     let content = 'Based on this proposal:\n\n';
@@ -6,6 +6,7 @@
  * NOT generic CRUD operations.
  */
 
+import { z } from 'zod';
 import { BaseAgent } from './base-agent';
 import { generateId } from '@/lib/utils';
 import type { ConversationState, AgentResponse } from '../types';
@@ -107,6 +108,75 @@ Return a DataLayer object:
 ❌ Over-normalized data structures
 ❌ Operations designed around database, not UI`;
 
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+// Enum-like values stay free text here; convertToDataLayer falls back on unknown ones
+const DATA_LAYER_SCHEMA = z.object({
+  structures: z.array(z.object({
+    name: z.string().min(1),
+    purpose: z.string().default(''),
+    fields: z.array(z.object({
+      name: z.string().min(1),
+      type: z.string().describe('string|number|boolean|date|array|object'),
+      description: z.string().default(''),
+      required: z.boolean().default(false),
+    })),
+    computed: z.array(z.object({
+      name: z.string(),
+      type: z.string(),
+      computation: z.string(),
+      description: z.string().default(''),
+    })).optional(),
+    indexes: z.array(z.string()).optional(),
+  })).min(1),
+  operations: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string().default(''),
+    triggeredBy: z.string().default(''),
+    inputs: z.array(z.object({
+      name: z.string(),
+      type: z.string(),
+      required: z.boolean().default(false),
+      description: z.string().default(''),
+    })).default([]),
+    output: z.string().default(''),
+    sideEffects: z.array(z.string()).optional(),
+    implementationHints: z.string().optional(),
+  })).default([]),
+  storage: z.object({
+    type: z.string().describe('local|session|api|hybrid'),
+    syncStrategy: z.string().optional().describe('immediate|debounced|manual|background'),
+    offlineSupport: z.boolean().optional(),
+    caching: z.object({
+      type: z.string().describe('memory|localStorage|indexedDB'),
+      ttl: z.number().optional(),
+    }).optional(),
+  }).optional(),
+  realtime: z.object({
+    enabled: z.boolean(),
+    updates: z.array(z.string()).default([]),
+    strategy: z.string().describe('polling|websocket|sse'),
+    interval: z.number().optional(),
+  }).optional(),
+});
+
+const DATA_FEEDBACK_SCHEMA = z.object({
+  dataRequirements: z.array(z.object({
+    structure: z.string(),
+    fields: z.array(z.string()).default([]),
+    operations: z.array(z.string()).default([]),
+  })).default([]),
+  additionalOperations: z.array(z.object({
+    name: z.string(),
+    description: z.string().default(''),
+    triggeredBy: z.string().default(''),
+  })).default([]),
+  concerns: z.array(z.string()).default([]),
+  suggestions: z.array(z.string()).default([]),
+});
+
 // ============================================================================
 // Data Architect Agent
 // ============================================================================
@@ -146,59 +216,12 @@ export class DataArchitect extends BaseAgent {
     const prompt = this.buildDesignPrompt(userRequest, journey, interactions, components, previousContributions);
     
     try {
-      const response = await this.callLLMJSON<{
-        structures: Array<{
-          name: string;
-          purpose: string;
-          fields: Array<{
-            name: string;
-            type: string;
-            description: string;
-            required: boolean;
-          }>;
-          computed?: Array<{
-            name: string;
-            type: string;
-            computation: string;
-            description: string;
-          }>;
-          indexes?: string[];
-        }>;
-        operations: Array<{
-          name: string;
-          description: string;
-          triggeredBy: string;
-          inputs: Array<{
-            name: string;
-            type: string;
-            required: boolean;
-            description: string;
-          }>;
-          output: string;
-          sideEffects?: string[];
-          implementationHints?: string;
-        }>;
-        storage: {
-          type: string;
-          syncStrategy?: string;
-          offlineSupport?: boolean;
-          caching?: {
-            type: string;
-            ttl?: number;
-          };
-        };
-        realtime?: {
-          enabled: boolean;
-          updates: string[];
-          strategy: string;
-          interval?: number;
-        };
-      }>(
+      const response = await this.callLLMJSON(
         [
           { role: 'system', content: DATA_ARCHITECT_SYSTEM_PROMPT },
           { role: 'user', content: prompt },
         ],
-        '{"structures": [...], "operations": [...], ...}'
+        DATA_LAYER_SCHEMA
       );
 
       const dataLayer = this.convertToDataLayer(response);
@@ -477,25 +500,12 @@ As the Data Architect, consider:
 3. How should data be structured?
 4. Any concerns about data requirements?`;
 
-    const response = await this.callLLMJSON<{
-      dataRequirements: Array<{
-        structure: string;
-        fields: string[];
-        operations: string[];
-      }>;
-      additionalOperations: Array<{
-        name: string;
-        description: string;
-        triggeredBy: string;
-      }>;
-      concerns: string[];
-      suggestions: string[];
-    }>(
+    const response = await this.callLLMJSON(
       [
         { role: 'system', content: DATA_ARCHITECT_SYSTEM_PROMPT },
         { role: 'user', content: prompt },
       ],
-      '{"dataRequirements": [...], ...}'
+      DATA_FEEDBACK_SCHEMA
     );
 
     let content = 'Based on this proposal:\n\n';
@@ -4,6 +4,7 @@
  * Generates multiple concepts, critiques them, and produces refined designs
  */
 
+import { z } from 'zod';
 import { BaseAgent } from './base-agent';
 import { generateId } from '@/lib/utils';
 import type { 
@@ -160,6 +161,48 @@ const DESIGN_SYNTHESIS_PROMPT = `You are a design synthesizer. Given multiple de
 
 Output the final design as a complete concept JSON.`;
 
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+const SCORE_SCHEMA = z.number().min(0).max(100);
+
+// Component types are free text; mapToComponentType resolves them
+const COMPONENT_IDEA_SCHEMA = z.object({
+  type: z.string(),
+  description: z.string().default(''),
+});
+
+const CONCEPT_SCHEMA = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  primaryComponent: COMPONENT_IDEA_SCHEMA,
+  secondaryComponents: z.array(COMPONENT_IDEA_SCHEMA).default([]),
+  interactionPattern: z.string().default(''),
+});
+
+const CONCEPTS_SCHEMA = z.object({
+  concepts: z.array(CONCEPT_SCHEMA.extend({ whyDifferent: z.string().default('') })).min(1),
+});
+
+const IMPROVED_CONCEPT_SCHEMA = CONCEPT_SCHEMA.extend({ whyBetter: z.string().default('') });
+
+const SYNTHESIZED_CONCEPT_SCHEMA = CONCEPT_SCHEMA.extend({ synthesizedFrom: z.array(z.string()).default([]) });
+
+const CRITIQUE_SCHEMA = z.object({
+  scores: z.object({
+    creativity: SCORE_SCHEMA,
+    usability: SCORE_SCHEMA,
+    polish: SCORE_SCHEMA,
+    coherence: SCORE_SCHEMA,
+  }),
+  critique: z.object({
+    strengths: z.array(z.string()).default([]),
+    weaknesses: z.array(z.string()).default([]),
+    suggestions: z.array(z.string()).default([]),
+  }),
+});
+
 // ============================================================================
 // Design Explorer Agent
 // ============================================================================
@@ -289,21 +332,12 @@ Return JSON array of concepts with this structure:
 }`;
 
     try {
-      const response = await this.callLLMJSON<{
-        concepts: Array<{
-          name: string;
-          description: string;
-          primaryComponent: { type: string; description: string };
-          secondaryComponents: Array<{ type: string; description: string }>;
-          interactionPattern: string;
-          whyDifferent: string;
-        }>;
-      }>(
+      const response = await this.callLLMJSON(
         [
           { role: 'system', content: DESIGN_EXPLORATION_PROMPT },
           { role: 'user', content: prompt },
         ],
-        '{"concepts": [...]}'
+        CONCEPTS_SCHEMA
       );
 
       return response.concepts.map(c => this.conceptToDesign(c, schema, intent));
@@ -637,15 +671,12 @@ Return JSON:
 }`;
 
     try {
-      return await this.callLLMJSON<{
-        scores: DesignConcept['scores'];
-        critique: DesignConcept['critique'];
-      }>(
+      return await this.callLLMJSON(
         [
           { role: 'system', content: DESIGN_CRITIQUE_PROMPT },
           { role: 'user', content: prompt },
         ],
-        '{"scores": {...}, "critique": {...}}'
+        CRITIQUE_SCHEMA
       );
     } catch (error) {
       this.log('Critique failed, using heuristic scores', { error });
@@ -747,19 +778,12 @@ Return improved concept as JSON:
 }`;
 
     try {
-      const improved = await this.callLLMJSON<{
-        name: string;
-        description: string;
-        primaryComponent: { type: string; description: string };
-        secondaryComponents: Array<{ type: string; description: string }>;
-        interactionPattern: string;
-        whyBetter: string;
-      }>(
+      const improved = await this.callLLMJSON(
         [
           { role: 'system', content: DESIGN_EXPLORATION_PROMPT },
           { role: 'user', content: prompt },
         ],
-        '{"name": "...", ...}'
+        IMPROVED_CONCEPT_SCHEMA
       );
 
       return this.conceptToDesign(
@@ -809,19 +833,12 @@ Return the synthesized concept as JSON:
 }`;
 
     try {
-      const synthesized = await this.callLLMJSON<{
-        name: string;
-        description: string;
-        primaryComponent: { type: string; description: string };
-        secondaryComponents: Array<{ type: string; description: string }>;
-        interactionPattern: string;
-        synthesizedFrom: string[];
-      }>(
+      const synthesized = await this.callLLMJSON(
         [
           { role: 'system', content: DESIGN_SYNTHESIS_PROMPT },
           { role: 'user', content: prompt },
         ],
-        '{"name": "...", ...}'
+        SYNTHESIZED_CONCEPT_SCHEMA
       );
 
       const finalConcept = this.conceptToDesign(
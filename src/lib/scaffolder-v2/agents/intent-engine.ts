@@ -4,6 +4,7 @@
  * entity extraction, workflow detection, and smart defaults
  */
 
+import { z } from 'zod';
 import { BaseAgent } from './base-agent';
 import { generateId } from '@/lib/utils';
 import type { 
@@ -17,6 +18,7 @@ import type {
   FieldDefinition,
   ComponentType,
 } from '../types';
+import { COMPONENT_TYPES } from '../types';
 
 // Reference app patterns - known apps and their features
 const REFERENCE_APPS: Record<string, {
@@ -216,33 +218,39 @@ const APP_SUGGESTIONS: Record<AppCategory, ProactiveSuggestion[]> = {
   generic: [],
 };
 
-const INTENT_EXTRACTION_SCHEMA = `{
-  "primaryGoal": "string",
-  "appCategory": "tracker|crm|dashboard|workflow|content|inventory|social|generic",
-  "complexityScore": 1-10,
-  "entities": [{
-    "name": "string",
-    "role": "primary|secondary",
-    "fields": ["string"],
-    "relationships": ["string"]
-  }],
-  "referenceApps": [{
-    "name": "string",
-    "aspects": ["string"],
-    "confidence": 0-1
-  }],
-  "workflows": [{
-    "trigger": "string",
-    "action": "string",
-    "description": "string"
-  }],
-  "layoutHints": {
-    "structure": "dashboard|sidebar|kanban|simple|split",
-    "components": ["string"],
-    "emphasis": "data-entry|visualization|workflow|balanced"
-  },
-  "suggestedEnhancements": ["string"]
-}`;
+/**
+ * Shape of an extracted EnhancedIntent, shared with the adaptive architect
+ */
+export const ENHANCED_INTENT_SCHEMA = z.object({
+  primaryGoal: z.string(),
+  appCategory: z.enum(['tracker', 'crm', 'dashboard', 'workflow', 'content', 'inventory', 'social', 'generic']).catch('generic'),
+  complexityScore: z.number().min(1).max(10).catch(5),
+  entities: z.array(z.object({
+    name: z.string(),
+    role: z.enum(['primary', 'secondary']).catch('secondary'),
+    fields: z.array(z.string()).default([]),
+    relationships: z.array(z.string()).default([]),
+  })).default([]),
+  referenceApps: z.array(z.object({
+    name: z.string(),
+    aspects: z.array(z.string()).default([]),
+    confidence: z.number().min(0).max(1).catch(0.5),
+  })).default([]),
+  workflows: z.array(z.object({
+    trigger: z.string(),
+    action: z.string(),
+    description: z.string().default(''),
+  })).default([]),
+  layoutHints: z.object({
+    structure: z.enum(['dashboard', 'sidebar', 'kanban', 'simple', 'split']).catch('simple'),
+    // Unknown component types are dropped
+    components: z.array(z.string()).default([]).transform(types =>
+      types.filter((type): type is ComponentType => (COMPONENT_TYPES as readonly string[]).includes(type))
+    ),
+    emphasis: z.enum(['data-entry', 'visualization', 'workflow', 'balanced']).catch('balanced'),
+  }),
+  suggestedEnhancements: z.array(z.string()).default([]),
+}) satisfies z.ZodType<EnhancedIntent, z.ZodTypeDef, unknown>;
 
 const INTENT_SYSTEM_PROMPT = `You are an expert at understanding app requirements. Your job is to deeply understand what the user ACTUALLY NEEDS, not just what data they want to store.
 
@@ -361,12 +369,12 @@ Extract:
 Respond with JSON matching the schema.`;
 
     try {
-      const result = await this.callLLMJSON<EnhancedIntent>(
+      const result: EnhancedIntent = await this.callLLMJSON(
         [
           { role: 'system', content: INTENT_SYSTEM_PROMPT },
           { role: 'user', content: prompt },
         ],
-        INTENT_EXTRACTION_SCHEMA
+        ENHANCED_INTENT_SCHEMA
       );
 
       // Merge detected references with LLM results
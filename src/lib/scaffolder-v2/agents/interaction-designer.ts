@@ -5,6 +5,7 @@
  * Makes apps feel polished and delightful through motion and feedback.
  */
 
+import { z } from 'zod';
 import { BaseAgent } from './base-agent';
 import { generateId } from '@/lib/utils';
 import type { ConversationState, AgentResponse } from '../types';
@@ -109,6 +110,75 @@ Return an InteractionSpec object:
 - **canvas-confetti**: Celebration effects
 - **lottie-react**: Complex animations`;
 
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+// Enum-like values stay free text here; convertToInteractionSpec falls back on unknown ones
+const INTERACTION_SPEC_SCHEMA = z.object({
+  gestures: z.array(z.object({
+    name: z.string(),
+    type: z.string().describe('tap|double-tap|long-press|swipe|pinch|rotate|drag|pan'),
+    direction: z.string().optional(),
+    target: z.string(),
+    effect: z.string(),
+    feedbackDuring: z.string().optional(),
+    feedbackAfter: z.string().optional(),
+  })).default([]),
+  animations: z.array(z.object({
+    name: z.string(),
+    trigger: z.string(),
+    target: z.string(),
+    keyframes: z.array(z.object({
+      offset: z.number().min(0).max(1),
+      properties: z.record(z.union([z.string(), z.number()])),
+    })).optional(),
+    duration: z.number().optional(),
+    easing: z.string().optional(),
+    delay: z.number().optional(),
+    stagger: z.object({
+      delay: z.number(),
+      direction: z.string(),
+    }).optional(),
+  })).default([]),
+  microInteractions: z.array(z.object({
+    name: z.string(),
+    trigger: z.string(),
+    animation: z.string(),
+    sound: z.string().optional(),
+    haptic: z.string().optional(),
+  })).default([]),
+  pageTransitions: z.array(z.object({
+    from: z.string(),
+    to: z.string(),
+    animationType: z.string(),
+    direction: z.string().optional(),
+    duration: z.number().optional(),
+  })).default([]),
+  loadingStates: z.array(z.object({
+    context: z.string(),
+    type: z.string(),
+  })).default([]),
+});
+
+const INTERACTION_FEEDBACK_SCHEMA = z.object({
+  additionalAnimations: z.array(z.object({
+    name: z.string(),
+    trigger: z.string(),
+    target: z.string(),
+    description: z.string().default(''),
+    duration: z.number(),
+  })).default([]),
+  additionalGestures: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+    target: z.string(),
+    effect: z.string(),
+  })).default([]),
+  concerns: z.array(z.string()).default([]),
+  suggestions: z.array(z.string()).default([]),
+});
+
 // ============================================================================
 // Interaction Designer Agent
 // ============================================================================
@@ -146,50 +216,12 @@ export class InteractionDesigner extends BaseAgent {
     const prompt = this.buildDesignPrompt(userRequest, journey, previousContributions);
     
     try {
-      const response = await this.callLLMJSON<{
-        gestures: Array<{
-          name: string;
-          type: string;
-          direction?: string;
-          target: string;
-          effect: string;
-          feedbackDuring?: string;
-          feedbackAfter?: string;
-        }>;
-        animations: Array<{
-          name: string;
-          trigger: string;
-          target: string;
-          keyframes: Array<{ offset: number; properties: Record<string, string | number> }>;
-          duration: number;
-          easing: string;
-          delay?: number;
-          stagger?: { delay: number; direction: string };
-        }>;
-        microInteractions: Array<{
-          name: string;
-          trigger: string;
-          animation: string;
-          sound?: string;
-          haptic?: string;
-        }>;
-        pageTransitions: Array<{
-          from: string;
-          to: string;
-          animationType: string;
-          direction?: string;
-          duration: number;
-        }>;
-        loadingStates: Array<{
-          context: string;
-          type: string;
-        }>;
-      }>(
+      const response = await this.callLLMJSON(
         [
           { role: 'system', content: INTERACTION_DESIGNER_SYSTEM_PROMPT },
           { role: 'user', content: prompt },
         ],
-        '{"gestures": [...], "animations": [...], ...}'
+        INTERACTION_SPEC_SCHEMA
       );
 
       const spec = this.convertToInteractionSpec(response);
@@ -488,28 +520,12 @@ As the Interaction Designer, consider:
 3. What micro-interactions would make it delightful?
 4. Any concerns about the interaction model?`;
 
-    const response = await this.callLLMJSON<{
-      additionalAnimations: Array<{
-        name: string;
-        trigger: string;
-        target: string;
-        description: string;
-        duration: number;
-      }>;
-      additionalGestures: Array<{
-        name: string;
-        type: string;
-        target: string;
-        effect: string;
-      }>;
-      concerns: string[];
-      suggestions: string[];
-    }>(
+    const response = await this.callLLMJSON(
       [
         { role: 'system', content: INTERACTION_DESIGNER_SYSTEM_PROMPT },
         { role: 'user', content: prompt },
       ],
-      '{"additionalAnimations": [...], ...}'
+      INTERACTION_FEEDBACK_SCHEMA
     );
 
     let content = 'Based on this proposal, I suggest:\n\n';
@@ -3,8 +3,10 @@
  * Creates custom data models from natural language descriptions
  */
 
+import { z } from 'zod';
 import { BaseAgent } from './base-agent';
 import { generateId } from '@/lib/utils';
+import { validateComputedFields } from '@/lib/formulas';
 import type { 
   ConversationState, 
   AgentResponse, 
@@ -16,47 +18,57 @@ import type {
   Relationship,
 } from '../types';
 
-const SCHEMA_PROPOSAL_SCHEMA = `{
-  "suggestedName": "string",
-  "domain": "string",
-  "schemas": [{
-    "name": "string",
-    "label": "string",
-    "description": "string",
-    "fields": [{
-      "name": "string",
-      "label": "string",
-      "type": "string|text|number|boolean|date|datetime|enum|array",
-      "required": true|false,
-      "nullable": true|false,
-      "unique": true|false,
-      "searchable": true|false,
-      "options": ["string"],
-      "validation": {
-        "min": number,
-        "max": number,
-        "minLength": number,
-        "maxLength": number,
-        "pattern": "string"
-      },
-      "placeholder": "string",
-      "description": "string"
-    }],
-    "computedFields": [{
-      "name": "string",
-      "label": "string",
-      "type": "string|number|boolean",
-      "formula": "string",
-      "description": "string"
-    }],
-    "relationships": [{
-      "type": "belongsTo|hasMany|hasOne|manyToMany",
-      "target": "string",
-      "foreignKey": "string"
-    }]
-  }],
-  "reasoning": "string"
-}`;
+const FIELD_TYPES = ['string', 'text', 'number', 'boolean', 'date', 'datetime', 'enum', 'array', 'json'] as const;
+
+// Labels and flags the model leaves out are filled in by validateProposal
+const SCHEMA_PROPOSAL_SCHEMA = z.object({
+  suggestedName: z.string(),
+  domain: z.string(),
+  schemas: z.array(z.object({
+    name: z.string().min(1),
+    label: z.string().default(''),
+    description: z.string().optional(),
+    fields: z.array(z.object({
+      name: z.string().min(1),
+      label: z.string().default(''),
+      type: z.enum(FIELD_TYPES),
+      required: z.boolean().default(false),
+      nullable: z.boolean().optional(),
+      unique: z.boolean().optional(),
+      searchable: z.boolean().optional(),
+      generated: z.boolean().optional(),
+      primaryKey: z.boolean().optional(),
+      defaultValue: z.unknown().optional(),
+      options: z.array(z.string()).optional(),
+      validation: z.object({
+        min: z.number().optional(),
+        max: z.number().optional(),
+        minLength: z.number().optional(),
+        maxLength: z.number().optional(),
+        pattern: z.string().optional(),
+        message: z.string().optional(),
+      }).optional(),
+      placeholder: z.string().optional(),
+      description: z.string().optional(),
+    })).min(1),
+    computedFields: z.array(z.object({
+      name: z.string().min(1),
+      label: z.string().default(''),
+      type: z.enum(['string', 'number', 'boolean']),
+      formula: z.string(),
+      description: z.string().optional(),
+    })).optional(),
+    relationships: z.array(z.object({
+      type: z.enum(['belongsTo', 'hasMany', 'hasOne', 'manyToMany']),
+      target: z.string(),
+      foreignKey: z.string().optional(),
+      through: z.string().optional(),
+      onDelete: z.enum(['cascade', 'restrict', 'setNull']).optional(),
+    })).optional(),
+    indexes: z.array(z.array(z.string())).optional(),
+  })).min(1),
+  reasoning: z.string(),
+});
 
 const SCHEMA_DESIGNER_SYSTEM_PROMPT = `You are a schema designer for an AI app builder. Your job is to analyze user descriptions and create MINIMAL, PURPOSE-FOCUSED data models.
 
@@ -334,14 +346,31 @@ Respond with the complete updated schema in JSON format.`;
    * Validate and clean up a schema proposal
    */
   private validateProposal(proposal: SchemaProposal): SchemaProposal {
+    const schemas = proposal.schemas.map(schema => this.validateSchema(schema));
     const validated: SchemaProposal = {
       ...proposal,
-      schemas: proposal.schemas.map(schema => this.validateSchema(schema)),
+      schemas: schemas.map(schema => this.dropInvalidFormulas(schema, schemas)),
     };
 
     return validated;
   }
 
+  /**
+   * Remove computed fields whose formulas would fail at runtime
+   * (syntax errors, unknown fields or functions, cycles)
+   */
+  private dropInvalidFormulas(schema: Schema, schemas: Schema[]): Schema {
+    const issues = validateComputedFields(schema, schemas);
+    if (issues.length === 0) return schema;
+
+    this.log('Dropped computed fields with invalid formulas', { schema: schema.name, issues });
+    const invalid = new Set(issues.map(issue => issue.field));
+    return {
+      ...schema,
+      computedFields: schema.computedFields?.filter(field => !invalid.has(field.name)),
+    };
+  }
+
   /**
    * Validate a single schema
    */
@@ -385,7 +414,7 @@ Respond with the complete updated schema in JSON format.`;
    * Validate a field definition
    */
   private validateField(field: FieldDefinition): FieldDefinition {
-    const validTypes: FieldType[] = ['string', 'text', 'number', 'boolean', 'date', 'datetime', 'enum', 'array', 'json'];
+    const validTypes: readonly FieldType[] = FIELD_TYPES;
     
     return {
       ...field,
@@ -3,6 +3,7 @@
  * Creates layouts and component arrangements from natural language
  */
 
+import { z } from 'zod';
 import { BaseAgent } from './base-agent';
 import { generateId } from '@/lib/utils';
 import type { 
@@ -16,62 +17,80 @@ import type {
   SizingConfig,
   AestheticSpec,
 } from '../types';
-
-const LAYOUT_PROPOSAL_SCHEMA = `{
-  "layout": {
-    "id": "string",
-    "type": "container|component",
-    "container": {
-      "direction": "row|column|grid",
-      "children": [],
-      "responsive": {
-        "mobile": "stack|scroll|tabs",
-        "tablet": "stack|grid|side-by-side",
-        "desktop": "grid|side-by-side"
-      },
-      "gap": "string",
-      "padding": "string"
-    },
-    "component": {
-      "type": "form|table|chart|cards|kanban|calendar|stats|filters",
-      "variant": "string",
-      "props": {}
-    },
-    "sizing": {
-      "basis": "string",
-      "grow": 0,
-      "shrink": 0
-    }
-  },
-  "aesthetics": {
-    "theme": "string (e.g., cyberpunk, brutalist, neo-tokyo, pastel-dream, terminal, glassmorphic, sunset, high-contrast)",
-    "typography": {
-      "heading": "font family for headings",
-      "body": "font family for body text",
-      "accent": "font family for special elements (mono, etc)"
-    },
-    "colorPalette": {
-      "primary": "hex color - dominant color",
-      "accent": "hex color - sharp accent color",
-      "background": "hex color - base background",
-      "backgroundAlt": "hex color - elevated surfaces",
-      "text": "hex color - primary text",
-      "textMuted": "hex color - secondary text",
-      "isDark": "boolean - dark or light theme"
-    },
-    "motion": {
-      "intensity": "subtle|moderate|dramatic",
-      "pageLoadStrategy": "fade|stagger|cascade|reveal|slide",
-      "interactions": ["hover-lift", "hover-glow", "click-bounce", "focus-ring", etc]
-    },
-    "backgroundStyle": {
-      "type": "solid|gradient|mesh|geometric|noise|particles",
-      "layers": ["CSS gradient or pattern descriptions"]
-    }
-  },
-  "reasoning": "string explaining design decisions",
-  "responsiveNotes": "string"
-}`;
+import { COMPONENT_TYPES } from '../types';
+
+const RESPONSIVE_BEHAVIOR_SCHEMA = z.enum(['stack', 'scroll', 'tabs', 'grid', 'side-by-side', 'collapse']);
+
+// Missing ids, gaps and responsive settings are filled in by validateLayoutNode
+const LAYOUT_NODE_SCHEMA: z.ZodType<LayoutNode, z.ZodTypeDef, unknown> = z.lazy(() => z.object({
+  id: z.string().default(''),
+  type: z.enum(['container', 'component']),
+  container: z.object({
+    direction: z.enum(['row', 'column', 'grid']).catch('column'),
+    children: z.array(LAYOUT_NODE_SCHEMA).default([]),
+    responsive: z.object({
+      mobile: RESPONSIVE_BEHAVIOR_SCHEMA,
+      tablet: RESPONSIVE_BEHAVIOR_SCHEMA,
+      desktop: RESPONSIVE_BEHAVIOR_SCHEMA,
+    }).optional(),
+    gap: z.string().optional(),
+    padding: z.string().optional(),
+  }).optional(),
+  component: z.object({
+    type: z.enum(COMPONENT_TYPES).catch('custom'),
+    variant: z.string().optional(),
+    props: z.record(z.unknown()).default({}),
+    position: z.object({
+      sticky: z.boolean().optional(),
+      order: z.number().optional(),
+    }).optional(),
+  }).optional(),
+  sizing: z.object({
+    basis: z.string(),
+    grow: z.number(),
+    shrink: z.number(),
+    minWidth: z.string().optional(),
+    maxWidth: z.string().optional(),
+  }).optional(),
+  className: z.string().optional(),
+}));
+
+const HEX_COLOR_SCHEMA = z.string().describe('hex color');
+
+const AESTHETICS_SCHEMA = z.object({
+  theme: z.string().describe('e.g. cyberpunk, brutalist, neo-tokyo, pastel-dream, terminal, glassmorphic, sunset, high-contrast'),
+  typography: z.object({
+    heading: z.string().describe('font family for headings'),
+    body: z.string().describe('font family for body text'),
+    accent: z.string().describe('font family for special elements (mono, etc)'),
+  }),
+  colorPalette: z.object({
+    primary: HEX_COLOR_SCHEMA,
+    accent: HEX_COLOR_SCHEMA,
+    background: HEX_COLOR_SCHEMA,
+    backgroundAlt: HEX_COLOR_SCHEMA.describe('hex color for elevated surfaces'),
+    text: HEX_COLOR_SCHEMA,
+    textMuted: HEX_COLOR_SCHEMA,
+    isDark: z.boolean(),
+  }),
+  motion: z.object({
+    intensity: z.enum(['subtle', 'moderate', 'dramatic']),
+    pageLoadStrategy: z.enum(['fade', 'stagger', 'cascade', 'reveal', 'slide']),
+    interactions: z.array(z.string()).describe('e.g. hover-lift, hover-glow, click-bounce, focus-ring'),
+  }),
+  backgroundStyle: z.object({
+    type: z.enum(['solid', 'gradient', 'mesh', 'geometric', 'noise', 'particles']),
+    layers: z.array(z.string()).describe('CSS gradient or pattern descriptions'),
+  }),
+});
+
+// Aesthetics that don't fit are dropped; validateProposal then picks random ones
+const LAYOUT_PROPOSAL_SCHEMA = z.object({
+  layout: LAYOUT_NODE_SCHEMA,
+  aesthetics: AESTHETICS_SCHEMA.optional().catch(undefined),
+  reasoning: z.string().describe('design decisions'),
+  responsiveNotes: z.string().default(''),
+});
 
 const UI_DESIGNER_SYSTEM_PROMPT = `You are an artistic UI designer creating distinctive, memorable frontends for an AI app builder.
 
@@ -316,7 +335,7 @@ Create a layout that:
 Respond with JSON matching the layout schema format.`;
 
     try {
-      const proposal = await this.callLLMJSON<LayoutProposal>(
+      const proposal: LayoutProposal = await this.callLLMJSON(
         [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
@@ -381,7 +400,7 @@ Apply the requested changes while maintaining layout integrity.
 Respond with the complete updated layout in JSON format.`;
 
     try {
-      const proposal = await this.callLLMJSON<LayoutProposal>(
+      const proposal: LayoutProposal = await this.callLLMJSON(
         [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
@@ -646,12 +665,7 @@ Respond with the complete updated layout in JSON format.`;
    * Now supports expanded creative component types
    */
   private validateComponentType(type: string): ComponentType {
-    const validTypes: ComponentType[] = [
-      'form', 'table', 'chart', 'cards', 'kanban', 'calendar', 'stats', 'filters',
-      'heatmap', 'timeline', 'gallery', 'list', 'detail', 'action-button', 'menu', 'modal',
-      'custom'
-    ];
-    return validTypes.includes(type as ComponentType) ? type as ComponentType : 'custom';
+    return (COMPONENT_TYPES as readonly string[]).includes(type) ? type as ComponentType : 'custom';
   }
 
   /**
@@ -5,6 +5,7 @@
  * This agent thinks about what users DO, not what data they store.
  */
 
+import { z } from 'zod';
 import { BaseAgent } from './base-agent';
 import { generateId } from '@/lib/utils';
 import type { ConversationState, AgentResponse } from '../types';
@@ -95,6 +96,65 @@ For an "expense tracker":
 ✅ "What should users SEE first?"
 ✅ "What moments should feel special?"`;
 
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+// Enum-like values stay free text here; convertToUserJourney maps unknown ones to defaults
+const USER_JOURNEY_SCHEMA = z.object({
+  appName: z.string(),
+  appPurpose: z.string().default(''),
+  flows: z.array(z.object({
+    name: z.string(),
+    description: z.string().default(''),
+    isPrimary: z.boolean().default(false),
+    steps: z.array(z.object({
+      name: z.string(),
+      description: z.string().default(''),
+      view: z.string(),
+      actions: z.array(z.object({
+        name: z.string(),
+        type: z.string(),
+        effect: z.string(),
+      })).default([]),
+    })).default([]),
+  })).min(1),
+  states: z.array(z.object({
+    name: z.string(),
+    description: z.string().default(''),
+    view: z.string(),
+    conditions: z.array(z.string()).default([]),
+  })).default([]),
+  keyMoments: z.array(z.object({
+    name: z.string(),
+    description: z.string().default(''),
+    trigger: z.string(),
+    celebrationType: z.string().optional(),
+  })).default([]),
+  navigation: z.object({
+    type: z.string(),
+    primaryAction: z.object({
+      label: z.string(),
+      icon: z.string(),
+      position: z.string(),
+    }).optional(),
+    items: z.array(z.object({
+      label: z.string(),
+      icon: z.string(),
+      targetFlow: z.string().describe('name of a flow'),
+    })).default([]),
+  }).optional(),
+});
+
+const JOURNEY_FEEDBACK_SCHEMA = z.object({
+  agrees: z.boolean(),
+  concerns: z.array(z.string()).default([]),
+  suggestions: z.array(z.string()).default([]),
+  journeyUpdates: z.custom<Partial<UserJourney>>(value => typeof value === 'object' && value !== null && !Array.isArray(value))
+    .optional()
+    .describe('changed parts of the journey, in the same format'),
+});
+
 // ============================================================================
 // UX Designer Agent
 // ============================================================================
@@ -128,55 +188,12 @@ export class UXDesignerV3 extends BaseAgent {
     const prompt = this.buildDesignPrompt(userRequest, previousContributions);
     
     try {
-      const response = await this.callLLMJSON<{
-        appName: string;
-        appPurpose: string;
-        flows: Array<{
-          name: string;
-          description: string;
-          isPrimary: boolean;
-          steps: Array<{
-            name: string;
-            description: string;
-            view: string;
-            actions: Array<{
-              name: string;
-              type: string;
-              effect: string;
-            }>;
-          }>;
-        }>;
-        states: Array<{
-          name: string;
-          description: string;
-          view: string;
-          conditions: string[];
-        }>;
-        keyMoments: Array<{
-          name: string;
-          description: string;
-          trigger: string;
-          celebrationType: string;
-        }>;
-        navigation: {
-          type: string;
-          primaryAction?: {
-            label: string;
-            icon: string;
-            position: string;
-          };
-          items: Array<{
-            label: string;
-            icon: string;
-            targetFlow: string;
-          }>;
-        };
-      }>(
+      const response = await this.callLLMJSON(
         [
           { role: 'system', content: UX_DESIGNER_SYSTEM_PROMPT },
           { role: 'user', content: prompt },
         ],
-        '{"appName": "...", "flows": [...], ...}'
+        USER_JOURNEY_SCHEMA
       );
 
       // Convert LLM response to typed UserJourney
@@ -476,17 +493,12 @@ As the UX Designer, respond with:
 3. Suggestions for improvement?
 4. Any updates to the journey based on this?`;
 
-    const response = await this.callLLMJSON<{
-      agrees: boolean;
-      concerns: string[];
-      suggestions: string[];
-      journeyUpdates?: Partial<UserJourney>;
-    }>(
+    const response = await this.callLLMJSON(
       [
         { role: 'system', content: UX_DESIGNER_SYSTEM_PROMPT },
         { role: 'user', content: prompt },
       ],
-      '{"agrees": true/false, "concerns": [...], ...}'
+      JOURNEY_FEEDBACK_SCHEMA
     );
 
     let content = '';
@@ -3,8 +3,10 @@
  * Handles automations, state machines, computed fields, and triggers
  */
 
+import { z } from 'zod';
 import { BaseAgent } from './base-agent';
 import { generateId } from '@/lib/utils';
+import { validateComputedFields } from '@/lib/formulas';
 import type { 
   ConversationState,
   DynamicConversationState,
@@ -16,41 +18,41 @@ import type {
 } from '../types';
 
 // Workflow detection schema
-const WORKFLOW_DETECTION_SCHEMA = `{
-  "workflows": [{
-    "name": "string",
-    "description": "string",
-    "trigger": {
-      "type": "field_change|time_based|record_create|record_delete|manual",
-      "field": "string",
-      "condition": "string",
-      "schedule": "string"
-    },
-    "actions": [{
-      "type": "update_field|create_record|delete_record|send_notification|compute",
-      "target": "string",
-      "value": "any",
-      "formula": "string"
-    }]
-  }],
-  "computedFields": [{
-    "name": "string",
-    "label": "string",
-    "type": "string|number|boolean",
-    "formula": "string",
-    "description": "string",
-    "dependencies": ["string"]
-  }],
-  "stateMachines": [{
-    "field": "string",
-    "states": ["string"],
-    "transitions": [{
-      "from": "string",
-      "to": "string",
-      "trigger": "string"
-    }]
-  }]
-}`;
+const WORKFLOW_DETECTION_SCHEMA = z.object({
+  workflows: z.array(z.object({
+    name: z.string(),
+    description: z.string().default(''),
+    trigger: z.object({
+      type: z.enum(['field_change', 'time_based', 'record_create', 'record_delete', 'manual']),
+      field: z.string().optional(),
+      condition: z.string().optional(),
+      schedule: z.string().optional(),
+    }),
+    actions: z.array(z.object({
+      type: z.enum(['update_field', 'create_record', 'delete_record', 'send_notification', 'compute']),
+      target: z.string(),
+      value: z.unknown().optional(),
+      formula: z.string().optional(),
+    })),
+  })).default([]),
+  computedFields: z.array(z.object({
+    name: z.string().min(1),
+    label: z.string().default(''),
+    type: z.enum(['string', 'number', 'boolean']),
+    formula: z.string(),
+    description: z.string().optional(),
+    dependencies: z.array(z.string()).optional(),
+  })).default([]),
+  stateMachines: z.array(z.object({
+    field: z.string(),
+    states: z.array(z.string()),
+    transitions: z.array(z.object({
+      from: z.string(),
+      to: z.string(),
+      trigger: z.string(),
+    })),
+  })).default([]),
+});
 
 const WORKFLOW_SYSTEM_PROMPT = `You are an expert at designing automations and workflows for data applications.
 
@@ -144,7 +146,11 @@ export class WorkflowAgent extends BaseAgent {
     }
 
     // Analyze for workflows
-    const result = await this.analyzeWorkflows(message, dynamicState);
+    const analysis = await this.analyzeWorkflows(message, dynamicState);
+    const result = {
+      ...analysis,
+      computedFields: this.validComputedFields(analysis.computedFields, state.schemas),
+    };
 
     return {
       success: true,
@@ -155,6 +161,24 @@ export class WorkflowAgent extends BaseAgent {
     };
   }
 
+  /**
+   * Keep the proposed computed fields whose formulas check out against the
+   * primary schema, so broken formulas never reach the built app
+   */
+  private validComputedFields(proposed: ComputedField[], schemas: Schema[]): ComputedField[] {
+    if (proposed.length === 0) return proposed;
+
+    const schema = schemas[0];
+    const existing = (schema.computedFields || []).filter(field => !proposed.some(p => p.name === field.name));
+    const issues = validateComputedFields({ ...schema, computedFields: [...existing, ...proposed] }, schemas);
+    const invalid = new Set(issues.map(issue => issue.field));
+
+    if (issues.length > 0) {
+      this.log('Dropped computed fields with invalid formulas', { issues });
+    }
+    return proposed.filter(field => !invalid.has(field.name));
+  }
+
   /**
    * Analyze message for workflow patterns
    */
@@ -190,30 +214,7 @@ Identify:
 Respond with JSON.`;
 
     try {
-      const result = await this.callLLMJSON<{
-        workflows: Array<{
-          name: string;
-          description: string;
-          trigger: {
-            type: string;
-            field?: string;
-            condition?: string;
-            schedule?: string;
-          };
-          actions: Array<{
-            type: string;
-            target: string;
-            value?: unknown;
-            formula?: string;
-          }>;
-        }>;
-        computedFields: ComputedField[];
-        stateMachines: Array<{
-          field: string;
-          states: string[];
-          transitions: Array<{ from: string; to: string; trigger: string }>;
-        }>;
-      }>(
+      const result = await this.callLLMJSON(
         [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: prompt },
@@ -227,13 +228,13 @@ Respond with JSON.`;
         name: wf.name,
         description: wf.description,
         trigger: {
-          type: this.validateTriggerType(wf.trigger.type),
+          type: wf.trigger.type,
           field: wf.trigger.field,
           condition: wf.trigger.condition,
           schedule: wf.trigger.schedule,
         },
         actions: wf.actions.map(a => ({
-          type: this.validateActionType(a.type),
+          type: a.type,
           target: a.target,
           value: a.value,
           formula: a.formula,
@@ -243,8 +244,8 @@ Respond with JSON.`;
 
       return {
         workflows,
-        computedFields: result.computedFields || [],
-        stateMachines: result.stateMachines || [],
+        computedFields: result.computedFields,
+        stateMachines: result.stateMachines,
       };
     } catch (error) {
       this.log('Workflow analysis failed', { error });
@@ -512,22 +513,6 @@ Respond with JSON.`;
 
     return parts.join('\n');
   }
-
-  /**
-   * Validate trigger type
-   */
-  private validateTriggerType(type: string): WorkflowDefinition['trigger']['type'] {
-    const valid = ['field_change', 'time_based', 'record_create', 'record_delete', 'manual'];
-    return valid.includes(type) ? type as WorkflowDefinition['trigger']['type'] : 'manual';
-  }
-
-  /**
-   * Validate action type
-   */
-  private validateActionType(type: string): WorkflowDefinition['actions'][0]['type'] {
-    const valid = ['update_field', 'create_record', 'delete_record', 'send_notification', 'compute'];
-    return valid.includes(type) ? type as WorkflowDefinition['actions'][0]['type'] : 'update_field';
-  }
 }
 
 // Export singleton instance
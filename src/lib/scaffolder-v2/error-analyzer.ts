@@ -1,5 +1,6 @@
 
 import { ScaffolderError } from '@/lib/error-handling/scaffolder-errors';
+import type { CodeDiagnostic } from './quality-control';
 
 export type ErrorCategory = 
   | 'syntax' 
@@ -15,8 +16,17 @@ export interface AnalyzedError {
   suggestion: string;
   line?: number;
   column?: number;
+  /** File the error is in, for multi-file checks */
+  file?: string;
+  /** Compiler error code, e.g. "TS2322" */
+  code?: string;
 }
 
+/** TypeScript codes for imports the Nebula runtime can't satisfy */
+const MODULE_ERROR_CODES = ['TS2307', 'TS2792'];
+/** TypeScript codes for names or exports that don't exist */
+const MISSING_NAME_CODES = ['TS2304', 'TS2305', 'TS2552', 'TS2614', 'TS2724'];
+
 export class ErrorAnalyzer {
   /**
    * Analyze an error message or log to determine its category and root cause
@@ -65,6 +75,54 @@ export class ErrorAnalyzer {
     };
   }
 
+  /**
+   * Analyze a structured compiler diagnostic. The error code decides the
+   * category, so no message parsing is needed.
+   */
+  static analyzeDiagnostic(diagnostic: CodeDiagnostic): AnalyzedError {
+    const location = {
+      originalMessage: diagnostic.message,
+      file: diagnostic.file,
+      line: diagnostic.line,
+      column: diagnostic.column,
+      code: diagnostic.code,
+    };
+
+    if (diagnostic.source === 'syntax') {
+      return {
+        ...location,
+        category: 'syntax',
+        rootCause: 'Code structure violation or invalid syntax',
+        suggestion: 'Check for missing brackets, semicolons, or invalid keywords.',
+      };
+    }
+
+    if (MODULE_ERROR_CODES.includes(diagnostic.code)) {
+      return {
+        ...location,
+        category: 'environment',
+        rootCause: 'Import of a module that is not part of the app or the Nebula runtime',
+        suggestion: 'Use relative imports for app files and only packages the runtime provides (react, lucide-react, recharts, date-fns, zod, ...).',
+      };
+    }
+
+    if (MISSING_NAME_CODES.includes(diagnostic.code)) {
+      return {
+        ...location,
+        category: 'environment',
+        rootCause: 'Reference to a name or export that does not exist',
+        suggestion: 'Check the spelling and that the package actually exports it (e.g. the lucide-react icon name).',
+      };
+    }
+
+    return {
+      ...location,
+      category: 'semantic',
+      rootCause: 'Type error: a value does not match what the code or library expects',
+      suggestion: 'Check component props, hook arguments and state types against the library typings.',
+    };
+  }
+
   private static isSyntaxError(log: string): boolean {
     const patterns = [
       /SyntaxError/i,
@@ -111,10 +169,10 @@ export class ErrorAnalyzer {
 
   private static extractLocation(log: string): { line?: number; column?: number } {
     // Attempt to extract line:column
-    // Example: (10:5) or line 10
-    const match = log.match(/:(\d+):(\d+)/) || log.match(/line (\d+)/i);
+    // Example: (10:5), line 10 or line 10:5
+    const match = log.match(/:(\d+):(\d+)/) || log.match(/line (\d+)(?::(\d+))?/i);
     if (match) {
-      if (match.length === 3) {
+      if (match[2] !== undefined) {
         return { line: parseInt(match[1]), column: parseInt(match[2]) };
       } else {
         return { line: parseInt(match[1]) };
@@ -5,7 +5,7 @@
 
 import { ErrorAnalyzer, type AnalyzedError, type ErrorCategory } from './error-analyzer';
 import { FEEDBACK_CONFIG, type ErrorStage } from './feedback-config';
-import type { BundleError, ServerBundleResult } from '@/lib/runtime/server-bundler';
+import type { CodeDiagnostic } from './quality-control';
 
 /**
  * Normalized error format used across the system
@@ -19,6 +19,8 @@ export interface DetectedError {
   message: string;
   /** Analyzed error with category and suggestions */
   analysis: AnalyzedError;
+  /** Component file the error is in, for multi-file checks */
+  file?: string;
   /** Source code line number if available */
   line?: number;
   /** Source code column number if available */
@@ -47,6 +49,34 @@ export interface ErrorDetectionResult {
   primaryError?: DetectedError;
 }
 
+/**
+ * Error reported by the server bundler
+ */
+export interface BundleError {
+  message: string;
+  line?: number;
+  column?: number;
+  /** The source line the error points at */
+  source?: string;
+}
+
+/**
+ * Result of bundling generated code on the server
+ */
+export interface ServerBundleResult {
+  success: boolean;
+  code: string;
+  errors: BundleError[];
+  warnings: string[];
+  /** Shared bundles the code requires at runtime */
+  requiredBundles: string[];
+  stats: {
+    inputSize: number;
+    outputSize: number;
+    buildTimeMs: number;
+  };
+}
+
 /**
  * Runtime error data from sandbox
  */
@@ -143,6 +173,47 @@ export class ErrorDetectionService {
     };
   }
 
+  /**
+   * Detect errors from type-checking the generated files
+   */
+  detectTypeCheckErrors(diagnostics: CodeDiagnostic[]): ErrorDetectionResult {
+    const detectedErrors: DetectedError[] = diagnostics
+      .filter((diagnostic) => diagnostic.severity === 'error')
+      .map((diagnostic) => ({
+        id: this.generateErrorId(),
+        stage: 'type_check' as ErrorStage,
+        message: `${diagnostic.code}: ${diagnostic.message}`,
+        analysis: ErrorAnalyzer.analyzeDiagnostic(diagnostic),
+        file: diagnostic.file,
+        line: diagnostic.line,
+        column: diagnostic.column,
+        timestamp: new Date(),
+        raw: diagnostic,
+      }));
+
+    if (detectedErrors.length === 0) {
+      return {
+        hasErrors: false,
+        errors: [],
+        summary: 'Type check successful',
+      };
+    }
+
+    // Sort by priority
+    detectedErrors.sort((a, b) => {
+      const priorityA = FEEDBACK_CONFIG.ERROR_PRIORITY[a.analysis.category] || 5;
+      const priorityB = FEEDBACK_CONFIG.ERROR_PRIORITY[b.analysis.category] || 5;
+      return priorityA - priorityB;
+    });
+
+    return {
+      hasErrors: true,
+      errors: detectedErrors,
+      summary: this.generateSummary(detectedErrors, 'type_check'),
+      primaryError: detectedErrors[0],
+    };
+  }
+
   /**
    * Detect errors from client bundling
    */
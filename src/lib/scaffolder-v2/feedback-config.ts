@@ -3,7 +3,7 @@
  * Centralized configuration for error detection and correction system
  */
 
-export type ErrorStage = 'server_bundling' | 'client_bundling' | 'runtime';
+export type ErrorStage = 'type_check' | 'server_bundling' | 'client_bundling' | 'runtime';
 export type RetryStrategy = 'incremental' | 'full_regeneration' | 'targeted_fix';
 
 export const FEEDBACK_CONFIG = {
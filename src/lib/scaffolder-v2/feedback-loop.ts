@@ -3,6 +3,7 @@ import { AnalyzedError, ErrorAnalyzer } from './error-analyzer';
 import { smartContextExtractor, type SmartContext } from './smart-context-extractor';
 import { incrementalFixGenerator, type FixResult, type FixHistoryEntry } from './incremental-fix-generator';
 import { type DetectedError, errorDetectionService } from './error-detection-service';
+import { formatDiagnostic, type QualityReport } from './quality-control';
 import { FEEDBACK_CONFIG, getRetryStrategy, shouldRetry, type ErrorStage, type RetryStrategy } from './feedback-config';
 
 export interface FeedbackIteration {
@@ -137,6 +138,24 @@ export class FeedbackLoop {
     return iteration;
   }
 
+  /**
+   * Add the errors from a QualityController type check, if any. The iteration
+   * is anchored at the highest-priority error and its log lists all of them.
+   */
+  addTypeCheckResult(code: string, report: QualityReport): FeedbackIteration | null {
+    const detection = errorDetectionService.detectTypeCheckErrors(report.diagnostics);
+    if (!detection.primaryError) {
+      return null;
+    }
+
+    const errorLog = report.diagnostics
+      .filter((diagnostic) => diagnostic.severity === 'error')
+      .map(formatDiagnostic)
+      .join('\n');
+
+    return this.addDetectedError(code, { ...detection.primaryError, message: errorLog }, 'type_check');
+  }
+
   /**
    * Attempt to generate a fix for the last error
    */
@@ -308,6 +327,7 @@ CORRECTION REQUIREMENTS:
   shouldRetry(): boolean {
     const lastIteration = this.getLastIteration();
     if (!lastIteration) return true;
+    if (this.session.iterations.length >= this.session.maxIterations) return false;
 
     return shouldRetry(
       this.session.iterations.length,
@@ -90,6 +90,15 @@ export {
   type ErrorCategory,
 } from './error-analyzer';
 
+export {
+  QualityController,
+  formatDiagnostic,
+  type QualityReport,
+  type CodeDiagnostic,
+  type DiagnosticSource,
+  type VerifyOptions,
+} from './quality-control';
+
 export {
   ErrorDetectionService,
   errorDetectionService,
@@ -4,3 +4,4 @@
  */
 
 export * from './dsl';
+export * from './render';
@@ -0,0 +1,212 @@
+/**
+ * Layout Rendering
+ * Turns layout nodes into the arrangement and sizing a renderer applies,
+ * applies `filters` components to records, and checks layouts loaded from
+ * storage before they are rendered
+ */
+
+import type {
+  ComponentType,
+  ContainerConfig,
+  FieldDefinition,
+  LayoutNode,
+  ResponsiveBehavior,
+  SizingConfig,
+} from '../types';
+import { walkLayout } from './dsl';
+
+export type Breakpoint = 'mobile' | 'tablet' | 'desktop';
+
+/**
+ * How a container lays out its children at one breakpoint
+ * - `row`: side by side, sized by each child's `SizingConfig`
+ * - `scroll`: side by side at their basis, scrolling horizontally
+ * - `tabs` / `collapse`: one child at a time, or collapsible sections
+ */
+export type Arrangement = 'row' | 'column' | 'grid' | 'scroll' | 'tabs' | 'collapse';
+
+/** Minimum widths at which the tablet and desktop breakpoints start, matching Tailwind's `md` and `lg` */
+export const BREAKPOINT_WIDTHS = { tablet: 768, desktop: 1024 } as const;
+
+const COMPONENT_TYPES: ComponentType[] = [
+  'form', 'table', 'chart', 'cards', 'kanban', 'calendar', 'stats', 'filters', 'custom',
+  'heatmap', 'timeline', 'gallery', 'list', 'detail', 'action-button', 'menu', 'modal',
+];
+
+/**
+ * The breakpoint a viewport width falls in
+ */
+export function breakpointFor(width: number): Breakpoint {
+  if (width >= BREAKPOINT_WIDTHS.desktop) return 'desktop';
+  if (width >= BREAKPOINT_WIDTHS.tablet) return 'tablet';
+  return 'mobile';
+}
+
+/**
+ * Resolve a container's arrangement at a breakpoint. The direction is what
+ * the container is at full size; `responsive` says how it adapts. A column
+ * stays a column unless it becomes tabs or collapsible sections, since
+ * "stack" and "side-by-side" only decide between rows and stacks.
+ */
+export function resolveArrangement(container: ContainerConfig, breakpoint: Breakpoint): Arrangement {
+  const behavior: ResponsiveBehavior | undefined = container.responsive?.[breakpoint];
+
+  if (behavior === 'tabs' || behavior === 'collapse') return behavior;
+  if (container.direction === 'column') return 'column';
+
+  switch (behavior) {
+    case 'stack':
+      return 'column';
+    case 'side-by-side':
+      return 'row';
+    case 'scroll':
+      return 'scroll';
+    case 'grid':
+      return 'grid';
+    default:
+      return container.direction === 'grid' ? 'grid' : 'row';
+  }
+}
+
+/**
+ * Flex styles for a child of a row. `1fr` bases, which only mean something
+ * in grids, share the row equally. Minimum widths give way on narrow screens.
+ * Children of stacks and grids fill their track, so sizing is ignored there.
+ */
+export function sizingStyle(sizing: SizingConfig | undefined, arrangement: Arrangement): Record<string, string | number> {
+  if (arrangement !== 'row' && arrangement !== 'scroll') {
+    return { minWidth: 0 };
+  }
+
+  if (!sizing) {
+    return arrangement === 'scroll' ? { flex: '0 0 auto' } : { flex: '1 1 0%', minWidth: 0 };
+  }
+
+  const style: Record<string, string | number> = {
+    flexGrow: arrangement === 'scroll' ? 0 : sizing.grow,
+    flexShrink: arrangement === 'scroll' ? 0 : sizing.shrink,
+    flexBasis: sizing.basis.endsWith('fr') ? '0%' : sizing.basis,
+    minWidth: sizing.minWidth ? `min(${sizing.minWidth}, 100%)` : 0,
+  };
+  if (sizing.maxWidth) style.maxWidth = sizing.maxWidth;
+  return style;
+}
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+/** What a `filters` component narrows its collection's records to */
+export interface LayoutFilter {
+  /** Matched against string, text and enum fields */
+  search?: string;
+  /** Field name → value. Date fields keep records on or after the date; others must be equal. */
+  values?: Record<string, string>;
+}
+
+/**
+ * Records that pass a filter
+ */
+export function filterRecords<T extends Record<string, unknown>>(
+  records: T[],
+  fields: FieldDefinition[],
+  filter: LayoutFilter | undefined
+): T[] {
+  const search = filter?.search?.trim().toLowerCase();
+  const values = Object.entries(filter?.values || {}).filter(([, value]) => value !== '');
+  if (!search && values.length === 0) return records;
+
+  const searchable = fields.filter(field => ['string', 'text', 'enum'].includes(field.type));
+  const typeOf = new Map(fields.map(field => [field.name, field.type]));
+
+  return records.filter(record => {
+    if (search && !searchable.some(field => String(record[field.name] ?? '').toLowerCase().includes(search))) {
+      return false;
+    }
+    return values.every(([name, value]) => {
+      const actual = record[name];
+      if (actual === null || actual === undefined) return false;
+      const type = typeOf.get(name);
+      return type === 'date' || type === 'datetime' ? String(actual) >= value : String(actual) === value;
+    });
+  });
+}
+
+// ============================================================================
+// Stored layouts
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseNode(value: unknown, path: string): LayoutNode | null {
+  if (!isRecord(value)) return null;
+  const id = typeof value.id === 'string' && value.id ? value.id : `node-${path}`;
+  const sizing = isRecord(value.sizing) && typeof value.sizing.basis === 'string'
+    ? value.sizing as unknown as SizingConfig
+    : undefined;
+  const className = typeof value.className === 'string' ? value.className : undefined;
+
+  if (value.type === 'container' && isRecord(value.container)) {
+    const { direction, children } = value.container;
+    return {
+      id,
+      type: 'container',
+      container: {
+        ...(value.container as unknown as ContainerConfig),
+        direction: direction === 'row' || direction === 'grid' ? direction : 'column',
+        children: (Array.isArray(children) ? children : [])
+          .map((child, position) => parseNode(child, `${path}-${position}`))
+          .filter((child): child is LayoutNode => child !== null),
+      },
+      sizing,
+      className,
+    };
+  }
+
+  if (value.type === 'component' && isRecord(value.component)) {
+    const { type, props } = value.component;
+    return {
+      id,
+      type: 'component',
+      component: {
+        ...(value.component as object),
+        type: COMPONENT_TYPES.includes(type as ComponentType) ? type as ComponentType : 'custom',
+        props: isRecord(props) ? props : {},
+      },
+      sizing,
+      className,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check a stored layout definition. Nodes that aren't containers or components
+ * are dropped, unknown component types become `custom`, and missing ids and
+ * props are filled in.
+ *
+ * @returns The layout, or null if it has no components to render
+ */
+export function parseLayout(value: unknown): LayoutNode | null {
+  const layout = parseNode(value, '0');
+  if (!layout) return null;
+
+  const hasComponents = walkLayout(layout, node => node.type === 'component').some(Boolean);
+  return hasComponents ? layout : null;
+}
+
+/**
+ * Collections a layout's components read, besides the default one. A
+ * component names its collection with a `collection` (or `schemaRef`) prop.
+ */
+export function layoutCollections(layout: LayoutNode): string[] {
+  const names = walkLayout(layout, node => {
+    const props = node.component?.props;
+    const name = props?.collection ?? props?.schemaRef;
+    return typeof name === 'string' && name ? name : null;
+  });
+  return Array.from(new Set(names.filter((name): name is string => name !== null)));
+}
@@ -3,6 +3,7 @@
  * Generates multiple design proposals for users to choose from
  */
 
+import { z } from 'zod';
 import { generateId } from '@/lib/utils';
 import { completeJSON } from '@/lib/qwen';
 import type { 
@@ -17,36 +18,43 @@ import type {
 } from '../types';
 
 // Proposal generation schema
-const PROPOSAL_GENERATION_SCHEMA = `{
-  "proposals": [{
-    "name": "string",
-    "description": "string",
-    "schema": {
-      "name": "string",
-      "label": "string",
-      "description": "string",
-      "fields": [{
-        "name": "string",
-        "label": "string",
-        "type": "string|text|number|boolean|date|datetime|enum|array",
-        "required": true|false,
-        "options": ["string"],
-        "description": "string"
-      }]
-    },
-    "layoutStructure": "dashboard"|"sidebar"|"kanban"|"simple"|"split",
-    "components": ["form"|"table"|"chart"|"cards"|"kanban"|"stats"|"filters"],
-    "tradeoffs": {
-      "pros": ["string"],
-      "cons": ["string"]
-    },
-    "bestFor": "string",
-    "confidence": 0-1,
-    "recommended": true|false
-  }],
-  "reasoning": "string",
-  "recommendedIndex": 0
-}`;
+const RAW_PROPOSAL_SCHEMA = z.object({
+  name: z.string(),
+  description: z.string(),
+  schema: z.object({
+    name: z.string().min(1),
+    label: z.string(),
+    description: z.string().optional(),
+    fields: z.array(z.object({
+      name: z.string().min(1),
+      label: z.string(),
+      type: z.enum(['string', 'text', 'number', 'boolean', 'date', 'datetime', 'enum', 'array']),
+      required: z.boolean().optional(),
+      options: z.array(z.string()).optional(),
+      description: z.string().optional(),
+    })).min(1),
+  }),
+  layoutStructure: z.enum(['dashboard', 'sidebar', 'kanban', 'simple', 'split']),
+  components: z.array(z.enum(['form', 'table', 'chart', 'cards', 'kanban', 'stats', 'filters'])),
+  tradeoffs: z.object({
+    pros: z.array(z.string()),
+    cons: z.array(z.string()),
+  }),
+  bestFor: z.string(),
+  confidence: z.number().min(0).max(1),
+  recommended: z.boolean(),
+});
+
+type RawProposal = z.infer<typeof RAW_PROPOSAL_SCHEMA>;
+
+const PROPOSAL_GENERATION_SCHEMA = z.object({
+  proposals: z.array(RAW_PROPOSAL_SCHEMA).min(1),
+  reasoning: z.string(),
+  recommendedIndex: z.number().int().min(0),
+}).refine(result => result.recommendedIndex < result.proposals.length, {
+  message: 'Must be the index of one of the proposals',
+  path: ['recommendedIndex'],
+});
 
 const PROPOSAL_SYSTEM_PROMPT = `You are an expert app designer. Generate 2-3 distinct design proposals for the user's app request.
 
@@ -93,36 +101,7 @@ export class ProposalEngine {
     const prompt = this.buildPrompt(intent, state);
 
     try {
-      const result = await completeJSON<{
-        proposals: {
-          name: string;
-          description: string;
-          schema: {
-            name: string;
-            label: string;
-            description?: string;
-            fields: Array<{
-              name: string;
-              label: string;
-              type: string;
-              required?: boolean;
-              options?: string[];
-              description?: string;
-            }>;
-          };
-          layoutStructure: string;
-          components: string[];
-          tradeoffs: {
-            pros: string[];
-            cons: string[];
-          };
-          bestFor: string;
-          confidence: number;
-          recommended: boolean;
-        }[];
-        reasoning: string;
-        recommendedIndex: number;
-      }>({
+      const result = await completeJSON({
         messages: [
           { role: 'system', content: PROPOSAL_SYSTEM_PROMPT },
           { role: 'user', content: prompt },
@@ -140,13 +119,13 @@ export class ProposalEngine {
       // Ensure exactly one is recommended
       const hasRecommended = proposals.some(p => p.recommended);
       if (!hasRecommended && proposals.length > 0) {
-        proposals[result.recommendedIndex || 0].recommended = true;
+        proposals[result.recommendedIndex].recommended = true;
       }
 
       return {
         proposals,
         reasoning: result.reasoning,
-        recommendedIndex: result.recommendedIndex || 0,
+        recommendedIndex: result.recommendedIndex,
         basedOnIntent: intent,
       };
     } catch (error) {
@@ -196,29 +175,7 @@ ${intent.entities.map(e => `- ${e.name} (${e.role}): ${e.fields.join(', ') || 't
    * Convert raw LLM response to typed proposal
    */
   private convertToProposal(
-    raw: {
-      name: string;
-      description: string;
-      schema: {
-        name: string;
-        label: string;
-        description?: string;
-        fields: Array<{
-          name: string;
-          label: string;
-          type: string;
-          required?: boolean;
-          options?: string[];
-          description?: string;
-        }>;
-      };
-      layoutStructure: string;
-      components: string[];
-      tradeoffs: { pros: string[]; cons: string[] };
-      bestFor: string;
-      confidence: number;
-      recommended: boolean;
-    },
+    raw: RawProposal,
     index: number,
     intent: EnhancedIntent
   ): DesignProposal {
@@ -1,120 +1,399 @@
+/**
+ * Quality Control
+ * Type-checks generated app files against the typings of the packages Nebula
+ * serves, and reports syntax, type and style problems as structured diagnostics
+ */
 
 import ts from 'typescript';
+import path from 'path';
+import { NEBULA_EXTERNALS } from '@/lib/nebula/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DiagnosticSource = 'syntax' | 'type' | 'style';
+
+/**
+ * A single problem in a generated file
+ */
+export interface CodeDiagnostic {
+  /** Path within the app's component files, e.g. "components/TaskList.tsx" */
+  file: string;
+  /** 1-based line and column */
+  line: number;
+  column: number;
+  /** TypeScript error code ("TS2322") or style rule ("no-console") */
+  code: string;
+  source: DiagnosticSource;
+  severity: 'error' | 'warning';
+  message: string;
+}
 
 export interface QualityReport {
   valid: boolean;
   syntaxErrors: string[];
+  typeErrors: string[];
   styleIssues: string[];
+  diagnostics: CodeDiagnostic[];
   score: number; // 0-100
 }
 
-export class QualityController {
+export interface VerifyOptions {
   /**
-   * Verify code quality including syntax and basic style
+   * Only some of the app's files are being checked; imports of sibling files
+   * that aren't included are not reported
    */
-  static verify(code: string): QualityReport {
-    const syntaxErrors = this.checkSyntax(code);
-    const styleIssues = this.checkStyle(code);
-    
-    const valid = syntaxErrors.length === 0;
-    
-    // Calculate score
-    let score = 100;
-    if (!valid) score = 0;
-    else {
-      score -= styleIssues.length * 5;
-      score = Math.max(0, score);
+  partial?: boolean;
+}
+
+// ============================================================================
+// Compiler setup
+// ============================================================================
+
+/** Virtual directory the app's files are checked in */
+const APP_ROOT = '/nebula-app';
+
+/** File name a single piece of code is checked as */
+const SINGLE_FILE = 'App.tsx';
+
+/**
+ * Globals and modules the Nebula page provides outside of npm packages
+ */
+const RUNTIME_DECLARATIONS = `
+declare module '@/lib/utils' {
+  export function cn(...inputs: any[]): string;
+}
+
+interface NebulaAppData<T = any> {
+  data: T[];
+  isLoading: boolean;
+  fieldErrors: Record<string, string>;
+  addRecord(record: Partial<T>): Promise<T | undefined>;
+  updateRecord(id: string, updates: Partial<T>, options?: { checkVersion?: boolean }): Promise<boolean>;
+  deleteRecord(id: string): Promise<boolean>;
+  queryData(params?: Record<string, unknown>): Promise<{ data: T[]; total: number }>;
+}
+
+declare function useAppData<T = any>(collection?: string): NebulaAppData<T>;
+`;
+
+const RUNTIME_DECLARATIONS_FILE = `${APP_ROOT}/__nebula_runtime.d.ts`;
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  noEmit: true,
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  lib: ['lib.es2020.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  jsx: ts.JsxEmit.React,
+  // The page sets window.React, so components may use it without importing
+  types: ['react'],
+  allowUmdGlobalAccess: true,
+  esModuleInterop: true,
+  allowSyntheticDefaultImports: true,
+  resolveJsonModule: false,
+  skipLibCheck: true,
+  strict: false,
+};
+
+/** Library and package typings are parsed once and shared by every check */
+const sourceFileCache = new Map<string, ts.SourceFile>();
+
+const baseHost = ts.createCompilerHost(COMPILER_OPTIONS);
+
+/** Anchor for resolving package imports from the app's own node_modules */
+const packageResolutionBase = path.join(process.cwd(), 'package.json');
+
+function isVirtual(fileName: string): boolean {
+  return fileName.startsWith(`${APP_ROOT}/`);
+}
+
+function toVirtualPath(file: string): string {
+  return path.posix.join(APP_ROOT, file.replace(/^\.?\//, ''));
+}
+
+function isExternalAllowed(moduleName: string): boolean {
+  return NEBULA_EXTERNALS.includes(moduleName);
+}
+
+/**
+ * Resolve an import in one of the app's files: relative imports come from the
+ * app itself, bare imports only from the packages the bundler leaves external
+ */
+function resolveAppImport(
+  moduleName: string,
+  containingFile: string,
+  files: Map<string, string>
+): ts.ResolvedModuleFull | undefined {
+  if (moduleName.startsWith('.')) {
+    const base = path.posix.join(path.posix.dirname(containingFile), moduleName);
+    for (const candidate of [base, `${base}.tsx`, `${base}.ts`, `${base}/index.tsx`, `${base}/index.ts`]) {
+      if (files.has(candidate)) {
+        return {
+          resolvedFileName: candidate,
+          extension: candidate.endsWith('.ts') ? ts.Extension.Ts : ts.Extension.Tsx,
+          isExternalLibraryImport: false,
+        };
+      }
     }
+    return undefined;
+  }
 
-    return {
-      valid,
-      syntaxErrors,
-      styleIssues,
-      score
-    };
+  if (!isExternalAllowed(moduleName)) return undefined;
+  return ts.resolveModuleName(moduleName, packageResolutionBase, COMPILER_OPTIONS, ts.sys).resolvedModule;
+}
+
+function createHost(files: Map<string, string>): ts.CompilerHost {
+  return {
+    ...baseHost,
+    getSourceFile: (fileName, languageVersion) => {
+      const virtual = files.get(fileName);
+      if (virtual !== undefined) {
+        return ts.createSourceFile(fileName, virtual, languageVersion, true);
+      }
+
+      const cached = sourceFileCache.get(fileName);
+      if (cached) return cached;
+
+      const sourceFile = baseHost.getSourceFile(fileName, languageVersion);
+      if (sourceFile) sourceFileCache.set(fileName, sourceFile);
+      return sourceFile;
+    },
+    fileExists: fileName => files.has(fileName) || (!isVirtual(fileName) && baseHost.fileExists(fileName)),
+    readFile: fileName => files.get(fileName) ?? (isVirtual(fileName) ? undefined : baseHost.readFile(fileName)),
+    writeFile: () => {},
+    resolveModuleNames: (moduleNames, containingFile) =>
+      moduleNames.map(moduleName =>
+        isVirtual(containingFile)
+          ? resolveAppImport(moduleName, containingFile, files)
+          : ts.resolveModuleName(moduleName, containingFile, COMPILER_OPTIONS, ts.sys).resolvedModule
+      ),
+  };
+}
+
+// ============================================================================
+// Diagnostics
+// ============================================================================
+
+function toCodeDiagnostic(
+  diagnostic: ts.Diagnostic,
+  source: DiagnosticSource,
+  fallbackFile: string
+): CodeDiagnostic {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+  let file = fallbackFile;
+  let line = 1;
+  let column = 1;
+
+  if (diagnostic.file) {
+    file = path.posix.relative(APP_ROOT, diagnostic.file.fileName);
+    if (diagnostic.start !== undefined) {
+      const position = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+      line = position.line + 1;
+      column = position.character + 1;
+    }
+  }
+
+  return {
+    file,
+    line,
+    column,
+    code: `TS${diagnostic.code}`,
+    source,
+    severity: diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+    message,
+  };
+}
+
+/** TS2307: Cannot find module */
+const MODULE_NOT_FOUND = 2307;
+
+/**
+ * Whether a diagnostic is a missing sibling file, which isn't an error when
+ * only part of the app is being checked
+ */
+function isMissingSibling(diagnostic: ts.Diagnostic): boolean {
+  if (diagnostic.code !== MODULE_NOT_FOUND || !diagnostic.file || diagnostic.start === undefined) {
+    return false;
+  }
+  const specifier = diagnostic.file.text.slice(diagnostic.start + 1, diagnostic.start + 3);
+  return specifier.startsWith('./') || specifier.startsWith('..');
+}
+
+/**
+ * Format a diagnostic the way the feedback loop and logs show it
+ */
+export function formatDiagnostic(diagnostic: CodeDiagnostic): string {
+  return `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} - ${diagnostic.code}: ${diagnostic.message}`;
+}
+
+// ============================================================================
+// Style rules
+// ============================================================================
+
+const MAX_LINE_LENGTH = 120;
+
+function styleIssue(
+  sourceFile: ts.SourceFile,
+  file: string,
+  position: number,
+  code: string,
+  message: string
+): CodeDiagnostic {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
+  return { file, line: line + 1, column: character + 1, code, source: 'style', severity: 'warning', message };
+}
+
+function checkStyle(sourceFile: ts.SourceFile, file: string): CodeDiagnostic[] {
+  const issues: CodeDiagnostic[] = [];
+  const text = sourceFile.text;
+  const seenComments = new Set<number>();
+
+  const checkComments = (ranges: ts.CommentRange[] | undefined) => {
+    for (const range of ranges || []) {
+      if (seenComments.has(range.pos)) continue;
+      seenComments.add(range.pos);
+      if (/\b(TODO|FIXME)\b/.test(text.slice(range.pos, range.end))) {
+        issues.push(styleIssue(sourceFile, file, range.pos, 'no-todo', 'Contains TODO/FIXME comment'));
+      }
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    checkComments(ts.getLeadingCommentRanges(text, node.getFullStart()));
+    checkComments(ts.getTrailingCommentRanges(text, node.end));
+
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      ts.isIdentifier(node.expression.expression) &&
+      node.expression.expression.text === 'console'
+    ) {
+      const method = node.expression.name.text;
+      issues.push(styleIssue(sourceFile, file, node.getStart(), 'no-console', `Contains console.${method} statement`));
+    }
+
+    if (node.kind === ts.SyntaxKind.AnyKeyword) {
+      issues.push(styleIssue(sourceFile, file, node.getStart(), 'no-explicit-any', 'Uses the "any" type'));
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  text.split('\n').forEach((line, i) => {
+    if (line.length > MAX_LINE_LENGTH) {
+      issues.push({
+        file,
+        line: i + 1,
+        column: MAX_LINE_LENGTH + 1,
+        code: 'max-len',
+        source: 'style',
+        severity: 'warning',
+        message: `Exceeds ${MAX_LINE_LENGTH} characters`,
+      });
+    }
+  });
+
+  return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+// ============================================================================
+// Controller
+// ============================================================================
+
+export class QualityController {
+  /**
+   * Verify a single generated file. Imports of other app files can't be
+   * checked here and are skipped; use verifyFiles for the whole app.
+   */
+  static verify(code: string): QualityReport {
+    return this.verifyFiles({ [SINGLE_FILE]: code }, { partial: true });
   }
 
   /**
-   * Check for TypeScript syntax errors
+   * Type-check a set of component files together, keyed by their path in the
+   * app (e.g. "App.tsx", "components/TaskList.tsx", "lib/types.ts")
    */
-  private static checkSyntax(code: string): string[] {
-    const errors: string[] = [];
-    
+  static verifyFiles(componentFiles: Record<string, string>, options: VerifyOptions = {}): QualityReport {
+    const diagnostics: CodeDiagnostic[] = [];
+    const files = new Map<string, string>();
+    for (const [file, code] of Object.entries(componentFiles)) {
+      if (/\.(tsx?|jsx?)$/.test(file)) files.set(toVirtualPath(file), code);
+    }
+
     try {
-      const sourceFile = ts.createSourceFile(
-        'temp.ts',
-        code,
-        ts.ScriptTarget.Latest,
-        true
-      );
-
-      const diagnostics = ts.getPreEmitDiagnostics(ts.createProgram({
-        rootNames: ['temp.ts'],
-        options: {
-          noEmit: true,
-          target: ts.ScriptTarget.Latest,
-          module: ts.ModuleKind.CommonJS,
-          jsx: ts.JsxEmit.React,
-        },
-        host: {
-          ...ts.createCompilerHost({}),
-          getSourceFile: (fileName) => fileName === 'temp.ts' ? sourceFile : undefined,
-          writeFile: () => {},
-          getDefaultLibFileName: () => "lib.d.ts",
-          useCaseSensitiveFileNames: () => true,
-          getCanonicalFileName: fileName => fileName,
-          getCurrentDirectory: () => "",
-          getNewLine: () => "\n",
-          fileExists: (fileName) => fileName === 'temp.ts',
-          readFile: (fileName) => fileName === 'temp.ts' ? code : undefined,
-        }
-      }));
+      const rootNames = [...files.keys()];
+      files.set(RUNTIME_DECLARATIONS_FILE, RUNTIME_DECLARATIONS);
+      const program = ts.createProgram({
+        rootNames: [...rootNames, RUNTIME_DECLARATIONS_FILE],
+        options: COMPILER_OPTIONS,
+        host: createHost(files),
+      });
 
-      for (const diagnostic of diagnostics) {
-        if (diagnostic.file && diagnostic.start !== undefined) {
-          const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
-          const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
-          errors.push(`Line ${line + 1}, Col ${character + 1}: ${message}`);
+      for (const fileName of rootNames) {
+        const sourceFile = program.getSourceFile(fileName);
+        if (!sourceFile) continue;
+        const file = path.posix.relative(APP_ROOT, fileName);
+
+        // Type errors in a file that doesn't parse are mostly noise
+        const syntactic = program.getSyntacticDiagnostics(sourceFile);
+        if (syntactic.length > 0) {
+          diagnostics.push(...syntactic.map(d => toCodeDiagnostic(d, 'syntax', file)));
         } else {
-          errors.push(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+          diagnostics.push(
+            ...program
+              .getSemanticDiagnostics(sourceFile)
+              .filter(d => !(options.partial && isMissingSibling(d)))
+              .map(d => toCodeDiagnostic(d, 'type', file))
+          );
         }
+
+        diagnostics.push(...checkStyle(sourceFile, file));
       }
     } catch (e) {
-      errors.push(`Compiler crash: ${e instanceof Error ? e.message : String(e)}`);
+      diagnostics.push({
+        file: SINGLE_FILE,
+        line: 1,
+        column: 1,
+        code: 'compiler-crash',
+        source: 'syntax',
+        severity: 'error',
+        message: `Compiler crash: ${e instanceof Error ? e.message : String(e)}`,
+      });
     }
 
-    return errors;
+    return this.buildReport(diagnostics);
   }
 
-  /**
-   * Check for basic code style consistency
-   */
-  private static checkStyle(code: string): string[] {
-    const issues: string[] = [];
+  private static buildReport(diagnostics: CodeDiagnostic[]): QualityReport {
+    const errorsFrom = (source: DiagnosticSource) =>
+      diagnostics.filter(d => d.source === source && d.severity === 'error').map(formatDiagnostic);
 
-    // Check for console.log usage (warning)
-    if (code.includes('console.log')) {
-      issues.push('Contains console.log statements');
-    }
+    const syntaxErrors = errorsFrom('syntax');
+    const typeErrors = errorsFrom('type');
+    const styleIssues = diagnostics
+      .filter(d => d.source === 'style')
+      .map(d => `${d.file} line ${d.line}: ${d.message}`);
 
-    // Check for any type (warning)
-    if (code.includes(': any') || code.includes('as any')) {
-      issues.push('Contains "any" type usage');
-    }
+    const valid = syntaxErrors.length === 0 && typeErrors.length === 0;
 
-    // Check for TODO comments
-    if (code.includes('// TODO') || code.includes('// FIXME')) {
-      issues.push('Contains TODO/FIXME comments');
+    // Calculate score
+    let score = 100;
+    if (!valid) score = 0;
+    else {
+      score -= styleIssues.length * 5;
+      score = Math.max(0, score);
     }
 
-    // Check for long lines (> 120 chars)
-    const lines = code.split('\n');
-    lines.forEach((line, i) => {
-      if (line.length > 120) {
-        issues.push(`Line ${i + 1} exceeds 120 characters`);
-      }
-    });
-
-    return issues;
+    return {
+      valid,
+      syntaxErrors,
+      typeErrors,
+      styleIssues,
+      diagnostics,
+      score,
+    };
   }
 }
@@ -57,6 +57,8 @@ export interface Relationship {
   target: string;
   foreignKey?: string;
   through?: string; // For manyToMany
+  /** What happens to referencing records when the referenced record is deleted */
+  onDelete?: 'cascade' | 'restrict' | 'setNull';
 }
 
 export interface Schema {
@@ -99,6 +101,11 @@ export type ComponentType =
   | 'menu'
   | 'modal';
 
+export const COMPONENT_TYPES = [
+  'form', 'table', 'chart', 'cards', 'kanban', 'calendar', 'stats', 'filters', 'custom',
+  'heatmap', 'timeline', 'gallery', 'list', 'detail', 'action-button', 'menu', 'modal',
+] as const satisfies readonly ComponentType[];
+
 // ============================================================================
 // App Capabilities - Flexible generation without forced CRUD
 // ============================================================================
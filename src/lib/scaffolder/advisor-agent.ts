@@ -4,6 +4,7 @@
  * Works in tandem with the Architect in a dual-agent loop.
  */
 
+import { z } from 'zod';
 import { completeJSON, type ChatMessage } from '@/lib/llm';
 import type { UserLLMSettings } from '@/lib/llm';
 import type { FreeformState, ArchitectAnalysis } from './freeform-architect';
@@ -42,18 +43,25 @@ export interface AdvisorReview {
 }
 
 // Schema for LLM JSON response
-const ADVISOR_REVIEW_SCHEMA = `{
-  "critique": "string - honest assessment of the Architect's response",
-  "suggestions": ["string - specific improvement suggestions"],
-  "confidence": 0-100,
-  "decision": "iterate" | "approve",
-  "refinedApproach": "string (optional - better approach for Architect)",
-  "gaps": ["string (optional - missing information)"],
-  "strengths": ["string (optional - what's working well)"],
-  "answeredQuestions": [{ "question": "string", "answer": "string", "reasoning": "string" }] (optional - questions you answered for the user),
-  "decisions": [{ "choice": "string", "rationale": "string" }] (optional - autonomous choices you made),
-  "needsUserInput": true|false (optional - ONLY true if core purpose is unclear)
-}`;
+const ADVISOR_REVIEW_SCHEMA = z.object({
+  critique: z.string().describe("honest assessment of the Architect's response"),
+  suggestions: z.array(z.string()).default([]).describe('specific improvement suggestions'),
+  confidence: z.number().min(0).max(100),
+  decision: z.enum(['iterate', 'approve']),
+  refinedApproach: z.string().optional().describe('better approach for the Architect'),
+  gaps: z.array(z.string()).optional().describe('missing information'),
+  strengths: z.array(z.string()).optional().describe("what's working well"),
+  answeredQuestions: z.array(z.object({
+    question: z.string(),
+    answer: z.string(),
+    reasoning: z.string(),
+  })).optional().describe('questions you answered for the user'),
+  decisions: z.array(z.object({
+    choice: z.string(),
+    rationale: z.string(),
+  })).optional().describe('autonomous choices you made'),
+  needsUserInput: z.boolean().optional().describe('ONLY true if core purpose is unclear'),
+});
 
 const ADVISOR_SYSTEM_PROMPT = `You are an Advisor Agent - the USER'S ADVOCATE and DECISION-MAKER, not a passive reviewer.
 
@@ -217,7 +225,7 @@ Respond with valid JSON only.`;
   ];
 
   try {
-    const review = await completeJSON<AdvisorReview>({
+    const review: AdvisorReview = await completeJSON({
       messages,
       schema: ADVISOR_REVIEW_SCHEMA,
       temperature: 0.3, // Lower temperature for more consistent evaluation
@@ -4,6 +4,7 @@
  * No hard-coded templates - dynamically decides what to ask and when.
  */
 
+import { z } from 'zod';
 import { streamComplete, completeJSON, type ChatMessage } from '@/lib/llm';
 import type { UserLLMSettings } from '@/lib/llm';
 import { generateId } from '@/lib/utils';
@@ -68,38 +69,40 @@ export interface ArchitectAnalysis {
 }
 
 // Analysis schema for LLM JSON response
-const ANALYSIS_SCHEMA = `{
-  "understanding": "string - brief summary of what user wants",
-  "entities": [{
-    "name": "string",
-    "fields": [{
-      "name": "string",
-      "type": "string|number|boolean|date|enum|relation",
-      "required": true|false,
-      "enumValues": ["string"] (optional, only for enum type)
-    }],
-    "relationships": [{
-      "target": "string - entity name",
-      "type": "one-to-one|one-to-many|many-to-many"
-    }]
-  }],
-  "readinessScore": 0-100,
-  "shouldAskQuestion": true|false,
-  "question": "string (optional - specific question to ask if needed)",
-  "canBuild": true|false,
-  "spec": {
-    "name": "string",
-    "description": "string",
-    "entities": [...same as above...],
-    "views": [{
-      "type": "table|chart|cards|form|kanban",
-      "title": "string",
-      "entityName": "string"
-    }],
-    "category": "string"
-  } (optional - only when canBuild is true),
-  "responseMessage": "string - natural language response to user"
-}`;
+const ENTITY_SCHEMA = z.object({
+  name: z.string().min(1),
+  fields: z.array(z.object({
+    name: z.string().min(1),
+    type: z.enum(['string', 'number', 'boolean', 'date', 'enum', 'relation']),
+    required: z.boolean().optional(),
+    enumValues: z.array(z.string()).optional().describe('only for enum type'),
+  })),
+  relationships: z.array(z.object({
+    target: z.string().describe('entity name'),
+    type: z.enum(['one-to-one', 'one-to-many', 'many-to-many']),
+  })).optional(),
+});
+
+const ANALYSIS_SCHEMA = z.object({
+  understanding: z.string().describe('brief summary of what user wants'),
+  entities: z.array(ENTITY_SCHEMA).default([]),
+  readinessScore: z.number().min(0).max(100),
+  shouldAskQuestion: z.boolean(),
+  question: z.string().optional().describe('specific question to ask if needed'),
+  canBuild: z.boolean(),
+  spec: z.object({
+    name: z.string(),
+    description: z.string(),
+    entities: z.array(ENTITY_SCHEMA),
+    views: z.array(z.object({
+      type: z.enum(['table', 'chart', 'cards', 'form', 'kanban']),
+      title: z.string(),
+      entityName: z.string(),
+    })),
+    category: z.string(),
+  }).optional().describe('only when canBuild is true'),
+  responseMessage: z.string().describe('natural language response to user'),
+});
 
 // Export for use by dual-agent orchestrator
 export const ARCHITECT_SYSTEM_PROMPT = `You are an autonomous AI Architect that builds apps through natural conversation.
@@ -252,7 +255,7 @@ Respond with valid JSON only.`;
   ];
 
   try {
-    const analysis = await completeJSON<ArchitectAnalysis>({
+    const analysis: ArchitectAnalysis = await completeJSON({
       messages,
       schema: ANALYSIS_SCHEMA,
       temperature: 0.3,
@@ -1,3 +1,4 @@
+import { z } from 'zod';
 import { completeJSON, type ChatMessage } from '@/lib/qwen';
 import type { ParsedIntent, TrackerCategory } from './types';
 import { emitStatus } from '@/lib/scaffolder/status/emitter';
@@ -21,14 +22,18 @@ Analyze the user's request and extract:
 
 Respond with a JSON object only.`;
 
-const PARSE_SCHEMA = `{
-  "category": "expense|habit|project|health|learning|inventory|time|custom",
-  "entities": ["string"],
-  "actions": ["string"],
-  "relationships": ["string"],
-  "suggestedName": "string",
-  "confidence": 0.0-1.0
-}`;
+const TRACKER_CATEGORIES: [TrackerCategory, ...TrackerCategory[]] = [
+  'expense', 'habit', 'project', 'health', 'learning', 'inventory', 'time', 'custom',
+];
+
+const PARSE_SCHEMA = z.object({
+  category: z.enum(TRACKER_CATEGORIES).catch('custom'),
+  entities: z.array(z.string()).default([]),
+  actions: z.array(z.string()).default([]),
+  relationships: z.array(z.string()).default([]),
+  suggestedName: z.string(),
+  confidence: z.number().min(0).max(1).catch(0.5),
+});
 
 export async function parseIntent(userPrompt: string, conversationId?: string): Promise<ParsedIntent> {
   const messages: ChatMessage[] = [
@@ -47,7 +52,7 @@ export async function parseIntent(userPrompt: string, conversationId?: string):
     // Use withRetry for automatic retry with backoff
     const result = await withRetry(
       async () => {
-        const response = await completeJSON<ParsedIntent>({
+        const response = await completeJSON({
           messages,
           schema: PARSE_SCHEMA,
           temperature: 0.3,
@@ -254,10 +259,7 @@ function generateSmartName(baseName: string, entities: string[], prompt: string)
 }
 
 function validateCategory(category: string): TrackerCategory {
-  const validCategories: TrackerCategory[] = [
-    'expense', 'habit', 'project', 'health', 'learning', 'inventory', 'time', 'custom'
-  ];
-  return validCategories.includes(category as TrackerCategory) 
+  return TRACKER_CATEGORIES.includes(category as TrackerCategory) 
     ? (category as TrackerCategory) 
     : 'custom';
 }
@@ -0,0 +1,339 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Webhook Tests
+ * Delivers record changes to a local HTTP receiver and checks signatures,
+ * event filtering, retries with backoff, giving up, manual redelivery, and
+ * that receivers on internal addresses are refused
+ */
+
+import { lookup } from 'dns/promises';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookError,
+  createWebhook,
+  dispatchWebhookEvent,
+  isInternalAddress,
+  listWebhookDeliveries,
+  processDueDeliveries,
+  redeliverWebhookDelivery,
+  retryDelayMs,
+  updateWebhook,
+  verifyWebhookSignature,
+  type WebhookPayload,
+} from '..';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+interface Row {
+  [key: string]: any;
+}
+
+const webhooks: Row[] = [];
+const deliveries: Row[] = [];
+let nextId = 0;
+
+function matches(row: Row, where: Row): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'webhook') {
+      return matches(webhooks.find(webhook => webhook.id === row.webhookId)!, condition);
+    }
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      const value = row[key];
+      if ('lte' in condition) return value != null && value <= condition.lte;
+      if ('lt' in condition) return value != null && value < condition.lt;
+      if ('not' in condition) return value !== condition.not;
+    }
+    return row[key] === condition;
+  });
+}
+
+function apply(row: Row, data: Row): Row {
+  for (const [key, value] of Object.entries(data)) {
+    row[key] = value && typeof value === 'object' && 'increment' in value ? row[key] + value.increment : value;
+  }
+  return row;
+}
+
+function model(rows: () => Row[], defaults: () => Row) {
+  return {
+    findMany: async ({ where = {}, orderBy, take }: any = {}) => {
+      const found = rows().filter(row => matches(row, where));
+      if (orderBy) {
+        const [[key, direction]] = Object.entries(orderBy) as [[string, string]];
+        found.sort((a, b) => (a[key] - b[key]) * (direction === 'desc' ? -1 : 1));
+      }
+      return found.slice(0, take ?? found.length).map(row => ({ ...row }));
+    },
+    findFirst: async ({ where }: any) => {
+      const row = rows().find(candidate => matches(candidate, where));
+      return row ? { ...row } : null;
+    },
+    findUnique: async ({ where, include }: any) => {
+      const row = rows().find(candidate => candidate.id === where.id);
+      if (!row) return null;
+      return include?.webhook
+        ? { ...row, webhook: { ...webhooks.find(webhook => webhook.id === row.webhookId) } }
+        : { ...row };
+    },
+    create: async ({ data }: any) => {
+      const row = { id: `row-${++nextId}`, ...defaults(), ...data };
+      rows().push(row);
+      return { ...row };
+    },
+    update: async ({ where, data }: any) => ({ ...apply(rows().find(row => row.id === where.id)!, data) }),
+    updateMany: async ({ where, data }: any) => {
+      const found = rows().filter(row => matches(row, where));
+      found.forEach(row => apply(row, data));
+      return { count: found.length };
+    },
+    deleteMany: async ({ where }: any) => {
+      const kept = rows().filter(row => !matches(row, where));
+      const count = rows().length - kept.length;
+      rows().splice(0, rows().length, ...kept);
+      return { count };
+    },
+  };
+}
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    webhook: model(() => webhooks, () => ({ active: true, createdAt: new Date() })),
+    webhookDelivery: model(() => deliveries, () => ({
+      status: 'PENDING',
+      attempts: 0,
+      responseStatus: null,
+      responseBody: null,
+      error: null,
+      durationMs: null,
+      completedAt: null,
+      // Distinct timestamps keep "newest first" deterministic
+      createdAt: new Date(Date.now() + nextId),
+    })),
+  },
+}));
+
+// ============================================================================
+// Local receiver
+// ============================================================================
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+let server: Server;
+let receiverUrl: string;
+const received: Received[] = [];
+/** Status codes to answer with, in order; 200 once they run out */
+let responses: number[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      received.push({ headers: request.headers, body });
+      const status = responses.shift() ?? 200;
+      response.writeHead(status, { 'Content-Type': 'text/plain' });
+      response.end(status < 300 ? 'ok' : 'receiver error');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  // The receiver listens on loopback
+  process.env.WEBHOOKS_ALLOW_INTERNAL_URLS = 'true';
+  // Hosts resolve through the real resolver unless a test says otherwise
+  (lookup as jest.Mock).mockImplementation(jest.requireActual('dns/promises').lookup);
+  webhooks.length = 0;
+  deliveries.length = 0;
+  received.length = 0;
+  responses = [];
+});
+
+const change = {
+  type: 'create' as const,
+  collection: 'tasks',
+  record: { id: 'task-1', title: 'Ship webhooks', createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' },
+};
+
+describe('webhook deliveries', () => {
+  it('POSTs a signed payload that verifies with the webhook secret', async () => {
+    const webhook = await createWebhook('app-1', { url: receiverUrl, events: ['record.created'] });
+
+    const [delivery] = await dispatchWebhookEvent('app-1', change);
+
+    expect(delivery).toMatchObject({ status: 'SUCCEEDED', attempts: 1, responseStatus: 200, responseBody: 'ok' });
+    expect(received).toHaveLength(1);
+
+    const { headers, body } = received[0];
+    const payload = JSON.parse(body) as WebhookPayload;
+    expect(payload).toMatchObject({ type: 'record.created', appId: 'app-1', collection: 'tasks', record: change.record });
+    expect(headers[WEBHOOK_EVENT_HEADER.toLowerCase()]).toBe('record.created');
+    expect(headers[WEBHOOK_DELIVERY_HEADER.toLowerCase()]).toBe(delivery.id);
+
+    const signature = headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] as string;
+    expect(verifyWebhookSignature(body, signature, webhook.secret)).toBe(true);
+    expect(verifyWebhookSignature(body, signature, 'whsec_wrong')).toBe(false);
+    expect(verifyWebhookSignature(body.replace('Ship', 'Skip'), signature, webhook.secret)).toBe(false);
+    expect(verifyWebhookSignature(body, signature, webhook.secret, { now: Math.floor(Date.now() / 1000) + 3600 })).toBe(false);
+  });
+
+  it('only sends events an active webhook subscribes to', async () => {
+    await createWebhook('app-1', { url: receiverUrl, events: ['record.deleted'] });
+    const paused = await createWebhook('app-1', { url: receiverUrl, events: ['record.created'] });
+    await updateWebhook('app-1', paused.id, { active: false });
+    await createWebhook('app-2', { url: receiverUrl, events: ['record.created'] });
+
+    expect(await dispatchWebhookEvent('app-1', change)).toEqual([]);
+    expect(received).toHaveLength(0);
+
+    const deleted = await dispatchWebhookEvent('app-1', { ...change, type: 'delete' });
+    expect(deleted).toHaveLength(1);
+    expect(JSON.parse(received[0].body).type).toBe('record.deleted');
+  });
+
+  it('retries a failed delivery with exponential backoff', async () => {
+    await createWebhook('app-1', { url: receiverUrl, events: ['record.created'] });
+    responses = [500, 503];
+    const now = new Date();
+
+    const [first] = await dispatchWebhookEvent('app-1', change, now);
+    expect(first).toMatchObject({ status: 'PENDING', attempts: 1, responseStatus: 500, responseBody: 'receiver error' });
+    expect(first.nextAttemptAt).toEqual(new Date(now.getTime() + RETRY_BASE_DELAY_MS));
+
+    // Not due yet
+    expect(await processDueDeliveries(new Date(now.getTime() + RETRY_BASE_DELAY_MS - 1))).toBe(0);
+    expect(received).toHaveLength(1);
+
+    const second = new Date(now.getTime() + RETRY_BASE_DELAY_MS);
+    expect(await processDueDeliveries(second)).toBe(1);
+    expect(deliveries[0].nextAttemptAt).toEqual(new Date(second.getTime() + 2 * RETRY_BASE_DELAY_MS));
+
+    expect(await processDueDeliveries(new Date(second.getTime() + 2 * RETRY_BASE_DELAY_MS))).toBe(1);
+    expect(deliveries[0]).toMatchObject({ status: 'SUCCEEDED', attempts: 3, responseStatus: 200 });
+    expect(received).toHaveLength(3);
+    // Every attempt carries the same event and delivery ids
+    expect(new Set(received.map(request => request.body)).size).toBe(1);
+    expect(new Set(received.map(request => request.headers[WEBHOOK_DELIVERY_HEADER.toLowerCase()])).size).toBe(1);
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    await createWebhook('app-1', { url: receiverUrl, events: ['record.created'] });
+    responses = Array(MAX_DELIVERY_ATTEMPTS).fill(500);
+    let now = new Date();
+
+    await dispatchWebhookEvent('app-1', change, now);
+    for (let attempt = 1; attempt < MAX_DELIVERY_ATTEMPTS; attempt++) {
+      now = new Date(now.getTime() + retryDelayMs(attempt));
+      await processDueDeliveries(now);
+    }
+
+    expect(received).toHaveLength(MAX_DELIVERY_ATTEMPTS);
+    expect(deliveries[0]).toMatchObject({ status: 'FAILED', attempts: MAX_DELIVERY_ATTEMPTS, nextAttemptAt: null });
+    expect(deliveries[0].completedAt).toBeInstanceOf(Date);
+    expect(await processDueDeliveries(new Date(now.getTime() + RETRY_MAX_DELAY_MS))).toBe(0);
+  });
+
+  it('connects to the address that was checked rather than resolving the host again', async () => {
+    const port = new URL(receiverUrl).port;
+    (lookup as jest.Mock).mockResolvedValue([{ address: '127.0.0.1', family: 4 }]);
+    await createWebhook('app-1', { url: `http://hooks.example.test:${port}/hooks`, events: ['record.created'] });
+
+    const [delivery] = await dispatchWebhookEvent('app-1', change);
+
+    // hooks.example.test doesn't resolve, so only the checked address could have been reached
+    expect(delivery).toMatchObject({ status: 'SUCCEEDED', responseStatus: 200 });
+    expect(received[0].headers.host).toBe(`hooks.example.test:${port}`);
+  });
+
+  it('records receivers that cannot be reached', async () => {
+    await createWebhook('app-1', { url: 'http://127.0.0.1:1/hooks', events: ['record.created'] });
+
+    const [delivery] = await dispatchWebhookEvent('app-1', change);
+
+    expect(delivery.status).toBe('PENDING');
+    expect(delivery.responseStatus).toBeNull();
+    expect(delivery.error).toBeTruthy();
+  });
+
+  it('redelivers a logged event as a new delivery', async () => {
+    const webhook = await createWebhook('app-1', { url: receiverUrl, events: ['record.created'] });
+    responses = [500];
+    const [failed] = await dispatchWebhookEvent('app-1', change);
+
+    const redelivered = await redeliverWebhookDelivery('app-1', webhook.id, failed.id);
+
+    expect(redelivered).toMatchObject({ status: 'SUCCEEDED', attempts: 1, eventId: failed.eventId });
+    expect(redelivered.id).not.toBe(failed.id);
+    expect(received[1].body).toBe(received[0].body);
+
+    const log = await listWebhookDeliveries('app-1', webhook.id);
+    expect(log.map(delivery => delivery.id)).toEqual([redelivered.id, failed.id]);
+    // The original keeps its own schedule
+    expect(log[1].status).toBe('PENDING');
+
+    await expect(redeliverWebhookDelivery('app-2', webhook.id, failed.id)).rejects.toBeInstanceOf(WebhookError);
+    expect(await listWebhookDeliveries('app-2', webhook.id)).toEqual([]);
+  });
+
+  it('doubles the retry delay up to a cap', () => {
+    expect(retryDelayMs(1)).toBe(RETRY_BASE_DELAY_MS);
+    expect(retryDelayMs(2)).toBe(2 * RETRY_BASE_DELAY_MS);
+    expect(retryDelayMs(3)).toBe(4 * RETRY_BASE_DELAY_MS);
+    expect(retryDelayMs(20)).toBe(RETRY_MAX_DELAY_MS);
+  });
+});
+
+describe('webhook addresses', () => {
+  beforeEach(() => {
+    delete process.env.WEBHOOKS_ALLOW_INTERNAL_URLS;
+  });
+
+  it('recognizes loopback, private, link-local and other internal addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:7f00:1']) {
+      expect(isInternalAddress(address)).toBe(true);
+    }
+    for (const address of ['93.184.215.14', '172.32.0.1', '2606:4700::1111']) {
+      expect(isInternalAddress(address)).toBe(false);
+    }
+  });
+
+  it('refuses webhooks whose host is or resolves to an internal address', async () => {
+    for (const url of ['http://169.254.169.254/latest/meta-data', 'http://localhost:3000/hooks', 'http://[::1]/hooks', 'https://10.0.0.5/hooks']) {
+      await expect(createWebhook('app-1', { url, events: ['record.created'] })).rejects.toMatchObject({ code: 'INVALID_URL' });
+    }
+    const webhook = await createWebhook('app-1', { url: 'https://93.184.215.14/hooks', events: ['record.created'] });
+    await expect(updateWebhook('app-1', webhook.id, { url: 'http://127.0.0.1/hooks' })).rejects.toMatchObject({ code: 'INVALID_URL' });
+  });
+
+  it('checks the address again before every attempt', async () => {
+    process.env.WEBHOOKS_ALLOW_INTERNAL_URLS = 'true';
+  // Hosts resolve through the real resolver unless a test says otherwise
+  (lookup as jest.Mock).mockImplementation(jest.requireActual('dns/promises').lookup);
+    await createWebhook('app-1', { url: receiverUrl, events: ['record.created'] });
+    delete process.env.WEBHOOKS_ALLOW_INTERNAL_URLS;
+
+    const [delivery] = await dispatchWebhookEvent('app-1', change);
+
+    expect(received).toHaveLength(0);
+    expect(delivery).toMatchObject({ status: 'PENDING', responseBody: null, error: 'Webhook URLs must point to a public address' });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Webhook Addresses
+ * Keeps deliveries away from loopback, private and other internal networks,
+ * so a webhook can't be pointed at the server itself or its cloud metadata
+ */
+
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { WebhookError } from './types';
+
+const internalAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Link-local, including 169.254.169.254 metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3], // Multicast, reserved and broadcast
+] as const) {
+  internalAddresses.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+for (const [network, prefix] of [
+  ['::', 127], // Unspecified and loopback
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  internalAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Set WEBHOOKS_ALLOW_INTERNAL_URLS=true to deliver to local receivers during
+ * development; the setting is ignored in production
+ */
+export function allowInternalWebhookUrls(): boolean {
+  return process.env.NODE_ENV !== 'production' && process.env.WEBHOOKS_ALLOW_INTERNAL_URLS === 'true';
+}
+
+export function isInternalAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return internalAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolve the URL's host and check every address it resolves to. Runs when a
+ * webhook is saved and again before each attempt, since DNS can change.
+ * Returns the checked addresses; deliveries connect to these rather than
+ * resolving the host again, so it can't pass the check and then point
+ * somewhere internal (DNS rebinding).
+ *
+ * @throws WebhookError with code INVALID_URL if the host doesn't resolve or any address is internal
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<LookupAddress[]> {
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: LookupAddress[];
+  try {
+    const family = isIP(hostname);
+    addresses = family
+      ? [{ address: hostname, family }]
+      : await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new WebhookError(`Could not resolve ${hostname}`, 'INVALID_URL');
+  }
+
+  if (addresses.length === 0) {
+    throw new WebhookError(`Could not resolve ${hostname}`, 'INVALID_URL');
+  }
+  if (!allowInternalWebhookUrls() && addresses.some(resolved => isInternalAddress(resolved.address))) {
+    throw new WebhookError('Webhook URLs must point to a public address', 'INVALID_URL');
+  }
+  return addresses;
+}
+
+/**
+ * A socket lookup that answers with the given addresses only
+ */
+export function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
+}
@@ -0,0 +1,362 @@
+/**
+ * Webhook Deliveries
+ * Queues one delivery per subscribed webhook for each record change, POSTs
+ * it, and retries failures with exponential backoff. Deliveries are rows, so
+ * the queue survives restarts and doubles as the delivery log.
+ *
+ * An attempt first claims its delivery by moving nextAttemptAt past the
+ * request timeout. Retry timers and the Nebula watchdog can then both sweep
+ * for due deliveries without sending the same attempt twice.
+ */
+
+import { randomBytes } from 'crypto';
+import type { LookupAddress } from 'dns';
+import { Agent as HttpAgent, request as httpRequest } from 'http';
+import { Agent as HttpsAgent, request as httpsRequest } from 'https';
+import type { Webhook, WebhookDelivery } from '@prisma/client';
+import prisma from '@/lib/db';
+import type { DataChangeType } from '@/lib/app-data/store';
+import type { DataRecord } from '@/lib/primitives/types';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookBody,
+} from './signing';
+import { parseWebhookEvents } from './subscriptions';
+import { assertPublicWebhookUrl, pinnedLookup } from './addresses';
+import {
+  WebhookError,
+  type WebhookDeliveryInfo,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+  type WebhookPayload,
+} from './types';
+
+/** Attempts before a delivery is given up as FAILED */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+/** Wait after the first failed attempt; doubles after each further failure */
+export const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+export const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/** How long a receiver has to answer */
+export const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/** Finished deliveries are kept in the log this long */
+export const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Characters of the receiver's response kept in the log */
+const RESPONSE_BODY_LIMIT = 1024;
+
+/** Deliveries attempted per sweep */
+const SWEEP_BATCH_SIZE = 50;
+
+const EVENT_FOR_CHANGE: Record<DataChangeType, WebhookEvent> = {
+  create: 'record.created',
+  update: 'record.updated',
+  delete: 'record.deleted',
+};
+
+/**
+ * A committed record write, as the data store reports it
+ */
+export interface WebhookChange {
+  type: DataChangeType;
+  collection: string;
+  record: DataRecord;
+  previous?: DataRecord;
+}
+
+interface AttemptResult {
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * Wait before the next attempt after `attempts` failed ones
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+function toInfo(delivery: WebhookDelivery): WebhookDeliveryInfo {
+  return {
+    id: delivery.id,
+    webhookId: delivery.webhookId,
+    eventId: delivery.eventId,
+    event: delivery.event as WebhookEvent,
+    status: delivery.status as WebhookDeliveryStatus,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.status === 'PENDING' ? delivery.nextAttemptAt : null,
+    responseStatus: delivery.responseStatus,
+    responseBody: delivery.responseBody,
+    error: delivery.error,
+    durationMs: delivery.durationMs,
+    createdAt: delivery.createdAt,
+    completedAt: delivery.completedAt,
+    payload: JSON.parse(delivery.payload) as WebhookPayload,
+  };
+}
+
+// ============================================================================
+// Retry timer
+// ============================================================================
+
+let sweepTimer: ReturnType<typeof setTimeout> | null = null;
+let sweepAt = Infinity;
+
+/**
+ * Sweep for due deliveries at `at`, unless a sweep is already set for sooner.
+ * The timer doesn't keep the process alive; the Nebula watchdog picks up
+ * whatever is left after a restart.
+ */
+function scheduleSweep(at: Date): void {
+  if (sweepTimer && sweepAt <= at.getTime()) return;
+  if (sweepTimer) clearTimeout(sweepTimer);
+
+  sweepAt = at.getTime();
+  sweepTimer = setTimeout(() => {
+    sweepTimer = null;
+    sweepAt = Infinity;
+    processDueDeliveries().catch(error => console.error('[Webhooks] Retry sweep failed:', error));
+  }, Math.max(0, sweepAt - Date.now()));
+  sweepTimer.unref?.();
+}
+
+// ============================================================================
+// Sending
+// ============================================================================
+
+/**
+ * POST to the webhook over a connection to the given addresses only. fetch
+ * would resolve the host again. Redirects are not followed: they would resend
+ * the signed body somewhere the user didn't choose.
+ */
+function post(
+  url: string,
+  addresses: LookupAddress[],
+  headers: Record<string, string>,
+  body: string
+): Promise<{ status: number; body: string }> {
+  const target = new URL(url);
+  const secure = target.protocol === 'https:';
+  const lookup = pinnedLookup(addresses);
+  const agent = secure ? new HttpsAgent({ lookup }) : new HttpAgent({ lookup });
+
+  return new Promise<{ status: number; body: string }>((resolve, reject) => {
+    const outgoing = (secure ? httpsRequest : httpRequest)(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      agent,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    }, incoming => {
+      let text = '';
+      incoming.setEncoding('utf8');
+      incoming.on('data', (chunk: string) => {
+        if (text.length < RESPONSE_BODY_LIMIT) text += chunk;
+      });
+      incoming.on('end', () => resolve({ status: incoming.statusCode ?? 0, body: text }));
+      incoming.on('error', reject);
+    });
+    outgoing.on('error', reject);
+    outgoing.end(body);
+  }).finally(() => agent.destroy());
+}
+
+async function send(webhook: Webhook, delivery: WebhookDelivery): Promise<AttemptResult> {
+  const started = Date.now();
+  try {
+    // Checked per attempt: the host may resolve elsewhere than when the webhook was saved
+    const addresses = await assertPublicWebhookUrl(webhook.url);
+    const response = await post(webhook.url, addresses, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Cumulonimbus-Webhooks/1.0',
+      [WEBHOOK_EVENT_HEADER]: delivery.event,
+      [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+      // Signed per attempt, so retries carry a fresh timestamp
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookBody(delivery.payload, webhook.secret),
+    }, delivery.payload);
+    return {
+      responseStatus: response.status,
+      responseBody: response.body.slice(0, RESPONSE_BODY_LIMIT),
+      error: null,
+      durationMs: Date.now() - started,
+    };
+  } catch (error) {
+    // The request aborts with the timeout as its cause
+    const timedOut = error instanceof Error && [error.name, (error.cause as Error | undefined)?.name].includes('TimeoutError');
+    return {
+      responseStatus: null,
+      responseBody: null,
+      error: timedOut
+        ? `No response within ${DELIVERY_TIMEOUT_MS / 1000} seconds`
+        : error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - started,
+    };
+  }
+}
+
+/**
+ * Make one attempt at a delivery that is due. Returns null when it isn't
+ * pending and due, or another sweep claimed it first.
+ */
+export async function attemptDelivery(deliveryId: string, now: Date = new Date()): Promise<WebhookDeliveryInfo | null> {
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: 'PENDING', nextAttemptAt: { lte: now } },
+    data: {
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(now.getTime() + 2 * DELIVERY_TIMEOUT_MS),
+    },
+  });
+  if (claimed.count === 0) return null;
+
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { webhook: true },
+  });
+  if (!delivery) return null;
+
+  if (!delivery.webhook.active) {
+    const cancelled = await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'FAILED', error: 'The webhook is disabled', completedAt: now },
+    });
+    return toInfo(cancelled);
+  }
+
+  const result = await send(delivery.webhook, delivery);
+  const succeeded = result.responseStatus !== null && result.responseStatus >= 200 && result.responseStatus < 300;
+  const status: WebhookDeliveryStatus = succeeded
+    ? 'SUCCEEDED'
+    : delivery.attempts >= MAX_DELIVERY_ATTEMPTS ? 'FAILED' : 'PENDING';
+  const retryAt = status === 'PENDING' ? new Date(now.getTime() + retryDelayMs(delivery.attempts)) : null;
+
+  const updated = await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      ...result,
+      status,
+      nextAttemptAt: retryAt,
+      completedAt: status === 'PENDING' ? null : new Date(),
+    },
+  });
+
+  if (retryAt) scheduleSweep(retryAt);
+  return toInfo(updated);
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+/**
+ * Queue and send a record change to every active webhook of the app that
+ * subscribes to its event. Resolves once each has had its first attempt.
+ */
+export async function dispatchWebhookEvent(
+  appId: string,
+  change: WebhookChange,
+  now: Date = new Date()
+): Promise<WebhookDeliveryInfo[]> {
+  const event = EVENT_FOR_CHANGE[change.type];
+  const webhooks = (await prisma.webhook.findMany({
+    where: { appId, active: true },
+    select: { id: true, events: true },
+  })).filter(webhook => parseWebhookEvents(webhook.events).includes(event));
+  if (webhooks.length === 0) return [];
+
+  const payload: WebhookPayload = {
+    id: `evt_${randomBytes(12).toString('hex')}`,
+    type: event,
+    createdAt: now.toISOString(),
+    appId,
+    collection: change.collection,
+    record: change.record,
+    ...(change.previous && { previous: change.previous }),
+  };
+  const body = JSON.stringify(payload);
+
+  return Promise.all(webhooks.map(async webhook => {
+    const delivery = await prisma.webhookDelivery.create({
+      data: { webhookId: webhook.id, eventId: payload.id, event, payload: body, nextAttemptAt: now },
+    });
+    return (await attemptDelivery(delivery.id, now)) ?? toInfo(delivery);
+  }));
+}
+
+/**
+ * Attempt every delivery whose retry is due and drop finished deliveries past
+ * the retention period. Returns the number of attempts made.
+ */
+export async function processDueDeliveries(now: Date = new Date()): Promise<number> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: SWEEP_BATCH_SIZE,
+    select: { id: true },
+  });
+
+  let attempted = 0;
+  for (const { id } of due) {
+    if (await attemptDelivery(id, now)) attempted++;
+  }
+
+  await prisma.webhookDelivery.deleteMany({
+    where: { status: { not: 'PENDING' }, createdAt: { lt: new Date(now.getTime() - DELIVERY_RETENTION_MS) } },
+  });
+
+  // A full batch may have left more behind
+  if (due.length === SWEEP_BATCH_SIZE) scheduleSweep(now);
+  return attempted;
+}
+
+// ============================================================================
+// Delivery log
+// ============================================================================
+
+/**
+ * A webhook's most recent deliveries, newest first
+ */
+export async function listWebhookDeliveries(appId: string, webhookId: string, limit = 50): Promise<WebhookDeliveryInfo[]> {
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: { webhookId, webhook: { appId } },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+  return deliveries.map(toInfo);
+}
+
+/**
+ * Send a logged delivery's event again, now, as a new delivery with the same
+ * event id. The original stays in the log as it was.
+ *
+ * @throws WebhookError with code NOT_FOUND if the webhook has no such delivery
+ */
+export async function redeliverWebhookDelivery(
+  appId: string,
+  webhookId: string,
+  deliveryId: string
+): Promise<WebhookDeliveryInfo> {
+  const original = await prisma.webhookDelivery.findFirst({
+    where: { id: deliveryId, webhookId, webhook: { appId } },
+  });
+  if (!original) {
+    throw new WebhookError('Delivery not found', 'NOT_FOUND');
+  }
+
+  const now = new Date();
+  const copy = await prisma.webhookDelivery.create({
+    data: {
+      webhookId,
+      eventId: original.eventId,
+      event: original.event,
+      payload: original.payload,
+      nextAttemptAt: now,
+    },
+  });
+  return (await attemptDelivery(copy.id, now)) ?? toInfo(copy);
+}
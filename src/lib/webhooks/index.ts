@@ -0,0 +1,57 @@
+/**
+ * Webhooks Module Index
+ * Signed, retried deliveries of an app's record changes to outside URLs
+ */
+
+export {
+  parseWebhookEvents,
+  validateWebhookUrl,
+  listWebhooks,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+} from './subscriptions';
+
+export {
+  allowInternalWebhookUrls,
+  isInternalAddress,
+  assertPublicWebhookUrl,
+} from './addresses';
+
+export {
+  MAX_DELIVERY_ATTEMPTS,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  DELIVERY_TIMEOUT_MS,
+  DELIVERY_RETENTION_MS,
+  retryDelayMs,
+  attemptDelivery,
+  dispatchWebhookEvent,
+  processDueDeliveries,
+  listWebhookDeliveries,
+  redeliverWebhookDelivery,
+  type WebhookChange,
+} from './deliveries';
+
+export {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  generateWebhookSecret,
+  signWebhookBody,
+  verifyWebhookSignature,
+} from './signing';
+
+export {
+  WEBHOOK_EVENTS,
+  WebhookError,
+  type WebhookEvent,
+  type WebhookDeliveryStatus,
+  type WebhookInfo,
+  type CreateWebhookInput,
+  type UpdateWebhookInput,
+  type WebhookPayload,
+  type WebhookDeliveryInfo,
+  type WebhookErrorCode,
+} from './types';
@@ -0,0 +1,65 @@
+/**
+ * Webhook Signing
+ * Every delivery carries `X-Cumulonimbus-Signature: t=<unix seconds>,v1=<hex>`,
+ * an HMAC-SHA256 of `<t>.<body>` keyed with the webhook's secret. Receivers
+ * recompute it to check the body came from us, and reject old timestamps so
+ * a captured delivery can't be replayed.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Cumulonimbus-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-Cumulonimbus-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Cumulonimbus-Delivery';
+
+/** Signatures older than this should be rejected by receivers */
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+function computeSignature(body: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`, 'utf8').digest('hex');
+}
+
+/**
+ * Build the signature header for a body
+ */
+export function signWebhookBody(
+  body: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(body, secret, timestamp)}`;
+}
+
+/**
+ * Check a signature header the way a receiver should
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string | null,
+  secret: string,
+  options: { tolerance?: number; now?: number } = {}
+): boolean {
+  if (!header) return false;
+
+  let timestamp = NaN;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=');
+    if (key === 't') timestamp = Number(value);
+    if (key === 'v1' && value) signatures.push(value);
+  }
+  if (!Number.isInteger(timestamp) || signatures.length === 0) return false;
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (Math.abs(now - timestamp) > (options.tolerance ?? WEBHOOK_SIGNATURE_TOLERANCE_SECONDS)) return false;
+
+  const expected = Buffer.from(computeSignature(body, secret, timestamp), 'hex');
+  return signatures.some(signature => {
+    const received = Buffer.from(signature, 'hex');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * Webhook Subscriptions
+ * Adding, changing and removing an app's webhooks
+ */
+
+import type { Webhook } from '@prisma/client';
+import prisma from '@/lib/db';
+import { generateWebhookSecret } from './signing';
+import { assertPublicWebhookUrl } from './addresses';
+import {
+  WEBHOOK_EVENTS,
+  WebhookError,
+  type CreateWebhookInput,
+  type UpdateWebhookInput,
+  type WebhookEvent,
+  type WebhookInfo,
+} from './types';
+
+export function parseWebhookEvents(stored: string): WebhookEvent[] {
+  return stored
+    .split(',')
+    .map(event => event.trim())
+    .filter((event): event is WebhookEvent => WEBHOOK_EVENTS.includes(event as WebhookEvent));
+}
+
+function toInfo(webhook: Webhook): WebhookInfo {
+  return {
+    id: webhook.id,
+    appId: webhook.appId,
+    url: webhook.url,
+    secret: webhook.secret,
+    events: parseWebhookEvents(webhook.events),
+    active: webhook.active,
+    createdAt: webhook.createdAt,
+  };
+}
+
+/**
+ * Check a receiver URL's format. Plain http is only accepted outside
+ * production, so local receivers work in development without sending records
+ * in the clear. Where the host resolves to is checked by assertPublicWebhookUrl.
+ */
+export function validateWebhookUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new WebhookError('Enter a valid URL', 'INVALID_URL');
+  }
+
+  const allowHttp = process.env.NODE_ENV !== 'production';
+  if (parsed.protocol !== 'https:' && !(allowHttp && parsed.protocol === 'http:')) {
+    throw new WebhookError(allowHttp ? 'Webhook URLs must use http or https' : 'Webhook URLs must use https', 'INVALID_URL');
+  }
+  if (parsed.username || parsed.password) {
+    throw new WebhookError('Webhook URLs cannot contain credentials', 'INVALID_URL');
+  }
+
+  return parsed.toString();
+}
+
+function serializeEvents(events: WebhookEvent[]): string {
+  const unique = WEBHOOK_EVENTS.filter(event => events.includes(event));
+  if (unique.length === 0) {
+    throw new WebhookError('Choose at least one event', 'INVALID_EVENTS');
+  }
+  return unique.join(',');
+}
+
+export async function listWebhooks(appId: string): Promise<WebhookInfo[]> {
+  const webhooks = await prisma.webhook.findMany({
+    where: { appId },
+    orderBy: { createdAt: 'asc' },
+  });
+  return webhooks.map(toInfo);
+}
+
+/**
+ * Check a receiver URL's format and that its host is a public address
+ */
+async function checkWebhookUrl(url: string): Promise<string> {
+  const valid = validateWebhookUrl(url);
+  await assertPublicWebhookUrl(valid);
+  return valid;
+}
+
+export async function createWebhook(appId: string, input: CreateWebhookInput): Promise<WebhookInfo> {
+  const webhook = await prisma.webhook.create({
+    data: {
+      appId,
+      url: await checkWebhookUrl(input.url),
+      events: serializeEvents(input.events),
+      secret: generateWebhookSecret(),
+    },
+  });
+  return toInfo(webhook);
+}
+
+/**
+ * @throws WebhookError with code NOT_FOUND if the app has no such webhook, or INVALID_URL for a URL that is not allowed
+ */
+export async function updateWebhook(appId: string, webhookId: string, input: UpdateWebhookInput): Promise<WebhookInfo> {
+  const data = {
+    ...(input.url !== undefined && { url: await checkWebhookUrl(input.url) }),
+    ...(input.events !== undefined && { events: serializeEvents(input.events) }),
+    ...(input.active !== undefined && { active: input.active }),
+    ...(input.rotateSecret && { secret: generateWebhookSecret() }),
+  };
+
+  const { count } = await prisma.webhook.updateMany({ where: { id: webhookId, appId }, data });
+  if (count === 0) {
+    throw new WebhookError('Webhook not found', 'NOT_FOUND');
+  }
+
+  const webhook = await prisma.webhook.findUnique({ where: { id: webhookId } });
+  return toInfo(webhook!);
+}
+
+/**
+ * Remove a webhook and its delivery log; false if the app has no such webhook
+ */
+export async function deleteWebhook(appId: string, webhookId: string): Promise<boolean> {
+  const { count } = await prisma.webhook.deleteMany({ where: { id: webhookId, appId } });
+  return count > 0;
+}
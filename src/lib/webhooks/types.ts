@@ -0,0 +1,93 @@
+/**
+ * Webhook Types
+ * Subscriptions to an app's record changes and the log of their deliveries
+ */
+
+import type { DataRecord } from '@/lib/primitives/types';
+
+export type WebhookEvent = 'record.created' | 'record.updated' | 'record.deleted';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['record.created', 'record.updated', 'record.deleted'];
+
+/**
+ * - PENDING: waiting for its first try or a retry
+ * - SUCCEEDED: the receiver answered with a 2xx
+ * - FAILED: every attempt failed, or the webhook was removed from service
+ */
+export type WebhookDeliveryStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+export interface WebhookInfo {
+  id: string;
+  appId: string;
+  url: string;
+  /** Key for the HMAC in the signature header */
+  secret: string;
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: Date;
+}
+
+export interface CreateWebhookInput {
+  url: string;
+  events: WebhookEvent[];
+}
+
+export interface UpdateWebhookInput {
+  url?: string;
+  events?: WebhookEvent[];
+  active?: boolean;
+  /** Replace the signing secret; receivers must switch to the new one */
+  rotateSecret?: boolean;
+}
+
+/**
+ * The JSON body POSTed to a webhook
+ */
+export interface WebhookPayload {
+  /** Event id, the same for every redelivery of the event */
+  id: string;
+  type: WebhookEvent;
+  createdAt: string;
+  appId: string;
+  collection: string;
+  /** The record after the write, with computed values (or as it was, for deletes) */
+  record: DataRecord;
+  /** The record before an update */
+  previous?: DataRecord;
+}
+
+export interface WebhookDeliveryInfo {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  createdAt: Date;
+  completedAt: Date | null;
+  payload: WebhookPayload;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type WebhookErrorCode =
+  | 'INVALID_URL'
+  | 'INVALID_EVENTS'
+  | 'NOT_FOUND';
+
+export class WebhookError extends Error {
+  public readonly code: WebhookErrorCode;
+
+  constructor(message: string, code: WebhookErrorCode) {
+    super(message);
+    this.name = 'WebhookError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Workflow Engine Tests
+ * Tests for running workflows on record writes, on request and on a schedule
+ */
+
+import Database from 'better-sqlite3';
+import { AppDataStore } from '@/lib/app-data/store';
+import { WorkflowEngine } from '../engine';
+import { WorkflowError } from '../types';
+import type { Schema, WorkflowDefinition } from '@/lib/scaffolder-v2/types';
+
+const taskSchema: Schema = {
+  name: 'task',
+  label: 'Task',
+  fields: [
+    { name: 'id', label: 'ID', type: 'string', required: true, generated: true, primaryKey: true },
+    { name: 'title', label: 'Title', type: 'string', required: true },
+    { name: 'status', label: 'Status', type: 'enum', required: false, options: ['Todo', 'Done'] },
+    { name: 'dueDate', label: 'Due Date', type: 'date', required: false },
+    { name: 'completedAt', label: 'Completed At', type: 'datetime', required: false },
+    { name: 'price', label: 'Price', type: 'number', required: false },
+    { name: 'quantity', label: 'Quantity', type: 'number', required: false },
+    { name: 'total', label: 'Total', type: 'number', required: false },
+    { name: 'overdue', label: 'Overdue', type: 'boolean', required: false },
+  ],
+};
+
+const auditSchema: Schema = {
+  name: 'audit_entry',
+  label: 'Audit Entry',
+  fields: [
+    { name: 'id', label: 'ID', type: 'string', required: true, generated: true, primaryKey: true },
+    { name: 'message', label: 'Message', type: 'string', required: true },
+  ],
+};
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+function workflow(overrides: Partial<WorkflowDefinition>): WorkflowDefinition {
+  return {
+    id: 'wf',
+    name: 'Workflow',
+    description: '',
+    trigger: { type: 'manual' },
+    actions: [],
+    enabled: true,
+    ...overrides,
+  };
+}
+
+function setup(workflows: WorkflowDefinition[]) {
+  const store = new AppDataStore('app-1', new Database(':memory:'), [taskSchema, auditSchema]);
+  const notifications: string[] = [];
+  const engine = new WorkflowEngine(store, workflows, {
+    now: () => now,
+    onNotification: notification => notifications.push(notification.message),
+  });
+  return { store, engine, tasks: store.collection(), notifications };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('WorkflowEngine - record triggers', () => {
+  it('should compute fields when a record is created', () => {
+    const { tasks, engine } = setup([
+      workflow({
+        id: 'total',
+        trigger: { type: 'record_create' },
+        actions: [{ type: 'compute', target: 'total', formula: 'price * quantity' }],
+      }),
+    ]);
+
+    const created = tasks.insert({ title: 'Widgets', price: 2.5, quantity: 4 });
+
+    expect(tasks.get(created.id)?.total).toBe(10);
+    expect(engine.log.list()).toHaveLength(1);
+    expect(engine.log.list()[0]).toMatchObject({ workflowId: 'total', status: 'success', recordId: created.id });
+  });
+
+  it('should only fire field_change workflows when the watched field changes', () => {
+    const { tasks, engine } = setup([
+      workflow({
+        id: 'completed',
+        trigger: { type: 'field_change', field: 'status', condition: "status == 'Done'" },
+        actions: [{ type: 'update_field', target: 'completedAt', formula: 'now()' }],
+      }),
+    ]);
+
+    const task = tasks.insert({ title: 'Ship it', status: 'Todo' });
+    tasks.update(task.id, { title: 'Ship it today' });
+    expect(tasks.get(task.id)?.completedAt).toBeUndefined();
+
+    tasks.update(task.id, { status: 'Done' });
+    expect(tasks.get(task.id)?.completedAt).toBe(now.toISOString());
+    expect(engine.log.list()).toHaveLength(1);
+  });
+
+  it('should expose the previous record to conditions', () => {
+    const { tasks, notifications } = setup([
+      workflow({
+        id: 'reopened',
+        trigger: { type: 'field_change', field: 'status', condition: "previous.status == 'Done'" },
+        actions: [{ type: 'send_notification', target: 'owner', value: '{{title}} was reopened' }],
+      }),
+    ]);
+
+    const task = tasks.insert({ title: 'Ship it', status: 'Done' });
+    tasks.update(task.id, { status: 'Todo' });
+
+    expect(notifications).toEqual(['Ship it was reopened']);
+  });
+
+  it('should create records in other collections by label', () => {
+    const { store, tasks } = setup([
+      workflow({
+        id: 'audit',
+        trigger: { type: 'record_delete' },
+        actions: [{ type: 'create_record', target: 'Audit Entry', value: { message: 'Deleted {{title}}' } }],
+      }),
+    ]);
+
+    const task = tasks.insert({ title: 'Old task' });
+    tasks.delete(task.id);
+
+    expect(store.collection('audit_entry').list()).toEqual([
+      expect.objectContaining({ message: 'Deleted Old task' }),
+    ]);
+  });
+
+  it('should skip disabled workflows', () => {
+    const { tasks, engine } = setup([
+      workflow({
+        trigger: { type: 'record_create' },
+        actions: [{ type: 'compute', target: 'total', formula: '1' }],
+        enabled: false,
+      }),
+    ]);
+
+    tasks.insert({ title: 'Task' });
+    expect(engine.log.list()).toEqual([]);
+  });
+
+  it('should roll back all actions when one fails', () => {
+    const { store, tasks, engine } = setup([
+      workflow({
+        id: 'broken',
+        trigger: { type: 'record_create' },
+        actions: [
+          { type: 'update_field', target: 'total', value: 5 },
+          { type: 'update_field', target: 'status', value: 'Archived' },
+        ],
+      }),
+    ]);
+
+    const events: string[] = [];
+    store.subscribe(event => events.push(`${event.type}:${event.collection}`));
+    const task = tasks.insert({ title: 'Task' });
+
+    expect(tasks.get(task.id)?.total).toBeUndefined();
+    // The rolled-back update_field never reaches the change feed or webhooks
+    expect(events).toEqual(['create:task']);
+    const [execution] = engine.log.list();
+    expect(execution.status).toBe('error');
+    expect(execution.actions.map(action => action.status)).toEqual(['success', 'error']);
+  });
+
+  it('should log conditions that fail to evaluate', () => {
+    const { tasks, engine } = setup([
+      workflow({
+        trigger: { type: 'record_create', condition: 'status ==' },
+        actions: [{ type: 'delete_record', target: '' }],
+      }),
+    ]);
+
+    const task = tasks.insert({ title: 'Task' });
+
+    expect(tasks.get(task.id)).not.toBeNull();
+    expect(engine.log.list()[0].error).toMatch(/^Condition failed/);
+  });
+
+  it('should not let a workflow re-trigger itself', () => {
+    const { tasks, engine } = setup([
+      workflow({
+        id: 'bump',
+        trigger: { type: 'field_change', field: 'quantity' },
+        actions: [{ type: 'compute', target: 'quantity', formula: 'quantity + 1' }],
+      }),
+    ]);
+
+    const task = tasks.insert({ title: 'Task', quantity: 1 });
+    tasks.update(task.id, { quantity: 10 });
+
+    expect(tasks.get(task.id)?.quantity).toBe(11);
+    expect(engine.log.list()).toHaveLength(1);
+  });
+});
+
+describe('WorkflowEngine - manual runs', () => {
+  it('should run a workflow against a record', () => {
+    const { tasks, engine } = setup([
+      workflow({
+        id: 'close',
+        actions: [{ type: 'update_field', target: 'status', value: 'Done' }],
+      }),
+    ]);
+
+    const task = tasks.insert({ title: 'Task', status: 'Todo' });
+    const execution = engine.runManual('close', task.id);
+
+    expect(execution.status).toBe('success');
+    expect(tasks.get(task.id)?.status).toBe('Done');
+  });
+
+  it('should reject unknown workflows, disabled workflows and missing records', () => {
+    const { engine } = setup([
+      workflow({ id: 'on' }),
+      workflow({ id: 'off', enabled: false }),
+    ]);
+
+    expect(() => engine.runManual('missing')).toThrow(WorkflowError);
+    expect(() => engine.runManual('off')).toThrow(expect.objectContaining({ code: 'WORKFLOW_DISABLED' }));
+    expect(() => engine.runManual('on', 'nope')).toThrow(expect.objectContaining({ code: 'RECORD_NOT_FOUND' }));
+  });
+});
+
+describe('WorkflowEngine - schedules', () => {
+  const overdue = workflow({
+    id: 'overdue',
+    trigger: { type: 'time_based', schedule: '@hourly', condition: 'dueDate < today() and !overdue' },
+    actions: [{ type: 'update_field', target: 'overdue', value: true }],
+  });
+
+  it('should start counting from the first check', () => {
+    const { tasks, engine } = setup([overdue]);
+    tasks.insert({ title: 'Late', dueDate: '2026-03-01' });
+
+    expect(engine.runScheduled(now)).toEqual([]);
+    expect(engine.nextRunAt(overdue, now)).toBe('2026-03-10T13:00:00.000Z');
+  });
+
+  it('should run due workflows once per matching record', () => {
+    const { tasks, engine } = setup([overdue]);
+    const late = tasks.insert({ title: 'Late', dueDate: '2026-03-01' });
+    const onTime = tasks.insert({ title: 'On time', dueDate: '2026-04-01' });
+
+    engine.runScheduled(now);
+    expect(engine.runScheduled(new Date('2026-03-10T12:30:00.000Z'))).toEqual([]);
+
+    const executions = engine.runScheduled(new Date('2026-03-10T13:00:00.000Z'));
+    expect(executions.map(execution => execution.recordId)).toEqual([late.id]);
+    expect(tasks.get(late.id)?.overdue).toBe(true);
+    expect(tasks.get(onTime.id)?.overdue).toBeUndefined();
+
+    // Already marked, so the condition no longer matches
+    expect(engine.runScheduled(new Date('2026-03-10T14:00:00.000Z'))).toEqual([]);
+  });
+
+  it('should run workflows without a condition once per tick', () => {
+    const { engine, notifications } = setup([
+      workflow({
+        trigger: { type: 'time_based', schedule: 'every 15 minutes' },
+        actions: [{ type: 'send_notification', target: 'owner', value: 'Digest for {{today()}}' }],
+      }),
+    ]);
+
+    engine.runScheduled(now);
+    engine.runScheduled(new Date('2026-03-10T12:15:00.000Z'));
+
+    expect(notifications).toEqual(['Digest for 2026-03-10']);
+    expect(engine.log.listNotifications()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Workflow Schedule Tests
+ * Tests for cron parsing and next-run calculation
+ */
+
+import { parseSchedule, nextRunAfter } from '../schedule';
+
+function next(expression: string, after: string): string | null {
+  const schedule = parseSchedule(expression);
+  if (!schedule) throw new Error(`Could not parse ${expression}`);
+  return nextRunAfter(schedule, new Date(after))?.toISOString() ?? null;
+}
+
+describe('parseSchedule', () => {
+  it('should accept cron expressions, aliases and phrases', () => {
+    expect(parseSchedule('*/15 9-17 * * 1-5')?.expression).toBe('*/15 9-17 * * 1-5');
+    expect(parseSchedule('@daily')?.expression).toBe('0 0 * * *');
+    expect(parseSchedule('Every 2 Hours')?.expression).toBe('0 */2 * * *');
+    expect(parseSchedule('hourly')?.expression).toBe('0 * * * *');
+  });
+
+  it('should reject malformed schedules', () => {
+    expect(parseSchedule('')).toBeNull();
+    expect(parseSchedule('sometimes')).toBeNull();
+    expect(parseSchedule('61 * * * *')).toBeNull();
+    expect(parseSchedule('* * *')).toBeNull();
+    expect(parseSchedule('every 90 minutes')).toBeNull();
+  });
+});
+
+describe('nextRunAfter', () => {
+  it('should find the next matching minute strictly after the given time', () => {
+    expect(next('*/15 * * * *', '2026-03-10T12:00:00.000Z')).toBe('2026-03-10T12:15:00.000Z');
+    expect(next('*/15 * * * *', '2026-03-10T12:07:30.000Z')).toBe('2026-03-10T12:15:00.000Z');
+  });
+
+  it('should roll over days, months and years', () => {
+    expect(next('@daily', '2026-03-10T12:00:00.000Z')).toBe('2026-03-11T00:00:00.000Z');
+    expect(next('0 9 1 * *', '2026-03-10T12:00:00.000Z')).toBe('2026-04-01T09:00:00.000Z');
+    expect(next('@yearly', '2026-03-10T12:00:00.000Z')).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('should honour day-of-week restrictions', () => {
+    // 2026-03-10 is a Tuesday
+    expect(next('30 8 * * 1', '2026-03-10T12:00:00.000Z')).toBe('2026-03-16T08:30:00.000Z');
+    expect(next('0 0 * * 7', '2026-03-10T12:00:00.000Z')).toBe('2026-03-15T00:00:00.000Z');
+  });
+
+  it('should return null for dates that never occur', () => {
+    expect(next('0 0 31 2 *', '2026-03-10T12:00:00.000Z')).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Workflow Scheduler Tests
+ * Tests for picking the apps with scheduled workflows and running them
+ * without keeping their stores open
+ */
+
+import Database from 'better-sqlite3';
+import { runDueWorkflows } from '../scheduler';
+import type { WorkflowDefinition } from '@/lib/scaffolder-v2/types';
+
+interface AppRow {
+  id: string;
+  spec: string;
+  data: string;
+  hasSchedules: boolean;
+}
+
+const apps: AppRow[] = [];
+const findMany = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    app: {
+      findMany: (args: any) => findMany(args),
+      update: async ({ where, data }: any) => Object.assign(apps.find(app => app.id === where.id)!, data),
+    },
+  },
+}));
+
+const databases = new Map<string, Database.Database>();
+const open = new Set<string>();
+
+jest.mock('@/lib/nebula/db-manager', () => ({
+  nebulaDbManager: {
+    getDb: (appId: string) => {
+      open.add(appId);
+      if (!databases.has(appId)) databases.set(appId, new Database(':memory:'));
+      return databases.get(appId);
+    },
+    isOpen: (appId: string) => open.has(appId),
+    closeDb: (appId: string) => open.delete(appId),
+  },
+}));
+
+jest.mock('@/lib/webhooks/deliveries', () => ({
+  dispatchWebhookEvent: async () => [],
+}));
+
+const digest: WorkflowDefinition = {
+  id: 'digest',
+  name: 'Digest',
+  description: '',
+  trigger: { type: 'time_based', schedule: 'every 15 minutes' },
+  actions: [{ type: 'send_notification', target: 'owner', value: 'Digest' }],
+  enabled: true,
+};
+
+function select(args: any): Partial<AppRow>[] {
+  if (args.cursor) return [];
+  return apps
+    .filter(app => args.where?.hasSchedules === undefined || app.hasSchedules === args.where.hasSchedules)
+    .map(app => Object.fromEntries(Object.keys(args.select).map(key => [key, app[key as keyof AppRow]])));
+}
+
+beforeEach(() => {
+  findMany.mockImplementation(async (args: any) => select(args));
+});
+
+describe('runDueWorkflows', () => {
+  it('should only load flagged apps and close the stores it opened', async () => {
+    apps.push(
+      // Saved before the flag existed
+      { id: 'scheduled', spec: JSON.stringify({ workflows: [digest] }), data: '[]', hasSchedules: false },
+      { id: 'plain', spec: JSON.stringify({ workflows: [] }), data: '[]', hasSchedules: false }
+    );
+
+    await runDueWorkflows(new Date('2026-03-10T12:00:00.000Z'));
+    expect(apps.map(app => app.hasSchedules)).toEqual([true, false]);
+
+    findMany.mockClear();
+    const executed = await runDueWorkflows(new Date('2026-03-10T12:15:00.000Z'));
+
+    expect(executed).toBe(1);
+    expect(findMany).toHaveBeenCalledTimes(1);
+    expect(findMany).toHaveBeenCalledWith({ where: { hasSchedules: true }, select: { id: true, spec: true } });
+    expect([...databases.keys()]).toEqual(['scheduled']);
+    expect(open.size).toBe(0);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Workflow Definitions
+ * Reads the WorkflowDefinitions saved in an app's spec
+ */
+
+import type { WorkflowDefinition } from '@/lib/scaffolder-v2/types';
+import { parseAppSpec } from '@/lib/app-data/schema';
+
+const TRIGGER_TYPES = ['field_change', 'time_based', 'record_create', 'record_delete', 'manual'];
+const ACTION_TYPES = ['update_field', 'create_record', 'delete_record', 'send_notification', 'compute'];
+
+function isWorkflow(value: unknown): value is WorkflowDefinition {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<WorkflowDefinition>;
+  return (
+    typeof candidate.id === 'string' &&
+    !!candidate.trigger &&
+    TRIGGER_TYPES.includes(candidate.trigger.type) &&
+    Array.isArray(candidate.actions) &&
+    candidate.actions.every(action => action && ACTION_TYPES.includes(action.type))
+  );
+}
+
+/**
+ * Resolve the workflows stored in an app spec (`{ workflows: WorkflowDefinition[] }`).
+ * Malformed entries are dropped rather than failing every write.
+ */
+export function resolveAppWorkflows(spec: unknown): WorkflowDefinition[] {
+  const parsed = parseAppSpec(spec);
+  if (!parsed || !Array.isArray(parsed.workflows)) return [];
+  return (parsed.workflows as unknown[]).filter(isWorkflow);
+}
+
+/**
+ * Whether the spec has an enabled `time_based` workflow, stored as
+ * App.hasSchedules so the scheduler only loads apps that need it
+ */
+export function hasScheduledWorkflows(spec: unknown): boolean {
+  return resolveAppWorkflows(spec).some(workflow => workflow.enabled !== false && workflow.trigger.type === 'time_based');
+}
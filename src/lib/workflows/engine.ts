@@ -0,0 +1,444 @@
+/**
+ * Workflow Engine
+ * Runs an app's WorkflowDefinitions against its data store.
+ *
+ * The engine subscribes to the store's change events, so every committed
+ * record write (from the data API, the Nebula runner or another workflow)
+ * fires matching `record_create`, `field_change` and `record_delete`
+ * workflows. `time_based` workflows are run by the scheduler and `manual` ones
+ * on request. Each workflow's actions run in one transaction: if an action
+ * fails, the workflow's writes are rolled back, their change events are never
+ * published, and the failure is logged.
+ */
+
+import type { WorkflowDefinition } from '@/lib/scaffolder-v2/types';
+import type { DataRecord } from '@/lib/primitives/types';
+import type { AppDataStore, DataCollection, DataChangeEvent } from '@/lib/app-data/store';
+import { AppDataError } from '@/lib/app-data/store';
+import { prepareWrite } from '@/lib/app-data/validation';
+import { evaluateFormula, isTruthy, type FormulaScope } from '@/lib/formulas';
+import { generateId } from '@/lib/utils';
+import { WorkflowLog } from './log';
+import { parseSchedule, nextRunAfter } from './schedule';
+import {
+  WorkflowError,
+  type WorkflowAction,
+  type WorkflowActionResult,
+  type WorkflowExecution,
+  type WorkflowNotification,
+  type WorkflowTriggerType,
+} from './types';
+
+/** Longest chain of workflows triggering each other before the engine stops */
+export const MAX_WORKFLOW_DEPTH = 5;
+
+const LAST_RUN_META_PREFIX = 'workflow_last_run:';
+
+const TRIGGER_FOR_CHANGE: Record<DataChangeEvent['type'], WorkflowTriggerType> = {
+  create: 'record_create',
+  update: 'field_change',
+  delete: 'record_delete',
+};
+
+export interface WorkflowEngineOptions {
+  /** Clock for schedules and date formulas */
+  now?: () => Date;
+  /** Called for each notification once its workflow has committed */
+  onNotification?: (notification: WorkflowNotification) => void;
+}
+
+interface TriggerContext {
+  trigger: WorkflowTriggerType;
+  collection: DataCollection;
+  record?: DataRecord;
+  /** The record before a field change */
+  previous?: DataRecord;
+  /** The record removed by a delete; readable by formulas but not writable */
+  deleted?: DataRecord;
+}
+
+interface ActionOutcome {
+  result: WorkflowActionResult;
+  /** The record in scope after the action (undefined once deleted) */
+  record?: DataRecord;
+}
+
+function isEnabled(workflow: WorkflowDefinition): boolean {
+  return workflow.enabled !== false;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function fieldChanged(workflow: WorkflowDefinition, event: DataChangeEvent): boolean {
+  if (!event.previous) return false;
+  const field = workflow.trigger.field;
+  if (field) {
+    return !sameValue(event.previous[field], event.record[field]);
+  }
+  const keys = new Set([...Object.keys(event.previous), ...Object.keys(event.record)]);
+  keys.delete('updatedAt');
+  return Array.from(keys).some(key => !sameValue(event.previous![key], event.record[key]));
+}
+
+/**
+ * Replace `{{ expression }}` placeholders with values from the scope
+ */
+function interpolate(template: string, scope: FormulaScope): string {
+  return template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, expression: string) => {
+    try {
+      const value = evaluateFormula(expression, scope);
+      return value === null || value === undefined ? '' : String(value);
+    } catch {
+      return '';
+    }
+  });
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof AppDataError && error.issues.length > 0) {
+    return error.issues.map(issue => issue.message).join('; ');
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class WorkflowEngine {
+  public readonly log: WorkflowLog;
+  private readonly store: AppDataStore;
+  private readonly workflows: WorkflowDefinition[];
+  private readonly options: WorkflowEngineOptions;
+  private readonly chain: string[] = [];
+  private readonly unsubscribe: () => void;
+
+  constructor(store: AppDataStore, workflows: WorkflowDefinition[], options: WorkflowEngineOptions = {}) {
+    this.store = store;
+    this.workflows = workflows;
+    this.options = options;
+    this.log = new WorkflowLog(store.db);
+    this.unsubscribe = store.subscribe(event => {
+      this.handleChange(event);
+    });
+  }
+
+  /**
+   * The workflows this engine runs
+   */
+  public list(): WorkflowDefinition[] {
+    return this.workflows;
+  }
+
+  /**
+   * Stop reacting to record writes
+   */
+  public detach(): void {
+    this.unsubscribe();
+  }
+
+  /**
+   * Run workflows triggered by a record write.
+   * Workflows apply to the app's primary collection.
+   */
+  public handleChange(event: DataChangeEvent): WorkflowExecution[] {
+    if (event.collection !== this.store.collection().name) return [];
+
+    const trigger = TRIGGER_FOR_CHANGE[event.type];
+    const executions: WorkflowExecution[] = [];
+
+    for (const workflow of this.workflows) {
+      if (!isEnabled(workflow) || workflow.trigger.type !== trigger) continue;
+      if (trigger === 'field_change' && !fieldChanged(workflow, event)) continue;
+
+      const execution = this.execute(workflow, {
+        trigger,
+        collection: this.store.collection(event.collection),
+        record: event.type === 'delete' ? undefined : event.record,
+        previous: event.previous,
+        deleted: event.type === 'delete' ? event.record : undefined,
+      });
+      if (execution) executions.push(execution);
+    }
+
+    return executions;
+  }
+
+  /**
+   * Run a workflow on request, optionally against one record.
+   * The trigger condition is not checked: asking for a run is the trigger.
+   */
+  public runManual(workflowId: string, recordId?: string): WorkflowExecution {
+    const workflow = this.workflows.find(wf => wf.id === workflowId);
+    if (!workflow) {
+      throw new WorkflowError(`Workflow ${workflowId} not found`, 'WORKFLOW_NOT_FOUND');
+    }
+    if (!isEnabled(workflow)) {
+      throw new WorkflowError(`Workflow ${workflow.name} is disabled`, 'WORKFLOW_DISABLED');
+    }
+
+    const collection = this.store.collection();
+    let record: DataRecord | undefined;
+    if (recordId) {
+      record = collection.get(recordId) ?? undefined;
+      if (!record) {
+        throw new WorkflowError(`Record ${recordId} not found`, 'RECORD_NOT_FOUND');
+      }
+    }
+
+    return this.execute(workflow, { trigger: 'manual', collection, record }, { skipCondition: true })!;
+  }
+
+  /**
+   * Run `time_based` workflows whose schedule has come due since their last run.
+   *
+   * A workflow's first check only records the current time, so enabling a
+   * schedule never backfills missed runs. With a condition, the actions run
+   * once per matching record; without one, they run once with no record.
+   */
+  public runScheduled(now: Date = this.now()): WorkflowExecution[] {
+    const executions: WorkflowExecution[] = [];
+
+    for (const workflow of this.workflows) {
+      if (!isEnabled(workflow) || workflow.trigger.type !== 'time_based') continue;
+
+      const schedule = parseSchedule(workflow.trigger.schedule);
+      if (!schedule) continue;
+
+      const key = `${LAST_RUN_META_PREFIX}${workflow.id}`;
+      const lastRun = this.store.getMeta(key);
+      if (!lastRun) {
+        this.store.setMeta(key, now.toISOString());
+        continue;
+      }
+
+      const due = nextRunAfter(schedule, new Date(lastRun));
+      if (!due || due.getTime() > now.getTime()) continue;
+
+      // Record the run before executing so a failing workflow is not retried every tick
+      this.store.setMeta(key, now.toISOString());
+
+      const collection = this.store.collection();
+      if (workflow.trigger.condition) {
+        for (const record of collection.list()) {
+          const execution = this.execute(workflow, { trigger: 'time_based', collection, record });
+          if (execution) executions.push(execution);
+        }
+      } else {
+        executions.push(this.execute(workflow, { trigger: 'time_based', collection })!);
+      }
+    }
+
+    return executions;
+  }
+
+  /**
+   * When a `time_based` workflow will next run, or null if it is not scheduled
+   */
+  public nextRunAt(workflow: WorkflowDefinition, now: Date = this.now()): string | null {
+    if (workflow.trigger.type !== 'time_based' || !isEnabled(workflow)) return null;
+    const schedule = parseSchedule(workflow.trigger.schedule);
+    if (!schedule) return null;
+
+    const lastRun = this.store.getMeta(`${LAST_RUN_META_PREFIX}${workflow.id}`);
+    const next = nextRunAfter(schedule, lastRun ? new Date(lastRun) : now);
+    return next ? next.toISOString() : null;
+  }
+
+  private now(): Date {
+    return this.options.now ? this.options.now() : new Date();
+  }
+
+  private scope(context: TriggerContext, record: DataRecord | undefined): FormulaScope {
+    return {
+      record,
+      variables: { record: record ?? null, previous: context.previous ?? null },
+      now: this.now(),
+    };
+  }
+
+  /**
+   * Run a workflow's actions if its condition holds. Returns null when the
+   * condition is false or the workflow is already running in this chain.
+   */
+  private execute(
+    workflow: WorkflowDefinition,
+    context: TriggerContext,
+    options: { skipCondition?: boolean } = {}
+  ): WorkflowExecution | null {
+    // A workflow re-triggering itself (e.g. update_field firing its own field_change) is ignored
+    if (this.chain.includes(workflow.id)) return null;
+
+    const startedAt = new Date();
+    const execution: WorkflowExecution = {
+      id: generateId(),
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      trigger: context.trigger,
+      recordId: context.record?.id ?? context.deleted?.id,
+      status: 'success',
+      actions: [],
+      startedAt: startedAt.toISOString(),
+      durationMs: 0,
+    };
+
+    const finish = (error?: string): WorkflowExecution => {
+      if (error) {
+        execution.status = 'error';
+        execution.error = error;
+      }
+      execution.durationMs = Date.now() - startedAt.getTime();
+      this.log.record(execution);
+      return execution;
+    };
+
+    if (this.chain.length >= MAX_WORKFLOW_DEPTH) {
+      return finish(`Stopped: more than ${MAX_WORKFLOW_DEPTH} workflows triggered each other`);
+    }
+
+    if (!options.skipCondition && workflow.trigger.condition) {
+      try {
+        const scope = this.scope(context, context.record ?? context.deleted);
+        if (!isTruthy(evaluateFormula(workflow.trigger.condition, scope))) return null;
+      } catch (error) {
+        return finish(`Condition failed: ${describeError(error)}`);
+      }
+    }
+
+    const notifications: WorkflowNotification[] = [];
+    this.chain.push(workflow.id);
+    try {
+      this.store.transaction(() => {
+        let current = context.record;
+        for (const action of workflow.actions) {
+          const outcome = this.runAction(action, workflow, context, current, notifications);
+          execution.actions.push(outcome.result);
+          current = outcome.record;
+          if (outcome.result.status === 'error') {
+            // Throwing rolls back the workflow's earlier writes
+            throw new Error(`${action.type} failed: ${outcome.result.detail}`);
+          }
+        }
+      });
+    } catch (error) {
+      return finish(describeError(error));
+    } finally {
+      this.chain.pop();
+    }
+
+    for (const notification of notifications) {
+      this.log.addNotification(notification);
+      console.log(`[Workflow ${workflow.name}] Notify ${notification.recipient}: ${notification.message}`);
+      this.options.onNotification?.(notification);
+    }
+
+    return finish();
+  }
+
+  private runAction(
+    action: WorkflowAction,
+    workflow: WorkflowDefinition,
+    context: TriggerContext,
+    record: DataRecord | undefined,
+    notifications: WorkflowNotification[]
+  ): ActionOutcome {
+    const base = { type: action.type, target: action.target || '' };
+    const scope = this.scope(context, record ?? context.deleted);
+
+    try {
+      switch (action.type) {
+        case 'update_field':
+        case 'compute': {
+          if (!record) {
+            return { result: { ...base, status: 'skipped', detail: 'No record in scope' }, record };
+          }
+          if (!action.target) {
+            return { result: { ...base, status: 'error', detail: 'No target field' }, record };
+          }
+          if (action.type === 'compute' && !action.formula) {
+            return { result: { ...base, status: 'error', detail: 'compute requires a formula' }, record };
+          }
+
+          const value = action.formula ? evaluateFormula(action.formula, scope) : action.value;
+          const changes = prepareWrite(context.collection, { [action.target]: value }, record.id);
+          if (sameValue(record[action.target], changes[action.target])) {
+            return { result: { ...base, status: 'skipped', detail: 'Value unchanged' }, record };
+          }
+
+          const updated = context.collection.update(record.id, changes);
+          if (!updated) {
+            return { result: { ...base, status: 'skipped', detail: 'Record no longer exists' } };
+          }
+          return {
+            result: { ...base, status: 'success', detail: `${action.target} = ${JSON.stringify(updated[action.target] ?? null)}` },
+            record: updated,
+          };
+        }
+
+        case 'create_record': {
+          const collection = this.resolveCollection(action.target) ?? (action.target ? null : context.collection);
+          if (!collection) {
+            return { result: { ...base, status: 'error', detail: `Unknown collection "${action.target}"` }, record };
+          }
+
+          const template = action.value ?? {};
+          if (typeof template !== 'object' || Array.isArray(template)) {
+            return { result: { ...base, status: 'error', detail: 'create_record value must be an object of fields' }, record };
+          }
+
+          const fields: Record<string, unknown> = {};
+          for (const [key, value] of Object.entries(template as Record<string, unknown>)) {
+            fields[key] = typeof value === 'string' ? interpolate(value, scope) : value;
+          }
+
+          const created = collection.insert(prepareWrite(collection, fields));
+          return { result: { ...base, status: 'success', detail: `Created ${created.id}` }, record };
+        }
+
+        case 'delete_record': {
+          if (!record) {
+            return { result: { ...base, status: 'skipped', detail: 'No record in scope' }, record };
+          }
+          const deleted = context.collection.delete(record.id);
+          return {
+            result: { ...base, status: deleted ? 'success' : 'skipped', detail: deleted ? `Deleted ${record.id}` : 'Record no longer exists' },
+          };
+        }
+
+        case 'send_notification': {
+          const template = typeof action.value === 'string' && action.value
+            ? action.value
+            : workflow.description || workflow.name;
+          const notification: WorkflowNotification = {
+            id: generateId(),
+            workflowId: workflow.id,
+            recipient: action.target || 'owner',
+            message: interpolate(template, scope),
+            recordId: record?.id,
+            createdAt: this.now().toISOString(),
+          };
+          notifications.push(notification);
+          return { result: { ...base, status: 'success', detail: notification.message }, record };
+        }
+
+        default:
+          return { result: { ...base, status: 'error', detail: `Unsupported action "${action.type}"` }, record };
+      }
+    } catch (error) {
+      return { result: { ...base, status: 'error', detail: describeError(error) }, record };
+    }
+  }
+
+  /**
+   * Find a collection by schema name or label, ignoring case
+   */
+  private resolveCollection(target: string | undefined): DataCollection | null {
+    if (!target) return null;
+    const wanted = target.toLowerCase();
+    for (const name of this.store.collectionNames()) {
+      const collection = this.store.collection(name);
+      if (name.toLowerCase() === wanted || collection.schema?.label.toLowerCase() === wanted) {
+        return collection;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Workflows Module Index
+ * Runtime execution of WorkflowDefinition automations
+ */
+
+export {
+  WorkflowEngine,
+  MAX_WORKFLOW_DEPTH,
+  type WorkflowEngineOptions,
+} from './engine';
+
+export {
+  WorkflowLog,
+  MAX_LOGGED_RUNS,
+  MAX_LOGGED_NOTIFICATIONS,
+} from './log';
+
+export {
+  parseSchedule,
+  nextRunAfter,
+  type CronSchedule,
+} from './schedule';
+
+export { resolveAppWorkflows, hasScheduledWorkflows } from './definitions';
+
+export { runDueWorkflows } from './scheduler';
+
+export {
+  WorkflowError,
+  type WorkflowTriggerType,
+  type WorkflowActionType,
+  type WorkflowAction,
+  type WorkflowActionResult,
+  type WorkflowActionStatus,
+  type WorkflowExecution,
+  type WorkflowExecutionStatus,
+  type WorkflowNotification,
+  type WorkflowErrorCode,
+} from './types';
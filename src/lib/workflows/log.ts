@@ -0,0 +1,138 @@
+/**
+ * Workflow Execution Log
+ * Per-app record of workflow runs and notifications, kept in the app's own
+ * SQLite database next to its records.
+ */
+
+import type Database from 'better-sqlite3';
+import type { WorkflowExecution, WorkflowNotification } from './types';
+
+const RUNS_TABLE = '_workflow_runs';
+const NOTIFICATIONS_TABLE = '_workflow_notifications';
+
+/** Runs kept per app; older entries are pruned on write */
+export const MAX_LOGGED_RUNS = 500;
+
+/** Notifications kept per app */
+export const MAX_LOGGED_NOTIFICATIONS = 500;
+
+interface RunRow {
+  id: string;
+  workflowId: string;
+  workflowName: string;
+  trigger: string;
+  recordId: string | null;
+  status: string;
+  actions: string;
+  error: string | null;
+  startedAt: string;
+  durationMs: number;
+}
+
+export class WorkflowLog {
+  private readonly db: Database.Database;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS "${RUNS_TABLE}" (
+        id TEXT PRIMARY KEY,
+        workflowId TEXT NOT NULL,
+        workflowName TEXT NOT NULL,
+        trigger TEXT NOT NULL,
+        recordId TEXT,
+        status TEXT NOT NULL,
+        actions TEXT NOT NULL,
+        error TEXT,
+        startedAt TEXT NOT NULL,
+        durationMs INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS "${NOTIFICATIONS_TABLE}" (
+        id TEXT PRIMARY KEY,
+        workflowId TEXT NOT NULL,
+        recipient TEXT NOT NULL,
+        message TEXT NOT NULL,
+        recordId TEXT,
+        createdAt TEXT NOT NULL
+      );
+    `);
+  }
+
+  public record(execution: WorkflowExecution): void {
+    this.db
+      .prepare(
+        `INSERT INTO "${RUNS_TABLE}" (id, workflowId, workflowName, trigger, recordId, status, actions, error, startedAt, durationMs)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        execution.id,
+        execution.workflowId,
+        execution.workflowName,
+        execution.trigger,
+        execution.recordId ?? null,
+        execution.status,
+        JSON.stringify(execution.actions),
+        execution.error ?? null,
+        execution.startedAt,
+        Math.round(execution.durationMs)
+      );
+    this.prune(RUNS_TABLE, MAX_LOGGED_RUNS);
+  }
+
+  /**
+   * Most recent runs first
+   */
+  public list(options: { workflowId?: string; limit?: number } = {}): WorkflowExecution[] {
+    const limit = options.limit ?? 50;
+    const rows = (options.workflowId
+      ? this.db
+          .prepare(`SELECT * FROM "${RUNS_TABLE}" WHERE workflowId = ? ORDER BY rowid DESC LIMIT ?`)
+          .all(options.workflowId, limit)
+      : this.db.prepare(`SELECT * FROM "${RUNS_TABLE}" ORDER BY rowid DESC LIMIT ?`).all(limit)) as RunRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      workflowId: row.workflowId,
+      workflowName: row.workflowName,
+      trigger: row.trigger as WorkflowExecution['trigger'],
+      recordId: row.recordId ?? undefined,
+      status: row.status as WorkflowExecution['status'],
+      actions: JSON.parse(row.actions),
+      error: row.error ?? undefined,
+      startedAt: row.startedAt,
+      durationMs: row.durationMs,
+    }));
+  }
+
+  public addNotification(notification: WorkflowNotification): void {
+    this.db
+      .prepare(
+        `INSERT INTO "${NOTIFICATIONS_TABLE}" (id, workflowId, recipient, message, recordId, createdAt) VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        notification.id,
+        notification.workflowId,
+        notification.recipient,
+        notification.message,
+        notification.recordId ?? null,
+        notification.createdAt
+      );
+    this.prune(NOTIFICATIONS_TABLE, MAX_LOGGED_NOTIFICATIONS);
+  }
+
+  /**
+   * Most recent notifications first
+   */
+  public listNotifications(limit = 50): WorkflowNotification[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM "${NOTIFICATIONS_TABLE}" ORDER BY rowid DESC LIMIT ?`)
+      .all(limit) as Array<WorkflowNotification & { recordId: string | null }>;
+    return rows.map(row => ({ ...row, recordId: row.recordId ?? undefined }));
+  }
+
+  private prune(table: string, keep: number): void {
+    this.db
+      .prepare(`DELETE FROM "${table}" WHERE rowid <= (SELECT rowid FROM "${table}" ORDER BY rowid DESC LIMIT 1 OFFSET ?)`)
+      .run(keep);
+  }
+}
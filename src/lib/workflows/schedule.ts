@@ -0,0 +1,162 @@
+/**
+ * Workflow Schedules
+ * Cron-style schedules for `time_based` workflow triggers.
+ *
+ * Accepts standard five-field cron expressions (minute hour day-of-month month
+ * day-of-week) with `*`, lists, ranges and steps, the usual `@daily`-style
+ * aliases, and the phrasings the workflow agent tends to produce such as
+ * "every 15 minutes" or "daily". Schedules are evaluated in UTC.
+ */
+
+export interface CronSchedule {
+  /** Normalized five-field expression */
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Cron matches either day field when both are restricted */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+  yearly: '0 0 1 1 *',
+  monthly: '0 0 1 * *',
+  weekly: '0 0 * * 0',
+  daily: '0 0 * * *',
+  hourly: '0 * * * *',
+  'every minute': '* * * * *',
+  'every hour': '0 * * * *',
+  'every day': '0 0 * * *',
+  'every week': '0 0 * * 0',
+  'every month': '0 0 1 * *',
+};
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7],  // day of week (0 and 7 are Sunday)
+];
+
+const MAX_SEARCH_MINUTES = 366 * 24 * 60;
+
+function normalize(expression: string): string | null {
+  const text = expression.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (ALIASES[text]) return ALIASES[text];
+
+  const every = /^every (\d+) (minute|hour|day)s?$/.exec(text);
+  if (every) {
+    const n = Number(every[1]);
+    if (every[2] === 'minute' && n >= 1 && n <= 59) return `*/${n} * * * *`;
+    if (every[2] === 'hour' && n >= 1 && n <= 23) return `0 */${n} * * *`;
+    if (every[2] === 'day' && n >= 1 && n <= 31) return `0 0 */${n} * *`;
+    return null;
+  }
+
+  return text.split(' ').length === 5 ? text : null;
+}
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/.exec(part);
+    if (!match) return null;
+
+    const [, start, end, step] = match;
+    const from = start === '*' ? min : Number(start);
+    const to = start === '*' ? max : end !== undefined ? Number(end) : step !== undefined ? max : from;
+    const increment = step !== undefined ? Number(step) : 1;
+
+    if (from < min || to > max || from > to || increment < 1) return null;
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values.size > 0 ? values : null;
+}
+
+/**
+ * Parse a schedule expression, or return null if it is not understood
+ */
+export function parseSchedule(expression: string | undefined | null): CronSchedule | null {
+  if (!expression) return null;
+  const normalized = normalize(expression);
+  if (!normalized) return null;
+
+  const fields = normalized.split(' ');
+  const parsed = fields.map((field, i) => parseField(field, FIELD_RANGES[i]));
+  if (parsed.some(values => values === null)) return null;
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed as Set<number>[];
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+    daysOfWeek.delete(7);
+  }
+
+  return {
+    expression: normalized,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) return true;
+  if (schedule.anyDayOfMonth) return dow;
+  if (schedule.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+/**
+ * The first time strictly after `after` that the schedule fires,
+ * or null if there is none within a year
+ */
+export function nextRunAfter(schedule: CronSchedule, after: Date): Date | null {
+  const time = new Date(after.getTime());
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+  for (let steps = 0; steps < MAX_SEARCH_MINUTES; steps++) {
+    if (!schedule.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return time;
+  }
+
+  return null;
+}
@@ -0,0 +1,67 @@
+/**
+ * Workflow Scheduler
+ * Runs due `time_based` workflows across all apps
+ */
+
+import prisma from '@/lib/db';
+import { withAppWorkflowEngine } from '@/lib/app-data/open';
+import { hasScheduledWorkflows } from './definitions';
+
+// Apps whose hasSchedules flag is checked per page during the one-time sync
+const SYNC_PAGE_SIZE = 100;
+
+let flagsSynced = false;
+
+/**
+ * Bring App.hasSchedules in line with each spec, once per process, so apps
+ * saved before the flag existed are still picked up
+ */
+async function syncScheduleFlags(): Promise<void> {
+  let cursor: string | undefined;
+  for (;;) {
+    const apps = await prisma.app.findMany({
+      select: { id: true, spec: true, hasSchedules: true },
+      orderBy: { id: 'asc' },
+      take: SYNC_PAGE_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    for (const app of apps) {
+      const hasSchedules = hasScheduledWorkflows(app.spec);
+      if (hasSchedules !== app.hasSchedules) {
+        await prisma.app.update({ where: { id: app.id }, data: { hasSchedules } });
+      }
+    }
+    if (apps.length < SYNC_PAGE_SIZE) break;
+    cursor = apps[apps.length - 1].id;
+  }
+  flagsSynced = true;
+}
+
+/**
+ * Check every app with a scheduled workflow and run the ones that are due.
+ * Apps that aren't otherwise open are opened for the run and closed again.
+ * Returns the number of workflow executions.
+ */
+export async function runDueWorkflows(now: Date = new Date()): Promise<number> {
+  if (!flagsSynced) {
+    await syncScheduleFlags();
+  }
+
+  const apps = await prisma.app.findMany({
+    where: { hasSchedules: true },
+    select: { id: true, spec: true },
+  });
+
+  let executed = 0;
+  for (const app of apps) {
+    if (!hasScheduledWorkflows(app.spec)) continue;
+
+    try {
+      executed += withAppWorkflowEngine(app, engine => engine.runScheduled(now).length);
+    } catch (error) {
+      console.error(`[Workflows ${app.id}] Scheduled run failed:`, error);
+    }
+  }
+
+  return executed;
+}
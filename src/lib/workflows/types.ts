@@ -0,0 +1,72 @@
+/**
+ * Workflow Runtime Types
+ * Types for executing WorkflowDefinition automations against app data
+ */
+
+import type { WorkflowDefinition } from '@/lib/scaffolder-v2/types';
+
+export type WorkflowTriggerType = WorkflowDefinition['trigger']['type'];
+
+export type WorkflowActionType = WorkflowDefinition['actions'][number]['type'];
+
+export type WorkflowAction = WorkflowDefinition['actions'][number];
+
+export type WorkflowExecutionStatus = 'success' | 'error';
+
+export type WorkflowActionStatus = 'success' | 'skipped' | 'error';
+
+/**
+ * Outcome of one action within an execution
+ */
+export interface WorkflowActionResult {
+  type: WorkflowActionType;
+  target: string;
+  status: WorkflowActionStatus;
+  detail?: string;
+}
+
+/**
+ * One run of a workflow, as stored in the app's execution log
+ */
+export interface WorkflowExecution {
+  id: string;
+  workflowId: string;
+  workflowName: string;
+  trigger: WorkflowTriggerType;
+  recordId?: string;
+  status: WorkflowExecutionStatus;
+  actions: WorkflowActionResult[];
+  error?: string;
+  startedAt: string;
+  durationMs: number;
+}
+
+/**
+ * Notification produced by a `send_notification` action
+ */
+export interface WorkflowNotification {
+  id: string;
+  workflowId: string;
+  recipient: string;
+  message: string;
+  recordId?: string;
+  createdAt: string;
+}
+
+export type WorkflowErrorCode =
+  | 'WORKFLOW_NOT_FOUND'
+  | 'WORKFLOW_DISABLED'
+  | 'RECORD_NOT_FOUND';
+
+/**
+ * Error raised for workflow requests callers map to HTTP statuses
+ */
+export class WorkflowError extends Error {
+  public readonly code: WorkflowErrorCode;
+
+  constructor(message: string, code: WorkflowErrorCode) {
+    super(message);
+    this.name = 'WorkflowError';
+    this.code = code;
+  }
+}
@@ -3,6 +3,18 @@ import type { NextRequest } from 'next/server';
 import { getToken } from 'next-auth/jwt';
 import { getBaseDomain, getSubdomain, isValidAppId } from '@/lib/utils';
 
+/**
+ * Request headers only the Nebula serve route may set, after its access check
+ * (see lib/nebula/access.ts). Client-supplied values never reach an app.
+ */
+const NEBULA_INTERNAL_HEADERS = ['x-nebula-access'];
+
+function withoutNebulaHeaders(request: NextRequest): Headers {
+  const headers = new Headers(request.headers);
+  NEBULA_INTERNAL_HEADERS.forEach(name => headers.delete(name));
+  return headers;
+}
+
 /**
  * Middleware for centralized authentication and route protection
  * and Nebula subdomain/path-based app routing.
@@ -14,10 +26,15 @@ export async function middleware(request: NextRequest) {
   const domain = getBaseDomain(normalizedHost);
 
   // Skip middleware for internal Next.js routes and API routes that handle their own logic
-  if (pathname.startsWith('/_next') || pathname.startsWith('/api/nebula/serve')) {
+  if (pathname.startsWith('/_next')) {
     return NextResponse.next();
   }
 
+  // Nebula serve checks app access itself; only its internal headers are stripped here
+  if (pathname.startsWith('/api/nebula/serve')) {
+    return NextResponse.next({ request: { headers: withoutNebulaHeaders(request) } });
+  }
+
   // --- Demo Subdomain Routing ---
   const subdomain = getSubdomain(host);
   const isDemoSubdomain = subdomain === 'demo';
@@ -77,7 +94,7 @@ export async function middleware(request: NextRequest) {
       url.searchParams.set('appId', appId);
       url.searchParams.set('originalPath', originalPath);
       
-      return NextResponse.rewrite(url);
+      return NextResponse.rewrite(url, { request: { headers: withoutNebulaHeaders(request) } });
     }
   }
 
@@ -87,8 +104,13 @@ export async function middleware(request: NextRequest) {
     '/auth/signin',
     '/auth/signup',
     '/auth/error',
+    '/auth/forgot-password',
+    '/auth/reset-password',
+    '/auth/verify-email',
     '/api/auth',
     '/api/nebula/serve', // Allow Nebula serving to be accessible (internally it handles its own security)
+    '/api/nebula/bundle', // Prebuilt app bundles loaded by served Nebula pages
+    '/api/billing/webhook', // Stripe deliveries, authenticated by their signature
     '/demo-static', // Allow access to static demo assets
     '/about',
     '/blog',
@@ -111,6 +133,12 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // Scripts send an API token instead of a session cookie. Routes that accept
+  // tokens verify them; every other route still requires a session.
+  if (pathname.startsWith('/api/') && /^Bearer\s/i.test(request.headers.get('authorization') || '')) {
+    return NextResponse.next();
+  }
+
   // For protected routes, check authentication
   try {
     const token = await getToken({